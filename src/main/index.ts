@@ -1,11 +1,14 @@
-import { app, BrowserWindow, Menu } from "electron";
+import { app, BrowserWindow, dialog, Menu } from "electron";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
 import { initializeAutoUpdater } from "./app-updater";
 import { registerIpcHandlers } from "./ipc";
+import { migrateAppStoreOnStartup } from "./store";
 import { buildRendererContentSecurityPolicy, withContentSecurityPolicyHeader } from "./security/csp";
+import { takeStorageRecoveryWarnings } from "./storage-recovery";
 import { cleanupWorkshopOcrHotkey, initializeWorkshopOcrAutomation } from "./workshop-automation";
 import { cleanupWorkshopOcrEngine } from "./workshop-store/ocr";
+import { migrateWorkshopStoreOnStartup } from "./workshop-store/store";
 
 function resolvePreloadPath(): string {
   const envPath = process.env.ELECTRON_PRELOAD_URL;
@@ -80,11 +83,27 @@ function resolveAppIconPath(): string | undefined {
   return candidates.find((candidate) => existsSync(candidate));
 }
 
+function showStorageRecoveryWarnings(): void {
+  const warnings = takeStorageRecoveryWarnings();
+  if (warnings.length === 0) {
+    return;
+  }
+  void dialog.showMessageBox({
+    type: "warning",
+    title: "数据文件已自动恢复",
+    message: "检测到存储文件异常，已尝试自动恢复，请核对最近的数据。",
+    detail: warnings.join("\n"),
+  });
+}
+
 app.whenReady().then(() => {
+  migrateAppStoreOnStartup();
+  migrateWorkshopStoreOnStartup();
   registerIpcHandlers();
   initializeWorkshopOcrAutomation();
   createWindow();
   initializeAutoUpdater();
+  showStorageRecoveryWarnings();
 
   app.on("activate", () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -66,3 +66,10 @@ export function readStringArray(payload: PayloadObject, key: string, channel: st
   }
   return value as string[];
 }
+
+export function readOptionalStringArray(payload: PayloadObject, key: string, channel: string): string[] | undefined {
+  if (payload[key] === undefined) {
+    return undefined;
+  }
+  return readStringArray(payload, key, channel);
+}
@@ -1,6 +1,14 @@
 import { IPC_CHANNELS } from "../../shared/ipc";
-import { addAccount, deleteAccount, renameAccount, selectAccount } from "../store";
-import { readObjectPayload, readOptionalString, readString } from "./guards";
+import {
+  addAccount,
+  addAccountServer,
+  deleteAccount,
+  deleteAccountServer,
+  renameAccount,
+  selectAccount,
+  updateAccountServer,
+} from "../store";
+import { readObjectPayload, readOptionalNumber, readOptionalString, readOptionalStringArray, readString } from "./guards";
 import { registerIpcHandler } from "./register-handler";
 
 export function registerAccountIpcHandlers(): void {
@@ -16,6 +24,7 @@ export function registerAccountIpcHandlers(): void {
       readString(body, "accountId", channel),
       readString(body, "name", channel),
       readOptionalString(body, "regionTag", channel),
+      readOptionalStringArray(body, "tags", channel),
     );
   });
   registerIpcHandler(IPC_CHANNELS.deleteAccount, (_event, payload: unknown) => {
@@ -28,4 +37,28 @@ export function registerAccountIpcHandlers(): void {
     const body = readObjectPayload(payload, channel);
     return selectAccount(readString(body, "accountId", channel));
   });
+  registerIpcHandler(IPC_CHANNELS.addAccountServer, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.addAccountServer;
+    const body = readObjectPayload(payload, channel);
+    return addAccountServer(
+      readString(body, "accountId", channel),
+      readString(body, "name", channel),
+      readOptionalNumber(body, "characterSlots", channel),
+    );
+  });
+  registerIpcHandler(IPC_CHANNELS.updateAccountServer, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.updateAccountServer;
+    const body = readObjectPayload(payload, channel);
+    return updateAccountServer(
+      readString(body, "accountId", channel),
+      readString(body, "serverId", channel),
+      readString(body, "name", channel),
+      readOptionalNumber(body, "characterSlots", channel),
+    );
+  });
+  registerIpcHandler(IPC_CHANNELS.deleteAccountServer, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.deleteAccountServer;
+    const body = readObjectPayload(payload, channel);
+    return deleteAccountServer(readString(body, "accountId", channel), readString(body, "serverId", channel));
+  });
 }
@@ -1,10 +1,72 @@
 import { IPC_CHANNELS } from "../../shared/ipc";
 import { APP_BUILD_INFO } from "../../shared/build-meta";
 import { checkForAppUpdate } from "../app-updater";
-import { clearHistory, exportDataToFile, getAppState, importDataFromFile, resetWeeklyStats, undoOperations, updateSettings } from "../store";
-import { readObjectPayload, readOptionalNumber } from "./guards";
+import type { ImportAccountSelection, ImportMergeMode, OperationJournalQuery } from "../../shared/types";
+import {
+  applyImportSelection,
+  cancelScheduledSeasonRules,
+  clearHistory,
+  exportDataToFile,
+  exportOperationJournalToFile,
+  exportWeeklyPlanToFile,
+  getAppState,
+  importDataFromFile,
+  importSeasonRulesFromFile,
+  listRestorePoints,
+  previewImportDataFromFile,
+  previewRestorePoint,
+  queryOperationJournal,
+  redoOperations,
+  resetSeasonRules,
+  resetWeeklyStats,
+  revertOperation,
+  undoOperations,
+  unlockImportData,
+  updateSettings,
+} from "../store";
+import {
+  readObjectPayload,
+  readOptionalBoolean,
+  readOptionalNumber,
+  readOptionalObjectPayload,
+  readOptionalString,
+  readString,
+  readStringArray,
+} from "./guards";
 import { registerIpcHandler } from "./register-handler";
 
+const IMPORT_MERGE_MODES: readonly ImportMergeMode[] = ["skip", "merge", "overwrite"];
+
+function readImportSelections(payload: Record<string, unknown>, channel: string): ImportAccountSelection[] {
+  if (!Array.isArray(payload.accounts)) {
+    throw new Error(`[${channel}] invalid payload: field "accounts" must be object[]`);
+  }
+  return payload.accounts.map((item) => {
+    const body = readObjectPayload(item, channel);
+    const mode = readString(body, "mode", channel) as ImportMergeMode;
+    if (!IMPORT_MERGE_MODES.includes(mode)) {
+      throw new Error(`[${channel}] invalid payload: field "mode" is invalid`);
+    }
+    return {
+      accountId: readString(body, "accountId", channel),
+      mode,
+      characterIds: readStringArray(body, "characterIds", channel),
+    };
+  });
+}
+
+function readOperationJournalQuery(payload: unknown, channel: string): OperationJournalQuery {
+  const body = readObjectPayload(payload, channel);
+  return {
+    characterId: readOptionalString(body, "characterId", channel),
+    action: readOptionalString(body, "action", channel),
+    keyword: readOptionalString(body, "keyword", channel),
+    from: readOptionalString(body, "from", channel),
+    to: readOptionalString(body, "to", channel),
+    limit: readOptionalNumber(body, "limit", channel),
+  };
+}
+
 export function registerAppIpcHandlers(): void {
   registerIpcHandler(IPC_CHANNELS.getState, () => getAppState());
   registerIpcHandler(IPC_CHANNELS.getBuildInfo, () => APP_BUILD_INFO);
@@ -16,6 +78,16 @@ export function registerAppIpcHandlers(): void {
     const body = readObjectPayload(payload, channel);
     return undoOperations(readOptionalNumber(body, "steps", channel) ?? 1);
   });
+  registerIpcHandler(IPC_CHANNELS.redoOperations, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.redoOperations;
+    const body = readObjectPayload(payload, channel);
+    return redoOperations(readOptionalNumber(body, "steps", channel) ?? 1);
+  });
+  registerIpcHandler(IPC_CHANNELS.revertOperation, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.revertOperation;
+    const body = readObjectPayload(payload, channel);
+    return revertOperation(readString(body, "entryId", channel));
+  });
   registerIpcHandler(IPC_CHANNELS.clearHistory, () => clearHistory());
   registerIpcHandler(IPC_CHANNELS.updateSettings, (_event, payload: unknown) => {
     const channel = IPC_CHANNELS.updateSettings;
@@ -23,6 +95,49 @@ export function registerAppIpcHandlers(): void {
     const settings = readObjectPayload(body.settings, channel);
     return updateSettings(settings);
   });
-  registerIpcHandler(IPC_CHANNELS.exportData, async () => exportDataToFile());
+  registerIpcHandler(IPC_CHANNELS.exportData, async (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.exportData;
+    const body = readOptionalObjectPayload(payload, channel);
+    return exportDataToFile(body ? readOptionalString(body, "passphrase", channel) : undefined);
+  });
   registerIpcHandler(IPC_CHANNELS.importData, async () => importDataFromFile());
+  registerIpcHandler(IPC_CHANNELS.previewImportData, async () => previewImportDataFromFile());
+  registerIpcHandler(IPC_CHANNELS.unlockImportData, async (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.unlockImportData;
+    const body = readObjectPayload(payload, channel);
+    return unlockImportData({
+      token: readString(body, "token", channel),
+      passphrase: readString(body, "passphrase", channel),
+    });
+  });
+  registerIpcHandler(IPC_CHANNELS.applyImportSelection, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.applyImportSelection;
+    const body = readObjectPayload(payload, channel);
+    return applyImportSelection({
+      token: readString(body, "token", channel),
+      accounts: readImportSelections(body, channel),
+      includeSettings: readOptionalBoolean(body, "includeSettings", channel) ?? false,
+      includeWorkshop: readOptionalBoolean(body, "includeWorkshop", channel) ?? false,
+    });
+  });
+  registerIpcHandler(IPC_CHANNELS.listRestorePoints, async () => listRestorePoints());
+  registerIpcHandler(IPC_CHANNELS.previewRestorePoint, async (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.previewRestorePoint;
+    const body = readObjectPayload(payload, channel);
+    return previewRestorePoint(readString(body, "fileName", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.queryOperationJournal, async (_event, payload: unknown) =>
+    queryOperationJournal(readOperationJournalQuery(payload, IPC_CHANNELS.queryOperationJournal)),
+  );
+  registerIpcHandler(IPC_CHANNELS.exportOperationJournal, async (_event, payload: unknown) =>
+    exportOperationJournalToFile(readOperationJournalQuery(payload, IPC_CHANNELS.exportOperationJournal)),
+  );
+  registerIpcHandler(IPC_CHANNELS.exportWeeklyPlan, async () => exportWeeklyPlanToFile());
+  registerIpcHandler(IPC_CHANNELS.importSeasonRules, async (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.importSeasonRules;
+    const body = readObjectPayload(payload, channel);
+    return importSeasonRulesFromFile(readOptionalString(body, "effectiveAt", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.resetSeasonRules, () => resetSeasonRules());
+  registerIpcHandler(IPC_CHANNELS.cancelScheduledSeasonRules, () => cancelScheduledSeasonRules());
 }
@@ -2,21 +2,39 @@ import { IPC_CHANNELS } from "../../shared/ipc";
 import {
   addCharacter,
   applyAction,
+  applyBatchAction,
   applyCorridorCompletion,
+  applyEventProgress,
   deleteCharacter,
+  deleteCustomTask,
+  deleteEvent,
+  deleteGoldLedgerEntry,
+  moveCharacterServer,
+  recordGoldIncome,
   renameCharacter,
   reorderCharacters,
   setCharacterStar,
   selectCharacter,
   setCorridorCompleted,
+  transferTickets,
   updateAodePlan,
   updateArtifactStatus,
   updateCharacterProfile,
   updateEnergySegments,
   updateRaidCounts,
   updateWeeklyCompletions,
+  upsertCustomTask,
+  upsertEvent,
 } from "../store";
-import { readObjectPayload, readOptionalBoolean, readOptionalNumber, readOptionalString, readString, readStringArray } from "./guards";
+import {
+  readObjectPayload,
+  readOptionalBoolean,
+  readOptionalNumber,
+  readOptionalString,
+  readOptionalStringArray,
+  readString,
+  readStringArray,
+} from "./guards";
 import { registerIpcHandler } from "./register-handler";
 
 function readLane(payload: Record<string, unknown>, channel: string): "lower" | "middle" {
@@ -59,7 +77,11 @@ export function registerCharacterIpcHandlers(): void {
   registerIpcHandler(IPC_CHANNELS.addCharacter, (_event, payload: unknown) => {
     const channel = IPC_CHANNELS.addCharacter;
     const body = readObjectPayload(payload, channel);
-    return addCharacter(readString(body, "name", channel), readOptionalString(body, "accountId", channel));
+    return addCharacter(
+      readString(body, "name", channel),
+      readOptionalString(body, "accountId", channel),
+      readOptionalString(body, "serverId", channel),
+    );
   });
   registerIpcHandler(IPC_CHANNELS.renameCharacter, (_event, payload: unknown) => {
     const channel = IPC_CHANNELS.renameCharacter;
@@ -91,6 +113,7 @@ export function registerCharacterIpcHandlers(): void {
     return updateCharacterProfile(readString(body, "characterId", channel), {
       classTag: readOptionalNullableString(body, "classTag", channel),
       gearScore: readOptionalNullableNumber(body, "gearScore", channel),
+      tags: readOptionalStringArray(body, "tags", channel),
     });
   });
   registerIpcHandler(IPC_CHANNELS.reorderCharacters, (_event, payload: unknown) => {
@@ -98,10 +121,57 @@ export function registerCharacterIpcHandlers(): void {
     const body = readObjectPayload(payload, channel);
     return reorderCharacters(readStringArray(body, "characterIds", channel));
   });
+  registerIpcHandler(IPC_CHANNELS.moveCharacterServer, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.moveCharacterServer;
+    const body = readObjectPayload(payload, channel);
+    return moveCharacterServer(readString(body, "characterId", channel), readString(body, "serverId", channel));
+  });
   registerIpcHandler(IPC_CHANNELS.applyTaskAction, (_event, payload: unknown) => {
     const channel = IPC_CHANNELS.applyTaskAction;
     return applyAction(readObjectPayload(payload, channel) as unknown as Parameters<typeof applyAction>[0]);
   });
+  registerIpcHandler(IPC_CHANNELS.applyBatchTaskAction, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.applyBatchTaskAction;
+    const body = readObjectPayload(payload, channel);
+    return applyBatchAction({
+      characterIds: readStringArray(body, "characterIds", channel),
+      taskId: readString(body, "taskId", channel) as Parameters<typeof applyBatchAction>[0]["taskId"],
+      action: readString(body, "action", channel) as Parameters<typeof applyBatchAction>[0]["action"],
+      amount: readOptionalNumber(body, "amount", channel),
+    });
+  });
+  registerIpcHandler(IPC_CHANNELS.upsertCustomTask, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.upsertCustomTask;
+    return upsertCustomTask(readObjectPayload(payload, channel) as unknown as Parameters<typeof upsertCustomTask>[0]);
+  });
+  registerIpcHandler(IPC_CHANNELS.deleteCustomTask, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.deleteCustomTask;
+    const body = readObjectPayload(payload, channel);
+    return deleteCustomTask(readString(body, "taskId", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.upsertEvent, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.upsertEvent;
+    return upsertEvent(readObjectPayload(payload, channel) as unknown as Parameters<typeof upsertEvent>[0]);
+  });
+  registerIpcHandler(IPC_CHANNELS.deleteEvent, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.deleteEvent;
+    const body = readObjectPayload(payload, channel);
+    return deleteEvent(readString(body, "eventId", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.applyEventProgress, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.applyEventProgress;
+    const body = readObjectPayload(payload, channel);
+    const amount = readOptionalNumber(body, "amount", channel);
+    if (amount === undefined) {
+      throw new Error(`[${channel}] invalid payload: field "amount" is required`);
+    }
+    return applyEventProgress({
+      characterId: readString(body, "characterId", channel),
+      eventId: readString(body, "eventId", channel),
+      counterLabel: readString(body, "counterLabel", channel),
+      amount,
+    });
+  });
   registerIpcHandler(IPC_CHANNELS.applyCorridorCompletion, (_event, payload: unknown) => {
     const channel = IPC_CHANNELS.applyCorridorCompletion;
     const body = readObjectPayload(payload, channel);
@@ -195,4 +265,31 @@ export function registerCharacterIpcHandlers(): void {
       transformAodeUsed: readOptionalNumber(body, "transformAodeUsed", channel),
     });
   });
+  registerIpcHandler(IPC_CHANNELS.transferTickets, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.transferTickets;
+    const body = readObjectPayload(payload, channel);
+    return transferTickets({
+      kind: readString(body, "kind", channel) as Parameters<typeof transferTickets>[0]["kind"],
+      targetId: readString(body, "targetId", channel),
+      fromCharacterId: readOptionalString(body, "fromCharacterId", channel) ?? null,
+      toCharacterId: readOptionalString(body, "toCharacterId", channel) ?? null,
+      count: readOptionalNumber(body, "count", channel) ?? 0,
+    });
+  });
+  registerIpcHandler(IPC_CHANNELS.recordGoldIncome, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.recordGoldIncome;
+    const body = readObjectPayload(payload, channel);
+    return recordGoldIncome({
+      characterId: readString(body, "characterId", channel),
+      source: readString(body, "source", channel) as Parameters<typeof recordGoldIncome>[0]["source"],
+      runs: readOptionalNumber(body, "runs", channel) ?? 0,
+      amount: readOptionalNumber(body, "amount", channel) ?? 0,
+      note: readOptionalString(body, "note", channel),
+    });
+  });
+  registerIpcHandler(IPC_CHANNELS.deleteGoldLedgerEntry, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.deleteGoldLedgerEntry;
+    const body = readObjectPayload(payload, channel);
+    return deleteGoldLedgerEntry(readString(body, "characterId", channel), readString(body, "entryId", channel));
+  });
 }
@@ -0,0 +1,36 @@
+import { IPC_CHANNELS } from "../../shared/ipc";
+import { createProfile, deleteProfile, importProfileFromFile, listProfiles, renameProfile, switchProfile } from "../store";
+import { readObjectPayload, readOptionalString, readString } from "./guards";
+import { registerIpcHandler } from "./register-handler";
+
+export function registerProfileIpcHandlers(): void {
+  registerIpcHandler(IPC_CHANNELS.listProfiles, () => listProfiles());
+  registerIpcHandler(IPC_CHANNELS.switchProfile, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.switchProfile;
+    const body = readObjectPayload(payload, channel);
+    return switchProfile(readString(body, "profileId", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.createProfile, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.createProfile;
+    const body = readObjectPayload(payload, channel);
+    return createProfile(readString(body, "name", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.renameProfile, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.renameProfile;
+    const body = readObjectPayload(payload, channel);
+    return renameProfile(readString(body, "profileId", channel), readString(body, "name", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.deleteProfile, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.deleteProfile;
+    const body = readObjectPayload(payload, channel);
+    return deleteProfile(readString(body, "profileId", channel));
+  });
+  registerIpcHandler(IPC_CHANNELS.importProfile, (_event, payload: unknown) => {
+    const channel = IPC_CHANNELS.importProfile;
+    const body = readObjectPayload(payload, channel);
+    return importProfileFromFile({
+      name: readString(body, "name", channel),
+      passphrase: readOptionalString(body, "passphrase", channel),
+    });
+  });
+}
@@ -0,0 +1,56 @@
+import { app } from "electron";
+import type { ProfileListResult } from "../shared/types";
+import { getProfileAutoBackupFolderName, getProfileDataDirectory, normalizeProfileRegistry, type ProfileRegistry } from "./store-infra-profiles";
+import { openStorageOrExit, reportStorageRecoveryWarning } from "./storage-recovery";
+import { createTransactionalStore } from "./store-infra-storage";
+
+const registryStore = openStorageOrExit(() =>
+  createTransactionalStore({
+    directory: app.getPath("userData"),
+    name: "aion2-dashboard-profiles",
+    onRecoveryWarning: reportStorageRecoveryWarning,
+  }),
+);
+
+let startupSelectionPending = true;
+
+export function readProfileRegistry(): ProfileRegistry {
+  const raw = registryStore.store;
+  const registry = normalizeProfileRegistry(raw, new Date().toISOString());
+  if (!Array.isArray(raw.profiles)) {
+    writeProfileRegistry(registry);
+  }
+  return registry;
+}
+
+export function writeProfileRegistry(next: ProfileRegistry): void {
+  registryStore.transaction({ profiles: next.profiles, activeProfileId: next.activeProfileId });
+}
+
+export function getActiveProfileId(): string {
+  return readProfileRegistry().activeProfileId;
+}
+
+export function getActiveProfileDirectory(): string {
+  return getProfileDirectory(getActiveProfileId());
+}
+
+export function getProfileDirectory(profileId: string): string {
+  return getProfileDataDirectory(app.getPath("userData"), profileId);
+}
+
+export function getActiveProfileAutoBackupFolderName(): string {
+  return getProfileAutoBackupFolderName(getActiveProfileId());
+}
+
+export function markStartupProfileSelected(): void {
+  startupSelectionPending = false;
+}
+
+export function buildProfileListResult(registry: ProfileRegistry = readProfileRegistry()): ProfileListResult {
+  return {
+    profiles: registry.profiles,
+    activeProfileId: registry.activeProfileId,
+    startupSelectionPending: startupSelectionPending && registry.profiles.length > 1,
+  };
+}
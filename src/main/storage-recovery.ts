@@ -0,0 +1,49 @@
+import { app, dialog } from "electron";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { getAutoBackupDirectory, sortAutoBackupsNewestFirst } from "./store-infra-io";
+import type { StorageRecoveryBase } from "./store-infra-storage";
+
+const recoveryWarnings: string[] = [];
+
+export function reportStorageRecoveryWarning(message: string, error?: unknown): void {
+  console.warn(`[aion2-dashboard] ${message}`, error ?? "");
+  recoveryWarnings.push(message);
+}
+
+export function takeStorageRecoveryWarnings(): string[] {
+  return recoveryWarnings.splice(0);
+}
+
+export function loadNewestAutoBackupBase(
+  backupFolderName: string,
+  pick: (payload: Record<string, unknown>) => Record<string, unknown> | null,
+): StorageRecoveryBase | null {
+  const backupDir = getAutoBackupDirectory(() => app.getPath("documents"), backupFolderName);
+  if (!existsSync(backupDir)) {
+    return null;
+  }
+  for (const fileName of sortAutoBackupsNewestFirst(readdirSync(backupDir))) {
+    const path = join(backupDir, fileName);
+    try {
+      const payload = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+      const data = payload && typeof payload === "object" && !Array.isArray(payload) ? pick(payload as Record<string, unknown>) : null;
+      if (data) {
+        return { source: path, data: structuredClone(data) };
+      }
+    } catch (error) {
+      reportStorageRecoveryWarning(`自动备份无法读取，已跳过: ${path}`, error);
+    }
+  }
+  return null;
+}
+
+export function openStorageOrExit<T>(open: () => T): T {
+  try {
+    return open();
+  } catch (error) {
+    dialog.showErrorBox("数据文件无法打开", error instanceof Error ? error.message : String(error));
+    app.exit(1);
+    throw error;
+  }
+}
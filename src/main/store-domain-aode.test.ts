@@ -39,20 +39,69 @@ describe("store/store-domain-aode", () => {
       },
     });
 
-    expect(result.accounts[0].breezePlan.shopAodePurchaseUsed).toBe(AODE_SHOP_SERVER_LIMIT);
-    expect(result.accounts[0].breezePlan.shopUnknownChallengeTicketUsed).toBe(UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT);
-    expect(result.accounts[0].breezePlan.shopExpeditionChoiceBoxUsed).toBe(EXPEDITION_CHOICE_BOX_SERVER_LIMIT);
-    expect(result.accounts[0].breezePlan.shopNightmareInstantUsed).toBe(NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT);
-    expect(result.accounts[0].breezePlan.shopAbyssReplenishUsed).toBe(ABYSS_REPLENISH_TICKET_SERVER_LIMIT);
-    expect(result.accounts[0].breezePlan.shopAbyssReplenishAssignedCharacterId).toBe("char-a");
-    expect(result.accounts[0].breezePlan.transformAodeUsed).toBe(AODE_CONVERT_SERVER_LIMIT);
+    expect(result.accounts[0].servers[0].breezePlan.shopAodePurchaseUsed).toBe(AODE_SHOP_SERVER_LIMIT);
+    expect(result.accounts[0].servers[0].breezePlan.shopUnknownChallengeTicketUsed).toBe(UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT);
+    expect(result.accounts[0].servers[0].breezePlan.shopExpeditionChoiceBoxUsed).toBe(EXPEDITION_CHOICE_BOX_SERVER_LIMIT);
+    expect(result.accounts[0].servers[0].breezePlan.shopNightmareInstantUsed).toBe(NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT);
+    expect(result.accounts[0].servers[0].breezePlan.shopAbyssReplenishUsed).toBe(ABYSS_REPLENISH_TICKET_SERVER_LIMIT);
+    expect(result.accounts[0].servers[0].ticketAssignments).toEqual([]);
+    expect(result.accounts[0].servers[0].breezePlan.transformAodeUsed).toBe(AODE_CONVERT_SERVER_LIMIT);
     expect(result.characters[0].aodePlan.shopExpeditionChoiceBoxUsed).toBe(EXPEDITION_CHOICE_BOX_SERVER_LIMIT);
     expect(result.characters[1].aodePlan.shopNightmareInstantUsed).toBe(NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT);
-    expect(result.characters[0].activities.sanctumRaidChallengeBonus).toBe(1);
-    expect(result.characters[0].activities.sanctumRaidBoxBonus).toBe(1);
+    expect(result.characters[0].activities.sanctumRaidChallengeBonus).toBe(0);
     expect(result.characters[1].activities.sanctumRaidChallengeBonus).toBe(0);
   });
 
+  it("takes handed-out tickets back when the purchase count drops below them", () => {
+    const accounts = account("acc-1");
+    accounts.servers[0].breezePlan.shopNightmareInstantUsed = 3;
+    accounts.servers[0].ticketAssignments = [
+      { kind: "nightmare_instant", targetId: "nightmare", characterId: "char-a", count: 1 },
+      { kind: "nightmare_instant", targetId: "nightmare", characterId: "char-b", count: 2 },
+    ];
+    const characters = [character("char-a", "acc-1"), character("char-b", "acc-1")];
+    characters[1].activities.nightmareTicketBonus = 2;
+
+    const result = applyAodePlanUpdate({
+      accounts: [accounts],
+      characters,
+      characterId: "char-a",
+      payload: { shopNightmareInstantUsed: 2 },
+    });
+
+    expect(result.accounts[0].servers[0].ticketAssignments).toEqual([
+      { kind: "nightmare_instant", targetId: "nightmare", characterId: "char-a", count: 1 },
+      { kind: "nightmare_instant", targetId: "nightmare", characterId: "char-b", count: 1 },
+    ]);
+    expect(result.characters[1].activities.nightmareTicketBonus).toBe(1);
+  });
+
+  it("only takes back tickets the holder has not used yet", () => {
+    const accounts = account("acc-1");
+    accounts.servers[0].breezePlan.shopExpeditionChoiceBoxUsed = 3;
+    accounts.servers[0].breezePlan.shopUnknownChallengeTicketUsed = 2;
+    accounts.servers[0].sharedActivities.dailyDungeonTicketStored = 0;
+    accounts.servers[0].ticketAssignments = [
+      { kind: "expedition_choice_box", targetId: "expedition", characterId: "char-a", count: 3 },
+      { kind: "unknown_challenge", targetId: "daily_dungeon", characterId: "char-a", count: 2 },
+    ];
+    const characters = [character("char-a", "acc-1")];
+    characters[0].activities.expeditionTicketBonus = 1;
+
+    const result = applyAodePlanUpdate({
+      accounts: [accounts],
+      characters,
+      characterId: "char-a",
+      payload: { shopExpeditionChoiceBoxUsed: 1, shopUnknownChallengeTicketUsed: 0 },
+    });
+
+    expect(result.accounts[0].servers[0].ticketAssignments).toEqual([
+      { kind: "expedition_choice_box", targetId: "expedition", characterId: "char-a", count: 1 },
+    ]);
+    expect(result.characters[0].activities.expeditionTicketBonus).toBe(0);
+    expect(result.accounts[0].servers[0].sharedActivities.dailyDungeonTicketStored).toBe(0);
+  });
+
   it("resolves unified server limits", () => {
     const limits = resolveAodeLimitsForCharacter();
     expect(limits.purchaseLimit).toBe(AODE_SHOP_SERVER_LIMIT);
@@ -6,8 +6,16 @@ import {
   NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
   UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
 } from "../shared/constants";
-import type { AccountState, CharacterState } from "../shared/types";
+import { mapAccountServer } from "../shared/account-servers";
+import {
+  SHARED_TICKET_KEYS,
+  getTicketInventoryDefinition,
+  getTicketInventoryTarget,
+  trimTicketAssignments,
+} from "../shared/ticket-inventory";
+import type { AccountBreezePlanState, AccountState, CharacterState, TicketAssignment } from "../shared/types";
 import { syncAccountSharedStateToCharacters } from "./store-domain-snapshot";
+import { adjustCharacterTickets, adjustServerSharedTickets, countUnusedTickets } from "./store-domain-tickets";
 
 export interface UpdateAodePlanPayload {
   shopAodePurchaseUsed?: number;
@@ -47,89 +55,57 @@ export function applyAodePlanUpdate(input: ApplyAodePlanUpdateInput): ApplyAodeP
     throw new Error("角色不存在");
   }
 
-  const currentAccount = input.accounts.find((account) => account.id === target.accountId);
-  const previousShopAbyssReplenishUsed = currentAccount?.breezePlan.shopAbyssReplenishUsed ?? 0;
-  const previousAssignedCharacterId = currentAccount?.breezePlan.shopAbyssReplenishAssignedCharacterId ?? null;
-  const nextShopAbyssReplenishUsed =
-    typeof input.payload.shopAbyssReplenishUsed === "number"
-      ? clamp(Math.floor(input.payload.shopAbyssReplenishUsed), 0, ABYSS_REPLENISH_TICKET_SERVER_LIMIT)
-      : previousShopAbyssReplenishUsed;
-  const nextAssignedCharacterId = nextShopAbyssReplenishUsed > 0 ? input.characterId : null;
-  const previousAssignedCharacter =
-    previousAssignedCharacterId === null
-      ? null
-      : input.characters.find((item) => item.accountId === target.accountId && item.id === previousAssignedCharacterId) ?? null;
-  const transferRaidChallengeBonus = previousAssignedCharacter?.activities.sanctumRaidChallengeBonus ?? 0;
-  const transferRaidBoxBonus = previousAssignedCharacter?.activities.sanctumRaidBoxBonus ?? 0;
-
-  const nextAccounts = input.accounts.map((account) => {
-    if (account.id !== target.accountId) {
-      return account;
-    }
-    return {
-      ...account,
-      breezePlan: {
-        shopAodePurchaseUsed:
-          typeof input.payload.shopAodePurchaseUsed === "number"
-            ? clamp(Math.floor(input.payload.shopAodePurchaseUsed), 0, AODE_SHOP_SERVER_LIMIT)
-            : clamp(account.breezePlan.shopAodePurchaseUsed, 0, AODE_SHOP_SERVER_LIMIT),
-        shopUnknownChallengeTicketUsed:
-          typeof input.payload.shopUnknownChallengeTicketUsed === "number"
-            ? clamp(Math.floor(input.payload.shopUnknownChallengeTicketUsed), 0, UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT)
-            : clamp(account.breezePlan.shopUnknownChallengeTicketUsed, 0, UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT),
-        shopExpeditionChoiceBoxUsed:
-          typeof input.payload.shopExpeditionChoiceBoxUsed === "number"
-            ? clamp(Math.floor(input.payload.shopExpeditionChoiceBoxUsed), 0, EXPEDITION_CHOICE_BOX_SERVER_LIMIT)
-            : clamp(account.breezePlan.shopExpeditionChoiceBoxUsed, 0, EXPEDITION_CHOICE_BOX_SERVER_LIMIT),
-        shopNightmareInstantUsed:
-          typeof input.payload.shopNightmareInstantUsed === "number"
-            ? clamp(Math.floor(input.payload.shopNightmareInstantUsed), 0, NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT)
-            : clamp(account.breezePlan.shopNightmareInstantUsed, 0, NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT),
-        shopAbyssReplenishUsed: nextShopAbyssReplenishUsed,
-        shopAbyssReplenishAssignedCharacterId: nextAssignedCharacterId,
-        transformAodeUsed:
-          typeof input.payload.transformAodeUsed === "number"
-            ? clamp(Math.floor(input.payload.transformAodeUsed), 0, AODE_CONVERT_SERVER_LIMIT)
-            : clamp(account.breezePlan.transformAodeUsed, 0, AODE_CONVERT_SERVER_LIMIT),
-      },
+  let revoked: TicketAssignment[] = [];
+  const nextAccounts = mapAccountServer(input.accounts, target.accountId, target.serverId, (server) => {
+    const breezePlan: AccountBreezePlanState = {
+      shopAodePurchaseUsed:
+        typeof input.payload.shopAodePurchaseUsed === "number"
+          ? clamp(Math.floor(input.payload.shopAodePurchaseUsed), 0, AODE_SHOP_SERVER_LIMIT)
+          : clamp(server.breezePlan.shopAodePurchaseUsed, 0, AODE_SHOP_SERVER_LIMIT),
+      shopUnknownChallengeTicketUsed:
+        typeof input.payload.shopUnknownChallengeTicketUsed === "number"
+          ? clamp(Math.floor(input.payload.shopUnknownChallengeTicketUsed), 0, UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT)
+          : clamp(server.breezePlan.shopUnknownChallengeTicketUsed, 0, UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT),
+      shopExpeditionChoiceBoxUsed:
+        typeof input.payload.shopExpeditionChoiceBoxUsed === "number"
+          ? clamp(Math.floor(input.payload.shopExpeditionChoiceBoxUsed), 0, EXPEDITION_CHOICE_BOX_SERVER_LIMIT)
+          : clamp(server.breezePlan.shopExpeditionChoiceBoxUsed, 0, EXPEDITION_CHOICE_BOX_SERVER_LIMIT),
+      shopNightmareInstantUsed:
+        typeof input.payload.shopNightmareInstantUsed === "number"
+          ? clamp(Math.floor(input.payload.shopNightmareInstantUsed), 0, NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT)
+          : clamp(server.breezePlan.shopNightmareInstantUsed, 0, NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT),
+      shopAbyssReplenishUsed:
+        typeof input.payload.shopAbyssReplenishUsed === "number"
+          ? clamp(Math.floor(input.payload.shopAbyssReplenishUsed), 0, ABYSS_REPLENISH_TICKET_SERVER_LIMIT)
+          : clamp(server.breezePlan.shopAbyssReplenishUsed, 0, ABYSS_REPLENISH_TICKET_SERVER_LIMIT),
+      transformAodeUsed:
+        typeof input.payload.transformAodeUsed === "number"
+          ? clamp(Math.floor(input.payload.transformAodeUsed), 0, AODE_CONVERT_SERVER_LIMIT)
+          : clamp(server.breezePlan.transformAodeUsed, 0, AODE_CONVERT_SERVER_LIMIT),
     };
+    const { kept, removed } = trimTicketAssignments(
+      server.ticketAssignments,
+      (kind) => breezePlan[getTicketInventoryDefinition(kind).purchasedKey],
+    );
+    // Holders may already have spent some of the revoked tickets; only the unspent part can be taken back.
+    revoked = removed.map((item) => {
+      const holder = input.characters.find((character) => character.id === item.characterId);
+      const keys = getTicketInventoryTarget(item.kind, item.targetId)?.keys ?? [];
+      return { ...item, count: holder ? countUnusedTickets(server, holder, keys, item.count) : 0 };
+    });
+    const sharedRevoked = revoked
+      .filter((item) => getTicketInventoryTarget(item.kind, item.targetId)?.keys.some((key) => SHARED_TICKET_KEYS.includes(key)))
+      .reduce((acc, item) => acc + item.count, 0);
+    return adjustServerSharedTickets({ ...server, breezePlan, ticketAssignments: kept }, SHARED_TICKET_KEYS, -sharedRevoked);
   });
 
-  const nextCharacters = input.characters.map((character) => {
-    if (character.accountId !== target.accountId) {
-      return character;
-    }
-
-    let sanctumRaidChallengeBonus = character.activities.sanctumRaidChallengeBonus;
-    let sanctumRaidBoxBonus = character.activities.sanctumRaidBoxBonus;
-
-    if (previousAssignedCharacterId && character.id === previousAssignedCharacterId && previousAssignedCharacterId !== nextAssignedCharacterId) {
-      sanctumRaidChallengeBonus = 0;
-      sanctumRaidBoxBonus = 0;
-    }
-
-    if (nextShopAbyssReplenishUsed === 0) {
-      sanctumRaidChallengeBonus = 0;
-      sanctumRaidBoxBonus = 0;
-    } else if (character.id === nextAssignedCharacterId) {
-      if (previousShopAbyssReplenishUsed === 0) {
-        sanctumRaidChallengeBonus = 1;
-        sanctumRaidBoxBonus = 1;
-      } else if (previousAssignedCharacterId !== nextAssignedCharacterId) {
-        sanctumRaidChallengeBonus = transferRaidChallengeBonus;
-        sanctumRaidBoxBonus = transferRaidBoxBonus;
-      }
-    }
-
-    return {
-      ...character,
-      activities: {
-        ...character.activities,
-        sanctumRaidChallengeBonus,
-        sanctumRaidBoxBonus,
-      },
-    };
-  });
+  // Lowering a purchase count below what was handed out takes the surplus tickets back from their holders.
+  const nextCharacters = revoked.reduce((characters, item) => {
+    const keys = getTicketInventoryTarget(item.kind, item.targetId)?.keys ?? [];
+    return characters.map((character) =>
+      character.id === item.characterId ? adjustCharacterTickets(character, keys, -item.count) : character,
+    );
+  }, input.characters);
 
   return {
     accounts: nextAccounts,
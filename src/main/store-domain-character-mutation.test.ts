@@ -31,6 +31,11 @@ describe("store/store-domain-character-mutation", () => {
 
     expect(next[0].classTag).toBe("Gladiator");
     expect(next[0].gearScore).toBe(999_999);
+    expect(next[0].tags).toBeUndefined();
+
+    const tagged = updateCharacterProfileInList(next, "char-a", { tags: ["主号", " 主号 ", "制作"] }, 999_999);
+    expect(tagged[0].tags).toEqual(["主号", "制作"]);
+    expect(tagged[0].classTag).toBe("Gladiator");
 
     expect(() =>
       updateCharacterProfileInList(characters, "char-missing", { classTag: "x" }, 999_999),
@@ -74,7 +79,8 @@ describe("store/store-domain-character-mutation", () => {
     expect(next[0].activities.corridorLowerAvailable).toBe(3);
     expect(next[0].activities.corridorLowerCap).toBe(3);
     expect(next[0].activities.corridorMiddleAvailable).toBe(0);
-    expect(next[0].activities.corridorMiddleCap).toBe(0);
+    expect(next[0].activities.corridorMiddleCap).toBe(3);
+    expect(next[0].activities.corridorMiddleNextAt).toBe(characters[0].activities.corridorMiddleNextAt);
     expect(next[1].activities.corridorLowerAvailable).toBe(characters[1].activities.corridorLowerAvailable);
     expect(() =>
       updateArtifactStatusForAccount(accounts, characters, {
@@ -1,3 +1,4 @@
+import { normalizeOptionalTags } from "../shared/tags";
 import type { AccountState, CharacterState } from "../shared/types";
 
 export type CorridorLane = "lower" | "middle";
@@ -5,6 +6,7 @@ export type CorridorLane = "lower" | "middle";
 export interface UpdateCharacterProfilePayload {
   classTag?: string | null;
   gearScore?: number | null;
+  tags?: string[];
 }
 
 export interface SetCharacterStarPayload {
@@ -46,12 +48,14 @@ export function updateCharacterProfileInList(
       : typeof payload.gearScore === "number" && Number.isFinite(payload.gearScore)
         ? clamp(Math.floor(payload.gearScore), 0, maxThreshold)
         : undefined;
+  const tags = payload.tags === undefined ? target.tags : normalizeOptionalTags(payload.tags);
 
   const next = [...characters];
   next[index] = {
     ...target,
     classTag,
     gearScore,
+    tags,
   };
   return next;
 }
@@ -111,12 +115,10 @@ export function updateArtifactStatusForAccount(
       ...item,
       activities: {
         ...item.activities,
-        corridorLowerAvailable: clamp(payload.lowerAvailable, 0, 3),
-        corridorLowerCap: clamp(payload.lowerAvailable, 0, 3),
-        corridorLowerNextAt: payload.lowerNextAt,
-        corridorMiddleAvailable: clamp(payload.middleAvailable, 0, 3),
-        corridorMiddleCap: clamp(payload.middleAvailable, 0, 3),
-        corridorMiddleNextAt: payload.middleNextAt,
+        corridorLowerAvailable: clamp(payload.lowerAvailable, 0, item.activities.corridorLowerCap),
+        corridorLowerNextAt: payload.lowerNextAt ?? item.activities.corridorLowerNextAt,
+        corridorMiddleAvailable: clamp(payload.middleAvailable, 0, item.activities.corridorMiddleCap),
+        corridorMiddleNextAt: payload.middleNextAt ?? item.activities.corridorMiddleNextAt,
       },
     };
   });
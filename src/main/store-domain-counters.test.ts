@@ -44,7 +44,7 @@ describe("store/store-domain-counters", () => {
     expect(next.characters[0].activities.transcendenceRemaining).toBe(6);
     expect(next.characters[0].activities.nightmareRemaining).toBe(6);
     expect(next.characters[0].activities.awakeningRemaining).toBe(2);
-    expect(next.accounts[0].sharedActivities.dailyDungeonRemaining).toBe(DAILY_DUNGEON_SHARED_MAX);
+    expect(next.accounts[0].servers[0].sharedActivities.dailyDungeonRemaining).toBe(DAILY_DUNGEON_SHARED_MAX);
     expect(next.characters[0].activities.dailyDungeonTicketStored).toBe(30);
     expect(next.characters[0].activities.miniGameRemaining).toBe(14);
     expect(next.characters[0].activities.spiritInvasionRemaining).toBe(7);
@@ -1,4 +1,5 @@
 import { DAILY_DUNGEON_SHARED_MAX } from "../shared/constants";
+import { mapAccountServer } from "../shared/account-servers";
 import type { AccountState, AppSettings, CharacterState } from "../shared/types";
 import { getEffectiveActivityCap } from "./store-domain-settings";
 import { syncAccountSharedStateToCharacters } from "./store-domain-snapshot";
@@ -55,22 +56,19 @@ export function applyRaidCountsUpdate(
 
   let nextAccounts = accounts;
   if (typeof payload.dailyDungeonRemaining === "number" || typeof payload.dailyDungeonTicketStored === "number") {
-    nextAccounts = accounts.map((account) => {
-      if (account.id !== target.accountId) {
-        return account;
-      }
+    nextAccounts = mapAccountServer(accounts, target.accountId, target.serverId, (server) => {
       return {
-        ...account,
+        ...server,
         sharedActivities: {
-          ...account.sharedActivities,
+          ...server.sharedActivities,
           dailyDungeonRemaining:
             typeof payload.dailyDungeonRemaining === "number"
               ? clamp(payload.dailyDungeonRemaining, 0, DAILY_DUNGEON_SHARED_MAX)
-              : account.sharedActivities.dailyDungeonRemaining,
+              : server.sharedActivities.dailyDungeonRemaining,
           dailyDungeonTicketStored:
             typeof payload.dailyDungeonTicketStored === "number"
               ? clamp(payload.dailyDungeonTicketStored, 0, 30)
-              : account.sharedActivities.dailyDungeonTicketStored,
+              : server.sharedActivities.dailyDungeonTicketStored,
         },
       };
     });
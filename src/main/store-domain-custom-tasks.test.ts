@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultCharacter } from "../shared/constants";
+import type { CharacterState } from "../shared/types";
+import { deleteCustomTaskFromState, upsertCustomTaskToState } from "./store-domain-custom-tasks";
+
+function createCharacters(): CharacterState[] {
+  return [createDefaultCharacter("角色-1", "2026-02-26T00:00:00.000Z", "char-1", "acc-1")];
+}
+
+describe("store/store-domain-custom-tasks", () => {
+  it("creates tasks with generated ids and seeds every character at the cap", () => {
+    const created = upsertCustomTaskToState({
+      customTasks: [],
+      characters: createCharacters(),
+      payload: { title: " 公会任务 ", category: "周常", resetCadence: "weekly", cap: 3 },
+      createId: () => "guild",
+    });
+    expect(created.customTasks).toEqual([
+      {
+        id: "custom:guild",
+        title: "公会任务",
+        category: "周常",
+        resetCadence: "weekly",
+        cap: 3,
+        energyCost: 0,
+        goldReward: 0,
+        hasTicket: false,
+      },
+    ]);
+    expect(created.characters[0].customProgress["custom:guild"]).toEqual({ remaining: 3, ticketBonus: 0 });
+
+    const updated = upsertCustomTaskToState({
+      ...created,
+      payload: { id: "custom:guild", title: "公会任务", category: "周常", resetCadence: "weekly", cap: 2 },
+      createId: () => "unused",
+    });
+    expect(updated.customTasks).toHaveLength(1);
+    expect(updated.characters[0].customProgress["custom:guild"].remaining).toBe(2);
+  });
+
+  it("removes progress on delete and rejects unknown tasks", () => {
+    const created = upsertCustomTaskToState({
+      customTasks: [],
+      characters: createCharacters(),
+      payload: { title: "公会任务", category: "周常", resetCadence: "weekly", cap: 3 },
+      createId: () => "guild",
+    });
+    const removed = deleteCustomTaskFromState(created.customTasks, created.characters, "custom:guild");
+    expect(removed.customTasks).toEqual([]);
+    expect(removed.characters[0].customProgress).toEqual({});
+    expect(() => deleteCustomTaskFromState(removed.customTasks, removed.characters, "custom:guild")).toThrow("自定义任务不存在");
+    expect(() =>
+      upsertCustomTaskToState({
+        ...removed,
+        payload: { id: "custom:missing", title: "x", category: "周常", resetCadence: "weekly", cap: 1 },
+        createId: () => "x",
+      }),
+    ).toThrow("自定义任务不存在");
+  });
+});
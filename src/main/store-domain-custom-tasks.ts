@@ -0,0 +1,60 @@
+import {
+  CUSTOM_TASK_ID_PREFIX,
+  CUSTOM_TASK_LIMIT,
+  isCustomTaskId,
+  parseCustomTaskDefinition,
+  reconcileCustomTaskProgress,
+} from "../shared/custom-tasks";
+import type { CharacterState, CustomTaskDefinition, UpsertCustomTaskInput } from "../shared/types";
+
+export interface CustomTasksWithCharacters {
+  customTasks: CustomTaskDefinition[];
+  characters: CharacterState[];
+}
+
+export interface UpsertCustomTaskToStateInput {
+  customTasks: CustomTaskDefinition[];
+  characters: CharacterState[];
+  payload: UpsertCustomTaskInput;
+  createId: () => string;
+}
+
+export function upsertCustomTaskToState(input: UpsertCustomTaskToStateInput): CustomTasksWithCharacters {
+  const existingIndex = input.payload.id ? input.customTasks.findIndex((item) => item.id === input.payload.id) : -1;
+  if (input.payload.id && existingIndex < 0) {
+    throw new Error("自定义任务不存在");
+  }
+  if (existingIndex < 0 && input.customTasks.length >= CUSTOM_TASK_LIMIT) {
+    throw new Error(`自定义任务最多 ${CUSTOM_TASK_LIMIT} 个`);
+  }
+
+  const task = parseCustomTaskDefinition({
+    ...input.payload,
+    id: input.payload.id ?? `${CUSTOM_TASK_ID_PREFIX}${input.createId()}`,
+  });
+  const customTasks = [...input.customTasks];
+  if (existingIndex >= 0) {
+    customTasks[existingIndex] = task;
+  } else {
+    customTasks.push(task);
+  }
+  return {
+    customTasks,
+    characters: input.characters.map((item) => reconcileCustomTaskProgress(item, customTasks)),
+  };
+}
+
+export function deleteCustomTaskFromState(
+  customTasks: CustomTaskDefinition[],
+  characters: CharacterState[],
+  taskId: string,
+): CustomTasksWithCharacters {
+  if (!isCustomTaskId(taskId) || !customTasks.some((item) => item.id === taskId)) {
+    throw new Error("自定义任务不存在");
+  }
+  const nextTasks = customTasks.filter((item) => item.id !== taskId);
+  return {
+    customTasks: nextTasks,
+    characters: characters.map((item) => reconcileCustomTaskProgress(item, nextTasks)),
+  };
+}
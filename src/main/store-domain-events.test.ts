@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultCharacter } from "../shared/constants";
+import type { CharacterState, UpsertEventInput } from "../shared/types";
+import { applyEventProgressToState, deleteEventFromState, upsertEventToState } from "./store-domain-events";
+
+function createCharacters(): CharacterState[] {
+  return [createDefaultCharacter("角色-1", "2026-02-26T00:00:00.000Z", "char-1", "acc-1")];
+}
+
+const PAYLOAD: UpsertEventInput = {
+  title: " 灯会活动 ",
+  startAt: "2026-02-26T00:00:00.000Z",
+  endAt: "2026-03-05T00:00:00.000Z",
+  resetCadence: "none",
+  counters: [{ label: "灯谜", cap: 3 }],
+  rewardNote: "灯笼外观",
+};
+
+describe("store/store-domain-events", () => {
+  it("creates and edits events while keeping character counters within caps", () => {
+    const created = upsertEventToState({ events: [], characters: createCharacters(), payload: PAYLOAD, createId: () => "lantern" });
+    expect(created.events[0]).toMatchObject({ id: "lantern", title: "灯会活动", rewardNote: "灯笼外观" });
+    expect(created.characters[0].eventProgress).toEqual({ lantern: { 灯谜: 3 } });
+
+    const updated = upsertEventToState({
+      ...created,
+      payload: { ...PAYLOAD, id: "lantern", counters: [{ label: "灯谜", cap: 2 }, { label: "兑换", cap: 1 }] },
+      createId: () => "unused",
+    });
+    expect(updated.events).toHaveLength(1);
+    expect(updated.characters[0].eventProgress.lantern).toEqual({ 灯谜: 2, 兑换: 1 });
+
+    expect(() => upsertEventToState({ ...created, payload: { ...PAYLOAD, id: "missing" }, createId: () => "x" })).toThrow(
+      "活动不存在",
+    );
+    const removed = deleteEventFromState(updated.events, updated.characters, "lantern");
+    expect(removed.events).toEqual([]);
+    expect(removed.characters[0].eventProgress).toEqual({});
+  });
+
+  it("spends counters only while the event is active", () => {
+    const created = upsertEventToState({ events: [], characters: createCharacters(), payload: PAYLOAD, createId: () => "lantern" });
+    const input = { characterId: "char-1", eventId: "lantern", counterLabel: "灯谜", amount: 2 };
+    const spent = applyEventProgressToState(created.events, created.characters, input, new Date("2026-03-01T00:00:00.000Z"));
+    expect(spent[0].eventProgress.lantern["灯谜"]).toBe(1);
+
+    expect(() => applyEventProgressToState(created.events, spent, input, new Date("2026-03-01T00:00:00.000Z"))).toThrow(
+      "剩余次数不足",
+    );
+    expect(() => applyEventProgressToState(created.events, spent, input, new Date("2026-03-06T00:00:00.000Z"))).toThrow(
+      "不在进行中",
+    );
+  });
+});
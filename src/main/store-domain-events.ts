@@ -0,0 +1,93 @@
+import { EVENT_LIMIT, createEventProgress, isEventActive, parseEventDefinition, reconcileEventProgress } from "../shared/events";
+import type { ApplyEventProgressInput, CharacterState, EventDefinition, UpsertEventInput } from "../shared/types";
+
+export interface EventsWithCharacters {
+  events: EventDefinition[];
+  characters: CharacterState[];
+}
+
+export interface UpsertEventToStateInput {
+  events: EventDefinition[];
+  characters: CharacterState[];
+  payload: UpsertEventInput;
+  createId: () => string;
+}
+
+export function upsertEventToState(input: UpsertEventToStateInput): EventsWithCharacters {
+  const existingIndex = input.payload.id ? input.events.findIndex((item) => item.id === input.payload.id) : -1;
+  if (input.payload.id && existingIndex < 0) {
+    throw new Error("活动不存在");
+  }
+  if (existingIndex < 0 && input.events.length >= EVENT_LIMIT) {
+    throw new Error(`活动最多 ${EVENT_LIMIT} 个`);
+  }
+
+  const event = parseEventDefinition({
+    ...input.payload,
+    id: input.payload.id ?? input.createId(),
+  });
+  const events = [...input.events];
+  if (existingIndex >= 0) {
+    events[existingIndex] = event;
+  } else {
+    events.push(event);
+  }
+  return {
+    events,
+    characters: input.characters.map((item) => reconcileEventProgress(item, events)),
+  };
+}
+
+export function deleteEventFromState(events: EventDefinition[], characters: CharacterState[], eventId: string): EventsWithCharacters {
+  if (!events.some((item) => item.id === eventId)) {
+    throw new Error("活动不存在");
+  }
+  const nextEvents = events.filter((item) => item.id !== eventId);
+  return {
+    events: nextEvents,
+    characters: characters.map((item) => reconcileEventProgress(item, nextEvents)),
+  };
+}
+
+export function applyEventProgressToState(
+  events: EventDefinition[],
+  characters: CharacterState[],
+  input: ApplyEventProgressInput,
+  now: Date,
+): CharacterState[] {
+  const event = events.find((item) => item.id === input.eventId);
+  if (!event) {
+    throw new Error("活动不存在");
+  }
+  if (!isEventActive(event, now)) {
+    throw new Error("活动不在进行中");
+  }
+  const counter = event.counters.find((item) => item.label === input.counterLabel);
+  if (!counter) {
+    throw new Error(`活动计数项不存在: ${input.counterLabel}`);
+  }
+  const index = characters.findIndex((item) => item.id === input.characterId);
+  if (index < 0) {
+    throw new Error("角色不存在");
+  }
+  if (!Number.isFinite(input.amount) || input.amount === 0) {
+    throw new Error("活动次数变化无效");
+  }
+
+  const character = characters[index];
+  const progress = character.eventProgress[event.id] ?? createEventProgress(event);
+  const current = progress[counter.label] ?? counter.cap;
+  const nextValue = current - Math.floor(input.amount);
+  if (nextValue < 0) {
+    throw new Error(`「${counter.label}」剩余次数不足`);
+  }
+  const next = [...characters];
+  next[index] = {
+    ...character,
+    eventProgress: {
+      ...character.eventProgress,
+      [event.id]: { ...progress, [counter.label]: Math.min(counter.cap, nextValue) },
+    },
+  };
+  return next;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultCharacter } from "../shared/constants";
+import type { CharacterState } from "../shared/types";
+import { deleteGoldLedgerEntryFromState, recordGoldIncomeToState } from "./store-domain-gold-ledger";
+
+function createCharacters(): CharacterState[] {
+  return [createDefaultCharacter("角色-1", "2026-02-26T00:00:00.000Z", "char-1", "acc-1")];
+}
+
+describe("store/store-domain-gold-ledger", () => {
+  it("records income entries and deletes them by id", () => {
+    const now = new Date("2026-02-26T12:00:00.000Z");
+    const recorded = recordGoldIncomeToState({
+      characters: createCharacters(),
+      payload: { characterId: "char-1", source: "other", runs: 4, amount: 1234.8, note: " 卖掉了饰品 " },
+      createId: () => "entry-1",
+      now,
+    });
+    expect(recorded[0].goldLedger).toEqual([
+      { id: "entry-1", recordedAt: now.toISOString(), source: "other", runs: 0, amount: 1234, note: "卖掉了饰品" },
+    ]);
+
+    expect(deleteGoldLedgerEntryFromState(recorded, "char-1", "entry-1")[0].goldLedger).toEqual([]);
+    expect(() => deleteGoldLedgerEntryFromState(recorded, "char-1", "missing")).toThrow("金币记录不存在");
+  });
+
+  it("rejects dungeon income without runs and non-positive amounts", () => {
+    const base = { characters: createCharacters(), createId: () => "entry", now: new Date() };
+    expect(() =>
+      recordGoldIncomeToState({ ...base, payload: { characterId: "char-1", source: "expedition", runs: 0, amount: 500 } }),
+    ).toThrow("副本收入需要填写对应的次数");
+    expect(() =>
+      recordGoldIncomeToState({ ...base, payload: { characterId: "char-1", source: "transcendence", runs: 2, amount: 0 } }),
+    ).toThrow("实际金币必须大于 0");
+    expect(() =>
+      recordGoldIncomeToState({ ...base, payload: { characterId: "missing", source: "other", runs: 0, amount: 10 } }),
+    ).toThrow("角色不存在");
+  });
+});
@@ -0,0 +1,61 @@
+import { GOLD_LEDGER_LIMIT, GOLD_LEDGER_NOTE_MAX_LENGTH } from "../shared/constants";
+import { isGoldLedgerSource } from "../shared/gold-ledger";
+import type { CharacterState, GoldLedgerEntry, RecordGoldIncomeInput } from "../shared/types";
+
+export interface RecordGoldIncomeToStateInput {
+  characters: CharacterState[];
+  payload: RecordGoldIncomeInput;
+  createId: () => string;
+  now: Date;
+}
+
+function updateCharacterLedger(
+  characters: CharacterState[],
+  characterId: string,
+  update: (ledger: GoldLedgerEntry[]) => GoldLedgerEntry[],
+): CharacterState[] {
+  if (!characters.some((item) => item.id === characterId)) {
+    throw new Error("角色不存在");
+  }
+  return characters.map((item) => (item.id === characterId ? { ...item, goldLedger: update(item.goldLedger) } : item));
+}
+
+export function recordGoldIncomeToState(input: RecordGoldIncomeToStateInput): CharacterState[] {
+  const { source } = input.payload;
+  if (!isGoldLedgerSource(source)) {
+    throw new Error("金币来源无效");
+  }
+  const amount = Math.floor(input.payload.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("实际金币必须大于 0");
+  }
+  const runs = source === "other" ? 0 : Math.floor(input.payload.runs);
+  if (source !== "other" && (!Number.isFinite(runs) || runs <= 0)) {
+    throw new Error("副本收入需要填写对应的次数");
+  }
+  const note = input.payload.note?.trim().slice(0, GOLD_LEDGER_NOTE_MAX_LENGTH);
+  const entry: GoldLedgerEntry = {
+    id: input.createId(),
+    recordedAt: input.now.toISOString(),
+    source,
+    runs,
+    amount,
+    note: note || undefined,
+  };
+  return updateCharacterLedger(input.characters, input.payload.characterId, (ledger) =>
+    [...ledger, entry].slice(-GOLD_LEDGER_LIMIT),
+  );
+}
+
+export function deleteGoldLedgerEntryFromState(
+  characters: CharacterState[],
+  characterId: string,
+  entryId: string,
+): CharacterState[] {
+  return updateCharacterLedger(characters, characterId, (ledger) => {
+    if (!ledger.some((item) => item.id === entryId)) {
+      throw new Error("金币记录不存在");
+    }
+    return ledger.filter((item) => item.id !== entryId);
+  });
+}
@@ -1,17 +1,22 @@
 import { describe, expect, it } from "vitest";
 import { DEFAULT_SETTINGS, createDefaultAccount } from "../shared/constants";
-import type { AppState, CharacterState } from "../shared/types";
+import { DEFAULT_SEASON_RULE_SET } from "../shared/season-rules";
+import type { AppState, CharacterState, OperationLogEntry } from "../shared/types";
 import {
   buildAppStateMutationSignature,
   buildAppStateRollbackPayload,
   createAppStateMutationDraft,
+  redoHistoryEntries,
   restoreAppStateByDelta,
+  revertHistoryEntryInState,
+  undoHistoryEntries,
 } from "./store-domain-history";
 
 function character(id: string, name: string, accountId = "acc-1"): CharacterState {
   return {
     id,
     accountId,
+    serverId: `${accountId}:server-1`,
     name,
     isStarred: false,
     avatarSeed: "seed",
@@ -75,6 +80,10 @@ function character(id: string, name: string, accountId = "acc-1"): CharacterStat
         sanctum_purify_raid: 0,
       },
     },
+    statsHistory: [],
+    goldLedger: [],
+    customProgress: {},
+    eventProgress: {},
     meta: { lastSyncedAt: "2026-02-26T00:00:00.000Z" },
   };
 }
@@ -85,12 +94,32 @@ function appState(characters: CharacterState[]): AppState {
     selectedAccountId: "acc-1",
     selectedCharacterId: characters[0]?.id ?? null,
     settings: DEFAULT_SETTINGS,
+    seasonRules: DEFAULT_SEASON_RULE_SET,
+    scheduledSeasonRules: null,
+    customTasks: [],
+    events: [],
     accounts: [createDefaultAccount("账号1", "acc-1")],
     characters,
     history: [],
+    redoHistory: [],
   };
 }
 
+function renameCharacter(state: AppState, id: string, name: string, entryId: string): AppState {
+  const next = {
+    ...state,
+    characters: state.characters.map((item) => (item.id === id ? { ...item, name } : item)),
+  };
+  const entry: OperationLogEntry = {
+    id: entryId,
+    at: "2026-02-26T00:00:00.000Z",
+    action: `重命名 ${name}`,
+    characterId: id,
+    ...buildAppStateRollbackPayload(state, next, 1),
+  };
+  return { ...next, history: [...state.history, entry] };
+}
+
 describe("store/store-domain-history", () => {
   it("builds rollback payload using delta or snapshot by ratio", () => {
     const before = appState([character("char-a", "A")]);
@@ -134,4 +163,44 @@ describe("store/store-domain-history", () => {
     const right = buildAppStateMutationSignature({ ...state, history: [] });
     expect(left).toBe(right);
   });
+
+  it("moves entries between history and redo stack on undo and redo", () => {
+    const base = appState([character("char-a", "A"), character("char-b", "B")]);
+    const edited = renameCharacter(renameCharacter(base, "char-a", "A2", "h1"), "char-b", "B2", "h2");
+
+    const undone = undoHistoryEntries(edited, 2, 1, 10);
+    expect(undone.characters.map((item) => item.name)).toEqual(["A", "B"]);
+    expect(undone.history).toEqual([]);
+    expect(undone.redoHistory.map((item) => item.id)).toEqual(["h2", "h1"]);
+
+    const redone = redoHistoryEntries(undone, 1, 1, 10);
+    expect(redone.characters.map((item) => item.name)).toEqual(["A2", "B"]);
+    expect(redone.history.map((item) => item.id)).toEqual(["h1"]);
+    expect(redone.redoHistory.map((item) => item.id)).toEqual(["h2"]);
+  });
+
+  it("keeps the applied character list of batch entries across undo and redo", () => {
+    const base = appState([character("char-a", "A"), character("char-b", "B")]);
+    const edited = renameCharacter(base, "char-a", "A2", "h1");
+    edited.history = [{ ...edited.history[0], characterId: null, characterIds: ["char-a", "char-b"] }];
+
+    const undone = undoHistoryEntries(edited, 1, 1, 10);
+    expect(undone.redoHistory[0]).toMatchObject({ id: "h1", characterId: null, characterIds: ["char-a", "char-b"] });
+
+    const redone = redoHistoryEntries(undone, 1, 1, 10);
+    expect(redone.history[0]).toMatchObject({ id: "h1", characterId: null, characterIds: ["char-a", "char-b"] });
+    expect(redone.redoHistory).toEqual([]);
+  });
+
+  it("reverts a single older entry unless a later entry touched the same data", () => {
+    const base = appState([character("char-a", "A"), character("char-b", "B")]);
+    const edited = renameCharacter(renameCharacter(base, "char-a", "A2", "h1"), "char-b", "B2", "h2");
+
+    const reverted = revertHistoryEntryInState(edited, "h1");
+    expect(reverted.characters.map((item) => item.name)).toEqual(["A", "B2"]);
+
+    const conflicting = renameCharacter(edited, "char-a", "A3", "h3");
+    expect(() => revertHistoryEntryInState(conflicting, "h1")).toThrowError("之后的「重命名 A3」修改了相同的数据");
+    expect(() => revertHistoryEntryInState(conflicting, "missing")).toThrowError("操作记录不存在");
+  });
 });
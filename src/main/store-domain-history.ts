@@ -1,4 +1,12 @@
-import type { AppState, AppStateCharacterSnapshotDelta, AppStateSnapshot, AppStateSnapshotDelta, CharacterState } from "../shared/types";
+import { findHistoryRevertConflict } from "../shared/history-diff";
+import type {
+  AppState,
+  AppStateCharacterSnapshotDelta,
+  AppStateSnapshot,
+  AppStateSnapshotDelta,
+  CharacterState,
+  OperationLogEntry,
+} from "../shared/types";
 
 function hasOwnProperty(entity: Record<string, unknown>, key: string): boolean {
   return Object.prototype.hasOwnProperty.call(entity, key);
@@ -67,6 +75,26 @@ function buildSnapshotDelta(before: AppState, after: AppState): AppStateSnapshot
     hasField = true;
   }
 
+  if (!jsonEquals(before.seasonRules, after.seasonRules)) {
+    delta.seasonRules = structuredClone(before.seasonRules);
+    hasField = true;
+  }
+
+  if (!jsonEquals(before.scheduledSeasonRules, after.scheduledSeasonRules)) {
+    delta.scheduledSeasonRules = structuredClone(before.scheduledSeasonRules);
+    hasField = true;
+  }
+
+  if (!jsonEquals(before.customTasks, after.customTasks)) {
+    delta.customTasks = structuredClone(before.customTasks);
+    hasField = true;
+  }
+
+  if (!jsonEquals(before.events, after.events)) {
+    delta.events = structuredClone(before.events);
+    hasField = true;
+  }
+
   if (!jsonEquals(before.accounts, after.accounts)) {
     delta.accounts = structuredClone(before.accounts);
     hasField = true;
@@ -160,6 +188,10 @@ export function createAppStateSnapshot(state: AppState): AppStateSnapshot {
     selectedAccountId: state.selectedAccountId,
     selectedCharacterId: state.selectedCharacterId,
     settings: structuredClone(state.settings),
+    seasonRules: structuredClone(state.seasonRules),
+    scheduledSeasonRules: structuredClone(state.scheduledSeasonRules),
+    customTasks: structuredClone(state.customTasks),
+    events: structuredClone(state.events),
     accounts: structuredClone(state.accounts),
     characters: structuredClone(state.characters),
   };
@@ -170,6 +202,10 @@ export function buildAppStateMutationSignature(state: AppState): string {
     selectedAccountId: state.selectedAccountId,
     selectedCharacterId: state.selectedCharacterId,
     settings: state.settings,
+    seasonRules: state.seasonRules,
+    scheduledSeasonRules: state.scheduledSeasonRules,
+    customTasks: state.customTasks,
+    events: state.events,
     accounts: state.accounts,
     characters: state.characters,
   });
@@ -179,6 +215,7 @@ export function createAppStateMutationDraft(state: AppState): AppState {
   return structuredClone({
     ...state,
     history: [],
+    redoHistory: [],
   });
 }
 
@@ -211,13 +248,113 @@ export function restoreAppStateByDelta(current: AppState, delta: AppStateSnapsho
   const selectedCharacterId = hasOwnProperty(delta as Record<string, unknown>, "selectedCharacterId")
     ? delta.selectedCharacterId ?? null
     : current.selectedCharacterId;
+  const scheduledSeasonRules = hasOwnProperty(delta as Record<string, unknown>, "scheduledSeasonRules")
+    ? structuredClone(delta.scheduledSeasonRules ?? null)
+    : current.scheduledSeasonRules;
 
   return {
     ...current,
     selectedAccountId,
     selectedCharacterId,
     settings: delta.settings ? structuredClone(delta.settings) : current.settings,
+    seasonRules: delta.seasonRules ? structuredClone(delta.seasonRules) : current.seasonRules,
+    scheduledSeasonRules,
+    customTasks: delta.customTasks ? structuredClone(delta.customTasks) : current.customTasks,
+    events: delta.events ? structuredClone(delta.events) : current.events,
     accounts: delta.accounts ? structuredClone(delta.accounts) : current.accounts,
     characters: applyCharacterChanges(current.characters, delta.characterChanges, delta.characterOrder),
   };
 }
+
+function restoreAppStateBySnapshot(current: AppState, snapshot: AppStateSnapshot): AppState {
+  return {
+    ...current,
+    selectedAccountId: snapshot.selectedAccountId,
+    selectedCharacterId: snapshot.selectedCharacterId,
+    settings: structuredClone(snapshot.settings),
+    seasonRules: structuredClone(snapshot.seasonRules ?? current.seasonRules),
+    scheduledSeasonRules:
+      snapshot.scheduledSeasonRules === undefined ? current.scheduledSeasonRules : structuredClone(snapshot.scheduledSeasonRules),
+    customTasks: structuredClone(snapshot.customTasks ?? current.customTasks),
+    events: structuredClone(snapshot.events ?? current.events),
+    accounts: structuredClone(snapshot.accounts),
+    characters: structuredClone(snapshot.characters),
+  };
+}
+
+export function rollbackHistoryEntry(current: AppState, entry: OperationLogEntry): AppState {
+  if (entry.beforeDelta) {
+    return restoreAppStateByDelta(current, entry.beforeDelta);
+  }
+  if (entry.before) {
+    return restoreAppStateBySnapshot(current, entry.before);
+  }
+  return current;
+}
+
+function moveHistoryEntry(
+  current: AppState,
+  from: "history" | "redoHistory",
+  steps: number,
+  deltaMaxSizeRatio: number,
+  historyLimit: number,
+): AppState {
+  const to = from === "history" ? "redoHistory" : "history";
+  let next = current;
+  let remain = Math.max(0, Math.floor(steps));
+  while (remain > 0 && next[from].length > 0) {
+    const entry = next[from][next[from].length - 1];
+    const restored = rollbackHistoryEntry(next, entry);
+    const inverse: OperationLogEntry = {
+      id: entry.id,
+      at: entry.at,
+      action: entry.action,
+      characterId: entry.characterId,
+      characterIds: entry.characterIds,
+      description: entry.description,
+      ...buildAppStateRollbackPayload(next, restored, deltaMaxSizeRatio),
+    };
+    next = {
+      ...restored,
+      [from]: next[from].slice(0, -1),
+      [to]: [...next[to], inverse].slice(-historyLimit),
+    };
+    remain -= 1;
+  }
+  return next;
+}
+
+export function undoHistoryEntries(
+  current: AppState,
+  steps: number,
+  deltaMaxSizeRatio: number,
+  historyLimit: number,
+): AppState {
+  return moveHistoryEntry(current, "history", steps, deltaMaxSizeRatio, historyLimit);
+}
+
+export function redoHistoryEntries(
+  current: AppState,
+  steps: number,
+  deltaMaxSizeRatio: number,
+  historyLimit: number,
+): AppState {
+  return moveHistoryEntry(current, "redoHistory", steps, deltaMaxSizeRatio, historyLimit);
+}
+
+export function revertHistoryEntryInState(current: AppState, entryId: string): AppState {
+  const index = current.history.findIndex((item) => item.id === entryId);
+  if (index < 0) {
+    throw new Error("操作记录不存在");
+  }
+  const entry = current.history[index];
+  const conflict = findHistoryRevertConflict(current.history, index);
+  if (conflict) {
+    throw new Error(`无法单独撤销「${entry.action}」：${conflict}`);
+  }
+  if (!entry.beforeDelta) {
+    return rollbackHistoryEntry(current, entry);
+  }
+  const { selectedAccountId: _selectedAccountId, selectedCharacterId: _selectedCharacterId, ...delta } = entry.beforeDelta;
+  return restoreAppStateByDelta(current, delta);
+}
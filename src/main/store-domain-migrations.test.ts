@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { APP_STATE_VERSION } from "../shared/constants";
+import appStateV3 from "./migration-fixtures/app-state-v3.json";
+import appStateV6 from "./migration-fixtures/app-state-v6.json";
+import appStateV9 from "./migration-fixtures/app-state-v9.json";
+import appStateV10 from "./migration-fixtures/app-state-v10.json";
+import appStateV11 from "./migration-fixtures/app-state-v11.json";
+import appStateV12 from "./migration-fixtures/app-state-v12.json";
+import { APP_STATE_MIGRATIONS, migrateAppStateRaw } from "./store-domain-migrations";
+import { normalizeAppState } from "./store-domain-snapshot";
+import { assertMigrationChain } from "./store-infra-migration";
+
+describe("store/store-domain-migrations", () => {
+  it("registers exactly one step per version up to the current state version", () => {
+    expect(() => assertMigrationChain(APP_STATE_MIGRATIONS, APP_STATE_VERSION)).not.toThrow();
+  });
+
+  it("upgrades a v3 save: energy split, daily dungeon base and lower corridor", () => {
+    const migrated = migrateAppStateRaw(appStateV3);
+    expect(migrated.fromVersion).toBe(3);
+    expect(migrated.applied).toHaveLength(APP_STATE_VERSION - 3);
+    expect(appStateV3.characters[0].energy).toEqual({ current: 1000 });
+
+    const state = normalizeAppState(appStateV3);
+    const character = state.characters[0];
+    expect(state.version).toBe(APP_STATE_VERSION);
+    expect(state.accounts).toHaveLength(1);
+    expect(character.energy).toMatchObject({ baseCurrent: 840, bonusCurrent: 160 });
+    expect(character.activities.dailyDungeonRemaining).toBe(5);
+    expect(character.activities.dailyDungeonTicketStored).toBe(4);
+    expect(character.activities.corridorLowerAvailable).toBe(2);
+    expect(character.activities.corridorLowerNextAt).toBe("2026-02-11T13:00:00.000Z");
+    expect(state.history[0].before?.characters[0].energy.bonusCurrent).toBe(260);
+  });
+
+  it("upgrades a v6 save: legacy aode weekly counters move to shop/transform", () => {
+    const state = normalizeAppState(appStateV6);
+    const character = state.characters[0];
+    expect(character.aodePlan.shopAodePurchaseUsed).toBe(4);
+    expect(character.aodePlan.transformAodeUsed).toBe(6);
+    expect(character.activities.dailyDungeonRemaining).toBe(5);
+    expect(character.activities.corridorMiddleAvailable).toBe(3);
+  });
+
+  it("upgrades a v9 save: sanctum counters split into challenge and box, including history deltas", () => {
+    const state = normalizeAppState(appStateV9);
+    const activities = state.characters[0].activities;
+    expect(activities.sanctumRaidChallengeRemaining).toBe(3);
+    expect(activities.sanctumRaidBoxRemaining).toBe(2);
+    expect(activities.sanctumPurifyChallengeRemaining).toBe(1);
+    expect(activities.sanctumPurifyBoxRemaining).toBe(1);
+    expect(state.characters[0].aodePlan.shopUnknownChallengeTicketUsed).toBe(1);
+    expect(state.history[0].beforeDelta?.characterChanges?.[0].before?.activities.sanctumRaidChallengeRemaining).toBe(4);
+  });
+
+  it("upgrades a v10 save: account shared pools move into a default server, including history deltas", () => {
+    const state = normalizeAppState(appStateV10);
+    const [server] = state.accounts[0].servers;
+    expect(state.accounts[0].servers).toHaveLength(1);
+    expect(server).toMatchObject({ id: "a10-1:server-1", name: "伊斯哈尔根", characterSlots: 8, extraAodeCharacterId: "c10-alt" });
+    expect(server.sharedActivities).toMatchObject({ dailyDungeonRemaining: 6, dailyDungeonTicketStored: 3, weeklyRemaining: 9 });
+    expect(server.breezePlan).toMatchObject({ shopAodePurchaseUsed: 5, transformAodeUsed: 2 });
+    expect(state.characters.map((character) => character.serverId)).toEqual(["a10-1:server-1", "a10-1:server-1"]);
+    expect(state.accounts[0]).not.toHaveProperty("sharedActivities");
+    expect(state.history[0].beforeDelta?.accounts?.[0].servers[0].sharedActivities.weeklyRemaining).toBe(10);
+  });
+
+  it("upgrades a v11 save: rule sets gain missing corridor refills and corridor caps are fixed", () => {
+    const state = normalizeAppState(appStateV11);
+    const corridorRules = state.seasonRules.rules.filter((rule) => rule.cadence === "corridor");
+    expect(corridorRules.map((rule) => [rule.key, rule.amount])).toEqual([
+      ["corridorLowerAvailable", 3],
+      ["corridorMiddleAvailable", 3],
+    ]);
+    const scheduledCorridorRules = state.scheduledSeasonRules?.ruleSet.rules.filter((rule) => rule.cadence === "corridor");
+    expect(state.scheduledSeasonRules?.ruleSet.id).toBe("custom-s3");
+    expect(scheduledCorridorRules?.map((rule) => [rule.key, rule.amount])).toEqual([
+      ["corridorLowerAvailable", 2],
+      ["corridorMiddleAvailable", 3],
+    ]);
+    expect(state.characters[0].activities).toMatchObject({
+      corridorLowerAvailable: 1,
+      corridorLowerCap: 3,
+      corridorLowerNextAt: "2026-05-06T13:00:00.000Z",
+      corridorMiddleAvailable: 0,
+      corridorMiddleCap: 3,
+    });
+  });
+
+  it("upgrades a v12 save: the abyss replenish holder becomes a ticket assignment", () => {
+    const state = normalizeAppState(appStateV12);
+    const [server] = state.accounts[0].servers;
+    expect(server.breezePlan).not.toHaveProperty("shopAbyssReplenishAssignedCharacterId");
+    expect(server.ticketAssignments).toEqual([
+      { kind: "abyss_replenish", targetId: "sanctum_raid", characterId: "c12-alt", count: 1 },
+    ]);
+    expect(state.characters[1].activities.sanctumRaidChallengeBonus).toBe(1);
+  });
+
+  it("leaves current-version data untouched", () => {
+    const current = normalizeAppState(appStateV9);
+    const migrated = migrateAppStateRaw(current);
+    expect(migrated.applied).toEqual([]);
+    expect(normalizeAppState(migrated.state)).toEqual(current);
+  });
+});
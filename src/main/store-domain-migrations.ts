@@ -0,0 +1,242 @@
+import {
+  APP_STATE_VERSION,
+  DEFAULT_SERVER_CHARACTER_SLOTS,
+  DEFAULT_SERVER_NAME,
+  ENERGY_BASE_CAP,
+  getDefaultServerId,
+} from "../shared/constants";
+import { DEFAULT_SEASON_RULE_SET } from "../shared/season-rules";
+import { runStateMigrations, type MigrationRecord, type StateMigration, type StateMigrationResult } from "./store-infra-migration";
+
+function asRecord(value: unknown): MigrationRecord | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as MigrationRecord) : null;
+}
+
+function forEachRawCharacter(state: MigrationRecord, visit: (character: MigrationRecord) => void): void {
+  const visitList = (list: unknown): void => {
+    if (Array.isArray(list)) {
+      list.forEach((item) => {
+        const character = asRecord(item);
+        if (character) {
+          visit(character);
+        }
+      });
+    }
+  };
+  visitList(state.characters);
+  [state.history, state.redoHistory].forEach((entries) => {
+    if (!Array.isArray(entries)) {
+      return;
+    }
+    entries.forEach((item) => {
+      const entry = asRecord(item);
+      visitList(asRecord(entry?.before)?.characters);
+      const changes = asRecord(entry?.beforeDelta)?.characterChanges;
+      if (Array.isArray(changes)) {
+        changes.forEach((change) => {
+          const before = asRecord(asRecord(change)?.before);
+          if (before) {
+            visit(before);
+          }
+        });
+      }
+    });
+  });
+}
+
+function forEachRawAccount(state: MigrationRecord, visit: (account: MigrationRecord) => void): void {
+  const visitList = (list: unknown): void => {
+    if (Array.isArray(list)) {
+      list.forEach((item) => {
+        const account = asRecord(item);
+        if (account) {
+          visit(account);
+        }
+      });
+    }
+  };
+  visitList(state.accounts);
+  [state.history, state.redoHistory].forEach((entries) => {
+    if (!Array.isArray(entries)) {
+      return;
+    }
+    entries.forEach((item) => {
+      const entry = asRecord(item);
+      visitList(asRecord(entry?.before)?.accounts);
+      visitList(asRecord(entry?.beforeDelta)?.accounts);
+    });
+  });
+}
+
+function renameField(target: MigrationRecord | null, from: string, to: string): void {
+  if (!target || !(from in target)) {
+    return;
+  }
+  if (!(to in target)) {
+    target[to] = target[from];
+  }
+  delete target[from];
+}
+
+function versionOnly(fromVersion: number, description: string): StateMigration {
+  return { fromVersion, description, migrate: () => undefined };
+}
+
+export const APP_STATE_MIGRATIONS: readonly StateMigration[] = [
+  versionOnly(0, "未记录版本号的早期存档，补齐版本号"),
+  versionOnly(1, "仅版本号变更"),
+  versionOnly(2, "仅版本号变更"),
+  {
+    fromVersion: 3,
+    description: "能量拆分为基础/补充两段；每日副本剩余次数不再包含券库存",
+    migrate: (state) =>
+      forEachRawCharacter(state, (character) => {
+        const energy = asRecord(character.energy);
+        if (energy && typeof energy.current === "number" && energy.baseCurrent === undefined && energy.bonusCurrent === undefined) {
+          const total = Math.max(0, Math.floor(energy.current));
+          const baseCurrent = Math.min(total, ENERGY_BASE_CAP);
+          energy.baseCurrent = baseCurrent;
+          energy.bonusCurrent = total - baseCurrent;
+          delete energy.current;
+        }
+        const activities = asRecord(character.activities);
+        const remaining = activities?.dailyDungeonRemaining;
+        const ticketStored = activities?.dailyDungeonTicketStored;
+        if (!activities || typeof remaining !== "number" || typeof ticketStored !== "number" || ticketStored <= 0) {
+          return;
+        }
+        const inferredBase = remaining - ticketStored;
+        if (inferredBase >= 0 && inferredBase <= 7) {
+          activities.dailyDungeonRemaining = inferredBase;
+        }
+      }),
+  },
+  {
+    fromVersion: 4,
+    description: "深渊回廊拆分为下层/中层，旧字段 artifactAvailable/artifactNextAt 映射到下层回廊",
+    migrate: (state) =>
+      forEachRawCharacter(state, (character) => {
+        const activities = asRecord(character.activities);
+        renameField(activities, "artifactAvailable", "corridorLowerAvailable");
+        renameField(activities, "artifactNextAt", "corridorLowerNextAt");
+      }),
+  },
+  versionOnly(5, "仅版本号变更"),
+  {
+    fromVersion: 6,
+    description: "奥德计划拆分为商店购买/变换计数，旧字段 weeklyPurchaseUsed/weeklyConvertUsed 迁移到对应项",
+    migrate: (state) =>
+      forEachRawCharacter(state, (character) => {
+        const aodePlan = asRecord(character.aodePlan);
+        renameField(aodePlan, "weeklyPurchaseUsed", "shopAodePurchaseUsed");
+        renameField(aodePlan, "weeklyConvertUsed", "transformAodeUsed");
+      }),
+  },
+  versionOnly(7, "仅版本号变更"),
+  {
+    fromVersion: 8,
+    description: "微风商店每日副本挑战券改为未知缝隙挑战券",
+    migrate: (state) =>
+      forEachRawCharacter(state, (character) => {
+        renameField(asRecord(character.aodePlan), "shopDailyDungeonTicketPurchaseUsed", "shopUnknownChallengeTicketUsed");
+      }),
+  },
+  {
+    fromVersion: 9,
+    description: "圣域恢复挑战/开箱双计数，旧字段 sanctumRaidRemaining/sanctumBoxRemaining 拆分到对应项",
+    migrate: (state) =>
+      forEachRawCharacter(state, (character) => {
+        const activities = asRecord(character.activities);
+        if (!activities) {
+          return;
+        }
+        const splitLegacyCounter = (legacyKey: string, challengeKey: string, boxKey: string): void => {
+          const legacy = activities[legacyKey];
+          if (typeof legacy === "number") {
+            activities[challengeKey] ??= Math.min(legacy, 4);
+            activities[boxKey] ??= Math.min(legacy, 2);
+          }
+          delete activities[legacyKey];
+        };
+        splitLegacyCounter("sanctumRaidRemaining", "sanctumRaidChallengeRemaining", "sanctumRaidBoxRemaining");
+        splitLegacyCounter("sanctumBoxRemaining", "sanctumPurifyChallengeRemaining", "sanctumPurifyBoxRemaining");
+      }),
+  },
+  {
+    fromVersion: 10,
+    description: "账号下新增服务器层级，共享次数/微风商店计数与角色位迁移到账号的默认服务器",
+    migrate: (state) => {
+      forEachRawAccount(state, (account) => {
+        if (Array.isArray(account.servers) || typeof account.id !== "string") {
+          return;
+        }
+        account.servers = [
+          {
+            id: getDefaultServerId(account.id),
+            name: typeof account.regionTag === "string" && account.regionTag.trim() ? account.regionTag.trim() : DEFAULT_SERVER_NAME,
+            characterSlots: DEFAULT_SERVER_CHARACTER_SLOTS,
+            extraAodeCharacterId: account.extraAodeCharacterId,
+            sharedActivities: account.sharedActivities,
+            breezePlan: account.breezePlan,
+          },
+        ];
+        delete account.extraAodeCharacterId;
+        delete account.sharedActivities;
+        delete account.breezePlan;
+      });
+      forEachRawCharacter(state, (character) => {
+        if (typeof character.serverId !== "string" && typeof character.accountId === "string") {
+          character.serverId = getDefaultServerId(character.accountId);
+        }
+      });
+    },
+  },
+  {
+    fromVersion: 11,
+    description: "深渊回廊改为每周三/周六 22:00 自动刷新，当前与预约规则集补充缺失的回廊刷新规则",
+    migrate: (state) => {
+      addMissingCorridorRules(asRecord(state.seasonRules));
+      addMissingCorridorRules(asRecord(asRecord(state.scheduledSeasonRules)?.ruleSet));
+    },
+  },
+  {
+    fromVersion: 12,
+    description: "深渊重铸补充券的指定角色改为券库存分配记录，微风商店所购券统一按库存/分配跟踪",
+    migrate: (state) =>
+      forEachRawAccount(state, (account) => {
+        if (!Array.isArray(account.servers)) {
+          return;
+        }
+        for (const server of account.servers.map(asRecord)) {
+          const breezePlan = asRecord(server?.breezePlan);
+          if (!server || !breezePlan) {
+            continue;
+          }
+          const assignedCharacterId = breezePlan.shopAbyssReplenishAssignedCharacterId;
+          if (typeof assignedCharacterId === "string" && Number(breezePlan.shopAbyssReplenishUsed) > 0) {
+            server.ticketAssignments = [
+              { kind: "abyss_replenish", targetId: "sanctum_raid", characterId: assignedCharacterId, count: 1 },
+            ];
+          }
+          delete breezePlan.shopAbyssReplenishAssignedCharacterId;
+        }
+      }),
+  },
+];
+
+// Custom rule sets get the refills too; otherwise corridor counters in those sets would never refill after v12.
+function addMissingCorridorRules(ruleSet: MigrationRecord | null): void {
+  if (!ruleSet || !Array.isArray(ruleSet.rules)) {
+    return;
+  }
+  const rules = ruleSet.rules as unknown[];
+  for (const rule of DEFAULT_SEASON_RULE_SET.rules.filter((item) => item.cadence === "corridor")) {
+    if (!rules.some((item) => asRecord(item)?.key === rule.key)) {
+      rules.push(structuredClone(rule));
+    }
+  }
+}
+
+export function migrateAppStateRaw(raw: unknown): StateMigrationResult {
+  return runStateMigrations(raw, APP_STATE_MIGRATIONS, APP_STATE_VERSION);
+}
@@ -2,7 +2,9 @@ import { describe, expect, it } from "vitest";
 import { APP_STATE_VERSION, DEFAULT_SETTINGS, createDefaultAccount, createDefaultCharacter } from "../shared/constants";
 import type { AppSettings, CharacterState } from "../shared/types";
 import {
+  applyBatchTaskActionToState,
   applyTaskActionToState,
+  buildBatchTaskActionDescription,
   buildTaskActionDescription,
   resetWeeklyStatsForCharacters,
 } from "./store-domain-progression";
@@ -84,11 +86,56 @@ describe("store/store-domain-progression", () => {
       amount: 4,
     });
 
-    expect(next.accounts[0].sharedActivities.weeklyRemaining).toBe(8);
+    expect(next.accounts[0].servers[0].sharedActivities.weeklyRemaining).toBe(8);
     expect(next.characters[0].missions.weeklyRemaining).toBe(8);
     expect(next.characters[1].missions.weeklyRemaining).toBe(8);
   });
 
+  it("applies a batch action and reports per-character failures", () => {
+    const accounts = [createDefaultAccount("账号-1", "acc-1")];
+    const characters = [
+      createDefaultCharacter("角色-1", "2026-02-26T00:00:00.000Z", "char-1", "acc-1"),
+      createDefaultCharacter("角色-2", "2026-02-26T00:00:00.000Z", "char-2", "acc-1"),
+    ];
+    characters[1].missions.dailyRemaining = 0;
+    const input = {
+      characterIds: ["char-1", "char-2", "char-1", "missing"],
+      taskId: "daily_mission" as const,
+      action: "complete_once" as const,
+      amount: 1,
+    };
+
+    const next = applyBatchTaskActionToState(accounts, characters, createSettings(), input);
+
+    expect(next.appliedCharacterIds).toEqual(["char-1"]);
+    expect(next.failures.map((item) => item.characterId)).toEqual(["char-2", "missing"]);
+    expect(next.failures[1]).toMatchObject({ characterName: "missing", message: "角色不存在" });
+    expect(next.characters[0].missions.dailyRemaining).toBe(characters[0].missions.dailyRemaining - 1);
+    expect(next.characters[1]).toBe(characters[1]);
+    expect(next.appliedCharacterIds).toEqual(["char-1"]);
+    expect(buildBatchTaskActionDescription(input, next.appliedCharacterIds)).toBe("daily_mission x1 · 1 个角色");
+  });
+
+  it("chains shared server pools across characters in one batch", () => {
+    const accounts = [createDefaultAccount("账号-1", "acc-1")];
+    const characters = [
+      createDefaultCharacter("角色-1", "2026-02-26T00:00:00.000Z", "char-1", "acc-1"),
+      createDefaultCharacter("角色-2", "2026-02-26T00:00:00.000Z", "char-2", "acc-1"),
+    ];
+
+    const next = applyBatchTaskActionToState(accounts, characters, createSettings(), {
+      characterIds: ["char-1", "char-2"],
+      taskId: "weekly_order",
+      action: "complete_once",
+      amount: 1,
+    });
+
+    const expected = accounts[0].servers[0].sharedActivities.weeklyRemaining - 2;
+    expect(next.failures).toEqual([]);
+    expect(next.accounts[0].servers[0].sharedActivities.weeklyRemaining).toBe(expected);
+    expect(next.characters.map((item) => item.missions.weeklyRemaining)).toEqual([expected, expected]);
+  });
+
   it("resets weekly stats for all characters", () => {
     const characters = createCharacters().map((item) => ({
       ...item,
@@ -1,6 +1,15 @@
 import { createEmptyWeeklyStats } from "../shared/constants";
 import { applyTaskAction } from "../shared/engine";
-import type { AccountState, AppSettings, ApplyTaskActionInput, CharacterState } from "../shared/types";
+import { mapAccountServer } from "../shared/account-servers";
+import type {
+  AccountState,
+  AppSettings,
+  ApplyBatchTaskActionInput,
+  ApplyTaskActionInput,
+  BatchTaskActionFailure,
+  CharacterState,
+  CustomTaskDefinition,
+} from "../shared/types";
 import { syncAccountSharedStateToCharacters } from "./store-domain-snapshot";
 
 export function buildTaskActionDescription(input: ApplyTaskActionInput): string {
@@ -12,13 +21,14 @@ export function applyTaskActionToState(
   characters: CharacterState[],
   settings: AppSettings,
   input: ApplyTaskActionInput,
+  customTasks: readonly CustomTaskDefinition[] = [],
 ): { accounts: AccountState[]; characters: CharacterState[] } {
   const index = characters.findIndex((item) => item.id === input.characterId);
   if (index < 0) {
     throw new Error("角色不存在");
   }
 
-  const result = applyTaskAction(characters[index], settings, input);
+  const result = applyTaskAction(characters[index], settings, input, customTasks);
   if (!result.success) {
     throw new Error(result.message);
   }
@@ -33,24 +43,21 @@ export function applyTaskActionToState(
     input.taskId === "abyss_lower" ||
     input.taskId === "abyss_middle"
   ) {
-    nextAccounts = accounts.map((account) => {
-      if (account.id !== result.next.accountId) {
-        return account;
-      }
+    nextAccounts = mapAccountServer(accounts, result.next.accountId, result.next.serverId, (server) => {
       return {
-        ...account,
+        ...server,
         sharedActivities: {
-          ...account.sharedActivities,
+          ...server.sharedActivities,
           dailyDungeonRemaining:
-            input.taskId === "daily_dungeon" ? result.next.activities.dailyDungeonRemaining : account.sharedActivities.dailyDungeonRemaining,
+            input.taskId === "daily_dungeon" ? result.next.activities.dailyDungeonRemaining : server.sharedActivities.dailyDungeonRemaining,
           dailyDungeonTicketStored:
-            input.taskId === "daily_dungeon" ? result.next.activities.dailyDungeonTicketStored : account.sharedActivities.dailyDungeonTicketStored,
+            input.taskId === "daily_dungeon" ? result.next.activities.dailyDungeonTicketStored : server.sharedActivities.dailyDungeonTicketStored,
           weeklyRemaining:
-            input.taskId === "weekly_order" ? result.next.missions.weeklyRemaining : account.sharedActivities.weeklyRemaining,
+            input.taskId === "weekly_order" ? result.next.missions.weeklyRemaining : server.sharedActivities.weeklyRemaining,
           abyssLowerRemaining:
-            input.taskId === "abyss_lower" ? result.next.missions.abyssLowerRemaining : account.sharedActivities.abyssLowerRemaining,
+            input.taskId === "abyss_lower" ? result.next.missions.abyssLowerRemaining : server.sharedActivities.abyssLowerRemaining,
           abyssMiddleRemaining:
-            input.taskId === "abyss_middle" ? result.next.missions.abyssMiddleRemaining : account.sharedActivities.abyssMiddleRemaining,
+            input.taskId === "abyss_middle" ? result.next.missions.abyssMiddleRemaining : server.sharedActivities.abyssMiddleRemaining,
         },
       };
     });
@@ -66,6 +73,54 @@ export function applyTaskActionToState(
   };
 }
 
+export function buildBatchTaskActionDescription(
+  input: ApplyBatchTaskActionInput,
+  appliedCharacterIds: readonly string[],
+): string {
+  return `${buildTaskActionDescription({ ...input, characterId: "" })} · ${new Set(appliedCharacterIds).size} 个角色`;
+}
+
+export function applyBatchTaskActionToState(
+  accounts: AccountState[],
+  characters: CharacterState[],
+  settings: AppSettings,
+  input: ApplyBatchTaskActionInput,
+  customTasks: readonly CustomTaskDefinition[] = [],
+): {
+  accounts: AccountState[];
+  characters: CharacterState[];
+  appliedCharacterIds: string[];
+  failures: BatchTaskActionFailure[];
+} {
+  let nextAccounts = accounts;
+  let nextCharacters = characters;
+  const appliedCharacterIds: string[] = [];
+  const failures: BatchTaskActionFailure[] = [];
+
+  for (const characterId of [...new Set(input.characterIds)]) {
+    try {
+      const next = applyTaskActionToState(
+        nextAccounts,
+        nextCharacters,
+        settings,
+        { characterId, taskId: input.taskId, action: input.action, amount: input.amount },
+        customTasks,
+      );
+      nextAccounts = next.accounts;
+      nextCharacters = next.characters;
+      appliedCharacterIds.push(characterId);
+    } catch (err) {
+      failures.push({
+        characterId,
+        characterName: characters.find((item) => item.id === characterId)?.name ?? characterId,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { accounts: nextAccounts, characters: nextCharacters, appliedCharacterIds, failures };
+}
+
 export function resetWeeklyStatsForCharacters(characters: CharacterState[], nowIso: string): CharacterState[] {
   return characters.map((item) => ({
     ...item,
@@ -1,24 +1,29 @@
 import { describe, expect, it } from "vitest";
-import { createDefaultAccount, createDefaultCharacter } from "../shared/constants";
+import { createDefaultAccount, createDefaultAccountServer, createDefaultCharacter } from "../shared/constants";
 import type { AccountState, CharacterState } from "../shared/types";
 import {
   addAccountToRoster,
   addCharacterToRoster,
+  addServerToAccount,
   deleteAccountFromRoster,
   deleteCharacterFromRoster,
+  deleteServerFromAccount,
+  moveCharacterToServer,
   renameAccountInRoster,
   renameCharacterInRoster,
+  updateServerInAccount,
 } from "./store-domain-roster";
 
-function account(id: string, extraAodeCharacterId?: string): AccountState {
+function account(id: string, extraAodeCharacterId?: string, characterSlots?: number): AccountState {
+  const base = createDefaultAccount(`账号-${id}`, id);
   return {
-    ...createDefaultAccount(`账号-${id}`, id),
-    extraAodeCharacterId,
+    ...base,
+    servers: [{ ...base.servers[0], extraAodeCharacterId, characterSlots: characterSlots ?? base.servers[0].characterSlots }],
   };
 }
 
-function character(id: string, accountId: string): CharacterState {
-  return createDefaultCharacter(`角色-${id}`, "2026-02-26T00:00:00.000Z", id, accountId);
+function character(id: string, accountId: string, serverId?: string): CharacterState {
+  return createDefaultCharacter(`角色-${id}`, "2026-02-26T00:00:00.000Z", id, accountId, serverId);
 }
 
 describe("store/store-domain-roster", () => {
@@ -46,6 +51,11 @@ describe("store/store-domain-roster", () => {
     const result = renameAccountInRoster([account("acc-1")], "acc-1", "账号新名", "   ");
     expect(result[0].name).toBe("账号新名");
     expect(result[0].regionTag).toBeUndefined();
+
+    const tagged = renameAccountInRoster(result, "acc-1", "账号新名", undefined, [" 搬砖 ", "搬砖", "固定队"]);
+    expect(tagged[0].tags).toEqual(["搬砖", "固定队"]);
+    expect(renameAccountInRoster(tagged, "acc-1", "账号新名")[0].tags).toEqual(["搬砖", "固定队"]);
+    expect(renameAccountInRoster(tagged, "acc-1", "账号新名", undefined, [])[0].tags).toBeUndefined();
   });
 
   it("deletes account and creates fallback character when character list becomes empty", () => {
@@ -64,8 +74,8 @@ describe("store/store-domain-roster", () => {
     expect(result.characters[0].accountId).toBe("acc-2");
   });
 
-  it("adds character using selected account and enforces per-account limit", () => {
-    const accounts = [account("acc-1"), account("acc-2")];
+  it("adds character using selected account and enforces per-server slot limit", () => {
+    const accounts = [account("acc-1", undefined, 2), account("acc-2")];
     const characters = [character("char-a", "acc-1")];
 
     const added = addCharacterToRoster({
@@ -76,7 +86,6 @@ describe("store/store-domain-roster", () => {
       requestedAccountId: undefined,
       characterId: "char-b",
       nowIso: "2026-02-26T12:00:00.000Z",
-      maxCharactersPerAccount: 2,
     });
 
     expect(added.characters).toHaveLength(2);
@@ -93,9 +102,8 @@ describe("store/store-domain-roster", () => {
         requestedAccountId: "acc-1",
         characterId: "char-3",
         nowIso: "2026-02-26T12:00:00.000Z",
-        maxCharactersPerAccount: 2,
       }),
-    ).toThrowError("每个账号最多 2 个角色");
+    ).toThrowError("账号「账号-acc-1」的服务器角色位已满");
   });
 
   it("renames and deletes character with account extra-aode cleanup", () => {
@@ -108,7 +116,7 @@ describe("store/store-domain-roster", () => {
       characterId: "char-1",
     });
     expect(deleted.characters.some((item) => item.id === "char-1")).toBe(false);
-    expect(deleted.accounts[0].extraAodeCharacterId).toBeUndefined();
+    expect(deleted.accounts[0].servers[0].extraAodeCharacterId).toBeUndefined();
 
     expect(() =>
       deleteCharacterFromRoster({
@@ -118,4 +126,61 @@ describe("store/store-domain-roster", () => {
       }),
     ).toThrowError("每个账号至少保留 1 个角色");
   });
+
+  it("manages servers with their own slots and moves characters between them", () => {
+    const accounts = addServerToAccount({
+      accounts: [account("acc-1")],
+      accountId: "acc-1",
+      serverId: "srv-2",
+      name: " 二服 ",
+      characterSlots: 1,
+    });
+    expect(accounts[0].servers.map((server) => [server.name, server.characterSlots])).toEqual([
+      ["默认服务器", 8],
+      ["二服", 1],
+    ]);
+    expect(() =>
+      addServerToAccount({ accounts, accountId: "acc-1", serverId: "srv-3", name: "二服", characterSlots: 4 }),
+    ).toThrowError("服务器「二服」已存在");
+
+    const characters = [character("char-1", "acc-1"), character("char-2", "acc-1")];
+    const added = addCharacterToRoster({
+      accounts,
+      characters,
+      name: "小号",
+      selectedAccountId: "acc-1",
+      requestedServerId: "srv-2",
+      characterId: "char-3",
+      nowIso: "2026-02-26T12:00:00.000Z",
+    });
+    expect(added.characters[2].serverId).toBe("srv-2");
+    expect(() =>
+      moveCharacterToServer({ accounts, characters: added.characters, characterId: "char-1", serverId: "srv-2" }),
+    ).toThrowError("服务器「二服」最多 1 个角色");
+    expect(() =>
+      updateServerInAccount({ accounts, characters: added.characters, accountId: "acc-1", serverId: "acc-1:server-1", name: "", characterSlots: 1 }),
+    ).toThrowError("服务器「默认服务器」已有 2 个角色，角色位不能少于该数量");
+    expect(() =>
+      deleteServerFromAccount({ accounts, characters: added.characters, accountId: "acc-1", serverId: "srv-2" }),
+    ).toThrowError("服务器「二服」下仍有角色，请先移动或删除这些角色");
+
+    const withSharedPool = accounts.map((item) => ({
+      ...item,
+      servers: item.servers.map((server) =>
+        server.id === "srv-2" ? { ...server, characterSlots: 2, sharedActivities: { ...server.sharedActivities, weeklyRemaining: 3 } } : server,
+      ),
+    }));
+    const moved = moveCharacterToServer({ accounts: withSharedPool, characters: added.characters, characterId: "char-1", serverId: "srv-2" });
+    expect(moved[0].serverId).toBe("srv-2");
+    expect(moved[0].missions.weeklyRemaining).toBe(3);
+    expect(moved[1].missions.weeklyRemaining).toBe(12);
+
+    const trimmed = deleteServerFromAccount({
+      accounts: [{ ...accounts[0], servers: [...accounts[0].servers, createDefaultAccountServer("三服", "srv-3")] }],
+      characters,
+      accountId: "acc-1",
+      serverId: "srv-3",
+    });
+    expect(trimmed[0].servers).toHaveLength(2);
+  });
 });
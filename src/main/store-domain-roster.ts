@@ -1,5 +1,14 @@
-import { createDefaultAccount, createDefaultCharacter } from "../shared/constants";
-import type { AccountState, CharacterState } from "../shared/types";
+import { countServerCharacters, getAccountServer } from "../shared/account-servers";
+import {
+  ACCOUNT_SERVER_LIMIT,
+  createDefaultAccount,
+  createDefaultAccountServer,
+  createDefaultCharacter,
+  SERVER_CHARACTER_SLOTS_MAX,
+} from "../shared/constants";
+import { normalizeOptionalTags } from "../shared/tags";
+import type { AccountServerState, AccountState, CharacterState } from "../shared/types";
+import { syncAccountSharedStateToCharacters } from "./store-domain-snapshot";
 
 export interface AddAccountToRosterInput {
   accounts: AccountState[];
@@ -17,9 +26,40 @@ export interface AddCharacterToRosterInput {
   name: string;
   selectedAccountId: string | null;
   requestedAccountId?: string;
+  requestedServerId?: string;
   characterId: string;
   nowIso: string;
-  maxCharactersPerAccount: number;
+}
+
+export interface AddServerToAccountInput {
+  accounts: AccountState[];
+  accountId: string;
+  serverId: string;
+  name: string;
+  characterSlots: number;
+}
+
+export interface UpdateAccountServerInput {
+  accounts: AccountState[];
+  characters: CharacterState[];
+  accountId: string;
+  serverId: string;
+  name: string;
+  characterSlots?: number;
+}
+
+export interface DeleteServerFromAccountInput {
+  accounts: AccountState[];
+  characters: CharacterState[];
+  accountId: string;
+  serverId: string;
+}
+
+export interface MoveCharacterToServerInput {
+  accounts: AccountState[];
+  characters: CharacterState[];
+  characterId: string;
+  serverId: string;
 }
 
 export interface DeleteAccountFromRosterInput {
@@ -79,9 +119,17 @@ export function renameAccountInRoster(
   accountId: string,
   name: string,
   regionTag?: string,
+  tags?: string[],
 ): AccountState[] {
   return accounts.map((item) =>
-    item.id === accountId ? { ...item, name, regionTag: regionTag?.trim() || undefined } : item,
+    item.id === accountId
+      ? {
+          ...item,
+          name,
+          regionTag: regionTag?.trim() || undefined,
+          tags: tags === undefined ? item.tags : normalizeOptionalTags(tags),
+        }
+      : item,
   );
 }
 
@@ -97,9 +145,15 @@ export function deleteAccountFromRoster(input: DeleteAccountFromRosterInput): Ro
 
   let nextCharacters = input.characters.filter((item) => item.accountId !== input.accountId);
   if (nextCharacters.length === 0) {
-    const fallbackAccountId = nextAccounts[0].id;
+    const fallbackAccount = nextAccounts[0];
     nextCharacters = [
-      createDefaultCharacter("Character 1", input.nowIso, input.fallbackCharacterId, fallbackAccountId),
+      createDefaultCharacter(
+        "Character 1",
+        input.nowIso,
+        input.fallbackCharacterId,
+        fallbackAccount.id,
+        fallbackAccount.servers[0].id,
+      ),
     ];
   }
 
@@ -109,6 +163,26 @@ export function deleteAccountFromRoster(input: DeleteAccountFromRosterInput): Ro
   };
 }
 
+function resolveTargetServerForCharacterCreate(
+  input: AddCharacterToRosterInput,
+  account: AccountState,
+): AccountServerState {
+  const requested = account.servers.find((server) => server.id === input.requestedServerId);
+  if (requested) {
+    if (countServerCharacters(input.characters, account.id, requested.id) >= requested.characterSlots) {
+      throw new Error(`服务器「${requested.name}」最多 ${requested.characterSlots} 个角色`);
+    }
+    return requested;
+  }
+  const available = account.servers.find(
+    (server) => countServerCharacters(input.characters, account.id, server.id) < server.characterSlots,
+  );
+  if (!available) {
+    throw new Error(`账号「${account.name}」的服务器角色位已满`);
+  }
+  return available;
+}
+
 function resolveTargetAccountIdForCharacterCreate(input: AddCharacterToRosterInput): string {
   if (input.accounts.length === 0) {
     throw new Error("请先新增账号");
@@ -125,10 +199,8 @@ function resolveTargetAccountIdForCharacterCreate(input: AddCharacterToRosterInp
 
 export function addCharacterToRoster(input: AddCharacterToRosterInput): CharacterRosterWithSelection {
   const targetAccountId = resolveTargetAccountIdForCharacterCreate(input);
-  const currentCount = input.characters.filter((item) => item.accountId === targetAccountId).length;
-  if (currentCount >= input.maxCharactersPerAccount) {
-    throw new Error(`每个账号最多 ${input.maxCharactersPerAccount} 个角色`);
-  }
+  const targetAccount = input.accounts.find((item) => item.id === targetAccountId) as AccountState;
+  const targetServer = resolveTargetServerForCharacterCreate(input, targetAccount);
 
   const nextName = input.name.trim();
   const created = createDefaultCharacter(
@@ -136,6 +208,7 @@ export function addCharacterToRoster(input: AddCharacterToRosterInput): Characte
     input.nowIso,
     input.characterId,
     targetAccountId,
+    targetServer.id,
   );
 
   return {
@@ -182,10 +255,15 @@ export function deleteCharacterFromRoster(input: DeleteCharacterFromRosterInput)
   }
 
   const nextAccounts = input.accounts.map((account) => {
-    if (account.extraAodeCharacterId !== input.characterId) {
+    if (!account.servers.some((server) => server.extraAodeCharacterId === input.characterId)) {
       return account;
     }
-    return { ...account, extraAodeCharacterId: undefined };
+    return {
+      ...account,
+      servers: account.servers.map((server) =>
+        server.extraAodeCharacterId === input.characterId ? { ...server, extraAodeCharacterId: undefined } : server,
+      ),
+    };
   });
 
   return {
@@ -193,3 +271,94 @@ export function deleteCharacterFromRoster(input: DeleteCharacterFromRosterInput)
     characters: nextCharacters,
   };
 }
+
+function clampCharacterSlots(value: number): number {
+  if (!Number.isFinite(value)) {
+    throw new Error("角色位数量无效");
+  }
+  return Math.min(SERVER_CHARACTER_SLOTS_MAX, Math.max(1, Math.floor(value)));
+}
+
+function findAccount(accounts: AccountState[], accountId: string): AccountState {
+  const account = accounts.find((item) => item.id === accountId);
+  if (!account) {
+    throw new Error("账号不存在");
+  }
+  return account;
+}
+
+function findServer(account: AccountState, serverId: string): AccountServerState {
+  const server = account.servers.find((item) => item.id === serverId);
+  if (!server) {
+    throw new Error("服务器不存在");
+  }
+  return server;
+}
+
+export function addServerToAccount(input: AddServerToAccountInput): AccountState[] {
+  const account = findAccount(input.accounts, input.accountId);
+  if (account.servers.length >= ACCOUNT_SERVER_LIMIT) {
+    throw new Error(`每个账号最多 ${ACCOUNT_SERVER_LIMIT} 个服务器`);
+  }
+  const name = input.name.trim() || `服务器 ${account.servers.length + 1}`;
+  if (account.servers.some((server) => server.name === name)) {
+    throw new Error(`服务器「${name}」已存在`);
+  }
+  const server = createDefaultAccountServer(name, input.serverId, clampCharacterSlots(input.characterSlots));
+  return input.accounts.map((item) => (item.id === account.id ? { ...item, servers: [...item.servers, server] } : item));
+}
+
+export function updateServerInAccount(input: UpdateAccountServerInput): AccountState[] {
+  const account = findAccount(input.accounts, input.accountId);
+  const server = findServer(account, input.serverId);
+  const name = input.name.trim() || server.name;
+  if (account.servers.some((item) => item.id !== server.id && item.name === name)) {
+    throw new Error(`服务器「${name}」已存在`);
+  }
+  const characterSlots = clampCharacterSlots(input.characterSlots ?? server.characterSlots);
+  const used = countServerCharacters(input.characters, account.id, server.id);
+  if (characterSlots < used) {
+    throw new Error(`服务器「${server.name}」已有 ${used} 个角色，角色位不能少于该数量`);
+  }
+  return input.accounts.map((item) =>
+    item.id === account.id
+      ? {
+          ...item,
+          servers: item.servers.map((entry) => (entry.id === server.id ? { ...entry, name, characterSlots } : entry)),
+        }
+      : item,
+  );
+}
+
+export function deleteServerFromAccount(input: DeleteServerFromAccountInput): AccountState[] {
+  const account = findAccount(input.accounts, input.accountId);
+  const server = findServer(account, input.serverId);
+  if (account.servers.length <= 1) {
+    throw new Error("每个账号至少保留 1 个服务器");
+  }
+  if (countServerCharacters(input.characters, account.id, server.id) > 0) {
+    throw new Error(`服务器「${server.name}」下仍有角色，请先移动或删除这些角色`);
+  }
+  return input.accounts.map((item) =>
+    item.id === account.id ? { ...item, servers: item.servers.filter((entry) => entry.id !== server.id) } : item,
+  );
+}
+
+export function moveCharacterToServer(input: MoveCharacterToServerInput): CharacterState[] {
+  const target = input.characters.find((item) => item.id === input.characterId);
+  if (!target) {
+    throw new Error("角色不存在");
+  }
+  const account = findAccount(input.accounts, target.accountId);
+  const server = findServer(account, input.serverId);
+  if (getAccountServer(account, target.serverId).id === server.id) {
+    return input.characters;
+  }
+  if (countServerCharacters(input.characters, account.id, server.id) >= server.characterSlots) {
+    throw new Error(`服务器「${server.name}」最多 ${server.characterSlots} 个角色`);
+  }
+  const nextCharacters = input.characters.map((item) =>
+    item.id === target.id ? { ...item, serverId: server.id } : item,
+  );
+  return syncAccountSharedStateToCharacters(input.accounts, nextCharacters);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { APP_STATE_VERSION, DEFAULT_SETTINGS, createDefaultAccount, createDefaultCharacter } from "../shared/constants";
+import { DEFAULT_SEASON_RULE_SET } from "../shared/season-rules";
+import type { AppState, SeasonRuleSet } from "../shared/types";
+import { restoreAppStateByDelta } from "./store-domain-history";
+import { applyDueSeasonRuleSwitch, refreshAppStateCharacters, scheduleSeasonRuleSwitch } from "./store-domain-season";
+import { normalizeAppState } from "./store-domain-snapshot";
+
+function at(y: number, m: number, d: number, h: number, min = 0): Date {
+  return new Date(y, m - 1, d, h, min, 0, 0);
+}
+
+function createNextSeasonRules(): SeasonRuleSet {
+  const ruleSet = structuredClone(DEFAULT_SEASON_RULE_SET);
+  ruleSet.id = "season-2";
+  ruleSet.name = "S2";
+  ruleSet.rules = ruleSet.rules.map((rule) => {
+    if (rule.key === "expeditionBossRemaining") {
+      return { ...rule, amount: 50 };
+    }
+    if (rule.key === "dailyRemaining") {
+      return { ...rule, amount: 7 };
+    }
+    return rule;
+  });
+  return ruleSet;
+}
+
+function createState(lastSyncedAt: Date): AppState {
+  const character = createDefaultCharacter("测试角色", lastSyncedAt.toISOString(), "char-1", "acc-1");
+  character.missions.dailyRemaining = 0;
+  character.activities.expeditionBossRemaining = 0;
+  return normalizeAppState({
+    version: APP_STATE_VERSION,
+    selectedAccountId: "acc-1",
+    selectedCharacterId: "char-1",
+    settings: DEFAULT_SETTINGS,
+    seasonRules: DEFAULT_SEASON_RULE_SET,
+    scheduledSeasonRules: null,
+    accounts: [createDefaultAccount("账号 1", "acc-1")],
+    characters: [character],
+    history: [],
+    redoHistory: [],
+  });
+}
+
+describe("store/domain/season", () => {
+  it("rejects switch-over times that are invalid or already passed", () => {
+    const now = at(2026, 2, 23, 12);
+    const state = createState(now);
+    expect(() => scheduleSeasonRuleSwitch(state, createNextSeasonRules(), "soon", now)).toThrow("无效");
+    expect(() => scheduleSeasonRuleSwitch(state, createNextSeasonRules(), at(2026, 2, 23, 11).toISOString(), now)).toThrow(
+      "晚于当前时间",
+    );
+  });
+
+  it("does nothing until the scheduled rule set is due", () => {
+    const now = at(2026, 2, 23, 12);
+    const scheduled = scheduleSeasonRuleSwitch(createState(now), createNextSeasonRules(), at(2026, 2, 25, 5).toISOString(), now);
+    const result = applyDueSeasonRuleSwitch({
+      state: scheduled,
+      now: at(2026, 2, 24, 12),
+      historyLimit: 200,
+      deltaMaxSizeRatio: 0.92,
+    });
+    expect(result).toBeNull();
+    expect(refreshAppStateCharacters(scheduled, at(2026, 2, 24, 12)).characters[0].missions.dailyRemaining).toBe(5);
+  });
+
+  it("switches rules at the effective time and records an undoable history entry", () => {
+    const lastSyncedAt = at(2026, 2, 23, 12);
+    const effectiveAt = at(2026, 2, 25, 5).toISOString();
+    const scheduled = scheduleSeasonRuleSwitch(createState(lastSyncedAt), createNextSeasonRules(), effectiveAt, lastSyncedAt);
+
+    const switched = applyDueSeasonRuleSwitch({
+      state: scheduled,
+      now: at(2026, 2, 25, 12),
+      historyLimit: 200,
+      deltaMaxSizeRatio: 0.92,
+      createEntryId: () => "entry-1",
+    });
+
+    expect(switched).not.toBeNull();
+    const next = normalizeAppState(switched);
+    expect(next.seasonRules.id).toBe("season-2");
+    expect(next.scheduledSeasonRules).toBeNull();
+    expect(next.characters[0].missions.dailyRemaining).toBe(7);
+    expect(next.characters[0].activities.expeditionBossRemaining).toBe(50);
+
+    const entry = next.history[next.history.length - 1];
+    expect(entry.id).toBe("entry-1");
+    expect(entry.action).toBe("赛季规则切换");
+    expect(entry.beforeDelta ?? entry.before).toBeTruthy();
+
+    const restored = entry.beforeDelta ? restoreAppStateByDelta(next, entry.beforeDelta) : next;
+    expect(restored.seasonRules.id).toBe(DEFAULT_SEASON_RULE_SET.id);
+    expect(restored.scheduledSeasonRules).toBeNull();
+    expect(restored.characters[0].missions.dailyRemaining).toBe(5);
+    expect(restored.characters[0].activities.expeditionBossRemaining).toBe(35);
+  });
+});
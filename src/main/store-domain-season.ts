@@ -0,0 +1,94 @@
+import { refreshCharacterState } from "../shared/engine";
+import { isScheduledSeasonRuleSetDue } from "../shared/season-rules";
+import type { AppState, OperationLogEntry, SeasonRuleSet } from "../shared/types";
+import { buildAppStateRollbackPayload } from "./store-domain-history";
+import { applyConfiguredActivityCaps } from "./store-domain-settings";
+import { syncAccountSharedStateFromCharacters, syncAccountSharedStateToCharacters } from "./store-domain-snapshot";
+
+export interface ApplyDueSeasonRuleSwitchInput {
+  state: AppState;
+  now: Date;
+  historyLimit: number;
+  deltaMaxSizeRatio: number;
+  createEntryId?: () => string;
+}
+
+export function getEffectiveSeasonRules(state: AppState, now: Date): SeasonRuleSet {
+  return isScheduledSeasonRuleSetDue(state.scheduledSeasonRules, now) && state.scheduledSeasonRules
+    ? state.scheduledSeasonRules.ruleSet
+    : state.seasonRules;
+}
+
+export function refreshAppStateCharacters(state: AppState, now: Date, includeScheduled = true): AppState {
+  const scheduledRuleSet = includeScheduled ? state.scheduledSeasonRules : null;
+  const capRuleSet = includeScheduled ? getEffectiveSeasonRules(state, now) : state.seasonRules;
+  const characters = state.characters.map((item) =>
+    applyConfiguredActivityCaps(
+      refreshCharacterState(item, now, {
+        ruleSet: state.seasonRules,
+        scheduledRuleSet,
+        timeZone: state.settings.serverTimeZone,
+        customTasks: state.customTasks,
+        events: state.events,
+      }),
+      state.settings,
+      capRuleSet,
+    ),
+  );
+  const accounts = syncAccountSharedStateFromCharacters(state.accounts, characters, [state.seasonRules, capRuleSet]);
+  return {
+    ...state,
+    accounts,
+    characters: syncAccountSharedStateToCharacters(accounts, characters),
+  };
+}
+
+export function scheduleSeasonRuleSwitch(state: AppState, ruleSet: SeasonRuleSet, effectiveAt: string, now: Date): AppState {
+  const effectiveDate = new Date(effectiveAt);
+  if (Number.isNaN(effectiveDate.getTime())) {
+    throw new Error("赛季规则生效时间无效");
+  }
+  if (effectiveDate <= now) {
+    throw new Error("赛季规则生效时间必须晚于当前时间");
+  }
+  return {
+    ...state,
+    scheduledSeasonRules: {
+      effectiveAt: effectiveDate.toISOString(),
+      ruleSet: structuredClone(ruleSet),
+    },
+  };
+}
+
+export function applyDueSeasonRuleSwitch(input: ApplyDueSeasonRuleSwitchInput): AppState | null {
+  const { state, now } = input;
+  const scheduled = state.scheduledSeasonRules;
+  if (!scheduled || !isScheduledSeasonRuleSetDue(scheduled, now)) {
+    return null;
+  }
+
+  const legacy: AppState = {
+    ...refreshAppStateCharacters(state, now, false),
+    scheduledSeasonRules: null,
+  };
+  const switched: AppState = {
+    ...refreshAppStateCharacters(state, now, true),
+    seasonRules: structuredClone(scheduled.ruleSet),
+    scheduledSeasonRules: null,
+  };
+
+  const entry: OperationLogEntry = {
+    id: input.createEntryId?.() ?? `season-switch-${now.getTime()}`,
+    at: now.toISOString(),
+    action: "赛季规则切换",
+    characterId: null,
+    description: `${scheduled.ruleSet.name} @ ${scheduled.effectiveAt}`,
+    ...buildAppStateRollbackPayload(legacy, switched, input.deltaMaxSizeRatio),
+  };
+
+  return {
+    ...switched,
+    history: [...state.history, entry].slice(-Math.max(1, Math.floor(input.historyLimit))),
+    redoHistory: [],
+  };
+}
@@ -28,6 +28,12 @@ describe("store/store-domain-settings", () => {
     expect(merged.nightmareRunCap).toBe(2);
   });
 
+  it("keeps only valid server time zones", () => {
+    expect(normalizeAppSettings({ serverTimeZone: " Asia/Seoul " }).serverTimeZone).toBe("Asia/Seoul");
+    expect(normalizeAppSettings({ serverTimeZone: "" }).serverTimeZone).toBeNull();
+    expect(normalizeAppSettings({ serverTimeZone: "Bad/Zone" }).serverTimeZone).toBe(DEFAULT_SETTINGS.serverTimeZone);
+  });
+
   it("applies configured activity caps to character counters", () => {
     const character = createDefaultCharacter("Tester", "2026-02-26T00:00:00.000Z", "char-1", "acc-1");
     character.activities.expeditionRemaining = 21;
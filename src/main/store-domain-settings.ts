@@ -4,7 +4,9 @@ import {
   NIGHTMARE_MAX,
   TRANSCENDENCE_REWARD_MAX,
 } from "../shared/constants";
-import type { AppSettings, CharacterState } from "../shared/types";
+import { DEFAULT_SEASON_RULE_SET, getSeasonRuleCap } from "../shared/season-rules";
+import { isValidTimeZone } from "../shared/time";
+import type { AppSettings, CharacterState, SeasonRuleSet } from "../shared/types";
 
 const SETTINGS_MAX_CAP = 9999;
 const SETTINGS_MAX_THRESHOLD = 999999;
@@ -44,11 +46,34 @@ function toPriorityWeight(value: unknown, fallback: number): number {
   return clamp(Math.floor(value), 1, 5);
 }
 
+function toRetentionCount(value: unknown, fallback: number, min: number, max: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return clamp(Math.floor(value), min, max);
+}
+
+function toServerTimeZone(value: unknown, fallback: string | null): string | null {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+    return isValidTimeZone(trimmed) ? trimmed : fallback;
+  }
+  return fallback;
+}
+
 export function normalizeAppSettings(raw: unknown): AppSettings {
   const entity = raw as Record<string, unknown> | undefined;
   return {
     expeditionGoldPerRun: toPositiveNumber(entity?.expeditionGoldPerRun, DEFAULT_SETTINGS.expeditionGoldPerRun),
     transcendenceGoldPerRun: toPositiveNumber(entity?.transcendenceGoldPerRun, DEFAULT_SETTINGS.transcendenceGoldPerRun),
+    dailyDungeonGoldPerRun: toPositiveNumber(entity?.dailyDungeonGoldPerRun, DEFAULT_SETTINGS.dailyDungeonGoldPerRun),
+    nightmareGoldPerRun: toPositiveNumber(entity?.nightmareGoldPerRun, DEFAULT_SETTINGS.nightmareGoldPerRun),
     expeditionRunCap: toOptionalCap(entity?.expeditionRunCap, DEFAULT_SETTINGS.expeditionRunCap),
     transcendenceRunCap: toOptionalCap(entity?.transcendenceRunCap, DEFAULT_SETTINGS.transcendenceRunCap),
     nightmareRunCap: toOptionalCap(entity?.nightmareRunCap, DEFAULT_SETTINGS.nightmareRunCap),
@@ -65,6 +90,10 @@ export function normalizeAppSettings(raw: unknown): AppSettings {
     priorityWeightWeekly: toPriorityWeight(entity?.priorityWeightWeekly, DEFAULT_SETTINGS.priorityWeightWeekly),
     priorityWeightMission: toPriorityWeight(entity?.priorityWeightMission, DEFAULT_SETTINGS.priorityWeightMission),
     priorityWeightLeisure: toPriorityWeight(entity?.priorityWeightLeisure, DEFAULT_SETTINGS.priorityWeightLeisure),
+    serverTimeZone: toServerTimeZone(entity?.serverTimeZone, DEFAULT_SETTINGS.serverTimeZone),
+    autoBackupKeepDaily: toRetentionCount(entity?.autoBackupKeepDaily, DEFAULT_SETTINGS.autoBackupKeepDaily, 1, 90),
+    autoBackupKeepWeekly: toRetentionCount(entity?.autoBackupKeepWeekly, DEFAULT_SETTINGS.autoBackupKeepWeekly, 0, 52),
+    autoBackupKeepMonthly: toRetentionCount(entity?.autoBackupKeepMonthly, DEFAULT_SETTINGS.autoBackupKeepMonthly, 0, 36),
   };
 }
 
@@ -82,7 +111,11 @@ export function getEffectiveActivityCap(override: number | null, baseCap: number
   return clamp(Math.floor(override), 1, baseCap);
 }
 
-export function applyConfiguredActivityCaps(character: CharacterState, settings: AppSettings): CharacterState {
+export function applyConfiguredActivityCaps(
+  character: CharacterState,
+  settings: AppSettings,
+  ruleSet: SeasonRuleSet = DEFAULT_SEASON_RULE_SET,
+): CharacterState {
   return {
     ...character,
     activities: {
@@ -90,19 +123,26 @@ export function applyConfiguredActivityCaps(character: CharacterState, settings:
       expeditionRemaining: clamp(
         character.activities.expeditionRemaining,
         0,
-        getEffectiveActivityCap(settings.expeditionRunCap, EXPEDITION_REWARD_MAX),
+        getEffectiveActivityCap(settings.expeditionRunCap, getSeasonRuleCap(ruleSet, "expeditionRemaining", EXPEDITION_REWARD_MAX)),
       ),
       transcendenceRemaining: clamp(
         character.activities.transcendenceRemaining,
         0,
-        getEffectiveActivityCap(settings.transcendenceRunCap, TRANSCENDENCE_REWARD_MAX),
+        getEffectiveActivityCap(
+          settings.transcendenceRunCap,
+          getSeasonRuleCap(ruleSet, "transcendenceRemaining", TRANSCENDENCE_REWARD_MAX),
+        ),
       ),
       nightmareRemaining: clamp(
         character.activities.nightmareRemaining,
         0,
-        getEffectiveActivityCap(settings.nightmareRunCap, NIGHTMARE_MAX),
+        getEffectiveActivityCap(settings.nightmareRunCap, getSeasonRuleCap(ruleSet, "nightmareRemaining", NIGHTMARE_MAX)),
+      ),
+      awakeningRemaining: clamp(
+        character.activities.awakeningRemaining,
+        0,
+        getEffectiveActivityCap(settings.awakeningRunCap, getSeasonRuleCap(ruleSet, "awakeningRemaining", 3)),
       ),
-      awakeningRemaining: clamp(character.activities.awakeningRemaining, 0, getEffectiveActivityCap(settings.awakeningRunCap, 3)),
     },
   };
 }
@@ -9,6 +9,7 @@ describe("store/store-domain-snapshot", () => {
       accounts: [],
       characters: [{ id: "char-1", name: "角色1", accountId: "missing-account" }],
       history: [],
+      redoHistory: [],
     });
 
     expect(state.accounts).toHaveLength(1);
@@ -35,6 +36,7 @@ describe("store/store-domain-snapshot", () => {
         },
       ],
       history: [],
+      redoHistory: [],
     });
 
     expect(state.characters[0].activities.dailyDungeonRemaining).toBe(7);
@@ -65,11 +67,12 @@ describe("store/store-domain-snapshot", () => {
         },
       ],
       history: [],
+      redoHistory: [],
     });
 
-    expect(state.accounts[0].sharedActivities.weeklyRemaining).toBe(9);
-    expect(state.accounts[0].sharedActivities.abyssLowerRemaining).toBe(13);
-    expect(state.accounts[0].sharedActivities.abyssMiddleRemaining).toBe(4);
+    expect(state.accounts[0].servers[0].sharedActivities.weeklyRemaining).toBe(9);
+    expect(state.accounts[0].servers[0].sharedActivities.abyssLowerRemaining).toBe(13);
+    expect(state.accounts[0].servers[0].sharedActivities.abyssMiddleRemaining).toBe(4);
     expect(state.characters[0].missions.weeklyRemaining).toBe(9);
     expect(state.characters[1].missions.weeklyRemaining).toBe(9);
     expect(state.characters[1].missions.abyssLowerRemaining).toBe(13);
@@ -1,20 +1,28 @@
 import { randomUUID } from "node:crypto";
 import {
   ABYSS_REPLENISH_TICKET_SERVER_LIMIT,
+  ACCOUNT_SERVER_LIMIT,
   AODE_CONVERT_SERVER_LIMIT,
   AODE_SHOP_SERVER_LIMIT,
   APP_STATE_VERSION,
   createDefaultAccount,
   createDefaultCharacter,
+  CORRIDOR_LANE_MAX,
   createEmptyWeeklyStats,
   DAILY_DUNGEON_SHARED_MAX,
+  DEFAULT_SERVER_CHARACTER_SLOTS,
+  DEFAULT_SERVER_NAME,
   EXPEDITION_CHOICE_BOX_SERVER_LIMIT,
   ENERGY_BASE_CAP,
   ENERGY_BONUS_CAP,
+  getDefaultServerId,
   NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
+  SERVER_CHARACTER_SLOTS_MAX,
   UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
+  WEEKLY_STATS_HISTORY_LIMIT,
 } from "../shared/constants";
 import type {
+  AccountServerState,
   AccountState,
   AppState,
   AppStateCharacterSnapshotDelta,
@@ -22,25 +30,55 @@ import type {
   AppStateSnapshotDelta,
   CharacterState,
   OperationLogEntry,
+  ScheduledSeasonRuleSet,
+  SeasonRuleKey,
+  SeasonRuleSet,
   TaskId,
+  TicketAssignment,
+  WeeklyStatsArchiveEntry,
 } from "../shared/types";
+import {
+  isCustomTaskId,
+  normalizeCustomTaskProgress,
+  normalizeCustomTasks,
+  reconcileCustomTaskProgress,
+} from "../shared/custom-tasks";
+import { normalizeEventProgress, normalizeEvents, reconcileEventProgress } from "../shared/events";
+import {
+  DEFAULT_SEASON_RULE_SET,
+  normalizeScheduledSeasonRuleSet,
+  normalizeSeasonRuleSet,
+  resolveSeasonCounterCap,
+} from "../shared/season-rules";
+import { getAccountServer, isSameServer } from "../shared/account-servers";
+import { normalizeGoldLedger } from "../shared/gold-ledger";
+import { normalizeOptionalTags } from "../shared/tags";
+import {
+  getTicketInventoryDefinition,
+  getTicketInventoryTarget,
+  isTicketInventoryKind,
+  trimTicketAssignments,
+} from "../shared/ticket-inventory";
 import { applyConfiguredActivityCaps, normalizeAppSettings } from "./store-domain-settings";
+import { migrateAppStateRaw } from "./store-domain-migrations";
 
 const OPERATION_HISTORY_LIMIT = 200;
 const SETTINGS_MAX_THRESHOLD = 999999;
+const DEFAULT_COUNTER_RULE_SETS: readonly SeasonRuleSet[] = [DEFAULT_SEASON_RULE_SET];
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
 function normalizeCompletions(raw: unknown): Record<TaskId, number> {
-  const base = createEmptyWeeklyStats(new Date().toISOString()).completions;
+  const base: Record<TaskId, number> = createEmptyWeeklyStats(new Date().toISOString()).completions;
   if (!raw || typeof raw !== "object") {
     return base;
   }
 
   const map = raw as Record<string, unknown>;
-  (Object.keys(base) as TaskId[]).forEach((taskId) => {
+  const taskIds = [...Object.keys(base), ...Object.keys(map).filter((key) => isCustomTaskId(key))] as TaskId[];
+  taskIds.forEach((taskId) => {
     const value = map[taskId];
     if (typeof value === "number" && Number.isFinite(value)) {
       base[taskId] = Math.max(0, Math.floor(value));
@@ -49,8 +87,14 @@ function normalizeCompletions(raw: unknown): Record<TaskId, number> {
   return base;
 }
 
-function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountId: string): CharacterState {
+function normalizeCharacter(
+  raw: unknown,
+  fallbackName: string,
+  fallbackAccountId: string,
+  ruleSets: readonly SeasonRuleSet[] = DEFAULT_COUNTER_RULE_SETS,
+): CharacterState {
   const now = new Date().toISOString();
+  const capOf = (key: SeasonRuleKey, fallback: number): number => resolveSeasonCounterCap(ruleSets, key, fallback);
   const id = typeof (raw as { id?: unknown })?.id === "string" ? ((raw as { id: string }).id ?? randomUUID()) : randomUUID();
   const base = createDefaultCharacter(fallbackName, now, id, fallbackAccountId);
   if (!raw || typeof raw !== "object") {
@@ -64,15 +108,11 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
   const baseCap = ENERGY_BASE_CAP;
   const bonusCap = ENERGY_BONUS_CAP;
 
-  if (energyRaw) {
-    if (typeof energyRaw.baseCurrent === "number" || typeof energyRaw.bonusCurrent === "number") {
-      baseCurrent = typeof energyRaw.baseCurrent === "number" ? clamp(energyRaw.baseCurrent, 0, baseCap) : baseCurrent;
-      bonusCurrent = typeof energyRaw.bonusCurrent === "number" ? clamp(energyRaw.bonusCurrent, 0, bonusCap) : bonusCurrent;
-    } else if (typeof energyRaw.current === "number") {
-      const total = clamp(Math.floor(energyRaw.current), 0, baseCap + bonusCap);
-      baseCurrent = Math.min(total, baseCap);
-      bonusCurrent = clamp(total - baseCurrent, 0, bonusCap);
-    }
+  if (typeof energyRaw?.baseCurrent === "number") {
+    baseCurrent = clamp(energyRaw.baseCurrent, 0, baseCap);
+  }
+  if (typeof energyRaw?.bonusCurrent === "number") {
+    bonusCurrent = clamp(energyRaw.bonusCurrent, 0, bonusCap);
   }
 
   const missionsRaw = entity.missions as Record<string, unknown> | undefined;
@@ -80,14 +120,11 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
   const statsRaw = entity.stats as Record<string, unknown> | undefined;
   const metaRaw = entity.meta as Record<string, unknown> | undefined;
   const aodePlanRaw = entity.aodePlan as Record<string, unknown> | undefined;
-  const legacyWeeklyPurchaseUsed =
-    typeof aodePlanRaw?.weeklyPurchaseUsed === "number" ? clamp(Math.floor(aodePlanRaw.weeklyPurchaseUsed), 0, SETTINGS_MAX_THRESHOLD) : 0;
-  const legacyWeeklyConvertUsed =
-    typeof aodePlanRaw?.weeklyConvertUsed === "number" ? clamp(Math.floor(aodePlanRaw.weeklyConvertUsed), 0, SETTINGS_MAX_THRESHOLD) : 0;
 
   return {
     id,
     accountId: typeof entity.accountId === "string" ? entity.accountId : fallbackAccountId,
+    serverId: typeof entity.serverId === "string" && entity.serverId.trim() ? entity.serverId : base.serverId,
     name: typeof entity.name === "string" ? entity.name : fallbackName,
     isStarred: typeof entity.isStarred === "boolean" ? entity.isStarred : base.isStarred,
     classTag: typeof entity.classTag === "string" && entity.classTag.trim() ? entity.classTag.trim() : undefined,
@@ -95,6 +132,7 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
       typeof entity.gearScore === "number" && Number.isFinite(entity.gearScore)
         ? clamp(Math.floor(entity.gearScore), 0, SETTINGS_MAX_THRESHOLD)
         : undefined,
+    tags: normalizeOptionalTags(entity.tags),
     avatarSeed: typeof entity.avatarSeed === "string" ? entity.avatarSeed : base.avatarSeed,
     energy: {
       baseCurrent,
@@ -106,13 +144,11 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
       shopAodePurchaseUsed:
         typeof aodePlanRaw?.shopAodePurchaseUsed === "number"
           ? clamp(Math.floor(aodePlanRaw.shopAodePurchaseUsed), 0, SETTINGS_MAX_THRESHOLD)
-          : legacyWeeklyPurchaseUsed,
+          : base.aodePlan.shopAodePurchaseUsed,
       shopUnknownChallengeTicketUsed:
         typeof aodePlanRaw?.shopUnknownChallengeTicketUsed === "number"
           ? clamp(Math.floor(aodePlanRaw.shopUnknownChallengeTicketUsed), 0, SETTINGS_MAX_THRESHOLD)
-          : typeof aodePlanRaw?.shopDailyDungeonTicketPurchaseUsed === "number"
-            ? clamp(Math.floor(aodePlanRaw.shopDailyDungeonTicketPurchaseUsed), 0, SETTINGS_MAX_THRESHOLD)
-            : base.aodePlan.shopUnknownChallengeTicketUsed,
+          : base.aodePlan.shopUnknownChallengeTicketUsed,
       shopExpeditionChoiceBoxUsed:
         typeof aodePlanRaw?.shopExpeditionChoiceBoxUsed === "number"
           ? clamp(Math.floor(aodePlanRaw.shopExpeditionChoiceBoxUsed), 0, SETTINGS_MAX_THRESHOLD)
@@ -128,26 +164,26 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
       transformAodeUsed:
         typeof aodePlanRaw?.transformAodeUsed === "number"
           ? clamp(Math.floor(aodePlanRaw.transformAodeUsed), 0, SETTINGS_MAX_THRESHOLD)
-          : legacyWeeklyConvertUsed,
+          : base.aodePlan.transformAodeUsed,
     },
     missions: {
       dailyRemaining:
-        typeof missionsRaw?.dailyRemaining === "number" ? clamp(missionsRaw.dailyRemaining, 0, 5) : base.missions.dailyRemaining,
+        typeof missionsRaw?.dailyRemaining === "number" ? clamp(missionsRaw.dailyRemaining, 0, capOf("dailyRemaining", 5)) : base.missions.dailyRemaining,
       weeklyRemaining:
-        typeof missionsRaw?.weeklyRemaining === "number" ? clamp(missionsRaw.weeklyRemaining, 0, 12) : base.missions.weeklyRemaining,
+        typeof missionsRaw?.weeklyRemaining === "number" ? clamp(missionsRaw.weeklyRemaining, 0, capOf("weeklyRemaining", 12)) : base.missions.weeklyRemaining,
       abyssLowerRemaining:
         typeof missionsRaw?.abyssLowerRemaining === "number"
-          ? clamp(missionsRaw.abyssLowerRemaining, 0, 20)
+          ? clamp(missionsRaw.abyssLowerRemaining, 0, capOf("abyssLowerRemaining", 20))
           : base.missions.abyssLowerRemaining,
       abyssMiddleRemaining:
         typeof missionsRaw?.abyssMiddleRemaining === "number"
-          ? clamp(missionsRaw.abyssMiddleRemaining, 0, 5)
+          ? clamp(missionsRaw.abyssMiddleRemaining, 0, capOf("abyssMiddleRemaining", 5))
           : base.missions.abyssMiddleRemaining,
     },
     activities: {
       nightmareRemaining:
         typeof activitiesRaw?.nightmareRemaining === "number"
-          ? clamp(activitiesRaw.nightmareRemaining, 0, 14)
+          ? clamp(activitiesRaw.nightmareRemaining, 0, capOf("nightmareRemaining", 14))
           : base.activities.nightmareRemaining,
       nightmareTicketBonus:
         typeof activitiesRaw?.nightmareTicketBonus === "number"
@@ -155,7 +191,7 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
           : 0,
       awakeningRemaining:
         typeof activitiesRaw?.awakeningRemaining === "number"
-          ? clamp(activitiesRaw.awakeningRemaining, 0, 3)
+          ? clamp(activitiesRaw.awakeningRemaining, 0, capOf("awakeningRemaining", 3))
           : base.activities.awakeningRemaining,
       awakeningTicketBonus:
         typeof activitiesRaw?.awakeningTicketBonus === "number"
@@ -171,7 +207,7 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
           : base.activities.dailyDungeonTicketStored,
       expeditionRemaining:
         typeof activitiesRaw?.expeditionRemaining === "number"
-          ? clamp(activitiesRaw.expeditionRemaining, 0, 21)
+          ? clamp(activitiesRaw.expeditionRemaining, 0, capOf("expeditionRemaining", 21))
           : base.activities.expeditionRemaining,
       expeditionTicketBonus:
         typeof activitiesRaw?.expeditionTicketBonus === "number"
@@ -179,11 +215,11 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
           : 0,
       expeditionBossRemaining:
         typeof activitiesRaw?.expeditionBossRemaining === "number"
-          ? clamp(activitiesRaw.expeditionBossRemaining, 0, 35)
+          ? clamp(activitiesRaw.expeditionBossRemaining, 0, capOf("expeditionBossRemaining", 35))
           : base.activities.expeditionBossRemaining,
       transcendenceRemaining:
         typeof activitiesRaw?.transcendenceRemaining === "number"
-          ? clamp(activitiesRaw.transcendenceRemaining, 0, 14)
+          ? clamp(activitiesRaw.transcendenceRemaining, 0, capOf("transcendenceRemaining", 14))
           : base.activities.transcendenceRemaining,
       transcendenceTicketBonus:
         typeof activitiesRaw?.transcendenceTicketBonus === "number"
@@ -191,43 +227,35 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
           : 0,
       transcendenceBossRemaining:
         typeof activitiesRaw?.transcendenceBossRemaining === "number"
-          ? clamp(activitiesRaw.transcendenceBossRemaining, 0, 28)
+          ? clamp(activitiesRaw.transcendenceBossRemaining, 0, capOf("transcendenceBossRemaining", 28))
           : base.activities.transcendenceBossRemaining,
       sanctumRaidChallengeRemaining:
         typeof activitiesRaw?.sanctumRaidChallengeRemaining === "number"
-          ? clamp(activitiesRaw.sanctumRaidChallengeRemaining, 0, 4)
-          : typeof activitiesRaw?.sanctumRaidRemaining === "number"
-            ? clamp(activitiesRaw.sanctumRaidRemaining, 0, 4)
-            : base.activities.sanctumRaidChallengeRemaining,
+          ? clamp(activitiesRaw.sanctumRaidChallengeRemaining, 0, capOf("sanctumRaidChallengeRemaining", 4))
+          : base.activities.sanctumRaidChallengeRemaining,
       sanctumRaidChallengeBonus:
         typeof activitiesRaw?.sanctumRaidChallengeBonus === "number"
           ? clamp(activitiesRaw.sanctumRaidChallengeBonus, 0, 1)
           : 0,
       sanctumRaidBoxRemaining:
         typeof activitiesRaw?.sanctumRaidBoxRemaining === "number"
-          ? clamp(activitiesRaw.sanctumRaidBoxRemaining, 0, 2)
-          : typeof activitiesRaw?.sanctumRaidRemaining === "number"
-            ? clamp(activitiesRaw.sanctumRaidRemaining, 0, 2)
-            : base.activities.sanctumRaidBoxRemaining,
+          ? clamp(activitiesRaw.sanctumRaidBoxRemaining, 0, capOf("sanctumRaidBoxRemaining", 2))
+          : base.activities.sanctumRaidBoxRemaining,
       sanctumRaidBoxBonus:
         typeof activitiesRaw?.sanctumRaidBoxBonus === "number"
           ? clamp(activitiesRaw.sanctumRaidBoxBonus, 0, 1)
           : 0,
       sanctumPurifyChallengeRemaining:
         typeof activitiesRaw?.sanctumPurifyChallengeRemaining === "number"
-          ? clamp(activitiesRaw.sanctumPurifyChallengeRemaining, 0, 4)
-          : typeof activitiesRaw?.sanctumBoxRemaining === "number"
-            ? clamp(activitiesRaw.sanctumBoxRemaining, 0, 4)
-            : base.activities.sanctumPurifyChallengeRemaining,
+          ? clamp(activitiesRaw.sanctumPurifyChallengeRemaining, 0, capOf("sanctumPurifyChallengeRemaining", 4))
+          : base.activities.sanctumPurifyChallengeRemaining,
       sanctumPurifyBoxRemaining:
         typeof activitiesRaw?.sanctumPurifyBoxRemaining === "number"
-          ? clamp(activitiesRaw.sanctumPurifyBoxRemaining, 0, 2)
-          : typeof activitiesRaw?.sanctumBoxRemaining === "number"
-            ? clamp(activitiesRaw.sanctumBoxRemaining, 0, 2)
-            : base.activities.sanctumPurifyBoxRemaining,
+          ? clamp(activitiesRaw.sanctumPurifyBoxRemaining, 0, capOf("sanctumPurifyBoxRemaining", 2))
+          : base.activities.sanctumPurifyBoxRemaining,
       miniGameRemaining:
         typeof activitiesRaw?.miniGameRemaining === "number"
-          ? clamp(activitiesRaw.miniGameRemaining, 0, 14)
+          ? clamp(activitiesRaw.miniGameRemaining, 0, capOf("miniGameRemaining", 14))
           : base.activities.miniGameRemaining,
       miniGameTicketBonus:
         typeof activitiesRaw?.miniGameTicketBonus === "number"
@@ -235,30 +263,22 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
           : base.activities.miniGameTicketBonus,
       spiritInvasionRemaining:
         typeof activitiesRaw?.spiritInvasionRemaining === "number"
-          ? clamp(activitiesRaw.spiritInvasionRemaining, 0, 7)
+          ? clamp(activitiesRaw.spiritInvasionRemaining, 0, capOf("spiritInvasionRemaining", 7))
           : base.activities.spiritInvasionRemaining,
       corridorLowerAvailable:
         typeof activitiesRaw?.corridorLowerAvailable === "number"
-          ? clamp(activitiesRaw.corridorLowerAvailable, 0, 3)
-          : typeof activitiesRaw?.artifactAvailable === "number"
-            ? clamp(activitiesRaw.artifactAvailable, 0, 3)
-            : 0,
-      corridorLowerCap:
-        typeof activitiesRaw?.corridorLowerCap === "number"
-          ? clamp(activitiesRaw.corridorLowerCap, 0, 3)
-          : 3,
+          ? clamp(activitiesRaw.corridorLowerAvailable, 0, capOf("corridorLowerAvailable", CORRIDOR_LANE_MAX))
+          : 0,
+      corridorLowerCap: capOf("corridorLowerAvailable", CORRIDOR_LANE_MAX),
       corridorLowerNextAt:
         typeof activitiesRaw?.corridorLowerNextAt === "string"
           ? activitiesRaw.corridorLowerNextAt
-          : typeof activitiesRaw?.artifactNextAt === "string"
-            ? activitiesRaw.artifactNextAt
-            : null,
+          : null,
       corridorMiddleAvailable:
-        typeof activitiesRaw?.corridorMiddleAvailable === "number" ? clamp(activitiesRaw.corridorMiddleAvailable, 0, 3) : 0,
-      corridorMiddleCap:
-        typeof activitiesRaw?.corridorMiddleCap === "number"
-          ? clamp(activitiesRaw.corridorMiddleCap, 0, 3)
-          : 3,
+        typeof activitiesRaw?.corridorMiddleAvailable === "number"
+          ? clamp(activitiesRaw.corridorMiddleAvailable, 0, capOf("corridorMiddleAvailable", CORRIDOR_LANE_MAX))
+          : 0,
+      corridorMiddleCap: capOf("corridorMiddleAvailable", CORRIDOR_LANE_MAX),
       corridorMiddleNextAt: typeof activitiesRaw?.corridorMiddleNextAt === "string" ? activitiesRaw.corridorMiddleNextAt : null,
     },
     stats: {
@@ -267,43 +287,65 @@ function normalizeCharacter(raw: unknown, fallbackName: string, fallbackAccountI
       goldEarned: typeof statsRaw?.goldEarned === "number" ? Math.max(0, statsRaw.goldEarned) : 0,
       completions: normalizeCompletions(statsRaw?.completions),
     },
+    statsHistory: normalizeStatsHistory(entity.statsHistory),
+    goldLedger: normalizeGoldLedger(entity.goldLedger),
+    customProgress: normalizeCustomTaskProgress(entity.customProgress),
+    eventProgress: normalizeEventProgress(entity.eventProgress),
     meta: {
       lastSyncedAt: typeof metaRaw?.lastSyncedAt === "string" ? metaRaw.lastSyncedAt : now,
     },
   };
 }
 
-function migrateDailyDungeonLegacy(character: CharacterState): CharacterState {
-  const { dailyDungeonRemaining, dailyDungeonTicketStored } = character.activities;
-  if (dailyDungeonTicketStored <= 0) {
-    return character;
-  }
-
-  const inferredBase = dailyDungeonRemaining - dailyDungeonTicketStored;
-  if (inferredBase < 0 || inferredBase > 7) {
-    return character;
+function normalizeStatsHistory(raw: unknown): WeeklyStatsArchiveEntry[] {
+  if (!Array.isArray(raw)) {
+    return [];
   }
-
-  return {
-    ...character,
-    activities: {
-      ...character.activities,
-      dailyDungeonRemaining: inferredBase,
-    },
-  };
+  const entries = raw.flatMap((item) => {
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+    const entity = item as Record<string, unknown>;
+    if (
+      typeof entity.cycleStartedAt !== "string" ||
+      typeof entity.cycleEndedAt !== "string" ||
+      Number.isNaN(new Date(entity.cycleEndedAt).getTime())
+    ) {
+      return [];
+    }
+    return [
+      {
+        cycleStartedAt: entity.cycleStartedAt,
+        cycleEndedAt: entity.cycleEndedAt,
+        goldEarned: typeof entity.goldEarned === "number" ? Math.max(0, entity.goldEarned) : 0,
+        completions: normalizeCompletions(entity.completions),
+      } satisfies WeeklyStatsArchiveEntry,
+    ];
+  });
+  return entries.slice(-WEEKLY_STATS_HISTORY_LIMIT);
 }
 
-function normalizeAccount(raw: unknown, index: number): AccountState {
+function normalizeAccountServer(
+  raw: unknown,
+  index: number,
+  fallbackId: string,
+  fallbackName: string,
+  ruleSets: readonly SeasonRuleSet[],
+): AccountServerState {
+  const dailyDungeonCap = resolveSeasonCounterCap(ruleSets, "dailyDungeonRemaining", DAILY_DUNGEON_SHARED_MAX);
+  const weeklyCap = resolveSeasonCounterCap(ruleSets, "weeklyRemaining", 12);
+  const abyssLowerCap = resolveSeasonCounterCap(ruleSets, "abyssLowerRemaining", 20);
+  const abyssMiddleCap = resolveSeasonCounterCap(ruleSets, "abyssMiddleRemaining", 5);
   const entity = raw as Record<string, unknown> | undefined;
-  const id = typeof entity?.id === "string" && entity.id.trim() ? entity.id : randomUUID();
-  const name =
-    typeof entity?.name === "string" && entity.name.trim() ? entity.name.trim() : `账号 ${index + 1}`;
   const sharedActivitiesRaw = entity?.sharedActivities as Record<string, unknown> | undefined;
   const breezePlanRaw = entity?.breezePlan as Record<string, unknown> | undefined;
   return {
-    id,
-    name,
-    regionTag: typeof entity?.regionTag === "string" && entity.regionTag.trim() ? entity.regionTag.trim() : undefined,
+    id: typeof entity?.id === "string" && entity.id.trim() ? entity.id : fallbackId,
+    name: typeof entity?.name === "string" && entity.name.trim() ? entity.name.trim() : index === 0 ? fallbackName : `服务器 ${index + 1}`,
+    characterSlots:
+      typeof entity?.characterSlots === "number" && Number.isFinite(entity.characterSlots)
+        ? clamp(Math.floor(entity.characterSlots), 1, SERVER_CHARACTER_SLOTS_MAX)
+        : DEFAULT_SERVER_CHARACTER_SLOTS,
     extraAodeCharacterId:
       typeof entity?.extraAodeCharacterId === "string" && entity.extraAodeCharacterId.trim()
         ? entity.extraAodeCharacterId.trim()
@@ -311,7 +353,7 @@ function normalizeAccount(raw: unknown, index: number): AccountState {
     sharedActivities: {
       dailyDungeonRemaining:
         typeof sharedActivitiesRaw?.dailyDungeonRemaining === "number"
-          ? clamp(Math.floor(sharedActivitiesRaw.dailyDungeonRemaining), 0, DAILY_DUNGEON_SHARED_MAX)
+          ? clamp(Math.floor(sharedActivitiesRaw.dailyDungeonRemaining), 0, dailyDungeonCap)
           : DAILY_DUNGEON_SHARED_MAX,
       dailyDungeonTicketStored:
         typeof sharedActivitiesRaw?.dailyDungeonTicketStored === "number"
@@ -319,15 +361,15 @@ function normalizeAccount(raw: unknown, index: number): AccountState {
           : 0,
       weeklyRemaining:
         typeof sharedActivitiesRaw?.weeklyRemaining === "number"
-          ? clamp(Math.floor(sharedActivitiesRaw.weeklyRemaining), 0, 12)
+          ? clamp(Math.floor(sharedActivitiesRaw.weeklyRemaining), 0, weeklyCap)
           : 12,
       abyssLowerRemaining:
         typeof sharedActivitiesRaw?.abyssLowerRemaining === "number"
-          ? clamp(Math.floor(sharedActivitiesRaw.abyssLowerRemaining), 0, 20)
+          ? clamp(Math.floor(sharedActivitiesRaw.abyssLowerRemaining), 0, abyssLowerCap)
           : 20,
       abyssMiddleRemaining:
         typeof sharedActivitiesRaw?.abyssMiddleRemaining === "number"
-          ? clamp(Math.floor(sharedActivitiesRaw.abyssMiddleRemaining), 0, 5)
+          ? clamp(Math.floor(sharedActivitiesRaw.abyssMiddleRemaining), 0, abyssMiddleCap)
           : 5,
     },
     breezePlan: {
@@ -351,29 +393,98 @@ function normalizeAccount(raw: unknown, index: number): AccountState {
         typeof breezePlanRaw?.shopAbyssReplenishUsed === "number"
           ? clamp(Math.floor(breezePlanRaw.shopAbyssReplenishUsed), 0, ABYSS_REPLENISH_TICKET_SERVER_LIMIT)
           : 0,
-      shopAbyssReplenishAssignedCharacterId:
-        typeof breezePlanRaw?.shopAbyssReplenishAssignedCharacterId === "string" &&
-        breezePlanRaw.shopAbyssReplenishAssignedCharacterId.trim()
-          ? breezePlanRaw.shopAbyssReplenishAssignedCharacterId.trim()
-          : null,
       transformAodeUsed:
         typeof breezePlanRaw?.transformAodeUsed === "number"
           ? clamp(Math.floor(breezePlanRaw.transformAodeUsed), 0, AODE_CONVERT_SERVER_LIMIT)
           : 0,
     },
+    ticketAssignments: normalizeTicketAssignments(entity?.ticketAssignments),
   };
 }
 
-function alignAccountExtraAodeCharacter(accounts: AccountState[], characters: CharacterState[]): AccountState[] {
-  return accounts.map((account) => {
-    if (!account.extraAodeCharacterId) {
-      return account;
+function normalizeTicketAssignments(raw: unknown): TicketAssignment[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((item): TicketAssignment[] => {
+    const entity = item as Record<string, unknown> | undefined;
+    if (
+      !isTicketInventoryKind(entity?.kind) ||
+      typeof entity?.targetId !== "string" ||
+      !getTicketInventoryTarget(entity.kind, entity.targetId) ||
+      typeof entity.characterId !== "string" ||
+      !entity.characterId.trim() ||
+      typeof entity.count !== "number" ||
+      !Number.isFinite(entity.count) ||
+      entity.count < 1
+    ) {
+      return [];
     }
-    const valid = characters.some((character) => character.id === account.extraAodeCharacterId && character.accountId === account.id);
-    if (valid) {
-      return account;
+    return [{ kind: entity.kind, targetId: entity.targetId, characterId: entity.characterId.trim(), count: Math.floor(entity.count) }];
+  });
+}
+
+function normalizeAccount(
+  raw: unknown,
+  index: number,
+  ruleSets: readonly SeasonRuleSet[] = DEFAULT_COUNTER_RULE_SETS,
+): AccountState {
+  const entity = raw as Record<string, unknown> | undefined;
+  const id = typeof entity?.id === "string" && entity.id.trim() ? entity.id : randomUUID();
+  const name =
+    typeof entity?.name === "string" && entity.name.trim() ? entity.name.trim() : `账号 ${index + 1}`;
+  const regionTag = typeof entity?.regionTag === "string" && entity.regionTag.trim() ? entity.regionTag.trim() : undefined;
+  const rawServers: unknown[] = Array.isArray(entity?.servers) && entity.servers.length > 0
+      ? entity.servers.slice(0, ACCOUNT_SERVER_LIMIT)
+      : [undefined];
+  const seenServerIds = new Set<string>();
+  const servers = rawServers.flatMap((item, serverIndex) => {
+    const server = normalizeAccountServer(
+      item,
+      serverIndex,
+      serverIndex === 0 ? getDefaultServerId(id) : randomUUID(),
+      regionTag ?? DEFAULT_SERVER_NAME,
+      ruleSets,
+    );
+    if (seenServerIds.has(server.id)) {
+      return [];
     }
-    return { ...account, extraAodeCharacterId: undefined };
+    seenServerIds.add(server.id);
+    return [server];
+  });
+  return {
+    id,
+    name,
+    regionTag,
+    tags: normalizeOptionalTags(entity?.tags),
+    servers,
+  };
+}
+
+function alignAccountExtraAodeCharacter(accounts: AccountState[], characters: CharacterState[]): AccountState[] {
+  return accounts.map((account) => ({
+    ...account,
+    servers: account.servers.map((server) => {
+      if (!server.extraAodeCharacterId) {
+        return server;
+      }
+      const valid = characters.some(
+        (character) =>
+          character.id === server.extraAodeCharacterId && character.accountId === account.id && character.serverId === server.id,
+      );
+      return valid ? server : { ...server, extraAodeCharacterId: undefined };
+    }),
+  }));
+}
+
+function alignCharacterServers(accounts: AccountState[], characters: CharacterState[]): CharacterState[] {
+  return characters.map((character) => {
+    const account = accounts.find((item) => item.id === character.accountId);
+    if (!account) {
+      return character;
+    }
+    const serverId = getAccountServer(account, character.serverId).id;
+    return serverId === character.serverId ? character : { ...character, serverId };
   });
 }
 
@@ -383,89 +494,117 @@ export function syncAccountSharedStateToCharacters(accounts: AccountState[], cha
     if (!account) {
       return character;
     }
+    const server = getAccountServer(account, character.serverId);
     return {
       ...character,
       activities: {
         ...character.activities,
-        dailyDungeonRemaining: account.sharedActivities.dailyDungeonRemaining,
-        dailyDungeonTicketStored: account.sharedActivities.dailyDungeonTicketStored,
+        dailyDungeonRemaining: server.sharedActivities.dailyDungeonRemaining,
+        dailyDungeonTicketStored: server.sharedActivities.dailyDungeonTicketStored,
       },
       missions: {
         ...character.missions,
-        weeklyRemaining: account.sharedActivities.weeklyRemaining,
-        abyssLowerRemaining: account.sharedActivities.abyssLowerRemaining,
-        abyssMiddleRemaining: account.sharedActivities.abyssMiddleRemaining,
+        weeklyRemaining: server.sharedActivities.weeklyRemaining,
+        abyssLowerRemaining: server.sharedActivities.abyssLowerRemaining,
+        abyssMiddleRemaining: server.sharedActivities.abyssMiddleRemaining,
       },
       aodePlan: {
-        shopAodePurchaseUsed: account.breezePlan.shopAodePurchaseUsed,
-        shopUnknownChallengeTicketUsed: account.breezePlan.shopUnknownChallengeTicketUsed,
-        shopExpeditionChoiceBoxUsed: account.breezePlan.shopExpeditionChoiceBoxUsed,
-        shopNightmareInstantUsed: account.breezePlan.shopNightmareInstantUsed,
-        shopAbyssReplenishUsed: account.breezePlan.shopAbyssReplenishUsed,
-        transformAodeUsed: account.breezePlan.transformAodeUsed,
+        shopAodePurchaseUsed: server.breezePlan.shopAodePurchaseUsed,
+        shopUnknownChallengeTicketUsed: server.breezePlan.shopUnknownChallengeTicketUsed,
+        shopExpeditionChoiceBoxUsed: server.breezePlan.shopExpeditionChoiceBoxUsed,
+        shopNightmareInstantUsed: server.breezePlan.shopNightmareInstantUsed,
+        shopAbyssReplenishUsed: server.breezePlan.shopAbyssReplenishUsed,
+        transformAodeUsed: server.breezePlan.transformAodeUsed,
       },
     };
   });
 }
 
-export function syncAccountSharedStateFromCharacters(accounts: AccountState[], characters: CharacterState[]): AccountState[] {
-  return accounts.map((account) => {
-    const firstCharacter = characters.find((character) => character.accountId === account.id);
-    if (!firstCharacter) {
-      return account;
+export function syncAccountSharedStateFromCharacters(
+  accounts: AccountState[],
+  characters: CharacterState[],
+  ruleSets: readonly SeasonRuleSet[] = DEFAULT_COUNTER_RULE_SETS,
+): AccountState[] {
+  const dailyDungeonCap = resolveSeasonCounterCap(ruleSets, "dailyDungeonRemaining", DAILY_DUNGEON_SHARED_MAX);
+  const weeklyCap = resolveSeasonCounterCap(ruleSets, "weeklyRemaining", 12);
+  const abyssLowerCap = resolveSeasonCounterCap(ruleSets, "abyssLowerRemaining", 20);
+  const abyssMiddleCap = resolveSeasonCounterCap(ruleSets, "abyssMiddleRemaining", 5);
+  return accounts.map((account) => ({
+    ...account,
+    servers: account.servers.map((server) => {
+      const firstCharacter = characters.find(
+        (character) => character.accountId === account.id && character.serverId === server.id,
+      );
+      if (!firstCharacter) {
+        return server;
+      }
+      return {
+        ...server,
+        sharedActivities: {
+          dailyDungeonRemaining: clamp(firstCharacter.activities.dailyDungeonRemaining, 0, dailyDungeonCap),
+          dailyDungeonTicketStored: clamp(firstCharacter.activities.dailyDungeonTicketStored, 0, 30),
+          weeklyRemaining: clamp(firstCharacter.missions.weeklyRemaining, 0, weeklyCap),
+          abyssLowerRemaining: clamp(firstCharacter.missions.abyssLowerRemaining, 0, abyssLowerCap),
+          abyssMiddleRemaining: clamp(firstCharacter.missions.abyssMiddleRemaining, 0, abyssMiddleCap),
+        },
+        breezePlan: {
+          shopAodePurchaseUsed: clamp(firstCharacter.aodePlan.shopAodePurchaseUsed, 0, AODE_SHOP_SERVER_LIMIT),
+          shopUnknownChallengeTicketUsed: clamp(
+            firstCharacter.aodePlan.shopUnknownChallengeTicketUsed,
+            0,
+            UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
+          ),
+          shopExpeditionChoiceBoxUsed: clamp(
+            firstCharacter.aodePlan.shopExpeditionChoiceBoxUsed,
+            0,
+            EXPEDITION_CHOICE_BOX_SERVER_LIMIT,
+          ),
+          shopNightmareInstantUsed: clamp(
+            firstCharacter.aodePlan.shopNightmareInstantUsed,
+            0,
+            NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
+          ),
+          shopAbyssReplenishUsed: clamp(
+            firstCharacter.aodePlan.shopAbyssReplenishUsed,
+            0,
+            ABYSS_REPLENISH_TICKET_SERVER_LIMIT,
+          ),
+          transformAodeUsed: clamp(firstCharacter.aodePlan.transformAodeUsed, 0, AODE_CONVERT_SERVER_LIMIT),
+        },
+        ticketAssignments: trimTicketAssignments(
+          server.ticketAssignments.filter((assignment) =>
+            characters.some((character) => isSameServer(character, firstCharacter) && character.id === assignment.characterId),
+          ),
+          (kind) => firstCharacter.aodePlan[getTicketInventoryDefinition(kind).purchasedKey],
+        ).kept,
+      };
+    }),
+  }));
+}
+
+function collectCounterRuleSets(...ruleSets: Array<SeasonRuleSet | ScheduledSeasonRuleSet | null | undefined>): SeasonRuleSet[] {
+  const collected = ruleSets.flatMap((item) => {
+    if (!item) {
+      return [];
     }
-    return {
-      ...account,
-      sharedActivities: {
-        dailyDungeonRemaining: clamp(firstCharacter.activities.dailyDungeonRemaining, 0, DAILY_DUNGEON_SHARED_MAX),
-        dailyDungeonTicketStored: clamp(firstCharacter.activities.dailyDungeonTicketStored, 0, 30),
-        weeklyRemaining: clamp(firstCharacter.missions.weeklyRemaining, 0, 12),
-        abyssLowerRemaining: clamp(firstCharacter.missions.abyssLowerRemaining, 0, 20),
-        abyssMiddleRemaining: clamp(firstCharacter.missions.abyssMiddleRemaining, 0, 5),
-      },
-      breezePlan: {
-        shopAodePurchaseUsed: clamp(firstCharacter.aodePlan.shopAodePurchaseUsed, 0, AODE_SHOP_SERVER_LIMIT),
-        shopUnknownChallengeTicketUsed: clamp(
-          firstCharacter.aodePlan.shopUnknownChallengeTicketUsed,
-          0,
-          UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
-        ),
-        shopExpeditionChoiceBoxUsed: clamp(
-          firstCharacter.aodePlan.shopExpeditionChoiceBoxUsed,
-          0,
-          EXPEDITION_CHOICE_BOX_SERVER_LIMIT,
-        ),
-        shopNightmareInstantUsed: clamp(
-          firstCharacter.aodePlan.shopNightmareInstantUsed,
-          0,
-          NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
-        ),
-        shopAbyssReplenishUsed: clamp(
-          firstCharacter.aodePlan.shopAbyssReplenishUsed,
-          0,
-          ABYSS_REPLENISH_TICKET_SERVER_LIMIT,
-        ),
-        shopAbyssReplenishAssignedCharacterId:
-          firstCharacter.aodePlan.shopAbyssReplenishUsed > 0 &&
-          account.breezePlan.shopAbyssReplenishAssignedCharacterId &&
-          characters.some(
-            (character) =>
-              character.accountId === account.id &&
-              character.id === account.breezePlan.shopAbyssReplenishAssignedCharacterId,
-          )
-            ? account.breezePlan.shopAbyssReplenishAssignedCharacterId
-            : null,
-        transformAodeUsed: clamp(firstCharacter.aodePlan.transformAodeUsed, 0, AODE_CONVERT_SERVER_LIMIT),
-      },
-    };
+    return "ruleSet" in item ? [item.ruleSet] : [item];
   });
+  return collected.length > 0 ? collected : [...DEFAULT_COUNTER_RULE_SETS];
 }
 
-function normalizeSnapshot(raw: unknown): AppStateSnapshot {
+function normalizeSnapshot(raw: unknown, ruleSets: readonly SeasonRuleSet[] = DEFAULT_COUNTER_RULE_SETS): AppStateSnapshot {
   const entity = (raw ?? {}) as Record<string, unknown>;
   const settings = normalizeAppSettings(entity.settings);
+  const seasonRules = entity.seasonRules ? normalizeSeasonRuleSet(entity.seasonRules) : undefined;
+  const scheduledSeasonRules = hasOwnProperty(entity, "scheduledSeasonRules")
+    ? normalizeScheduledSeasonRuleSet(entity.scheduledSeasonRules)
+    : undefined;
+  const customTasks = Array.isArray(entity.customTasks) ? normalizeCustomTasks(entity.customTasks) : undefined;
+  const events = Array.isArray(entity.events) ? normalizeEvents(entity.events) : undefined;
+  const counterRuleSets = [...ruleSets, ...collectCounterRuleSets(seasonRules, scheduledSeasonRules)];
   const rawAccounts = Array.isArray(entity.accounts) ? entity.accounts : [];
-  let accounts = rawAccounts.length > 0 ? rawAccounts.map((item, index) => normalizeAccount(item, index)) : [];
+  let accounts =
+    rawAccounts.length > 0 ? rawAccounts.map((item, index) => normalizeAccount(item, index, counterRuleSets)) : [];
   const rawCharacters = Array.isArray(entity.characters) ? entity.characters : [];
   if (accounts.length === 0 && rawCharacters.length > 0) {
     accounts = [createDefaultAccount("账号 1", randomUUID())];
@@ -474,17 +613,30 @@ function normalizeSnapshot(raw: unknown): AppStateSnapshot {
   const charactersRaw =
     rawCharacters.length > 0 && fallbackAccountId
       ? rawCharacters.map((item, index) =>
-          applyConfiguredActivityCaps(normalizeCharacter(item, `Character ${index + 1}`, fallbackAccountId), settings),
+          applyConfiguredActivityCaps(
+            normalizeCharacter(item, `Character ${index + 1}`, fallbackAccountId, counterRuleSets),
+            settings,
+            seasonRules,
+          ),
         )
       : [];
   const accountIds = new Set(accounts.map((item) => item.id));
   const safeFallbackAccountId = fallbackAccountId ?? "";
-  const characters = charactersRaw.map((item) => ({
-    ...item,
-    accountId: accountIds.has(item.accountId) ? item.accountId : safeFallbackAccountId,
-  }));
-  const accountsAligned = syncAccountSharedStateFromCharacters(alignAccountExtraAodeCharacter(accounts, characters), characters);
-  const syncedCharacters = syncAccountSharedStateToCharacters(accountsAligned, characters);
+  const characters = charactersRaw.map((item) => {
+    const withCustomTasks = customTasks ? reconcileCustomTaskProgress(item, customTasks) : item;
+    const character = events ? reconcileEventProgress(withCustomTasks, events) : withCustomTasks;
+    return {
+      ...character,
+      accountId: accountIds.has(character.accountId) ? character.accountId : safeFallbackAccountId,
+    };
+  });
+  const serverAlignedCharacters = alignCharacterServers(accounts, characters);
+  const accountsAligned = syncAccountSharedStateFromCharacters(
+    alignAccountExtraAodeCharacter(accounts, serverAlignedCharacters),
+    serverAlignedCharacters,
+    counterRuleSets,
+  );
+  const syncedCharacters = syncAccountSharedStateToCharacters(accountsAligned, serverAlignedCharacters);
   const selectedCharacterIdRaw = entity.selectedCharacterId;
   const selectedCharacterId =
     typeof selectedCharacterIdRaw === "string" && syncedCharacters.some((item) => item.id === selectedCharacterIdRaw)
@@ -501,6 +653,10 @@ function normalizeSnapshot(raw: unknown): AppStateSnapshot {
     selectedAccountId,
     selectedCharacterId,
     settings,
+    seasonRules,
+    scheduledSeasonRules,
+    customTasks,
+    events,
     accounts: accountsAligned,
     characters: syncedCharacters,
   };
@@ -510,7 +666,10 @@ function hasOwnProperty(entity: Record<string, unknown>, key: string): boolean {
   return Object.prototype.hasOwnProperty.call(entity, key);
 }
 
-function normalizeSnapshotDelta(raw: unknown): AppStateSnapshotDelta | null {
+function normalizeSnapshotDelta(
+  raw: unknown,
+  ruleSets: readonly SeasonRuleSet[] = DEFAULT_COUNTER_RULE_SETS,
+): AppStateSnapshotDelta | null {
   if (!raw || typeof raw !== "object") {
     return null;
   }
@@ -536,7 +695,7 @@ function normalizeSnapshotDelta(raw: unknown): AppStateSnapshotDelta | null {
   }
 
   if (Array.isArray(entity.accounts)) {
-    delta.accounts = entity.accounts.map((item, index) => normalizeAccount(item, index));
+    delta.accounts = entity.accounts.map((item, index) => normalizeAccount(item, index, ruleSets));
     hasField = true;
   }
 
@@ -545,6 +704,26 @@ function normalizeSnapshotDelta(raw: unknown): AppStateSnapshotDelta | null {
     hasField = true;
   }
 
+  if (entity.seasonRules && typeof entity.seasonRules === "object") {
+    delta.seasonRules = normalizeSeasonRuleSet(entity.seasonRules);
+    hasField = true;
+  }
+
+  if (hasOwnProperty(entity, "scheduledSeasonRules")) {
+    delta.scheduledSeasonRules = normalizeScheduledSeasonRuleSet(entity.scheduledSeasonRules);
+    hasField = true;
+  }
+
+  if (Array.isArray(entity.customTasks)) {
+    delta.customTasks = normalizeCustomTasks(entity.customTasks);
+    hasField = true;
+  }
+
+  if (Array.isArray(entity.events)) {
+    delta.events = normalizeEvents(entity.events);
+    hasField = true;
+  }
+
   if (Array.isArray(entity.characterChanges)) {
     const changes: AppStateCharacterSnapshotDelta[] = [];
     entity.characterChanges.forEach((rawChange) => {
@@ -568,7 +747,7 @@ function normalizeSnapshotDelta(raw: unknown): AppStateSnapshotDelta | null {
       const fallbackAccountId = typeof rawBefore.accountId === "string" ? rawBefore.accountId : "";
       changes.push({
         id: change.id,
-        before: normalizeCharacter(rawBefore, fallbackName, fallbackAccountId),
+        before: normalizeCharacter(rawBefore, fallbackName, fallbackAccountId, ruleSets),
       });
     });
     if (changes.length > 0) {
@@ -588,7 +767,7 @@ function normalizeSnapshotDelta(raw: unknown): AppStateSnapshotDelta | null {
   return hasField ? delta : null;
 }
 
-function normalizeHistory(raw: unknown): OperationLogEntry[] {
+function normalizeHistory(raw: unknown, ruleSets: readonly SeasonRuleSet[] = DEFAULT_COUNTER_RULE_SETS): OperationLogEntry[] {
   if (!Array.isArray(raw)) {
     return [];
   }
@@ -606,8 +785,11 @@ function normalizeHistory(raw: unknown): OperationLogEntry[] {
     const description =
       typeof entity.description === "string" && entity.description.trim() ? entity.description.trim() : undefined;
     const characterId = typeof entity.characterId === "string" ? entity.characterId : null;
-    const before = entity.before === undefined ? undefined : normalizeSnapshot(entity.before);
-    const beforeDelta = normalizeSnapshotDelta(entity.beforeDelta);
+    const characterIds = Array.isArray(entity.characterIds)
+      ? entity.characterIds.filter((id): id is string => typeof id === "string")
+      : [];
+    const before = entity.before === undefined ? undefined : normalizeSnapshot(entity.before, ruleSets);
+    const beforeDelta = normalizeSnapshotDelta(entity.beforeDelta, ruleSets);
     if (!before && !beforeDelta) {
       return [];
     }
@@ -617,6 +799,7 @@ function normalizeHistory(raw: unknown): OperationLogEntry[] {
         at,
         action,
         characterId,
+        characterIds: characterIds.length > 0 ? characterIds : undefined,
         description,
         before,
         beforeDelta: beforeDelta ?? undefined,
@@ -628,11 +811,16 @@ function normalizeHistory(raw: unknown): OperationLogEntry[] {
 }
 
 export function normalizeAppState(raw: unknown): AppState {
-  const entity = (raw ?? {}) as Record<string, unknown>;
-  const sourceVersion = typeof entity.version === "number" ? Math.floor(entity.version) : 0;
+  const entity = migrateAppStateRaw(raw).state;
   const settings = normalizeAppSettings(entity.settings);
+  const seasonRules = normalizeSeasonRuleSet(entity.seasonRules);
+  const scheduledSeasonRules = normalizeScheduledSeasonRuleSet(entity.scheduledSeasonRules);
+  const customTasks = normalizeCustomTasks(entity.customTasks);
+  const events = normalizeEvents(entity.events);
+  const counterRuleSets = collectCounterRuleSets(seasonRules, scheduledSeasonRules);
   const rawAccounts = Array.isArray(entity.accounts) ? entity.accounts : [];
-  let accounts = rawAccounts.length > 0 ? rawAccounts.map((item, index) => normalizeAccount(item, index)) : [];
+  let accounts =
+    rawAccounts.length > 0 ? rawAccounts.map((item, index) => normalizeAccount(item, index, counterRuleSets)) : [];
   const rawCharacters = Array.isArray(entity.characters) ? entity.characters : [];
   if (accounts.length === 0 && rawCharacters.length > 0) {
     accounts = [createDefaultAccount("账号 1", randomUUID())];
@@ -642,19 +830,26 @@ export function normalizeAppState(raw: unknown): AppState {
   const charactersRaw =
     rawCharacters.length > 0 && fallbackAccountId
       ? rawCharacters.map((item, index) =>
-          applyConfiguredActivityCaps(normalizeCharacter(item, `Character ${index + 1}`, fallbackAccountId), settings),
+          applyConfiguredActivityCaps(
+            normalizeCharacter(item, `Character ${index + 1}`, fallbackAccountId, counterRuleSets),
+            settings,
+            seasonRules,
+          ),
         )
       : [];
   const safeFallbackAccountId = fallbackAccountId ?? "";
-  let characters = charactersRaw.map((item) => ({
-    ...item,
-    accountId: accountIds.has(item.accountId) ? item.accountId : safeFallbackAccountId,
-  }));
-
-  if (sourceVersion < 4) {
-    characters = characters.map((item) => migrateDailyDungeonLegacy(item));
-  }
-  const accountsAligned = syncAccountSharedStateFromCharacters(alignAccountExtraAodeCharacter(accounts, characters), characters);
+  let characters = alignCharacterServers(
+    accounts,
+    charactersRaw.map((item) => ({
+      ...reconcileEventProgress(reconcileCustomTaskProgress(item, customTasks), events),
+      accountId: accountIds.has(item.accountId) ? item.accountId : safeFallbackAccountId,
+    })),
+  );
+  const accountsAligned = syncAccountSharedStateFromCharacters(
+    alignAccountExtraAodeCharacter(accounts, characters),
+    characters,
+    counterRuleSets,
+  );
   characters = syncAccountSharedStateToCharacters(accountsAligned, characters);
 
   const selectedCharacterIdRaw = entity.selectedCharacterId;
@@ -674,8 +869,13 @@ export function normalizeAppState(raw: unknown): AppState {
     selectedAccountId,
     selectedCharacterId,
     settings,
+    seasonRules,
+    scheduledSeasonRules,
+    customTasks,
+    events,
     accounts: accountsAligned,
     characters,
-    history: normalizeHistory(entity.history),
+    history: normalizeHistory(entity.history, counterRuleSets),
+    redoHistory: normalizeHistory(entity.redoHistory, counterRuleSets),
   };
 }
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultAccount, createDefaultCharacter } from "../shared/constants";
+import type { AccountState, CharacterState, TransferTicketsInput } from "../shared/types";
+import { applyTicketTransfer } from "./store-domain-tickets";
+
+function setup(): { accounts: AccountState[]; characters: CharacterState[] } {
+  const account = createDefaultAccount("账号-acc-1", "acc-1");
+  account.servers[0].breezePlan.shopExpeditionChoiceBoxUsed = 3;
+  account.servers[0].breezePlan.shopUnknownChallengeTicketUsed = 2;
+  const characters = ["char-a", "char-b"].map((id) => {
+    const character = createDefaultCharacter(`角色-${id}`, "2026-02-26T00:00:00.000Z", id, "acc-1");
+    character.activities.expeditionTicketBonus = 0;
+    character.activities.transcendenceTicketBonus = 0;
+    return character;
+  });
+  return { accounts: [account], characters };
+}
+
+function transfer(state: ReturnType<typeof setup>, input: Partial<TransferTicketsInput>) {
+  return applyTicketTransfer({
+    ...state,
+    input: {
+      kind: "expedition_choice_box",
+      targetId: "transcendence",
+      fromCharacterId: null,
+      toCharacterId: null,
+      count: 1,
+      ...input,
+    },
+  });
+}
+
+describe("store/store-domain-tickets", () => {
+  it("assigns stock to a character, reassigns it and returns it to stock", () => {
+    const assigned = transfer(setup(), { toCharacterId: "char-a", count: 2 });
+    expect(assigned.accounts[0].servers[0].ticketAssignments).toEqual([
+      { kind: "expedition_choice_box", targetId: "transcendence", characterId: "char-a", count: 2 },
+    ]);
+    expect(assigned.characters[0].activities.transcendenceTicketBonus).toBe(2);
+
+    const moved = transfer(assigned, { fromCharacterId: "char-a", toCharacterId: "char-b" });
+    expect(moved.characters.map((item) => item.activities.transcendenceTicketBonus)).toEqual([1, 1]);
+    expect(moved.accounts[0].servers[0].ticketAssignments.map((item) => [item.characterId, item.count])).toEqual([
+      ["char-a", 1],
+      ["char-b", 1],
+    ]);
+
+    const returned = transfer(moved, { fromCharacterId: "char-b" });
+    expect(returned.characters[1].activities.transcendenceTicketBonus).toBe(0);
+    expect(returned.accounts[0].servers[0].ticketAssignments).toHaveLength(1);
+  });
+
+  it("rejects transfers beyond stock or beyond the tickets a holder still has", () => {
+    const state = setup();
+    expect(() => transfer(state, { toCharacterId: "char-a", count: 4 })).toThrow("库存不足");
+
+    const assigned = transfer(state, { toCharacterId: "char-a", count: 2 });
+    assigned.characters[0].activities.transcendenceTicketBonus = 1;
+    expect(() => transfer(assigned, { fromCharacterId: "char-a", count: 2 })).toThrow("剩余 1 张");
+  });
+
+  it("puts unknown challenge tickets into the server-wide daily dungeon pool", () => {
+    const result = transfer(setup(), { kind: "unknown_challenge", targetId: "daily_dungeon", toCharacterId: "char-b", count: 2 });
+    expect(result.accounts[0].servers[0].sharedActivities.dailyDungeonTicketStored).toBe(2);
+    expect(result.characters.map((item) => item.activities.dailyDungeonTicketStored)).toEqual([2, 2]);
+  });
+});
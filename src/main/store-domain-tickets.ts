@@ -0,0 +1,173 @@
+import { getAccountServer, isSameServer, mapAccountServer } from "../shared/account-servers";
+import {
+  SHARED_TICKET_KEYS,
+  getTicketInventoryDefinition,
+  getTicketInventoryTarget,
+  getTicketStock,
+  isTicketInventoryKind,
+} from "../shared/ticket-inventory";
+import type {
+  AccountServerState,
+  AccountState,
+  ActivityTicketKey,
+  CharacterState,
+  TicketAssignment,
+  TransferTicketsInput,
+} from "../shared/types";
+import { syncAccountSharedStateToCharacters } from "./store-domain-snapshot";
+
+export interface ApplyTicketTransferInput {
+  accounts: AccountState[];
+  characters: CharacterState[];
+  input: TransferTicketsInput;
+}
+
+export interface ApplyTicketTransferResult {
+  accounts: AccountState[];
+  characters: CharacterState[];
+}
+
+function isSharedKey(key: ActivityTicketKey): boolean {
+  return SHARED_TICKET_KEYS.includes(key);
+}
+
+function readTicketValue(server: AccountServerState, character: CharacterState, key: ActivityTicketKey): number {
+  return isSharedKey(key) ? server.sharedActivities.dailyDungeonTicketStored : character.activities[key];
+}
+
+export function countUnusedTickets(
+  server: AccountServerState,
+  character: CharacterState,
+  keys: readonly ActivityTicketKey[],
+  held: number,
+): number {
+  return Math.max(0, Math.min(held, ...keys.map((key) => readTicketValue(server, character, key))));
+}
+
+export function adjustCharacterTickets(
+  character: CharacterState,
+  keys: readonly ActivityTicketKey[],
+  delta: number,
+): CharacterState {
+  const activities = { ...character.activities };
+  keys.forEach((key) => {
+    if (!isSharedKey(key)) {
+      activities[key] = Math.max(0, activities[key] + delta);
+    }
+  });
+  return { ...character, activities };
+}
+
+export function adjustServerSharedTickets(
+  server: AccountServerState,
+  keys: readonly ActivityTicketKey[],
+  delta: number,
+): AccountServerState {
+  if (!keys.some(isSharedKey) || delta === 0) {
+    return server;
+  }
+  return {
+    ...server,
+    sharedActivities: {
+      ...server.sharedActivities,
+      dailyDungeonTicketStored: Math.max(0, server.sharedActivities.dailyDungeonTicketStored + delta),
+    },
+  };
+}
+
+function addAssignment(assignments: TicketAssignment[], next: TicketAssignment): TicketAssignment[] {
+  const index = assignments.findIndex(
+    (item) => item.kind === next.kind && item.targetId === next.targetId && item.characterId === next.characterId,
+  );
+  if (index < 0) {
+    return [...assignments, next];
+  }
+  return assignments.map((item, itemIndex) => (itemIndex === index ? { ...item, count: item.count + next.count } : item));
+}
+
+function removeAssignment(assignments: TicketAssignment[], target: TicketAssignment): TicketAssignment[] {
+  return assignments.flatMap((item) => {
+    if (item.kind !== target.kind || item.targetId !== target.targetId || item.characterId !== target.characterId) {
+      return [item];
+    }
+    const count = item.count - target.count;
+    return count > 0 ? [{ ...item, count }] : [];
+  });
+}
+
+export function applyTicketTransfer(params: ApplyTicketTransferInput): ApplyTicketTransferResult {
+  const { kind, targetId, fromCharacterId, toCharacterId } = params.input;
+  if (!isTicketInventoryKind(kind)) {
+    throw new Error("券类型无效");
+  }
+  const target = getTicketInventoryTarget(kind, targetId);
+  if (!target) {
+    throw new Error("券的使用方式无效");
+  }
+  const count = Math.floor(params.input.count);
+  if (!Number.isFinite(count) || count <= 0) {
+    throw new Error("调配数量必须大于 0");
+  }
+  if (fromCharacterId === toCharacterId) {
+    throw new Error("请选择不同的调出与调入对象");
+  }
+  const from = fromCharacterId ? params.characters.find((item) => item.id === fromCharacterId) : null;
+  const to = toCharacterId ? params.characters.find((item) => item.id === toCharacterId) : null;
+  if ((fromCharacterId && !from) || (toCharacterId && !to)) {
+    throw new Error("角色不存在");
+  }
+  const anchor = from ?? to;
+  if (!anchor) {
+    throw new Error("请选择分配的角色");
+  }
+  if (from && to && !isSameServer(from, to)) {
+    throw new Error("只能在同一服务器的角色之间调配券");
+  }
+  const account = params.accounts.find((item) => item.id === anchor.accountId);
+  if (!account) {
+    throw new Error("账号不存在");
+  }
+  const server = getAccountServer(account, anchor.serverId);
+  const label = getTicketInventoryDefinition(kind).label;
+
+  if (from) {
+    const held =
+      server.ticketAssignments.find((item) => item.kind === kind && item.targetId === targetId && item.characterId === from.id)
+        ?.count ?? 0;
+    const unused = countUnusedTickets(server, from, target.keys, held);
+    if (count > unused) {
+      throw new Error(`${from.name} 可调出的${label}不足（剩余 ${unused} 张）`);
+    }
+  } else {
+    const stock = getTicketStock(server, kind);
+    if (count > stock) {
+      throw new Error(`${label}库存不足（剩余 ${stock} 张）`);
+    }
+  }
+
+  const sharedDelta = (to ? count : 0) - (from ? count : 0);
+  const nextAccounts = mapAccountServer(params.accounts, anchor.accountId, anchor.serverId, (current) => {
+    let assignments = current.ticketAssignments;
+    if (from) {
+      assignments = removeAssignment(assignments, { kind, targetId, characterId: from.id, count });
+    }
+    if (to) {
+      assignments = addAssignment(assignments, { kind, targetId, characterId: to.id, count });
+    }
+    return adjustServerSharedTickets({ ...current, ticketAssignments: assignments }, target.keys, sharedDelta);
+  });
+  const nextCharacters = params.characters.map((character) => {
+    if (character.id === from?.id) {
+      return adjustCharacterTickets(character, target.keys, -count);
+    }
+    if (character.id === to?.id) {
+      return adjustCharacterTickets(character, target.keys, count);
+    }
+    return character;
+  });
+
+  return {
+    accounts: nextAccounts,
+    characters: syncAccountSharedStateToCharacters(nextAccounts, nextCharacters),
+  };
+}
@@ -5,14 +5,20 @@ import {
   createDefaultAccount,
   createDefaultCharacter,
 } from "../shared/constants";
+import { DEFAULT_SEASON_RULE_SET } from "../shared/season-rules";
 import type { AppState } from "../shared/types";
 import { createAppStateSnapshot } from "./store-domain-history";
 import {
   IMPORT_EXPORT_SCHEMA_VERSION,
   buildExportPayload,
+  buildImportPreview,
   buildImportedState,
+  mergeImportedState,
   parseImportPayload,
   resolveImportedState,
+  resolveImportedWorkshop,
+  summarizeRestorePoint,
+  summarizeWorkshopBackup,
 } from "./store-domain-transfer";
 
 function createState(accountId = "acc-1", characterId = "char-1"): AppState {
@@ -23,9 +29,14 @@ function createState(accountId = "acc-1", characterId = "char-1"): AppState {
     selectedAccountId: account.id,
     selectedCharacterId: character.id,
     settings: structuredClone(DEFAULT_SETTINGS),
+    seasonRules: structuredClone(DEFAULT_SEASON_RULE_SET),
+    scheduledSeasonRules: null,
+    customTasks: [],
+    events: [],
     accounts: [account],
     characters: [character],
     history: [],
+    redoHistory: [],
   };
 }
 
@@ -41,6 +52,66 @@ describe("store/store-domain-transfer", () => {
     expect(payload.state).toEqual(state);
   });
 
+  it("bundles workshop data and rejects newer bundle versions", () => {
+    const state = createState();
+    const workshop = {
+      version: 6,
+      items: [{ id: "item-1" }, { id: "item-2" }],
+      recipes: [{ id: "recipe-1" }],
+      prices: [],
+      inventory: [{ itemId: "item-1", quantity: 3 }],
+      signalRule: {},
+      iconCache: {},
+    } as unknown as Parameters<typeof buildExportPayload>[2];
+
+    const payload = buildExportPayload(state, new Date("2026-02-26T00:00:00.000Z"), workshop);
+
+    expect(resolveImportedWorkshop(payload)).toEqual(workshop);
+    expect(summarizeWorkshopBackup(resolveImportedWorkshop(payload))).toEqual({
+      itemCount: 2,
+      recipeCount: 1,
+      priceCount: 0,
+      inventoryCount: 1,
+    });
+    expect(resolveImportedWorkshop({ schemaVersion: 1, state })).toBeNull();
+    expect(() => resolveImportedState({ ...payload, schemaVersion: IMPORT_EXPORT_SCHEMA_VERSION + 1 })).toThrowError(
+      "请先升级应用",
+    );
+  });
+
+  it("summarizes restore points against current state", () => {
+    const current = createState("acc-1", "char-1");
+    const backup = createState("acc-1", "char-2");
+    backup.settings.autoBackupKeepDaily = 3;
+    const createdAt = new Date("2026-02-26T00:00:00.000Z");
+
+    const point = summarizeRestorePoint({
+      text: JSON.stringify(buildExportPayload(backup, createdAt)),
+      currentState: current,
+      fileName: "aion2-dashboard-auto-2026-02-26T00-00-00-000Z.json",
+      createdAt,
+      sizeBytes: 2048,
+    });
+    const broken = summarizeRestorePoint({
+      text: "{bad-json",
+      currentState: current,
+      fileName: "broken.json",
+      createdAt,
+      sizeBytes: 1,
+    });
+
+    expect(point).toMatchObject({
+      createdAt: "2026-02-26T00:00:00.000Z",
+      accountCount: 1,
+      characterCount: 1,
+      hasWorkshop: false,
+      diff: { newCharacterCount: 1, changedCharacterCount: 0, missingCharacterCount: 1, changedSettingCount: 1 },
+      error: null,
+    });
+    expect(broken.diff).toBeNull();
+    expect(broken.error).toBe("导入文件不是有效的 JSON");
+  });
+
   it("resolves wrapped and raw import payloads via normalizeAppState", () => {
     const state = createState("acc-x", "char-x");
 
@@ -88,4 +159,129 @@ describe("store/store-domain-transfer", () => {
     expect(next.history[0].before?.selectedAccountId).toBe("acc-current");
     expect(next.history[0].at).toBe("2026-02-26T09:08:07.006Z");
   });
+
+  it("previews per-account and per-character differences against the current state", () => {
+    const currentState = createState("acc-1", "char-1");
+    currentState.characters.push(createDefaultCharacter("角色-old", "2026-02-26T00:00:00.000Z", "char-old", "acc-1"));
+    const importedState = createState("acc-1", "char-1");
+    importedState.characters[0].name = "角色-改名";
+    importedState.accounts.push(createDefaultAccount("账号-new", "acc-new"));
+    importedState.characters.push(createDefaultCharacter("角色-new", "2026-02-26T00:00:00.000Z", "char-new", "acc-new"));
+    importedState.settings.expeditionWarnThreshold = 10;
+
+    const { preview } = buildImportPreview({
+      raw: { exportedAt: "2026-02-25T00:00:00.000Z", state: importedState },
+      currentState,
+      sourcePath: "D:/backup/aion-backup.json",
+      token: "token-1",
+    });
+
+    expect(preview.exportedAt).toBe("2026-02-25T00:00:00.000Z");
+    expect(preview.changedSettingKeys).toEqual(["expeditionWarnThreshold"]);
+    expect(preview.accounts.map((item) => [item.id, item.status])).toEqual([
+      ["acc-1", "changed"],
+      ["acc-new", "new"],
+    ]);
+    expect(preview.accounts[0].characters[0]).toMatchObject({ id: "char-1", status: "changed", currentName: "角色-char-1" });
+    expect(preview.accounts[0].currentOnlyCharacterNames).toEqual(["角色-old"]);
+  });
+
+  it("merges or overwrites only the selected accounts and characters", () => {
+    const currentState = createState("acc-1", "char-1");
+    currentState.characters.push(createDefaultCharacter("角色-keep", "2026-02-26T00:00:00.000Z", "char-keep", "acc-1"));
+    const importedState = createState("acc-1", "char-1");
+    importedState.characters[0].name = "角色-导入";
+    importedState.accounts.push(createDefaultAccount("账号-new", "acc-new"));
+    importedState.characters.push(
+      createDefaultCharacter("角色-new", "2026-02-26T00:00:00.000Z", "char-new", "acc-new"),
+      createDefaultCharacter("角色-skip", "2026-02-26T00:00:00.000Z", "char-skip", "acc-new"),
+    );
+    importedState.settings.expeditionWarnThreshold = 10;
+
+    const merged = mergeImportedState({
+      current: currentState,
+      imported: importedState,
+      selections: [
+        { accountId: "acc-1", mode: "merge", characterIds: ["char-1"] },
+        { accountId: "acc-new", mode: "merge", characterIds: ["char-new"] },
+      ],
+      includeSettings: false,
+    });
+    expect(merged.characters.map((item) => item.name)).toEqual(["角色-keep", "角色-导入", "角色-new"]);
+    expect(merged.accounts.map((item) => item.id)).toEqual(["acc-1", "acc-new"]);
+    expect(merged.settings.expeditionWarnThreshold).toBe(currentState.settings.expeditionWarnThreshold);
+
+    const overwritten = mergeImportedState({
+      current: currentState,
+      imported: importedState,
+      selections: [{ accountId: "acc-1", mode: "overwrite", characterIds: ["char-1"] }],
+      includeSettings: true,
+    });
+    expect(overwritten.characters.map((item) => item.id)).toEqual(["char-1"]);
+    expect(overwritten.settings.expeditionWarnThreshold).toBe(10);
+
+    expect(() =>
+      mergeImportedState({
+        current: currentState,
+        imported: importedState,
+        selections: [{ accountId: "acc-1", mode: "skip", characterIds: [] }],
+        includeSettings: false,
+      }),
+    ).toThrow("请至少选择");
+    currentState.accounts[0].servers[0].characterSlots = 1;
+    expect(() =>
+      mergeImportedState({
+        current: currentState,
+        imported: importedState,
+        selections: [{ accountId: "acc-1", mode: "merge", characterIds: ["char-1"] }],
+        includeSettings: false,
+      }),
+    ).toThrow("服务器「默认服务器」导入后角色数超过上限 1");
+  });
+
+  it("imports only task and event definitions referenced by picked characters", () => {
+    const currentState = createState("acc-1", "char-1");
+    const importedState = createState("acc-1", "char-1");
+    const task = (id: `custom:${string}`) => ({
+      id,
+      title: id,
+      category: "副本" as const,
+      resetCadence: "daily" as const,
+      cap: 1,
+      energyCost: 0,
+      goldReward: 0,
+      hasTicket: false,
+    });
+    const event = (id: string) => ({
+      id,
+      title: id,
+      startAt: "2026-02-26T00:00:00.000Z",
+      endAt: "2026-03-26T00:00:00.000Z",
+      resetCadence: "daily" as const,
+      counters: [{ label: "次数", cap: 1 }],
+      rewardNote: "",
+    });
+    importedState.customTasks = [task("custom:used"), task("custom:orphan")];
+    importedState.events = [event("event-used"), event("event-orphan")];
+    importedState.characters[0].customProgress = { "custom:used": { remaining: 1, ticketBonus: 0 } };
+    importedState.characters[0].eventProgress = { "event-used": { 次数: 0 } };
+
+    const settingsOnly = mergeImportedState({
+      current: currentState,
+      imported: importedState,
+      selections: [{ accountId: "acc-1", mode: "skip", characterIds: [] }],
+      includeSettings: true,
+    });
+    expect(settingsOnly.customTasks).toEqual([]);
+    expect(settingsOnly.events).toEqual([]);
+
+    const merged = mergeImportedState({
+      current: currentState,
+      imported: importedState,
+      selections: [{ accountId: "acc-1", mode: "merge", characterIds: ["char-1"] }],
+      includeSettings: false,
+    });
+    expect(merged.customTasks.map((item) => item.id)).toEqual(["custom:used"]);
+    expect(merged.events.map((item) => item.id)).toEqual(["event-used"]);
+  });
 });
@@ -1,9 +1,23 @@
 import { basename } from "node:path";
-import type { AppState, OperationLogEntry } from "../shared/types";
+import type {
+  AccountState,
+  AppSettings,
+  AppState,
+  CharacterState,
+  ImportAccountPreview,
+  ImportAccountSelection,
+  ImportEntityStatus,
+  ImportPreview,
+  OperationLogEntry,
+  RestorePoint,
+  WorkshopBackupData,
+  WorkshopBackupSummary,
+} from "../shared/types";
+import { getAccountServer } from "../shared/account-servers";
 import { createAppStateSnapshot } from "./store-domain-history";
 import { normalizeAppState } from "./store-domain-snapshot";
 
-export const IMPORT_EXPORT_SCHEMA_VERSION = 1;
+export const IMPORT_EXPORT_SCHEMA_VERSION = 2;
 
 export interface BuildImportedStateInput {
   raw: unknown;
@@ -18,16 +32,50 @@ function clampHistoryLimit(limit: number): number {
   return Math.max(1, Math.floor(limit));
 }
 
-export function buildExportPayload(state: AppState, now = new Date()): Record<string, unknown> {
+export function buildExportPayload(
+  state: AppState,
+  now = new Date(),
+  workshop: WorkshopBackupData | null = null,
+): Record<string, unknown> {
   return {
     schemaVersion: IMPORT_EXPORT_SCHEMA_VERSION,
     exportedAt: now.toISOString(),
     app: "aion2-dashboard",
     state,
+    workshop,
+  };
+}
+
+function assertSupportedSchemaVersion(raw: unknown): void {
+  const schemaVersion = (raw as { schemaVersion?: unknown } | null)?.schemaVersion;
+  if (typeof schemaVersion === "number" && schemaVersion > IMPORT_EXPORT_SCHEMA_VERSION) {
+    throw new Error(`备份文件版本 ${schemaVersion} 高于当前支持的版本 ${IMPORT_EXPORT_SCHEMA_VERSION}，请先升级应用`);
+  }
+}
+
+export function resolveImportedWorkshop(raw: unknown): Record<string, unknown> | null {
+  const workshop = (raw as { workshop?: unknown } | null)?.workshop;
+  if (!workshop || typeof workshop !== "object" || Array.isArray(workshop)) {
+    return null;
+  }
+  return workshop as Record<string, unknown>;
+}
+
+export function summarizeWorkshopBackup(workshop: Record<string, unknown> | null): WorkshopBackupSummary | null {
+  if (!workshop) {
+    return null;
+  }
+  const count = (value: unknown): number => (Array.isArray(value) ? value.length : 0);
+  return {
+    itemCount: count(workshop.items),
+    recipeCount: count(workshop.recipes),
+    priceCount: count(workshop.prices),
+    inventoryCount: count(workshop.inventory),
   };
 }
 
 export function resolveImportedState(raw: unknown): AppState {
+  assertSupportedSchemaVersion(raw);
   if (raw && typeof raw === "object" && (raw as { state?: unknown }).state !== undefined) {
     return normalizeAppState((raw as { state: unknown }).state);
   }
@@ -59,5 +107,222 @@ export function buildImportedState(input: BuildImportedStateInput): AppState {
   return normalizeAppState({
     ...imported,
     history: [...imported.history, entry].slice(-clampHistoryLimit(input.historyLimit)),
+    redoHistory: [],
+  });
+}
+
+function jsonEquals(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function resolveCharacterStatus(imported: CharacterState, current: CharacterState | undefined): ImportEntityStatus {
+  if (!current) {
+    return "new";
+  }
+  const { meta: _importedMeta, ...importedBody } = imported;
+  const { meta: _currentMeta, ...currentBody } = current;
+  return jsonEquals(importedBody, currentBody) ? "unchanged" : "changed";
+}
+
+function resolveAccountStatus(imported: AccountState, current: AccountState | undefined): ImportEntityStatus {
+  if (!current) {
+    return "new";
+  }
+  return jsonEquals(imported, current) ? "unchanged" : "changed";
+}
+
+export interface BuildImportPreviewInput {
+  raw: unknown;
+  currentState: AppState;
+  sourcePath: string;
+  token: string;
+}
+
+export function buildImportPreview(input: BuildImportPreviewInput): {
+  preview: ImportPreview;
+  imported: AppState;
+  workshop: Record<string, unknown> | null;
+} {
+  const imported = resolveImportedState(input.raw);
+  const current = input.currentState;
+  const currentAccountById = new Map(current.accounts.map((item) => [item.id, item]));
+  const currentCharacterById = new Map(current.characters.map((item) => [item.id, item]));
+
+  const accounts: ImportAccountPreview[] = imported.accounts.map((account) => {
+    const importedCharacters = imported.characters.filter((item) => item.accountId === account.id);
+    const importedIds = new Set(importedCharacters.map((item) => item.id));
+    const characters = importedCharacters.map((character) => {
+      const currentCharacter = currentCharacterById.get(character.id);
+      return {
+        id: character.id,
+        name: character.name,
+        status: resolveCharacterStatus(character, currentCharacter),
+        currentName: currentCharacter?.name ?? null,
+        currentAccountId: currentCharacter?.accountId ?? null,
+      };
+    });
+    const accountStatus = resolveAccountStatus(account, currentAccountById.get(account.id));
+    return {
+      id: account.id,
+      name: account.name,
+      regionTag: account.regionTag ?? null,
+      status:
+        accountStatus === "unchanged" && characters.some((item) => item.status !== "unchanged") ? "changed" : accountStatus,
+      currentName: currentAccountById.get(account.id)?.name ?? null,
+      characters,
+      currentOnlyCharacterNames: current.characters
+        .filter((item) => item.accountId === account.id && !importedIds.has(item.id))
+        .map((item) => item.name),
+    };
+  });
+
+  const changedSettingKeys = (Object.keys(imported.settings) as Array<keyof AppSettings>).filter(
+    (key) => !jsonEquals(imported.settings[key], current.settings[key]),
+  );
+  const rawExportedAt = (input.raw as { exportedAt?: unknown } | null)?.exportedAt;
+  const workshop = resolveImportedWorkshop(input.raw);
+
+  return {
+    preview: {
+      token: input.token,
+      path: input.sourcePath,
+      exportedAt: typeof rawExportedAt === "string" ? rawExportedAt : null,
+      accounts,
+      changedSettingKeys,
+      workshop: summarizeWorkshopBackup(workshop),
+    },
+    imported,
+    workshop,
+  };
+}
+
+export interface SummarizeRestorePointInput {
+  text: string;
+  currentState: AppState;
+  fileName: string;
+  createdAt: Date;
+  sizeBytes: number;
+}
+
+export function summarizeRestorePoint(input: SummarizeRestorePointInput): RestorePoint {
+  const base = {
+    fileName: input.fileName,
+    createdAt: input.createdAt.toISOString(),
+    sizeBytes: input.sizeBytes,
+  };
+  try {
+    const { preview, imported, workshop } = buildImportPreview({
+      raw: parseImportPayload(input.text),
+      currentState: input.currentState,
+      sourcePath: input.fileName,
+      token: "",
+    });
+    const characters = preview.accounts.flatMap((account) => account.characters);
+    const importedIds = new Set(imported.characters.map((item) => item.id));
+    return {
+      ...base,
+      accountCount: imported.accounts.length,
+      characterCount: imported.characters.length,
+      hasWorkshop: workshop !== null,
+      diff: {
+        newCharacterCount: characters.filter((item) => item.status === "new").length,
+        changedCharacterCount: characters.filter((item) => item.status === "changed").length,
+        missingCharacterCount: input.currentState.characters.filter((item) => !importedIds.has(item.id)).length,
+        changedSettingCount: preview.changedSettingKeys.length,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      accountCount: 0,
+      characterCount: 0,
+      hasWorkshop: false,
+      diff: null,
+      error: error instanceof Error ? error.message : "备份文件无法解析",
+    };
+  }
+}
+
+export interface MergeImportedStateInput {
+  current: AppState;
+  imported: AppState;
+  selections: ImportAccountSelection[];
+  includeSettings: boolean;
+}
+
+function mergeById<T extends { id: string }>(current: T[], imported: T[]): T[] {
+  const ids = new Set(current.map((item) => item.id));
+  return [...current, ...imported.filter((item) => !ids.has(item.id))];
+}
+
+export function mergeImportedState(input: MergeImportedStateInput): AppState {
+  const { current, imported, selections } = input;
+  let accounts = [...current.accounts];
+  let characters = [...current.characters];
+  const importedCharacters: CharacterState[] = [];
+  let touched = false;
+
+  selections.forEach((selection) => {
+    if (selection.mode === "skip") {
+      return;
+    }
+    const importedAccount = imported.accounts.find((item) => item.id === selection.accountId);
+    if (!importedAccount) {
+      throw new Error(`导入数据中不存在账号: ${selection.accountId}`);
+    }
+    const pickedIds = new Set(selection.characterIds);
+    const picked = imported.characters.filter((item) => item.accountId === importedAccount.id && pickedIds.has(item.id));
+    const existingIndex = accounts.findIndex((item) => item.id === importedAccount.id);
+
+    if (selection.mode === "overwrite") {
+      if (existingIndex >= 0) {
+        accounts[existingIndex] = structuredClone(importedAccount);
+      } else {
+        accounts = [...accounts, structuredClone(importedAccount)];
+      }
+      characters = characters.filter((item) => item.accountId !== importedAccount.id && !pickedIds.has(item.id));
+    } else {
+      if (existingIndex < 0) {
+        accounts = [...accounts, structuredClone(importedAccount)];
+      } else {
+        accounts[existingIndex] = {
+          ...accounts[existingIndex],
+          servers: mergeById(accounts[existingIndex].servers, structuredClone(importedAccount.servers)),
+        };
+      }
+      characters = characters.filter((item) => !pickedIds.has(item.id));
+    }
+    characters = [...characters, ...structuredClone(picked)];
+    importedCharacters.push(...picked);
+
+    const mergedAccount = accounts.find((item) => item.id === importedAccount.id) ?? importedAccount;
+    const accountCharacters = characters.filter((item) => item.accountId === mergedAccount.id);
+    mergedAccount.servers.forEach((server) => {
+      const count = accountCharacters.filter((item) => getAccountServer(mergedAccount, item.serverId).id === server.id).length;
+      if (count > server.characterSlots) {
+        throw new Error(`账号「${mergedAccount.name}」服务器「${server.name}」导入后角色数超过上限 ${server.characterSlots}`);
+      }
+    });
+    touched = true;
   });
+
+  if (!touched && !input.includeSettings) {
+    throw new Error("请至少选择一个要导入的账号或设置");
+  }
+
+  // Definitions come along only when an imported character carries progress for them.
+  const referencedTaskIds = new Set(importedCharacters.flatMap((item) => Object.keys(item.customProgress)));
+  const referencedEventIds = new Set(importedCharacters.flatMap((item) => Object.keys(item.eventProgress)));
+  return {
+    ...current,
+    settings: input.includeSettings ? structuredClone(imported.settings) : current.settings,
+    customTasks: mergeById(
+      current.customTasks,
+      structuredClone(imported.customTasks.filter((item) => referencedTaskIds.has(item.id))),
+    ),
+    events: mergeById(current.events, structuredClone(imported.events.filter((item) => referencedEventIds.has(item.id)))),
+    accounts,
+    characters,
+  };
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  ENCRYPTED_BACKUP_FORMAT_VERSION,
+  decryptBackupPayload,
+  encryptBackupPayload,
+  isEncryptedBackupEnvelope,
+} from "./store-infra-crypto";
+
+const PAYLOAD = {
+  schemaVersion: 2,
+  exportedAt: "2026-02-26T00:00:00.000Z",
+  app: "aion2-dashboard",
+  state: { accounts: [{ id: "acc-1", name: "主号", regionTag: "天族-1服" }] },
+};
+
+describe("store/store-infra-crypto", () => {
+  it("round-trips payload through compressed encrypted envelope", () => {
+    const envelope = encryptBackupPayload(PAYLOAD, "secret-pass");
+    const serialized = JSON.stringify(envelope);
+
+    expect(isEncryptedBackupEnvelope(JSON.parse(serialized))).toBe(true);
+    expect(isEncryptedBackupEnvelope(PAYLOAD)).toBe(false);
+    expect(envelope.formatVersion).toBe(ENCRYPTED_BACKUP_FORMAT_VERSION);
+    expect(envelope.schemaVersion).toBe(2);
+    expect(serialized).not.toContain("主号");
+    expect(decryptBackupPayload(JSON.parse(serialized), "secret-pass")).toEqual(PAYLOAD);
+  });
+
+  it("rejects wrong passphrase, tampered data, short passphrase and newer format", () => {
+    const envelope = encryptBackupPayload(PAYLOAD, "secret-pass");
+    const tampered = { ...envelope, data: `${envelope.data.startsWith("A") ? "B" : "A"}${envelope.data.slice(1)}` };
+
+    expect(() => decryptBackupPayload(envelope, "wrong-pass")).toThrowError("备份密码错误或文件已损坏");
+    expect(() => decryptBackupPayload(tampered, "secret-pass")).toThrowError("备份密码错误或文件已损坏");
+    expect(() => encryptBackupPayload(PAYLOAD, "123")).toThrowError("备份密码至少 6 位");
+    expect(() =>
+      decryptBackupPayload({ ...envelope, formatVersion: ENCRYPTED_BACKUP_FORMAT_VERSION + 1 }, "secret-pass"),
+    ).toThrowError("请先升级应用");
+  });
+});
@@ -0,0 +1,101 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { BACKUP_PASSPHRASE_MIN_LENGTH } from "../shared/constants";
+
+export const ENCRYPTED_BACKUP_FORMAT = "aion2-dashboard-encrypted-backup";
+export const ENCRYPTED_BACKUP_FORMAT_VERSION = 1;
+export const ENCRYPTED_BACKUP_FILE_EXTENSION = "aion2bak";
+
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 32;
+
+export interface EncryptedBackupEnvelope {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number | null;
+  compression: "gzip";
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function assertPassphrase(passphrase: string): void {
+  if (passphrase.length < BACKUP_PASSPHRASE_MIN_LENGTH) {
+    throw new Error(`备份密码至少 ${BACKUP_PASSPHRASE_MIN_LENGTH} 位`);
+  }
+}
+
+function buildAad(formatVersion: number): Buffer {
+  return Buffer.from(`${ENCRYPTED_BACKUP_FORMAT}:${formatVersion}`, "utf-8");
+}
+
+export function isEncryptedBackupEnvelope(raw: unknown): raw is EncryptedBackupEnvelope {
+  return Boolean(raw) && typeof raw === "object" && (raw as { format?: unknown }).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+export function encryptBackupPayload(payload: Record<string, unknown>, passphrase: string): EncryptedBackupEnvelope {
+  assertPassphrase(passphrase);
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = scryptSync(passphrase, salt, KEY_LENGTH, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION,
+  });
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(buildAad(ENCRYPTED_BACKUP_FORMAT_VERSION));
+  const compressed = gzipSync(Buffer.from(JSON.stringify(payload), "utf-8"));
+  const data = Buffer.concat([cipher.update(compressed), cipher.final()]);
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    formatVersion: ENCRYPTED_BACKUP_FORMAT_VERSION,
+    schemaVersion: typeof payload.schemaVersion === "number" ? payload.schemaVersion : null,
+    compression: "gzip",
+    kdf: {
+      name: "scrypt",
+      salt: salt.toString("base64"),
+      N: SCRYPT_COST,
+      r: SCRYPT_BLOCK_SIZE,
+      p: SCRYPT_PARALLELIZATION,
+    },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+export function decryptBackupPayload(envelope: EncryptedBackupEnvelope, passphrase: string): unknown {
+  if (typeof envelope.formatVersion !== "number" || envelope.formatVersion > ENCRYPTED_BACKUP_FORMAT_VERSION) {
+    throw new Error(`加密备份格式版本 ${String(envelope.formatVersion)} 高于当前支持的版本，请先升级应用`);
+  }
+  if (envelope.kdf?.name !== "scrypt" || envelope.cipher !== "aes-256-gcm" || envelope.compression !== "gzip") {
+    throw new Error("加密备份参数无效");
+  }
+
+  let plain: Buffer;
+  try {
+    const key = scryptSync(passphrase, Buffer.from(envelope.kdf.salt, "base64"), KEY_LENGTH, {
+      N: envelope.kdf.N,
+      r: envelope.kdf.r,
+      p: envelope.kdf.p,
+    });
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(envelope.iv, "base64"));
+    decipher.setAAD(buildAad(envelope.formatVersion));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    const compressed = Buffer.concat([decipher.update(Buffer.from(envelope.data, "base64")), decipher.final()]);
+    plain = gunzipSync(compressed);
+  } catch {
+    throw new Error("备份密码错误或文件已损坏");
+  }
+
+  try {
+    return JSON.parse(plain.toString("utf-8")) as unknown;
+  } catch {
+    throw new Error("加密备份内容不是有效的 JSON");
+  }
+}
@@ -1,6 +1,19 @@
 import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_SEASON_RULE_SET } from "../shared/season-rules";
 import type { AppState } from "../shared/types";
-import { buildDefaultExportPath, getLocalDateKey, maybeCreateDailyAutoBackup } from "./store-infra-io";
+import {
+  buildDefaultExportPath,
+  buildDefaultWeeklyPlanPath,
+  getLocalDateKey,
+  maybeCreateDailyAutoBackup,
+  parseAutoBackupFileName,
+  selectAutoBackupsToPrune,
+  sortAutoBackupsNewestFirst,
+} from "./store-infra-io";
+
+function toAutoBackupFileName(date: Date): string {
+  return `aion2-dashboard-auto-${date.toISOString().replace(/[:.]/g, "-")}.json`;
+}
 
 function createState(): AppState {
   return {
@@ -10,6 +23,8 @@ function createState(): AppState {
     settings: {
       expeditionGoldPerRun: 1,
       transcendenceGoldPerRun: 1,
+      dailyDungeonGoldPerRun: 0,
+      nightmareGoldPerRun: 0,
       expeditionRunCap: null,
       transcendenceRunCap: null,
       nightmareRunCap: null,
@@ -23,10 +38,19 @@ function createState(): AppState {
       priorityWeightWeekly: 1,
       priorityWeightMission: 1,
       priorityWeightLeisure: 1,
+      serverTimeZone: null,
+      autoBackupKeepDaily: 7,
+      autoBackupKeepWeekly: 4,
+      autoBackupKeepMonthly: 6,
     },
+    seasonRules: DEFAULT_SEASON_RULE_SET,
+    scheduledSeasonRules: null,
+    customTasks: [],
+    events: [],
     accounts: [],
     characters: [],
     history: [],
+    redoHistory: [],
   };
 }
 
@@ -38,6 +62,9 @@ describe("store/store-infra-io", () => {
     );
 
     expect(outputPath).toContain("aion2-dashboard-backup-2026-02-26T12-34-56-789Z.json");
+    expect(buildDefaultWeeklyPlanPath(() => "D:/docs", new Date("2026-02-26T12:34:56.789Z"))).toContain(
+      "aion2-dashboard-weekly-plan-2026-02-26T12-34-56-789Z.md",
+    );
   });
 
   it("skips auto backup when backup already created today", () => {
@@ -111,6 +138,62 @@ describe("store/store-infra-io", () => {
     expect(onAutoBackupError).toHaveBeenCalledWith(failure);
   });
 
+  it("keeps newest backups per day, week and month and prunes the rest", () => {
+    const fileNames = Array.from({ length: 69 }, (_, index) => toAutoBackupFileName(new Date(2026, 0, 1 + index, 12)));
+    fileNames.push("notes.txt");
+
+    const pruned = selectAutoBackupsToPrune(fileNames, {
+      autoBackupKeepDaily: 3,
+      autoBackupKeepWeekly: 2,
+      autoBackupKeepMonthly: 2,
+    });
+
+    const kept = fileNames.filter((fileName) => !pruned.includes(fileName));
+    expect(kept).toEqual([
+      toAutoBackupFileName(new Date(2026, 1, 28, 12)),
+      toAutoBackupFileName(new Date(2026, 2, 8, 12)),
+      toAutoBackupFileName(new Date(2026, 2, 9, 12)),
+      toAutoBackupFileName(new Date(2026, 2, 10, 12)),
+      "notes.txt",
+    ]);
+    expect(parseAutoBackupFileName(toAutoBackupFileName(new Date("2026-02-26T08:09:10.111Z")))?.toISOString()).toBe(
+      "2026-02-26T08:09:10.111Z",
+    );
+    expect(parseAutoBackupFileName("../aion2-dashboard-auto-x.json")).toBeNull();
+    expect(sortAutoBackupsNewestFirst(fileNames.slice(-3))).toEqual([
+      toAutoBackupFileName(new Date(2026, 2, 10, 12)),
+      toAutoBackupFileName(new Date(2026, 2, 9, 12)),
+    ]);
+  });
+
+  it("prunes old auto backups after writing a new one", () => {
+    const removeFile = vi.fn();
+    const existing = [toAutoBackupFileName(new Date(2026, 0, 1, 12)), toAutoBackupFileName(new Date(2026, 1, 25, 12))];
+    const state = createState();
+    state.settings.autoBackupKeepDaily = 1;
+    state.settings.autoBackupKeepWeekly = 0;
+    state.settings.autoBackupKeepMonthly = 0;
+
+    maybeCreateDailyAutoBackup(
+      state,
+      {
+        getDocumentsPath: () => "D:/docs",
+        getLastBackupDate: () => "",
+        setLastBackupDate: vi.fn(),
+        ensureDirectory: vi.fn(),
+        writeTextFile: vi.fn(),
+        buildExportPayload: (value) => ({ state: value }),
+        listDirectory: () => [...existing, toAutoBackupFileName(new Date(2026, 1, 26, 12))],
+        removeFile,
+      },
+      new Date(2026, 1, 26, 12),
+    );
+
+    expect(removeFile).toHaveBeenCalledTimes(2);
+    expect(removeFile.mock.calls.map(([path]) => path).join("\n")).toContain(existing[0]);
+    expect(removeFile.mock.calls.map(([path]) => path).join("\n")).toContain(existing[1]);
+  });
+
   it("builds local date key with zero-padded month/day", () => {
     expect(getLocalDateKey(new Date(2026, 2, 4, 12, 34, 56))).toBe("2026-03-04");
   });
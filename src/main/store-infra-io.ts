@@ -1,8 +1,15 @@
 import { join } from "node:path";
-import type { AppState } from "../shared/types";
+import type { AppSettings, AppState } from "../shared/types";
 
 export const DEFAULT_AUTO_BACKUP_FOLDER_NAME = "aion2-dashboard-auto-backups";
 
+const AUTO_BACKUP_FILE_PATTERN = /^aion2-dashboard-auto-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/;
+
+export type AutoBackupRetentionPolicy = Pick<
+  AppSettings,
+  "autoBackupKeepDaily" | "autoBackupKeepWeekly" | "autoBackupKeepMonthly"
+>;
+
 export interface StoreInfraIoDeps {
   getDocumentsPath: () => string;
   getLastBackupDate: () => unknown;
@@ -10,12 +17,24 @@ export interface StoreInfraIoDeps {
   ensureDirectory: (path: string) => void;
   writeTextFile: (path: string, content: string) => void;
   buildExportPayload: (state: AppState) => unknown;
+  listDirectory?: (path: string) => string[];
+  removeFile?: (path: string) => void;
   onAutoBackupError?: (error: unknown) => void;
 }
 
-export function buildDefaultExportPath(getDocumentsPath: () => string, now = new Date()): string {
+export function buildDefaultExportPath(getDocumentsPath: () => string, now = new Date(), extension = "json"): string {
   const timestamp = now.toISOString().replace(/[:.]/g, "-");
-  return join(getDocumentsPath(), `aion2-dashboard-backup-${timestamp}.json`);
+  return join(getDocumentsPath(), `aion2-dashboard-backup-${timestamp}.${extension}`);
+}
+
+export function buildDefaultWeeklyPlanPath(getDocumentsPath: () => string, now = new Date()): string {
+  const timestamp = now.toISOString().replace(/[:.]/g, "-");
+  return join(getDocumentsPath(), `aion2-dashboard-weekly-plan-${timestamp}.md`);
+}
+
+export function buildDefaultJournalCsvPath(getDocumentsPath: () => string, now = new Date()): string {
+  const timestamp = now.toISOString().replace(/[:.]/g, "-");
+  return join(getDocumentsPath(), `aion2-dashboard-journal-${timestamp}.csv`);
 }
 
 export function getLocalDateKey(date: Date): string {
@@ -25,6 +44,70 @@ export function getLocalDateKey(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+function getLocalWeekKey(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return getLocalDateKey(monday);
+}
+
+function getLocalMonthKey(date: Date): string {
+  return getLocalDateKey(date).slice(0, 7);
+}
+
+export function getAutoBackupDirectory(
+  getDocumentsPath: () => string,
+  backupFolderName = DEFAULT_AUTO_BACKUP_FOLDER_NAME,
+): string {
+  return join(getDocumentsPath(), backupFolderName);
+}
+
+export function parseAutoBackupFileName(fileName: string): Date | null {
+  const match = AUTO_BACKUP_FILE_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  const [, day, hours, minutes, seconds, millis] = match;
+  const date = new Date(`${day}T${hours}:${minutes}:${seconds}.${millis}Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function listAutoBackupEntries(fileNames: readonly string[]): Array<{ fileName: string; createdAt: Date }> {
+  return fileNames
+    .flatMap((fileName) => {
+      const createdAt = parseAutoBackupFileName(fileName);
+      return createdAt ? [{ fileName, createdAt }] : [];
+    })
+    .sort((left, right) => right.createdAt.getTime() - left.createdAt.getTime());
+}
+
+export function sortAutoBackupsNewestFirst(fileNames: readonly string[]): string[] {
+  return listAutoBackupEntries(fileNames).map((entry) => entry.fileName);
+}
+
+export function selectAutoBackupsToPrune(fileNames: readonly string[], policy: AutoBackupRetentionPolicy): string[] {
+  const entries = listAutoBackupEntries(fileNames);
+  const kept = new Set<string>();
+  const keepNewestPerPeriod = (limit: number, toKey: (date: Date) => string): void => {
+    const periods = new Set<string>();
+    for (const entry of entries) {
+      if (periods.size >= limit) {
+        return;
+      }
+      const key = toKey(entry.createdAt);
+      if (periods.has(key)) {
+        continue;
+      }
+      periods.add(key);
+      kept.add(entry.fileName);
+    }
+  };
+
+  keepNewestPerPeriod(policy.autoBackupKeepDaily, getLocalDateKey);
+  keepNewestPerPeriod(policy.autoBackupKeepWeekly, getLocalWeekKey);
+  keepNewestPerPeriod(policy.autoBackupKeepMonthly, getLocalMonthKey);
+  return entries.filter((entry) => !kept.has(entry.fileName)).map((entry) => entry.fileName);
+}
+
 export function maybeCreateDailyAutoBackup(
   state: AppState,
   deps: StoreInfraIoDeps,
@@ -38,12 +121,17 @@ export function maybeCreateDailyAutoBackup(
   }
 
   try {
-    const backupDir = join(deps.getDocumentsPath(), backupFolderName);
+    const backupDir = getAutoBackupDirectory(deps.getDocumentsPath, backupFolderName);
     deps.ensureDirectory(backupDir);
     const timestamp = now.toISOString().replace(/[:.]/g, "-");
     const backupPath = join(backupDir, `aion2-dashboard-auto-${timestamp}.json`);
     deps.writeTextFile(backupPath, JSON.stringify(deps.buildExportPayload(state), null, 2));
     deps.setLastBackupDate(todayKey);
+    if (deps.listDirectory && deps.removeFile) {
+      selectAutoBackupsToPrune(deps.listDirectory(backupDir), state.settings).forEach((fileName) => {
+        deps.removeFile?.(join(backupDir, fileName));
+      });
+    }
   } catch (error) {
     deps.onAutoBackupError?.(error);
   }
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, createDefaultAccount, createDefaultCharacter } from "../shared/constants";
+import { DEFAULT_SEASON_RULE_SET } from "../shared/season-rules";
+import type { AppState, OperationJournalEntry } from "../shared/types";
+import {
+  buildOperationJournalEntry,
+  formatOperationJournalCsv,
+  parseOperationJournal,
+  queryOperationJournal,
+  serializeOperationJournalEntries,
+} from "./store-infra-journal";
+
+function journalEntry(
+  id: string,
+  at: Date,
+  action: string,
+  characterId: string | null,
+  description?: string,
+): OperationJournalEntry {
+  return { id, at: at.toISOString(), action, characterId, characterName: characterId ? `角色-${characterId}` : null, description, changes: [] };
+}
+
+const ENTRIES = [
+  journalEntry("j1", new Date(2026, 1, 20, 21), "任务打卡", "alt", "sanctum_raid x1"),
+  journalEntry("j2", new Date(2026, 1, 24, 10), "任务打卡", "main", "expedition x2"),
+  journalEntry("j3", new Date(2026, 1, 25, 9), "修改设置", null),
+];
+
+describe("store/store-infra-journal", () => {
+  it("records field changes and round-trips through json lines", () => {
+    const before = createDefaultCharacter("主角", "2026-02-26T00:00:00.000Z", "char-a", "acc-1");
+    const after: AppState = {
+      version: 10,
+      selectedAccountId: "acc-1",
+      selectedCharacterId: "char-a",
+      settings: DEFAULT_SETTINGS,
+      seasonRules: DEFAULT_SEASON_RULE_SET,
+      scheduledSeasonRules: null,
+      customTasks: [],
+      events: [],
+      accounts: [createDefaultAccount("账号1", "acc-1")],
+      characters: [{ ...before, name: "新名字" }],
+      history: [],
+      redoHistory: [],
+    };
+    const entry = buildOperationJournalEntry(
+      {
+        id: "h1",
+        at: "2026-02-26T01:00:00.000Z",
+        action: "重命名角色",
+        characterId: "char-a",
+        beforeDelta: { characterChanges: [{ id: "char-a", before }] },
+      },
+      after,
+      "新名字",
+    );
+    expect(entry.changes).toEqual([{ label: "新名字 · 名称", before: "主角", after: "新名字" }]);
+
+    const text = `${serializeOperationJournalEntries([entry, ENTRIES[0]])}{"id":"torn"`;
+    expect(parseOperationJournal(text).map((item) => item.id)).toEqual(["h1", "j1"]);
+  });
+
+  it("filters by character, action, keyword and local date range newest first", () => {
+    expect(queryOperationJournal(ENTRIES, {}).entries.map((item) => item.id)).toEqual(["j3", "j2", "j1"]);
+    expect(queryOperationJournal(ENTRIES, { characterId: "alt" }).entries.map((item) => item.id)).toEqual(["j1"]);
+    expect(queryOperationJournal(ENTRIES, { keyword: "SANCTUM" }).entries.map((item) => item.id)).toEqual(["j1"]);
+
+    const ranged = queryOperationJournal(ENTRIES, { action: "任务打卡", from: "2026-02-21", to: "2026-02-28", limit: 5 });
+    expect(ranged.entries.map((item) => item.id)).toEqual(["j2"]);
+    expect(ranged.totalMatched).toBe(1);
+    expect(ranged.actions).toEqual(expect.arrayContaining(["任务打卡", "修改设置"]));
+
+    expect(queryOperationJournal(ENTRIES, { limit: 1 })).toMatchObject({ totalMatched: 3, entries: [{ id: "j3" }] });
+    expect(() => queryOperationJournal(ENTRIES, { from: "2026/02/01" })).toThrowError("开始日期格式应为 YYYY-MM-DD");
+    expect(() => queryOperationJournal(ENTRIES, { from: "2026-03-01", to: "2026-02-01" })).toThrowError("开始日期不能晚于结束日期");
+  });
+
+  it("matches multi-character batch entries by any applied character", () => {
+    const batch: OperationJournalEntry = {
+      ...journalEntry("j4", new Date(2026, 1, 26, 8), "批量任务打卡", null, "daily_mission x1 · 2 个角色"),
+      characterName: "角色-alt、角色-main",
+      characterIds: ["alt", "main"],
+    };
+    const parsed = parseOperationJournal(serializeOperationJournalEntries([batch]));
+    expect(parsed[0].characterIds).toEqual(["alt", "main"]);
+
+    const entries = [...ENTRIES, ...parsed];
+    expect(queryOperationJournal(entries, { characterId: "main" }).entries.map((item) => item.id)).toEqual(["j4", "j2"]);
+    expect(queryOperationJournal(entries, { characterId: "other" }).entries).toEqual([]);
+    expect(formatOperationJournalCsv(parsed)).toContain(",批量任务打卡,角色-alt、角色-main,");
+  });
+
+  it("formats csv with bom, quoting and change summary", () => {
+    const csv = formatOperationJournalCsv([
+      {
+        ...ENTRIES[0],
+        description: 'say "hi", ok',
+        changes: [{ label: "角色-alt · 副本.sanctumRaidChallengeRemaining", before: "4", after: "3" }],
+      },
+    ]);
+    const lines = csv.replace(/^\uFEFF/, "").trimEnd().split("\r\n");
+
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(lines[0]).toBe("时间,操作,角色,说明,改动");
+    expect(lines[1]).toContain('"say ""hi"", ok"');
+    expect(lines[1]).toContain("角色-alt · 副本.sanctumRaidChallengeRemaining: 4 → 3");
+  });
+
+  it("neutralizes spreadsheet formula prefixes in csv cells", () => {
+    const csv = formatOperationJournalCsv([
+      { ...ENTRIES[2], action: "=HYPERLINK(\"http://x\")", description: "@SUM(A1)" },
+      { ...ENTRIES[2], action: "+1", description: "-2" },
+      { ...ENTRIES[2], action: "\tcmd", description: "备注 =1" },
+    ]);
+    const lines = csv.replace(/^\uFEFF/, "").trimEnd().split("\r\n");
+
+    expect(lines[1]).toBe(`${ENTRIES[2].at},"'=HYPERLINK(""http://x"")",全局,'@SUM(A1),`);
+    expect(lines[2]).toBe(`${ENTRIES[2].at},'+1,全局,'-2,`);
+    expect(lines[3]).toBe(`${ENTRIES[2].at},'\tcmd,全局,备注 =1,`);
+  });
+});
@@ -0,0 +1,166 @@
+import { describeHistoryEntryChanges } from "../shared/history-diff";
+import type {
+  AppState,
+  OperationJournalEntry,
+  OperationJournalQuery,
+  OperationJournalQueryResult,
+  OperationLogEntry,
+} from "../shared/types";
+import { getLocalDateKey } from "./store-infra-io";
+
+export const OPERATION_JOURNAL_FILE_NAME = "aion2-dashboard-journal.jsonl";
+
+const JOURNAL_MAX_CHANGES = 40;
+const JOURNAL_DEFAULT_QUERY_LIMIT = 500;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CSV_HEADER = ["时间", "操作", "角色", "说明", "改动"];
+
+export function buildOperationJournalEntry(
+  entry: OperationLogEntry,
+  after: AppState,
+  characterName: string | null,
+): OperationJournalEntry {
+  return {
+    id: entry.id,
+    at: entry.at,
+    action: entry.action,
+    characterId: entry.characterId,
+    characterName,
+    characterIds: entry.characterIds,
+    description: entry.description,
+    changes: describeHistoryEntryChanges([entry], 0, after, JOURNAL_MAX_CHANGES).lines,
+  };
+}
+
+export function serializeOperationJournalEntries(entries: readonly OperationJournalEntry[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+function isJournalEntry(raw: unknown): raw is OperationJournalEntry {
+  if (!raw || typeof raw !== "object") {
+    return false;
+  }
+  const entity = raw as Record<string, unknown>;
+  return (
+    typeof entity.id === "string" &&
+    typeof entity.at === "string" &&
+    typeof entity.action === "string" &&
+    (entity.characterId === null || typeof entity.characterId === "string") &&
+    Array.isArray(entity.changes)
+  );
+}
+
+export function parseOperationJournal(text: string): OperationJournalEntry[] {
+  const entries: OperationJournalEntry[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      if (isJournalEntry(parsed)) {
+        entries.push({
+          ...parsed,
+          characterName: parsed.characterName ?? null,
+          characterIds: Array.isArray(parsed.characterIds)
+            ? parsed.characterIds.filter((id): id is string => typeof id === "string")
+            : undefined,
+        });
+      }
+    } catch {
+      // skip torn or corrupted lines
+    }
+  });
+  return entries;
+}
+
+function readDateKey(value: string | undefined, label: string): string | null {
+  if (!value) {
+    return null;
+  }
+  if (!DATE_KEY_PATTERN.test(value)) {
+    throw new Error(`${label}格式应为 YYYY-MM-DD`);
+  }
+  return value;
+}
+
+export function filterOperationJournal(
+  entries: readonly OperationJournalEntry[],
+  query: OperationJournalQuery,
+): OperationJournalEntry[] {
+  const from = readDateKey(query.from, "开始日期");
+  const to = readDateKey(query.to, "结束日期");
+  if (from && to && from > to) {
+    throw new Error("开始日期不能晚于结束日期");
+  }
+  const keyword = query.keyword?.trim().toLowerCase() ?? "";
+  return entries
+    .filter((entry) => {
+      if (
+        query.characterId &&
+        entry.characterId !== query.characterId &&
+        !entry.characterIds?.includes(query.characterId)
+      ) {
+        return false;
+      }
+      if (query.action && entry.action !== query.action) {
+        return false;
+      }
+      if (keyword) {
+        const haystack = [
+          entry.action,
+          entry.characterName ?? "",
+          entry.description ?? "",
+          ...entry.changes.map((change) => change.label),
+        ]
+          .join("\n")
+          .toLowerCase();
+        if (!haystack.includes(keyword)) {
+          return false;
+        }
+      }
+      if (from || to) {
+        const at = new Date(entry.at);
+        if (Number.isNaN(at.getTime())) {
+          return false;
+        }
+        const day = getLocalDateKey(at);
+        if ((from && day < from) || (to && day > to)) {
+          return false;
+        }
+      }
+      return true;
+    })
+    .sort((left, right) => right.at.localeCompare(left.at));
+}
+
+export function queryOperationJournal(
+  entries: readonly OperationJournalEntry[],
+  query: OperationJournalQuery,
+): OperationJournalQueryResult {
+  const matched = filterOperationJournal(entries, query);
+  const limit = Math.max(1, Math.floor(query.limit ?? JOURNAL_DEFAULT_QUERY_LIMIT));
+  return {
+    entries: matched.slice(0, limit),
+    totalMatched: matched.length,
+    actions: [...new Set(entries.map((entry) => entry.action))].sort((left, right) => left.localeCompare(right, "zh-CN")),
+  };
+}
+
+function escapeCsvCell(value: string): string {
+  // Spreadsheet apps evaluate cells starting with these characters as formulas.
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function formatOperationJournalCsv(entries: readonly OperationJournalEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.at,
+    entry.action,
+    entry.characterId === null && !entry.characterIds?.length ? "全局" : entry.characterName ?? entry.characterId ?? "",
+    entry.description ?? "",
+    entry.changes.map((change) => `${change.label}: ${change.before} → ${change.after}`).join("; "),
+  ]);
+  const lines = [CSV_HEADER, ...rows].map((row) => row.map(escapeCsvCell).join(","));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,113 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  MIGRATION_LOG_FILE_NAME,
+  assertMigrationChain,
+  migrateStoreOnStartup,
+  runStateMigrations,
+  type MigrationRecord,
+  type StateMigration,
+} from "./store-infra-migration";
+
+const MIGRATIONS: StateMigration[] = [
+  { fromVersion: 0, description: "补齐版本号", migrate: () => undefined },
+  {
+    fromVersion: 1,
+    description: "count 改名为 total",
+    migrate: (state) => {
+      state.total = state.count;
+      delete state.count;
+    },
+  },
+  { fromVersion: 2, description: "total 翻倍", migrate: (state) => ({ ...state, total: Number(state.total) * 2 }) },
+];
+
+let directory = "";
+const warnings: string[] = [];
+
+function runStartup(raw: MigrationRecord, migrations: readonly StateMigration[] = MIGRATIONS) {
+  let written: MigrationRecord | null = null;
+  const entry = migrateStoreOnStartup({
+    directory,
+    storeName: "sample",
+    targetVersion: 3,
+    migrations,
+    read: () => raw,
+    write: (state) => {
+      written = state;
+    },
+    now: new Date("2026-03-01T08:00:00.000Z"),
+    onWarning: (message) => warnings.push(message),
+  });
+  return { entry, written: written as MigrationRecord | null };
+}
+
+describe("store/store-infra-migration", () => {
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "aion2-migration-"));
+    warnings.length = 0;
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("runs each step from the stored version without touching the input", () => {
+    const raw = { version: 1, count: 4 };
+    const result = runStateMigrations(raw, MIGRATIONS, 3);
+    expect(result.state).toEqual({ version: 3, total: 8 });
+    expect(result.applied).toEqual(["v1 -> v2: count 改名为 total", "v2 -> v3: total 翻倍"]);
+    expect(raw).toEqual({ version: 1, count: 4 });
+
+    const current = { version: 3, total: 1 };
+    expect(runStateMigrations(current, MIGRATIONS, 3)).toEqual({ state: current, fromVersion: 3, toVersion: 3, applied: [] });
+    expect(runStateMigrations(current, MIGRATIONS, 3).state).toBe(current);
+    expect(runStateMigrations(null, MIGRATIONS, 3).fromVersion).toBe(0);
+  });
+
+  it("rejects gaps and duplicates in the registry", () => {
+    expect(() => assertMigrationChain(MIGRATIONS, 3)).not.toThrow();
+    expect(() => assertMigrationChain(MIGRATIONS.slice(1), 3)).toThrowError("v0 -> v1");
+    expect(() => assertMigrationChain([...MIGRATIONS, MIGRATIONS[2]], 3)).toThrowError("v2 -> v3");
+    expect(() => runStateMigrations({ version: 0 }, MIGRATIONS.slice(1), 3)).toThrowError("缺少迁移步骤");
+  });
+
+  it("writes a pre-migration backup and appends to the migration log", () => {
+    const { entry, written } = runStartup({ version: 1, count: 2 });
+    expect(written).toEqual({ version: 3, total: 4 });
+    expect(entry?.steps).toHaveLength(2);
+    expect(entry?.backupPath).toContain("sample-v1-2026-03-01T08-00-00-000Z.json");
+    expect(JSON.parse(readFileSync(entry!.backupPath!, "utf-8"))).toEqual({ version: 1, count: 2 });
+
+    const log = readFileSync(join(directory, MIGRATION_LOG_FILE_NAME), "utf-8").trim().split("\n");
+    expect(log).toHaveLength(1);
+    expect(JSON.parse(log[0])).toMatchObject({ store: "sample", fromVersion: 1, toVersion: 3 });
+
+    expect(runStartup({ version: 3, total: 4 })).toEqual({ entry: null, written: null });
+  });
+
+  it("keeps data untouched when a step fails or the data is newer than supported", () => {
+    const failing: StateMigration[] = [
+      ...MIGRATIONS.slice(0, 2),
+      {
+        fromVersion: 2,
+        description: "损坏",
+        migrate: () => {
+          throw new Error("boom");
+        },
+      },
+    ];
+    const failed = runStartup({ version: 1, count: 2 }, failing);
+    expect(failed.written).toBeNull();
+    expect(failed.entry?.error).toBe("boom");
+    expect(existsSync(failed.entry!.backupPath!)).toBe(true);
+
+    const newer = runStartup({ version: 9 });
+    expect(newer.written).toBeNull();
+    expect(newer.entry?.error).toContain("高于当前应用支持的 v3");
+    expect(warnings).toHaveLength(2);
+    expect(readFileSync(join(directory, MIGRATION_LOG_FILE_NAME), "utf-8").trim().split("\n")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,143 @@
+import { appendFileSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export const MIGRATION_LOG_FILE_NAME = "aion2-dashboard-migrations.jsonl";
+export const MIGRATION_BACKUP_DIRECTORY_NAME = "migration-backups";
+
+export type MigrationRecord = Record<string, unknown>;
+
+export interface StateMigration {
+  fromVersion: number;
+  description: string;
+  migrate: (state: MigrationRecord) => MigrationRecord | void;
+}
+
+export interface StateMigrationResult {
+  state: MigrationRecord;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+export interface MigrationLogEntry {
+  at: string;
+  store: string;
+  fromVersion: number;
+  toVersion: number;
+  steps: string[];
+  backupPath: string | null;
+  error?: string;
+}
+
+export interface StartupMigrationOptions {
+  directory: string;
+  storeName: string;
+  targetVersion: number;
+  migrations: readonly StateMigration[];
+  read: () => MigrationRecord;
+  write: (state: MigrationRecord) => void;
+  now?: Date;
+  onWarning?: (message: string, error?: unknown) => void;
+}
+
+export function readStateVersion(raw: unknown): number {
+  const version = raw && typeof raw === "object" ? (raw as MigrationRecord).version : undefined;
+  return typeof version === "number" && Number.isFinite(version) ? Math.max(0, Math.floor(version)) : 0;
+}
+
+export function assertMigrationChain(migrations: readonly StateMigration[], targetVersion: number): void {
+  for (let version = 0; version < targetVersion; version += 1) {
+    const matches = migrations.filter((migration) => migration.fromVersion === version);
+    if (matches.length !== 1) {
+      throw new Error(`迁移步骤不连续: v${version} -> v${version + 1} 应有且仅有 1 个`);
+    }
+  }
+  const extra = migrations.find((migration) => migration.fromVersion >= targetVersion || migration.fromVersion < 0);
+  if (extra) {
+    throw new Error(`迁移步骤超出目标版本: v${extra.fromVersion} -> v${extra.fromVersion + 1}`);
+  }
+}
+
+export function runStateMigrations(
+  raw: unknown,
+  migrations: readonly StateMigration[],
+  targetVersion: number,
+): StateMigrationResult {
+  const fromVersion = readStateVersion(raw);
+  const isRecord = Boolean(raw) && typeof raw === "object" && !Array.isArray(raw);
+  if (fromVersion >= targetVersion) {
+    // Already-current state is read on every normalize, so skip the deep copy when there is nothing to migrate.
+    return { state: isRecord ? (raw as MigrationRecord) : {}, fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  let state: MigrationRecord = isRecord ? structuredClone(raw as MigrationRecord) : {};
+
+  const applied: string[] = [];
+  for (let version = fromVersion; version < targetVersion; version += 1) {
+    const migration = migrations.find((item) => item.fromVersion === version);
+    if (!migration) {
+      throw new Error(`缺少迁移步骤: v${version} -> v${version + 1}`);
+    }
+    state = migration.migrate(state) ?? state;
+    state.version = version + 1;
+    applied.push(`v${version} -> v${version + 1}: ${migration.description}`);
+  }
+  return { state, fromVersion, toVersion: targetVersion, applied };
+}
+
+function formatBackupTimestamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+export function migrateStoreOnStartup(options: StartupMigrationOptions): MigrationLogEntry | null {
+  const { directory, storeName, targetVersion, migrations } = options;
+  const now = options.now ?? new Date();
+  const onWarning =
+    options.onWarning ?? ((message: string, error?: unknown) => console.warn(`[aion2-dashboard] ${message}`, error ?? ""));
+  const raw = options.read();
+  const fromVersion = readStateVersion(raw);
+  if (fromVersion === targetVersion) {
+    return null;
+  }
+
+  const entry: MigrationLogEntry = {
+    at: now.toISOString(),
+    store: storeName,
+    fromVersion,
+    toVersion: targetVersion,
+    steps: [],
+    backupPath: null,
+  };
+  const appendLog = (): void => {
+    try {
+      appendFileSync(join(directory, MIGRATION_LOG_FILE_NAME), `${JSON.stringify(entry)}\n`, "utf-8");
+    } catch (error) {
+      onWarning("迁移日志写入失败", error);
+    }
+  };
+
+  if (fromVersion > targetVersion) {
+    entry.toVersion = fromVersion;
+    entry.error = `数据版本 v${fromVersion} 高于当前应用支持的 v${targetVersion}，已跳过迁移`;
+    onWarning(`${storeName}: ${entry.error}`);
+    appendLog();
+    return entry;
+  }
+
+  try {
+    const backupDirectory = join(directory, MIGRATION_BACKUP_DIRECTORY_NAME);
+    mkdirSync(backupDirectory, { recursive: true });
+    const backupPath = join(backupDirectory, `${storeName}-v${fromVersion}-${formatBackupTimestamp(now)}.json`);
+    writeFileSync(backupPath, JSON.stringify(raw, null, 2), "utf-8");
+    entry.backupPath = backupPath;
+
+    const result = runStateMigrations(raw, migrations, targetVersion);
+    entry.steps = result.applied;
+    options.write(result.state);
+  } catch (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+    onWarning(`${storeName}: 数据迁移失败，原数据未改动`, error);
+  }
+  appendLog();
+  return entry;
+}
@@ -0,0 +1,69 @@
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PROFILE_ID } from "../shared/constants";
+import { DEFAULT_AUTO_BACKUP_FOLDER_NAME } from "./store-infra-io";
+import {
+  DEFAULT_PROFILE_NAME,
+  PROFILES_DIRECTORY_NAME,
+  activateProfileInRegistry,
+  addProfileToRegistry,
+  getProfileAutoBackupFolderName,
+  getProfileDataDirectory,
+  normalizeProfileRegistry,
+  removeProfileFromRegistry,
+  renameProfileInRegistry,
+} from "./store-infra-profiles";
+
+const NOW = "2026-03-01T08:00:00.000Z";
+
+describe("store/store-infra-profiles", () => {
+  it("always keeps the default profile and falls back to it as active", () => {
+    const empty = normalizeProfileRegistry(undefined, NOW);
+    expect(empty.profiles).toEqual([{ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: NOW, lastOpenedAt: null }]);
+    expect(empty.activeProfileId).toBe(DEFAULT_PROFILE_ID);
+
+    const registry = normalizeProfileRegistry(
+      {
+        profiles: [{ id: "alt-1", name: " 小号 " }, { id: "alt-1", name: "重复" }, { id: "../escape", name: "坏" }],
+        activeProfileId: "missing",
+      },
+      NOW,
+    );
+    expect(registry.profiles.map((profile) => profile.id)).toEqual([DEFAULT_PROFILE_ID, "alt-1"]);
+    expect(registry.profiles[1].name).toBe("小号");
+    expect(registry.activeProfileId).toBe(DEFAULT_PROFILE_ID);
+  });
+
+  it("keeps the default profile in the legacy locations", () => {
+    expect(getProfileDataDirectory("/data", DEFAULT_PROFILE_ID)).toBe("/data");
+    expect(getProfileDataDirectory("/data", "alt-1")).toBe(join("/data", PROFILES_DIRECTORY_NAME, "alt-1"));
+    expect(getProfileAutoBackupFolderName(DEFAULT_PROFILE_ID)).toBe(DEFAULT_AUTO_BACKUP_FOLDER_NAME);
+    expect(getProfileAutoBackupFolderName("alt-1")).toBe(`${DEFAULT_AUTO_BACKUP_FOLDER_NAME}-alt-1`);
+  });
+
+  it("validates names on create and rename", () => {
+    const base = normalizeProfileRegistry(undefined, NOW);
+    const added = addProfileToRegistry(base, " 朋友代肝 ", "alt-1", NOW);
+    expect(added.profiles[1]).toMatchObject({ id: "alt-1", name: "朋友代肝" });
+    expect(() => addProfileToRegistry(added, "  ", "alt-2", NOW)).toThrowError("档案名称不能为空");
+    expect(() => addProfileToRegistry(added, "朋友代肝", "alt-2", NOW)).toThrowError("档案名称已存在");
+    expect(() => addProfileToRegistry(added, "x".repeat(25), "alt-2", NOW)).toThrowError("最多 24 个字符");
+    expect(() => addProfileToRegistry(added, "另一个", "alt-1", NOW)).toThrowError("档案 ID 无效");
+
+    const renamed = renameProfileInRegistry(added, "alt-1", "朋友代肝");
+    expect(renamed.profiles[1].name).toBe("朋友代肝");
+    expect(() => renameProfileInRegistry(added, "alt-1", DEFAULT_PROFILE_NAME)).toThrowError("档案名称已存在");
+    expect(() => renameProfileInRegistry(added, "missing", "新名字")).toThrowError("档案不存在");
+  });
+
+  it("switches and removes profiles without touching the active or default one", () => {
+    const registry = addProfileToRegistry(normalizeProfileRegistry(undefined, NOW), "小号", "alt-1", NOW);
+    const activated = activateProfileInRegistry(registry, "alt-1", "2026-03-02T08:00:00.000Z");
+    expect(activated.activeProfileId).toBe("alt-1");
+    expect(activated.profiles[1].lastOpenedAt).toBe("2026-03-02T08:00:00.000Z");
+
+    expect(() => removeProfileFromRegistry(activated, "alt-1")).toThrowError("正在使用");
+    expect(() => removeProfileFromRegistry(activated, DEFAULT_PROFILE_ID)).toThrowError("默认档案不能删除");
+    expect(removeProfileFromRegistry(registry, "alt-1").profiles).toHaveLength(1);
+  });
+});
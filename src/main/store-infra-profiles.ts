@@ -0,0 +1,122 @@
+import { join } from "node:path";
+import { DEFAULT_PROFILE_ID } from "../shared/constants";
+import type { ProfileSummary } from "../shared/types";
+import { DEFAULT_AUTO_BACKUP_FOLDER_NAME } from "./store-infra-io";
+
+export const DEFAULT_PROFILE_NAME = "默认档案";
+export const PROFILE_NAME_MAX_LENGTH = 24;
+export const PROFILES_DIRECTORY_NAME = "profiles";
+
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+export interface ProfileRegistry {
+  profiles: ProfileSummary[];
+  activeProfileId: string;
+}
+
+function normalizeProfile(raw: unknown, fallbackCreatedAt: string): ProfileSummary | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const entity = raw as Record<string, unknown>;
+  if (typeof entity.id !== "string" || !PROFILE_ID_PATTERN.test(entity.id)) {
+    return null;
+  }
+  const name = typeof entity.name === "string" ? entity.name.trim().slice(0, PROFILE_NAME_MAX_LENGTH) : "";
+  return {
+    id: entity.id,
+    name: name || (entity.id === DEFAULT_PROFILE_ID ? DEFAULT_PROFILE_NAME : entity.id.slice(0, 8)),
+    createdAt: typeof entity.createdAt === "string" ? entity.createdAt : fallbackCreatedAt,
+    lastOpenedAt: typeof entity.lastOpenedAt === "string" ? entity.lastOpenedAt : null,
+  };
+}
+
+export function normalizeProfileRegistry(raw: unknown, nowIso: string): ProfileRegistry {
+  const entity = (raw ?? {}) as Record<string, unknown>;
+  const profiles: ProfileSummary[] = [];
+  (Array.isArray(entity.profiles) ? entity.profiles : []).forEach((item) => {
+    const profile = normalizeProfile(item, nowIso);
+    if (profile && !profiles.some((existing) => existing.id === profile.id)) {
+      profiles.push(profile);
+    }
+  });
+  if (!profiles.some((profile) => profile.id === DEFAULT_PROFILE_ID)) {
+    profiles.unshift({ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: nowIso, lastOpenedAt: null });
+  }
+  const activeProfileId =
+    typeof entity.activeProfileId === "string" && profiles.some((profile) => profile.id === entity.activeProfileId)
+      ? entity.activeProfileId
+      : DEFAULT_PROFILE_ID;
+  return { profiles, activeProfileId };
+}
+
+export function getProfileDataDirectory(userDataPath: string, profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? userDataPath : join(userDataPath, PROFILES_DIRECTORY_NAME, profileId);
+}
+
+export function getProfileAutoBackupFolderName(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? DEFAULT_AUTO_BACKUP_FOLDER_NAME : `${DEFAULT_AUTO_BACKUP_FOLDER_NAME}-${profileId}`;
+}
+
+function readProfileName(registry: ProfileRegistry, name: string, excludeId?: string): string {
+  const nextName = name.trim();
+  if (!nextName) {
+    throw new Error("档案名称不能为空");
+  }
+  if (nextName.length > PROFILE_NAME_MAX_LENGTH) {
+    throw new Error(`档案名称最多 ${PROFILE_NAME_MAX_LENGTH} 个字符`);
+  }
+  if (registry.profiles.some((profile) => profile.id !== excludeId && profile.name === nextName)) {
+    throw new Error(`档案名称已存在: ${nextName}`);
+  }
+  return nextName;
+}
+
+function requireProfile(registry: ProfileRegistry, profileId: string): ProfileSummary {
+  const profile = registry.profiles.find((item) => item.id === profileId);
+  if (!profile) {
+    throw new Error("档案不存在");
+  }
+  return profile;
+}
+
+export function addProfileToRegistry(
+  registry: ProfileRegistry,
+  name: string,
+  profileId: string,
+  nowIso: string,
+): ProfileRegistry {
+  if (!PROFILE_ID_PATTERN.test(profileId) || registry.profiles.some((profile) => profile.id === profileId)) {
+    throw new Error(`档案 ID 无效: ${profileId}`);
+  }
+  const profile: ProfileSummary = { id: profileId, name: readProfileName(registry, name), createdAt: nowIso, lastOpenedAt: null };
+  return { ...registry, profiles: [...registry.profiles, profile] };
+}
+
+export function renameProfileInRegistry(registry: ProfileRegistry, profileId: string, name: string): ProfileRegistry {
+  requireProfile(registry, profileId);
+  const nextName = readProfileName(registry, name, profileId);
+  return {
+    ...registry,
+    profiles: registry.profiles.map((profile) => (profile.id === profileId ? { ...profile, name: nextName } : profile)),
+  };
+}
+
+export function removeProfileFromRegistry(registry: ProfileRegistry, profileId: string): ProfileRegistry {
+  requireProfile(registry, profileId);
+  if (profileId === DEFAULT_PROFILE_ID) {
+    throw new Error("默认档案不能删除");
+  }
+  if (profileId === registry.activeProfileId) {
+    throw new Error("不能删除正在使用的档案，请先切换到其他档案");
+  }
+  return { ...registry, profiles: registry.profiles.filter((profile) => profile.id !== profileId) };
+}
+
+export function activateProfileInRegistry(registry: ProfileRegistry, profileId: string, nowIso: string): ProfileRegistry {
+  requireProfile(registry, profileId);
+  return {
+    activeProfileId: profileId,
+    profiles: registry.profiles.map((profile) => (profile.id === profileId ? { ...profile, lastOpenedAt: nowIso } : profile)),
+  };
+}
@@ -0,0 +1,144 @@
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  LEGACY_STORE_MIGRATED_SUFFIX,
+  applyCollectionPatch,
+  buildCollectionPatch,
+  createTransactionalStore,
+  decodeStorageLog,
+  encodeStorageLogRecord,
+  type StorageRecoveryBase,
+} from "./store-infra-storage";
+
+let directory = "";
+const warnings: string[] = [];
+
+function openStore(compactThresholdBytes?: number, loadRecoveryBase?: () => StorageRecoveryBase | null) {
+  return createTransactionalStore({
+    directory,
+    name: "sample",
+    defaults: { version: 1, items: [] },
+    compactThresholdBytes,
+    onRecoveryWarning: (message) => warnings.push(message),
+    loadRecoveryBase,
+  });
+}
+
+describe("store/store-infra-storage", () => {
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "aion2-storage-"));
+    warnings.length = 0;
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("builds minimal collection patches and replays them in order", () => {
+    const before = [
+      { id: "a", value: 1 },
+      { id: "b", value: 2 },
+      { id: "c", value: 3 },
+    ];
+    const appended = [...before.slice(1), { id: "d", value: 4 }];
+    const appendPatch = buildCollectionPatch(before, appended);
+    expect(appendPatch).toEqual({ upsert: [{ id: "d", value: 4 }], remove: ["a"] });
+    expect(applyCollectionPatch(before, appendPatch!)).toEqual(appended);
+
+    const reordered = [{ id: "c", value: 30 }, before[0], before[1]];
+    const reorderPatch = buildCollectionPatch(before, reordered);
+    expect(reorderPatch?.order).toEqual(["c", "a", "b"]);
+    expect(applyCollectionPatch(before, reorderPatch!)).toEqual(reordered);
+
+    expect(buildCollectionPatch([{ id: "a" }, { id: "a" }], [])).toBeNull();
+    expect(buildCollectionPatch({ id: "a" }, [])).toBeNull();
+  });
+
+  it("persists transactions through the log and survives reopen and compaction", () => {
+    const store = openStore();
+    expect(store.get("version")).toBe(1);
+
+    const large = { id: "a", text: "x".repeat(200) };
+    store.transaction({ version: 2, items: [large] });
+    store.set("items", [large, { id: "b", n: 2 }]);
+    store.store = { version: 3, items: [{ id: "b", n: 2 }] };
+    expect(existsSync(store.snapshotPath)).toBe(false);
+
+    const lines = readFileSync(store.logPath, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('"patch"');
+
+    const reopened = openStore();
+    expect(reopened.store).toEqual({ version: 3, items: [{ id: "b", n: 2 }] });
+
+    reopened.compact();
+    expect(statSync(reopened.logPath).size).toBe(0);
+    expect(openStore().store).toEqual({ version: 3, items: [{ id: "b", n: 2 }] });
+  });
+
+  it("skips writes when nothing changed and compacts once the log grows", () => {
+    const store = openStore(200);
+    store.set("version", 1);
+    expect(existsSync(store.logPath)).toBe(false);
+
+    store.set("items", [{ id: "a", text: "x".repeat(300) }]);
+    expect(statSync(store.logPath).size).toBe(0);
+    expect(JSON.parse(readFileSync(store.snapshotPath, "utf-8")).items).toHaveLength(1);
+  });
+
+  it("discards a torn trailing log record after a crash", () => {
+    const store = openStore();
+    store.set("version", 5);
+    appendFileSync(store.logPath, encodeStorageLogRecord([{ key: "version", value: 6 }]).slice(0, -4));
+
+    const reopened = openStore();
+    expect(reopened.get("version")).toBe(5);
+    expect(warnings[0]).toContain("未完成写入");
+    expect(decodeStorageLog(readFileSync(reopened.logPath)).records).toHaveLength(1);
+  });
+
+  it("migrates a legacy electron-store file once", () => {
+    const legacyPath = join(directory, "sample.json");
+    writeFileSync(legacyPath, JSON.stringify({ version: 9, items: [{ id: "x" }] }), "utf-8");
+
+    const store = openStore();
+    expect(store.store).toEqual({ version: 9, items: [{ id: "x" }] });
+    expect(existsSync(legacyPath)).toBe(false);
+    expect(existsSync(`${legacyPath}${LEGACY_STORE_MIGRATED_SUFFIX}`)).toBe(true);
+    expect(JSON.parse(readFileSync(store.snapshotPath, "utf-8")).version).toBe(9);
+  });
+
+  it("refuses to replay the log onto an empty base when the snapshot is corrupt", () => {
+    const store = openStore();
+    const large = { id: "a", text: "x".repeat(200) };
+    store.transaction({ version: 2, items: [large, { id: "b", n: 1 }] });
+    store.compact();
+    store.set("items", [large, { id: "b", n: 2 }]);
+    writeFileSync(store.snapshotPath, "{broken", "utf-8");
+
+    expect(() => openStore()).toThrowError("存储快照损坏且没有可用于恢复的备份");
+    expect(readFileSync(store.snapshotPath, "utf-8")).toBe("{broken");
+
+    const recovered = openStore(undefined, () => ({
+      source: "auto-backup.json",
+      data: { version: 2, items: [{ id: "a", text: "backup" }, { id: "b", n: 0 }] },
+    }));
+    expect(recovered.store).toEqual({ version: 2, items: [{ id: "a", text: "backup" }, { id: "b", n: 2 }] });
+    expect(warnings.at(-1)).toContain("auto-backup.json");
+    expect(statSync(recovered.logPath).size).toBe(0);
+    expect(readdirSync(directory).some((fileName) => fileName.includes(".corrupt-"))).toBe(true);
+    expect(openStore().store).toEqual(recovered.store);
+  });
+
+  it("falls back to the migrated legacy file when no backup is available", () => {
+    writeFileSync(join(directory, "sample.json"), JSON.stringify({ version: 9, items: [{ id: "x" }] }), "utf-8");
+    const store = openStore();
+    store.set("items", [{ id: "x" }, { id: "y" }]);
+    writeFileSync(store.snapshotPath, "", "utf-8");
+
+    expect(openStore(undefined, () => null).store).toEqual({ version: 9, items: [{ id: "x" }, { id: "y" }] });
+    expect(warnings.at(-1)).toContain(LEGACY_STORE_MIGRATED_SUFFIX);
+  });
+});
@@ -0,0 +1,358 @@
+import { createHash } from "node:crypto";
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  truncateSync,
+  writeSync,
+} from "node:fs";
+import { join } from "node:path";
+
+export const STORAGE_SNAPSHOT_SUFFIX = ".snapshot.json";
+export const STORAGE_LOG_SUFFIX = ".wal";
+export const LEGACY_STORE_MIGRATED_SUFFIX = ".migrated";
+
+const DEFAULT_COMPACT_THRESHOLD_BYTES = 4 * 1024 * 1024;
+const CHECKSUM_LENGTH = 16;
+
+type StorageRecord = Record<string, unknown>;
+
+export interface CollectionPatch {
+  upsert: StorageRecord[];
+  remove: string[];
+  order?: string[];
+}
+
+interface StorageLogOperation {
+  key: string;
+  value?: unknown;
+  patch?: CollectionPatch;
+  deleted?: true;
+}
+
+export interface StorageRecoveryBase {
+  source: string;
+  data: StorageRecord;
+}
+
+export interface TransactionalStoreOptions {
+  directory: string;
+  name: string;
+  defaults?: StorageRecord;
+  compactThresholdBytes?: number;
+  onRecoveryWarning?: (message: string, error?: unknown) => void;
+  loadRecoveryBase?: () => StorageRecoveryBase | null;
+}
+
+export interface TransactionalStore {
+  readonly snapshotPath: string;
+  readonly logPath: string;
+  store: StorageRecord;
+  get: (key: string) => unknown;
+  set: (key: string, value: unknown) => void;
+  transaction: (changes: StorageRecord) => void;
+  compact: () => void;
+}
+
+function checksum(text: string): string {
+  return createHash("sha256").update(text, "utf-8").digest("hex").slice(0, CHECKSUM_LENGTH);
+}
+
+function isIdentifiedCollection(value: unknown): value is StorageRecord[] {
+  if (!Array.isArray(value)) {
+    return false;
+  }
+  const ids = new Set<string>();
+  for (const item of value) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      return false;
+    }
+    const id = (item as StorageRecord).id;
+    if (typeof id !== "string" || ids.has(id)) {
+      return false;
+    }
+    ids.add(id);
+  }
+  return true;
+}
+
+export function buildCollectionPatch(before: unknown, after: unknown): CollectionPatch | null {
+  if (!isIdentifiedCollection(before) || !isIdentifiedCollection(after)) {
+    return null;
+  }
+  const beforeById = new Map(before.map((item) => [item.id as string, JSON.stringify(item)]));
+  const afterIds = new Set(after.map((item) => item.id as string));
+  const upsert = after.filter((item) => beforeById.get(item.id as string) !== JSON.stringify(item));
+  const remove = before.map((item) => item.id as string).filter((id) => !afterIds.has(id));
+  const patch: CollectionPatch = { upsert, remove };
+
+  const removed = new Set(remove);
+  const expectedOrder = [
+    ...before.map((item) => item.id as string).filter((id) => !removed.has(id)),
+    ...after.map((item) => item.id as string).filter((id) => !beforeById.has(id)),
+  ];
+  if (expectedOrder.some((id, index) => id !== after[index].id)) {
+    patch.order = after.map((item) => item.id as string);
+  }
+  return patch;
+}
+
+export function applyCollectionPatch(before: unknown, patch: CollectionPatch): StorageRecord[] {
+  const current = Array.isArray(before) ? (before as StorageRecord[]) : [];
+  const removed = new Set(patch.remove);
+  const byId = new Map<string, StorageRecord>();
+  const order: string[] = [];
+  current.forEach((item) => {
+    const id = String(item.id);
+    if (removed.has(id) || byId.has(id)) {
+      return;
+    }
+    byId.set(id, item);
+    order.push(id);
+  });
+  patch.upsert.forEach((item) => {
+    const id = String(item.id);
+    if (!byId.has(id)) {
+      order.push(id);
+    }
+    byId.set(id, item);
+  });
+  const finalOrder = patch.order ?? order;
+  return finalOrder.flatMap((id) => {
+    const item = byId.get(id);
+    return item ? [item] : [];
+  });
+}
+
+export function encodeStorageLogRecord(ops: StorageLogOperation[]): string {
+  const body = JSON.stringify({ ops });
+  return `${checksum(body)} ${body}\n`;
+}
+
+export function decodeStorageLog(buffer: Buffer): { records: StorageLogOperation[][]; validBytes: number } {
+  const records: StorageLogOperation[][] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const end = buffer.indexOf(0x0a, offset);
+    if (end < 0) {
+      break;
+    }
+    const line = buffer.subarray(offset, end).toString("utf-8");
+    const separator = line.indexOf(" ");
+    const body = separator > 0 ? line.slice(separator + 1) : "";
+    if (separator !== CHECKSUM_LENGTH || checksum(body) !== line.slice(0, separator)) {
+      break;
+    }
+    try {
+      const parsed = JSON.parse(body) as { ops?: unknown };
+      if (!Array.isArray(parsed.ops)) {
+        break;
+      }
+      records.push(parsed.ops as StorageLogOperation[]);
+    } catch {
+      break;
+    }
+    offset = end + 1;
+  }
+  return { records, validBytes: offset };
+}
+
+function applyOperations(data: StorageRecord, ops: readonly StorageLogOperation[]): void {
+  ops.forEach((op) => {
+    if (op.deleted) {
+      delete data[op.key];
+      return;
+    }
+    if (op.patch) {
+      data[op.key] = applyCollectionPatch(data[op.key], op.patch);
+      return;
+    }
+    data[op.key] = op.value;
+  });
+}
+
+function writeFileDurably(path: string, content: string, flags: "w" | "a"): void {
+  const fd = openSync(path, flags);
+  try {
+    writeSync(fd, content);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function fsyncDirectory(directory: string): void {
+  if (process.platform === "win32") {
+    return;
+  }
+  const fd = openSync(directory, "r");
+  try {
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function readJsonObject(path: string): StorageRecord {
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`存储文件格式无效: ${path}`);
+  }
+  return parsed as StorageRecord;
+}
+
+export function createTransactionalStore(options: TransactionalStoreOptions): TransactionalStore {
+  const { directory, name, defaults = {} } = options;
+  const onRecoveryWarning =
+    options.onRecoveryWarning ?? ((message: string, error?: unknown) => console.warn(`[aion2-dashboard] ${message}`, error ?? ""));
+  const compactThresholdBytes = options.compactThresholdBytes ?? DEFAULT_COMPACT_THRESHOLD_BYTES;
+  const snapshotPath = join(directory, `${name}${STORAGE_SNAPSHOT_SUFFIX}`);
+  const logPath = join(directory, `${name}${STORAGE_LOG_SUFFIX}`);
+  const legacyPath = join(directory, `${name}.json`);
+  const migratedLegacyPath = `${legacyPath}${LEGACY_STORE_MIGRATED_SUFFIX}`;
+
+  mkdirSync(directory, { recursive: true });
+
+  let data: StorageRecord = {};
+  let logBytes = 0;
+  let recovered = false;
+
+  const writeSnapshot = (): void => {
+    const tempPath = `${snapshotPath}.tmp`;
+    writeFileDurably(tempPath, JSON.stringify(data), "w");
+    renameSync(tempPath, snapshotPath);
+    fsyncDirectory(directory);
+  };
+
+  const readRecoveryBase = (): StorageRecoveryBase | null => {
+    try {
+      const base = options.loadRecoveryBase?.() ?? null;
+      if (base) {
+        return base;
+      }
+    } catch (error) {
+      onRecoveryWarning("读取自动备份失败，尝试旧版存储文件", error);
+    }
+    if (existsSync(migratedLegacyPath)) {
+      try {
+        return { source: migratedLegacyPath, data: readJsonObject(migratedLegacyPath) };
+      } catch (error) {
+        onRecoveryWarning(`旧版存储文件无法读取: ${migratedLegacyPath}`, error);
+      }
+    }
+    return null;
+  };
+
+  const compact = (): void => {
+    writeSnapshot();
+    writeFileDurably(logPath, "", "w");
+    logBytes = 0;
+  };
+
+  if (existsSync(snapshotPath)) {
+    try {
+      data = readJsonObject(snapshotPath);
+    } catch (error) {
+      // Log records are deltas against the snapshot; replaying them onto an empty object would persist a partial state.
+      const base = readRecoveryBase();
+      if (!base) {
+        throw new Error(`存储快照损坏且没有可用于恢复的备份，请手动检查: ${snapshotPath}`, { cause: error });
+      }
+      const corruptPath = `${snapshotPath}.corrupt-${Date.now()}`;
+      renameSync(snapshotPath, corruptPath);
+      fsyncDirectory(directory);
+      data = base.data;
+      recovered = true;
+      onRecoveryWarning(`存储快照损坏，已另存为 ${corruptPath}，并从 ${base.source} 恢复后重放日志`, error);
+    }
+  } else if (existsSync(legacyPath) && !existsSync(logPath)) {
+    try {
+      data = readJsonObject(legacyPath);
+    } catch (error) {
+      onRecoveryWarning(`旧版存储文件无法读取，已忽略: ${legacyPath}`, error);
+    }
+    writeSnapshot();
+    renameSync(legacyPath, migratedLegacyPath);
+    fsyncDirectory(directory);
+  }
+
+  if (existsSync(logPath)) {
+    const buffer = readFileSync(logPath);
+    const { records, validBytes } = decodeStorageLog(buffer);
+    records.forEach((ops) => applyOperations(data, ops));
+    if (validBytes < buffer.length) {
+      truncateSync(logPath, validBytes);
+      onRecoveryWarning(`存储日志末尾有 ${buffer.length - validBytes} 字节未完成写入，已丢弃`);
+    }
+    logBytes = validBytes;
+    if (logBytes > compactThresholdBytes) {
+      compact();
+    }
+  }
+  if (recovered) {
+    compact();
+  }
+
+  const transaction = (changes: StorageRecord): void => {
+    const ops: StorageLogOperation[] = [];
+    Object.entries(changes).forEach(([key, value]) => {
+      const hasCurrent = Object.prototype.hasOwnProperty.call(data, key);
+      if (value === undefined) {
+        if (hasCurrent) {
+          ops.push({ key, deleted: true });
+        }
+        return;
+      }
+      const serialized = JSON.stringify(value);
+      if (JSON.stringify(hasCurrent ? data[key] : defaults[key]) === serialized) {
+        return;
+      }
+      const patch = hasCurrent ? buildCollectionPatch(data[key], value) : null;
+      const serializedPatch = patch ? JSON.stringify(patch) : null;
+      if (serializedPatch && serializedPatch.length < serialized.length) {
+        ops.push({ key, patch: JSON.parse(serializedPatch) as CollectionPatch });
+        return;
+      }
+      ops.push({ key, value: JSON.parse(serialized) as unknown });
+    });
+    if (ops.length === 0) {
+      return;
+    }
+
+    const line = encodeStorageLogRecord(ops);
+    writeFileDurably(logPath, line, "a");
+    applyOperations(data, ops);
+    logBytes += Buffer.byteLength(line, "utf-8");
+    if (logBytes > compactThresholdBytes) {
+      compact();
+    }
+  };
+
+  return {
+    snapshotPath,
+    logPath,
+    get store(): StorageRecord {
+      return structuredClone({ ...defaults, ...data });
+    },
+    set store(next: StorageRecord) {
+      const changes: StorageRecord = { ...next };
+      Object.keys(data).forEach((key) => {
+        if (!Object.prototype.hasOwnProperty.call(next, key)) {
+          changes[key] = undefined;
+        }
+      });
+      transaction(changes);
+    },
+    get: (key) => {
+      const value = Object.prototype.hasOwnProperty.call(data, key) ? data[key] : defaults[key];
+      return value === undefined ? undefined : structuredClone(value);
+    },
+    set: (key, value) => transaction({ [key]: value }),
+    transaction,
+    compact,
+  };
+}
@@ -1,23 +1,55 @@
 import { randomUUID } from "node:crypto";
-import { mkdirSync, writeFileSync } from "node:fs";
-import { readFile, writeFile } from "node:fs/promises";
+import { appendFileSync, mkdirSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
 import { app, dialog } from "electron";
-import Store from "electron-store";
 import {
   APP_STATE_VERSION,
+  DEFAULT_SERVER_CHARACTER_SLOTS,
   DEFAULT_SETTINGS,
 } from "../shared/constants";
-import { refreshCharacterState } from "../shared/engine";
+import { DEFAULT_SEASON_RULE_SET, parseSeasonRuleSet } from "../shared/season-rules";
+import { getTicketInventoryDefinition } from "../shared/ticket-inventory";
+import { buildWeeklyPlan, formatWeeklyPlanChecklist } from "../shared/weekly-plan";
+import {
+  getWorkshopBackupData,
+  migrateWorkshopStoreOnStartup,
+  reopenWorkshopStoreForActiveProfile,
+  restoreWorkshopBackupData,
+} from "./workshop-store";
 import type {
   AppSettings,
   AppState,
+  ApplyEventProgressInput,
+  ApplyImportSelectionInput,
+  ApplyBatchTaskActionInput,
+  ApplyBatchTaskActionResult,
   ApplyTaskActionInput,
-  CharacterState,
+  BatchTaskActionFailure,
   ExportDataResult,
   ImportDataResult,
+  ImportPassphraseRequest,
+  ImportPreviewResult,
+  ImportProfileInput,
+  ImportProfileResult,
+  OperationJournalEntry,
+  OperationJournalQuery,
+  OperationJournalQueryResult,
   OperationLogEntry,
+  ProfileListResult,
+  RecordGoldIncomeInput,
+  RestorePoint,
+  SeasonRuleSet,
+  TransferTicketsInput,
+  UnlockImportInput,
+  UpsertCustomTaskInput,
+  UpsertEventInput,
 } from "../shared/types";
 import { applyAodePlanUpdate, type UpdateAodePlanPayload } from "./store-domain-aode";
+import { applyTicketTransfer } from "./store-domain-tickets";
+import { deleteGoldLedgerEntryFromState, recordGoldIncomeToState } from "./store-domain-gold-ledger";
+import { deleteCustomTaskFromState, upsertCustomTaskToState } from "./store-domain-custom-tasks";
+import { applyEventProgressToState, deleteEventFromState, upsertEventToState } from "./store-domain-events";
 import {
   applyCorridorCompletionToCharacter,
   reorderCharactersByIds,
@@ -40,69 +72,145 @@ import {
   buildAppStateMutationSignature,
   buildAppStateRollbackPayload,
   createAppStateMutationDraft,
-  restoreAppStateByDelta,
+  redoHistoryEntries,
+  revertHistoryEntryInState,
+  undoHistoryEntries,
 } from "./store-domain-history";
 import {
+  applyBatchTaskActionToState,
   applyTaskActionToState,
+  buildBatchTaskActionDescription,
   buildTaskActionDescription,
   resetWeeklyStatsForCharacters,
 } from "./store-domain-progression";
 import {
   addAccountToRoster,
   addCharacterToRoster,
+  addServerToAccount,
   deleteAccountFromRoster,
   deleteCharacterFromRoster,
+  deleteServerFromAccount,
+  moveCharacterToServer,
   renameAccountInRoster,
   renameCharacterInRoster,
+  updateServerInAccount,
 } from "./store-domain-roster";
 import {
   applyConfiguredActivityCaps,
   mergeAppSettings,
 } from "./store-domain-settings";
+import {
+  applyDueSeasonRuleSwitch,
+  refreshAppStateCharacters,
+  scheduleSeasonRuleSwitch,
+} from "./store-domain-season";
 import {
   resolveSelectionAfterAccountDeletion,
   resolveSelectionAfterCharacterDeletion,
   resolveSelectionForAccount,
   resolveSelectionForCharacter,
 } from "./store-domain-selection";
+import { APP_STATE_MIGRATIONS } from "./store-domain-migrations";
+import { normalizeAppState } from "./store-domain-snapshot";
 import {
-  normalizeAppState,
-  syncAccountSharedStateFromCharacters,
-  syncAccountSharedStateToCharacters,
-} from "./store-domain-snapshot";
-import { buildExportPayload, buildImportedState, parseImportPayload } from "./store-domain-transfer";
+  buildExportPayload,
+  buildImportPreview,
+  buildImportedState,
+  mergeImportedState,
+  parseImportPayload,
+  resolveImportedWorkshop,
+  summarizeRestorePoint,
+} from "./store-domain-transfer";
 import {
   buildDefaultExportPath as buildDefaultExportPathByInfra,
+  buildDefaultJournalCsvPath as buildDefaultJournalCsvPathByInfra,
+  buildDefaultWeeklyPlanPath as buildDefaultWeeklyPlanPathByInfra,
+  getAutoBackupDirectory,
   maybeCreateDailyAutoBackup as maybeCreateDailyAutoBackupByInfra,
+  parseAutoBackupFileName,
 } from "./store-infra-io";
+import { migrateStoreOnStartup, type MigrationLogEntry } from "./store-infra-migration";
+import {
+  activateProfileInRegistry,
+  addProfileToRegistry,
+  removeProfileFromRegistry,
+  renameProfileInRegistry,
+} from "./store-infra-profiles";
+import { loadNewestAutoBackupBase, openStorageOrExit, reportStorageRecoveryWarning } from "./storage-recovery";
+import { createTransactionalStore } from "./store-infra-storage";
+import {
+  buildProfileListResult,
+  getActiveProfileAutoBackupFolderName,
+  getActiveProfileDirectory,
+  getProfileDirectory,
+  markStartupProfileSelected,
+  readProfileRegistry,
+  writeProfileRegistry,
+} from "./profile-registry";
+import {
+  OPERATION_JOURNAL_FILE_NAME,
+  buildOperationJournalEntry,
+  filterOperationJournal,
+  formatOperationJournalCsv,
+  parseOperationJournal,
+  queryOperationJournal as queryOperationJournalEntries,
+  serializeOperationJournalEntries,
+} from "./store-infra-journal";
+import {
+  ENCRYPTED_BACKUP_FILE_EXTENSION,
+  decryptBackupPayload,
+  encryptBackupPayload,
+  isEncryptedBackupEnvelope,
+} from "./store-infra-crypto";
 
 const OPERATION_HISTORY_LIMIT = 200;
 const SETTINGS_MAX_THRESHOLD = 999999;
-const MAX_CHARACTERS_PER_ACCOUNT = 8;
 const AUTO_BACKUP_META_KEY = "lastAutoBackupDate";
 const HISTORY_DELTA_MAX_SIZE_RATIO = 0.92;
 
-const store = new Store<Record<string, unknown>>({
-  name: "aion2-dashboard",
-  clearInvalidConfig: true,
-  defaults: {
-    version: APP_STATE_VERSION,
-    selectedAccountId: null,
-    selectedCharacterId: null,
-    settings: DEFAULT_SETTINGS,
-    accounts: [],
-    characters: [],
-    history: [],
-  },
-});
+function openStateStore(directory: string) {
+  return createTransactionalStore({
+    directory,
+    name: "aion2-dashboard",
+    defaults: {
+      version: APP_STATE_VERSION,
+      selectedAccountId: null,
+      selectedCharacterId: null,
+      settings: DEFAULT_SETTINGS,
+      accounts: [],
+      characters: [],
+      history: [],
+      redoHistory: [],
+    },
+    onRecoveryWarning: reportStorageRecoveryWarning,
+    loadRecoveryBase: () =>
+      loadNewestAutoBackupBase(getActiveProfileAutoBackupFolderName(), (payload) => {
+        const state = payload.state;
+        return state && typeof state === "object" && !Array.isArray(state) ? (state as Record<string, unknown>) : null;
+      }),
+  });
+}
 
-const metaStore = new Store<Record<string, unknown>>({
-  name: "aion2-dashboard-meta",
-  clearInvalidConfig: true,
-  defaults: {
-    [AUTO_BACKUP_META_KEY]: "",
-  },
-});
+function openMetaStore(directory: string) {
+  return createTransactionalStore({
+    directory,
+    name: "aion2-dashboard-meta",
+    defaults: {
+      [AUTO_BACKUP_META_KEY]: "",
+    },
+    onRecoveryWarning: reportStorageRecoveryWarning,
+    // Only caches the last auto-backup date, so a fresh record is a safe base.
+    loadRecoveryBase: () => ({ source: "默认值", data: {} }),
+  });
+}
+
+let store = openStorageOrExit(() => openStateStore(getActiveProfileDirectory()));
+let metaStore = openStorageOrExit(() => openMetaStore(getActiveProfileDirectory()));
+
+let pendingImport: { token: string; path: string; imported: AppState; workshop: Record<string, unknown> | null } | null = null;
+let pendingEncryptedImport: ImportPassphraseRequest | null = null;
+
+const BACKUP_OPEN_FILTERS = [{ name: "备份文件", extensions: ["json", ENCRYPTED_BACKUP_FILE_EXTENSION] }];
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
@@ -114,13 +222,63 @@ function persistState(state: AppState): AppState {
   return state;
 }
 
-function refreshAllCharacters(characters: CharacterState[], settings: AppSettings): CharacterState[] {
-  const now = new Date();
-  return characters.map((item) => applyConfiguredActivityCaps(refreshCharacterState(item, now), settings));
+function getOperationJournalPath(): string {
+  return join(getActiveProfileDirectory(), OPERATION_JOURNAL_FILE_NAME);
+}
+
+function appendOperationJournal(entries: OperationLogEntry[], after: AppState, before: AppState = after): void {
+  if (entries.length === 0) {
+    return;
+  }
+  const resolveCharacterName = (characterId: string | null): string | null => {
+    if (characterId === null) {
+      return null;
+    }
+    const character =
+      after.characters.find((item) => item.id === characterId) ?? before.characters.find((item) => item.id === characterId);
+    return character?.name ?? null;
+  };
+  const resolveEntryCharacterName = (entry: OperationLogEntry): string | null => {
+    if (entry.characterId !== null || !entry.characterIds?.length) {
+      return resolveCharacterName(entry.characterId);
+    }
+    return entry.characterIds.map((id) => resolveCharacterName(id) ?? id).join("、");
+  };
+  try {
+    appendFileSync(
+      getOperationJournalPath(),
+      serializeOperationJournalEntries(
+        entries.map((entry) => buildOperationJournalEntry(entry, after, resolveEntryCharacterName(entry))),
+      ),
+      "utf-8",
+    );
+  } catch (error) {
+    console.error("[aion2-dashboard] operation journal append failed", error);
+  }
+}
+
+function appendMovedHistoryJournal(action: string, moved: OperationLogEntry[], after: AppState, before: AppState): void {
+  const at = new Date().toISOString();
+  appendOperationJournal(
+    moved.map((entry) => ({ ...entry, id: randomUUID(), at, action, description: entry.action })),
+    after,
+    before,
+  );
+}
+
+async function readOperationJournal(): Promise<OperationJournalEntry[]> {
+  try {
+    return parseOperationJournal(await readFile(getOperationJournalPath(), "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
 }
 
 function commitMutation(
-  meta: { action: string; characterId?: string | null; description?: string; trackHistory?: boolean },
+  meta: { action: string; characterId?: string | null; characterIds?: string[]; description?: string; trackHistory?: boolean },
   mutator: (draft: AppState) => AppState | void,
 ): AppState {
   const current = getAppState();
@@ -137,19 +295,38 @@ function commitMutation(
       at: new Date().toISOString(),
       action: meta.action,
       characterId: meta.characterId ?? null,
+      characterIds: meta.characterIds && meta.characterIds.length > 0 ? meta.characterIds : undefined,
       description: meta.description,
       ...rollback,
     };
     normalized.history = [...current.history, entry].slice(-OPERATION_HISTORY_LIMIT);
-  } else {
-    normalized.history = current.history;
+    normalized.redoHistory = [];
+    persistState(normalized);
+    appendOperationJournal([entry], normalized, current);
+    return normalized;
   }
 
+  normalized.history = current.history;
+  normalized.redoHistory = current.redoHistory;
   return persistState(normalized);
 }
 
-function buildDefaultExportPath(): string {
-  return buildDefaultExportPathByInfra(() => app.getPath("documents"));
+function buildDefaultExportPath(extension?: string): string {
+  return buildDefaultExportPathByInfra(() => app.getPath("documents"), new Date(), extension);
+}
+
+function resolveBackupPayload(raw: unknown, passphrase?: string): unknown {
+  if (!isEncryptedBackupEnvelope(raw)) {
+    return raw;
+  }
+  if (passphrase === undefined) {
+    throw new Error("该备份已加密，请输入备份密码");
+  }
+  return decryptBackupPayload(raw, passphrase);
+}
+
+function buildDefaultWeeklyPlanPath(): string {
+  return buildDefaultWeeklyPlanPathByInfra(() => app.getPath("documents"));
 }
 
 function maybeCreateDailyAutoBackup(state: AppState): void {
@@ -161,24 +338,47 @@ function maybeCreateDailyAutoBackup(state: AppState): void {
       setLastBackupDate: (value) => metaStore.set(AUTO_BACKUP_META_KEY, value),
       ensureDirectory: (path) => mkdirSync(path, { recursive: true }),
       writeTextFile: (path, content) => writeFileSync(path, content, "utf-8"),
-      buildExportPayload,
+      listDirectory: (path) => readdirSync(path),
+      removeFile: (path) => rmSync(path, { force: true }),
+      buildExportPayload: (state) => buildExportPayload(state, new Date(), getWorkshopBackupData()),
       onAutoBackupError: (error) => {
         console.error("[aion2-dashboard] auto backup failed", error);
       },
     },
     new Date(),
+    getActiveProfileAutoBackupFolderName(),
   );
 }
 
+export function migrateAppStoreOnStartup(): MigrationLogEntry | null {
+  return migrateStoreOnStartup({
+    directory: getActiveProfileDirectory(),
+    storeName: "aion2-dashboard",
+    targetVersion: APP_STATE_VERSION,
+    migrations: APP_STATE_MIGRATIONS,
+    read: () => store.store,
+    write: (state) => {
+      store.store = normalizeAppState(state) as unknown as Record<string, unknown>;
+    },
+  });
+}
+
 export function getAppState(): AppState {
   const current = normalizeAppState(store.store);
-  const refreshedCharacters = refreshAllCharacters(current.characters, current.settings);
-  const refreshedAccounts = syncAccountSharedStateFromCharacters(current.accounts, refreshedCharacters);
-  return {
-    ...current,
-    accounts: refreshedAccounts,
-    characters: syncAccountSharedStateToCharacters(refreshedAccounts, refreshedCharacters),
-  };
+  const now = new Date();
+  const switched = applyDueSeasonRuleSwitch({
+    state: current,
+    now,
+    historyLimit: OPERATION_HISTORY_LIMIT,
+    deltaMaxSizeRatio: HISTORY_DELTA_MAX_SIZE_RATIO,
+    createEntryId: () => randomUUID(),
+  });
+  if (switched) {
+    persistState(switched);
+    appendOperationJournal(switched.history.slice(-1), switched, current);
+    return switched;
+  }
+  return refreshAppStateCharacters(current, now);
 }
 
 export function addAccount(name: string, regionTag?: string): AppState {
@@ -204,7 +404,7 @@ export function addAccount(name: string, regionTag?: string): AppState {
   );
 }
 
-export function renameAccount(accountId: string, name: string, regionTag?: string): AppState {
+export function renameAccount(accountId: string, name: string, regionTag?: string, tags?: string[]): AppState {
   const nextName = name.trim();
   if (!nextName) {
     return getAppState();
@@ -212,7 +412,7 @@ export function renameAccount(accountId: string, name: string, regionTag?: strin
   return commitMutation(
     { action: "编辑账号", description: `${nextName}${regionTag ? ` (${regionTag})` : ""}` },
     (draft) => {
-      draft.accounts = renameAccountInRoster(draft.accounts, accountId, nextName, regionTag);
+      draft.accounts = renameAccountInRoster(draft.accounts, accountId, nextName, regionTag, tags);
       return draft;
     },
   );
@@ -262,7 +462,71 @@ export function selectAccount(accountId: string): AppState {
   );
 }
 
-export function addCharacter(name: string, accountId?: string): AppState {
+export function addAccountServer(accountId: string, name: string, characterSlots?: number): AppState {
+  const nextName = name.trim();
+  return commitMutation(
+    { action: "新增服务器", description: nextName || "未命名服务器" },
+    (draft) => {
+      draft.accounts = addServerToAccount({
+        accounts: draft.accounts,
+        accountId,
+        serverId: randomUUID(),
+        name: nextName,
+        characterSlots: characterSlots ?? DEFAULT_SERVER_CHARACTER_SLOTS,
+      });
+      return draft;
+    },
+  );
+}
+
+export function updateAccountServer(accountId: string, serverId: string, name: string, characterSlots?: number): AppState {
+  return commitMutation(
+    { action: "编辑服务器", description: name.trim() || serverId },
+    (draft) => {
+      draft.accounts = updateServerInAccount({
+        accounts: draft.accounts,
+        characters: draft.characters,
+        accountId,
+        serverId,
+        name,
+        characterSlots,
+      });
+      return draft;
+    },
+  );
+}
+
+export function deleteAccountServer(accountId: string, serverId: string): AppState {
+  return commitMutation(
+    { action: "删除服务器", description: serverId },
+    (draft) => {
+      draft.accounts = deleteServerFromAccount({
+        accounts: draft.accounts,
+        characters: draft.characters,
+        accountId,
+        serverId,
+      });
+      return draft;
+    },
+  );
+}
+
+export function moveCharacterServer(characterId: string, serverId: string): AppState {
+  return commitMutation(
+    { action: "移动角色服务器", characterId, description: serverId },
+    (draft) => {
+      draft.characters = moveCharacterToServer({
+        accounts: draft.accounts,
+        characters: draft.characters,
+        characterId,
+        serverId,
+      });
+      return draft;
+    },
+  );
+}
+
+export function addCharacter(name: string, accountId?: string, serverId?: string): AppState {
   const nextName = name.trim();
   return commitMutation(
     { action: "新增角色", description: nextName || "未命名角色" },
@@ -273,9 +537,9 @@ export function addCharacter(name: string, accountId?: string): AppState {
         name,
         selectedAccountId: draft.selectedAccountId,
         requestedAccountId: accountId,
+        requestedServerId: serverId,
         characterId: randomUUID(),
         nowIso: new Date().toISOString(),
-        maxCharactersPerAccount: MAX_CHARACTERS_PER_ACCOUNT,
       });
       draft.characters = next.characters;
       draft.selectedAccountId = next.selectedAccountId;
@@ -385,7 +649,7 @@ export function applyAction(input: ApplyTaskActionInput): AppState {
       description: buildTaskActionDescription(input),
     },
     (draft) => {
-      const next = applyTaskActionToState(draft.accounts, draft.characters, draft.settings, input);
+      const next = applyTaskActionToState(draft.accounts, draft.characters, draft.settings, input, draft.customTasks);
       draft.accounts = next.accounts;
       draft.characters = next.characters;
       return draft;
@@ -393,6 +657,102 @@ export function applyAction(input: ApplyTaskActionInput): AppState {
   );
 }
 
+export function applyBatchAction(input: ApplyBatchTaskActionInput): ApplyBatchTaskActionResult {
+  if (input.characterIds.length === 0) {
+    throw new Error("请至少选择一个角色");
+  }
+  let appliedCharacterIds: string[] = [];
+  let failures: BatchTaskActionFailure[] = [];
+  // Filled in by the mutator: the journal should name the characters that were actually applied, not the selection.
+  const meta: { action: string; characterId: string | null; characterIds: string[]; description: string } = {
+    action: "批量任务打卡",
+    characterId: null,
+    characterIds: [],
+    description: "",
+  };
+  const state = commitMutation(meta, (draft) => {
+    const next = applyBatchTaskActionToState(draft.accounts, draft.characters, draft.settings, input, draft.customTasks);
+    draft.accounts = next.accounts;
+    draft.characters = next.characters;
+    appliedCharacterIds = next.appliedCharacterIds;
+    failures = next.failures;
+    meta.characterId = appliedCharacterIds.length === 1 ? appliedCharacterIds[0] : null;
+    meta.characterIds = appliedCharacterIds;
+    meta.description = buildBatchTaskActionDescription(input, appliedCharacterIds);
+    return draft;
+  });
+  return { state, appliedCharacterIds, failures };
+}
+
+export function upsertCustomTask(payload: UpsertCustomTaskInput): AppState {
+  return commitMutation(
+    { action: payload.id ? "编辑自定义任务" : "新增自定义任务", description: payload.title?.trim() || undefined },
+    (draft) => {
+      const next = upsertCustomTaskToState({
+        customTasks: draft.customTasks,
+        characters: draft.characters,
+        payload,
+        createId: () => randomUUID(),
+      });
+      draft.customTasks = next.customTasks;
+      draft.characters = next.characters;
+      return draft;
+    },
+  );
+}
+
+export function deleteCustomTask(taskId: string): AppState {
+  const task = getAppState().customTasks.find((item) => item.id === taskId);
+  return commitMutation({ action: "删除自定义任务", description: task?.title }, (draft) => {
+    const next = deleteCustomTaskFromState(draft.customTasks, draft.characters, taskId);
+    draft.customTasks = next.customTasks;
+    draft.characters = next.characters;
+    return draft;
+  });
+}
+
+export function upsertEvent(payload: UpsertEventInput): AppState {
+  return commitMutation(
+    { action: payload.id ? "编辑活动" : "新增活动", description: payload.title?.trim() || undefined },
+    (draft) => {
+      const next = upsertEventToState({
+        events: draft.events,
+        characters: draft.characters,
+        payload,
+        createId: () => randomUUID(),
+      });
+      draft.events = next.events;
+      draft.characters = next.characters;
+      return draft;
+    },
+  );
+}
+
+export function deleteEvent(eventId: string): AppState {
+  const event = getAppState().events.find((item) => item.id === eventId);
+  return commitMutation({ action: "删除活动", description: event?.title }, (draft) => {
+    const next = deleteEventFromState(draft.events, draft.characters, eventId);
+    draft.events = next.events;
+    draft.characters = next.characters;
+    return draft;
+  });
+}
+
+export function applyEventProgress(input: ApplyEventProgressInput): AppState {
+  const event = getAppState().events.find((item) => item.id === input.eventId);
+  return commitMutation(
+    {
+      action: "活动打卡",
+      characterId: input.characterId,
+      description: `${event?.title ?? input.eventId} · ${input.counterLabel} ${input.amount > 0 ? "-" : "+"}${Math.abs(input.amount)}`,
+    },
+    (draft) => {
+      draft.characters = applyEventProgressToState(draft.events, draft.characters, input, new Date());
+      return draft;
+    },
+  );
+}
+
 export function updateArtifactStatus(payload: UpdateArtifactStatusPayload): AppState {
   return commitMutation(
     {
@@ -484,6 +844,52 @@ export function updateAodePlan(
   );
 }
 
+export function transferTickets(input: TransferTicketsInput): AppState {
+  return commitMutation(
+    {
+      action: "调配微风商店券",
+      characterId: input.toCharacterId ?? input.fromCharacterId,
+      description: `${getTicketInventoryDefinition(input.kind).label} x${Math.max(0, Math.floor(input.count))}`,
+    },
+    (draft) => {
+      const next = applyTicketTransfer({
+        accounts: draft.accounts,
+        characters: draft.characters,
+        input,
+      });
+      draft.accounts = next.accounts;
+      draft.characters = next.characters;
+      return draft;
+    },
+  );
+}
+
+export function recordGoldIncome(payload: RecordGoldIncomeInput): AppState {
+  return commitMutation(
+    {
+      action: "记录实际金币",
+      characterId: payload.characterId,
+      description: `${Math.max(0, Math.floor(payload.amount))} 金币`,
+    },
+    (draft) => {
+      draft.characters = recordGoldIncomeToState({
+        characters: draft.characters,
+        payload,
+        createId: () => randomUUID(),
+        now: new Date(),
+      });
+      return draft;
+    },
+  );
+}
+
+export function deleteGoldLedgerEntry(characterId: string, entryId: string): AppState {
+  return commitMutation({ action: "删除金币记录", characterId }, (draft) => {
+    draft.characters = deleteGoldLedgerEntryFromState(draft.characters, characterId, entryId);
+    return draft;
+  });
+}
+
 export function resetWeeklyStats(): AppState {
   return commitMutation(
     { action: "重置周收益统计" },
@@ -499,38 +905,73 @@ export function updateSettings(payload: Partial<AppSettings>): AppState {
     { action: "更新设置" },
     (draft) => {
       draft.settings = mergeAppSettings(draft.settings, payload);
-      draft.characters = draft.characters.map((item) => applyConfiguredActivityCaps(item, draft.settings));
+      draft.characters = draft.characters.map((item) => applyConfiguredActivityCaps(item, draft.settings, draft.seasonRules));
       return draft;
     },
   );
 }
 
+function replaceSeasonRules(ruleSet: SeasonRuleSet, action: string, description?: string): AppState {
+  return commitMutation({ action, description }, (draft) => {
+    draft.seasonRules = structuredClone(ruleSet);
+    draft.characters = draft.characters.map((item) => applyConfiguredActivityCaps(item, draft.settings, draft.seasonRules));
+    return draft;
+  });
+}
+
+export function resetSeasonRules(): AppState {
+  return replaceSeasonRules(DEFAULT_SEASON_RULE_SET, "恢复默认赛季规则");
+}
+
+export function cancelScheduledSeasonRules(): AppState {
+  return commitMutation({ action: "取消赛季规则切换" }, (draft) => {
+    draft.scheduledSeasonRules = null;
+    return draft;
+  });
+}
+
 export function undoOperations(steps: number): AppState {
   const current = getAppState();
   if (current.history.length === 0) {
     return current;
   }
+  const next = undoHistoryEntries(
+    current,
+    clamp(Math.floor(steps), 1, OPERATION_HISTORY_LIMIT),
+    HISTORY_DELTA_MAX_SIZE_RATIO,
+    OPERATION_HISTORY_LIMIT,
+  );
+  const persisted = persistState(normalizeAppState(refreshAppStateCharacters(next, new Date())));
+  appendMovedHistoryJournal("撤销", next.redoHistory.slice(next.history.length - current.history.length), persisted, current);
+  return persisted;
+}
 
-  let remain = clamp(Math.floor(steps), 1, OPERATION_HISTORY_LIMIT);
-  let next = structuredClone(current);
-
-  while (remain > 0 && next.history.length > 0) {
-    const last = next.history[next.history.length - 1];
-    if (last.beforeDelta) {
-      next = restoreAppStateByDelta(next, last.beforeDelta);
-    } else if (last.before) {
-      next.selectedAccountId = last.before.selectedAccountId;
-      next.selectedCharacterId = last.before.selectedCharacterId;
-      next.settings = last.before.settings;
-      next.accounts = last.before.accounts;
-      next.characters = last.before.characters;
-    }
-    next.history = next.history.slice(0, -1);
-    remain -= 1;
+export function redoOperations(steps: number): AppState {
+  const current = getAppState();
+  if (current.redoHistory.length === 0) {
+    return current;
   }
+  const next = redoHistoryEntries(
+    current,
+    clamp(Math.floor(steps), 1, OPERATION_HISTORY_LIMIT),
+    HISTORY_DELTA_MAX_SIZE_RATIO,
+    OPERATION_HISTORY_LIMIT,
+  );
+  const persisted = persistState(normalizeAppState(refreshAppStateCharacters(next, new Date())));
+  appendMovedHistoryJournal("重做", next.history.slice(next.redoHistory.length - current.redoHistory.length), persisted, current);
+  return persisted;
+}
 
-  next.characters = refreshAllCharacters(next.characters, next.settings);
-  return persistState(normalizeAppState(next));
+export function revertOperation(entryId: string): AppState {
+  const current = getAppState();
+  const entry = current.history.find((item) => item.id === entryId);
+  if (!entry) {
+    throw new Error("操作记录不存在");
+  }
+  return commitMutation(
+    { action: "单独撤销", characterId: entry.characterId, characterIds: entry.characterIds, description: entry.action },
+    (draft) => revertHistoryEntryInState({ ...draft, history: current.history }, entryId),
+  );
 }
 
 export function clearHistory(): AppState {
@@ -538,29 +979,80 @@ export function clearHistory(): AppState {
   return persistState({
     ...current,
     history: [],
+    redoHistory: [],
+  });
+}
+
+export async function queryOperationJournal(query: OperationJournalQuery): Promise<OperationJournalQueryResult> {
+  return queryOperationJournalEntries(await readOperationJournal(), query);
+}
+
+export async function exportOperationJournalToFile(query: OperationJournalQuery): Promise<ExportDataResult> {
+  const entries = filterOperationJournal(await readOperationJournal(), query);
+  if (entries.length === 0) {
+    throw new Error("没有符合条件的操作记录");
+  }
+  const result = await dialog.showSaveDialog({
+    title: "导出操作日志",
+    defaultPath: buildDefaultJournalCsvPathByInfra(() => app.getPath("documents")),
+    filters: [{ name: "CSV Files", extensions: ["csv"] }],
   });
+  if (result.canceled || !result.filePath) {
+    return { cancelled: true, path: null };
+  }
+
+  await writeFile(result.filePath, formatOperationJournalCsv(entries), "utf-8");
+  return { cancelled: false, path: result.filePath };
 }
 
-export async function exportDataToFile(): Promise<ExportDataResult> {
+export async function exportDataToFile(passphrase?: string): Promise<ExportDataResult> {
   const state = getAppState();
+  const encrypted = passphrase !== undefined;
   const result = await dialog.showSaveDialog({
-    title: "导出备份数据",
-    defaultPath: buildDefaultExportPath(),
-    filters: [{ name: "JSON Files", extensions: ["json"] }],
+    title: encrypted ? "导出加密备份" : "导出备份数据",
+    defaultPath: buildDefaultExportPath(encrypted ? ENCRYPTED_BACKUP_FILE_EXTENSION : "json"),
+    filters: encrypted
+      ? [{ name: "加密备份", extensions: [ENCRYPTED_BACKUP_FILE_EXTENSION] }]
+      : [{ name: "JSON Files", extensions: ["json"] }],
   });
   if (result.canceled || !result.filePath) {
     return { cancelled: true, path: null };
   }
 
-  await writeFile(result.filePath, JSON.stringify(buildExportPayload(state), null, 2), "utf-8");
+  const payload = buildExportPayload(state, new Date(), getWorkshopBackupData());
+  const content = encrypted ? JSON.stringify(encryptBackupPayload(payload, passphrase)) : JSON.stringify(payload, null, 2);
+  await writeFile(result.filePath, content, "utf-8");
   return { cancelled: false, path: result.filePath };
 }
 
-export async function importDataFromFile(): Promise<ImportDataResult> {
+export async function exportWeeklyPlanToFile(): Promise<ExportDataResult> {
+  const state = getAppState();
+  const plan = buildWeeklyPlan(state.characters, state.settings, new Date(), {
+    ruleSet: state.seasonRules,
+    scheduledRuleSet: state.scheduledSeasonRules,
+    timeZone: state.settings.serverTimeZone,
+  });
+  const result = await dialog.showSaveDialog({
+    title: "导出本周副本清单",
+    defaultPath: buildDefaultWeeklyPlanPath(),
+    filters: [
+      { name: "Markdown Files", extensions: ["md"] },
+      { name: "Text Files", extensions: ["txt"] },
+    ],
+  });
+  if (result.canceled || !result.filePath) {
+    return { cancelled: true, path: null };
+  }
+
+  await writeFile(result.filePath, formatWeeklyPlanChecklist(plan), "utf-8");
+  return { cancelled: false, path: result.filePath };
+}
+
+export async function importDataFromFile(passphrase?: string): Promise<ImportDataResult> {
   const result = await dialog.showOpenDialog({
     title: "导入备份数据",
     properties: ["openFile"],
-    filters: [{ name: "JSON Files", extensions: ["json"] }],
+    filters: BACKUP_OPEN_FILTERS,
   });
   if (result.canceled || result.filePaths.length === 0) {
     return { cancelled: true, path: null, state: null };
@@ -568,7 +1060,7 @@ export async function importDataFromFile(): Promise<ImportDataResult> {
 
   const filePath = result.filePaths[0];
   const text = await readFile(filePath, "utf-8");
-  const parsed = parseImportPayload(text);
+  const parsed = resolveBackupPayload(parseImportPayload(text), passphrase);
   const next = buildImportedState({
     raw: parsed,
     currentState: getAppState(),
@@ -577,6 +1069,217 @@ export async function importDataFromFile(): Promise<ImportDataResult> {
     createEntryId: () => randomUUID(),
   });
 
+  const workshop = resolveImportedWorkshop(parsed);
+  if (workshop) {
+    restoreWorkshopBackupData(workshop);
+  }
   const persisted = persistState(next);
   return { cancelled: false, path: filePath, state: persisted };
 }
+
+export async function previewImportDataFromFile(): Promise<ImportPreviewResult> {
+  const result = await dialog.showOpenDialog({
+    title: "导入备份数据",
+    properties: ["openFile"],
+    filters: BACKUP_OPEN_FILTERS,
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return { cancelled: true, preview: null, passphraseRequest: null };
+  }
+
+  return preparePendingImport(result.filePaths[0]);
+}
+
+async function preparePendingImport(filePath: string, passphrase?: string): Promise<ImportPreviewResult> {
+  const raw = parseImportPayload(await readFile(filePath, "utf-8"));
+  if (isEncryptedBackupEnvelope(raw) && passphrase === undefined) {
+    pendingImport = null;
+    pendingEncryptedImport = { token: randomUUID(), path: filePath };
+    return { cancelled: false, preview: null, passphraseRequest: pendingEncryptedImport };
+  }
+
+  const { preview, imported, workshop } = buildImportPreview({
+    raw: resolveBackupPayload(raw, passphrase),
+    currentState: getAppState(),
+    sourcePath: filePath,
+    token: randomUUID(),
+  });
+  pendingEncryptedImport = null;
+  pendingImport = { token: preview.token, path: filePath, imported, workshop };
+  return { cancelled: false, preview, passphraseRequest: null };
+}
+
+export async function unlockImportData(input: UnlockImportInput): Promise<ImportPreviewResult> {
+  const pending = pendingEncryptedImport;
+  if (!pending || pending.token !== input.token) {
+    throw new Error("导入预览已失效，请重新选择文件");
+  }
+  return preparePendingImport(pending.path, input.passphrase);
+}
+
+export async function listRestorePoints(): Promise<RestorePoint[]> {
+  const backupDir = getAutoBackupDirectory(() => app.getPath("documents"), getActiveProfileAutoBackupFolderName());
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(backupDir);
+  } catch {
+    return [];
+  }
+
+  const currentState = getAppState();
+  const entries = fileNames
+    .flatMap((fileName) => {
+      const createdAt = parseAutoBackupFileName(fileName);
+      return createdAt ? [{ fileName, createdAt }] : [];
+    })
+    .sort((left, right) => right.createdAt.getTime() - left.createdAt.getTime());
+  const points: RestorePoint[] = [];
+  for (const entry of entries) {
+    const filePath = join(backupDir, entry.fileName);
+    const [info, text] = await Promise.all([stat(filePath), readFile(filePath, "utf-8")]);
+    points.push(
+      summarizeRestorePoint({ text, currentState, fileName: entry.fileName, createdAt: entry.createdAt, sizeBytes: info.size }),
+    );
+  }
+  return points;
+}
+
+export async function previewRestorePoint(fileName: string): Promise<ImportPreviewResult> {
+  if (!parseAutoBackupFileName(fileName)) {
+    throw new Error(`还原点文件名无效: ${fileName}`);
+  }
+  return preparePendingImport(join(getAutoBackupDirectory(() => app.getPath("documents"), getActiveProfileAutoBackupFolderName()), fileName));
+}
+
+export function applyImportSelection(input: ApplyImportSelectionInput): AppState {
+  const pending = pendingImport;
+  if (!pending || pending.token !== input.token) {
+    throw new Error("导入预览已失效，请重新选择文件");
+  }
+  const hasAppSelection = input.includeSettings || input.accounts.some((item) => item.mode !== "skip");
+  if (!hasAppSelection && !input.includeWorkshop) {
+    throw new Error("请至少选择一个要导入的账号、设置或工坊数据");
+  }
+  if (input.includeWorkshop && !pending.workshop) {
+    throw new Error("备份中不包含工坊数据");
+  }
+  const state = hasAppSelection
+    ? commitMutation({ action: "选择性导入数据", description: basename(pending.path) }, (draft) =>
+        mergeImportedState({
+          current: draft,
+          imported: pending.imported,
+          selections: input.accounts,
+          includeSettings: input.includeSettings,
+        }),
+      )
+    : getAppState();
+  if (input.includeWorkshop && pending.workshop) {
+    restoreWorkshopBackupData(pending.workshop);
+  }
+  pendingImport = null;
+  return state;
+}
+
+export async function importSeasonRulesFromFile(effectiveAt?: string): Promise<ImportDataResult> {
+  const result = await dialog.showOpenDialog({
+    title: "导入赛季规则",
+    properties: ["openFile"],
+    filters: [{ name: "JSON Files", extensions: ["json"] }],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return { cancelled: true, path: null, state: null };
+  }
+
+  const filePath = result.filePaths[0];
+  const text = await readFile(filePath, "utf-8");
+  const ruleSet = parseSeasonRuleSet(parseImportPayload(text));
+  if (!effectiveAt) {
+    const state = replaceSeasonRules(ruleSet, "导入赛季规则", ruleSet.name);
+    return { cancelled: false, path: filePath, state };
+  }
+  const state = commitMutation(
+    { action: "计划赛季规则切换", description: `${ruleSet.name} @ ${effectiveAt}` },
+    (draft) => scheduleSeasonRuleSwitch(draft, ruleSet, effectiveAt, new Date()),
+  );
+  return { cancelled: false, path: filePath, state };
+}
+
+function reopenActiveProfileStores(): void {
+  const directory = getActiveProfileDirectory();
+  store = openStateStore(directory);
+  metaStore = openMetaStore(directory);
+  pendingImport = null;
+  pendingEncryptedImport = null;
+  reopenWorkshopStoreForActiveProfile();
+  migrateAppStoreOnStartup();
+  migrateWorkshopStoreOnStartup();
+}
+
+export function listProfiles(): ProfileListResult {
+  return buildProfileListResult();
+}
+
+export function switchProfile(profileId: string): ProfileListResult {
+  const current = readProfileRegistry();
+  const registry = activateProfileInRegistry(current, profileId, new Date().toISOString());
+  writeProfileRegistry(registry);
+  markStartupProfileSelected();
+  if (current.activeProfileId !== profileId) {
+    reopenActiveProfileStores();
+  }
+  return buildProfileListResult(registry);
+}
+
+export function createProfile(name: string): ProfileListResult {
+  const registry = addProfileToRegistry(readProfileRegistry(), name, randomUUID(), new Date().toISOString());
+  writeProfileRegistry(registry);
+  return buildProfileListResult(registry);
+}
+
+export function renameProfile(profileId: string, name: string): ProfileListResult {
+  const registry = renameProfileInRegistry(readProfileRegistry(), profileId, name);
+  writeProfileRegistry(registry);
+  return buildProfileListResult(registry);
+}
+
+export function deleteProfile(profileId: string): ProfileListResult {
+  const registry = removeProfileFromRegistry(readProfileRegistry(), profileId);
+  writeProfileRegistry(registry);
+  rmSync(getProfileDirectory(profileId), { recursive: true, force: true });
+  return buildProfileListResult(registry);
+}
+
+export async function importProfileFromFile(input: ImportProfileInput): Promise<ImportProfileResult> {
+  const profileId = randomUUID();
+  const nowIso = new Date().toISOString();
+  const withProfile = addProfileToRegistry(readProfileRegistry(), input.name, profileId, nowIso);
+  const result = await dialog.showOpenDialog({
+    title: "从备份新建档案",
+    properties: ["openFile"],
+    filters: BACKUP_OPEN_FILTERS,
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return { cancelled: true, path: null, profiles: null };
+  }
+
+  const filePath = result.filePaths[0];
+  const parsed = resolveBackupPayload(parseImportPayload(await readFile(filePath, "utf-8")), input.passphrase);
+  const imported = buildImportedState({
+    raw: parsed,
+    currentState: normalizeAppState({}),
+    sourcePath: filePath,
+    historyLimit: OPERATION_HISTORY_LIMIT,
+    createEntryId: () => randomUUID(),
+  });
+  const workshop = resolveImportedWorkshop(parsed);
+
+  const registry = activateProfileInRegistry(withProfile, profileId, nowIso);
+  writeProfileRegistry(registry);
+  markStartupProfileSelected();
+  reopenActiveProfileStores();
+  if (workshop) {
+    restoreWorkshopBackupData(workshop);
+  }
+  persistState(imported);
+  return { cancelled: false, path: filePath, profiles: buildProfileListResult(registry) };
+}
@@ -3,10 +3,15 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { nativeImage } from "electron";
-import Store from "electron-store";
 import OcrNode from "@gutenye/ocr-node";
+import { getActiveProfileAutoBackupFolderName, getActiveProfileDirectory } from "./profile-registry";
+import { loadNewestAutoBackupBase, openStorageOrExit, reportStorageRecoveryWarning } from "./storage-recovery";
+import { resolveImportedWorkshop } from "./store-domain-transfer";
+import { migrateStoreOnStartup, runStateMigrations, type MigrationLogEntry } from "./store-infra-migration";
+import { createTransactionalStore } from "./store-infra-storage";
 import { resolveImportFilePath } from "./workshop-store/import-file-path";
 import { getBuiltinCatalogSignature, rebuildStateWithBuiltinCatalog } from "./workshop-store/catalog-bootstrap";
+import { WORKSHOP_BUILTIN_CATALOG_SIGNATURE_KEY, WORKSHOP_STATE_MIGRATIONS } from "./workshop-store/state-migrations";
 import { sanitizeOcrLineItemName } from "./workshop-store/ocr-name-matching";
 import {
   buildPaddleLanguageCandidates,
@@ -116,19 +121,29 @@ const OCR_ONNX_MODEL_FILES = {
   dictionaryPath: "ppocr_keys_v1.txt",
 } as const;
 
-export const workshopStore = new Store<Record<string, unknown>>({
-  name: "aion2-dashboard-workshop",
-  clearInvalidConfig: true,
-  defaults: {
-    version: WORKSHOP_STATE_VERSION,
-    items: [],
-    recipes: [],
-    prices: [],
-    inventory: [],
-    signalRule: DEFAULT_WORKSHOP_SIGNAL_RULE,
-    iconCache: {},
-  },
-});
+function openWorkshopStore(directory: string) {
+  return createTransactionalStore({
+    directory,
+    name: "aion2-dashboard-workshop",
+    defaults: {
+      version: WORKSHOP_STATE_VERSION,
+      items: [],
+      recipes: [],
+      prices: [],
+      inventory: [],
+      signalRule: DEFAULT_WORKSHOP_SIGNAL_RULE,
+      iconCache: {},
+    },
+    onRecoveryWarning: reportStorageRecoveryWarning,
+    loadRecoveryBase: () => loadNewestAutoBackupBase(getActiveProfileAutoBackupFolderName(), resolveImportedWorkshop),
+  });
+}
+
+export let workshopStore = openStorageOrExit(() => openWorkshopStore(getActiveProfileDirectory()));
+
+export function reopenWorkshopStoreForActiveProfile(): void {
+  workshopStore = openWorkshopStore(getActiveProfileDirectory());
+}
 
 export function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
@@ -265,7 +280,7 @@ function normalizeInventoryItem(raw: unknown): WorkshopInventoryItem | null {
   };
 }
 
-function normalizeWorkshopState(raw: unknown): WorkshopState {
+export function normalizeWorkshopState(raw: unknown): WorkshopState {
   const entity = raw as Record<string, unknown> | undefined;
   const version = typeof entity?.version === "number" ? Math.floor(entity.version) : 0;
   const signalRule = normalizeSignalRule(entity?.signalRule);
@@ -389,28 +404,41 @@ export function writeWorkshopState(next: WorkshopState): WorkshopState {
     return currentState;
   }
 
-  workshopStore.set("version", candidateState.version);
-  workshopStore.set("items", candidateState.items);
-  workshopStore.set("recipes", candidateState.recipes);
-  workshopStore.set("prices", candidateState.prices);
-  workshopStore.set("inventory", candidateState.inventory);
-  workshopStore.set("signalRule", candidateState.signalRule);
-  workshopStore.set(WORKSHOP_ICON_CACHE_KEY, candidateIconCache);
+  workshopStore.transaction({
+    version: candidateState.version,
+    items: candidateState.items,
+    recipes: candidateState.recipes,
+    prices: candidateState.prices,
+    inventory: candidateState.inventory,
+    signalRule: candidateState.signalRule,
+    [WORKSHOP_ICON_CACHE_KEY]: candidateIconCache,
+  });
   return normalizeWorkshopState(workshopStore.store);
 }
 
+export function migrateWorkshopStoreOnStartup(): MigrationLogEntry | null {
+  return migrateStoreOnStartup({
+    directory: getActiveProfileDirectory(),
+    storeName: "aion2-dashboard-workshop",
+    targetVersion: WORKSHOP_STATE_VERSION,
+    migrations: WORKSHOP_STATE_MIGRATIONS,
+    read: () => workshopStore.store,
+    write: (state) => {
+      workshopStore.store = state;
+    },
+  });
+}
+
 export function readWorkshopState(): WorkshopState {
-  const rawVersion = workshopStore.get("version");
-  const storedBuiltinCatalogSignature = workshopStore.get("builtinCatalogSignature");
-  const normalized = normalizeWorkshopState(workshopStore.store);
+  const raw = runStateMigrations(workshopStore.store, WORKSHOP_STATE_MIGRATIONS, WORKSHOP_STATE_VERSION).state;
+  const storedBuiltinCatalogSignature = raw[WORKSHOP_BUILTIN_CATALOG_SIGNATURE_KEY];
+  const normalized = normalizeWorkshopState(raw);
   const cleaned = removeKnownInvalidItems(normalized);
   const currentState = cleaned === normalized ? normalized : writeWorkshopState(cleaned);
-  const version = typeof rawVersion === "number" ? Math.floor(rawVersion) : 0;
   const currentBuiltinCatalogSignature = getBuiltinCatalogSignature();
   const shouldRebuildForCatalogChange =
     typeof storedBuiltinCatalogSignature !== "string" || storedBuiltinCatalogSignature !== currentBuiltinCatalogSignature;
   const shouldRebuildFromBuiltin =
-    version !== WORKSHOP_STATE_VERSION ||
     currentState.items.length === 0 ||
     currentState.recipes.length === 0 ||
     shouldRebuildForCatalogChange;
@@ -431,7 +459,7 @@ export function readWorkshopState(): WorkshopState {
     },
   });
   const persisted = writeWorkshopState(rebuilt);
-  workshopStore.set("builtinCatalogSignature", currentBuiltinCatalogSignature);
+  workshopStore.set(WORKSHOP_BUILTIN_CATALOG_SIGNATURE_KEY, currentBuiltinCatalogSignature);
   return persisted;
 }
 
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import workshopStateV5 from "../migration-fixtures/workshop-state-v5.json";
+import { assertMigrationChain, runStateMigrations } from "../store-infra-migration";
+import { WORKSHOP_BUILTIN_CATALOG_SIGNATURE_KEY, WORKSHOP_STATE_MIGRATIONS } from "./state-migrations";
+
+const WORKSHOP_TARGET_VERSION = WORKSHOP_STATE_MIGRATIONS.length;
+
+describe("workshop/state-migrations", () => {
+  it("covers every workshop version with one step", () => {
+    expect(() => assertMigrationChain(WORKSHOP_STATE_MIGRATIONS, WORKSHOP_TARGET_VERSION)).not.toThrow();
+  });
+
+  it("upgrades a v5 workshop save and forces a builtin catalog rebuild while keeping prices and inventory", () => {
+    const result = runStateMigrations(workshopStateV5, WORKSHOP_STATE_MIGRATIONS, WORKSHOP_TARGET_VERSION);
+    expect(result.applied).toHaveLength(1);
+    expect(result.state.version).toBe(WORKSHOP_TARGET_VERSION);
+    expect(result.state[WORKSHOP_BUILTIN_CATALOG_SIGNATURE_KEY]).toBeUndefined();
+    expect(result.state.prices).toEqual(workshopStateV5.prices);
+    expect(result.state.inventory).toEqual(workshopStateV5.inventory);
+  });
+});
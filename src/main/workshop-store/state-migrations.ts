@@ -0,0 +1,22 @@
+import type { StateMigration } from "../store-infra-migration";
+
+export const WORKSHOP_BUILTIN_CATALOG_SIGNATURE_KEY = "builtinCatalogSignature";
+
+function rebuildCatalogStep(fromVersion: number, description: string): StateMigration {
+  return {
+    fromVersion,
+    description: `${description}，下次读取时按内置目录重建物品与配方`,
+    migrate: (state) => {
+      delete state[WORKSHOP_BUILTIN_CATALOG_SIGNATURE_KEY];
+    },
+  };
+}
+
+export const WORKSHOP_STATE_MIGRATIONS: readonly StateMigration[] = [
+  rebuildCatalogStep(0, "未记录版本号的早期工坊存档"),
+  rebuildCatalogStep(1, "工坊目录改为内置目录启动重建，清理历史样例与手工录入配方"),
+  rebuildCatalogStep(2, "内置目录结构变更"),
+  rebuildCatalogStep(3, "内置目录结构变更"),
+  rebuildCatalogStep(4, "内置目录结构变更"),
+  rebuildCatalogStep(5, "内置目录结构变更"),
+];
@@ -1,24 +1,53 @@
 import { randomUUID } from "node:crypto";
 import type {
   UpsertWorkshopInventoryInput,
+  WorkshopBackupData,
   WorkshopState,
 } from "../../shared/types";
 import {
+  WORKSHOP_ICON_CACHE_KEY,
   WORKSHOP_PRICE_HISTORY_LIMIT,
   WORKSHOP_STATE_VERSION,
   ensureItemExists,
+  normalizeIconCache,
   normalizeRecipeInputs,
+  normalizeWorkshopState,
   readWorkshopState,
   toNonNegativeInt,
+  workshopStore,
   writeWorkshopState,
 } from "../workshop-store-core";
+import { serializeIconCache } from "./icon-cache";
 import { buildWorkshopInventoryAfterUpsert } from "./store-inventory-upsert";
 import { buildWorkshopSampleSeedState } from "./store-sample-seed";
 
+export { migrateWorkshopStoreOnStartup, reopenWorkshopStoreForActiveProfile } from "../workshop-store-core";
+
 export function getWorkshopState(): WorkshopState {
   return readWorkshopState();
 }
 
+export function getWorkshopBackupData(): WorkshopBackupData {
+  const state = readWorkshopState();
+  return {
+    ...state,
+    iconCache: serializeIconCache(normalizeIconCache(workshopStore.get(WORKSHOP_ICON_CACHE_KEY))),
+  };
+}
+
+export function restoreWorkshopBackupData(raw: unknown): WorkshopState {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("备份中的工坊数据无效。");
+  }
+  const iconCache = normalizeIconCache(workshopStore.get(WORKSHOP_ICON_CACHE_KEY));
+  normalizeIconCache((raw as Record<string, unknown>)[WORKSHOP_ICON_CACHE_KEY]).forEach((icon, key) => iconCache.set(key, icon));
+  workshopStore.set(WORKSHOP_ICON_CACHE_KEY, serializeIconCache(iconCache));
+  return writeWorkshopState({
+    ...normalizeWorkshopState(raw),
+    version: WORKSHOP_STATE_VERSION,
+  });
+}
+
 export function upsertWorkshopInventory(payload: UpsertWorkshopInventoryInput): WorkshopState {
   const state = readWorkshopState();
   ensureItemExists(state, payload.itemId);
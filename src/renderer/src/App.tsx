@@ -1,40 +1,78 @@
 import { useEffect, useMemo, useState } from "react";
-import { TASK_DEFINITIONS } from "../../shared/constants";
-import type { AppBuildInfo, AppState, TaskActionKind, TaskId } from "../../shared/types";
+import { resolveTaskDefinitions } from "../../shared/custom-tasks";
+import { formatTagsInput } from "../../shared/tags";
+import type {
+  AppBuildInfo,
+  AppState,
+  BatchTaskActionFailure,
+  OperationJournalQueryResult,
+  ProfileListResult,
+  RestorePoint,
+  TaskActionKind,
+  TaskId,
+} from "../../shared/types";
 import { useAppActions } from "./features/dashboard/actions/useAppActions";
 import { useDashboardHandlers } from "./features/dashboard/actions/useDashboardHandlers";
 import { useDashboardDerivedModels } from "./features/dashboard/hooks/useDashboardDerivedModels";
+import { useOverviewSavedViews } from "./features/dashboard/hooks/useOverviewSavedViews";
 import {
   COUNT_SELECT_MAX,
-  MAX_CHARACTERS_PER_ACCOUNT,
+  DEFAULT_GOLD_LEDGER_DRAFT,
+  DEFAULT_TICKET_TRANSFER_DRAFT,
   QUICK_CORRIDOR_TASKS,
   type AccountEditorDraft,
+  type AccountServerDraft,
   type CorridorDraft,
+  type CustomTaskDraft,
   type DashboardMode,
   type DialogState,
+  type EventDraft,
+  type BackupPassphrasePrompt,
+  type GoldLedgerDraft,
+  type ImportSelectionDraft,
+  type OperationJournalFilterDraft,
   type OverviewSortKey,
   type OverviewTaskFilter,
+  type ProfileDraft,
   type QuickTaskId,
   type SettingsDraft,
+  type TicketTransferDraft,
   type ViewMode,
 } from "./features/dashboard/dashboard-types";
 import {
+  buildAccountServerDraft,
   buildCorridorDraft,
   buildCountOptions,
+  buildCustomTaskDraft,
+  buildEventDraft,
+  buildOperationJournalFilterDraft,
+  buildProfileDraft,
   buildSettingsDraft,
   getQuickActionsForTask,
   toGoldText,
 } from "./features/dashboard/dashboard-utils";
+import { CustomTaskSettingsPanel } from "./features/dashboard/views/CustomTaskSettingsPanel";
 import { DashboardCharacterMainPanel } from "./features/dashboard/views/DashboardCharacterMainPanel";
 import { DashboardCharacterModePanels } from "./features/dashboard/views/DashboardCharacterModePanels";
 import { DashboardDialogModal } from "./features/dashboard/views/DashboardDialogModal";
 import { DashboardLeftSidebar } from "./features/dashboard/views/DashboardLeftSidebar";
 import { DashboardOverviewPanel } from "./features/dashboard/views/DashboardOverviewPanel";
+import { GoldLedgerPanel } from "./features/dashboard/views/GoldLedgerPanel";
+import { TicketInventoryPanel } from "./features/dashboard/views/TicketInventoryPanel";
+import { WeeklyPlanPanel } from "./features/dashboard/views/WeeklyPlanPanel";
+import { WeeklyTrendPanel } from "./features/dashboard/views/WeeklyTrendPanel";
 import { DashboardRightSidebar } from "./features/dashboard/views/DashboardRightSidebar";
 import { DashboardSettingsPanel } from "./features/dashboard/views/DashboardSettingsPanel";
+import { EventSettingsPanel } from "./features/dashboard/views/EventSettingsPanel";
+import { EventTrackerPanel } from "./features/dashboard/views/EventTrackerPanel";
+import { BackupPassphraseModal } from "./features/dashboard/views/BackupPassphraseModal";
+import { ImportWizardModal } from "./features/dashboard/views/ImportWizardModal";
+import { OperationJournalPanel } from "./features/dashboard/views/OperationJournalPanel";
+import { ProfilePanel } from "./features/dashboard/views/ProfilePanel";
+import { RestorePointPanel } from "./features/dashboard/views/RestorePointPanel";
 import { WorkshopView } from "./WorkshopView";
 
-type StartupPhase = "checking-update" | "installing-update" | "loading-state" | "ready";
+type StartupPhase = "checking-update" | "installing-update" | "choosing-profile" | "loading-state" | "ready";
 
 export function App(): JSX.Element {
   const appActions = useAppActions();
@@ -46,26 +84,42 @@ export function App(): JSX.Element {
   const [infoMessage, setInfoMessage] = useState<string | null>(null);
   const [newAccountName, setNewAccountName] = useState("");
   const [newAccountRegion, setNewAccountRegion] = useState("");
-  const [accountEditor, setAccountEditor] = useState<AccountEditorDraft>({ name: "", regionTag: "" });
+  const [accountEditor, setAccountEditor] = useState<AccountEditorDraft>({ name: "", regionTag: "", tagsText: "" });
+  const [serverDraft, setServerDraft] = useState<AccountServerDraft>(() => buildAccountServerDraft());
   const [newCharacterName, setNewCharacterName] = useState("");
+  const [newCharacterServerId, setNewCharacterServerId] = useState("");
   const [renameName, setRenameName] = useState("");
   const [dialog, setDialog] = useState<DialogState | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>("dashboard");
   const [dashboardMode, setDashboardMode] = useState<DashboardMode>("overview");
   const [undoSteps, setUndoSteps] = useState("2");
+  const [seasonRuleEffectiveAt, setSeasonRuleEffectiveAt] = useState("");
   const [settingsDraft, setSettingsDraft] = useState<SettingsDraft | null>(null);
   const [corridorDraft, setCorridorDraft] = useState<CorridorDraft>(buildCorridorDraft(0, 0));
+  const [customTaskDraft, setCustomTaskDraft] = useState<CustomTaskDraft>(() => buildCustomTaskDraft());
+  const [eventDraft, setEventDraft] = useState<EventDraft>(() => buildEventDraft());
+  const [importSelectionDraft, setImportSelectionDraft] = useState<ImportSelectionDraft | null>(null);
+  const [restorePoints, setRestorePoints] = useState<RestorePoint[] | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<BackupPassphrasePrompt | null>(null);
+  const [journalFilter, setJournalFilter] = useState<OperationJournalFilterDraft>(() => buildOperationJournalFilterDraft());
+  const [operationJournal, setOperationJournal] = useState<OperationJournalQueryResult | null>(null);
+  const [profileList, setProfileList] = useState<ProfileListResult | null>(null);
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft>(() => buildProfileDraft());
   const [nowMs, setNowMs] = useState(() => Date.now());
   const [overviewSortKey, setOverviewSortKey] = useState<OverviewSortKey>("manual");
   const [overviewTaskFilter, setOverviewTaskFilter] = useState<OverviewTaskFilter>("all");
   const [overviewAccountFilter, setOverviewAccountFilter] = useState<string>("all");
   const [overviewRegionFilter, setOverviewRegionFilter] = useState<string>("all");
+  const [overviewTagFilter, setOverviewTagFilter] = useState<string>("all");
   const [quickCharacterId, setQuickCharacterId] = useState("");
   const [quickTaskId, setQuickTaskId] = useState<QuickTaskId>("expedition");
   const [quickAction, setQuickAction] = useState<TaskActionKind>("complete_once");
   const [quickAmount, setQuickAmount] = useState("1");
+  const [batchCharacterIds, setBatchCharacterIds] = useState<string[]>([]);
+  const [batchFailures, setBatchFailures] = useState<BatchTaskActionFailure[]>([]);
   const [profileClassTagInput, setProfileClassTagInput] = useState("");
   const [profileGearScoreInput, setProfileGearScoreInput] = useState("");
+  const [profileTagsInput, setProfileTagsInput] = useState("");
   const [draggingCharacterId, setDraggingCharacterId] = useState<string | null>(null);
   const [dragOverCharacterId, setDragOverCharacterId] = useState<string | null>(null);
   const [weeklyExpeditionCompletedInput, setWeeklyExpeditionCompletedInput] = useState("0");
@@ -76,6 +130,8 @@ export function App(): JSX.Element {
   const [shopNightmareInstantUsedInput, setShopNightmareInstantUsedInput] = useState("0");
   const [shopAbyssReplenishUsedInput, setShopAbyssReplenishUsedInput] = useState("0");
   const [transformAodeUsedInput, setTransformAodeUsedInput] = useState("0");
+  const [ticketTransferDraft, setTicketTransferDraft] = useState<TicketTransferDraft>(DEFAULT_TICKET_TRANSFER_DRAFT);
+  const [goldLedgerDraft, setGoldLedgerDraft] = useState<GoldLedgerDraft>(DEFAULT_GOLD_LEDGER_DRAFT);
   const [workshopHistoryJumpItemId, setWorkshopHistoryJumpItemId] = useState<string | null>(null);
   const [workshopHistoryJumpSnapshotId, setWorkshopHistoryJumpSnapshotId] = useState<string | null>(null);
   const [workshopHistoryJumpNonce, setWorkshopHistoryJumpNonce] = useState(0);
@@ -110,6 +166,18 @@ export function App(): JSX.Element {
           setStartupDetail(`${startupUpdateResult.message} 已继续进入当前版本。`);
         }
 
+        const profiles = await appActions.listProfiles();
+        if (cancelled) {
+          return;
+        }
+        setProfileList(profiles);
+        if (profiles.startupSelectionPending) {
+          setStartupPhase("choosing-profile");
+          setStartupMessage("请选择要打开的档案");
+          setStartupDetail("每个档案的角色、工坊与设置数据相互独立，之后可在侧栏随时切换。");
+          return;
+        }
+
         setStartupPhase("loading-state");
         setStartupMessage("正在载入本地数据...");
         setStartupDetail("更新检查已完成，正在初始化角色数据与做装数据。");
@@ -135,6 +203,22 @@ export function App(): JSX.Element {
     };
   }, [appActions]);
 
+  async function onChooseStartupProfile(profileId: string): Promise<void> {
+    setStartupPhase("loading-state");
+    setStartupMessage("正在载入本地数据...");
+    setStartupDetail(null);
+    try {
+      setProfileList(await appActions.switchProfile(profileId));
+      setState(await appActions.getState());
+      setStartupPhase("ready");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "初始化失败";
+      setError(message);
+      setStartupMessage("启动失败");
+      setStartupDetail(message);
+    }
+  }
+
   useEffect(() => {
     const timer = window.setInterval(() => setNowMs(Date.now()), 1000);
     return () => window.clearInterval(timer);
@@ -147,12 +231,18 @@ export function App(): JSX.Element {
     selectedAodeLimits,
     selectedAccountExtraCharacterName,
     overviewRegionOptions,
+    overviewTagOptions,
     overviewRowsFiltered,
     groupedTasks,
     historyRows,
     characterNameById,
     accountNameById,
     countdownItems,
+    nextCorridorRefreshAt,
+    energyForecasts,
+    weeklyPlan,
+    weeklyTrend,
+    activeEvents,
     priorityTodoItems,
     isWeeklyCriticalWindow,
     selectedEstimatedGold,
@@ -165,6 +255,7 @@ export function App(): JSX.Element {
     expeditionOverRewardThreshold,
     transcendenceOverThreshold,
     selectedAccountCharacterCount,
+    selectedAccountCharacterSlots,
     selectedIsAodeExtra,
     selectedShopAodePurchaseRemaining,
     selectedShopDailyDungeonTicketPurchaseRemaining,
@@ -172,6 +263,11 @@ export function App(): JSX.Element {
     selectedShopNightmareInstantRemaining,
     selectedShopAbyssReplenishRemaining,
     selectedTransformAodeRemaining,
+    selectedAodePlan,
+    selectedTicketInventory,
+    selectedGoldLedgerWeeks,
+    goldRateSuggestions,
+    ticketInventoryGroups,
   } = useDashboardDerivedModels({
     state,
     nowMs,
@@ -179,23 +275,62 @@ export function App(): JSX.Element {
     overviewTaskFilter,
     overviewAccountFilter,
     overviewRegionFilter,
+    overviewTagFilter,
+  });
+
+  const {
+    savedViews: overviewSavedViews,
+    activeViewId: activeOverviewViewId,
+    viewNameInput: overviewViewNameInput,
+    setViewNameInput: setOverviewViewNameInput,
+    onSaveOverviewView,
+    onApplyOverviewView,
+    onDeleteOverviewView,
+  } = useOverviewSavedViews({
+    profileId: profileList?.activeProfileId ?? null,
+    filters: {
+      sortKey: overviewSortKey,
+      taskFilter: overviewTaskFilter,
+      accountFilter: overviewAccountFilter,
+      regionFilter: overviewRegionFilter,
+      tagFilter: overviewTagFilter,
+    },
+    onApply: (filters) => {
+      setOverviewSortKey(filters.sortKey);
+      setOverviewTaskFilter(filters.taskFilter);
+      setOverviewAccountFilter(filters.accountFilter);
+      setOverviewRegionFilter(filters.regionFilter);
+      setOverviewTagFilter(filters.tagFilter);
+    },
+    onError: setError,
+    onInfoMessage: setInfoMessage,
   });
 
   useEffect(() => {
     setRenameName(selected?.name ?? "");
   }, [selected?.id, selected?.name]);
 
+  const selectedTagsText = formatTagsInput(selected?.tags);
+  const selectedAccountTagsText = formatTagsInput(selectedAccount?.tags);
+
   useEffect(() => {
     setProfileClassTagInput(selected?.classTag ?? "");
     setProfileGearScoreInput(selected?.gearScore === undefined ? "" : String(selected.gearScore));
-  }, [selected?.id, selected?.classTag, selected?.gearScore]);
+    setProfileTagsInput(selectedTagsText);
+  }, [selected?.id, selected?.classTag, selected?.gearScore, selectedTagsText]);
 
   useEffect(() => {
     setAccountEditor({
       name: selectedAccount?.name ?? "",
       regionTag: selectedAccount?.regionTag ?? "",
+      tagsText: selectedAccountTagsText,
     });
-  }, [selectedAccount?.id, selectedAccount?.name, selectedAccount?.regionTag]);
+  }, [selectedAccount?.id, selectedAccount?.name, selectedAccount?.regionTag, selectedAccountTagsText]);
+
+  useEffect(() => {
+    setServerDraft(buildAccountServerDraft());
+    setNewCharacterServerId("");
+  }, [selectedAccount?.id]);
 
   useEffect(() => {
     if (!state) return;
@@ -215,15 +350,19 @@ export function App(): JSX.Element {
     if (!selected) return;
     setCorridorDraft((prev) => ({
       ...prev,
-      ...buildCorridorDraft(selected.activities.corridorLowerCap, selected.activities.corridorMiddleCap),
+      ...buildCorridorDraft(selected.activities.corridorLowerAvailable, selected.activities.corridorMiddleAvailable),
       completeAmount: prev.completeAmount,
     }));
   }, [
     selected?.id,
-    selected?.activities.corridorLowerCap,
-    selected?.activities.corridorMiddleCap,
+    selected?.activities.corridorLowerAvailable,
+    selected?.activities.corridorMiddleAvailable,
   ]);
 
+  useEffect(() => {
+    setTicketTransferDraft((prev) => ({ ...prev, sourceCharacterId: "" }));
+  }, [selected?.id]);
+
   useEffect(() => {
     if (!selected) return;
     setWeeklyExpeditionCompletedInput(String(selected.stats.completions.expedition));
@@ -249,8 +388,8 @@ export function App(): JSX.Element {
   ]);
 
   const taskById = useMemo(() => {
-    return new Map(TASK_DEFINITIONS.map((task) => [task.id, task]));
-  }, []);
+    return new Map(resolveTaskDefinitions(state?.customTasks).map((task) => [task.id, task]));
+  }, [state?.customTasks]);
 
   const quickTask = taskById.get(quickTaskId as TaskId) ?? null;
   const quickCorridorTask = quickTaskId === "corridor_lower" || quickTaskId === "corridor_middle" ? QUICK_CORRIDOR_TASKS[quickTaskId] : null;
@@ -311,7 +450,7 @@ export function App(): JSX.Element {
       ? "grid min-h-[calc(100vh-3rem)] w-full grid-cols-1 gap-5 xl:grid-cols-[88px_minmax(0,1fr)] 2xl:grid-cols-[88px_minmax(0,1fr)] 2xl:gap-6"
       : "grid min-h-[calc(100vh-3rem)] w-full grid-cols-1 gap-5 xl:grid-cols-[300px_minmax(0,1fr)] 2xl:grid-cols-[340px_minmax(0,1fr)] 2xl:gap-6";
 
-  const canAddCharacterInSelectedAccount = selectedAccountCharacterCount < MAX_CHARACTERS_PER_ACCOUNT;
+  const canAddCharacterInSelectedAccount = selectedAccountCharacterCount < selectedAccountCharacterSlots;
   const {
     openCompleteDialog,
     openUseTicketDialog,
@@ -328,19 +467,46 @@ export function App(): JSX.Element {
     onOverviewCardDragEnd,
     onSwitchToOverview,
     onApplyQuickAction,
+    onToggleBatchCharacter,
+    onApplyBatchPreset,
+    onApplyBatchQuickAction,
+    onApplyEventProgress,
     onCheckAppUpdate,
     onResetWeeklyStats,
     onSaveWeeklyCompletions,
     onUndoSingleStep,
     onUndoMultiStep,
+    onRedoSingleStep,
+    onRevertHistoryEntry,
     onClearHistory,
     onSaveSettings,
     onExportData,
+    onExportWeeklyPlan,
     onImportData,
+    onConfirmImportSelection,
+    onCancelImportSelection,
+    onExportEncryptedData,
+    onConfirmPassphrase,
+    onCancelPassphrase,
+    onRefreshRestorePoints,
+    onSearchOperationJournal,
+    onExportOperationJournal,
+    onPreviewRestorePoint,
+    onImportSeasonRules,
+    onResetSeasonRules,
+    onScheduleSeasonRules,
+    onCancelScheduledSeasonRules,
+    onSaveCustomTask,
+    onDeleteCustomTask,
+    onSaveEvent,
+    onDeleteEvent,
     onAddAccount,
     onSelectAccount,
     onRenameAccount,
     onDeleteAccount,
+    onSaveAccountServer,
+    onDeleteAccountServer,
+    onMoveCharacterServer,
     onAddCharacter,
     onRenameCharacter,
     onSaveCharacterProfile,
@@ -351,11 +517,30 @@ export function App(): JSX.Element {
     onApplyCorridorCompletionFromSettings,
     onSaveShopPlan,
     onSaveTransformPlan,
+    onAssignTickets,
+    onReturnTickets,
+    onRecordGoldIncome,
+    onDeleteGoldLedgerEntry,
+    onApplyGoldRateSuggestion,
+    onRefreshProfiles,
+    onSwitchProfile,
+    onCreateProfile,
+    onRenameProfile,
+    onDeleteProfile,
+    onImportProfile,
   } = useDashboardHandlers({
     appActions,
     state,
     dialog,
     settingsDraft,
+    seasonRuleEffectiveAtInput: seasonRuleEffectiveAt,
+    customTaskDraft,
+    eventDraft,
+    importSelectionDraft,
+    passphrasePrompt,
+    journalFilter,
+    profileList,
+    profileDraft,
     selectedCharacter: selected,
     selectedAccount,
     taskById,
@@ -369,6 +554,7 @@ export function App(): JSX.Element {
     quickAction,
     quickAmountInput: quickAmount,
     quickCorridorTask,
+    batchCharacterIds,
     characterNameById,
     weeklyExpeditionCompletedInput,
     weeklyTranscendenceCompletedInput,
@@ -377,17 +563,23 @@ export function App(): JSX.Element {
     newAccountRegion,
     accountNameInput: accountEditor.name,
     accountRegionInput: accountEditor.regionTag,
+    accountTagsInput: accountEditor.tagsText,
+    serverDraft,
     canAddCharacterInSelectedAccount,
     newCharacterName,
+    newCharacterServerId,
     renameInput: renameName,
     profileClassTagInput,
     profileGearScoreInput,
+    profileTagsInput,
     shopAodePurchaseUsedInput,
     shopUnknownChallengeTicketUsedInput,
     shopExpeditionChoiceBoxUsedInput,
     shopNightmareInstantUsedInput,
     shopAbyssReplenishUsedInput,
     transformAodeUsedInput,
+    ticketTransferDraft,
+    goldLedgerDraft,
     setBusy,
     setError,
     setDialogError,
@@ -395,15 +587,34 @@ export function App(): JSX.Element {
     setState,
     setDialog,
     setCorridorDraft,
+    setCustomTaskDraft,
+    setEventDraft,
+    setImportSelectionDraft,
+    setRestorePoints,
+    setPassphrasePrompt,
+    setOperationJournal,
+    setProfileList,
+    setProfileDraft,
     setDashboardMode,
     setDraggingCharacterId,
     setDragOverCharacterId,
     setNewAccountName,
     setNewAccountRegion,
     setNewCharacterName,
+    setServerDraft,
+    setGoldLedgerDraft,
+    setBatchCharacterIds,
+    setBatchFailures,
     confirm: window.confirm,
   });
 
+  useEffect(() => {
+    if (viewMode !== "settings") return;
+    void onRefreshRestorePoints();
+    void onSearchOperationJournal();
+    void onRefreshProfiles();
+  }, [viewMode, profileList?.activeProfileId]);
+
   if (startupPhase !== "ready") {
     return (
       <main className="launch-shell text-slate-900">
@@ -414,10 +625,23 @@ export function App(): JSX.Element {
           </div>
           <p className="panel-kicker mt-5">AION2 Dashboard</p>
           <h1 className="mt-2 text-[1.5rem] font-semibold tracking-[-0.02em] text-slate-900">
-            {startupPhase === "installing-update" ? "正在安装更新" : "正在准备工作台"}
+            {startupPhase === "installing-update" ? "正在安装更新" : startupPhase === "choosing-profile" ? "选择档案" : "正在准备工作台"}
           </h1>
           <p className="mt-3 text-sm text-slate-700">{startupMessage}</p>
           {startupDetail ? <p className="mt-2 text-xs text-slate-500">{startupDetail}</p> : null}
+          {startupPhase === "choosing-profile" && profileList ? (
+            <div className="mt-4 space-y-2">
+              {profileList.profiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  className={`task-btn w-full ${profile.id === profileList.activeProfileId ? "" : "task-btn-soft"}`}
+                  onClick={() => void onChooseStartupProfile(profile.id)}
+                >
+                  {profile.name}
+                </button>
+              ))}
+            </div>
+          ) : null}
           {buildInfo?.version ? <p className="mt-5 text-[11px] text-slate-400">当前版本 v{buildInfo.version}</p> : null}
           {error ? (
             <>
@@ -472,6 +696,20 @@ export function App(): JSX.Element {
               创建第一个账号
             </button>
           </div>
+          {profileList && profileList.profiles.length > 1 ? (
+            <select
+              className="field-control mt-4"
+              value={profileList.activeProfileId}
+              onChange={(event) => onSwitchProfile(event.target.value)}
+              disabled={busy}
+            >
+              {profileList.profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  档案: {profile.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
           {infoMessage ? <p className="banner-positive mt-3 rounded-xl px-3 py-2 text-xs">{infoMessage}</p> : null}
           {error ? <p className="banner-danger mt-2 rounded-xl px-3 py-2 text-xs">{error}</p> : null}
         </div>
@@ -499,10 +737,16 @@ export function App(): JSX.Element {
           onRenameAccount={onRenameAccount}
           onDeleteAccount={onDeleteAccount}
           onSelectAccount={onSelectAccount}
-          maxCharactersPerAccount={MAX_CHARACTERS_PER_ACCOUNT}
           selectedAccountCharacterCount={selectedAccountCharacterCount}
+          selectedAccountCharacterSlots={selectedAccountCharacterSlots}
+          serverDraft={serverDraft}
+          onServerDraftChange={setServerDraft}
+          onSaveAccountServer={onSaveAccountServer}
+          onDeleteAccountServer={onDeleteAccountServer}
           newCharacterName={newCharacterName}
           onNewCharacterNameChange={setNewCharacterName}
+          newCharacterServerId={newCharacterServerId}
+          onNewCharacterServerIdChange={setNewCharacterServerId}
           onAddCharacter={onAddCharacter}
           canAddCharacterInSelectedAccount={canAddCharacterInSelectedAccount}
           accountCharacters={accountCharacters}
@@ -511,6 +755,8 @@ export function App(): JSX.Element {
           viewMode={viewMode}
           dashboardMode={dashboardMode}
           buildVersion={buildInfo?.version ?? null}
+          profileList={profileList}
+          onSwitchProfile={onSwitchProfile}
           infoMessage={infoMessage}
           error={error}
           onCheckAppUpdate={onCheckAppUpdate}
@@ -543,6 +789,13 @@ export function App(): JSX.Element {
             quickActionOptions={quickActionOptions}
             quickAmountOptions={quickAmountOptions}
             onApplyQuickAction={onApplyQuickAction}
+            batchCharacterIds={batchCharacterIds}
+            batchFailures={batchFailures}
+            onToggleBatchCharacter={onToggleBatchCharacter}
+            onBatchCharacterIdsChange={setBatchCharacterIds}
+            onApplyBatchPreset={onApplyBatchPreset}
+            onApplyBatchQuickAction={onApplyBatchQuickAction}
+            onDismissBatchFailures={() => setBatchFailures([])}
             quickTaskExists={Boolean(quickTask)}
             quickTaskSetCompletedTotal={quickTask?.setCompletedTotal ?? null}
             quickCorridorTask={quickCorridorTask}
@@ -562,6 +815,16 @@ export function App(): JSX.Element {
             overviewRegionFilter={overviewRegionFilter}
             onOverviewRegionFilterChange={setOverviewRegionFilter}
             overviewRegionOptions={overviewRegionOptions}
+            overviewTagFilter={overviewTagFilter}
+            onOverviewTagFilterChange={setOverviewTagFilter}
+            overviewTagOptions={overviewTagOptions}
+            savedViews={overviewSavedViews}
+            activeSavedViewId={activeOverviewViewId}
+            savedViewNameInput={overviewViewNameInput}
+            onSavedViewNameInputChange={setOverviewViewNameInput}
+            onApplySavedView={onApplyOverviewView}
+            onSaveView={onSaveOverviewView}
+            onDeleteSavedView={onDeleteOverviewView}
             overviewRowsFiltered={overviewRowsFiltered}
             draggingCharacterId={draggingCharacterId}
             dragOverCharacterId={dragOverCharacterId}
@@ -570,6 +833,7 @@ export function App(): JSX.Element {
             onOverviewCardDrop={onOverviewCardDrop}
             onOverviewCardDragEnd={onOverviewCardDragEnd}
             isWeeklyCriticalWindow={isWeeklyCriticalWindow}
+            nextCorridorRefreshAt={nextCorridorRefreshAt}
             onSelectCharacter={onSelectCharacter}
           />
 
@@ -579,6 +843,8 @@ export function App(): JSX.Element {
             selected={selected}
             accountName={selectedAccount?.name ?? "--"}
             accountRegionTag={selectedAccount?.regionTag ?? null}
+            accountServers={selectedAccount?.servers ?? []}
+            onMoveCharacterServer={onMoveCharacterServer}
             estimatedGoldText={toGoldText(selectedEstimatedGold)}
             classTag={selected.classTag?.trim() || "未填写"}
             gearScore={selected.gearScore}
@@ -599,6 +865,7 @@ export function App(): JSX.Element {
             renameName={renameName}
             profileClassTagInput={profileClassTagInput}
             profileGearScoreInput={profileGearScoreInput}
+            profileTagsInput={profileTagsInput}
             canDeleteCharacter={selectedAccountCharacterCount > 1}
             selectedAodeLimits={selectedAodeLimits}
             selectedIsAodeExtra={selectedIsAodeExtra}
@@ -609,6 +876,9 @@ export function App(): JSX.Element {
             selectedShopNightmareInstantRemaining={selectedShopNightmareInstantRemaining}
             selectedShopAbyssReplenishRemaining={selectedShopAbyssReplenishRemaining}
             selectedTransformAodeRemaining={selectedTransformAodeRemaining}
+            selectedAodePlan={selectedAodePlan}
+            selectedTicketInventory={selectedTicketInventory}
+            ticketTransferDraft={ticketTransferDraft}
             shopAodePurchaseUsedInput={shopAodePurchaseUsedInput}
             shopUnknownChallengeTicketUsedInput={shopUnknownChallengeTicketUsedInput}
             shopExpeditionChoiceBoxUsedInput={shopExpeditionChoiceBoxUsedInput}
@@ -619,6 +889,7 @@ export function App(): JSX.Element {
             onRenameNameChange={setRenameName}
             onProfileClassTagInputChange={setProfileClassTagInput}
             onProfileGearScoreInputChange={setProfileGearScoreInput}
+            onProfileTagsInputChange={setProfileTagsInput}
             onSaveCharacterProfile={onSaveCharacterProfile}
             onRenameCharacter={onRenameCharacter}
             onDeleteCharacter={onDeleteCharacter}
@@ -637,6 +908,9 @@ export function App(): JSX.Element {
             onTransformAodeUsedInputChange={setTransformAodeUsedInput}
             onSaveShopPlan={onSaveShopPlan}
             onSaveTransformPlan={onSaveTransformPlan}
+            onTicketTransferDraftChange={setTicketTransferDraft}
+            onAssignTickets={onAssignTickets}
+            onReturnTickets={onReturnTickets}
           />
 
           <DashboardCharacterModePanels
@@ -666,8 +940,43 @@ export function App(): JSX.Element {
             onOpenSanctumEditDialog={openSanctumEditDialog}
           />
 
+          <GoldLedgerPanel
+            visible={viewMode === "dashboard" && dashboardMode === "character"}
+            busy={busy}
+            entries={selected.goldLedger}
+            weeks={selectedGoldLedgerWeeks}
+            suggestions={goldRateSuggestions}
+            draft={goldLedgerDraft}
+            onDraftChange={setGoldLedgerDraft}
+            onRecord={onRecordGoldIncome}
+            onDeleteEntry={onDeleteGoldLedgerEntry}
+            onApplySuggestion={onApplyGoldRateSuggestion}
+          />
+
+          <EventTrackerPanel
+            visible={viewMode === "dashboard" && dashboardMode === "overview"}
+            busy={busy}
+            events={activeEvents}
+            onSpend={(characterId, eventId, counterLabel) => onApplyEventProgress(characterId, eventId, counterLabel, 1)}
+          />
+
+          <WeeklyPlanPanel
+            visible={viewMode === "dashboard" && dashboardMode === "overview"}
+            busy={busy}
+            plan={weeklyPlan}
+            onExportWeeklyPlan={onExportWeeklyPlan}
+          />
+
+          <TicketInventoryPanel
+            visible={viewMode === "dashboard" && dashboardMode === "overview"}
+            groups={ticketInventoryGroups}
+          />
+
+          <WeeklyTrendPanel visible={viewMode === "dashboard" && dashboardMode === "overview"} trend={weeklyTrend} />
+
           {viewMode === "workshop" ? (
             <WorkshopView
+              key={profileList?.activeProfileId}
               externalPriceChangeNonce={workshopPriceChangeNonce}
               historyFocusItemId={workshopHistoryJumpItemId}
               historyFocusSnapshotId={workshopHistoryJumpSnapshotId}
@@ -688,33 +997,104 @@ export function App(): JSX.Element {
             settingsDraft={settingsDraft}
             corridorDraft={corridorDraft}
             buildInfo={buildInfo}
+            seasonRules={state?.seasonRules ?? null}
+            scheduledSeasonRules={state?.scheduledSeasonRules ?? null}
+            seasonRuleEffectiveAt={seasonRuleEffectiveAt}
+            onSeasonRuleEffectiveAtChange={setSeasonRuleEffectiveAt}
             onSettingsDraftChange={setSettingsDraft}
             onCorridorDraftChange={setCorridorDraft}
             onSaveSettings={onSaveSettings}
             onExportData={onExportData}
+            onExportEncryptedData={onExportEncryptedData}
             onImportData={onImportData}
+            onImportSeasonRules={onImportSeasonRules}
+            onResetSeasonRules={onResetSeasonRules}
+            onScheduleSeasonRules={onScheduleSeasonRules}
+            onCancelScheduledSeasonRules={onCancelScheduledSeasonRules}
             onApplyCorridorSettings={onApplyCorridorSettings}
             onApplyCorridorCompletionFromSettings={onApplyCorridorCompletionFromSettings}
           />
 
+          <ProfilePanel
+            visible={viewMode === "settings"}
+            busy={busy}
+            profileList={profileList}
+            draft={profileDraft}
+            onDraftChange={setProfileDraft}
+            onSwitch={onSwitchProfile}
+            onCreate={onCreateProfile}
+            onRename={onRenameProfile}
+            onDelete={onDeleteProfile}
+            onImport={onImportProfile}
+            onExportCurrent={onExportData}
+          />
+
+          <RestorePointPanel
+            visible={viewMode === "settings"}
+            busy={busy}
+            settingsDraft={settingsDraft}
+            restorePoints={restorePoints}
+            onSettingsDraftChange={setSettingsDraft}
+            onRefresh={onRefreshRestorePoints}
+            onRestore={onPreviewRestorePoint}
+          />
+
+          <OperationJournalPanel
+            visible={viewMode === "settings"}
+            busy={busy}
+            characters={state.characters}
+            filter={journalFilter}
+            result={operationJournal}
+            onFilterChange={setJournalFilter}
+            onSearch={onSearchOperationJournal}
+            onExport={onExportOperationJournal}
+          />
+
+          <CustomTaskSettingsPanel
+            visible={viewMode === "settings"}
+            busy={busy}
+            customTasks={state.customTasks}
+            draft={customTaskDraft}
+            onDraftChange={setCustomTaskDraft}
+            onSave={onSaveCustomTask}
+            onEdit={(task) => setCustomTaskDraft(buildCustomTaskDraft(task))}
+            onCancelEdit={() => setCustomTaskDraft(buildCustomTaskDraft())}
+            onDelete={onDeleteCustomTask}
+          />
+
+          <EventSettingsPanel
+            visible={viewMode === "settings"}
+            busy={busy}
+            events={state.events}
+            draft={eventDraft}
+            onDraftChange={setEventDraft}
+            onSave={onSaveEvent}
+            onEdit={(event) => setEventDraft(buildEventDraft(event))}
+            onCancelEdit={() => setEventDraft(buildEventDraft())}
+            onDelete={onDeleteEvent}
+          />
+
         </section>
 
         {showRightSidebar ? (
           <DashboardRightSidebar
             busy={busy}
             historyCount={state.history.length}
+            redoCount={state.redoHistory.length}
             undoSteps={undoSteps}
             onUndoStepsChange={setUndoSteps}
             onUndoSingleStep={onUndoSingleStep}
             onUndoMultiStep={onUndoMultiStep}
+            onRedoSingleStep={onRedoSingleStep}
+            onRevertHistoryEntry={onRevertHistoryEntry}
             onClearHistory={onClearHistory}
             viewMode={viewMode}
             dashboardMode={dashboardMode}
             countdownItems={countdownItems}
             nowMs={nowMs}
+            energyForecasts={energyForecasts}
             priorityTodoItems={priorityTodoItems}
             historyRows={historyRows}
-            characterNameById={characterNameById}
             pendingLabels={selectedPendingLabels}
           />
         ) : null}
@@ -733,6 +1113,24 @@ export function App(): JSX.Element {
         }}
         onConfirm={onConfirmDialog}
       />
+
+      <ImportWizardModal
+        draft={importSelectionDraft}
+        busy={busy}
+        error={error}
+        onDraftChange={setImportSelectionDraft}
+        onCancel={onCancelImportSelection}
+        onConfirm={onConfirmImportSelection}
+      />
+
+      <BackupPassphraseModal
+        prompt={passphrasePrompt}
+        busy={busy}
+        error={error}
+        onPromptChange={setPassphrasePrompt}
+        onCancel={onCancelPassphrase}
+        onConfirm={onConfirmPassphrase}
+      />
     </main>
   );
 }
@@ -1,20 +1,29 @@
+import type { GoldRateSuggestion } from "../../../../../shared/gold-ledger";
 import type { AccountState, AppState, CharacterState } from "../../../../../shared/types";
-import type { CorridorDraft } from "../dashboard-types";
+import type { AccountServerDraft, CorridorDraft, GoldLedgerDraft, TicketTransferDraft } from "../dashboard-types";
+import { buildAccountServerDraft } from "../dashboard-utils";
 import {
   addAccountAction,
   addCharacterAction,
+  applyGoldRateSuggestionAction,
   applyCorridorCompletionFromSettingsAction,
   applyCorridorSettingsAction,
   deleteAccountAction,
+  deleteAccountServerAction,
   deleteCharacterAction,
+  deleteGoldLedgerEntryAction,
+  moveCharacterServerAction,
+  recordGoldIncomeAction,
   renameAccountAction,
   renameCharacterAction,
+  saveAccountServerAction,
   saveCharacterProfileAction,
   saveShopPlanAction,
   saveTransformPlanAction,
   selectAccountAction,
   selectCharacterAction,
   toggleCharacterStarAction,
+  transferTicketsAction,
 } from "./dashboardAccountResourceActions";
 
 type AppActions = NonNullable<Window["aionApi"]>;
@@ -29,19 +38,26 @@ interface CreateDashboardAccountResourceHandlersParams {
   selectedAccount: AccountState | null;
   accountNameInput: string;
   accountRegionInput: string;
+  accountTagsInput: string;
+  serverDraft: AccountServerDraft;
   canAddCharacterInSelectedAccount: boolean;
   newCharacterName: string;
+  newCharacterServerId: string;
   selectedCharacter: CharacterState | null;
   renameInput: string;
   profileClassTagInput: string;
   profileGearScoreInput: string;
+  profileTagsInput: string;
   corridorDraft: CorridorDraft;
+  serverTimeZone: string | null;
   shopAodePurchaseUsedInput: string;
   shopUnknownChallengeTicketUsedInput: string;
   shopExpeditionChoiceBoxUsedInput: string;
   shopNightmareInstantUsedInput: string;
   shopAbyssReplenishUsedInput: string;
   transformAodeUsedInput: string;
+  ticketTransferDraft: TicketTransferDraft;
+  goldLedgerDraft: GoldLedgerDraft;
   appActions: AppActions;
   sync: SyncRunner;
   setDashboardMode: SetDashboardMode;
@@ -49,6 +65,8 @@ interface CreateDashboardAccountResourceHandlersParams {
   setNewAccountName: SetValue;
   setNewAccountRegion: SetValue;
   setNewCharacterName: SetValue;
+  setServerDraft: (draft: AccountServerDraft) => void;
+  setGoldLedgerDraft: (draft: GoldLedgerDraft) => void;
   confirm: (message: string) => boolean;
 }
 
@@ -57,6 +75,9 @@ interface AccountResourceHandlers {
   onSelectAccount: (accountId: string) => void;
   onRenameAccount: () => void;
   onDeleteAccount: () => void;
+  onSaveAccountServer: () => void;
+  onDeleteAccountServer: () => void;
+  onMoveCharacterServer: (serverId: string) => void;
   onAddCharacter: () => void;
   onRenameCharacter: () => void;
   onSaveCharacterProfile: () => void;
@@ -67,6 +88,11 @@ interface AccountResourceHandlers {
   onApplyCorridorCompletionFromSettings: () => void;
   onSaveShopPlan: () => void;
   onSaveTransformPlan: () => void;
+  onAssignTickets: () => void;
+  onReturnTickets: () => void;
+  onRecordGoldIncome: () => void;
+  onDeleteGoldLedgerEntry: (entryId: string) => void;
+  onApplyGoldRateSuggestion: (suggestion: GoldRateSuggestion) => void;
 }
 
 export function createDashboardAccountResourceHandlers(
@@ -78,19 +104,26 @@ export function createDashboardAccountResourceHandlers(
     selectedAccount,
     accountNameInput,
     accountRegionInput,
+    accountTagsInput,
+    serverDraft,
     canAddCharacterInSelectedAccount,
     newCharacterName,
+    newCharacterServerId,
     selectedCharacter,
     renameInput,
     profileClassTagInput,
     profileGearScoreInput,
+    profileTagsInput,
     corridorDraft,
+    serverTimeZone,
     shopAodePurchaseUsedInput,
     shopUnknownChallengeTicketUsedInput,
     shopExpeditionChoiceBoxUsedInput,
     shopNightmareInstantUsedInput,
     shopAbyssReplenishUsedInput,
     transformAodeUsedInput,
+    ticketTransferDraft,
+    goldLedgerDraft,
     appActions,
     sync,
     setDashboardMode,
@@ -98,6 +131,8 @@ export function createDashboardAccountResourceHandlers(
     setNewAccountName,
     setNewAccountRegion,
     setNewCharacterName,
+    setServerDraft,
+    setGoldLedgerDraft,
     confirm,
   } = params;
 
@@ -119,18 +154,49 @@ export function createDashboardAccountResourceHandlers(
   }
 
   function onRenameAccount(): void {
-    renameAccountAction({ selectedAccount, accountNameInput, accountRegionInput, appActions, sync });
+    renameAccountAction({ selectedAccount, accountNameInput, accountRegionInput, accountTagsInput, appActions, sync });
   }
 
   function onDeleteAccount(): void {
     deleteAccountAction({ selectedAccount, appActions, sync, confirm });
   }
 
+  function onSaveAccountServer(): void {
+    void saveAccountServerAction({
+      selectedAccount,
+      serverDraft,
+      appActions,
+      sync,
+      onError: (message) => setError(message),
+      onSaved: () => {
+        if (!serverDraft.serverId) {
+          setServerDraft(buildAccountServerDraft());
+        }
+      },
+    });
+  }
+
+  function onDeleteAccountServer(): void {
+    void deleteAccountServerAction({
+      selectedAccount,
+      serverId: serverDraft.serverId,
+      appActions,
+      sync,
+      confirm,
+      onDeleted: () => setServerDraft(buildAccountServerDraft()),
+    });
+  }
+
+  function onMoveCharacterServer(serverId: string): void {
+    moveCharacterServerAction({ selectedCharacter, serverId, appActions, sync });
+  }
+
   function onAddCharacter(): void {
     addCharacterAction({
       selectedAccount,
       canAddCharacterInSelectedAccount,
       newCharacterName,
+      newCharacterServerId,
       appActions,
       sync,
       onError: setError,
@@ -147,6 +213,7 @@ export function createDashboardAccountResourceHandlers(
       selectedCharacter,
       profileClassTagInput,
       profileGearScoreInput,
+      profileTagsInput,
       appActions,
       sync,
       onError: setError,
@@ -174,6 +241,7 @@ export function createDashboardAccountResourceHandlers(
     void applyCorridorSettingsAction({
       selectedAccountId: selectedAccount?.id ?? null,
       corridorDraft,
+      serverTimeZone,
       appActions,
       sync,
       onError: (message) => setError(message),
@@ -214,11 +282,50 @@ export function createDashboardAccountResourceHandlers(
     });
   }
 
+  function onTransferTickets(direction: "assign" | "return"): void {
+    void transferTicketsAction({
+      selectedCharacterId: selectedCharacter?.id ?? null,
+      ticketTransferDraft,
+      direction,
+      appActions,
+      sync,
+      onError: (message) => setError(message),
+    });
+  }
+
+  function onRecordGoldIncome(): void {
+    void recordGoldIncomeAction({
+      selectedCharacterId: selectedCharacter?.id ?? null,
+      goldLedgerDraft,
+      appActions,
+      sync,
+      onError: (message) => setError(message),
+      onRecorded: () => setGoldLedgerDraft({ ...goldLedgerDraft, amount: "", note: "" }),
+    });
+  }
+
+  function onDeleteGoldLedgerEntry(entryId: string): void {
+    deleteGoldLedgerEntryAction({
+      selectedCharacterId: selectedCharacter?.id ?? null,
+      entryId,
+      appActions,
+      sync,
+      confirm,
+    });
+  }
+
+  function onApplyGoldRateSuggestion(suggestion: GoldRateSuggestion): void {
+    applyGoldRateSuggestionAction({ suggestion, appActions, sync });
+  }
+
   return {
     onAddAccount,
     onSelectAccount,
     onRenameAccount,
     onDeleteAccount,
+    onSaveAccountServer,
+    onDeleteAccountServer,
+    onMoveCharacterServer,
     onAddCharacter,
     onRenameCharacter,
     onSaveCharacterProfile,
@@ -229,5 +336,10 @@ export function createDashboardAccountResourceHandlers(
     onApplyCorridorCompletionFromSettings,
     onSaveShopPlan,
     onSaveTransformPlan,
+    onAssignTickets: () => onTransferTickets("assign"),
+    onReturnTickets: () => onTransferTickets("return"),
+    onRecordGoldIncome,
+    onDeleteGoldLedgerEntry,
+    onApplyGoldRateSuggestion,
   };
 }
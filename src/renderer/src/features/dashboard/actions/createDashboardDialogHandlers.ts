@@ -21,6 +21,7 @@ type SetCorridorDraft = (updater: (prev: CorridorDraft) => CorridorDraft) => voi
 interface CreateDashboardDialogHandlersParams {
   dialog: DialogState | null;
   selectedAccountId: string | null;
+  serverTimeZone: string | null;
   selectedCharacter: CharacterState | null;
   corridorDraft: CorridorDraft;
   taskById: Map<TaskId, TaskDefinition>;
@@ -50,6 +51,7 @@ export function createDashboardDialogHandlers(params: CreateDashboardDialogHandl
     dialog,
     selectedCharacter,
     selectedAccountId,
+    serverTimeZone,
     corridorDraft,
     taskById,
     appActions,
@@ -153,6 +155,7 @@ export function createDashboardDialogHandlers(params: CreateDashboardDialogHandl
       dialog,
       selected: selectedCharacter,
       selectedAccountId,
+      serverTimeZone,
       appActions,
       taskById,
       sync,
@@ -1,15 +1,48 @@
-import type { AppState } from "../../../../../shared/types";
-import type { SettingsDraft } from "../dashboard-types";
+import type {
+  AppState,
+  CustomTaskDefinition,
+  EventDefinition,
+  OperationJournalQueryResult,
+  OperationLogEntry,
+  RestorePoint,
+} from "../../../../../shared/types";
+import type {
+  BackupPassphrasePrompt,
+  CustomTaskDraft,
+  EventDraft,
+  ImportSelectionDraft,
+  OperationJournalFilterDraft,
+  SettingsDraft,
+} from "../dashboard-types";
+import { buildCustomTaskDraft, buildEventDraft, buildImportSelectionDraft } from "../dashboard-utils";
 import {
+  applyImportSelectionAction,
+  cancelScheduledSeasonRulesAction,
   checkAppUpdateAction,
   clearHistoryAction,
+  deleteCustomTaskAction,
+  deleteEventAction,
   exportDashboardDataAction,
+  exportEncryptedDashboardDataAction,
+  exportOperationJournalAction,
+  exportWeeklyPlanAction,
   importDashboardDataAction,
+  importSeasonRulesAction,
+  loadOperationJournalAction,
+  loadRestorePointsAction,
+  previewRestorePointAction,
+  redoSingleStepAction,
+  resetSeasonRulesAction,
   resetWeeklyStatsAction,
+  revertHistoryEntryAction,
+  saveCustomTaskAction,
   saveDashboardSettingsAction,
+  saveEventAction,
+  scheduleSeasonRulesAction,
   saveWeeklyCompletionsAction,
   undoMultiStepAction,
   undoSingleStepAction,
+  unlockImportDataAction,
 } from "./dashboardMaintenanceActions";
 
 type AppActions = NonNullable<Window["aionApi"]>;
@@ -26,12 +59,24 @@ interface CreateDashboardMaintenanceHandlersParams {
   weeklyTranscendenceCompletedInput: string;
   undoStepsInput: string;
   settingsDraft: SettingsDraft | null;
+  seasonRuleEffectiveAtInput: string;
+  customTaskDraft: CustomTaskDraft;
+  eventDraft: EventDraft;
+  importSelectionDraft: ImportSelectionDraft | null;
+  passphrasePrompt: BackupPassphrasePrompt | null;
+  journalFilter: OperationJournalFilterDraft;
   appActions: AppActions;
   sync: SyncRunner;
   setBusy: SetBusy;
   setError: SetError;
   setInfoMessage: SetInfoMessage;
   setState: SetState;
+  setCustomTaskDraft: (draft: CustomTaskDraft) => void;
+  setEventDraft: (draft: EventDraft) => void;
+  setImportSelectionDraft: (draft: ImportSelectionDraft | null) => void;
+  setRestorePoints: (points: RestorePoint[]) => void;
+  setPassphrasePrompt: (prompt: BackupPassphrasePrompt | null) => void;
+  setOperationJournal: (result: OperationJournalQueryResult) => void;
   confirm: (message: string) => boolean;
 }
 
@@ -41,10 +86,30 @@ interface MaintenanceHandlers {
   onSaveWeeklyCompletions: () => void;
   onUndoSingleStep: () => void;
   onUndoMultiStep: () => void;
+  onRedoSingleStep: () => void;
+  onRevertHistoryEntry: (entry: OperationLogEntry) => void;
   onClearHistory: () => void;
   onSaveSettings: () => void;
   onExportData: () => Promise<void>;
+  onExportEncryptedData: () => void;
+  onConfirmPassphrase: () => void;
+  onCancelPassphrase: () => void;
+  onExportWeeklyPlan: () => Promise<void>;
   onImportData: () => Promise<void>;
+  onConfirmImportSelection: () => void;
+  onCancelImportSelection: () => void;
+  onRefreshRestorePoints: () => Promise<void>;
+  onPreviewRestorePoint: (point: RestorePoint) => Promise<void>;
+  onSearchOperationJournal: () => Promise<void>;
+  onExportOperationJournal: () => Promise<void>;
+  onImportSeasonRules: () => Promise<void>;
+  onResetSeasonRules: () => void;
+  onScheduleSeasonRules: () => Promise<void>;
+  onCancelScheduledSeasonRules: () => void;
+  onSaveCustomTask: () => void;
+  onDeleteCustomTask: (task: CustomTaskDefinition) => void;
+  onSaveEvent: () => void;
+  onDeleteEvent: (event: EventDefinition) => void;
 }
 
 export function createDashboardMaintenanceHandlers(params: CreateDashboardMaintenanceHandlersParams): MaintenanceHandlers {
@@ -55,12 +120,24 @@ export function createDashboardMaintenanceHandlers(params: CreateDashboardMainte
     weeklyTranscendenceCompletedInput,
     undoStepsInput,
     settingsDraft,
+    seasonRuleEffectiveAtInput,
+    customTaskDraft,
+    eventDraft,
+    importSelectionDraft,
+    passphrasePrompt,
+    journalFilter,
     appActions,
     sync,
     setBusy,
     setError,
     setInfoMessage,
     setState,
+    setCustomTaskDraft,
+    setEventDraft,
+    setImportSelectionDraft,
+    setRestorePoints,
+    setPassphrasePrompt,
+    setOperationJournal,
     confirm,
   } = params;
 
@@ -110,6 +187,23 @@ export function createDashboardMaintenanceHandlers(params: CreateDashboardMainte
     });
   }
 
+  function onRedoSingleStep(): void {
+    void redoSingleStepAction({
+      state,
+      appActions,
+      sync,
+    });
+  }
+
+  function onRevertHistoryEntry(entry: OperationLogEntry): void {
+    void revertHistoryEntryAction({
+      entry,
+      appActions,
+      sync,
+      confirm,
+    });
+  }
+
   function onClearHistory(): void {
     void clearHistoryAction({
       state,
@@ -137,8 +231,121 @@ export function createDashboardMaintenanceHandlers(params: CreateDashboardMainte
     });
   }
 
+  function onExportEncryptedData(): void {
+    setError(null);
+    setPassphrasePrompt({ kind: "export", passphrase: "", confirmPassphrase: "" });
+  }
+
+  function onConfirmPassphrase(): void {
+    if (!passphrasePrompt) return;
+    if (passphrasePrompt.kind === "export") {
+      void exportEncryptedDashboardDataAction({
+        passphrase: passphrasePrompt.passphrase,
+        confirmPassphrase: passphrasePrompt.confirmPassphrase,
+        appActions,
+        onBusyChange: setBusy,
+        onError: setError,
+        onInfoMessage: setInfoMessage,
+        onExported: () => setPassphrasePrompt(null),
+      });
+      return;
+    }
+    void unlockImportDataAction({
+      request: { token: passphrasePrompt.token, path: passphrasePrompt.path },
+      passphrase: passphrasePrompt.passphrase,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onPreviewReady: (preview) => {
+        setPassphrasePrompt(null);
+        setImportSelectionDraft(buildImportSelectionDraft(preview));
+      },
+    });
+  }
+
+  function onCancelPassphrase(): void {
+    setPassphrasePrompt(null);
+    setError(null);
+  }
+
+  async function onExportWeeklyPlan(): Promise<void> {
+    await exportWeeklyPlanAction({
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+    });
+  }
+
   async function onImportData(): Promise<void> {
     await importDashboardDataAction({
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onPreviewReady: (preview) => setImportSelectionDraft(buildImportSelectionDraft(preview)),
+      onPassphraseRequired: (request) => setPassphrasePrompt({ kind: "import", ...request, passphrase: "" }),
+    });
+  }
+
+  function onConfirmImportSelection(): void {
+    void applyImportSelectionAction({
+      importSelectionDraft,
+      appActions,
+      sync,
+      onError: (message) => setError(message),
+      onApplied: () => setImportSelectionDraft(null),
+    });
+  }
+
+  function onCancelImportSelection(): void {
+    setImportSelectionDraft(null);
+    setError(null);
+  }
+
+  async function onRefreshRestorePoints(): Promise<void> {
+    await loadRestorePointsAction({
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onLoaded: setRestorePoints,
+    });
+  }
+
+  async function onPreviewRestorePoint(point: RestorePoint): Promise<void> {
+    await previewRestorePointAction({
+      point,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onPreviewReady: (preview) => setImportSelectionDraft(buildImportSelectionDraft(preview)),
+    });
+  }
+
+  async function onSearchOperationJournal(): Promise<void> {
+    await loadOperationJournalAction({
+      filter: journalFilter,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onLoaded: setOperationJournal,
+    });
+  }
+
+  async function onExportOperationJournal(): Promise<void> {
+    await exportOperationJournalAction({
+      filter: journalFilter,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+    });
+  }
+
+  async function onImportSeasonRules(): Promise<void> {
+    await importSeasonRulesAction({
       appActions,
       onBusyChange: setBusy,
       onError: setError,
@@ -147,15 +354,106 @@ export function createDashboardMaintenanceHandlers(params: CreateDashboardMainte
     });
   }
 
+  function onResetSeasonRules(): void {
+    void resetSeasonRulesAction({
+      appActions,
+      sync,
+      confirm,
+    });
+  }
+
+  async function onScheduleSeasonRules(): Promise<void> {
+    await scheduleSeasonRulesAction({
+      effectiveAtInput: seasonRuleEffectiveAtInput,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onStateImported: setState,
+    });
+  }
+
+  function onCancelScheduledSeasonRules(): void {
+    void cancelScheduledSeasonRulesAction({
+      state,
+      appActions,
+      sync,
+    });
+  }
+
+  function onSaveCustomTask(): void {
+    void saveCustomTaskAction({
+      customTaskDraft,
+      appActions,
+      sync,
+      onError: (message) => setError(message),
+      onSaved: () => setCustomTaskDraft(buildCustomTaskDraft()),
+    });
+  }
+
+  function onDeleteCustomTask(task: CustomTaskDefinition): void {
+    void deleteCustomTaskAction({
+      task,
+      appActions,
+      sync,
+      confirm,
+    });
+    if (customTaskDraft.id === task.id) {
+      setCustomTaskDraft(buildCustomTaskDraft());
+    }
+  }
+
+  function onSaveEvent(): void {
+    void saveEventAction({
+      eventDraft,
+      appActions,
+      sync,
+      onError: (message) => setError(message),
+      onSaved: () => setEventDraft(buildEventDraft()),
+    });
+  }
+
+  function onDeleteEvent(event: EventDefinition): void {
+    void deleteEventAction({
+      event,
+      appActions,
+      sync,
+      confirm,
+    });
+    if (eventDraft.id === event.id) {
+      setEventDraft(buildEventDraft());
+    }
+  }
+
   return {
     onCheckAppUpdate,
     onResetWeeklyStats,
     onSaveWeeklyCompletions,
     onUndoSingleStep,
     onUndoMultiStep,
+    onRedoSingleStep,
+    onRevertHistoryEntry,
     onClearHistory,
     onSaveSettings,
     onExportData,
+    onExportEncryptedData,
+    onConfirmPassphrase,
+    onCancelPassphrase,
+    onExportWeeklyPlan,
     onImportData,
+    onConfirmImportSelection,
+    onCancelImportSelection,
+    onRefreshRestorePoints,
+    onPreviewRestorePoint,
+    onSearchOperationJournal,
+    onExportOperationJournal,
+    onImportSeasonRules,
+    onResetSeasonRules,
+    onScheduleSeasonRules,
+    onCancelScheduledSeasonRules,
+    onSaveCustomTask,
+    onDeleteCustomTask,
+    onSaveEvent,
+    onDeleteEvent,
   };
 }
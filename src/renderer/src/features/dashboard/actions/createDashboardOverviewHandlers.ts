@@ -1,7 +1,10 @@
 import type { DragEvent } from "react";
-import type { AppState, TaskActionKind, TaskDefinition, TaskId } from "../../../../../shared/types";
-import type { OverviewSortKey, QuickTaskId } from "../dashboard-types";
+import type { AppState, BatchTaskActionFailure, TaskActionKind, TaskDefinition, TaskId } from "../../../../../shared/types";
+import { BATCH_TASK_PRESETS, type OverviewSortKey, type QuickTaskId } from "../dashboard-types";
+import { toInt } from "../dashboard-utils";
 import {
+  applyBatchTaskAction,
+  applyEventProgressAction,
   applyQuickEntryAction,
   endOverviewCardDragAction,
   overviewCardDragOverAction,
@@ -14,7 +17,7 @@ type SyncRunner = (action: Promise<AppState>, successMessage?: string) => Promis
 type SetDashboardMode = (mode: "overview" | "character") => void;
 type SetDraggingCharacterId = (characterId: string | null) => void;
 type SetDragOverCharacterId = (characterId: string | null) => void;
-type SetError = (message: string) => void;
+type SetError = (message: string | null) => void;
 
 interface CreateDashboardOverviewHandlersParams {
   overviewSortKey: OverviewSortKey;
@@ -28,6 +31,7 @@ interface CreateDashboardOverviewHandlersParams {
   quickAction: TaskActionKind;
   quickAmountInput: string;
   quickCorridorTask: { title: string; lane: "lower" | "middle" } | null;
+  batchCharacterIds: string[];
   characterNameById: Map<string, string>;
   taskById: Map<TaskId, TaskDefinition>;
   appActions: AppActions;
@@ -36,6 +40,11 @@ interface CreateDashboardOverviewHandlersParams {
   setDraggingCharacterId: SetDraggingCharacterId;
   setDragOverCharacterId: SetDragOverCharacterId;
   setError: SetError;
+  setBusy: (busy: boolean) => void;
+  setInfoMessage: (message: string | null) => void;
+  setState: (state: AppState) => void;
+  setBatchCharacterIds: (characterIds: string[]) => void;
+  setBatchFailures: (failures: BatchTaskActionFailure[]) => void;
 }
 
 interface OverviewHandlers {
@@ -45,6 +54,10 @@ interface OverviewHandlers {
   onOverviewCardDragEnd: () => void;
   onSwitchToOverview: () => void;
   onApplyQuickAction: () => void;
+  onApplyEventProgress: (characterId: string, eventId: string, counterLabel: string, amount: number) => void;
+  onToggleBatchCharacter: (characterId: string) => void;
+  onApplyBatchPreset: (presetId: string) => void;
+  onApplyBatchQuickAction: () => void;
 }
 
 export function createDashboardOverviewHandlers(params: CreateDashboardOverviewHandlersParams): OverviewHandlers {
@@ -60,6 +73,7 @@ export function createDashboardOverviewHandlers(params: CreateDashboardOverviewH
     quickAction,
     quickAmountInput,
     quickCorridorTask,
+    batchCharacterIds,
     characterNameById,
     taskById,
     appActions,
@@ -68,6 +82,11 @@ export function createDashboardOverviewHandlers(params: CreateDashboardOverviewH
     setDraggingCharacterId,
     setDragOverCharacterId,
     setError,
+    setBusy,
+    setInfoMessage,
+    setState,
+    setBatchCharacterIds,
+    setBatchFailures,
   } = params;
 
   const onDragStateReset = (): void => {
@@ -136,6 +155,61 @@ export function createDashboardOverviewHandlers(params: CreateDashboardOverviewH
     });
   }
 
+  function onApplyEventProgress(characterId: string, eventId: string, counterLabel: string, amount: number): void {
+    applyEventProgressAction({
+      characterId,
+      eventId,
+      counterLabel,
+      amount,
+      characterNameById,
+      appActions,
+      sync,
+    });
+  }
+
+  function onToggleBatchCharacter(characterId: string): void {
+    setBatchCharacterIds(
+      batchCharacterIds.includes(characterId)
+        ? batchCharacterIds.filter((id) => id !== characterId)
+        : [...batchCharacterIds, characterId],
+    );
+  }
+
+  function runBatchTaskAction(taskId: TaskId, action: TaskActionKind, amount: number): void {
+    void applyBatchTaskAction({
+      characterIds: batchCharacterIds,
+      taskId,
+      action,
+      amount,
+      taskById,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onStateChange: setState,
+      onFailures: setBatchFailures,
+    });
+  }
+
+  function onApplyBatchPreset(presetId: string): void {
+    const preset = BATCH_TASK_PRESETS.find((item) => item.id === presetId);
+    if (!preset) return;
+    runBatchTaskAction(preset.taskId, preset.action, preset.amount);
+  }
+
+  function onApplyBatchQuickAction(): void {
+    if (quickCorridorTask) {
+      setError("回廊录入暂不支持批量操作");
+      return;
+    }
+    const amount = toInt(quickAmountInput);
+    if (amount === null) {
+      setError("请输入有效次数");
+      return;
+    }
+    runBatchTaskAction(quickTaskId as TaskId, quickAction, amount);
+  }
+
   return {
     onOverviewCardDragStart,
     onOverviewCardDragOver,
@@ -143,5 +217,9 @@ export function createDashboardOverviewHandlers(params: CreateDashboardOverviewH
     onOverviewCardDragEnd,
     onSwitchToOverview,
     onApplyQuickAction,
+    onApplyEventProgress,
+    onToggleBatchCharacter,
+    onApplyBatchPreset,
+    onApplyBatchQuickAction,
   };
 }
@@ -0,0 +1,140 @@
+import type { AppState, ProfileListResult, ProfileSummary } from "../../../../../shared/types";
+import type { ProfileDraft } from "../dashboard-types";
+import { buildProfileDraft } from "../dashboard-utils";
+import {
+  createProfileAction,
+  deleteProfileAction,
+  importProfileAction,
+  loadProfilesAction,
+  renameProfileAction,
+  switchProfileAction,
+} from "./dashboardProfileActions";
+
+type AppActions = NonNullable<Window["aionApi"]>;
+
+interface CreateDashboardProfileHandlersParams {
+  profileList: ProfileListResult | null;
+  profileDraft: ProfileDraft;
+  appActions: AppActions;
+  setBusy: (busy: boolean) => void;
+  setError: (message: string | null) => void;
+  setInfoMessage: (message: string | null) => void;
+  setState: (state: AppState) => void;
+  setProfileList: (result: ProfileListResult) => void;
+  setProfileDraft: (draft: ProfileDraft) => void;
+  confirm: (message: string) => boolean;
+}
+
+interface ProfileHandlers {
+  onRefreshProfiles: () => Promise<void>;
+  onSwitchProfile: (profileId: string) => void;
+  onCreateProfile: () => void;
+  onRenameProfile: () => void;
+  onDeleteProfile: (profile: ProfileSummary) => void;
+  onImportProfile: () => void;
+}
+
+export function createDashboardProfileHandlers(params: CreateDashboardProfileHandlersParams): ProfileHandlers {
+  const {
+    profileList,
+    profileDraft,
+    appActions,
+    setBusy,
+    setError,
+    setInfoMessage,
+    setState,
+    setProfileList,
+    setProfileDraft,
+    confirm,
+  } = params;
+
+  function onSwitched(result: ProfileListResult, state: AppState): void {
+    setProfileList(result);
+    setState(state);
+    setProfileDraft(buildProfileDraft());
+  }
+
+  async function onRefreshProfiles(): Promise<void> {
+    await loadProfilesAction({
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onLoaded: setProfileList,
+    });
+  }
+
+  function onSwitchProfile(profileId: string): void {
+    const profile = profileList?.profiles.find((item) => item.id === profileId);
+    if (!profile || profileId === profileList?.activeProfileId) return;
+    void switchProfileAction({
+      profile,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onSwitched,
+    });
+  }
+
+  function onCreateProfile(): void {
+    void createProfileAction({
+      name: profileDraft.createName,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onSaved: (result) => {
+        setProfileList(result);
+        setProfileDraft({ ...profileDraft, createName: "" });
+      },
+    });
+  }
+
+  function onRenameProfile(): void {
+    if (!profileDraft.editingId) return;
+    void renameProfileAction({
+      profileId: profileDraft.editingId,
+      name: profileDraft.editingName,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onSaved: (result) => {
+        setProfileList(result);
+        setProfileDraft({ ...profileDraft, editingId: null, editingName: "" });
+      },
+    });
+  }
+
+  function onDeleteProfile(profile: ProfileSummary): void {
+    void deleteProfileAction({
+      profile,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onSaved: setProfileList,
+      confirm,
+    });
+  }
+
+  function onImportProfile(): void {
+    void importProfileAction({
+      name: profileDraft.importName,
+      passphrase: profileDraft.importPassphrase,
+      appActions,
+      onBusyChange: setBusy,
+      onError: setError,
+      onInfoMessage: setInfoMessage,
+      onSwitched,
+    });
+  }
+
+  return {
+    onRefreshProfiles,
+    onSwitchProfile,
+    onCreateProfile,
+    onRenameProfile,
+    onDeleteProfile,
+    onImportProfile,
+  };
+}
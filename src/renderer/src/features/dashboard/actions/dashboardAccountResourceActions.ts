@@ -1,14 +1,18 @@
+import { GOLD_LEDGER_SOURCE_LABELS, type GoldRateSuggestion } from "../../../../../shared/gold-ledger";
+import { parseTagsInput } from "../../../../../shared/tags";
+import { getTicketInventoryTarget, isTicketInventoryKind } from "../../../../../shared/ticket-inventory";
 import { getNextUnifiedCorridorRefresh } from "../../../../../shared/time";
 import {
   ABYSS_REPLENISH_TICKET_SERVER_LIMIT,
   AODE_CONVERT_SERVER_LIMIT,
   AODE_SHOP_SERVER_LIMIT,
+  CORRIDOR_LANE_MAX,
   EXPEDITION_CHOICE_BOX_SERVER_LIMIT,
   NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
   UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
 } from "../../../../../shared/constants";
 import type { AccountState, AppState, CharacterState } from "../../../../../shared/types";
-import { MAX_CHARACTERS_PER_ACCOUNT, type CorridorDraft } from "../dashboard-types";
+import type { AccountServerDraft, CorridorDraft, GoldLedgerDraft, TicketTransferDraft } from "../dashboard-types";
 import { toInt } from "../dashboard-utils";
 
 type AppActions = NonNullable<Window["aionApi"]>;
@@ -46,17 +50,21 @@ interface RenameAccountParams {
   selectedAccount: AccountState | null;
   accountNameInput: string;
   accountRegionInput: string;
+  accountTagsInput: string;
   appActions: AppActions;
   sync: SyncRunner;
 }
 
 export function renameAccountAction(params: RenameAccountParams): void {
-  const { selectedAccount, accountNameInput, accountRegionInput, appActions, sync } = params;
+  const { selectedAccount, accountNameInput, accountRegionInput, accountTagsInput, appActions, sync } = params;
   if (!selectedAccount) return;
   const name = accountNameInput.trim();
   if (!name) return;
   const regionTag = accountRegionInput.trim();
-  void sync(appActions.renameAccount(selectedAccount.id, name, regionTag || undefined), "账号信息已更新");
+  void sync(
+    appActions.renameAccount(selectedAccount.id, name, regionTag || undefined, parseTagsInput(accountTagsInput)),
+    "账号信息已更新",
+  );
 }
 
 interface DeleteAccountParams {
@@ -74,10 +82,71 @@ export function deleteAccountAction(params: DeleteAccountParams): void {
   void sync(appActions.deleteAccount(selectedAccount.id));
 }
 
+interface SaveAccountServerParams {
+  selectedAccount: AccountState | null;
+  serverDraft: AccountServerDraft;
+  appActions: AppActions;
+  sync: SyncRunner;
+  onError: (message: string) => void;
+  onSaved: () => void;
+}
+
+export async function saveAccountServerAction(params: SaveAccountServerParams): Promise<void> {
+  const { selectedAccount, serverDraft, appActions, sync, onError, onSaved } = params;
+  if (!selectedAccount) return;
+  const characterSlots = toInt(serverDraft.characterSlots);
+  if (characterSlots === null || characterSlots < 1) {
+    onError("角色位数量需为正整数");
+    return;
+  }
+  const name = serverDraft.name.trim();
+  const action = serverDraft.serverId
+    ? appActions.updateAccountServer(selectedAccount.id, serverDraft.serverId, name, characterSlots)
+    : appActions.addAccountServer(selectedAccount.id, name, characterSlots);
+  const ok = await sync(action, serverDraft.serverId ? "服务器信息已更新" : "已新增服务器");
+  if (ok) {
+    onSaved();
+  }
+}
+
+interface DeleteAccountServerParams {
+  selectedAccount: AccountState | null;
+  serverId: string;
+  appActions: AppActions;
+  sync: SyncRunner;
+  confirm: (message: string) => boolean;
+  onDeleted: () => void;
+}
+
+export async function deleteAccountServerAction(params: DeleteAccountServerParams): Promise<void> {
+  const { selectedAccount, serverId, appActions, sync, confirm, onDeleted } = params;
+  const server = selectedAccount?.servers.find((item) => item.id === serverId);
+  if (!selectedAccount || !server) return;
+  if (!confirm(`确认删除服务器「${server.name}」？其共享次数与微风商店记录将一并删除。`)) return;
+  const ok = await sync(appActions.deleteAccountServer(selectedAccount.id, server.id), "服务器已删除");
+  if (ok) {
+    onDeleted();
+  }
+}
+
+interface MoveCharacterServerParams {
+  selectedCharacter: CharacterState | null;
+  serverId: string;
+  appActions: AppActions;
+  sync: SyncRunner;
+}
+
+export function moveCharacterServerAction(params: MoveCharacterServerParams): void {
+  const { selectedCharacter, serverId, appActions, sync } = params;
+  if (!selectedCharacter || !serverId || selectedCharacter.serverId === serverId) return;
+  void sync(appActions.moveCharacterServer(selectedCharacter.id, serverId), "角色所属服务器已更新");
+}
+
 interface AddCharacterParams {
   selectedAccount: AccountState | null;
   canAddCharacterInSelectedAccount: boolean;
   newCharacterName: string;
+  newCharacterServerId: string;
   appActions: AppActions;
   sync: SyncRunner;
   onError: (message: string) => void;
@@ -89,6 +158,7 @@ export function addCharacterAction(params: AddCharacterParams): void {
     selectedAccount,
     canAddCharacterInSelectedAccount,
     newCharacterName,
+    newCharacterServerId,
     appActions,
     sync,
     onError,
@@ -96,12 +166,12 @@ export function addCharacterAction(params: AddCharacterParams): void {
   } = params;
   if (!selectedAccount) return;
   if (!canAddCharacterInSelectedAccount) {
-    onError(`当前账号最多 ${MAX_CHARACTERS_PER_ACCOUNT} 个角色`);
+    onError("当前账号所有服务器的角色位已满，请先调整服务器角色位");
     return;
   }
   const name = newCharacterName.trim();
   if (!name) return;
-  void sync(appActions.addCharacter(name, selectedAccount.id));
+  void sync(appActions.addCharacter(name, selectedAccount.id, newCharacterServerId || undefined));
   onInputCleared();
 }
 
@@ -124,13 +194,14 @@ interface SaveCharacterProfileParams {
   selectedCharacter: CharacterState | null;
   profileClassTagInput: string;
   profileGearScoreInput: string;
+  profileTagsInput: string;
   appActions: AppActions;
   sync: SyncRunner;
   onError: (message: string) => void;
 }
 
 export function saveCharacterProfileAction(params: SaveCharacterProfileParams): void {
-  const { selectedCharacter, profileClassTagInput, profileGearScoreInput, appActions, sync, onError } = params;
+  const { selectedCharacter, profileClassTagInput, profileGearScoreInput, profileTagsInput, appActions, sync, onError } = params;
   if (!selectedCharacter) return;
   const classTag = profileClassTagInput.trim();
   const gearScoreText = profileGearScoreInput.trim();
@@ -143,8 +214,9 @@ export function saveCharacterProfileAction(params: SaveCharacterProfileParams):
     appActions.updateCharacterProfile(selectedCharacter.id, {
       classTag: classTag || null,
       gearScore: gearScoreRaw === null ? null : gearScoreRaw,
+      tags: parseTagsInput(profileTagsInput),
     }),
-    "已更新角色职业与装分",
+    "已更新角色职业、装分与标签",
   );
 }
 
@@ -191,22 +263,23 @@ export function toggleCharacterStarAction(params: ToggleCharacterStarParams): vo
 interface ApplyCorridorSettingsParams {
   selectedAccountId: string | null;
   corridorDraft: CorridorDraft;
+  serverTimeZone: string | null;
   appActions: AppActions;
   sync: SyncRunner;
   onError: (message: string) => void;
 }
 
 export async function applyCorridorSettingsAction(params: ApplyCorridorSettingsParams): Promise<void> {
-  const { selectedAccountId, corridorDraft, appActions, sync, onError } = params;
+  const { selectedAccountId, corridorDraft, serverTimeZone, appActions, sync, onError } = params;
   if (!selectedAccountId) return;
   const lowerCount = toInt(corridorDraft.lowerAvailable);
   const middleCount = toInt(corridorDraft.middleAvailable);
-  if (lowerCount === null || lowerCount < 0 || lowerCount > 3 || middleCount === null || middleCount < 0 || middleCount > 3) {
-    onError("回廊上限必须是 0-3");
+  if (lowerCount === null || lowerCount < 0 || lowerCount > CORRIDOR_LANE_MAX || middleCount === null || middleCount < 0 || middleCount > CORRIDOR_LANE_MAX) {
+    onError(`回廊剩余次数必须是 0-${CORRIDOR_LANE_MAX}`);
     return;
   }
-  const nextUnifiedAt = getNextUnifiedCorridorRefresh(new Date()).toISOString();
-  await sync(appActions.updateArtifactStatus(selectedAccountId, lowerCount, nextUnifiedAt, middleCount, nextUnifiedAt), "已同步深渊回廊上限到当前账号角色");
+  const nextUnifiedAt = getNextUnifiedCorridorRefresh(new Date(), serverTimeZone).toISOString();
+  await sync(appActions.updateArtifactStatus(selectedAccountId, lowerCount, nextUnifiedAt, middleCount, nextUnifiedAt), "已校准当前账号角色的深渊回廊剩余次数");
 }
 
 interface ApplyCorridorCompletionFromSettingsParams {
@@ -332,3 +405,110 @@ export async function saveTransformPlanAction(params: SaveTransformPlanParams):
     "已保存物资兑换记录",
   );
 }
+
+interface TransferTicketsParams {
+  selectedCharacterId: string | null;
+  ticketTransferDraft: TicketTransferDraft;
+  direction: "assign" | "return";
+  appActions: AppActions;
+  sync: SyncRunner;
+  onError: (message: string) => void;
+}
+
+export async function transferTicketsAction(params: TransferTicketsParams): Promise<void> {
+  const { selectedCharacterId, ticketTransferDraft, direction, appActions, sync, onError } = params;
+  if (!selectedCharacterId) return;
+  const [kind, targetId = ""] = ticketTransferDraft.slot.split(":");
+  if (!isTicketInventoryKind(kind) || !getTicketInventoryTarget(kind, targetId)) {
+    onError("请选择要调配的券");
+    return;
+  }
+  const count = toInt(ticketTransferDraft.count);
+  if (count === null || count <= 0) {
+    onError("调配数量必须是大于 0 的整数");
+    return;
+  }
+  if (direction === "assign") {
+    await sync(
+      appActions.transferTickets({
+        kind,
+        targetId,
+        fromCharacterId: ticketTransferDraft.sourceCharacterId || null,
+        toCharacterId: selectedCharacterId,
+        count,
+      }),
+      "已将券分配给当前角色",
+    );
+    return;
+  }
+  await sync(
+    appActions.transferTickets({ kind, targetId, fromCharacterId: selectedCharacterId, toCharacterId: null, count }),
+    "已将当前角色的券收回库存",
+  );
+}
+
+interface RecordGoldIncomeParams {
+  selectedCharacterId: string | null;
+  goldLedgerDraft: GoldLedgerDraft;
+  appActions: AppActions;
+  sync: SyncRunner;
+  onError: (message: string) => void;
+  onRecorded: () => void;
+}
+
+export async function recordGoldIncomeAction(params: RecordGoldIncomeParams): Promise<void> {
+  const { selectedCharacterId, goldLedgerDraft, appActions, sync, onError, onRecorded } = params;
+  if (!selectedCharacterId) return;
+  const amount = toInt(goldLedgerDraft.amount);
+  if (amount === null || amount <= 0) {
+    onError("实际金币必须是大于 0 的整数");
+    return;
+  }
+  const runs = goldLedgerDraft.source === "other" ? 0 : toInt(goldLedgerDraft.runs);
+  if (runs === null || (goldLedgerDraft.source !== "other" && runs <= 0)) {
+    onError("副本收入需要填写大于 0 的次数");
+    return;
+  }
+  const ok = await sync(
+    appActions.recordGoldIncome({
+      characterId: selectedCharacterId,
+      source: goldLedgerDraft.source,
+      runs,
+      amount,
+      note: goldLedgerDraft.note.trim() || undefined,
+    }),
+    "已记录实际金币",
+  );
+  if (ok) {
+    onRecorded();
+  }
+}
+
+interface DeleteGoldLedgerEntryParams {
+  selectedCharacterId: string | null;
+  entryId: string;
+  appActions: AppActions;
+  sync: SyncRunner;
+  confirm: (message: string) => boolean;
+}
+
+export function deleteGoldLedgerEntryAction(params: DeleteGoldLedgerEntryParams): void {
+  const { selectedCharacterId, entryId, appActions, sync, confirm } = params;
+  if (!selectedCharacterId) return;
+  if (!confirm("确认删除这条金币记录？")) return;
+  void sync(appActions.deleteGoldLedgerEntry(selectedCharacterId, entryId), "已删除金币记录");
+}
+
+interface ApplyGoldRateSuggestionParams {
+  suggestion: GoldRateSuggestion;
+  appActions: AppActions;
+  sync: SyncRunner;
+}
+
+export function applyGoldRateSuggestionAction(params: ApplyGoldRateSuggestionParams): void {
+  const { suggestion, appActions, sync } = params;
+  void sync(
+    appActions.updateSettings({ [suggestion.settingKey]: suggestion.average }),
+    `已将${GOLD_LEDGER_SOURCE_LABELS[suggestion.source]}单次金币更新为 ${suggestion.average}`,
+  );
+}
@@ -1,3 +1,4 @@
+import { CORRIDOR_LANE_MAX } from "../../../../../shared/constants";
 import { getNextUnifiedCorridorRefresh } from "../../../../../shared/time";
 import type { AppState, CharacterState, TaskDefinition, TaskId } from "../../../../../shared/types";
 import type { CorridorDraft, DialogState } from "../dashboard-types";
@@ -13,6 +14,7 @@ interface ConfirmDashboardDialogParams {
   dialog: DialogState;
   selected: CharacterState;
   selectedAccountId: string | null;
+  serverTimeZone: string | null;
   appActions: DialogAppActions;
   taskById: Map<TaskId, TaskDefinition>;
   sync: SyncRunner;
@@ -26,6 +28,7 @@ interface ConfirmDashboardDialogActionParams {
   dialog: DialogState | null;
   selected: CharacterState | null;
   selectedAccountId: string | null;
+  serverTimeZone: string | null;
   appActions: DialogAppActions;
   taskById: Map<TaskId, TaskDefinition>;
   sync: SyncRunner;
@@ -50,6 +53,7 @@ export async function confirmDashboardDialog(params: ConfirmDashboardDialogParam
     dialog,
     selected,
     selectedAccountId,
+    serverTimeZone,
     appActions,
     taskById,
     sync,
@@ -142,14 +146,14 @@ export async function confirmDashboardDialog(params: ConfirmDashboardDialogParam
     }
       const lowerCount = toInt(dialog.lowerAvailable);
       const middleCount = toInt(dialog.middleAvailable);
-      if (lowerCount === null || lowerCount < 0 || lowerCount > 3 || middleCount === null || middleCount < 0 || middleCount > 3) {
-        onDialogError("回廊上限必须是 0-3");
+      if (lowerCount === null || lowerCount < 0 || lowerCount > CORRIDOR_LANE_MAX || middleCount === null || middleCount < 0 || middleCount > CORRIDOR_LANE_MAX) {
+        onDialogError(`回廊剩余次数必须是 0-${CORRIDOR_LANE_MAX}`);
         return;
       }
-    const nextUnifiedAt = getNextUnifiedCorridorRefresh(new Date()).toISOString();
+    const nextUnifiedAt = getNextUnifiedCorridorRefresh(new Date(), serverTimeZone).toISOString();
     const ok = await sync(
         appActions.updateArtifactStatus(selectedAccountId, lowerCount, nextUnifiedAt, middleCount, nextUnifiedAt),
-        "已同步深渊回廊上限到当前账号角色",
+        "已校准当前账号角色的深渊回廊剩余次数",
       );
     if (ok) {
       onCorridorDraftSyncCounts(lowerCount, middleCount);
@@ -1,6 +1,24 @@
-import type { AppState } from "../../../../../shared/types";
-import type { SettingsDraft } from "../dashboard-types";
-import { parseOptionalCap, toInt, toNumber } from "../dashboard-utils";
+import { BACKUP_PASSPHRASE_MIN_LENGTH } from "../../../../../shared/constants";
+import { isValidTimeZone } from "../../../../../shared/time";
+import type {
+  AppState,
+  CustomTaskDefinition,
+  EventDefinition,
+  ImportPassphraseRequest,
+  ImportPreview,
+  OperationJournalQuery,
+  OperationJournalQueryResult,
+  OperationLogEntry,
+  RestorePoint,
+} from "../../../../../shared/types";
+import type {
+  CustomTaskDraft,
+  EventDraft,
+  ImportSelectionDraft,
+  OperationJournalFilterDraft,
+  SettingsDraft,
+} from "../dashboard-types";
+import { parseEventCountersText, parseOptionalCap, toInt, toNumber } from "../dashboard-utils";
 
 type AppActions = NonNullable<Window["aionApi"]>;
 type SyncRunner = (action: Promise<AppState>, successMessage?: string) => Promise<boolean>;
@@ -36,6 +54,33 @@ export async function undoMultiStepAction(params: UndoMultiStepParams): Promise<
   await sync(appActions.undoOperations(steps), `已撤销 ${steps} 步`);
 }
 
+interface RedoSingleStepParams {
+  state: AppState | null;
+  appActions: AppActions;
+  sync: SyncRunner;
+}
+
+export async function redoSingleStepAction(params: RedoSingleStepParams): Promise<void> {
+  const { state, appActions, sync } = params;
+  if (!state || state.redoHistory.length === 0) return;
+  const entry = state.redoHistory[state.redoHistory.length - 1];
+  await sync(appActions.redoOperations(1), `已重做: ${entry.action}`);
+}
+
+interface RevertHistoryEntryParams {
+  entry: OperationLogEntry;
+  appActions: AppActions;
+  sync: SyncRunner;
+  confirm: (message: string) => boolean;
+}
+
+export async function revertHistoryEntryAction(params: RevertHistoryEntryParams): Promise<void> {
+  const { entry, appActions, sync, confirm } = params;
+  const ok = confirm(`确认只撤销「${entry.action}」这一条记录？之后的其它操作会保留，撤销本身也会记入历史。`);
+  if (!ok) return;
+  await sync(appActions.revertOperation(entry.id), `已单独撤销: ${entry.action}`);
+}
+
 interface ClearHistoryParams {
   state: AppState | null;
   appActions: AppActions;
@@ -114,6 +159,8 @@ export async function saveDashboardSettingsAction(params: SaveDashboardSettingsP
     expeditionGoldPerRunWan === null ? null : Math.max(0, Math.round(expeditionGoldPerRunWan * 10_000));
   const transcendenceGoldPerRun =
     transcendenceGoldPerRunWan === null ? null : Math.max(0, Math.round(transcendenceGoldPerRunWan * 10_000));
+  const dailyDungeonGoldPerRunWan = toNumber(settingsDraft.dailyDungeonGoldPerRun);
+  const nightmareGoldPerRunWan = toNumber(settingsDraft.nightmareGoldPerRun);
   const expeditionWarn = toInt(settingsDraft.expeditionWarnThreshold);
   const transcendenceWarn = toInt(settingsDraft.transcendenceWarnThreshold);
   const expeditionRunCap = parseOptionalCap(settingsDraft.expeditionRunCap);
@@ -127,6 +174,10 @@ export async function saveDashboardSettingsAction(params: SaveDashboardSettingsP
   const priorityWeightWeekly = toInt(settingsDraft.priorityWeightWeekly);
   const priorityWeightMission = toInt(settingsDraft.priorityWeightMission);
   const priorityWeightLeisure = toInt(settingsDraft.priorityWeightLeisure);
+  const serverTimeZone = settingsDraft.serverTimeZone.trim() || null;
+  const autoBackupKeepDaily = toInt(settingsDraft.autoBackupKeepDaily);
+  const autoBackupKeepWeekly = toInt(settingsDraft.autoBackupKeepWeekly);
+  const autoBackupKeepMonthly = toInt(settingsDraft.autoBackupKeepMonthly);
 
   if (expeditionGoldPerRun === null || expeditionGoldPerRunWan === null || expeditionGoldPerRunWan < 0) {
     onError("远征金币收益参数无效（单位: 万）");
@@ -136,6 +187,14 @@ export async function saveDashboardSettingsAction(params: SaveDashboardSettingsP
     onError("超越金币收益参数无效（单位: 万）");
     return;
   }
+  if (dailyDungeonGoldPerRunWan === null || dailyDungeonGoldPerRunWan < 0) {
+    onError("每日副本金币收益参数无效（单位: 万）");
+    return;
+  }
+  if (nightmareGoldPerRunWan === null || nightmareGoldPerRunWan < 0) {
+    onError("恶梦金币收益参数无效（单位: 万）");
+    return;
+  }
   if (expeditionWarn === null || expeditionWarn <= 0) {
     onError("远征阈值参数无效");
     return;
@@ -179,11 +238,31 @@ export async function saveDashboardSettingsAction(params: SaveDashboardSettingsP
     onError("优先级偏好需填写 1-5 的整数");
     return;
   }
+  if (serverTimeZone !== null && !isValidTimeZone(serverTimeZone)) {
+    onError("服务器时区无效，请填写 IANA 时区（如 Asia/Seoul）或留空使用本机时区");
+    return;
+  }
+  if (
+    autoBackupKeepDaily === null ||
+    autoBackupKeepWeekly === null ||
+    autoBackupKeepMonthly === null ||
+    autoBackupKeepDaily < 1 ||
+    autoBackupKeepDaily > 90 ||
+    autoBackupKeepWeekly < 0 ||
+    autoBackupKeepWeekly > 52 ||
+    autoBackupKeepMonthly < 0 ||
+    autoBackupKeepMonthly > 36
+  ) {
+    onError("自动备份保留数量无效：每日 1-90、每周 0-52、每月 0-36");
+    return;
+  }
 
   await sync(
     appActions.updateSettings({
       expeditionGoldPerRun,
       transcendenceGoldPerRun,
+      dailyDungeonGoldPerRun: Math.round(dailyDungeonGoldPerRunWan * 10_000),
+      nightmareGoldPerRun: Math.round(nightmareGoldPerRunWan * 10_000),
       expeditionRunCap,
       transcendenceRunCap,
       nightmareRunCap,
@@ -197,11 +276,138 @@ export async function saveDashboardSettingsAction(params: SaveDashboardSettingsP
       priorityWeightWeekly,
       priorityWeightMission,
       priorityWeightLeisure,
+      serverTimeZone,
+      autoBackupKeepDaily,
+      autoBackupKeepWeekly,
+      autoBackupKeepMonthly,
     }),
     "设置已保存",
   );
 }
 
+interface SaveCustomTaskParams {
+  customTaskDraft: CustomTaskDraft;
+  appActions: AppActions;
+  sync: SyncRunner;
+  onError: (message: string) => void;
+  onSaved: () => void;
+}
+
+export async function saveCustomTaskAction(params: SaveCustomTaskParams): Promise<void> {
+  const { customTaskDraft, appActions, sync, onError, onSaved } = params;
+  const title = customTaskDraft.title.trim();
+  const cap = toInt(customTaskDraft.cap);
+  const energyCost = toInt(customTaskDraft.energyCost);
+  const goldRewardWan = toNumber(customTaskDraft.goldReward);
+  if (!title) {
+    onError("请输入自定义任务名称");
+    return;
+  }
+  if (cap === null || cap < 1) {
+    onError("次数上限需填写大于 0 的整数");
+    return;
+  }
+  if (energyCost === null || energyCost < 0) {
+    onError("奥德消耗需填写大于等于 0 的整数");
+    return;
+  }
+  if (goldRewardWan === null || goldRewardWan < 0) {
+    onError("金币收益参数无效（单位: 万）");
+    return;
+  }
+  const ok = await sync(
+    appActions.upsertCustomTask({
+      id: customTaskDraft.id ?? undefined,
+      title,
+      category: customTaskDraft.category,
+      resetCadence: customTaskDraft.resetCadence,
+      cap,
+      energyCost,
+      goldReward: Math.round(goldRewardWan * 10_000),
+      hasTicket: customTaskDraft.hasTicket,
+    }),
+    customTaskDraft.id ? "自定义任务已更新" : "自定义任务已新增",
+  );
+  if (ok) {
+    onSaved();
+  }
+}
+
+interface DeleteCustomTaskParams {
+  task: CustomTaskDefinition;
+  appActions: AppActions;
+  sync: SyncRunner;
+  confirm: (message: string) => boolean;
+}
+
+export async function deleteCustomTaskAction(params: DeleteCustomTaskParams): Promise<void> {
+  const { task, appActions, sync, confirm } = params;
+  const ok = confirm(`确认删除自定义任务「${task.title}」？各角色的进度会一并移除，可通过撤销恢复。`);
+  if (!ok) return;
+  await sync(appActions.deleteCustomTask(task.id), "自定义任务已删除");
+}
+
+interface SaveEventParams {
+  eventDraft: EventDraft;
+  appActions: AppActions;
+  sync: SyncRunner;
+  onError: (message: string) => void;
+  onSaved: () => void;
+}
+
+export async function saveEventAction(params: SaveEventParams): Promise<void> {
+  const { eventDraft, appActions, sync, onError, onSaved } = params;
+  const title = eventDraft.title.trim();
+  const startAt = new Date(eventDraft.startAt);
+  const endAt = new Date(eventDraft.endAt);
+  const counters = parseEventCountersText(eventDraft.countersText);
+  if (!title) {
+    onError("请输入活动名称");
+    return;
+  }
+  if (!eventDraft.startAt.trim() || !eventDraft.endAt.trim() || Number.isNaN(startAt.getTime()) || Number.isNaN(endAt.getTime())) {
+    onError("请填写活动开始与结束时间");
+    return;
+  }
+  if (endAt.getTime() <= startAt.getTime()) {
+    onError("活动结束时间必须晚于开始时间");
+    return;
+  }
+  if (!counters || counters.length === 0) {
+    onError("计数项格式应为每行「名称:上限」");
+    return;
+  }
+  const ok = await sync(
+    appActions.upsertEvent({
+      id: eventDraft.id ?? undefined,
+      title,
+      startAt: startAt.toISOString(),
+      endAt: endAt.toISOString(),
+      resetCadence: eventDraft.resetCadence,
+      counters,
+      rewardNote: eventDraft.rewardNote.trim(),
+    }),
+    eventDraft.id ? "活动已更新" : "活动已新增",
+  );
+  if (ok) {
+    onSaved();
+  }
+}
+
+interface DeleteEventParams {
+  event: EventDefinition;
+  appActions: AppActions;
+  sync: SyncRunner;
+  confirm: (message: string) => boolean;
+}
+
+export async function deleteEventAction(params: DeleteEventParams): Promise<void> {
+  const { event, appActions, sync, confirm } = params;
+  const ok = confirm(`确认删除活动「${event.title}」？各角色的活动进度会一并移除，可通过撤销恢复。`);
+  if (!ok) return;
+  await sync(appActions.deleteEvent(event.id), "活动已删除");
+}
+
 interface ExportDashboardDataParams {
   appActions: AppActions;
   onBusyChange: (busy: boolean) => void;
@@ -228,7 +434,261 @@ export async function exportDashboardDataAction(params: ExportDashboardDataParam
   }
 }
 
+interface ExportEncryptedDataParams extends ExportDashboardDataParams {
+  passphrase: string;
+  confirmPassphrase: string;
+  onExported: () => void;
+}
+
+export async function exportEncryptedDashboardDataAction(params: ExportEncryptedDataParams): Promise<void> {
+  const { passphrase, confirmPassphrase, appActions, onBusyChange, onError, onInfoMessage, onExported } = params;
+  if (passphrase.length < BACKUP_PASSPHRASE_MIN_LENGTH) {
+    onError(`备份密码至少 ${BACKUP_PASSPHRASE_MIN_LENGTH} 位`);
+    return;
+  }
+  if (passphrase !== confirmPassphrase) {
+    onError("两次输入的备份密码不一致");
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.exportData({ passphrase });
+    onExported();
+    if (result.cancelled) {
+      return;
+    }
+    onInfoMessage(`加密备份已导出: ${result.path}（请妥善保管密码，遗失后无法恢复）`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "导出失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+export async function exportWeeklyPlanAction(params: ExportDashboardDataParams): Promise<void> {
+  const { appActions, onBusyChange, onError, onInfoMessage } = params;
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.exportWeeklyPlan();
+    if (result.cancelled) {
+      return;
+    }
+    onInfoMessage(`副本清单已导出: ${result.path}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "导出副本清单失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
 interface ImportDashboardDataParams {
+  appActions: AppActions;
+  onBusyChange: (busy: boolean) => void;
+  onError: (message: string | null) => void;
+  onInfoMessage: (message: string | null) => void;
+  onPreviewReady: (preview: ImportPreview) => void;
+}
+
+interface ImportDashboardDataWithPassphraseParams extends ImportDashboardDataParams {
+  onPassphraseRequired: (request: ImportPassphraseRequest) => void;
+}
+
+export async function importDashboardDataAction(params: ImportDashboardDataWithPassphraseParams): Promise<void> {
+  const { appActions, onBusyChange, onError, onInfoMessage, onPreviewReady, onPassphraseRequired } = params;
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.previewImportData();
+    if (result.passphraseRequest) {
+      onPassphraseRequired(result.passphraseRequest);
+      return;
+    }
+    if (result.cancelled || !result.preview) {
+      return;
+    }
+    onPreviewReady(result.preview);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "导入失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface UnlockImportDataParams extends ImportDashboardDataParams {
+  request: ImportPassphraseRequest;
+  passphrase: string;
+}
+
+export async function unlockImportDataAction(params: UnlockImportDataParams): Promise<void> {
+  const { request, passphrase, appActions, onBusyChange, onError, onInfoMessage, onPreviewReady } = params;
+  if (!passphrase) {
+    onError("请输入备份密码");
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.unlockImportData({ token: request.token, passphrase });
+    if (result.preview) {
+      onPreviewReady(result.preview);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "解密备份失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface LoadRestorePointsParams {
+  appActions: AppActions;
+  onBusyChange: (busy: boolean) => void;
+  onError: (message: string | null) => void;
+  onLoaded: (points: RestorePoint[]) => void;
+}
+
+export async function loadRestorePointsAction(params: LoadRestorePointsParams): Promise<void> {
+  const { appActions, onBusyChange, onError, onLoaded } = params;
+  onBusyChange(true);
+  try {
+    onLoaded(await appActions.listRestorePoints());
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "读取还原点失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+function toOperationJournalQuery(filter: OperationJournalFilterDraft): OperationJournalQuery {
+  return {
+    characterId: filter.characterId || undefined,
+    action: filter.action || undefined,
+    keyword: filter.keyword.trim() || undefined,
+    from: filter.from || undefined,
+    to: filter.to || undefined,
+  };
+}
+
+interface LoadOperationJournalParams {
+  filter: OperationJournalFilterDraft;
+  appActions: AppActions;
+  onBusyChange: (busy: boolean) => void;
+  onError: (message: string | null) => void;
+  onLoaded: (result: OperationJournalQueryResult) => void;
+}
+
+export async function loadOperationJournalAction(params: LoadOperationJournalParams): Promise<void> {
+  const { filter, appActions, onBusyChange, onError, onLoaded } = params;
+  onBusyChange(true);
+  onError(null);
+  try {
+    onLoaded(await appActions.queryOperationJournal(toOperationJournalQuery(filter)));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "读取操作日志失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface ExportOperationJournalParams extends ExportDashboardDataParams {
+  filter: OperationJournalFilterDraft;
+}
+
+export async function exportOperationJournalAction(params: ExportOperationJournalParams): Promise<void> {
+  const { filter, appActions, onBusyChange, onError, onInfoMessage } = params;
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.exportOperationJournal(toOperationJournalQuery(filter));
+    if (result.cancelled) {
+      return;
+    }
+    onInfoMessage(`操作日志已导出: ${result.path}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "导出操作日志失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface PreviewRestorePointParams extends ImportDashboardDataParams {
+  point: RestorePoint;
+}
+
+export async function previewRestorePointAction(params: PreviewRestorePointParams): Promise<void> {
+  const { point, appActions, onBusyChange, onError, onInfoMessage, onPreviewReady } = params;
+  if (point.error) {
+    onError(`还原点不可用: ${point.error}`);
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.previewRestorePoint(point.fileName);
+    if (result.cancelled || !result.preview) {
+      return;
+    }
+    onPreviewReady(result.preview);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "读取还原点失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface ApplyImportSelectionParams {
+  importSelectionDraft: ImportSelectionDraft | null;
+  appActions: AppActions;
+  sync: SyncRunner;
+  onError: (message: string) => void;
+  onApplied: () => void;
+}
+
+export async function applyImportSelectionAction(params: ApplyImportSelectionParams): Promise<void> {
+  const { importSelectionDraft, appActions, sync, onError, onApplied } = params;
+  if (!importSelectionDraft) return;
+  const accounts = importSelectionDraft.preview.accounts.map((account) => {
+    const selection = importSelectionDraft.accounts[account.id] ?? { mode: "skip" as const, characterIds: [] };
+    return { accountId: account.id, mode: selection.mode, characterIds: selection.characterIds };
+  });
+  if (
+    !importSelectionDraft.includeSettings &&
+    !importSelectionDraft.includeWorkshop &&
+    accounts.every((item) => item.mode === "skip")
+  ) {
+    onError("请至少选择一个要导入的账号、设置或工坊数据");
+    return;
+  }
+  const ok = await sync(
+    appActions.applyImportSelection({
+      token: importSelectionDraft.preview.token,
+      accounts,
+      includeSettings: importSelectionDraft.includeSettings,
+      includeWorkshop: importSelectionDraft.includeWorkshop,
+    }),
+    `导入成功: ${importSelectionDraft.preview.path}`,
+  );
+  if (ok) {
+    onApplied();
+  }
+}
+
+interface ImportSeasonRulesParams {
   appActions: AppActions;
   onBusyChange: (busy: boolean) => void;
   onError: (message: string | null) => void;
@@ -236,28 +696,93 @@ interface ImportDashboardDataParams {
   onStateImported: (nextState: AppState) => void;
 }
 
-export async function importDashboardDataAction(params: ImportDashboardDataParams): Promise<void> {
+export async function importSeasonRulesAction(params: ImportSeasonRulesParams): Promise<void> {
   const { appActions, onBusyChange, onError, onInfoMessage, onStateImported } = params;
   onBusyChange(true);
   onError(null);
   onInfoMessage(null);
   try {
-    const result = await appActions.importData();
+    const result = await appActions.importSeasonRules();
     if (result.cancelled) {
       return;
     }
     if (result.state) {
       onStateImported(result.state);
     }
-    onInfoMessage(`导入成功: ${result.path}`);
+    onInfoMessage(`赛季规则已导入: ${result.state?.seasonRules.name ?? result.path}`);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "导入失败";
+    const message = err instanceof Error ? err.message : "赛季规则导入失败";
     onError(message);
   } finally {
     onBusyChange(false);
   }
 }
 
+interface ResetSeasonRulesParams {
+  appActions: AppActions;
+  sync: SyncRunner;
+  confirm: (message: string) => boolean;
+}
+
+export async function resetSeasonRulesAction(params: ResetSeasonRulesParams): Promise<void> {
+  const { appActions, sync, confirm } = params;
+  const ok = confirm("确认恢复内置默认赛季规则？可通过撤销恢复。");
+  if (!ok) return;
+  await sync(appActions.resetSeasonRules(), "已恢复默认赛季规则");
+}
+
+interface ScheduleSeasonRulesParams {
+  effectiveAtInput: string;
+  appActions: AppActions;
+  onBusyChange: (busy: boolean) => void;
+  onError: (message: string | null) => void;
+  onInfoMessage: (message: string | null) => void;
+  onStateImported: (nextState: AppState) => void;
+}
+
+export async function scheduleSeasonRulesAction(params: ScheduleSeasonRulesParams): Promise<void> {
+  const { effectiveAtInput, appActions, onBusyChange, onError, onInfoMessage, onStateImported } = params;
+  const effectiveAt = new Date(effectiveAtInput);
+  if (!effectiveAtInput.trim() || Number.isNaN(effectiveAt.getTime())) {
+    onError("请先填写赛季规则生效时间");
+    return;
+  }
+  if (effectiveAt.getTime() <= Date.now()) {
+    onError("赛季规则生效时间必须晚于当前时间");
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.importSeasonRules(effectiveAt.toISOString());
+    if (result.cancelled) {
+      return;
+    }
+    if (result.state) {
+      onStateImported(result.state);
+    }
+    onInfoMessage(`已计划赛季规则切换: ${effectiveAt.toLocaleString("zh-CN")}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "赛季规则导入失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface CancelScheduledSeasonRulesParams {
+  state: AppState | null;
+  appActions: AppActions;
+  sync: SyncRunner;
+}
+
+export async function cancelScheduledSeasonRulesAction(params: CancelScheduledSeasonRulesParams): Promise<void> {
+  const { state, appActions, sync } = params;
+  if (!state?.scheduledSeasonRules) return;
+  await sync(appActions.cancelScheduledSeasonRules(), "已取消赛季规则切换");
+}
+
 interface CheckAppUpdateParams {
   appActions: AppActions;
   onBusyChange: (busy: boolean) => void;
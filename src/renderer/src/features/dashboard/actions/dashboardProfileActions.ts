@@ -0,0 +1,156 @@
+import type { AppState, ProfileListResult, ProfileSummary } from "../../../../../shared/types";
+
+type AppActions = NonNullable<Window["aionApi"]>;
+
+interface ProfileActionBaseParams {
+  appActions: AppActions;
+  onBusyChange: (busy: boolean) => void;
+  onError: (message: string | null) => void;
+}
+
+interface LoadProfilesParams extends ProfileActionBaseParams {
+  onLoaded: (result: ProfileListResult) => void;
+}
+
+export async function loadProfilesAction(params: LoadProfilesParams): Promise<void> {
+  const { appActions, onBusyChange, onError, onLoaded } = params;
+  onBusyChange(true);
+  try {
+    onLoaded(await appActions.listProfiles());
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "读取档案列表失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface SwitchProfileParams extends ProfileActionBaseParams {
+  profile: ProfileSummary;
+  onInfoMessage: (message: string | null) => void;
+  onSwitched: (result: ProfileListResult, state: AppState) => void;
+}
+
+export async function switchProfileAction(params: SwitchProfileParams): Promise<void> {
+  const { profile, appActions, onBusyChange, onError, onInfoMessage, onSwitched } = params;
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.switchProfile(profile.id);
+    onSwitched(result, await appActions.getState());
+    onInfoMessage(`已切换到档案: ${profile.name}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "切换档案失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface CreateProfileParams extends ProfileActionBaseParams {
+  name: string;
+  onInfoMessage: (message: string | null) => void;
+  onSaved: (result: ProfileListResult) => void;
+}
+
+export async function createProfileAction(params: CreateProfileParams): Promise<void> {
+  const { name, appActions, onBusyChange, onError, onInfoMessage, onSaved } = params;
+  if (!name.trim()) {
+    onError("请输入档案名称");
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    onSaved(await appActions.createProfile(name.trim()));
+    onInfoMessage(`已新建档案: ${name.trim()}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "新建档案失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface RenameProfileParams extends ProfileActionBaseParams {
+  profileId: string;
+  name: string;
+  onSaved: (result: ProfileListResult) => void;
+}
+
+export async function renameProfileAction(params: RenameProfileParams): Promise<void> {
+  const { profileId, name, appActions, onBusyChange, onError, onSaved } = params;
+  if (!name.trim()) {
+    onError("请输入档案名称");
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  try {
+    onSaved(await appActions.renameProfile(profileId, name.trim()));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "重命名档案失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface DeleteProfileParams extends ProfileActionBaseParams {
+  profile: ProfileSummary;
+  onInfoMessage: (message: string | null) => void;
+  onSaved: (result: ProfileListResult) => void;
+  confirm: (message: string) => boolean;
+}
+
+export async function deleteProfileAction(params: DeleteProfileParams): Promise<void> {
+  const { profile, appActions, onBusyChange, onError, onInfoMessage, onSaved, confirm } = params;
+  if (!confirm(`删除档案「${profile.name}」会同时删除该档案的全部角色与工坊数据（自动备份保留），确定继续？`)) {
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    onSaved(await appActions.deleteProfile(profile.id));
+    onInfoMessage(`已删除档案: ${profile.name}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "删除档案失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
+
+interface ImportProfileParams extends ProfileActionBaseParams {
+  name: string;
+  passphrase: string;
+  onInfoMessage: (message: string | null) => void;
+  onSwitched: (result: ProfileListResult, state: AppState) => void;
+}
+
+export async function importProfileAction(params: ImportProfileParams): Promise<void> {
+  const { name, passphrase, appActions, onBusyChange, onError, onInfoMessage, onSwitched } = params;
+  if (!name.trim()) {
+    onError("请输入档案名称");
+    return;
+  }
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.importProfile({ name: name.trim(), passphrase: passphrase || undefined });
+    if (result.cancelled || !result.profiles) {
+      return;
+    }
+    onSwitched(result.profiles, await appActions.getState());
+    onInfoMessage(`已从备份新建档案「${name.trim()}」: ${result.path}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "导入档案失败";
+    onError(message);
+  } finally {
+    onBusyChange(false);
+  }
+}
@@ -1,5 +1,11 @@
 import type { DragEvent } from "react";
-import type { AppState, TaskActionKind, TaskDefinition, TaskId } from "../../../../../shared/types";
+import type {
+  AppState,
+  BatchTaskActionFailure,
+  TaskActionKind,
+  TaskDefinition,
+  TaskId,
+} from "../../../../../shared/types";
 import type { OverviewSortKey, QuickTaskId } from "../dashboard-types";
 import { getQuickActionsForTask, toInt } from "../dashboard-utils";
 
@@ -85,6 +91,25 @@ export function endOverviewCardDragAction(params: EndOverviewCardDragParams): vo
   onDragStateReset();
 }
 
+interface ApplyEventProgressParams {
+  characterId: string;
+  eventId: string;
+  counterLabel: string;
+  amount: number;
+  characterNameById: Map<string, string>;
+  appActions: AppActions;
+  sync: SyncRunner;
+}
+
+export function applyEventProgressAction(params: ApplyEventProgressParams): void {
+  const { characterId, eventId, counterLabel, amount, characterNameById, appActions, sync } = params;
+  const characterName = characterNameById.get(characterId) ?? "角色";
+  void sync(
+    appActions.applyEventProgress({ characterId, eventId, counterLabel, amount }),
+    `${characterName} ${counterLabel} 已录入`,
+  );
+}
+
 interface ApplyQuickEntryParams {
   state: AppState | null;
   selectedCharacterId: string | null;
@@ -184,3 +209,77 @@ export function applyQuickEntryAction(params: ApplyQuickEntryParams): void {
     `${characterName} ${task.title} 已录入`,
   );
 }
+
+interface ApplyBatchTaskParams {
+  characterIds: string[];
+  taskId: TaskId;
+  action: TaskActionKind;
+  amount: number;
+  taskById: Map<TaskId, TaskDefinition>;
+  appActions: AppActions;
+  onBusyChange: (busy: boolean) => void;
+  onError: (message: string | null) => void;
+  onInfoMessage: (message: string | null) => void;
+  onStateChange: (nextState: AppState) => void;
+  onFailures: (failures: BatchTaskActionFailure[]) => void;
+}
+
+export async function applyBatchTaskAction(params: ApplyBatchTaskParams): Promise<void> {
+  const {
+    characterIds,
+    taskId,
+    action,
+    amount,
+    taskById,
+    appActions,
+    onBusyChange,
+    onError,
+    onInfoMessage,
+    onStateChange,
+    onFailures,
+  } = params;
+  if (characterIds.length === 0) {
+    onError("请先勾选要批量操作的角色");
+    return;
+  }
+  const task = taskById.get(taskId);
+  if (!task) {
+    onError("请选择有效内容");
+    return;
+  }
+  if (!getQuickActionsForTask(task).includes(action)) {
+    onError("该内容不支持当前动作");
+    return;
+  }
+  if (action !== "set_completed" && amount <= 0) {
+    onError("次数必须大于 0");
+    return;
+  }
+
+  onBusyChange(true);
+  onError(null);
+  onInfoMessage(null);
+  try {
+    const result = await appActions.applyBatchTaskAction({
+      characterIds,
+      taskId,
+      action,
+      amount: action === "set_completed" && task.setCompletedTotal ? Math.min(amount, task.setCompletedTotal) : amount,
+    });
+    onStateChange(result.state);
+    onFailures(result.failures);
+    if (result.appliedCharacterIds.length === 0) {
+      onError(`批量${task.title}失败：${result.failures.length} 个角色均未生效`);
+      return;
+    }
+    onInfoMessage(
+      result.failures.length > 0
+        ? `批量${task.title}: ${result.appliedCharacterIds.length} 个角色成功，${result.failures.length} 个失败`
+        : `批量${task.title}: ${result.appliedCharacterIds.length} 个角色已录入`,
+    );
+  } catch (err) {
+    onError(err instanceof Error ? err.message : "批量操作失败");
+  } finally {
+    onBusyChange(false);
+  }
+}
@@ -1,9 +1,36 @@
-import type { AccountState, AppState, CharacterState, TaskActionKind, TaskDefinition, TaskId } from "../../../../../shared/types";
-import type { CorridorDraft, DialogState, OverviewSortKey, QuickTaskId, SettingsDraft } from "../dashboard-types";
+import type {
+  AccountState,
+  AppState,
+  CharacterState,
+  OperationJournalQueryResult,
+  ProfileListResult,
+  BatchTaskActionFailure,
+  RestorePoint,
+  TaskActionKind,
+  TaskDefinition,
+  TaskId,
+} from "../../../../../shared/types";
+import type {
+  AccountServerDraft,
+  BackupPassphrasePrompt,
+  CorridorDraft,
+  CustomTaskDraft,
+  DialogState,
+  EventDraft,
+  GoldLedgerDraft,
+  ImportSelectionDraft,
+  OperationJournalFilterDraft,
+  OverviewSortKey,
+  ProfileDraft,
+  QuickTaskId,
+  SettingsDraft,
+  TicketTransferDraft,
+} from "../dashboard-types";
 import { createDashboardAccountResourceHandlers } from "./createDashboardAccountResourceHandlers";
 import { createDashboardDialogHandlers } from "./createDashboardDialogHandlers";
 import { createDashboardMaintenanceHandlers } from "./createDashboardMaintenanceHandlers";
 import { createDashboardOverviewHandlers } from "./createDashboardOverviewHandlers";
+import { createDashboardProfileHandlers } from "./createDashboardProfileHandlers";
 import { useDashboardSync } from "./useDashboardSync";
 
 type AppActions = NonNullable<Window["aionApi"]>;
@@ -13,6 +40,14 @@ interface UseDashboardHandlersParams {
   state: AppState | null;
   dialog: DialogState | null;
   settingsDraft: SettingsDraft | null;
+  seasonRuleEffectiveAtInput: string;
+  customTaskDraft: CustomTaskDraft;
+  eventDraft: EventDraft;
+  importSelectionDraft: ImportSelectionDraft | null;
+  passphrasePrompt: BackupPassphrasePrompt | null;
+  journalFilter: OperationJournalFilterDraft;
+  profileList: ProfileListResult | null;
+  profileDraft: ProfileDraft;
   selectedCharacter: CharacterState | null;
   selectedAccount: AccountState | null;
   taskById: Map<TaskId, TaskDefinition>;
@@ -26,6 +61,7 @@ interface UseDashboardHandlersParams {
   quickAction: TaskActionKind;
   quickAmountInput: string;
   quickCorridorTask: { title: string; lane: "lower" | "middle" } | null;
+  batchCharacterIds: string[];
   characterNameById: Map<string, string>;
   weeklyExpeditionCompletedInput: string;
   weeklyTranscendenceCompletedInput: string;
@@ -34,17 +70,23 @@ interface UseDashboardHandlersParams {
   newAccountRegion: string;
   accountNameInput: string;
   accountRegionInput: string;
+  accountTagsInput: string;
+  serverDraft: AccountServerDraft;
   canAddCharacterInSelectedAccount: boolean;
   newCharacterName: string;
+  newCharacterServerId: string;
   renameInput: string;
   profileClassTagInput: string;
   profileGearScoreInput: string;
+  profileTagsInput: string;
   shopAodePurchaseUsedInput: string;
   shopUnknownChallengeTicketUsedInput: string;
   shopExpeditionChoiceBoxUsedInput: string;
   shopNightmareInstantUsedInput: string;
   shopAbyssReplenishUsedInput: string;
   transformAodeUsedInput: string;
+  ticketTransferDraft: TicketTransferDraft;
+  goldLedgerDraft: GoldLedgerDraft;
   setBusy: (busy: boolean) => void;
   setError: (message: string | null) => void;
   setDialogError: (message: string | null) => void;
@@ -52,19 +94,32 @@ interface UseDashboardHandlersParams {
   setState: (state: AppState) => void;
   setDialog: (dialog: DialogState | null) => void;
   setCorridorDraft: (updater: (prev: CorridorDraft) => CorridorDraft) => void;
+  setCustomTaskDraft: (draft: CustomTaskDraft) => void;
+  setEventDraft: (draft: EventDraft) => void;
+  setImportSelectionDraft: (draft: ImportSelectionDraft | null) => void;
+  setRestorePoints: (points: RestorePoint[]) => void;
+  setPassphrasePrompt: (prompt: BackupPassphrasePrompt | null) => void;
+  setOperationJournal: (result: OperationJournalQueryResult) => void;
+  setProfileList: (result: ProfileListResult) => void;
+  setProfileDraft: (draft: ProfileDraft) => void;
   setDashboardMode: (mode: "overview" | "character") => void;
   setDraggingCharacterId: (characterId: string | null) => void;
   setDragOverCharacterId: (characterId: string | null) => void;
   setNewAccountName: (value: string) => void;
   setNewAccountRegion: (value: string) => void;
   setNewCharacterName: (value: string) => void;
+  setServerDraft: (draft: AccountServerDraft) => void;
+  setGoldLedgerDraft: (draft: GoldLedgerDraft) => void;
+  setBatchCharacterIds: (characterIds: string[]) => void;
+  setBatchFailures: (failures: BatchTaskActionFailure[]) => void;
   confirm: (message: string) => boolean;
 }
 
 type DashboardHandlers = ReturnType<typeof createDashboardDialogHandlers> &
   ReturnType<typeof createDashboardOverviewHandlers> &
   ReturnType<typeof createDashboardMaintenanceHandlers> &
-  ReturnType<typeof createDashboardAccountResourceHandlers>;
+  ReturnType<typeof createDashboardAccountResourceHandlers> &
+  ReturnType<typeof createDashboardProfileHandlers>;
 
 export function useDashboardHandlers(params: UseDashboardHandlersParams): DashboardHandlers {
   const {
@@ -72,6 +127,14 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     state,
     dialog,
     settingsDraft,
+    seasonRuleEffectiveAtInput,
+    customTaskDraft,
+    eventDraft,
+    importSelectionDraft,
+    passphrasePrompt,
+    journalFilter,
+    profileList,
+    profileDraft,
     selectedCharacter,
     selectedAccount,
     taskById,
@@ -85,6 +148,7 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     quickAction,
     quickAmountInput,
     quickCorridorTask,
+    batchCharacterIds,
     characterNameById,
     weeklyExpeditionCompletedInput,
     weeklyTranscendenceCompletedInput,
@@ -93,17 +157,23 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     newAccountRegion,
     accountNameInput,
     accountRegionInput,
+    accountTagsInput,
+    serverDraft,
     canAddCharacterInSelectedAccount,
     newCharacterName,
+    newCharacterServerId,
     renameInput,
     profileClassTagInput,
     profileGearScoreInput,
+    profileTagsInput,
     shopAodePurchaseUsedInput,
     shopUnknownChallengeTicketUsedInput,
     shopExpeditionChoiceBoxUsedInput,
     shopNightmareInstantUsedInput,
     shopAbyssReplenishUsedInput,
     transformAodeUsedInput,
+    ticketTransferDraft,
+    goldLedgerDraft,
     setBusy,
     setError,
     setDialogError,
@@ -111,12 +181,24 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     setState,
     setDialog,
     setCorridorDraft,
+    setCustomTaskDraft,
+    setEventDraft,
+    setImportSelectionDraft,
+    setRestorePoints,
+    setPassphrasePrompt,
+    setOperationJournal,
+    setProfileList,
+    setProfileDraft,
     setDashboardMode,
     setDraggingCharacterId,
     setDragOverCharacterId,
     setNewAccountName,
     setNewAccountRegion,
     setNewCharacterName,
+    setServerDraft,
+    setGoldLedgerDraft,
+    setBatchCharacterIds,
+    setBatchFailures,
     confirm,
   } = params;
 
@@ -132,6 +214,7 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     dialog,
     selectedCharacter,
     selectedAccountId: selectedAccount?.id ?? null,
+    serverTimeZone: state?.settings.serverTimeZone ?? null,
     corridorDraft,
     taskById,
     appActions,
@@ -153,6 +236,7 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     quickAction,
     quickAmountInput,
     quickCorridorTask,
+    batchCharacterIds,
     characterNameById,
     taskById,
     appActions,
@@ -160,7 +244,12 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     setDashboardMode,
     setDraggingCharacterId,
     setDragOverCharacterId,
-    setError: (message) => setError(message),
+    setError,
+    setBusy,
+    setInfoMessage,
+    setState,
+    setBatchCharacterIds,
+    setBatchFailures,
   });
 
   const maintenanceHandlers = createDashboardMaintenanceHandlers({
@@ -170,12 +259,24 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     weeklyTranscendenceCompletedInput,
     undoStepsInput,
     settingsDraft,
+    seasonRuleEffectiveAtInput,
+    customTaskDraft,
+    eventDraft,
+    importSelectionDraft,
+    passphrasePrompt,
+    journalFilter,
     appActions,
     sync,
     setBusy,
     setError,
     setInfoMessage,
     setState,
+    setCustomTaskDraft,
+    setEventDraft,
+    setImportSelectionDraft,
+    setRestorePoints,
+    setPassphrasePrompt,
+    setOperationJournal,
     confirm,
   });
 
@@ -185,19 +286,26 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     selectedAccount,
     accountNameInput,
     accountRegionInput,
+    accountTagsInput,
+    serverDraft,
     canAddCharacterInSelectedAccount,
     newCharacterName,
+    newCharacterServerId,
     selectedCharacter,
     renameInput,
     profileClassTagInput,
     profileGearScoreInput,
+    profileTagsInput,
     corridorDraft,
+    serverTimeZone: state?.settings.serverTimeZone ?? null,
     shopAodePurchaseUsedInput,
     shopUnknownChallengeTicketUsedInput,
     shopExpeditionChoiceBoxUsedInput,
     shopNightmareInstantUsedInput,
     shopAbyssReplenishUsedInput,
     transformAodeUsedInput,
+    ticketTransferDraft,
+    goldLedgerDraft,
     appActions,
     sync,
     setDashboardMode,
@@ -205,6 +313,21 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     setNewAccountName,
     setNewAccountRegion,
     setNewCharacterName,
+    setServerDraft,
+    setGoldLedgerDraft,
+    confirm,
+  });
+
+  const profileHandlers = createDashboardProfileHandlers({
+    profileList,
+    profileDraft,
+    appActions,
+    setBusy,
+    setError,
+    setInfoMessage,
+    setState,
+    setProfileList,
+    setProfileDraft,
     confirm,
   });
 
@@ -213,5 +336,6 @@ export function useDashboardHandlers(params: UseDashboardHandlersParams): Dashbo
     ...overviewHandlers,
     ...maintenanceHandlers,
     ...accountResourceHandlers,
+    ...profileHandlers,
   };
 }
@@ -0,0 +1,24 @@
+import type { OverviewSavedView } from "./dashboard-types";
+import { normalizeOverviewSavedViews } from "./dashboard-utils";
+
+export const OVERVIEW_SAVED_VIEWS_STORAGE_KEY = "dashboard.overviewSavedViews";
+
+export const serializeOverviewSavedViews = (value: Record<string, OverviewSavedView[]>): string => JSON.stringify(value);
+
+export function readStoredOverviewSavedViews(): Record<string, OverviewSavedView[]> {
+  try {
+    const raw = window.localStorage.getItem(OVERVIEW_SAVED_VIEWS_STORAGE_KEY);
+    if (!raw) {
+      return {};
+    }
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, unknown>).map(([profileId, views]) => [profileId, normalizeOverviewSavedViews(views)]),
+    );
+  } catch {
+    return {};
+  }
+}
@@ -1,13 +1,28 @@
-import type { TaskDefinition, TaskId } from "../../../../shared/types";
+import type { HistoryEntryDiff } from "../../../../shared/history-diff";
+import type { TicketInventoryRow } from "../../../../shared/ticket-inventory";
+import type {
+  CustomTaskId,
+  CustomTaskResetCadence,
+  EventDefinition,
+  GoldLedgerSource,
+  ImportMergeMode,
+  ImportPreview,
+  OperationLogEntry,
+  TaskActionKind,
+  TaskDefinition,
+  TaskId,
+} from "../../../../shared/types";
 
 export type ViewMode = "dashboard" | "settings" | "workshop";
 export type DashboardMode = "overview" | "character";
-export type OverviewSortKey = "manual" | "ready" | "account" | "region";
+export type OverviewSortKey = "manual" | "ready" | "account" | "region" | "tag";
 export type OverviewTaskFilter = "all" | "dungeon" | "weekly" | "mission";
 export type QuickTaskId = TaskId | "corridor_lower" | "corridor_middle";
-export const MAX_CHARACTERS_PER_ACCOUNT = 8;
 export const NO_REGION_FILTER = "__none__";
+export const NO_TAG_FILTER = "__untagged__";
+export const OVERVIEW_SAVED_VIEW_LIMIT = 20;
 export const COUNT_SELECT_MAX = 100;
+export const HISTORY_PANEL_LIMIT = 50;
 
 export type DialogState =
   | { kind: "complete"; taskId: TaskId; title: string; amount: string }
@@ -44,6 +59,8 @@ export type DialogState =
 export interface SettingsDraft {
   expeditionGoldPerRun: string;
   transcendenceGoldPerRun: string;
+  dailyDungeonGoldPerRun: string;
+  nightmareGoldPerRun: string;
   expeditionRunCap: string;
   transcendenceRunCap: string;
   nightmareRunCap: string;
@@ -57,6 +74,10 @@ export interface SettingsDraft {
   priorityWeightWeekly: string;
   priorityWeightMission: string;
   priorityWeightLeisure: string;
+  serverTimeZone: string;
+  autoBackupKeepDaily: string;
+  autoBackupKeepWeekly: string;
+  autoBackupKeepMonthly: string;
 }
 
 export interface CorridorDraft {
@@ -66,29 +87,171 @@ export interface CorridorDraft {
   completeAmount: string;
 }
 
+export interface TicketTransferDraft {
+  slot: string;
+  sourceCharacterId: string;
+  count: string;
+}
+
+export const DEFAULT_TICKET_TRANSFER_DRAFT: TicketTransferDraft = {
+  slot: "expedition_choice_box:transcendence",
+  sourceCharacterId: "",
+  count: "1",
+};
+
+export interface GoldLedgerDraft {
+  source: GoldLedgerSource;
+  runs: string;
+  amount: string;
+  note: string;
+}
+
+export const DEFAULT_GOLD_LEDGER_DRAFT: GoldLedgerDraft = {
+  source: "transcendence",
+  runs: "1",
+  amount: "",
+  note: "",
+};
+
+export interface CustomTaskDraft {
+  id: CustomTaskId | null;
+  title: string;
+  category: TaskDefinition["category"];
+  resetCadence: CustomTaskResetCadence;
+  cap: string;
+  energyCost: string;
+  goldReward: string;
+  hasTicket: boolean;
+}
+
+export interface EventDraft {
+  id: string | null;
+  title: string;
+  startAt: string;
+  endAt: string;
+  resetCadence: CustomTaskResetCadence;
+  countersText: string;
+  rewardNote: string;
+}
+
+export type BackupPassphrasePrompt =
+  | { kind: "export"; passphrase: string; confirmPassphrase: string }
+  | { kind: "import"; token: string; path: string; passphrase: string };
+
+export interface OperationJournalFilterDraft {
+  characterId: string;
+  action: string;
+  keyword: string;
+  from: string;
+  to: string;
+}
+
+export interface ProfileDraft {
+  createName: string;
+  importName: string;
+  importPassphrase: string;
+  editingId: string | null;
+  editingName: string;
+}
+
+export interface ImportSelectionDraft {
+  preview: ImportPreview;
+  accounts: Record<string, { mode: ImportMergeMode; characterIds: string[] }>;
+  includeSettings: boolean;
+  includeWorkshop: boolean;
+}
+
+export interface OverviewFilterState {
+  sortKey: OverviewSortKey;
+  taskFilter: OverviewTaskFilter;
+  accountFilter: string;
+  regionFilter: string;
+  tagFilter: string;
+}
+
+export interface OverviewSavedView extends OverviewFilterState {
+  id: string;
+  name: string;
+}
+
 export interface AccountEditorDraft {
   name: string;
   regionTag: string;
+  tagsText: string;
+}
+
+export interface AccountServerDraft {
+  serverId: string;
+  name: string;
+  characterSlots: string;
 }
 
-export type PriorityTone = "high" | "medium" | "low";
+export interface HistoryRowModel {
+  entry: OperationLogEntry;
+  characterName: string;
+  diff: HistoryEntryDiff;
+  revertBlockedReason: string | null;
+}
+
+export interface WeeklyTrendPoint {
+  weekEndedAt: string;
+  goldEarned: number | null;
+  completionCount: number | null;
+}
 
-export interface PriorityTodoItem {
+export interface WeeklyTrendRow {
   id: string;
-  title: string;
-  subtitle: string;
-  detail: string;
-  score: number;
-  tone: PriorityTone;
+  name: string;
+  points: WeeklyTrendPoint[];
+  goldDelta: number | null;
 }
 
-export type PriorityWeightKey = "aode" | "sanctum" | "corridor" | "dungeon" | "weekly" | "mission" | "leisure";
+export interface WeeklyTrendModel {
+  weekKeys: string[];
+  characterRows: WeeklyTrendRow[];
+  accountRows: WeeklyTrendRow[];
+}
+
+export interface ActiveEventRow {
+  characterId: string;
+  characterName: string;
+  accountName: string;
+  counters: Array<{ label: string; current: number; total: number }>;
+  remaining: number;
+}
+
+export interface ActiveEventModel {
+  event: EventDefinition;
+  endsInMs: number;
+  endingSoon: boolean;
+  rows: ActiveEventRow[];
+}
+
+export interface TicketInventoryGroupModel {
+  accountId: string;
+  serverId: string;
+  title: string;
+  rows: TicketInventoryRow[];
+}
 
 export const QUICK_CORRIDOR_TASKS: Record<"corridor_lower" | "corridor_middle", { title: string; lane: "lower" | "middle" }> = {
   corridor_lower: { title: "回廊完成(下层)", lane: "lower" },
   corridor_middle: { title: "回廊完成(中层)", lane: "middle" },
 };
 
+export interface BatchTaskPreset {
+  id: string;
+  label: string;
+  taskId: TaskId;
+  action: TaskActionKind;
+  amount: number;
+}
+
+export const BATCH_TASK_PRESETS: BatchTaskPreset[] = [
+  { id: "daily-mission-done", label: "每日使命全部完成", taskId: "daily_mission", action: "set_completed", amount: 5 },
+  { id: "nightmare-ticket", label: "恶梦吃 1 张券", taskId: "nightmare", action: "use_ticket", amount: 1 },
+];
+
 export const PRIORITY_SETTING_FIELDS = [
   { key: "priorityWeightAode", label: "奥德清体力" },
   { key: "priorityWeightSanctum", label: "圣域周本" },
@@ -1,6 +1,29 @@
 import { describe, expect, it } from "vitest";
-import { TASK_DEFINITIONS } from "../../../../shared/constants";
-import { getQuickActionsForTask } from "./dashboard-utils";
+import {
+  APP_STATE_VERSION,
+  DEFAULT_SETTINGS,
+  TASK_DEFINITIONS,
+  createDefaultAccount,
+  createDefaultCharacter,
+  createEmptyWeeklyStats,
+} from "../../../../shared/constants";
+import { DEFAULT_SEASON_RULE_SET } from "../../../../shared/season-rules";
+import type { AppState, CharacterState } from "../../../../shared/types";
+import type { OverviewFilterState } from "./dashboard-types";
+import {
+  buildWeeklyTrendModel,
+  getQuickActionsForTask,
+  normalizeOverviewSavedViews,
+  parseEventCountersText,
+  upsertOverviewSavedView,
+} from "./dashboard-utils";
+
+function archived(character: CharacterState, cycleEndedAt: string, goldEarned: number, expeditionRuns: number): void {
+  const stats = createEmptyWeeklyStats("2026-02-18T00:00:00.000Z");
+  stats.goldEarned = goldEarned;
+  stats.completions.expedition = expeditionRuns;
+  character.statsHistory.push({ ...stats, cycleEndedAt });
+}
 
 describe("dashboard-utils", () => {
   it("offers incremental quick entry before direct set-completed for daily mission", () => {
@@ -8,4 +31,65 @@ describe("dashboard-utils", () => {
     expect(task).toBeTruthy();
     expect(getQuickActionsForTask(task!)).toEqual(["complete_once", "set_completed"]);
   });
+
+  it("aligns archived weeks per character and sums them per account", () => {
+    const nowIso = "2026-03-04T06:00:00.000Z";
+    const first = createDefaultCharacter("一号", nowIso, "char-1", "acc-1");
+    const second = createDefaultCharacter("二号", nowIso, "char-2", "acc-1");
+    archived(first, "2026-02-25T05:00:00.000Z", 100, 2);
+    archived(first, "2026-03-04T05:00:00.000Z", 250, 5);
+    archived(second, "2026-03-04T05:00:00.000Z", 50, 1);
+    const state: AppState = {
+      version: APP_STATE_VERSION,
+      selectedAccountId: "acc-1",
+      selectedCharacterId: "char-1",
+      settings: DEFAULT_SETTINGS,
+      seasonRules: DEFAULT_SEASON_RULE_SET,
+      scheduledSeasonRules: null,
+      customTasks: [],
+      events: [],
+      accounts: [createDefaultAccount("主号", "acc-1")],
+      characters: [first, second],
+      history: [],
+      redoHistory: [],
+    };
+
+    const model = buildWeeklyTrendModel(state);
+
+    expect(model.weekKeys).toEqual(["2026-02-25T05:00:00.000Z", "2026-03-04T05:00:00.000Z"]);
+    expect(model.characterRows[0].goldDelta).toBe(150);
+    expect(model.characterRows[1].points[0].goldEarned).toBeNull();
+    expect(model.characterRows[1].goldDelta).toBeNull();
+    expect(model.accountRows[0].points.map((point) => point.goldEarned)).toEqual([100, 300]);
+    expect(model.accountRows[0].points.map((point) => point.completionCount)).toEqual([2, 6]);
+    expect(model.accountRows[0].goldDelta).toBe(200);
+  });
+
+  it("parses event counter lines with either colon and rejects malformed lines", () => {
+    expect(parseEventCountersText("灯谜:3\n\n 兑换：1 ")).toEqual([
+      { label: "灯谜", cap: 3 },
+      { label: "兑换", cap: 1 },
+    ]);
+    expect(parseEventCountersText("灯谜")).toBeNull();
+  });
+
+  it("saves overview views by name and drops malformed stored entries", () => {
+    const filters: OverviewFilterState = {
+      sortKey: "tag",
+      taskFilter: "weekly",
+      accountFilter: "all",
+      regionFilter: "all",
+      tagFilter: "搬砖",
+    };
+    let id = 0;
+    const saved = upsertOverviewSavedView([], " 周常搬砖 ", filters, () => `view-${++id}`);
+    expect(saved).toEqual([{ ...filters, id: "view-1", name: "周常搬砖" }]);
+    const overwritten = upsertOverviewSavedView(saved, "周常搬砖", { ...filters, sortKey: "ready" }, () => `view-${++id}`);
+    expect(overwritten).toHaveLength(1);
+    expect(overwritten[0]).toMatchObject({ id: "view-1", sortKey: "ready" });
+
+    expect(
+      normalizeOverviewSavedViews([...saved, { id: "view-2", name: "旧", sortKey: "bogus" }, { id: "view-3" }, "x"]),
+    ).toEqual([...saved, { id: "view-2", name: "旧", sortKey: "manual", taskFilter: "all", accountFilter: "all", regionFilter: "all", tagFilter: "all" }]);
+  });
 });
@@ -1,9 +1,41 @@
 import {
   AODE_CONVERT_SERVER_LIMIT,
   AODE_SHOP_SERVER_LIMIT,
+  DEFAULT_SERVER_CHARACTER_SLOTS,
 } from "../../../../shared/constants";
-import type { AppSettings, AppState, TaskActionKind, TaskDefinition } from "../../../../shared/types";
-import type { CorridorDraft, PriorityTone, PriorityWeightKey, SettingsDraft } from "./dashboard-types";
+import type { PriorityTone } from "../../../../shared/priority-todo";
+import type {
+  AccountServerState,
+  AppSettings,
+  AppState,
+  CustomTaskDefinition,
+  EventCounterDefinition,
+  EventDefinition,
+  ImportPreview,
+  TaskActionKind,
+  TaskDefinition,
+} from "../../../../shared/types";
+import type {
+  AccountServerDraft,
+  CorridorDraft,
+  CustomTaskDraft,
+  EventDraft,
+  ImportSelectionDraft,
+  OperationJournalFilterDraft,
+  OverviewFilterState,
+  OverviewSavedView,
+  OverviewSortKey,
+  OverviewTaskFilter,
+  ProfileDraft,
+  SettingsDraft,
+  WeeklyTrendModel,
+  WeeklyTrendPoint,
+  WeeklyTrendRow,
+} from "./dashboard-types";
+import { OVERVIEW_SAVED_VIEW_LIMIT } from "./dashboard-types";
+
+export { formatCounter } from "../../../../shared/priority-todo";
+export { formatDuration } from "../../../../shared/time";
 
 const numberFormatter = new Intl.NumberFormat("zh-CN");
 
@@ -21,24 +53,6 @@ export function getQuickActionsForTask(task: TaskDefinition): TaskActionKind[] {
   return actions;
 }
 
-export function getPriorityWeightLevel(settings: AppSettings, key: PriorityWeightKey): number {
-  if (key === "aode") return settings.priorityWeightAode;
-  if (key === "sanctum") return settings.priorityWeightSanctum;
-  if (key === "corridor") return settings.priorityWeightCorridor;
-  if (key === "dungeon") return settings.priorityWeightDungeon;
-  if (key === "weekly") return settings.priorityWeightWeekly;
-  if (key === "mission") return settings.priorityWeightMission;
-  return settings.priorityWeightLeisure;
-}
-
-export function getPriorityWeightFactor(level: number): number {
-  if (level <= 1) return 0.7;
-  if (level === 2) return 0.85;
-  if (level === 3) return 1;
-  if (level === 4) return 1.2;
-  return 1.45;
-}
-
 export function toGoldText(value: number): string {
   const wanValue = value / 10_000;
   const text = Number.isInteger(wanValue) ? numberFormatter.format(wanValue) : wanValue.toFixed(1);
@@ -73,6 +87,8 @@ export function buildSettingsDraft(settings: AppSettings): SettingsDraft {
   return {
     expeditionGoldPerRun: String(settings.expeditionGoldPerRun / 10_000),
     transcendenceGoldPerRun: String(settings.transcendenceGoldPerRun / 10_000),
+    dailyDungeonGoldPerRun: String(settings.dailyDungeonGoldPerRun / 10_000),
+    nightmareGoldPerRun: String(settings.nightmareGoldPerRun / 10_000),
     expeditionRunCap: settings.expeditionRunCap === null ? "" : String(settings.expeditionRunCap),
     transcendenceRunCap: settings.transcendenceRunCap === null ? "" : String(settings.transcendenceRunCap),
     nightmareRunCap: settings.nightmareRunCap === null ? "" : String(settings.nightmareRunCap),
@@ -86,20 +102,13 @@ export function buildSettingsDraft(settings: AppSettings): SettingsDraft {
     priorityWeightWeekly: String(settings.priorityWeightWeekly),
     priorityWeightMission: String(settings.priorityWeightMission),
     priorityWeightLeisure: String(settings.priorityWeightLeisure),
+    serverTimeZone: settings.serverTimeZone ?? "",
+    autoBackupKeepDaily: String(settings.autoBackupKeepDaily),
+    autoBackupKeepWeekly: String(settings.autoBackupKeepWeekly),
+    autoBackupKeepMonthly: String(settings.autoBackupKeepMonthly),
   };
 }
 
-export function formatDuration(ms: number): string {
-  if (!Number.isFinite(ms) || ms <= 0) {
-    return "00:00:00";
-  }
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
-}
-
 export function getCharacterAodeLimits(state: AppState, characterId: string): { purchaseLimit: number; convertLimit: number } {
   const character = state.characters.find((item) => item.id === characterId);
   if (!character) {
@@ -141,10 +150,67 @@ export function buildCorridorDraft(lowerAvailable: number, middleAvailable: numb
   };
 }
 
-export function formatCounter(current: number, total: number): string {
-  const safeCurrent = Math.max(0, Math.floor(current));
-  const safeTotal = Math.max(0, Math.floor(total));
-  return `${safeCurrent}/${safeTotal}`;
+export function buildCustomTaskDraft(task?: CustomTaskDefinition): CustomTaskDraft {
+  return {
+    id: task?.id ?? null,
+    title: task?.title ?? "",
+    category: task?.category ?? "周常",
+    resetCadence: task?.resetCadence ?? "weekly",
+    cap: String(task?.cap ?? 1),
+    energyCost: String(task?.energyCost ?? 0),
+    goldReward: String((task?.goldReward ?? 0) / 10_000),
+    hasTicket: task?.hasTicket ?? false,
+  };
+}
+
+function toDateTimeLocalInput(raw: string): string {
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  const pad = (value: number): string => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function buildEventDraft(event?: EventDefinition): EventDraft {
+  return {
+    id: event?.id ?? null,
+    title: event?.title ?? "",
+    startAt: event ? toDateTimeLocalInput(event.startAt) : "",
+    endAt: event ? toDateTimeLocalInput(event.endAt) : "",
+    resetCadence: event?.resetCadence ?? "daily",
+    countersText: event?.counters.map((counter) => `${counter.label}:${counter.cap}`).join("\n") ?? "",
+    rewardNote: event?.rewardNote ?? "",
+  };
+}
+
+export function parseEventCountersText(text: string): EventCounterDefinition[] | null {
+  const counters: EventCounterDefinition[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const match = /^(.+?)\s*[:：]\s*(\d+)$/.exec(trimmed);
+    if (!match) return null;
+    counters.push({ label: match[1].trim(), cap: Number(match[2]) });
+  }
+  return counters;
+}
+
+export function buildImportSelectionDraft(preview: ImportPreview): ImportSelectionDraft {
+  return {
+    preview,
+    accounts: Object.fromEntries(
+      preview.accounts.map((account) => [
+        account.id,
+        {
+          mode: account.status === "unchanged" ? "skip" : "merge",
+          characterIds: account.characters.filter((item) => item.status !== "unchanged").map((item) => item.id),
+        },
+      ]),
+    ),
+    includeSettings: false,
+    includeWorkshop: false,
+  };
 }
 
 export function getBoardToneClass(current: number, total: number): string {
@@ -175,6 +241,66 @@ export function getPriorityToneClass(tone: PriorityTone): string {
   return "semantic-chip semantic-chip-ready";
 }
 
+export function buildOperationJournalFilterDraft(): OperationJournalFilterDraft {
+  return { characterId: "", action: "", keyword: "", from: "", to: "" };
+}
+
+export function buildProfileDraft(): ProfileDraft {
+  return { createName: "", importName: "", importPassphrase: "", editingId: null, editingName: "" };
+}
+
+export function buildAccountServerDraft(server?: AccountServerState | null): AccountServerDraft {
+  return server
+    ? { serverId: server.id, name: server.name, characterSlots: String(server.characterSlots) }
+    : { serverId: "", name: "", characterSlots: String(DEFAULT_SERVER_CHARACTER_SLOTS) };
+}
+
+const OVERVIEW_SORT_KEYS: readonly OverviewSortKey[] = ["manual", "ready", "account", "region", "tag"];
+const OVERVIEW_TASK_FILTERS: readonly OverviewTaskFilter[] = ["all", "dungeon", "weekly", "mission"];
+
+export function normalizeOverviewSavedViews(raw: unknown): OverviewSavedView[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const views: OverviewSavedView[] = [];
+  for (const item of raw) {
+    const entity = (item ?? {}) as Record<string, unknown>;
+    const name = typeof entity.name === "string" ? entity.name.trim() : "";
+    if (typeof entity.id !== "string" || !name || views.some((view) => view.id === entity.id)) {
+      continue;
+    }
+    views.push({
+      id: entity.id,
+      name,
+      sortKey: OVERVIEW_SORT_KEYS.includes(entity.sortKey as OverviewSortKey) ? (entity.sortKey as OverviewSortKey) : "manual",
+      taskFilter: OVERVIEW_TASK_FILTERS.includes(entity.taskFilter as OverviewTaskFilter)
+        ? (entity.taskFilter as OverviewTaskFilter)
+        : "all",
+      accountFilter: typeof entity.accountFilter === "string" ? entity.accountFilter : "all",
+      regionFilter: typeof entity.regionFilter === "string" ? entity.regionFilter : "all",
+      tagFilter: typeof entity.tagFilter === "string" ? entity.tagFilter : "all",
+    });
+  }
+  return views.slice(0, OVERVIEW_SAVED_VIEW_LIMIT);
+}
+
+export function upsertOverviewSavedView(
+  views: OverviewSavedView[],
+  name: string,
+  filters: OverviewFilterState,
+  createId: () => string,
+): OverviewSavedView[] {
+  const nextName = name.trim();
+  const existing = views.find((view) => view.name === nextName);
+  if (existing) {
+    return views.map((view) => (view.id === existing.id ? { ...filters, id: existing.id, name: nextName } : view));
+  }
+  if (views.length >= OVERVIEW_SAVED_VIEW_LIMIT) {
+    throw new Error(`最多保存 ${OVERVIEW_SAVED_VIEW_LIMIT} 个视图`);
+  }
+  return [...views, { ...filters, id: createId(), name: nextName }];
+}
+
 export function buildCountOptions(min: number, max: number, currentValue?: string): string[] {
   let safeMin = Math.max(0, Math.floor(min));
   let safeMax = Math.max(safeMin, Math.floor(max));
@@ -188,6 +314,54 @@ export function buildCountOptions(min: number, max: number, currentValue?: strin
   return Array.from({ length: safeMax - safeMin + 1 }, (_, index) => String(safeMin + index));
 }
 
-export function computePriorityScore(baseScore: number, settings: AppSettings, key: PriorityWeightKey): number {
-  return baseScore * getPriorityWeightFactor(getPriorityWeightLevel(settings, key));
+function buildWeeklyTrendRow(id: string, name: string, points: WeeklyTrendPoint[]): WeeklyTrendRow {
+  const last = points[points.length - 1]?.goldEarned ?? null;
+  const previous = points[points.length - 2]?.goldEarned ?? null;
+  return {
+    id,
+    name,
+    points,
+    goldDelta: last === null || previous === null ? null : last - previous,
+  };
+}
+
+export function buildWeeklyTrendModel(state: AppState, maxWeeks = 8): WeeklyTrendModel {
+  const weekKeys = [...new Set(state.characters.flatMap((item) => item.statsHistory.map((entry) => entry.cycleEndedAt)))]
+    .sort()
+    .slice(-Math.max(1, maxWeeks));
+  const pointsByCharacter = new Map(
+    state.characters.map((character) => {
+      const byWeek = new Map(character.statsHistory.map((entry) => [entry.cycleEndedAt, entry]));
+      const points = weekKeys.map((weekEndedAt): WeeklyTrendPoint => {
+        const entry = byWeek.get(weekEndedAt);
+        return {
+          weekEndedAt,
+          goldEarned: entry ? entry.goldEarned : null,
+          completionCount: entry ? Object.values(entry.completions).reduce((acc, value) => acc + value, 0) : null,
+        };
+      });
+      return [character.id, points] as const;
+    }),
+  );
+
+  const characterRows = state.characters.map((character) =>
+    buildWeeklyTrendRow(character.id, character.name, pointsByCharacter.get(character.id) ?? []),
+  );
+  const accountRows = state.accounts.map((account) => {
+    const members = state.characters.filter((item) => item.accountId === account.id);
+    const points = weekKeys.map((weekEndedAt, index): WeeklyTrendPoint => {
+      const memberPoints = members
+        .map((item) => pointsByCharacter.get(item.id)?.[index])
+        .filter((point): point is WeeklyTrendPoint => Boolean(point && point.goldEarned !== null));
+      return {
+        weekEndedAt,
+        goldEarned: memberPoints.length > 0 ? memberPoints.reduce((acc, point) => acc + (point.goldEarned ?? 0), 0) : null,
+        completionCount:
+          memberPoints.length > 0 ? memberPoints.reduce((acc, point) => acc + (point.completionCount ?? 0), 0) : null,
+      };
+    });
+    return buildWeeklyTrendRow(account.id, account.name, points);
+  });
+
+  return { weekKeys, characterRows, accountRows };
 }
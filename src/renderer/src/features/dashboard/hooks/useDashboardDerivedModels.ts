@@ -8,16 +8,34 @@ import {
   DAILY_DUNGEON_SHARED_MAX,
   EXPEDITION_CHOICE_BOX_SERVER_LIMIT,
   EXPEDITION_SCHEDULE_HOURS,
-  TASK_DEFINITIONS,
   TRANSCENDENCE_SCHEDULE_HOURS,
   NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
   UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
 } from "../../../../../shared/constants";
-import { buildCharacterSummary } from "../../../../../shared/engine";
+import { getAccountCharacterSlots, getCharacterServer, isSameServer } from "../../../../../shared/account-servers";
+import { buildAodePlan } from "../../../../../shared/aode-plan";
+import { resolveTaskDefinitions } from "../../../../../shared/custom-tasks";
+import { buildCharacterSummary, buildEnergyForecasts } from "../../../../../shared/engine";
+import { describeHistoryEntryChanges, findHistoryRevertConflict } from "../../../../../shared/history-diff";
+import { getEventRemainingMs, isEventActive, isEventEndingSoon } from "../../../../../shared/events";
+import { buildGoldLedgerWeeks, buildGoldRateSuggestions } from "../../../../../shared/gold-ledger";
+import { buildPriorityTodos, isWeeklyDueWindow } from "../../../../../shared/priority-todo";
+import { collectTags, getCharacterEffectiveTags, hasTag } from "../../../../../shared/tags";
+import { buildTicketInventoryReport } from "../../../../../shared/ticket-inventory";
 import { getNextDailyReset, getNextScheduledTick, getNextUnifiedCorridorRefresh, getNextWeeklyReset } from "../../../../../shared/time";
 import type { AppState, TaskDefinition } from "../../../../../shared/types";
-import { NO_REGION_FILTER, type OverviewSortKey, type OverviewTaskFilter, type PriorityTodoItem, type PriorityTone, type PriorityWeightKey } from "../dashboard-types";
-import { formatCounter, getCharacterAodeLimits, getPriorityWeightFactor, getPriorityWeightLevel } from "../dashboard-utils";
+import { buildWeeklyPlan } from "../../../../../shared/weekly-plan";
+import {
+  HISTORY_PANEL_LIMIT,
+  NO_REGION_FILTER,
+  NO_TAG_FILTER,
+  type ActiveEventModel,
+  type HistoryRowModel,
+  type OverviewSortKey,
+  type OverviewTaskFilter,
+  type TicketInventoryGroupModel,
+} from "../dashboard-types";
+import { buildWeeklyTrendModel, getCharacterAodeLimits } from "../dashboard-utils";
 
 interface UseDashboardDerivedModelsParams {
   state: AppState | null;
@@ -26,10 +44,12 @@ interface UseDashboardDerivedModelsParams {
   overviewTaskFilter: OverviewTaskFilter;
   overviewAccountFilter: string;
   overviewRegionFilter: string;
+  overviewTagFilter: string;
 }
 
 export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParams) {
-  const { state, nowMs, overviewSortKey, overviewTaskFilter, overviewAccountFilter, overviewRegionFilter } = params;
+  const { state, nowMs, overviewSortKey, overviewTaskFilter, overviewAccountFilter, overviewRegionFilter, overviewTagFilter } =
+    params;
 
   const selected = useMemo(() => {
     if (!state) return null;
@@ -91,6 +111,7 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
         const characters = state.characters
           .filter((item) => item.accountId === account.id)
           .map((item) => {
+            const server = getCharacterServer(account, item);
             const expeditionCurrent = Math.min(
               item.activities.expeditionRemaining + item.activities.expeditionTicketBonus,
               item.activities.expeditionBossRemaining,
@@ -116,8 +137,8 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
             const sanctumPurifyBoxCurrent = item.activities.sanctumPurifyBoxRemaining;
             const sanctumPurifyBoxTotal = 2;
 
-            const dailyDungeonCurrent = account.sharedActivities.dailyDungeonRemaining + account.sharedActivities.dailyDungeonTicketStored;
-            const dailyDungeonTotal = DAILY_DUNGEON_SHARED_MAX + account.sharedActivities.dailyDungeonTicketStored;
+            const dailyDungeonCurrent = server.sharedActivities.dailyDungeonRemaining + server.sharedActivities.dailyDungeonTicketStored;
+            const dailyDungeonTotal = DAILY_DUNGEON_SHARED_MAX + server.sharedActivities.dailyDungeonTicketStored;
             const nightmareCurrent = item.activities.nightmareRemaining + item.activities.nightmareTicketBonus;
             const nightmareTotal = nightmareCap + item.activities.nightmareTicketBonus;
             const awakeningCurrent = item.activities.awakeningRemaining + item.activities.awakeningTicketBonus;
@@ -129,11 +150,11 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
 
             const dailyMissionCurrent = item.missions.dailyRemaining;
             const dailyMissionTotal = 5;
-            const weeklyMissionCurrent = account.sharedActivities.weeklyRemaining;
+            const weeklyMissionCurrent = server.sharedActivities.weeklyRemaining;
             const weeklyMissionTotal = 12;
-            const abyssLowerCurrent = account.sharedActivities.abyssLowerRemaining;
+            const abyssLowerCurrent = server.sharedActivities.abyssLowerRemaining;
             const abyssLowerTotal = 20;
-            const abyssMiddleCurrent = account.sharedActivities.abyssMiddleRemaining;
+            const abyssMiddleCurrent = server.sharedActivities.abyssMiddleRemaining;
             const abyssMiddleTotal = 5;
 
             const corridorLowerCurrent = item.activities.corridorLowerAvailable;
@@ -145,24 +166,34 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
             const aodeBonusEnergyCurrent = item.energy.bonusCurrent;
             const aodeBaseEnergyCap = item.energy.baseCap;
             const aodeBaseEnergyOverflow = aodeBaseEnergyCurrent > AODE_BASE_ENERGY_OVERFLOW_WARN_THRESHOLD;
-            const aodeShopAodePurchaseUsed = account.breezePlan.shopAodePurchaseUsed;
-            const aodeShopUnknownChallengeTicketUsed = account.breezePlan.shopUnknownChallengeTicketUsed;
-            const aodeShopExpeditionChoiceBoxUsed = account.breezePlan.shopExpeditionChoiceBoxUsed;
-            const aodeShopNightmareInstantUsed = account.breezePlan.shopNightmareInstantUsed;
-            const aodeShopAbyssReplenishUsed = account.breezePlan.shopAbyssReplenishUsed;
-            const aodeTransformAodeUsed = account.breezePlan.transformAodeUsed;
+            const aodeShopAodePurchaseUsed = server.breezePlan.shopAodePurchaseUsed;
+            const aodeShopUnknownChallengeTicketUsed = server.breezePlan.shopUnknownChallengeTicketUsed;
+            const aodeShopExpeditionChoiceBoxUsed = server.breezePlan.shopExpeditionChoiceBoxUsed;
+            const aodeShopNightmareInstantUsed = server.breezePlan.shopNightmareInstantUsed;
+            const aodeShopAbyssReplenishUsed = server.breezePlan.shopAbyssReplenishUsed;
+            const aodeTransformAodeUsed = server.breezePlan.transformAodeUsed;
             const aodeShopAodePurchaseRemaining = Math.max(0, aodeLimits.purchaseLimit - aodeShopAodePurchaseUsed);
             const aodeShopUnknownChallengeTicketRemaining = Math.max(0, UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT - aodeShopUnknownChallengeTicketUsed);
             const aodeShopExpeditionChoiceBoxRemaining = Math.max(0, EXPEDITION_CHOICE_BOX_SERVER_LIMIT - aodeShopExpeditionChoiceBoxUsed);
             const aodeShopNightmareInstantRemaining = Math.max(0, NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT - aodeShopNightmareInstantUsed);
             const aodeShopAbyssReplenishRemaining = Math.max(0, ABYSS_REPLENISH_TICKET_SERVER_LIMIT - aodeShopAbyssReplenishUsed);
             const aodeTransformAodeRemaining = Math.max(0, aodeLimits.convertLimit - aodeTransformAodeUsed);
+            const customTaskCounters = state.customTasks.map((task) => {
+              const progress = item.customProgress[task.id] ?? { remaining: 0, ticketBonus: 0 };
+              return {
+                task,
+                current: progress.remaining + progress.ticketBonus,
+                total: task.cap + progress.ticketBonus,
+              };
+            });
+            const countCustomReady = (category: TaskDefinition["category"]): number =>
+              customTaskCounters.filter((counter) => counter.task.category === category && counter.current > 0).length;
             const dungeonReadyBuckets = [
               expeditionCurrent,
               transcendenceCurrent,
               sanctumRaidChallengeCurrent + sanctumRaidBoxCurrent,
               sanctumPurifyChallengeCurrent + sanctumPurifyBoxCurrent,
-            ].filter((value) => value > 0).length;
+            ].filter((value) => value > 0).length + countCustomReady("副本");
             const weeklyReadyBuckets = [
               dailyDungeonCurrent,
               nightmareCurrent,
@@ -172,11 +203,14 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
               weeklyMissionCurrent,
               abyssLowerCurrent,
               abyssMiddleCurrent,
-            ].filter((value) => value > 0).length;
-            const missionReadyBuckets = [dailyMissionCurrent, corridorLowerCurrent, corridorMiddleCurrent].filter((value) => value > 0).length;
+            ].filter((value) => value > 0).length + countCustomReady("周常");
+            const missionReadyBuckets =
+              [dailyMissionCurrent, corridorLowerCurrent, corridorMiddleCurrent].filter((value) => value > 0).length +
+              countCustomReady("使命");
             const readyBuckets = dungeonReadyBuckets + weeklyReadyBuckets + missionReadyBuckets;
             return {
               character: item,
+              server,
               manualOrder: characterOrderById.get(item.id) ?? Number.MAX_SAFE_INTEGER,
               expeditionCurrent,
               expeditionTotal,
@@ -234,6 +268,7 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
               aodeTransformAodeRemaining,
               aodeShopPurchaseLimit: aodeLimits.purchaseLimit,
               aodeTransformLimit: aodeLimits.convertLimit,
+              customTaskCounters,
               dungeonReadyBuckets,
               weeklyReadyBuckets,
               missionReadyBuckets,
@@ -249,7 +284,14 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
   }, [state, characterOrderById]);
 
   const overviewRows = useMemo(
-    () => overviewByAccount.flatMap((group) => group.characters.map((entry) => ({ ...entry, account: group.account }))),
+    () =>
+      overviewByAccount.flatMap((group) =>
+        group.characters.map((entry) => ({
+          ...entry,
+          account: group.account,
+          tags: getCharacterEffectiveTags(entry.character, group.account),
+        })),
+      ),
     [overviewByAccount],
   );
 
@@ -265,6 +307,8 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
     return [...set].sort((left, right) => left.localeCompare(right, "zh-CN"));
   }, [state]);
 
+  const overviewTagOptions = useMemo(() => (state ? collectTags(state.accounts, state.characters) : []), [state]);
+
   const overviewRowsFiltered = useMemo(() => {
     const getReadyCountByTaskFilter = (entry: (typeof overviewRows)[number]): number => {
       if (overviewTaskFilter === "dungeon") return entry.dungeonReadyBuckets;
@@ -284,6 +328,12 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
       if (overviewRegionFilter !== "all" && overviewRegionFilter !== NO_REGION_FILTER && region !== overviewRegionFilter) {
         return false;
       }
+      if (overviewTagFilter === NO_TAG_FILTER && entry.tags.length > 0) {
+        return false;
+      }
+      if (overviewTagFilter !== "all" && overviewTagFilter !== NO_TAG_FILTER && !hasTag(entry.tags, overviewTagFilter)) {
+        return false;
+      }
       if (overviewTaskFilter !== "all" && getReadyCountByTaskFilter(entry) <= 0) {
         return false;
       }
@@ -306,6 +356,18 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
         if (countDiff !== 0) return countDiff;
         return left.character.name.localeCompare(right.character.name, "zh-CN");
       }
+      if (overviewSortKey === "tag") {
+        const leftTag = [...left.tags].sort((a, b) => a.localeCompare(b, "zh-CN"))[0] ?? "";
+        const rightTag = [...right.tags].sort((a, b) => a.localeCompare(b, "zh-CN"))[0] ?? "";
+        if (leftTag !== rightTag) {
+          if (!leftTag) return 1;
+          if (!rightTag) return -1;
+          return leftTag.localeCompare(rightTag, "zh-CN");
+        }
+        const countDiff = getReadyCountByTaskFilter(right) - getReadyCountByTaskFilter(left);
+        if (countDiff !== 0) return countDiff;
+        return left.character.name.localeCompare(right.character.name, "zh-CN");
+      }
       const leftRegion = left.account.regionTag?.trim() ?? "";
       const rightRegion = right.account.regionTag?.trim() ?? "";
       if (leftRegion !== rightRegion) {
@@ -317,10 +379,10 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
       if (countDiff !== 0) return countDiff;
       return left.character.name.localeCompare(right.character.name, "zh-CN");
     });
-  }, [overviewRows, overviewTaskFilter, overviewAccountFilter, overviewRegionFilter, overviewSortKey]);
+  }, [overviewRows, overviewTaskFilter, overviewAccountFilter, overviewRegionFilter, overviewTagFilter, overviewSortKey]);
 
   const groupedTasks = useMemo(() => {
-    const base = TASK_DEFINITIONS.filter(
+    const base = resolveTaskDefinitions(state?.customTasks).filter(
       (task) =>
         task.id !== "sanctum_raid" &&
         task.id !== "sanctum_box" &&
@@ -358,31 +420,48 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
       });
     }
     return base;
-  }, []);
-
-  const historyRows = useMemo(() => {
-    if (!state) return [];
-    return [...state.history].reverse().slice(0, 20);
-  }, [state]);
+  }, [state?.customTasks]);
 
   const characterNameById = useMemo(() => {
     if (!state) return new Map<string, string>();
     return new Map(state.characters.map((item) => [item.id, item.name]));
   }, [state]);
 
+  const historyRows = useMemo<HistoryRowModel[]>(() => {
+    if (!state) return [];
+    const rows: HistoryRowModel[] = [];
+    for (let index = state.history.length - 1; index >= 0 && rows.length < HISTORY_PANEL_LIMIT; index -= 1) {
+      const entry = state.history[index];
+      rows.push({
+        entry,
+        characterName:
+          entry.characterId !== null
+            ? characterNameById.get(entry.characterId) ?? `角色(${entry.characterId.slice(0, 6)})`
+            : entry.characterIds?.length
+              ? entry.characterIds.map((id) => characterNameById.get(id) ?? `角色(${id.slice(0, 6)})`).join("、")
+              : "全局",
+        diff: describeHistoryEntryChanges(state.history, index, state),
+        revertBlockedReason: findHistoryRevertConflict(state.history, index),
+      });
+    }
+    return rows;
+  }, [state, characterNameById]);
+
   const accountNameById = useMemo(() => {
     if (!state) return new Map<string, string>();
     return new Map(state.accounts.map((item) => [item.id, item.name]));
   }, [state]);
 
+  const serverTimeZone = state?.settings.serverTimeZone ?? null;
+
   const countdownItems = useMemo(() => {
     const now = new Date(nowMs);
-    const nextAodeEnergy = getNextScheduledTick(now, AODE_ENERGY_SCHEDULE_HOURS);
-    const nextExpedition = getNextScheduledTick(now, EXPEDITION_SCHEDULE_HOURS);
-    const nextTranscendence = getNextScheduledTick(now, TRANSCENDENCE_SCHEDULE_HOURS);
-    const nextDailyReset = getNextDailyReset(now);
-    const nextWeeklyReset = getNextWeeklyReset(now);
-    const nextCorridorUnified = getNextUnifiedCorridorRefresh(now);
+    const nextAodeEnergy = getNextScheduledTick(now, AODE_ENERGY_SCHEDULE_HOURS, serverTimeZone);
+    const nextExpedition = getNextScheduledTick(now, EXPEDITION_SCHEDULE_HOURS, serverTimeZone);
+    const nextTranscendence = getNextScheduledTick(now, TRANSCENDENCE_SCHEDULE_HOURS, serverTimeZone);
+    const nextDailyReset = getNextDailyReset(now, serverTimeZone);
+    const nextWeeklyReset = getNextWeeklyReset(now, serverTimeZone);
+    const nextCorridorUnified = getNextUnifiedCorridorRefresh(now, serverTimeZone);
     return [
       { key: "aode_energy", title: "奥德恢复(+15)", target: nextAodeEnergy },
       { key: "expedition", title: "远征恢复", target: nextExpedition },
@@ -391,149 +470,114 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
       { key: "weekly", title: "每周重置", target: nextWeeklyReset },
       { key: "corridor_unified", title: "回廊刷新", target: nextCorridorUnified },
     ];
-  }, [nowMs]);
+  }, [nowMs, serverTimeZone]);
 
-  const priorityTodoItems = useMemo(() => {
-    if (!state) return [];
-    const now = new Date(nowMs);
-    const nextWeeklyReset = getNextWeeklyReset(now);
-    const weeklyRemainMs = Math.max(0, nextWeeklyReset.getTime() - now.getTime());
-    const weeklyCriticalWindow = weeklyRemainMs <= 48 * 60 * 60 * 1000;
-    const items: PriorityTodoItem[] = [];
-
-    const pushItem = (
-      entry: (typeof overviewRows)[number],
-      taskKey: string,
-      title: string,
-      score: number,
-      tone: PriorityTone,
-      weightKey: PriorityWeightKey,
-      detail: string,
-    ): void => {
-      const weightFactor = getPriorityWeightFactor(getPriorityWeightLevel(state.settings, weightKey));
-      const starBonus = entry.character.isStarred ? 35 : 0;
-      items.push({
-        id: `${entry.character.id}-${taskKey}`,
-        title,
-        subtitle: `${entry.character.isStarred ? "★ " : ""}${entry.character.name} · ${entry.account.name}`,
-        detail,
-        score: starBonus + Math.round(score * weightFactor),
-        tone,
-      });
-    };
-
-    for (const entry of overviewRows) {
-      if (entry.aodeBaseEnergyOverflow) {
-        pushItem(
-          entry,
-          "aode-base-overflow",
-          "奥德能量（接近满溢）",
-          980 + entry.aodeBaseEnergyCurrent,
-          "high",
-          "aode",
-          `当前 ${entry.aodeBaseEnergyCurrent}/${entry.aodeBaseEnergyCap}（阈值>${AODE_BASE_ENERGY_OVERFLOW_WARN_THRESHOLD}），建议优先清体力`,
-        );
-      }
+  const nextCorridorRefreshAt = countdownItems.find((item) => item.key === "corridor_unified")?.target ?? null;
 
-      const sanctumPending =
-        entry.sanctumRaidChallengeCurrent +
-        entry.sanctumRaidBoxCurrent +
-        entry.sanctumPurifyChallengeCurrent +
-        entry.sanctumPurifyBoxCurrent;
-      if (sanctumPending > 0) {
-        pushItem(
-          entry,
-          "sanctum",
-          "圣域（周本）",
-          1000 + sanctumPending,
-          "high",
-          "sanctum",
-          `卢德莱 挑战 ${formatCounter(entry.sanctumRaidChallengeCurrent, entry.sanctumRaidChallengeTotal)} · 开箱 ${formatCounter(entry.sanctumRaidBoxCurrent, entry.sanctumRaidBoxTotal)}；侵蚀净化所 挑战 ${formatCounter(entry.sanctumPurifyChallengeCurrent, entry.sanctumPurifyChallengeTotal)} · 开箱 ${formatCounter(entry.sanctumPurifyBoxCurrent, entry.sanctumPurifyBoxTotal)}`,
-        );
-      }
-
-      const corridorPending = entry.corridorLowerCurrent + entry.corridorMiddleCurrent;
-      if (corridorPending > 0) {
-        pushItem(
-          entry,
-          "corridor",
-          "深渊回廊",
-          950 + corridorPending,
-          "high",
-          "corridor",
-          `下层 ${entry.corridorLowerCurrent}/${entry.corridorLowerTotal}，中层 ${entry.corridorMiddleCurrent}/${entry.corridorMiddleTotal}`,
-        );
-      }
+  const forecastMinute = Math.floor(nowMs / 60_000);
+  const energyForecasts = useMemo(() => {
+    if (!state) return [];
+    return buildEnergyForecasts(state.characters, new Date(forecastMinute * 60_000), {
+      ruleSet: state.seasonRules,
+      scheduledRuleSet: state.scheduledSeasonRules,
+      timeZone: serverTimeZone,
+    });
+  }, [state, forecastMinute, serverTimeZone]);
 
-      if (entry.dailyMissionCurrent > 0) {
-        pushItem(entry, "daily-mission", "每日 5 个使命任务", 950 + entry.dailyMissionCurrent, "high", "mission", `剩余 ${formatCounter(entry.dailyMissionCurrent, entry.dailyMissionTotal)}`);
-      }
+  const weeklyPlan = useMemo(() => {
+    if (!state) return null;
+    return buildWeeklyPlan(state.characters, state.settings, new Date(forecastMinute * 60_000), {
+      ruleSet: state.seasonRules,
+      scheduledRuleSet: state.scheduledSeasonRules,
+      timeZone: serverTimeZone,
+    });
+  }, [state, forecastMinute, serverTimeZone]);
 
-      if (weeklyCriticalWindow && entry.awakeningCurrent > 0) {
-        pushItem(entry, "awakening-weekly-due", "觉醒战（周刷新前）", 1000 + entry.awakeningCurrent, "high", "weekly", `剩余 ${formatCounter(entry.awakeningCurrent, entry.awakeningTotal)}，48 小时内优先清理`);
-      }
+  const selectedServer = useMemo(() => {
+    const account = selected ? state?.accounts.find((item) => item.id === selected.accountId) : undefined;
+    return account && selected ? getCharacterServer(account, selected) : null;
+  }, [state, selected]);
 
-      if (entry.expeditionCurrent > 0) {
-        const nearCap = entry.expeditionCurrent >= Math.max(1, entry.expeditionTotal - 2);
-        pushItem(entry, "expedition", nearCap ? "远征（接近满次）" : "远征（清体力收益）", (nearCap ? 860 : 820) + entry.expeditionCurrent, nearCap ? "high" : "medium", "dungeon", `剩余 ${formatCounter(entry.expeditionCurrent, entry.expeditionTotal)}`);
-      }
+  const selectedAodePlan = useMemo(() => {
+    if (!state || !selected || !selectedServer) return null;
+    return buildAodePlan(
+      selectedServer.breezePlan,
+      state.characters.filter((item) => isSameServer(item, selected)),
+      state.settings,
+      new Date(forecastMinute * 60_000),
+      {
+        ruleSet: state.seasonRules,
+        scheduledRuleSet: state.scheduledSeasonRules,
+        timeZone: serverTimeZone,
+      },
+    );
+  }, [state, selected, selectedServer, forecastMinute, serverTimeZone]);
 
-      if (entry.transcendenceCurrent > 0) {
-        const nearOverflow = entry.transcendenceCurrent >= Math.max(1, entry.transcendenceTotal - 1);
-        pushItem(entry, "transcendence", nearOverflow ? "超越（溢出提醒）" : "超越", (nearOverflow ? 790 : 760) + entry.transcendenceCurrent, "medium", "dungeon", `剩余 ${formatCounter(entry.transcendenceCurrent, entry.transcendenceTotal)}`);
-      }
+  const selectedTicketInventory = useMemo(() => {
+    if (!state || !selectedServer) return [];
+    return buildTicketInventoryReport(selectedServer, state.characters);
+  }, [state, selectedServer]);
 
-      if (entry.nightmareCurrent > 0) {
-        const nearOverflow = entry.nightmareCurrent >= Math.max(1, entry.nightmareTotal - 1);
-        if (nearOverflow) {
-          pushItem(entry, "nightmare-overflow", "恶梦（溢出提醒）", 780 + entry.nightmareCurrent, "medium", "weekly", `剩余 ${formatCounter(entry.nightmareCurrent, entry.nightmareTotal)}`);
-        }
-      }
+  const selectedGoldLedgerWeeks = useMemo(() => (selected ? buildGoldLedgerWeeks(selected) : []), [selected]);
 
-      if (weeklyCriticalWindow && entry.dailyDungeonCurrent > 0) {
-        pushItem(entry, "daily-dungeon-weekly-due", "每日副本（周刷新前）", 990 + entry.dailyDungeonCurrent, "high", "weekly", `剩余 ${formatCounter(entry.dailyDungeonCurrent, entry.dailyDungeonTotal)}，48 小时内优先清理`);
-      }
+  const goldRateSuggestions = useMemo(() => {
+    if (!state) return [];
+    return buildGoldRateSuggestions(state.characters, state.settings);
+  }, [state]);
 
-      if (weeklyCriticalWindow && entry.weeklyMissionCurrent > 0) {
-        pushItem(entry, "weekly-order-due", "每周指令（周刷新前）", 985 + entry.weeklyMissionCurrent, "high", "weekly", `剩余 ${formatCounter(entry.weeklyMissionCurrent, entry.weeklyMissionTotal)}，48 小时内优先完成`);
-      }
+  const ticketInventoryGroups = useMemo(() => {
+    if (!state) return [];
+    return state.accounts.flatMap((account) =>
+      account.servers.flatMap((server): TicketInventoryGroupModel[] => {
+        const rows = buildTicketInventoryReport(server, state.characters).filter((row) => row.purchased > 0 || row.assigned > 0);
+        if (rows.length === 0) return [];
+        return [{ accountId: account.id, serverId: server.id, title: `${account.name} · ${server.name}`, rows }];
+      }),
+    );
+  }, [state]);
 
-      if (weeklyCriticalWindow && entry.aodeShopAodePurchaseRemaining > 0) {
-        pushItem(entry, "shop-aode-weekly-due", "商店-奥德（周刷新前）", 980 + entry.aodeShopAodePurchaseRemaining, "high", "weekly", `剩余可用 ${formatCounter(entry.aodeShopAodePurchaseRemaining, entry.aodeShopPurchaseLimit)}`);
-      }
-      if (weeklyCriticalWindow && entry.aodeShopUnknownChallengeTicketRemaining > 0) {
-        pushItem(entry, "shop-unknown-ticket-weekly-due", "商店-未知缝隙挑战券（周刷新前）", 978 + entry.aodeShopUnknownChallengeTicketRemaining, "high", "weekly", `剩余可用 ${formatCounter(entry.aodeShopUnknownChallengeTicketRemaining, UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT)}`);
-      }
-      if (weeklyCriticalWindow && entry.aodeShopExpeditionChoiceBoxRemaining > 0) {
-        pushItem(entry, "shop-expedition-box-weekly-due", "商店-远征/超越箱（周刷新前）", 977 + entry.aodeShopExpeditionChoiceBoxRemaining, "high", "weekly", `剩余可用 ${formatCounter(entry.aodeShopExpeditionChoiceBoxRemaining, EXPEDITION_CHOICE_BOX_SERVER_LIMIT)}`);
-      }
-      if (weeklyCriticalWindow && entry.aodeShopNightmareInstantRemaining > 0) {
-        pushItem(entry, "shop-nightmare-ticket-weekly-due", "商店-恶梦完成券（周刷新前）", 975 + entry.aodeShopNightmareInstantRemaining, "high", "weekly", `剩余可用 ${formatCounter(entry.aodeShopNightmareInstantRemaining, NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT)}`);
-      }
-      if (weeklyCriticalWindow && entry.aodeShopAbyssReplenishRemaining > 0) {
-        pushItem(entry, "shop-abyss-refill-weekly-due", "商店-深渊重铸补充券（周刷新前）", 974 + entry.aodeShopAbyssReplenishRemaining, "high", "weekly", `卢德莱补充券剩余 ${formatCounter(entry.aodeShopAbyssReplenishRemaining, ABYSS_REPLENISH_TICKET_SERVER_LIMIT)}`);
-      }
-      if (weeklyCriticalWindow && entry.aodeTransformAodeRemaining > 0) {
-        pushItem(entry, "transform-aode-weekly-due", "变换-奥德（周刷新前）", 976 + entry.aodeTransformAodeRemaining, "high", "weekly", `剩余可用 ${formatCounter(entry.aodeTransformAodeRemaining, entry.aodeTransformLimit)}`);
-      }
+  const weeklyTrend = useMemo(() => (state ? buildWeeklyTrendModel(state) : null), [state]);
 
-      if (entry.miniGameCurrent > 0) {
-        pushItem(entry, "mini-game", "小游戏（低优先）", 240 + entry.miniGameCurrent, "low", "leisure", `剩余 ${formatCounter(entry.miniGameCurrent, entry.miniGameTotal)}`);
-      }
-      if (entry.spiritCurrent > 0) {
-        pushItem(entry, "spirit-invasion", "精灵入侵（低优先）", 220 + entry.spiritCurrent, "low", "leisure", `剩余 ${formatCounter(entry.spiritCurrent, entry.spiritTotal)}`);
-      }
-    }
+  const activeEvents = useMemo<ActiveEventModel[]>(() => {
+    if (!state) return [];
+    const now = new Date(nowMs);
+    return state.events
+      .filter((event) => isEventActive(event, now))
+      .map((event) => {
+        const rows = state.characters.map((character) => {
+          const progress = character.eventProgress[event.id] ?? {};
+          const counters = event.counters.map((counter) => ({
+            label: counter.label,
+            current: progress[counter.label] ?? counter.cap,
+            total: counter.cap,
+          }));
+          return {
+            characterId: character.id,
+            characterName: character.name,
+            accountName: accountNameById.get(character.accountId) ?? "未知账号",
+            counters,
+            remaining: counters.reduce((acc, counter) => acc + counter.current, 0),
+          };
+        });
+        return {
+          event,
+          endsInMs: getEventRemainingMs(event, now),
+          endingSoon: isEventEndingSoon(event, now),
+          rows,
+        };
+      })
+      .sort((left, right) => left.endsInMs - right.endsInMs);
+  }, [state, nowMs, accountNameById]);
 
-    return items.sort((left, right) => right.score - left.score).slice(0, 8);
-  }, [overviewRows, nowMs, state]);
+  const priorityTodoItems = useMemo(() => {
+    if (!state) return [];
+    return buildPriorityTodos(overviewRows, state.settings, new Date(nowMs), {
+      timeZone: serverTimeZone,
+      events: activeEvents,
+    });
+  }, [overviewRows, activeEvents, nowMs, state, serverTimeZone]);
 
-  const isWeeklyCriticalWindow = useMemo(() => {
-    const now = new Date(nowMs);
-    const nextWeeklyReset = getNextWeeklyReset(now);
-    const weeklyRemainMs = Math.max(0, nextWeeklyReset.getTime() - now.getTime());
-    return weeklyRemainMs <= 48 * 60 * 60 * 1000;
-  }, [nowMs]);
+  const isWeeklyCriticalWindow = useMemo(() => isWeeklyDueWindow(new Date(nowMs), serverTimeZone), [nowMs, serverTimeZone]);
 
   const selectedEstimatedGold =
     (selected ? summary.find((item) => item.characterId === selected.id)?.estimatedGoldIfClearEnergy : undefined) ?? 0;
@@ -541,7 +585,11 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
   const readyCharacters = summary.filter((item) => item.canRunExpedition).length;
   const weeklyGold = summary.reduce((acc, item) => acc + item.estimatedGoldIfClearEnergy, 0);
   const pendingDaily = summary.filter((item) => item.hasDailyMissionLeft).length;
-  const pendingWeekly = state?.accounts.filter((item) => item.sharedActivities.weeklyRemaining > 0).length ?? 0;
+  const pendingWeekly =
+    state?.accounts.reduce(
+      (acc, account) => acc + account.servers.filter((server) => server.sharedActivities.weeklyRemaining > 0).length,
+      0,
+    ) ?? 0;
   const weeklyEarned = summary.reduce((acc, item) => acc + item.weeklyGoldEarned, 0);
   const weeklyExpeditionRuns = state?.characters.reduce((acc, item) => acc + item.stats.completions.expedition, 0) ?? 0;
   const weeklyTransRuns = state?.characters.reduce((acc, item) => acc + item.stats.completions.transcendence, 0) ?? 0;
@@ -550,6 +598,7 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
   const expeditionOverRewardThreshold = weeklyExpeditionRuns > expeditionWarnThreshold;
   const transcendenceOverThreshold = weeklyTransRuns > transcendenceWarnThreshold;
   const selectedAccountCharacterCount = accountCharacters.length;
+  const selectedAccountCharacterSlots = selectedAccount ? getAccountCharacterSlots(selectedAccount) : 0;
   const selectedIsAodeExtra = false;
   const selectedShopAodePurchaseRemaining = selected
     ? Math.max(0, selectedAodeLimits.purchaseLimit - selected.aodePlan.shopAodePurchaseUsed)
@@ -579,12 +628,23 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
     summary,
     overviewRows,
     overviewRegionOptions,
+    overviewTagOptions,
     overviewRowsFiltered,
     groupedTasks,
     historyRows,
     characterNameById,
     accountNameById,
     countdownItems,
+    nextCorridorRefreshAt,
+    energyForecasts,
+    weeklyPlan,
+    selectedAodePlan,
+    selectedTicketInventory,
+    selectedGoldLedgerWeeks,
+    goldRateSuggestions,
+    ticketInventoryGroups,
+    weeklyTrend,
+    activeEvents,
     priorityTodoItems,
     isWeeklyCriticalWindow,
     selectedEstimatedGold,
@@ -601,6 +661,7 @@ export function useDashboardDerivedModels(params: UseDashboardDerivedModelsParam
     expeditionOverRewardThreshold,
     transcendenceOverThreshold,
     selectedAccountCharacterCount,
+    selectedAccountCharacterSlots,
     selectedIsAodeExtra,
     selectedShopAodePurchaseRemaining,
     selectedShopDailyDungeonTicketPurchaseRemaining,
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { usePersistedState } from "../../../hooks/usePersistedState";
+import {
+  OVERVIEW_SAVED_VIEWS_STORAGE_KEY,
+  readStoredOverviewSavedViews,
+  serializeOverviewSavedViews,
+} from "../dashboard-persistence";
+import type { OverviewFilterState, OverviewSavedView } from "../dashboard-types";
+import { upsertOverviewSavedView } from "../dashboard-utils";
+
+interface UseOverviewSavedViewsParams {
+  profileId: string | null;
+  filters: OverviewFilterState;
+  onApply: (filters: OverviewFilterState) => void;
+  onError: (message: string | null) => void;
+  onInfoMessage: (message: string | null) => void;
+}
+
+export function useOverviewSavedViews(params: UseOverviewSavedViewsParams) {
+  const { profileId, filters, onApply, onError, onInfoMessage } = params;
+  const [viewsByProfile, setViewsByProfile] = usePersistedState<Record<string, OverviewSavedView[]>>(
+    OVERVIEW_SAVED_VIEWS_STORAGE_KEY,
+    () => readStoredOverviewSavedViews(),
+    serializeOverviewSavedViews,
+  );
+  const [viewNameInput, setViewNameInput] = useState("");
+  const [activeViewId, setActiveViewId] = useState("");
+
+  const storageProfileKey = profileId ?? "";
+  const savedViews = viewsByProfile[storageProfileKey] ?? [];
+
+  function writeViews(next: OverviewSavedView[]): void {
+    setViewsByProfile((prev) => ({ ...prev, [storageProfileKey]: next }));
+  }
+
+  function onSaveOverviewView(): void {
+    const name = viewNameInput.trim() || savedViews.find((view) => view.id === activeViewId)?.name || "";
+    if (!name) {
+      onError("请输入视图名称");
+      return;
+    }
+    try {
+      const next = upsertOverviewSavedView(savedViews, name, filters, () => crypto.randomUUID());
+      writeViews(next);
+      setActiveViewId(next.find((view) => view.name === name)?.id ?? "");
+      setViewNameInput("");
+      onError(null);
+      onInfoMessage(`已保存总览视图: ${name}`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "保存视图失败");
+    }
+  }
+
+  function onApplyOverviewView(viewId: string): void {
+    setActiveViewId(viewId);
+    const view = savedViews.find((item) => item.id === viewId);
+    if (!view) return;
+    onApply({
+      sortKey: view.sortKey,
+      taskFilter: view.taskFilter,
+      accountFilter: view.accountFilter,
+      regionFilter: view.regionFilter,
+      tagFilter: view.tagFilter,
+    });
+  }
+
+  function onDeleteOverviewView(): void {
+    const view = savedViews.find((item) => item.id === activeViewId);
+    if (!view) return;
+    writeViews(savedViews.filter((item) => item.id !== view.id));
+    setActiveViewId("");
+    onInfoMessage(`已删除总览视图: ${view.name}`);
+  }
+
+  return {
+    savedViews,
+    activeViewId,
+    viewNameInput,
+    setViewNameInput,
+    onSaveOverviewView,
+    onApplyOverviewView,
+    onDeleteOverviewView,
+  };
+}
@@ -0,0 +1,73 @@
+import { BACKUP_PASSPHRASE_MIN_LENGTH } from "../../../../../shared/constants";
+import type { BackupPassphrasePrompt } from "../dashboard-types";
+
+interface BackupPassphraseModalProps {
+  prompt: BackupPassphrasePrompt | null;
+  busy: boolean;
+  error: string | null;
+  onPromptChange: (next: BackupPassphrasePrompt) => void;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+export function BackupPassphraseModal(props: BackupPassphraseModalProps): JSX.Element | null {
+  const { prompt, busy, error, onPromptChange, onCancel, onConfirm } = props;
+  if (!prompt) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/55 p-4 backdrop-blur-sm">
+      <div className="glass-panel w-full max-w-md rounded-2xl p-5">
+        <h4 className="text-base font-semibold">{prompt.kind === "export" ? "导出加密备份" : "输入备份密码"}</h4>
+        <p className="summary-note mt-1">
+          {prompt.kind === "export"
+            ? `加密备份经过压缩并使用密码加密（至少 ${BACKUP_PASSPHRASE_MIN_LENGTH} 位），适合通过聊天工具分享。密码遗失后无法恢复。`
+            : `该备份已加密: ${prompt.path}`}
+        </p>
+        <form
+          className="mt-3 space-y-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onConfirm();
+          }}
+        >
+          <label className="block space-y-1 text-xs text-slate-300">
+            <span>备份密码</span>
+            <input
+              type="password"
+              className="field-control"
+              value={prompt.passphrase}
+              onChange={(event) => onPromptChange({ ...prompt, passphrase: event.target.value })}
+              disabled={busy}
+              autoFocus
+            />
+          </label>
+          {prompt.kind === "export" ? (
+            <label className="block space-y-1 text-xs text-slate-300">
+              <span>确认密码</span>
+              <input
+                type="password"
+                className="field-control"
+                value={prompt.confirmPassphrase}
+                onChange={(event) => onPromptChange({ ...prompt, confirmPassphrase: event.target.value })}
+                disabled={busy}
+              />
+            </label>
+          ) : null}
+
+          {error ? <p className="text-xs text-red-300">{error}</p> : null}
+
+          <div className="grid grid-cols-2 gap-2">
+            <button type="button" className="task-btn" onClick={onCancel} disabled={busy}>
+              取消
+            </button>
+            <button type="submit" className="task-btn" disabled={busy}>
+              {prompt.kind === "export" ? "选择位置并导出" : "解密并预览"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { getCustomTaskResetLabel } from "../../../../../shared/custom-tasks";
+import type { CustomTaskDefinition, CustomTaskResetCadence, TaskDefinition } from "../../../../../shared/types";
+import type { CustomTaskDraft } from "../dashboard-types";
+import { toGoldText } from "../dashboard-utils";
+
+const CATEGORY_OPTIONS: TaskDefinition["category"][] = ["副本", "使命", "周常"];
+const RESET_CADENCE_OPTIONS: CustomTaskResetCadence[] = ["daily", "weekly", "none"];
+
+interface CustomTaskSettingsPanelProps {
+  visible: boolean;
+  busy: boolean;
+  customTasks: CustomTaskDefinition[];
+  draft: CustomTaskDraft;
+  onDraftChange: (next: CustomTaskDraft) => void;
+  onSave: () => void;
+  onEdit: (task: CustomTaskDefinition) => void;
+  onCancelEdit: () => void;
+  onDelete: (task: CustomTaskDefinition) => void;
+}
+
+export function CustomTaskSettingsPanel(props: CustomTaskSettingsPanelProps): JSX.Element | null {
+  const { visible, busy, customTasks, draft, onDraftChange, onSave, onEdit, onCancelEdit, onDelete } = props;
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-[30px] p-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Custom Tasks</p>
+          <h3 className="panel-title !mt-1 !text-base">自定义任务</h3>
+        </div>
+        <span className="pill-btn pill-static !px-3">共 {customTasks.length} 项</span>
+      </div>
+      <p className="summary-note mt-2">
+        自定义任务会出现在角色任务、总览卡片、快速录入与优先级待办中，按设定周期自动恢复到上限，所有改动都可撤销。
+      </p>
+
+      <section className="section-card mt-4">
+        <p className="panel-kicker !tracking-[0.08em]">{draft.id ? "Edit" : "Create"}</p>
+        <h4 className="panel-title !mt-1 !text-sm">{draft.id ? "编辑任务" : "新增任务"}</h4>
+        <div className="mt-3 grid gap-3 md:grid-cols-[1.4fr_1fr_1fr]">
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>名称</span>
+            <input
+              className="field-control"
+              value={draft.title}
+              onChange={(event) => onDraftChange({ ...draft, title: event.target.value })}
+              disabled={busy}
+              placeholder="例如：公会任务"
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>分类</span>
+            <select
+              className="field-control"
+              value={draft.category}
+              onChange={(event) => onDraftChange({ ...draft, category: event.target.value as TaskDefinition["category"] })}
+              disabled={busy}
+            >
+              {CATEGORY_OPTIONS.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>重置周期</span>
+            <select
+              className="field-control"
+              value={draft.resetCadence}
+              onChange={(event) => onDraftChange({ ...draft, resetCadence: event.target.value as CustomTaskResetCadence })}
+              disabled={busy}
+            >
+              {RESET_CADENCE_OPTIONS.map((cadence) => (
+                <option key={cadence} value={cadence}>
+                  {getCustomTaskResetLabel(cadence)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="mt-3 grid gap-3 md:grid-cols-4">
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>次数上限</span>
+            <input
+              className="field-control"
+              value={draft.cap}
+              onChange={(event) => onDraftChange({ ...draft, cap: event.target.value })}
+              disabled={busy}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>单次奥德消耗</span>
+            <input
+              className="field-control"
+              value={draft.energyCost}
+              onChange={(event) => onDraftChange({ ...draft, energyCost: event.target.value })}
+              disabled={busy}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>单次金币（万）</span>
+            <input
+              className="field-control"
+              value={draft.goldReward}
+              onChange={(event) => onDraftChange({ ...draft, goldReward: event.target.value })}
+              disabled={busy}
+            />
+          </label>
+          <label className="flex items-center gap-2 self-end text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.hasTicket}
+              onChange={(event) => onDraftChange({ ...draft, hasTicket: event.target.checked })}
+              disabled={busy}
+            />
+            <span>启用挑战券计数</span>
+          </label>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button className="task-btn" onClick={onSave} disabled={busy}>
+            {draft.id ? "保存修改" : "新增任务"}
+          </button>
+          {draft.id ? (
+            <button className="pill-btn" onClick={onCancelEdit} disabled={busy}>
+              取消编辑
+            </button>
+          ) : null}
+        </div>
+      </section>
+
+      {customTasks.length === 0 ? (
+        <p className="summary-note mt-4">还没有自定义任务。</p>
+      ) : (
+        <div className="mt-4 grid gap-2 md:grid-cols-2">
+          {customTasks.map((task) => (
+            <div key={task.id} className="subtle-panel flex flex-wrap items-center justify-between gap-2 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-900">{task.title}</p>
+                <p className="summary-note">
+                  {task.category} · {getCustomTaskResetLabel(task.resetCadence)} · 上限 {task.cap}
+                  {task.energyCost > 0 ? ` · 消耗 ${task.energyCost} 奥德` : ""}
+                  {task.goldReward > 0 ? ` · 收益 ${toGoldText(task.goldReward)}` : ""}
+                  {task.hasTicket ? " · 可吃券" : ""}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button className="pill-btn" onClick={() => onEdit(task)} disabled={busy}>
+                  编辑
+                </button>
+                <button className="pill-btn" onClick={() => onDelete(task)} disabled={busy}>
+                  删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
@@ -1,3 +1,4 @@
+import type { AccountServerState } from "../../../../../shared/types";
 import { COUNT_SELECT_MAX } from "../dashboard-types";
 import { buildCountOptions } from "../dashboard-utils";
 
@@ -9,6 +10,8 @@ interface DashboardCharacterHeaderPanelProps {
   characterName: string;
   accountName: string;
   accountRegionTag: string | null;
+  accountServers: AccountServerState[];
+  characterServerId: string;
   estimatedGoldText: string;
   classTag: string;
   gearScore: number | undefined;
@@ -29,11 +32,14 @@ interface DashboardCharacterHeaderPanelProps {
   renameName: string;
   profileClassTagInput: string;
   profileGearScoreInput: string;
+  profileTagsInput: string;
   canDeleteCharacter: boolean;
   onSwitchToOverview: () => void;
+  onMoveCharacterServer: (serverId: string) => void;
   onRenameNameChange: (value: string) => void;
   onProfileClassTagInputChange: (value: string) => void;
   onProfileGearScoreInputChange: (value: string) => void;
+  onProfileTagsInputChange: (value: string) => void;
   onSaveCharacterProfile: () => void;
   onRenameCharacter: () => void;
   onDeleteCharacter: () => void;
@@ -52,6 +58,8 @@ export function DashboardCharacterHeaderPanel(props: DashboardCharacterHeaderPan
     characterName,
     accountName,
     accountRegionTag,
+    accountServers,
+    characterServerId,
     estimatedGoldText,
     classTag,
     gearScore,
@@ -72,11 +80,14 @@ export function DashboardCharacterHeaderPanel(props: DashboardCharacterHeaderPan
     renameName,
     profileClassTagInput,
     profileGearScoreInput,
+    profileTagsInput,
     canDeleteCharacter,
     onSwitchToOverview,
+    onMoveCharacterServer,
     onRenameNameChange,
     onProfileClassTagInputChange,
     onProfileGearScoreInputChange,
+    onProfileTagsInputChange,
     onSaveCharacterProfile,
     onRenameCharacter,
     onDeleteCharacter,
@@ -92,6 +103,8 @@ export function DashboardCharacterHeaderPanel(props: DashboardCharacterHeaderPan
     return null;
   }
 
+  const characterServer = accountServers.find((server) => server.id === characterServerId) ?? accountServers[0];
+
   return (
     <div className="space-y-2.5">
       <section className="character-hero-shell workbench-panel rounded-[28px] p-4">
@@ -102,6 +115,7 @@ export function DashboardCharacterHeaderPanel(props: DashboardCharacterHeaderPan
             <p className="panel-subtitle">
               所属账号: {accountName}
               {accountRegionTag ? ` (${accountRegionTag})` : ""}
+              {accountServers.length > 1 && characterServer ? ` · 服务器: ${characterServer.name}` : ""}
             </p>
           </div>
           <button className="pill-btn" onClick={onSwitchToOverview} disabled={busy}>
@@ -218,6 +232,27 @@ export function DashboardCharacterHeaderPanel(props: DashboardCharacterHeaderPan
                 placeholder="装分(整数)"
               />
             </div>
+            <input
+              className="field-control mt-2"
+              value={profileTagsInput}
+              onChange={(event) => onProfileTagsInputChange(event.target.value)}
+              disabled={busy}
+              placeholder="角色标签(逗号分隔，示例: 主号, 搬砖)"
+            />
+            {accountServers.length > 1 ? (
+              <select
+                className="field-control mt-2"
+                value={characterServer?.id ?? ""}
+                onChange={(event) => onMoveCharacterServer(event.target.value)}
+                disabled={busy}
+              >
+                {accountServers.map((server) => (
+                  <option key={server.id} value={server.id}>
+                    所属服务器: {server.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
             <div className="toolbar-actions mt-2">
               <button className="task-btn task-btn-soft task-btn-compact character-action-btn character-action-btn-primary px-4" onClick={onSaveCharacterProfile} disabled={busy}>
                 保存资料
@@ -229,7 +264,7 @@ export function DashboardCharacterHeaderPanel(props: DashboardCharacterHeaderPan
                 删除
               </button>
               <button className="pill-btn character-action-btn" onClick={onSyncCorridorStatus} disabled={busy}>
-                同步回廊
+                校准回廊
               </button>
               <button className="pill-btn character-action-btn" onClick={onApplyCorridorCompletion} disabled={busy}>
                 回廊录入完成
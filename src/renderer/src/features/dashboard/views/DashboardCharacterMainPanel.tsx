@@ -1,4 +1,6 @@
-import type { CharacterState } from "../../../../../shared/types";
+import type { TicketInventoryRow } from "../../../../../shared/ticket-inventory";
+import type { AccountServerState, AodePlan, CharacterState } from "../../../../../shared/types";
+import type { TicketTransferDraft } from "../dashboard-types";
 import { DashboardCharacterHeaderPanel } from "./DashboardCharacterHeaderPanel";
 import { DashboardCharacterResourcePanels } from "./DashboardCharacterResourcePanels";
 
@@ -8,6 +10,7 @@ interface DashboardCharacterMainPanelProps {
   selected: CharacterState;
   accountName: string;
   accountRegionTag: string | null;
+  accountServers: AccountServerState[];
   estimatedGoldText: string;
   classTag: string;
   gearScore: number | undefined;
@@ -28,6 +31,7 @@ interface DashboardCharacterMainPanelProps {
   renameName: string;
   profileClassTagInput: string;
   profileGearScoreInput: string;
+  profileTagsInput: string;
   canDeleteCharacter: boolean;
   selectedAodeLimits: {
     purchaseLimit: number;
@@ -41,6 +45,9 @@ interface DashboardCharacterMainPanelProps {
   selectedShopNightmareInstantRemaining: number;
   selectedShopAbyssReplenishRemaining: number;
   selectedTransformAodeRemaining: number;
+  selectedAodePlan: AodePlan | null;
+  selectedTicketInventory: TicketInventoryRow[];
+  ticketTransferDraft: TicketTransferDraft;
   shopAodePurchaseUsedInput: string;
   shopUnknownChallengeTicketUsedInput: string;
   shopExpeditionChoiceBoxUsedInput: string;
@@ -48,9 +55,11 @@ interface DashboardCharacterMainPanelProps {
   shopAbyssReplenishUsedInput: string;
   transformAodeUsedInput: string;
   onSwitchToOverview: () => void;
+  onMoveCharacterServer: (serverId: string) => void;
   onRenameNameChange: (value: string) => void;
   onProfileClassTagInputChange: (value: string) => void;
   onProfileGearScoreInputChange: (value: string) => void;
+  onProfileTagsInputChange: (value: string) => void;
   onSaveCharacterProfile: () => void;
   onRenameCharacter: () => void;
   onDeleteCharacter: () => void;
@@ -69,6 +78,9 @@ interface DashboardCharacterMainPanelProps {
   onTransformAodeUsedInputChange: (value: string) => void;
   onSaveShopPlan: () => void;
   onSaveTransformPlan: () => void;
+  onTicketTransferDraftChange: (draft: TicketTransferDraft) => void;
+  onAssignTickets: () => void;
+  onReturnTickets: () => void;
 }
 
 export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelProps): JSX.Element | null {
@@ -78,6 +90,7 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
     selected,
     accountName,
     accountRegionTag,
+    accountServers,
     estimatedGoldText,
     classTag,
     gearScore,
@@ -98,6 +111,7 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
     renameName,
     profileClassTagInput,
     profileGearScoreInput,
+    profileTagsInput,
     canDeleteCharacter,
     selectedAodeLimits,
     selectedIsAodeExtra,
@@ -108,6 +122,9 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
     selectedShopNightmareInstantRemaining,
     selectedShopAbyssReplenishRemaining,
     selectedTransformAodeRemaining,
+    selectedAodePlan,
+    selectedTicketInventory,
+    ticketTransferDraft,
     shopAodePurchaseUsedInput,
     shopUnknownChallengeTicketUsedInput,
     shopExpeditionChoiceBoxUsedInput,
@@ -115,9 +132,11 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
     shopAbyssReplenishUsedInput,
     transformAodeUsedInput,
     onSwitchToOverview,
+    onMoveCharacterServer,
     onRenameNameChange,
     onProfileClassTagInputChange,
     onProfileGearScoreInputChange,
+    onProfileTagsInputChange,
     onSaveCharacterProfile,
     onRenameCharacter,
     onDeleteCharacter,
@@ -136,6 +155,9 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
     onTransformAodeUsedInputChange,
     onSaveShopPlan,
     onSaveTransformPlan,
+    onTicketTransferDraftChange,
+    onAssignTickets,
+    onReturnTickets,
   } = props;
 
   if (!visible) {
@@ -150,6 +172,8 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
         characterName={selected.name}
         accountName={accountName}
         accountRegionTag={accountRegionTag}
+        accountServers={accountServers}
+        characterServerId={selected.serverId}
         estimatedGoldText={estimatedGoldText}
         classTag={classTag}
         gearScore={gearScore}
@@ -170,11 +194,14 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
         renameName={renameName}
         profileClassTagInput={profileClassTagInput}
         profileGearScoreInput={profileGearScoreInput}
+        profileTagsInput={profileTagsInput}
         canDeleteCharacter={canDeleteCharacter}
         onSwitchToOverview={onSwitchToOverview}
+        onMoveCharacterServer={onMoveCharacterServer}
         onRenameNameChange={onRenameNameChange}
         onProfileClassTagInputChange={onProfileClassTagInputChange}
         onProfileGearScoreInputChange={onProfileGearScoreInputChange}
+        onProfileTagsInputChange={onProfileTagsInputChange}
         onSaveCharacterProfile={onSaveCharacterProfile}
         onRenameCharacter={onRenameCharacter}
         onDeleteCharacter={onDeleteCharacter}
@@ -198,6 +225,9 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
         selectedShopNightmareInstantRemaining={selectedShopNightmareInstantRemaining}
         selectedShopAbyssReplenishRemaining={selectedShopAbyssReplenishRemaining}
         selectedTransformAodeRemaining={selectedTransformAodeRemaining}
+        selectedAodePlan={selectedAodePlan}
+        selectedTicketInventory={selectedTicketInventory}
+        ticketTransferDraft={ticketTransferDraft}
         shopAodePurchaseUsedInput={shopAodePurchaseUsedInput}
         shopUnknownChallengeTicketUsedInput={shopUnknownChallengeTicketUsedInput}
         shopExpeditionChoiceBoxUsedInput={shopExpeditionChoiceBoxUsedInput}
@@ -212,6 +242,9 @@ export function DashboardCharacterMainPanel(props: DashboardCharacterMainPanelPr
         onTransformAodeUsedInputChange={onTransformAodeUsedInputChange}
         onSaveShopPlan={onSaveShopPlan}
         onSaveTransformPlan={onSaveTransformPlan}
+        onTicketTransferDraftChange={onTicketTransferDraftChange}
+        onAssignTickets={onAssignTickets}
+        onReturnTickets={onReturnTickets}
       />
     </article>
   );
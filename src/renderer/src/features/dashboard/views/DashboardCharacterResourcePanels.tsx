@@ -8,8 +8,19 @@ import {
   UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
 } from "../../../../../shared/constants";
 import { getTotalEnergy } from "../../../../../shared/engine";
-import type { CharacterState } from "../../../../../shared/types";
-import { buildCountOptions } from "../dashboard-utils";
+import { TICKET_INVENTORY_DEFINITIONS, type TicketInventoryRow } from "../../../../../shared/ticket-inventory";
+import type { AodePlan, CharacterState } from "../../../../../shared/types";
+import type { TicketTransferDraft } from "../dashboard-types";
+import { buildCountOptions, toGoldText } from "../dashboard-utils";
+
+const TICKET_TRANSFER_SLOTS = TICKET_INVENTORY_DEFINITIONS.flatMap((definition) =>
+  definition.targets.map((target) => ({
+    value: `${definition.kind}:${target.id}`,
+    kind: definition.kind,
+    label: definition.targets.length > 1 ? `${definition.label} → ${target.label}` : definition.label,
+    targetLabel: target.label,
+  })),
+);
 
 interface DashboardCharacterResourcePanelsProps {
   busy: boolean;
@@ -27,6 +38,9 @@ interface DashboardCharacterResourcePanelsProps {
   selectedShopNightmareInstantRemaining: number;
   selectedShopAbyssReplenishRemaining: number;
   selectedTransformAodeRemaining: number;
+  selectedAodePlan: AodePlan | null;
+  selectedTicketInventory: TicketInventoryRow[];
+  ticketTransferDraft: TicketTransferDraft;
   shopAodePurchaseUsedInput: string;
   shopUnknownChallengeTicketUsedInput: string;
   shopExpeditionChoiceBoxUsedInput: string;
@@ -41,6 +55,9 @@ interface DashboardCharacterResourcePanelsProps {
   onTransformAodeUsedInputChange: (value: string) => void;
   onSaveShopPlan: () => void;
   onSaveTransformPlan: () => void;
+  onTicketTransferDraftChange: (draft: TicketTransferDraft) => void;
+  onAssignTickets: () => void;
+  onReturnTickets: () => void;
 }
 
 export function DashboardCharacterResourcePanels(props: DashboardCharacterResourcePanelsProps): JSX.Element {
@@ -54,6 +71,9 @@ export function DashboardCharacterResourcePanels(props: DashboardCharacterResour
     selectedShopNightmareInstantRemaining,
     selectedShopAbyssReplenishRemaining,
     selectedTransformAodeRemaining,
+    selectedAodePlan,
+    selectedTicketInventory,
+    ticketTransferDraft,
     shopAodePurchaseUsedInput,
     shopUnknownChallengeTicketUsedInput,
     shopExpeditionChoiceBoxUsedInput,
@@ -68,7 +88,18 @@ export function DashboardCharacterResourcePanels(props: DashboardCharacterResour
     onTransformAodeUsedInputChange,
     onSaveShopPlan,
     onSaveTransformPlan,
+    onTicketTransferDraftChange,
+    onAssignTickets,
+    onReturnTickets,
   } = props;
+  const plannedAodeEntries = selectedAodePlan
+    ? selectedAodePlan.entries.filter((entry) => entry.purchaseCount + entry.transformCount > 0)
+    : [];
+  const transferSlot = TICKET_TRANSFER_SLOTS.find((slot) => slot.value === ticketTransferDraft.slot) ?? TICKET_TRANSFER_SLOTS[0];
+  const transferSources =
+    selectedTicketInventory
+      .find((row) => row.kind === transferSlot.kind)
+      ?.holders.filter((holder) => holder.characterId !== selected.id && holder.targetLabel === transferSlot.targetLabel) ?? [];
 
   return (
     <div className="mt-2.5 space-y-2.5">
@@ -209,6 +240,122 @@ export function DashboardCharacterResourcePanels(props: DashboardCharacterResour
           </div>
         </section>
       </div>
+
+      <section className="resource-band">
+        <div>
+          <p className="panel-kicker !tracking-[0.08em]">Ticket Inventory</p>
+          <h3 className="resource-band-title">券库存与分配</h3>
+          <p className="resource-band-subtitle">微风商店买到的券先进入本伺服器库存，分配后计入角色的对应券数，可改派或收回。</p>
+        </div>
+        <div className="mt-2.5 space-y-1.5">
+          {selectedTicketInventory.map((row) => (
+            <div key={`ticket-row-${row.kind}`} className="data-pill flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-semibold">{row.label}</p>
+              <p className="text-xs text-slate-500">
+                已购 {row.purchased} · 库存 {row.stock}
+                {row.holders.length > 0
+                  ? ` · ${row.holders.map((holder) => `${holder.name}(${holder.targetLabel})×${holder.count}`).join("、")}`
+                  : ""}
+              </p>
+            </div>
+          ))}
+        </div>
+        <div className="toolbar-grid mt-2.5 md:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)_minmax(0,0.5fr)_auto_auto]">
+          <select
+            className="field-control"
+            value={transferSlot.value}
+            onChange={(event) => onTicketTransferDraftChange({ ...ticketTransferDraft, slot: event.target.value, sourceCharacterId: "" })}
+            disabled={busy}
+          >
+            {TICKET_TRANSFER_SLOTS.map((slot) => (
+              <option key={`ticket-slot-${slot.value}`} value={slot.value}>
+                {slot.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="field-control"
+            value={ticketTransferDraft.sourceCharacterId}
+            onChange={(event) => onTicketTransferDraftChange({ ...ticketTransferDraft, sourceCharacterId: event.target.value })}
+            disabled={busy}
+          >
+            <option value="">从库存分配</option>
+            {transferSources.map((holder) => (
+              <option key={`ticket-source-${holder.characterId}`} value={holder.characterId}>
+                从 {holder.name} 改派（{holder.count}）
+              </option>
+            ))}
+          </select>
+          <input
+            className="field-control"
+            type="number"
+            min={1}
+            value={ticketTransferDraft.count}
+            onChange={(event) => onTicketTransferDraftChange({ ...ticketTransferDraft, count: event.target.value })}
+            disabled={busy}
+          />
+          <button className="task-btn task-btn-soft task-btn-compact px-4" onClick={onAssignTickets} disabled={busy}>
+            分配到当前角色
+          </button>
+          <button className="task-btn task-btn-soft task-btn-compact px-4" onClick={onReturnTickets} disabled={busy}>
+            收回到库存
+          </button>
+        </div>
+      </section>
+
+      {selectedAodePlan ? (
+        <section className="resource-band">
+          <div className="resource-band-header">
+            <div>
+              <p className="panel-kicker !tracking-[0.08em]">Aode Planner</p>
+              <h3 className="resource-band-title">本周奥德规划</h3>
+              <p className="resource-band-subtitle">
+                按本伺服器剩余次数、各角色能量与单次收益，推荐购买/兑换分配，截至 {new Date(selectedAodePlan.weekEndsAt).toLocaleString()}。
+              </p>
+            </div>
+            <span className="summary-note">预计增收 {toGoldText(selectedAodePlan.totalGold)}</span>
+          </div>
+          <div className="toolbar-actions mt-2">
+            <div className="data-pill !px-2.5 !py-1.5 !text-xs">
+              建议购买 {selectedAodePlan.purchaseRecommended}/{selectedAodePlan.purchaseRemaining}
+            </div>
+            <div className="data-pill !px-2.5 !py-1.5 !text-xs">
+              建议兑换 {selectedAodePlan.transformRecommended}/{selectedAodePlan.transformRemaining}
+            </div>
+          </div>
+          {plannedAodeEntries.length === 0 ? (
+            <p className="mt-2.5 text-xs text-slate-400">本周角色能量已足够覆盖剩余远征/超越，无需额外购买或兑换奥德。</p>
+          ) : (
+            <div className="mt-2.5 space-y-1.5">
+              {plannedAodeEntries.map((entry) => (
+                <div key={`aode-plan-${entry.characterId}`} className="data-pill flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm font-semibold">
+                    {entry.name}
+                    {entry.characterId === selected.id ? "（当前）" : ""}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    购买 {entry.purchaseCount} · 兑换 {entry.transformCount} · 奥德 {entry.energyAvailable}/{entry.energyNeeded} ·{" "}
+                    {toGoldText(entry.gold)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="mt-2.5 space-y-1.5">
+            <p className="text-xs text-slate-500">微风商店券收益排序</p>
+            {selectedAodePlan.tickets.map((ticket, index) => (
+              <div key={`aode-ticket-${ticket.kind}`} className="data-pill flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-semibold">
+                  {index + 1}. {ticket.label}
+                </p>
+                <p className="text-xs text-slate-500">
+                  建议 {ticket.recommended}/{ticket.remaining} · {ticket.goldPerTicket > 0 ? `单张 ${toGoldText(ticket.goldPerTicket)}` : "无金币收益"}
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      ) : null}
     </div>
   );
 }
@@ -1,3 +1,4 @@
+import { isCustomTaskId } from "../../../../../shared/custom-tasks";
 import { getTaskGoldReward, getTaskProgressText } from "../../../../../shared/engine";
 import type { AppState, CharacterState, TaskDefinition, TaskId } from "../../../../../shared/types";
 import { toGoldText } from "../dashboard-utils";
@@ -53,10 +54,11 @@ export function DashboardCharacterTasksPanel(props: DashboardCharacterTasksPanel
           </div>
           <div className="grid grid-cols-1 gap-3 2xl:grid-cols-2">
             {(groupedTasks[category] ?? []).map((task) => {
-              const canComplete = task.allowComplete && !task.allowSetCompleted;
+              const isCustom = isCustomTaskId(task.id);
+              const canComplete = task.allowComplete && (!task.allowSetCompleted || isCustom);
               const showSetCompletedOnly = task.allowSetCompleted;
               const showTicket = task.allowUseTicket;
-              const showManualEdit = !task.allowSetCompleted && task.allowUseTicket;
+              const showManualEdit = !task.allowSetCompleted && task.allowUseTicket && !isCustom;
               const goldReward = getTaskGoldReward(state.settings, task);
               const extraLimitText =
                 task.id === "expedition"
@@ -1,3 +1,4 @@
+import { CORRIDOR_LANE_MAX } from "../../../../../shared/constants";
 import { getTaskRemaining, getTotalEnergy } from "../../../../../shared/engine";
 import type { CharacterState, TaskDefinition, TaskId } from "../../../../../shared/types";
 import { COUNT_SELECT_MAX, type DialogState } from "../dashboard-types";
@@ -117,11 +118,11 @@ export function DashboardDialogModal(props: DashboardDialogModalProps): JSX.Elem
 
         {dialog.kind === "corridor_sync" ? (
           <>
-            <h4 className="text-base font-semibold">同步深渊回廊上限（当前账号）</h4>
-            <p className="mt-2 text-xs text-slate-300">这里录入本轮神器战后该账号角色的回廊总上限，后续角色页和总览都会按这个上限计算。</p>
+            <h4 className="text-base font-semibold">手动校准深渊回廊（当前账号）</h4>
+            <p className="mt-2 text-xs text-slate-300">回廊会在每周三、周六 22:00 自动刷新为满次数；仅当实际剩余次数与记录不一致时，在这里覆盖该账号角色的当前剩余次数。</p>
             <div className="mt-3 grid grid-cols-2 gap-2">
               <div className="space-y-2">
-                <p className="text-xs text-slate-300">下层上限</p>
+                <p className="text-xs text-slate-300">下层剩余</p>
                 <div className="grid grid-cols-1 gap-1">
                   <select
                     className="rounded-xl border border-white/20 bg-black/25 px-2 py-2 text-sm outline-none focus:border-cyan-300/60"
@@ -129,7 +130,7 @@ export function DashboardDialogModal(props: DashboardDialogModalProps): JSX.Elem
                     onChange={(event) => onDialogChange({ ...dialog, lowerAvailable: event.target.value })}
                     disabled={busy}
                   >
-                    {Array.from({ length: 4 }, (_, i) => (
+                    {Array.from({ length: CORRIDOR_LANE_MAX + 1 }, (_, i) => (
                       <option key={`d-lower-count-${i}`} value={String(i)}>
                         {i}
                       </option>
@@ -138,7 +139,7 @@ export function DashboardDialogModal(props: DashboardDialogModalProps): JSX.Elem
                 </div>
               </div>
               <div className="space-y-2">
-                <p className="text-xs text-slate-300">中层上限</p>
+                <p className="text-xs text-slate-300">中层剩余</p>
                 <div className="grid grid-cols-1 gap-1">
                   <select
                     className="rounded-xl border border-white/20 bg-black/25 px-2 py-2 text-sm outline-none focus:border-cyan-300/60"
@@ -146,7 +147,7 @@ export function DashboardDialogModal(props: DashboardDialogModalProps): JSX.Elem
                     onChange={(event) => onDialogChange({ ...dialog, middleAvailable: event.target.value })}
                     disabled={busy}
                   >
-                    {Array.from({ length: 4 }, (_, i) => (
+                    {Array.from({ length: CORRIDOR_LANE_MAX + 1 }, (_, i) => (
                       <option key={`d-middle-count-${i}`} value={String(i)}>
                         {i}
                       </option>
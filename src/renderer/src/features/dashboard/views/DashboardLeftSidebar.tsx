@@ -1,5 +1,8 @@
-import type { AppState, CharacterState } from "../../../../../shared/types";
-import type { AccountEditorDraft, DashboardMode, ViewMode } from "../dashboard-types";
+import { countServerCharacters, getAccountCharacterSlots } from "../../../../../shared/account-servers";
+import { ACCOUNT_SERVER_LIMIT, SERVER_CHARACTER_SLOTS_MAX } from "../../../../../shared/constants";
+import type { AppState, CharacterState, ProfileListResult } from "../../../../../shared/types";
+import type { AccountEditorDraft, AccountServerDraft, DashboardMode, ViewMode } from "../dashboard-types";
+import { buildAccountServerDraft } from "../dashboard-utils";
 
 interface DashboardLeftSidebarProps {
   busy: boolean;
@@ -18,10 +21,16 @@ interface DashboardLeftSidebarProps {
   onRenameAccount: () => void;
   onDeleteAccount: () => void;
   onSelectAccount: (accountId: string) => void;
-  maxCharactersPerAccount: number;
   selectedAccountCharacterCount: number;
+  selectedAccountCharacterSlots: number;
+  serverDraft: AccountServerDraft;
+  onServerDraftChange: (next: AccountServerDraft) => void;
+  onSaveAccountServer: () => void;
+  onDeleteAccountServer: () => void;
   newCharacterName: string;
   onNewCharacterNameChange: (value: string) => void;
+  newCharacterServerId: string;
+  onNewCharacterServerIdChange: (value: string) => void;
   onAddCharacter: () => void;
   canAddCharacterInSelectedAccount: boolean;
   accountCharacters: CharacterState[];
@@ -30,6 +39,8 @@ interface DashboardLeftSidebarProps {
   viewMode: ViewMode;
   dashboardMode: DashboardMode;
   buildVersion: string | null;
+  profileList: ProfileListResult | null;
+  onSwitchProfile: (profileId: string) => void;
   infoMessage: string | null;
   error: string | null;
   onCheckAppUpdate: () => void;
@@ -57,10 +68,16 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
     onRenameAccount,
     onDeleteAccount,
     onSelectAccount,
-    maxCharactersPerAccount,
     selectedAccountCharacterCount,
+    selectedAccountCharacterSlots,
+    serverDraft,
+    onServerDraftChange,
+    onSaveAccountServer,
+    onDeleteAccountServer,
     newCharacterName,
     onNewCharacterNameChange,
+    newCharacterServerId,
+    onNewCharacterServerIdChange,
     onAddCharacter,
     canAddCharacterInSelectedAccount,
     accountCharacters,
@@ -69,6 +86,8 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
     viewMode,
     dashboardMode,
     buildVersion,
+    profileList,
+    onSwitchProfile,
     infoMessage,
     error,
     onCheckAppUpdate,
@@ -176,6 +195,24 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
           </button>
         </div>
 
+        {profileList ? (
+          <label className="mt-3 block space-y-1 text-xs text-slate-300">
+            <span>当前档案</span>
+            <select
+              className="field-control-sm"
+              value={profileList.activeProfileId}
+              onChange={(event) => onSwitchProfile(event.target.value)}
+              disabled={busy}
+            >
+              {profileList.profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+
         <div className="section-rule mt-3">
           <div className="toolbar-inline">
           <button className="pill-btn" onClick={onCheckAppUpdate} disabled={busy}>
@@ -194,7 +231,9 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
           <div className="context-card">
             <p className="context-label">账号</p>
             <p className="context-value">{selectedAccount?.name ?? "--"}</p>
-            <p className="context-meta">{selectedAccount?.regionTag ? `${selectedAccount.regionTag} · ` : ""}角色 {selectedAccountCharacterCount}/{maxCharactersPerAccount}</p>
+            <p className="context-meta">{selectedAccount?.regionTag ? `${selectedAccount.regionTag} · ` : ""}角色 {selectedAccountCharacterCount}/{selectedAccountCharacterSlots}
+              {selectedAccount && selectedAccount.servers.length > 1 ? ` · ${selectedAccount.servers.length} 个服务器` : ""}
+            </p>
           </div>
         </div>
       </div>
@@ -228,7 +267,7 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
                   <p className="truncate text-sm font-medium">{account.name}</p>
                   <p className="truncate text-xs text-slate-500">
                     {account.regionTag ? `${account.regionTag} | ` : ""}
-                    角色 {count}/{maxCharactersPerAccount}
+                    角色 {count}/{getAccountCharacterSlots(account)}
                   </p>
                 </button>
               );
@@ -239,6 +278,7 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
             <div className="space-y-2">
               <input className="field-control" value={accountEditor.name} onChange={(event) => onAccountEditorChange({ ...accountEditor, name: event.target.value })} disabled={busy} placeholder="账号名称" />
               <input className="field-control" value={accountEditor.regionTag} onChange={(event) => onAccountEditorChange({ ...accountEditor, regionTag: event.target.value })} disabled={busy} placeholder="大区(可选)" />
+              <input className="field-control" value={accountEditor.tagsText} onChange={(event) => onAccountEditorChange({ ...accountEditor, tagsText: event.target.value })} disabled={busy} placeholder="账号标签(逗号分隔，可选)" />
               <div className="grid grid-cols-2 gap-2">
                 <button className="pill-btn w-full" onClick={onRenameAccount} disabled={busy || !accountEditor.name.trim()}>
                   保存账号
@@ -247,6 +287,64 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
                   删除账号
                 </button>
               </div>
+              <div className="space-y-1 pt-1">
+                <p className="text-xs text-slate-500">服务器（每个服务器独立角色位与共享次数）</p>
+                {selectedAccount.servers.map((server) => {
+                  const active = serverDraft.serverId === server.id;
+                  return (
+                    <button
+                      key={server.id}
+                      onClick={() => onServerDraftChange(active ? buildAccountServerDraft() : buildAccountServerDraft(server))}
+                      className={`context-list-item ${active ? "context-list-item-active" : ""}`}
+                      disabled={busy}
+                    >
+                      <p className="truncate text-sm font-medium">{server.name}</p>
+                      <p className="truncate text-xs text-slate-500">
+                        角色 {countServerCharacters(state.characters, selectedAccount.id, server.id)}/{server.characterSlots}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="grid grid-cols-[minmax(0,1fr)_72px] gap-2">
+                <input
+                  className="field-control"
+                  value={serverDraft.name}
+                  onChange={(event) => onServerDraftChange({ ...serverDraft, name: event.target.value })}
+                  disabled={busy}
+                  placeholder={serverDraft.serverId ? "服务器名称" : "新服务器名称"}
+                />
+                <input
+                  className="field-control"
+                  type="number"
+                  min={1}
+                  max={SERVER_CHARACTER_SLOTS_MAX}
+                  value={serverDraft.characterSlots}
+                  onChange={(event) => onServerDraftChange({ ...serverDraft, characterSlots: event.target.value })}
+                  disabled={busy}
+                  title="角色位"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  className="pill-btn w-full"
+                  onClick={onSaveAccountServer}
+                  disabled={
+                    busy ||
+                    !serverDraft.name.trim() ||
+                    (!serverDraft.serverId && selectedAccount.servers.length >= ACCOUNT_SERVER_LIMIT)
+                  }
+                >
+                  {serverDraft.serverId ? "保存服务器" : "新增服务器"}
+                </button>
+                <button
+                  className="pill-btn w-full"
+                  onClick={onDeleteAccountServer}
+                  disabled={busy || !serverDraft.serverId || selectedAccount.servers.length <= 1}
+                >
+                  删除服务器
+                </button>
+              </div>
             </div>
           ) : null}
         </div>
@@ -259,7 +357,7 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
             <h2 className="panel-title !mt-1 !text-sm">角色列表</h2>
           </div>
           <span className="pill-btn pill-static">
-            {selectedAccountCharacterCount}/{maxCharactersPerAccount}
+            {selectedAccountCharacterCount}/{selectedAccountCharacterSlots}
           </span>
         </summary>
         <div className="mt-3">
@@ -271,6 +369,21 @@ export function DashboardLeftSidebar(props: DashboardLeftSidebarProps): JSX.Elem
               onChange={(event) => onNewCharacterNameChange(event.target.value)}
               disabled={busy || !selectedAccount}
             />
+            {selectedAccount && selectedAccount.servers.length > 1 ? (
+              <select
+                className="field-control"
+                value={newCharacterServerId}
+                onChange={(event) => onNewCharacterServerIdChange(event.target.value)}
+                disabled={busy}
+              >
+                <option value="">自动选择有空位的服务器</option>
+                {selectedAccount.servers.map((server) => (
+                  <option key={server.id} value={server.id}>
+                    {server.name} ({countServerCharacters(state.characters, selectedAccount.id, server.id)}/{server.characterSlots})
+                  </option>
+                ))}
+              </select>
+            ) : null}
             <button className="pill-btn w-full" onClick={onAddCharacter} disabled={busy || !selectedAccount || !newCharacterName.trim() || !canAddCharacterInSelectedAccount}>
               新增角色
             </button>
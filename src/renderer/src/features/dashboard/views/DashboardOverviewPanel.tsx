@@ -1,16 +1,28 @@
 import { type CSSProperties, type DragEvent } from "react";
-import { TASK_DEFINITIONS } from "../../../../../shared/constants";
-import type { AppState, TaskActionKind } from "../../../../../shared/types";
-import { COUNT_SELECT_MAX, NO_REGION_FILTER, type OverviewSortKey, type OverviewTaskFilter, type QuickTaskId } from "../dashboard-types";
-import { formatCounter, getUrgentBoardToneClass } from "../dashboard-utils";
+import { resolveTaskDefinitions } from "../../../../../shared/custom-tasks";
+import type { AppState, BatchTaskActionFailure, CustomTaskDefinition, TaskActionKind } from "../../../../../shared/types";
+import {
+  BATCH_TASK_PRESETS,
+  COUNT_SELECT_MAX,
+  NO_REGION_FILTER,
+  NO_TAG_FILTER,
+  type OverviewSavedView,
+  type OverviewSortKey,
+  type OverviewTaskFilter,
+  type QuickTaskId,
+} from "../dashboard-types";
+import { formatCounter, formatDateTime, getUrgentBoardToneClass } from "../dashboard-utils";
 
 const numberFormatter = new Intl.NumberFormat("zh-CN");
 type OverviewAccount = AppState["accounts"][number];
+type OverviewServer = OverviewAccount["servers"][number];
 type OverviewCharacter = AppState["characters"][number];
 
 export interface DashboardOverviewRow {
   account: OverviewAccount;
+  server: OverviewServer;
   character: OverviewCharacter;
+  tags: string[];
   expeditionCurrent: number;
   expeditionTotal: number;
   transcendenceCurrent: number;
@@ -63,6 +75,7 @@ export interface DashboardOverviewRow {
   aodeTransformAodeRemaining: number;
   aodeShopPurchaseLimit: number;
   aodeTransformLimit: number;
+  customTaskCounters: Array<{ task: CustomTaskDefinition; current: number; total: number }>;
   dungeonReadyBuckets: number;
   weeklyReadyBuckets: number;
   missionReadyBuckets: number;
@@ -75,6 +88,7 @@ interface OverviewMetricChip {
   current: number;
   total: number;
   urgent: boolean;
+  group?: OverviewMetricGroupKey;
 }
 
 type OverviewMetricGroupKey = "urgent" | "dungeon" | "weekly" | "mission" | "leisure";
@@ -111,7 +125,17 @@ const OVERVIEW_ROW_TONE_CLASS: Record<OverviewMetricGroupKey, string> = {
   leisure: "overview-task-row overview-task-row-tone-leisure",
 };
 
-function getOverviewMetricGroupKey(metricKey: string): OverviewMetricGroupKey {
+function getCustomTaskGroupKey(task: CustomTaskDefinition): OverviewMetricGroupKey {
+  if (task.category === "副本") {
+    return "dungeon";
+  }
+  return task.category === "使命" ? "mission" : "weekly";
+}
+
+function getOverviewMetricGroupKey(metricKey: string, group?: OverviewMetricGroupKey): OverviewMetricGroupKey {
+  if (group) {
+    return group;
+  }
   if (
     [
       "sanctum_raid_challenge",
@@ -206,6 +230,14 @@ function buildOverviewMetricChips(entry: DashboardOverviewRow, isWeeklyCriticalW
       urgent: isWeeklyCriticalWindow,
     },
     { key: "transform_aode", label: "变换-奥德", current: entry.aodeTransformAodeRemaining, total: entry.aodeTransformLimit, urgent: isWeeklyCriticalWindow },
+    ...entry.customTaskCounters.map((counter) => ({
+      key: counter.task.id,
+      label: counter.task.title,
+      current: counter.current,
+      total: counter.total,
+      urgent: counter.task.resetCadence === "weekly" && isWeeklyCriticalWindow,
+      group: getCustomTaskGroupKey(counter.task),
+    })),
   ];
 }
 
@@ -229,6 +261,13 @@ interface DashboardOverviewPanelProps {
   quickTaskSetCompletedTotal: number | null;
   quickCorridorTask: { title: string; lane: "lower" | "middle" } | null;
   quickCorridorSetCompletedTotal: number | null;
+  batchCharacterIds: string[];
+  batchFailures: BatchTaskActionFailure[];
+  onToggleBatchCharacter: (characterId: string) => void;
+  onBatchCharacterIdsChange: (characterIds: string[]) => void;
+  onApplyBatchPreset: (presetId: string) => void;
+  onApplyBatchQuickAction: () => void;
+  onDismissBatchFailures: () => void;
   overviewSortKey: OverviewSortKey;
   onOverviewSortKeyChange: (value: OverviewSortKey) => void;
   overviewTaskFilter: OverviewTaskFilter;
@@ -238,6 +277,16 @@ interface DashboardOverviewPanelProps {
   overviewRegionFilter: string;
   onOverviewRegionFilterChange: (value: string) => void;
   overviewRegionOptions: string[];
+  overviewTagFilter: string;
+  onOverviewTagFilterChange: (value: string) => void;
+  overviewTagOptions: string[];
+  savedViews: OverviewSavedView[];
+  activeSavedViewId: string;
+  savedViewNameInput: string;
+  onSavedViewNameInputChange: (value: string) => void;
+  onApplySavedView: (viewId: string) => void;
+  onSaveView: () => void;
+  onDeleteSavedView: () => void;
   overviewRowsFiltered: DashboardOverviewRow[];
   draggingCharacterId: string | null;
   dragOverCharacterId: string | null;
@@ -246,6 +295,7 @@ interface DashboardOverviewPanelProps {
   onOverviewCardDrop: (event: DragEvent<HTMLElement>, targetId: string) => void;
   onOverviewCardDragEnd: () => void;
   isWeeklyCriticalWindow: boolean;
+  nextCorridorRefreshAt: Date | null;
   onSelectCharacter: (characterId: string) => void;
 }
 
@@ -270,6 +320,13 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
     quickTaskSetCompletedTotal,
     quickCorridorTask,
     quickCorridorSetCompletedTotal,
+    batchCharacterIds,
+    batchFailures,
+    onToggleBatchCharacter,
+    onBatchCharacterIdsChange,
+    onApplyBatchPreset,
+    onApplyBatchQuickAction,
+    onDismissBatchFailures,
     overviewSortKey,
     onOverviewSortKeyChange,
     overviewTaskFilter,
@@ -279,6 +336,16 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
     overviewRegionFilter,
     onOverviewRegionFilterChange,
     overviewRegionOptions,
+    overviewTagFilter,
+    onOverviewTagFilterChange,
+    overviewTagOptions,
+    savedViews,
+    activeSavedViewId,
+    savedViewNameInput,
+    onSavedViewNameInputChange,
+    onApplySavedView,
+    onSaveView,
+    onDeleteSavedView,
     overviewRowsFiltered,
     draggingCharacterId,
     dragOverCharacterId,
@@ -287,6 +354,7 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
     onOverviewCardDrop,
     onOverviewCardDragEnd,
     isWeeklyCriticalWindow,
+    nextCorridorRefreshAt,
     onSelectCharacter,
   } = props;
 
@@ -303,6 +371,11 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
         </div>
         <div className="toolbar-inline">
           <span className="pill-btn pill-static !px-3">角色 {overviewRowsFiltered.length}</span>
+          {nextCorridorRefreshAt ? (
+            <span className="pill-btn pill-static !px-3" title="回廊每周三、周六 22:00 自动刷新为满次数">
+              回廊刷新 {formatDateTime(nextCorridorRefreshAt)}
+            </span>
+          ) : null}
           <span className="summary-note">先扫一眼优先项，再决定进入哪个角色</span>
         </div>
       </div>
@@ -332,7 +405,7 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
             onChange={(event) => onQuickTaskIdChange(event.target.value as QuickTaskId)}
             disabled={busy}
           >
-            {TASK_DEFINITIONS.map((task) => (
+            {resolveTaskDefinitions(state.customTasks).map((task) => (
               <option key={task.id} value={task.id}>
                 {task.title}
               </option>
@@ -372,6 +445,57 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
             当前内容总量 {quickCorridorTask ? quickCorridorSetCompletedTotal ?? 3 : quickTaskSetCompletedTotal ?? COUNT_SELECT_MAX}，输入超过将自动按上限处理。
           </p>
         ) : null}
+        <div className="section-rule mt-3">
+          <div className="toolbar-inline">
+            <span className="summary-note">批量操作</span>
+            <span className="pill-btn pill-static !px-3">已选 {batchCharacterIds.length}</span>
+            <button
+              className="pill-btn"
+              onClick={() => onBatchCharacterIdsChange(overviewRowsFiltered.map((entry) => entry.character.id))}
+              disabled={busy || overviewRowsFiltered.length === 0}
+            >
+              全选当前筛选
+            </button>
+            <button className="pill-btn" onClick={() => onBatchCharacterIdsChange([])} disabled={busy || batchCharacterIds.length === 0}>
+              清空选择
+            </button>
+            {BATCH_TASK_PRESETS.map((preset) => (
+              <button
+                key={preset.id}
+                className="task-btn task-btn-soft task-btn-compact px-3"
+                onClick={() => onApplyBatchPreset(preset.id)}
+                disabled={busy || batchCharacterIds.length === 0}
+              >
+                {preset.label}
+              </button>
+            ))}
+            <button
+              className="task-btn task-btn-soft task-btn-compact px-3"
+              onClick={onApplyBatchQuickAction}
+              disabled={busy || batchCharacterIds.length === 0 || !quickTaskExists || Boolean(quickCorridorTask)}
+              title="使用上方快速录入选择的内容、动作与次数"
+            >
+              按快速录入批量提交
+            </button>
+          </div>
+          {batchFailures.length > 0 ? (
+            <div className="banner-warning mt-2 rounded-lg px-3 py-2 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span>以下角色未生效：</span>
+                <button className="pill-btn" onClick={onDismissBatchFailures} disabled={busy}>
+                  关闭
+                </button>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {batchFailures.map((failure) => (
+                  <li key={failure.characterId}>
+                    {failure.characterName}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
         <div className="section-rule mt-3">
           <div className="toolbar-inline">
           <span className="summary-note">筛选与排序</span>
@@ -385,6 +509,7 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
             <option value="ready">可执行项</option>
             <option value="account">按账号</option>
             <option value="region">按大区</option>
+            <option value="tag">按标签</option>
           </select>
           <select
             className="field-control-inline min-w-[120px]"
@@ -424,6 +549,49 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
               </option>
             ))}
           </select>
+          <select
+            className="field-control-inline min-w-[130px]"
+            value={overviewTagFilter}
+            onChange={(event) => onOverviewTagFilterChange(event.target.value)}
+            disabled={busy}
+          >
+            <option value="all">全部标签</option>
+            <option value={NO_TAG_FILTER}>无标签</option>
+            {overviewTagOptions.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+          </div>
+          <div className="toolbar-inline mt-2">
+            <span className="summary-note">保存的视图</span>
+            <select
+              className="field-control-inline min-w-[150px]"
+              value={activeSavedViewId}
+              onChange={(event) => onApplySavedView(event.target.value)}
+              disabled={busy}
+            >
+              <option value="">{savedViews.length > 0 ? "选择视图" : "暂无保存的视图"}</option>
+              {savedViews.map((view) => (
+                <option key={view.id} value={view.id}>
+                  {view.name}
+                </option>
+              ))}
+            </select>
+            <input
+              className="field-control-inline min-w-[140px]"
+              value={savedViewNameInput}
+              onChange={(event) => onSavedViewNameInputChange(event.target.value)}
+              disabled={busy}
+              placeholder="视图名称"
+            />
+            <button className="pill-btn" onClick={onSaveView} disabled={busy || (!savedViewNameInput.trim() && !activeSavedViewId)}>
+              保存当前筛选
+            </button>
+            <button className="pill-btn" onClick={onDeleteSavedView} disabled={busy || !activeSavedViewId}>
+              删除视图
+            </button>
           </div>
         </div>
       </div>
@@ -435,7 +603,7 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
             .sort((left, right) => Number(right.urgent) - Number(left.urgent) || right.current - left.current || left.label.localeCompare(right.label, "zh-CN"));
           const groupedMetrics = actionableMetrics.reduce<Record<OverviewMetricGroupKey, OverviewMetricChip[]>>(
             (acc, metric) => {
-              acc[getOverviewMetricGroupKey(metric.key)].push(metric);
+              acc[getOverviewMetricGroupKey(metric.key, metric.group)].push(metric);
               return acc;
             },
             {
@@ -459,7 +627,7 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
           const dragging = draggingCharacterId === entry.character.id;
           const dragOver = dragOverCharacterId === entry.character.id && draggingCharacterId !== entry.character.id;
           const spotlightMetric = actionableMetrics[0] ?? null;
-          const spotlightGroupKey = spotlightMetric ? getOverviewMetricGroupKey(spotlightMetric.key) : null;
+          const spotlightGroupKey = spotlightMetric ? getOverviewMetricGroupKey(spotlightMetric.key, spotlightMetric.group) : null;
           return (
             <article
               key={entry.character.id}
@@ -478,13 +646,32 @@ export function DashboardOverviewPanel(props: DashboardOverviewPanelProps): JSX.
                   <p className="overview-card-account">
                     {entry.account.name}
                     {entry.account.regionTag ? ` (${entry.account.regionTag})` : " (未设置大区)"}
+                    {entry.account.servers.length > 1 ? ` · ${entry.server.name}` : ""}
                   </p>
                   <p className="summary-note">
                     职业: {entry.character.classTag?.trim() || "未填写"} | 装分:{" "}
                     {entry.character.gearScore === undefined ? "未填写" : numberFormatter.format(entry.character.gearScore)}
                   </p>
+                  {entry.tags.length > 0 ? (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {entry.tags.map((tag) => (
+                        <span key={tag} className="data-pill">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
                 </div>
                 <div className="flex shrink-0 flex-col items-end gap-1.5">
+                  <label className="summary-note flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={batchCharacterIds.includes(entry.character.id)}
+                      onChange={() => onToggleBatchCharacter(entry.character.id)}
+                      disabled={busy}
+                    />
+                    批量
+                  </label>
                   <span className={getUrgentBoardToneClass(entry.aodeBaseEnergyCurrent, entry.aodeBaseEnergyCap, entry.aodeBaseEnergyOverflow)}>
                     奥德 {entry.aodeBaseEnergyCurrent}(+{entry.aodeBonusEnergyCurrent})/{entry.aodeBaseEnergyCap}
                   </span>
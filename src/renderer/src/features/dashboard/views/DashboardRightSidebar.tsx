@@ -1,6 +1,13 @@
-import type { OperationLogEntry } from "../../../../../shared/types";
-import type { DashboardMode, PriorityTodoItem, ViewMode } from "../dashboard-types";
-import { DashboardCountdownPanel, DashboardHistoryPanel, DashboardPendingPanel, DashboardPriorityTodoPanel } from "./DashboardSidebarPanels";
+import type { CharacterEnergyForecast, OperationLogEntry } from "../../../../../shared/types";
+import type { PriorityTodoItem } from "../../../../../shared/priority-todo";
+import type { DashboardMode, HistoryRowModel, ViewMode } from "../dashboard-types";
+import {
+  DashboardCountdownPanel,
+  DashboardEnergyForecastPanel,
+  DashboardHistoryPanel,
+  DashboardPendingPanel,
+  DashboardPriorityTodoPanel,
+} from "./DashboardSidebarPanels";
 
 interface CountdownItem {
   key: string;
@@ -11,18 +18,21 @@ interface CountdownItem {
 interface DashboardRightSidebarProps {
   busy: boolean;
   historyCount: number;
+  redoCount: number;
   undoSteps: string;
   onUndoStepsChange: (value: string) => void;
   onUndoSingleStep: () => void;
   onUndoMultiStep: () => void;
+  onRedoSingleStep: () => void;
+  onRevertHistoryEntry: (entry: OperationLogEntry) => void;
   onClearHistory: () => void;
   viewMode: ViewMode;
   dashboardMode: DashboardMode;
   countdownItems: CountdownItem[];
   nowMs: number;
+  energyForecasts: CharacterEnergyForecast[];
   priorityTodoItems: PriorityTodoItem[];
-  historyRows: OperationLogEntry[];
-  characterNameById: Map<string, string>;
+  historyRows: HistoryRowModel[];
   pendingLabels: string[];
 }
 
@@ -30,18 +40,21 @@ export function DashboardRightSidebar(props: DashboardRightSidebarProps): JSX.El
   const {
     busy,
     historyCount,
+    redoCount,
     undoSteps,
     onUndoStepsChange,
     onUndoSingleStep,
     onUndoMultiStep,
+    onRedoSingleStep,
+    onRevertHistoryEntry,
     onClearHistory,
     viewMode,
     dashboardMode,
     countdownItems,
     nowMs,
+    energyForecasts,
     priorityTodoItems,
     historyRows,
-    characterNameById,
     pendingLabels,
   } = props;
   const isOverview = viewMode === "dashboard" && dashboardMode === "overview";
@@ -52,7 +65,7 @@ export function DashboardRightSidebar(props: DashboardRightSidebarProps): JSX.El
       <article className="glass-panel rounded-[28px] p-4">
         <p className="panel-kicker">Ops</p>
         <h3 className="panel-title !mt-1">操作中心</h3>
-        <p className="mt-2 summary-note">历史记录 {historyCount} 条，支持撤销一步/多步。</p>
+        <p className="mt-2 summary-note">历史记录 {historyCount} 条，支持撤销一步/多步与重做。</p>
         <div className="mt-3 flex flex-wrap items-center gap-2">
           <button className="pill-btn" onClick={onUndoSingleStep} disabled={busy || historyCount === 0}>
             撤销一步
@@ -66,6 +79,9 @@ export function DashboardRightSidebar(props: DashboardRightSidebarProps): JSX.El
           <button className="pill-btn" onClick={onUndoMultiStep} disabled={busy || historyCount === 0}>
             撤销多步
           </button>
+          <button className="pill-btn" onClick={onRedoSingleStep} disabled={busy || redoCount === 0}>
+            重做{redoCount > 0 ? ` (${redoCount})` : ""}
+          </button>
           <button className="pill-btn" onClick={onClearHistory} disabled={busy || historyCount === 0}>
             清空历史
           </button>
@@ -74,10 +90,16 @@ export function DashboardRightSidebar(props: DashboardRightSidebarProps): JSX.El
 
       <DashboardCountdownPanel visible={viewMode === "dashboard"} countdownItems={countdownItems} nowMs={nowMs} />
       <DashboardPriorityTodoPanel visible={isOverview} priorityTodoItems={priorityTodoItems} />
+      <DashboardEnergyForecastPanel visible={isOverview} energyForecasts={energyForecasts} nowMs={nowMs} />
       <DashboardPendingPanel viewMode={viewMode} dashboardMode={dashboardMode} pendingLabels={pendingLabels} />
 
       {isOverview ? (
-        <DashboardHistoryPanel visible={viewMode === "dashboard"} historyRows={historyRows} characterNameById={characterNameById} />
+        <DashboardHistoryPanel
+          visible={viewMode === "dashboard"}
+          busy={busy}
+          historyRows={historyRows}
+          onRevert={onRevertHistoryEntry}
+        />
       ) : isCharacter ? (
         <details className="group">
           <summary className="details-summary soft-card px-4 py-3">
@@ -88,7 +110,12 @@ export function DashboardRightSidebar(props: DashboardRightSidebarProps): JSX.El
             <span className="pill-btn">{historyRows.length} 条</span>
           </summary>
           <div className="mt-3">
-            <DashboardHistoryPanel visible={viewMode === "dashboard"} historyRows={historyRows} characterNameById={characterNameById} />
+            <DashboardHistoryPanel
+              visible={viewMode === "dashboard"}
+              busy={busy}
+              historyRows={historyRows}
+              onRevert={onRevertHistoryEntry}
+            />
           </div>
         </details>
       ) : null}
@@ -1,4 +1,4 @@
-import type { AppBuildInfo } from "../../../../../shared/types";
+import type { AppBuildInfo, ScheduledSeasonRuleSet, SeasonRuleSet } from "../../../../../shared/types";
 import { COUNT_SELECT_MAX, PRIORITY_SETTING_FIELDS, type CorridorDraft, type SettingsDraft } from "../dashboard-types";
 import { buildCountOptions, formatBuildTime } from "../dashboard-utils";
 
@@ -8,11 +8,20 @@ interface DashboardSettingsPanelProps {
   settingsDraft: SettingsDraft;
   corridorDraft: CorridorDraft;
   buildInfo: AppBuildInfo | null;
+  seasonRules: SeasonRuleSet | null;
+  scheduledSeasonRules: ScheduledSeasonRuleSet | null;
+  seasonRuleEffectiveAt: string;
+  onSeasonRuleEffectiveAtChange: (value: string) => void;
   onSettingsDraftChange: (next: SettingsDraft) => void;
   onCorridorDraftChange: (next: CorridorDraft) => void;
   onSaveSettings: () => void;
   onExportData: () => Promise<void> | void;
+  onExportEncryptedData: () => void;
   onImportData: () => Promise<void> | void;
+  onImportSeasonRules: () => Promise<void> | void;
+  onResetSeasonRules: () => void;
+  onScheduleSeasonRules: () => Promise<void> | void;
+  onCancelScheduledSeasonRules: () => void;
   onApplyCorridorSettings: () => void;
   onApplyCorridorCompletionFromSettings: () => void;
 }
@@ -24,11 +33,20 @@ export function DashboardSettingsPanel(props: DashboardSettingsPanelProps): JSX.
     settingsDraft,
     corridorDraft,
     buildInfo,
+    seasonRules,
+    scheduledSeasonRules,
+    seasonRuleEffectiveAt,
+    onSeasonRuleEffectiveAtChange,
     onSettingsDraftChange,
     onCorridorDraftChange,
     onSaveSettings,
     onExportData,
+    onExportEncryptedData,
     onImportData,
+    onImportSeasonRules,
+    onResetSeasonRules,
+    onScheduleSeasonRules,
+    onCancelScheduledSeasonRules,
     onApplyCorridorSettings,
     onApplyCorridorCompletionFromSettings,
   } = props;
@@ -51,8 +69,11 @@ export function DashboardSettingsPanel(props: DashboardSettingsPanelProps): JSX.
           <button className="pill-btn" onClick={() => void onExportData()} disabled={busy}>
             导出 JSON
           </button>
+          <button className="pill-btn" onClick={onExportEncryptedData} disabled={busy}>
+            加密导出
+          </button>
           <button className="pill-btn" onClick={() => void onImportData()} disabled={busy}>
-            导入 JSON
+            导入备份
           </button>
         </div>
       </div>
@@ -80,6 +101,24 @@ export function DashboardSettingsPanel(props: DashboardSettingsPanelProps): JSX.
                 disabled={busy}
               />
             </div>
+            <div className="space-y-2">
+              <p className="text-xs text-slate-300">每日副本单次金币（万）</p>
+              <input
+                className="field-control"
+                value={settingsDraft.dailyDungeonGoldPerRun}
+                onChange={(event) => onSettingsDraftChange({ ...settingsDraft, dailyDungeonGoldPerRun: event.target.value })}
+                disabled={busy}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs text-slate-300">恶梦单次金币（万）</p>
+              <input
+                className="field-control"
+                value={settingsDraft.nightmareGoldPerRun}
+                onChange={(event) => onSettingsDraftChange({ ...settingsDraft, nightmareGoldPerRun: event.target.value })}
+                disabled={busy}
+              />
+            </div>
             <div className="space-y-2">
               <p className="text-xs text-slate-300">远征阈值</p>
               <input
@@ -131,6 +170,16 @@ export function DashboardSettingsPanel(props: DashboardSettingsPanelProps): JSX.
               />
             </div>
           </div>
+          <div className="mt-3 space-y-2">
+            <p className="text-xs text-slate-300">服务器时区（IANA，如 Asia/Seoul；留空使用本机时区）</p>
+            <input
+              className="field-control"
+              value={settingsDraft.serverTimeZone}
+              onChange={(event) => onSettingsDraftChange({ ...settingsDraft, serverTimeZone: event.target.value })}
+              disabled={busy}
+              placeholder="本机时区"
+            />
+          </div>
         </section>
 
         <section className="section-card">
@@ -165,15 +214,60 @@ export function DashboardSettingsPanel(props: DashboardSettingsPanelProps): JSX.
       </div>
 
       <div className="mt-4 grid gap-4 xl:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
-        <section className="section-card">
-          <p className="panel-kicker !tracking-[0.08em]">Build</p>
-          <h4 className="panel-title !mt-1 !text-sm">构建信息</h4>
-          <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-3">
-            <div className="data-pill">版本: {buildInfo?.version ? `v${buildInfo.version}` : "--"}</div>
-            <div className="data-pill">构建时间: {buildInfo?.buildTime ? formatBuildTime(buildInfo.buildTime) : "--"}</div>
-            <div className="data-pill">作者: {buildInfo?.author ?? "--"}</div>
-          </div>
-        </section>
+        <div className="grid gap-4">
+          <section className="section-card">
+            <p className="panel-kicker !tracking-[0.08em]">Build</p>
+            <h4 className="panel-title !mt-1 !text-sm">构建信息</h4>
+            <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-3">
+              <div className="data-pill">版本: {buildInfo?.version ? `v${buildInfo.version}` : "--"}</div>
+              <div className="data-pill">构建时间: {buildInfo?.buildTime ? formatBuildTime(buildInfo.buildTime) : "--"}</div>
+              <div className="data-pill">作者: {buildInfo?.author ?? "--"}</div>
+            </div>
+          </section>
+
+          <section className="section-card">
+            <p className="panel-kicker !tracking-[0.08em]">Season</p>
+            <h4 className="panel-title !mt-1 !text-sm">赛季规则</h4>
+            <p className="summary-note mt-2">
+              每日/每周重置与定时恢复的次数由规则集决定。可立即导入新规则，或指定生效时间（本机时间）在新赛季开始时自动切换。
+            </p>
+            <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-3">
+              <div className="data-pill">规则集: {seasonRules?.name ?? "--"}</div>
+              <div className="data-pill">更新时间: {seasonRules ? formatBuildTime(seasonRules.updatedAt) : "--"}</div>
+              <div className="data-pill">规则数: {seasonRules?.rules.length ?? 0}</div>
+            </div>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <button className="pill-btn" onClick={() => void onImportSeasonRules()} disabled={busy}>
+                导入规则 JSON
+              </button>
+              <button className="pill-btn" onClick={onResetSeasonRules} disabled={busy}>
+                恢复默认规则
+              </button>
+            </div>
+            <div className="mt-3 grid gap-2 md:grid-cols-[1fr_auto]">
+              <input
+                type="datetime-local"
+                className="field-control"
+                value={seasonRuleEffectiveAt}
+                onChange={(event) => onSeasonRuleEffectiveAtChange(event.target.value)}
+                disabled={busy}
+              />
+              <button className="pill-btn" onClick={() => void onScheduleSeasonRules()} disabled={busy}>
+                导入为定时切换
+              </button>
+            </div>
+            {scheduledSeasonRules ? (
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <div className="data-pill">
+                  待切换: {scheduledSeasonRules.ruleSet.name} @ {formatBuildTime(scheduledSeasonRules.effectiveAt)}
+                </div>
+                <button className="pill-btn" onClick={onCancelScheduledSeasonRules} disabled={busy}>
+                  取消切换
+                </button>
+              </div>
+            ) : null}
+          </section>
+        </div>
 
         <section className="section-card">
           <p className="panel-kicker !tracking-[0.08em]">Corridor</p>
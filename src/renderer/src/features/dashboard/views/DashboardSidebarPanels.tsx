@@ -1,5 +1,12 @@
-import type { OperationLogEntry } from "../../../../../shared/types";
-import type { DashboardMode, PriorityTodoItem, ViewMode } from "../dashboard-types";
+import { ENERGY_FORECAST_DAYS } from "../../../../../shared/constants";
+import { describePriorityScore, type PriorityTodoItem } from "../../../../../shared/priority-todo";
+import type { CharacterEnergyForecast, EnergyForecastKey, OperationLogEntry } from "../../../../../shared/types";
+import {
+  HISTORY_PANEL_LIMIT,
+  type DashboardMode,
+  type HistoryRowModel,
+  type ViewMode,
+} from "../dashboard-types";
 import { formatDateTime, formatDuration, getPriorityToneClass } from "../dashboard-utils";
 
 interface CountdownItem {
@@ -39,6 +46,66 @@ export function DashboardCountdownPanel(props: DashboardCountdownPanelProps): JS
   );
 }
 
+const ENERGY_FORECAST_LABELS: Record<EnergyForecastKey, string> = {
+  baseCurrent: "奥德能量",
+  expeditionRemaining: "远征次数",
+  transcendenceRemaining: "超越次数",
+};
+
+interface DashboardEnergyForecastPanelProps {
+  visible: boolean;
+  energyForecasts: CharacterEnergyForecast[];
+  nowMs: number;
+}
+
+export function DashboardEnergyForecastPanel(props: DashboardEnergyForecastPanelProps): JSX.Element | null {
+  const { visible, energyForecasts, nowMs } = props;
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-2xl p-3.5">
+      <h3 className="text-sm font-semibold tracking-wide">溢出预测</h3>
+      <p className="mt-2 summary-note">按当前赛季规则推算未来 {ENERGY_FORECAST_DAYS} 天的能量与次数恢复，越早溢出越靠前。</p>
+      {energyForecasts.length === 0 ? (
+        <p className="mt-3 text-xs text-slate-400">暂无角色。</p>
+      ) : (
+        <div className="mt-3 max-h-80 space-y-1.5 overflow-auto pr-1">
+          {energyForecasts.map((forecast) => {
+            const overflowAt = forecast.overflowAt ? new Date(forecast.overflowAt) : null;
+            const remain = overflowAt ? Math.max(0, overflowAt.getTime() - nowMs) : null;
+            const tone = remain === null ? "low" : remain <= 6 * 3_600_000 ? "high" : remain <= 24 * 3_600_000 ? "medium" : "low";
+            return (
+              <div key={forecast.characterId} className="data-pill">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-semibold">{forecast.name}</p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {overflowAt ? `${formatDateTime(overflowAt)} 开始浪费` : "预测期内不会溢出"}
+                    </p>
+                  </div>
+                  <span className={`rounded-full border px-2 py-0.5 text-[11px] ${getPriorityToneClass(tone)}`}>
+                    {remain === null ? "安全" : formatDuration(remain)}
+                  </span>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-500">
+                  {forecast.counters.map((counter) => (
+                    <span key={counter.key}>
+                      {ENERGY_FORECAST_LABELS[counter.key]} {counter.current}/{counter.cap}
+                      {counter.wasted > 0 ? `，将浪费 ${counter.wasted}` : ""}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </article>
+  );
+}
+
 interface DashboardPriorityTodoPanelProps {
   visible: boolean;
   priorityTodoItems: PriorityTodoItem[];
@@ -53,13 +120,13 @@ export function DashboardPriorityTodoPanel(props: DashboardPriorityTodoPanelProp
   return (
     <article className="glass-panel rounded-2xl p-3.5">
       <h3 className="text-sm font-semibold tracking-wide">优先级待办</h3>
-      <p className="mt-2 summary-note">按收益、溢出风险和周刷新提醒综合排序（Top 8），可在设置页调整偏好权重。</p>
+      <p className="mt-2 summary-note">按收益、溢出风险和日/周刷新临近程度综合排序（Top 8），悬停查看得分构成，可在设置页调整偏好权重。</p>
       {priorityTodoItems.length === 0 ? (
         <p className="mt-3 text-xs text-slate-400">当前没有待处理高优先任务。</p>
       ) : (
         <div className="mt-3 space-y-1.5">
           {priorityTodoItems.map((item) => (
-            <div key={item.id} className="data-pill">
+            <div key={item.id} className="data-pill" title={describePriorityScore(item)}>
               <div className="flex items-start justify-between gap-2">
                 <div>
                   <p className="text-sm font-semibold">{item.title}</p>
@@ -80,12 +147,13 @@ export function DashboardPriorityTodoPanel(props: DashboardPriorityTodoPanelProp
 
 interface DashboardHistoryPanelProps {
   visible: boolean;
-  historyRows: OperationLogEntry[];
-  characterNameById: Map<string, string>;
+  busy: boolean;
+  historyRows: HistoryRowModel[];
+  onRevert: (entry: OperationLogEntry) => void;
 }
 
 export function DashboardHistoryPanel(props: DashboardHistoryPanelProps): JSX.Element | null {
-  const { visible, historyRows, characterNameById } = props;
+  const { visible, busy, historyRows, onRevert } = props;
   if (!visible) {
     return null;
   }
@@ -93,24 +161,44 @@ export function DashboardHistoryPanel(props: DashboardHistoryPanelProps): JSX.El
   return (
     <article className="glass-panel rounded-2xl p-3.5">
       <h3 className="text-sm font-semibold tracking-wide">操作历史日志</h3>
-      <p className="mt-2 summary-note">显示最近 20 条（最新在前）。</p>
+      <p className="mt-2 summary-note">显示最近 {HISTORY_PANEL_LIMIT} 条（最新在前），展开可查看改动并单独撤销。</p>
       {historyRows.length === 0 ? (
         <p className="mt-3 text-xs text-slate-400">暂无操作记录。</p>
       ) : (
-        <div className="mt-3 max-h-72 space-y-1.5 overflow-auto pr-1">
-          {historyRows.map((entry) => {
-            const charName =
-              entry.characterId === null ? "全局" : characterNameById.get(entry.characterId) ?? `角色(${entry.characterId.slice(0, 6)})`;
-              return (
-                <div key={entry.id} className="data-pill">
-                  <p className="text-xs text-slate-400">{new Date(entry.at).toLocaleString()}</p>
-                  <p className="mt-1 text-sm">
-                    [{charName}] {entry.action}
-                  </p>
-                  {entry.description ? <p className="mt-1 text-xs text-slate-500">{entry.description}</p> : null}
+        <div className="mt-3 max-h-96 space-y-1.5 overflow-auto pr-1">
+          {historyRows.map(({ entry, characterName, diff, revertBlockedReason }) => (
+            <details key={entry.id} className="data-pill">
+              <summary className="cursor-pointer list-none">
+                <p className="text-xs text-slate-400">{new Date(entry.at).toLocaleString()}</p>
+                <p className="mt-1 text-sm">
+                  [{characterName}] {entry.action}
+                </p>
+                {entry.description ? <p className="mt-1 text-xs text-slate-500">{entry.description}</p> : null}
+              </summary>
+              <div className="mt-2 space-y-1">
+                {diff.lines.length === 0 ? (
+                  <p className="text-xs text-slate-500">{entry.beforeDelta ? "没有可显示的字段变化。" : "完整快照记录，不显示字段对比。"}</p>
+                ) : (
+                  diff.lines.map((line, index) => (
+                    <p key={`${entry.id}-${index}`} className="text-xs text-slate-500">
+                      {line.label}: <span className="tone-danger">{line.before}</span> → <span className="tone-positive">{line.after}</span>
+                    </p>
+                  ))
+                )}
+                {diff.hiddenCount > 0 ? <p className="text-xs text-slate-500">另有 {diff.hiddenCount} 项变化未显示</p> : null}
+                <div className="flex flex-wrap items-center gap-2 pt-1">
+                  <button
+                    className="pill-btn"
+                    onClick={() => onRevert(entry)}
+                    disabled={busy || revertBlockedReason !== null}
+                  >
+                    仅撤销此条
+                  </button>
+                  {revertBlockedReason ? <span className="text-xs text-slate-500">{revertBlockedReason}</span> : null}
                 </div>
-              );
-            })}
+              </div>
+            </details>
+          ))}
         </div>
       )}
     </article>
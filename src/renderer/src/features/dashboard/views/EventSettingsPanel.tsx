@@ -0,0 +1,151 @@
+import { getCustomTaskResetLabel } from "../../../../../shared/custom-tasks";
+import type { CustomTaskResetCadence, EventDefinition } from "../../../../../shared/types";
+import type { EventDraft } from "../dashboard-types";
+import { formatBuildTime } from "../dashboard-utils";
+
+const RESET_CADENCE_OPTIONS: CustomTaskResetCadence[] = ["daily", "weekly", "none"];
+
+interface EventSettingsPanelProps {
+  visible: boolean;
+  busy: boolean;
+  events: EventDefinition[];
+  draft: EventDraft;
+  onDraftChange: (next: EventDraft) => void;
+  onSave: () => void;
+  onEdit: (event: EventDefinition) => void;
+  onCancelEdit: () => void;
+  onDelete: (event: EventDefinition) => void;
+}
+
+export function EventSettingsPanel(props: EventSettingsPanelProps): JSX.Element | null {
+  const { visible, busy, events, draft, onDraftChange, onSave, onEdit, onCancelEdit, onDelete } = props;
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-[30px] p-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Events</p>
+          <h3 className="panel-title !mt-1 !text-base">限时活动</h3>
+        </div>
+        <span className="pill-btn pill-static !px-3">共 {events.length} 个</span>
+      </div>
+      <p className="summary-note mt-2">
+        活动只在开始与结束时间之间显示在总览中，每个角色独立计数，按设定周期在活动期内恢复到上限。
+      </p>
+
+      <section className="section-card mt-4">
+        <p className="panel-kicker !tracking-[0.08em]">{draft.id ? "Edit" : "Create"}</p>
+        <h4 className="panel-title !mt-1 !text-sm">{draft.id ? "编辑活动" : "新增活动"}</h4>
+        <div className="mt-3 grid gap-3 md:grid-cols-[1.4fr_1fr_1fr_1fr]">
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>名称</span>
+            <input
+              className="field-control"
+              value={draft.title}
+              onChange={(event) => onDraftChange({ ...draft, title: event.target.value })}
+              disabled={busy}
+              placeholder="例如：春节灯会"
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>开始时间</span>
+            <input
+              type="datetime-local"
+              className="field-control"
+              value={draft.startAt}
+              onChange={(event) => onDraftChange({ ...draft, startAt: event.target.value })}
+              disabled={busy}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>结束时间</span>
+            <input
+              type="datetime-local"
+              className="field-control"
+              value={draft.endAt}
+              onChange={(event) => onDraftChange({ ...draft, endAt: event.target.value })}
+              disabled={busy}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>重置周期</span>
+            <select
+              className="field-control"
+              value={draft.resetCadence}
+              onChange={(event) => onDraftChange({ ...draft, resetCadence: event.target.value as CustomTaskResetCadence })}
+              disabled={busy}
+            >
+              {RESET_CADENCE_OPTIONS.map((cadence) => (
+                <option key={cadence} value={cadence}>
+                  {getCustomTaskResetLabel(cadence)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="mt-3 grid gap-3 md:grid-cols-2">
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>计数项（每行「名称:上限」）</span>
+            <textarea
+              className="field-control min-h-[88px]"
+              value={draft.countersText}
+              onChange={(event) => onDraftChange({ ...draft, countersText: event.target.value })}
+              disabled={busy}
+              placeholder={"灯谜:3\n兑换:1"}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-300">
+            <span>奖励备注</span>
+            <textarea
+              className="field-control min-h-[88px]"
+              value={draft.rewardNote}
+              onChange={(event) => onDraftChange({ ...draft, rewardNote: event.target.value })}
+              disabled={busy}
+              placeholder="例如：限定外观、强化石"
+            />
+          </label>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button className="task-btn" onClick={onSave} disabled={busy}>
+            {draft.id ? "保存修改" : "新增活动"}
+          </button>
+          {draft.id ? (
+            <button className="pill-btn" onClick={onCancelEdit} disabled={busy}>
+              取消编辑
+            </button>
+          ) : null}
+        </div>
+      </section>
+
+      {events.length === 0 ? (
+        <p className="summary-note mt-4">还没有限时活动。</p>
+      ) : (
+        <div className="mt-4 grid gap-2 md:grid-cols-2">
+          {events.map((item) => (
+            <div key={item.id} className="subtle-panel flex flex-wrap items-center justify-between gap-2 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-900">{item.title}</p>
+                <p className="summary-note">
+                  {formatBuildTime(item.startAt)} ~ {formatBuildTime(item.endAt)} · {getCustomTaskResetLabel(item.resetCadence)}
+                </p>
+                <p className="summary-note">{item.counters.map((counter) => `${counter.label} ${counter.cap}`).join(" / ")}</p>
+              </div>
+              <div className="flex gap-2">
+                <button className="pill-btn" onClick={() => onEdit(item)} disabled={busy}>
+                  编辑
+                </button>
+                <button className="pill-btn" onClick={() => onDelete(item)} disabled={busy}>
+                  删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
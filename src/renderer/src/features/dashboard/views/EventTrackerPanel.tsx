@@ -0,0 +1,87 @@
+import { getCustomTaskResetLabel } from "../../../../../shared/custom-tasks";
+import type { ActiveEventModel } from "../dashboard-types";
+import { formatCounter, formatDuration } from "../dashboard-utils";
+
+interface EventTrackerPanelProps {
+  visible: boolean;
+  busy: boolean;
+  events: ActiveEventModel[];
+  onSpend: (characterId: string, eventId: string, counterLabel: string) => void;
+}
+
+export function EventTrackerPanel(props: EventTrackerPanelProps): JSX.Element | null {
+  const { visible, busy, events, onSpend } = props;
+  if (!visible || events.length === 0) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-2xl p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Events</p>
+          <h3 className="panel-title !mt-1 !text-sm">限时活动</h3>
+        </div>
+        <p className="summary-note">仅显示进行中的活动，结束前 48 小时仍有剩余次数会进入优先级待办。</p>
+      </div>
+      <div className="mt-3 space-y-3">
+        {events.map((model) => (
+          <details key={model.event.id} className="group" open={model.endingSoon}>
+            <summary className="details-summary soft-card px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-900">{model.event.title}</p>
+                <p className="summary-note">
+                  {getCustomTaskResetLabel(model.event.resetCadence)}
+                  {model.event.rewardNote ? ` · 奖励: ${model.event.rewardNote}` : ""}
+                </p>
+              </div>
+              <span className={`pill-btn pill-static ${model.endingSoon ? "tone-danger" : ""}`}>
+                剩余 {formatDuration(model.endsInMs)}
+              </span>
+            </summary>
+            <div className="subtle-panel mt-2 overflow-auto">
+              <table className="w-full min-w-[480px] text-left text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-medium">角色</th>
+                    {model.event.counters.map((counter) => (
+                      <th key={counter.label} className="py-1 pr-2 font-medium">
+                        {counter.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {model.rows.map((row) => (
+                    <tr key={row.characterId} className="border-t border-slate-200/70">
+                      <td className="py-1.5 pr-2">
+                        <p className="font-semibold">{row.characterName}</p>
+                        <p className="text-slate-400">{row.accountName}</p>
+                      </td>
+                      {row.counters.map((counter) => (
+                        <td key={counter.label} className="py-1.5 pr-2">
+                          <div className="flex items-center gap-2">
+                            <span className={counter.current > 0 ? "" : "text-slate-400"}>
+                              {formatCounter(counter.current, counter.total)}
+                            </span>
+                            <button
+                              className="pill-btn !px-2"
+                              onClick={() => onSpend(row.characterId, model.event.id, counter.label)}
+                              disabled={busy || counter.current <= 0}
+                            >
+                              -1
+                            </button>
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </details>
+        ))}
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,160 @@
+import { GOLD_LEDGER_NOTE_MAX_LENGTH } from "../../../../../shared/constants";
+import {
+  GOLD_LEDGER_SOURCE_LABELS,
+  type GoldLedgerWeekRow,
+  type GoldRateSuggestion,
+} from "../../../../../shared/gold-ledger";
+import type { GoldLedgerEntry, GoldLedgerSource } from "../../../../../shared/types";
+import type { GoldLedgerDraft } from "../dashboard-types";
+import { toGoldText } from "../dashboard-utils";
+
+const LEDGER_ENTRY_DISPLAY_LIMIT = 10;
+const LEDGER_WEEK_DISPLAY_LIMIT = 6;
+
+interface GoldLedgerPanelProps {
+  visible: boolean;
+  busy: boolean;
+  entries: GoldLedgerEntry[];
+  weeks: GoldLedgerWeekRow[];
+  suggestions: GoldRateSuggestion[];
+  draft: GoldLedgerDraft;
+  onDraftChange: (draft: GoldLedgerDraft) => void;
+  onRecord: () => void;
+  onDeleteEntry: (entryId: string) => void;
+  onApplySuggestion: (suggestion: GoldRateSuggestion) => void;
+}
+
+function formatWeekRange(week: GoldLedgerWeekRow): string {
+  const start = new Date(week.cycleStartedAt).toLocaleDateString("zh-CN", { month: "2-digit", day: "2-digit" });
+  if (!week.cycleEndedAt) {
+    return `${start} 起（本周）`;
+  }
+  const end = new Date(week.cycleEndedAt).toLocaleDateString("zh-CN", { month: "2-digit", day: "2-digit" });
+  return `${start} - ${end}`;
+}
+
+export function GoldLedgerPanel(props: GoldLedgerPanelProps): JSX.Element | null {
+  const { visible, busy, entries, weeks, suggestions, draft, onDraftChange, onRecord, onDeleteEntry, onApplySuggestion } =
+    props;
+  if (!visible) {
+    return null;
+  }
+
+  const recentEntries = [...entries].reverse().slice(0, LEDGER_ENTRY_DISPLAY_LIMIT);
+  const recordedWeeks = weeks.filter((week, index) => index === 0 || week.entryCount > 0).slice(0, LEDGER_WEEK_DISPLAY_LIMIT);
+
+  return (
+    <article className="glass-panel rounded-2xl p-4">
+      <div>
+        <p className="panel-kicker">Gold Ledger</p>
+        <h3 className="panel-title !mt-1 !text-sm">金币账本</h3>
+      </div>
+      <p className="mt-2 summary-note">可选记录实际到手的金币或出售掉落的收入，按周与估算金币对照；副本记录足够后会给出单次金币建议。</p>
+
+      <div className="toolbar-grid mt-3 md:grid-cols-[minmax(0,1fr)_minmax(0,0.6fr)_minmax(0,0.8fr)_minmax(0,1.4fr)_auto]">
+        <select
+          className="field-control"
+          value={draft.source}
+          onChange={(event) => onDraftChange({ ...draft, source: event.target.value as GoldLedgerSource })}
+          disabled={busy}
+        >
+          {(Object.keys(GOLD_LEDGER_SOURCE_LABELS) as GoldLedgerSource[]).map((source) => (
+            <option key={`gold-source-${source}`} value={source}>
+              {GOLD_LEDGER_SOURCE_LABELS[source]}
+            </option>
+          ))}
+        </select>
+        <input
+          className="field-control"
+          type="number"
+          min={1}
+          placeholder="次数"
+          value={draft.source === "other" ? "" : draft.runs}
+          onChange={(event) => onDraftChange({ ...draft, runs: event.target.value })}
+          disabled={busy || draft.source === "other"}
+        />
+        <input
+          className="field-control"
+          type="number"
+          min={1}
+          placeholder="实际金币"
+          value={draft.amount}
+          onChange={(event) => onDraftChange({ ...draft, amount: event.target.value })}
+          disabled={busy}
+        />
+        <input
+          className="field-control"
+          placeholder="备注（可选）"
+          maxLength={GOLD_LEDGER_NOTE_MAX_LENGTH}
+          value={draft.note}
+          onChange={(event) => onDraftChange({ ...draft, note: event.target.value })}
+          disabled={busy}
+        />
+        <button className="task-btn task-btn-soft task-btn-compact px-4" onClick={onRecord} disabled={busy}>
+          记录
+        </button>
+      </div>
+
+      <div className="mt-3 space-y-1.5">
+        <p className="text-xs text-slate-500">实际 vs 估算（按周）</p>
+        {recordedWeeks.map((week) => (
+          <div key={`gold-week-${week.cycleStartedAt}`} className="data-pill flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-semibold">{formatWeekRange(week)}</p>
+            <p className="text-xs text-slate-500">
+              估算 {toGoldText(week.estimated)} · 实际 {toGoldText(week.actual)}
+              {week.entryCount > 0 ? ` · 差额 ${week.actual >= week.estimated ? "+" : "-"}${toGoldText(Math.abs(week.actual - week.estimated))}` : " · 暂无记录"}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {suggestions.length > 0 ? (
+        <div className="mt-3 space-y-1.5">
+          <p className="text-xs text-slate-500">单次金币建议（全部角色的记录平均）</p>
+          {suggestions.map((suggestion) => (
+            <div key={`gold-suggestion-${suggestion.source}`} className="data-pill flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-semibold">{GOLD_LEDGER_SOURCE_LABELS[suggestion.source]}</p>
+              <p className="text-xs text-slate-500">
+                {suggestion.runs} 次平均 {toGoldText(suggestion.average)} · 当前设置 {toGoldText(suggestion.current)}
+              </p>
+              <button
+                className="task-btn task-btn-soft task-btn-compact px-3"
+                onClick={() => onApplySuggestion(suggestion)}
+                disabled={busy || suggestion.average === suggestion.current}
+              >
+                采用建议单价
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="mt-3 space-y-1.5">
+        <p className="text-xs text-slate-500">最近记录</p>
+        {recentEntries.length === 0 ? (
+          <p className="text-xs text-slate-400">还没有记录实际金币。</p>
+        ) : (
+          recentEntries.map((entry) => (
+            <div key={entry.id} className="data-pill flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-semibold">
+                {GOLD_LEDGER_SOURCE_LABELS[entry.source]}
+                {entry.runs > 0 ? ` ×${entry.runs}` : ""} · {toGoldText(entry.amount)}
+              </p>
+              <p className="text-xs text-slate-500">
+                {new Date(entry.recordedAt).toLocaleString()}
+                {entry.note ? ` · ${entry.note}` : ""}
+              </p>
+              <button
+                className="task-btn task-btn-soft task-btn-compact px-3"
+                onClick={() => onDeleteEntry(entry.id)}
+                disabled={busy}
+              >
+                删除
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </article>
+  );
+}
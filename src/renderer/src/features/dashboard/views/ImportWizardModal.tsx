@@ -0,0 +1,179 @@
+import type { ImportEntityStatus, ImportMergeMode } from "../../../../../shared/types";
+import type { ImportSelectionDraft } from "../dashboard-types";
+import { formatBuildTime } from "../dashboard-utils";
+
+const MERGE_MODE_OPTIONS: Array<{ value: ImportMergeMode; label: string }> = [
+  { value: "skip", label: "跳过" },
+  { value: "merge", label: "合并" },
+  { value: "overwrite", label: "覆盖" },
+];
+
+function getStatusLabel(status: ImportEntityStatus): string {
+  if (status === "new") {
+    return "新增";
+  }
+  if (status === "changed") {
+    return "有变化";
+  }
+  return "无变化";
+}
+
+function getStatusClass(status: ImportEntityStatus): string {
+  if (status === "new") {
+    return "tone-positive";
+  }
+  return status === "changed" ? "text-amber-500" : "text-slate-400";
+}
+
+interface ImportWizardModalProps {
+  draft: ImportSelectionDraft | null;
+  busy: boolean;
+  error: string | null;
+  onDraftChange: (next: ImportSelectionDraft) => void;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+export function ImportWizardModal(props: ImportWizardModalProps): JSX.Element | null {
+  const { draft, busy, error, onDraftChange, onCancel, onConfirm } = props;
+  if (!draft) {
+    return null;
+  }
+  const { preview } = draft;
+
+  const updateAccount = (accountId: string, patch: Partial<ImportSelectionDraft["accounts"][string]>): void => {
+    const current = draft.accounts[accountId] ?? { mode: "skip", characterIds: [] };
+    onDraftChange({ ...draft, accounts: { ...draft.accounts, [accountId]: { ...current, ...patch } } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/55 p-4 backdrop-blur-sm">
+      <div className="glass-panel flex max-h-[88vh] w-full max-w-3xl flex-col rounded-2xl p-5">
+        <h4 className="text-base font-semibold">导入数据预览</h4>
+        <p className="mt-1 text-xs text-slate-300">
+          {preview.path}
+          {preview.exportedAt ? ` · 导出于 ${formatBuildTime(preview.exportedAt)}` : ""}
+        </p>
+        <p className="summary-note mt-2">
+          合并：只替换勾选的角色，保留当前其它角色；覆盖：账号与角色以备份为准，未勾选的当前角色会被移除。自定义任务与活动只随勾选角色的进度一并导入。导入记为一条可撤销操作。
+        </p>
+
+        <div className="mt-3 min-h-0 flex-1 space-y-3 overflow-auto pr-1">
+          {preview.accounts.length === 0 ? <p className="summary-note">备份中没有账号数据。</p> : null}
+          {preview.accounts.map((account) => {
+            const selection = draft.accounts[account.id] ?? { mode: "skip" as const, characterIds: [] };
+            const selectedIds = new Set(selection.characterIds);
+            return (
+              <section key={account.id} className="subtle-panel p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold">
+                      {account.name}
+                      {account.regionTag ? <span className="ml-1 text-xs text-slate-400">{account.regionTag}</span> : null}
+                      <span className={`ml-2 text-xs ${getStatusClass(account.status)}`}>{getStatusLabel(account.status)}</span>
+                    </p>
+                    {account.currentName && account.currentName !== account.name ? (
+                      <p className="summary-note">当前名称: {account.currentName}</p>
+                    ) : null}
+                  </div>
+                  <select
+                    className="field-control field-control-sm !w-auto"
+                    value={selection.mode}
+                    onChange={(event) => updateAccount(account.id, { mode: event.target.value as ImportMergeMode })}
+                    disabled={busy}
+                  >
+                    {MERGE_MODE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="mt-2 grid gap-1 md:grid-cols-2">
+                  {account.characters.map((character) => (
+                    <label key={character.id} className="flex items-center gap-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(character.id)}
+                        onChange={(event) =>
+                          updateAccount(account.id, {
+                            characterIds: event.target.checked
+                              ? [...selection.characterIds, character.id]
+                              : selection.characterIds.filter((id) => id !== character.id),
+                          })
+                        }
+                        disabled={busy || selection.mode === "skip"}
+                      />
+                      <span>{character.name}</span>
+                      <span className={getStatusClass(character.status)}>{getStatusLabel(character.status)}</span>
+                      {character.currentName && character.currentName !== character.name ? (
+                        <span className="text-slate-400">（当前: {character.currentName}）</span>
+                      ) : null}
+                      {character.currentAccountId && character.currentAccountId !== account.id ? (
+                        <span className="text-slate-400">（将从其它账号移入）</span>
+                      ) : null}
+                      {selection.mode === "overwrite" &&
+                      !selectedIds.has(character.id) &&
+                      character.currentAccountId === account.id ? (
+                        <span className="tone-danger">（未勾选，覆盖后将被移除）</span>
+                      ) : null}
+                    </label>
+                  ))}
+                </div>
+                {account.currentOnlyCharacterNames.length > 0 ? (
+                  <p className={`mt-2 text-xs ${selection.mode === "overwrite" ? "tone-danger" : "text-slate-400"}`}>
+                    仅当前存在: {account.currentOnlyCharacterNames.join("、")}
+                    {selection.mode === "overwrite" ? "（覆盖后将被移除）" : ""}
+                  </p>
+                ) : null}
+              </section>
+            );
+          })}
+
+          <label className="subtle-panel flex items-center gap-2 p-3 text-xs">
+            <input
+              type="checkbox"
+              checked={draft.includeSettings}
+              onChange={(event) => onDraftChange({ ...draft, includeSettings: event.target.checked })}
+              disabled={busy}
+            />
+            <span>同时导入设置</span>
+            <span className="text-slate-400">
+              {preview.changedSettingKeys.length > 0 ? `${preview.changedSettingKeys.length} 项与当前不同` : "与当前一致"}
+            </span>
+          </label>
+
+          {preview.workshop ? (
+            <label className="subtle-panel flex flex-wrap items-center gap-2 p-3 text-xs">
+              <input
+                type="checkbox"
+                checked={draft.includeWorkshop}
+                onChange={(event) => onDraftChange({ ...draft, includeWorkshop: event.target.checked })}
+                disabled={busy}
+              />
+              <span>同时恢复工坊数据</span>
+              <span className="text-slate-400">
+                物品 {preview.workshop.itemCount} · 配方 {preview.workshop.recipeCount} · 价格 {preview.workshop.priceCount} · 库存{" "}
+                {preview.workshop.inventoryCount}
+              </span>
+              {draft.includeWorkshop ? <span className="tone-danger">将整体替换当前工坊数据，且不支持撤销</span> : null}
+            </label>
+          ) : (
+            <p className="summary-note">备份中不包含工坊数据。</p>
+          )}
+        </div>
+
+        {error ? <p className="mt-3 text-xs text-red-300">{error}</p> : null}
+
+        <div className="mt-4 grid grid-cols-2 gap-2">
+          <button className="task-btn" onClick={onCancel} disabled={busy}>
+            取消
+          </button>
+          <button className="task-btn" onClick={onConfirm} disabled={busy}>
+            确认导入
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import type { CharacterState, OperationJournalQueryResult } from "../../../../../shared/types";
+import type { OperationJournalFilterDraft } from "../dashboard-types";
+import { buildOperationJournalFilterDraft, formatBuildTime } from "../dashboard-utils";
+
+interface OperationJournalPanelProps {
+  visible: boolean;
+  busy: boolean;
+  characters: CharacterState[];
+  filter: OperationJournalFilterDraft;
+  result: OperationJournalQueryResult | null;
+  onFilterChange: (next: OperationJournalFilterDraft) => void;
+  onSearch: () => Promise<void> | void;
+  onExport: () => Promise<void> | void;
+}
+
+export function OperationJournalPanel(props: OperationJournalPanelProps): JSX.Element | null {
+  const { visible, busy, characters, filter, result, onFilterChange, onSearch, onExport } = props;
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-[30px] p-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Journal</p>
+          <h3 className="panel-title !mt-1 !text-base">操作日志</h3>
+        </div>
+        <button className="pill-btn" onClick={() => void onExport()} disabled={busy}>
+          导出 CSV
+        </button>
+      </div>
+      <p className="summary-note mt-2">
+        每次修改都会追加写入独立的日志文件，不受撤销历史 200 条上限影响，清空历史也不会删除日志。
+      </p>
+
+      <form
+        className="mt-4 grid gap-2 md:grid-cols-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void onSearch();
+        }}
+      >
+        <label className="space-y-1 text-xs text-slate-300">
+          <span>角色</span>
+          <select
+            className="field-control-sm"
+            value={filter.characterId}
+            onChange={(event) => onFilterChange({ ...filter, characterId: event.target.value })}
+            disabled={busy}
+          >
+            <option value="">全部角色</option>
+            {characters.map((character) => (
+              <option key={character.id} value={character.id}>
+                {character.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-slate-300">
+          <span>操作类型</span>
+          <select
+            className="field-control-sm"
+            value={filter.action}
+            onChange={(event) => onFilterChange({ ...filter, action: event.target.value })}
+            disabled={busy}
+          >
+            <option value="">全部操作</option>
+            {(result?.actions ?? []).map((action) => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-slate-300">
+          <span>关键词（说明/改动字段）</span>
+          <input
+            className="field-control-sm"
+            value={filter.keyword}
+            onChange={(event) => onFilterChange({ ...filter, keyword: event.target.value })}
+            placeholder="如 sanctum_raid"
+            disabled={busy}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-slate-300">
+          <span>开始日期</span>
+          <input
+            type="date"
+            className="field-control-sm"
+            value={filter.from}
+            onChange={(event) => onFilterChange({ ...filter, from: event.target.value })}
+            disabled={busy}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-slate-300">
+          <span>结束日期</span>
+          <input
+            type="date"
+            className="field-control-sm"
+            value={filter.to}
+            onChange={(event) => onFilterChange({ ...filter, to: event.target.value })}
+            disabled={busy}
+          />
+        </label>
+        <div className="flex items-end gap-2">
+          <button type="submit" className="task-btn" disabled={busy}>
+            查询
+          </button>
+          <button
+            type="button"
+            className="task-btn"
+            onClick={() => onFilterChange(buildOperationJournalFilterDraft())}
+            disabled={busy}
+          >
+            重置
+          </button>
+        </div>
+      </form>
+
+      {result === null ? (
+        <p className="summary-note mt-4">正在读取操作日志...</p>
+      ) : result.entries.length === 0 ? (
+        <p className="summary-note mt-4">没有符合条件的操作记录。</p>
+      ) : (
+        <>
+          <p className="summary-note mt-4">
+            共 {result.totalMatched} 条{result.totalMatched > result.entries.length ? `，显示最新 ${result.entries.length} 条` : ""}
+          </p>
+          <div className="mt-2 max-h-[28rem] space-y-1.5 overflow-auto pr-1">
+            {result.entries.map((entry) => (
+              <div key={entry.id} className="data-pill">
+                <p className="text-xs text-slate-400">{formatBuildTime(entry.at)}</p>
+                <p className="mt-1 text-sm">
+                  [
+                  {entry.characterName ??
+                    (entry.characterId === null
+                      ? entry.characterIds?.length
+                        ? `${entry.characterIds.length} 个角色`
+                        : "全局"
+                      : `角色(${entry.characterId.slice(0, 6)})`)}
+                  ]{" "}
+                  {entry.action}
+                </p>
+                {entry.description ? <p className="mt-1 text-xs text-slate-500">{entry.description}</p> : null}
+                {entry.changes.map((change, index) => (
+                  <p key={`${entry.id}-${index}`} className="text-xs text-slate-500">
+                    {change.label}: {change.before} → {change.after}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </article>
+  );
+}
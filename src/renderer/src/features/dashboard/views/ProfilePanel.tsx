@@ -0,0 +1,151 @@
+import { DEFAULT_PROFILE_ID } from "../../../../../shared/constants";
+import type { ProfileListResult, ProfileSummary } from "../../../../../shared/types";
+import type { ProfileDraft } from "../dashboard-types";
+import { formatBuildTime } from "../dashboard-utils";
+
+interface ProfilePanelProps {
+  visible: boolean;
+  busy: boolean;
+  profileList: ProfileListResult | null;
+  draft: ProfileDraft;
+  onDraftChange: (next: ProfileDraft) => void;
+  onSwitch: (profileId: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDelete: (profile: ProfileSummary) => void;
+  onImport: () => void;
+  onExportCurrent: () => Promise<void> | void;
+}
+
+export function ProfilePanel(props: ProfilePanelProps): JSX.Element | null {
+  const { visible, busy, profileList, draft, onDraftChange, onSwitch, onCreate, onRename, onDelete, onImport, onExportCurrent } = props;
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-[30px] p-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Profiles</p>
+          <h3 className="panel-title !mt-1 !text-base">档案管理</h3>
+        </div>
+        <button className="pill-btn" onClick={() => void onExportCurrent()} disabled={busy}>
+          导出当前档案
+        </button>
+      </div>
+      <p className="summary-note mt-2">
+        每个档案拥有独立的角色数据、工坊数据、设置与自动备份，适合同一台电脑管理多套账号。删除档案不会删除其自动备份。
+      </p>
+
+      {profileList === null ? (
+        <p className="summary-note mt-4">正在读取档案...</p>
+      ) : (
+        <div className="mt-4 grid gap-2 md:grid-cols-2">
+          {profileList.profiles.map((profile) => {
+            const active = profile.id === profileList.activeProfileId;
+            const editing = draft.editingId === profile.id;
+            return (
+              <div key={profile.id} className="subtle-panel flex flex-wrap items-center justify-between gap-2 p-3">
+                <div className="min-w-0">
+                  {editing ? (
+                    <input
+                      className="field-control-sm"
+                      value={draft.editingName}
+                      onChange={(event) => onDraftChange({ ...draft, editingName: event.target.value })}
+                      disabled={busy}
+                    />
+                  ) : (
+                    <p className="text-sm font-semibold text-slate-900">
+                      {profile.name}
+                      {active ? <span className="data-pill ml-2">使用中</span> : null}
+                    </p>
+                  )}
+                  <p className="summary-note">
+                    上次打开: {profile.lastOpenedAt ? formatBuildTime(profile.lastOpenedAt) : "--"}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {editing ? (
+                    <>
+                      <button className="pill-btn" onClick={onRename} disabled={busy}>
+                        保存
+                      </button>
+                      <button
+                        className="pill-btn"
+                        onClick={() => onDraftChange({ ...draft, editingId: null, editingName: "" })}
+                        disabled={busy}
+                      >
+                        取消
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button className="pill-btn" onClick={() => onSwitch(profile.id)} disabled={busy || active}>
+                        切换
+                      </button>
+                      <button
+                        className="pill-btn"
+                        onClick={() => onDraftChange({ ...draft, editingId: profile.id, editingName: profile.name })}
+                        disabled={busy}
+                      >
+                        重命名
+                      </button>
+                      <button className="pill-btn" onClick={() => onDelete(profile)} disabled={busy || active || profile.id === DEFAULT_PROFILE_ID}>
+                        删除
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mt-4 grid gap-3 md:grid-cols-2">
+        <section className="section-card">
+          <p className="panel-kicker !tracking-[0.08em]">Create</p>
+          <h4 className="panel-title !mt-1 !text-sm">新建空白档案</h4>
+          <div className="mt-3 flex gap-2">
+            <input
+              className="field-control-sm"
+              placeholder="档案名称"
+              value={draft.createName}
+              onChange={(event) => onDraftChange({ ...draft, createName: event.target.value })}
+              disabled={busy}
+            />
+            <button className="task-btn" onClick={onCreate} disabled={busy || !draft.createName.trim()}>
+              新建
+            </button>
+          </div>
+        </section>
+        <section className="section-card">
+          <p className="panel-kicker !tracking-[0.08em]">Import</p>
+          <h4 className="panel-title !mt-1 !text-sm">从备份新建档案</h4>
+          <div className="mt-3 space-y-2">
+            <input
+              className="field-control-sm"
+              placeholder="档案名称"
+              value={draft.importName}
+              onChange={(event) => onDraftChange({ ...draft, importName: event.target.value })}
+              disabled={busy}
+            />
+            <input
+              className="field-control-sm"
+              type="password"
+              placeholder="备份密码（未加密可留空）"
+              value={draft.importPassphrase}
+              onChange={(event) => onDraftChange({ ...draft, importPassphrase: event.target.value })}
+              disabled={busy}
+            />
+            <button className="task-btn w-full" onClick={onImport} disabled={busy || !draft.importName.trim()}>
+              选择备份文件并导入
+            </button>
+          </div>
+        </section>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,112 @@
+import type { RestorePoint } from "../../../../../shared/types";
+import type { SettingsDraft } from "../dashboard-types";
+import { formatBuildTime } from "../dashboard-utils";
+
+const RETENTION_FIELDS: Array<{ key: "autoBackupKeepDaily" | "autoBackupKeepWeekly" | "autoBackupKeepMonthly"; label: string }> = [
+  { key: "autoBackupKeepDaily", label: "保留每日（天）" },
+  { key: "autoBackupKeepWeekly", label: "保留每周（周）" },
+  { key: "autoBackupKeepMonthly", label: "保留每月（月）" },
+];
+
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+function formatDiffSummary(point: RestorePoint): string {
+  if (!point.diff) {
+    return "";
+  }
+  const parts = [
+    point.diff.newCharacterCount > 0 ? `新增角色 ${point.diff.newCharacterCount}` : "",
+    point.diff.changedCharacterCount > 0 ? `变化角色 ${point.diff.changedCharacterCount}` : "",
+    point.diff.missingCharacterCount > 0 ? `备份中缺少 ${point.diff.missingCharacterCount}` : "",
+    point.diff.changedSettingCount > 0 ? `设置差异 ${point.diff.changedSettingCount}` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "与当前一致";
+}
+
+interface RestorePointPanelProps {
+  visible: boolean;
+  busy: boolean;
+  settingsDraft: SettingsDraft;
+  restorePoints: RestorePoint[] | null;
+  onSettingsDraftChange: (next: SettingsDraft) => void;
+  onRefresh: () => Promise<void> | void;
+  onRestore: (point: RestorePoint) => Promise<void> | void;
+}
+
+export function RestorePointPanel(props: RestorePointPanelProps): JSX.Element | null {
+  const { visible, busy, settingsDraft, restorePoints, onSettingsDraftChange, onRefresh, onRestore } = props;
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-[30px] p-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Backups</p>
+          <h3 className="panel-title !mt-1 !text-base">自动备份与还原点</h3>
+        </div>
+        <button className="pill-btn" onClick={() => void onRefresh()} disabled={busy}>
+          刷新列表
+        </button>
+      </div>
+      <p className="summary-note mt-2">
+        每天首次保存时自动备份一次。超出保留数量的旧备份会在下次自动备份后清理；每日/每周/每月各保留该周期内最新的一份。
+      </p>
+
+      <section className="section-card mt-4">
+        <p className="panel-kicker !tracking-[0.08em]">Retention</p>
+        <h4 className="panel-title !mt-1 !text-sm">保留策略（点击“保存设置”生效）</h4>
+        <div className="mt-3 grid grid-cols-3 gap-2">
+          {RETENTION_FIELDS.map((field) => (
+            <label key={field.key} className="space-y-1 text-xs text-slate-300">
+              <span>{field.label}</span>
+              <input
+                className="field-control-sm"
+                value={settingsDraft[field.key]}
+                onChange={(event) => onSettingsDraftChange({ ...settingsDraft, [field.key]: event.target.value })}
+                disabled={busy}
+              />
+            </label>
+          ))}
+        </div>
+      </section>
+
+      {restorePoints === null ? (
+        <p className="summary-note mt-4">正在读取还原点...</p>
+      ) : restorePoints.length === 0 ? (
+        <p className="summary-note mt-4">还没有自动备份。</p>
+      ) : (
+        <div className="mt-4 grid gap-2 md:grid-cols-2">
+          {restorePoints.map((point) => (
+            <div key={point.fileName} className="subtle-panel flex flex-wrap items-center justify-between gap-2 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-900">{formatBuildTime(point.createdAt)}</p>
+                {point.error ? (
+                  <p className="text-xs tone-danger">无法读取: {point.error}</p>
+                ) : (
+                  <>
+                    <p className="summary-note">
+                      {point.accountCount} 个账号 · {point.characterCount} 个角色 · {formatFileSize(point.sizeBytes)}
+                      {point.hasWorkshop ? " · 含工坊数据" : ""}
+                    </p>
+                    <p className="summary-note">{formatDiffSummary(point)}</p>
+                  </>
+                )}
+              </div>
+              <button className="pill-btn" onClick={() => void onRestore(point)} disabled={busy || point.error !== null}>
+                预览还原
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,45 @@
+import type { TicketInventoryGroupModel } from "../dashboard-types";
+
+interface TicketInventoryPanelProps {
+  visible: boolean;
+  groups: TicketInventoryGroupModel[];
+}
+
+export function TicketInventoryPanel(props: TicketInventoryPanelProps): JSX.Element | null {
+  const { visible, groups } = props;
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-2xl p-4">
+      <div>
+        <p className="panel-kicker">Ticket Inventory</p>
+        <h3 className="panel-title !mt-1 !text-sm">微风商店券库存</h3>
+      </div>
+      <p className="mt-2 summary-note">按服务器汇总本周已购的券、未分配库存以及分配到各角色的数量。</p>
+      {groups.length === 0 ? (
+        <p className="mt-3 text-xs text-slate-400">本周还没有购买微风商店的券。</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {groups.map((group) => (
+            <div key={`${group.accountId}:${group.serverId}`} className="space-y-1.5">
+              <p className="text-xs font-semibold text-slate-500">{group.title}</p>
+              {group.rows.map((row) => (
+                <div key={row.kind} className="data-pill flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm font-semibold">{row.label}</p>
+                  <p className="text-xs text-slate-500">
+                    已购 {row.purchased} · 未分配 {row.stock}
+                    {row.holders.length > 0
+                      ? ` · ${row.holders.map((holder) => `${holder.name}(${holder.targetLabel})×${holder.count}`).join("、")}`
+                      : ""}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
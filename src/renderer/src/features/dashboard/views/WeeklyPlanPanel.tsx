@@ -0,0 +1,56 @@
+import type { WeeklyPlan } from "../../../../../shared/types";
+import { toGoldText } from "../dashboard-utils";
+
+interface WeeklyPlanPanelProps {
+  visible: boolean;
+  busy: boolean;
+  plan: WeeklyPlan | null;
+  onExportWeeklyPlan: () => Promise<void> | void;
+}
+
+export function WeeklyPlanPanel(props: WeeklyPlanPanelProps): JSX.Element | null {
+  const { visible, busy, plan, onExportWeeklyPlan } = props;
+  if (!visible || !plan) {
+    return null;
+  }
+
+  const plannedEntries = plan.entries.filter((entry) => entry.expeditionRuns + entry.transcendenceRuns > 0);
+
+  return (
+    <article className="glass-panel rounded-2xl p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Weekly Plan</p>
+          <h3 className="panel-title !mt-1 !text-sm">本周副本规划</h3>
+        </div>
+        <button className="pill-btn" onClick={() => void onExportWeeklyPlan()} disabled={busy}>
+          导出清单
+        </button>
+      </div>
+      <p className="mt-2 summary-note">
+        按剩余次数、首领次数、门票与周刷新前的奥德恢复分配远征/超越，只计入阈值内的收益次数，截至{" "}
+        {new Date(plan.weekEndsAt).toLocaleString()}。
+      </p>
+      <div className="mt-3 grid grid-cols-2 gap-2 text-sm 2xl:grid-cols-3">
+        <div className="data-pill">预计收益: {toGoldText(plan.totalGold)}</div>
+        <div className="data-pill">远征剩余阈值: {plan.expeditionSlots}</div>
+        <div className="data-pill">超越剩余阈值: {plan.transcendenceSlots}</div>
+      </div>
+      {plannedEntries.length === 0 ? (
+        <p className="mt-3 text-xs text-slate-400">本周没有可安排的远征/超越次数。</p>
+      ) : (
+        <div className="mt-3 space-y-1.5">
+          {plannedEntries.map((entry) => (
+            <div key={entry.characterId} className="data-pill flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-semibold">{entry.name}</p>
+              <p className="text-xs text-slate-500">
+                超越 {entry.transcendenceRuns}/{entry.transcendenceAvailable} · 远征 {entry.expeditionRuns}/{entry.expeditionAvailable} ·
+                奥德 {entry.energyUsed}/{entry.energyAvailable} · {toGoldText(entry.gold)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,101 @@
+import { WEEKLY_STATS_HISTORY_LIMIT } from "../../../../../shared/constants";
+import type { WeeklyTrendModel, WeeklyTrendRow } from "../dashboard-types";
+import { toGoldText } from "../dashboard-utils";
+
+interface WeeklyTrendPanelProps {
+  visible: boolean;
+  trend: WeeklyTrendModel | null;
+}
+
+function formatWeekLabel(weekEndedAt: string): string {
+  const date = new Date(weekEndedAt);
+  return date.toLocaleDateString("zh-CN", { month: "2-digit", day: "2-digit" });
+}
+
+function WeeklyTrendTable(props: { weekKeys: string[]; rows: WeeklyTrendRow[] }): JSX.Element {
+  const { weekKeys, rows } = props;
+  return (
+    <div className="mt-2 overflow-auto">
+      <table className="w-full min-w-[560px] text-left text-xs">
+        <thead className="text-slate-500">
+          <tr>
+            <th className="py-1 pr-2 font-medium">名称</th>
+            {weekKeys.map((weekEndedAt) => (
+              <th key={weekEndedAt} className="py-1 pr-2 font-medium">
+                {formatWeekLabel(weekEndedAt)} 截止
+              </th>
+            ))}
+            <th className="py-1 font-medium">环比</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.id} className="border-t border-slate-200/70">
+              <td className="py-1.5 pr-2 font-semibold">{row.name}</td>
+              {row.points.map((point) => (
+                <td key={point.weekEndedAt} className="py-1.5 pr-2">
+                  {point.goldEarned === null ? (
+                    <span className="text-slate-400">--</span>
+                  ) : (
+                    <>
+                      <p>{toGoldText(point.goldEarned)}</p>
+                      <p className="text-slate-400">{point.completionCount ?? 0} 次</p>
+                    </>
+                  )}
+                </td>
+              ))}
+              <td className="py-1.5">
+                {row.goldDelta === null ? (
+                  <span className="text-slate-400">--</span>
+                ) : (
+                  <span className={row.goldDelta >= 0 ? "tone-positive" : "tone-danger"}>
+                    {row.goldDelta >= 0 ? "+" : "-"}
+                    {toGoldText(Math.abs(row.goldDelta))}
+                  </span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function WeeklyTrendPanel(props: WeeklyTrendPanelProps): JSX.Element | null {
+  const { visible, trend } = props;
+  if (!visible || !trend) {
+    return null;
+  }
+
+  return (
+    <article className="glass-panel rounded-2xl p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="panel-kicker">Weekly Trend</p>
+          <h3 className="panel-title !mt-1 !text-sm">历史周收益趋势</h3>
+        </div>
+        <p className="summary-note">每次周刷新前自动归档本周金币与完成次数，保留最近 {WEEKLY_STATS_HISTORY_LIMIT} 周，这里展示最近 {trend.weekKeys.length || 8} 周。</p>
+      </div>
+      {trend.weekKeys.length === 0 ? (
+        <p className="mt-3 text-xs text-slate-400">暂无归档数据，首次周刷新后开始记录。</p>
+      ) : (
+        <>
+          <div className="subtle-panel mt-3">
+            <p className="text-xs font-semibold tracking-wide text-slate-700">按账号</p>
+            <WeeklyTrendTable weekKeys={trend.weekKeys} rows={trend.accountRows} />
+          </div>
+          <details className="group mt-3">
+            <summary className="details-summary soft-card px-4 py-3">
+              <p className="text-xs font-semibold tracking-wide text-slate-700">按角色</p>
+              <span className="pill-btn">{trend.characterRows.length} 个角色</span>
+            </summary>
+            <div className="subtle-panel mt-2">
+              <WeeklyTrendTable weekKeys={trend.weekKeys} rows={trend.characterRows} />
+            </div>
+          </details>
+        </>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import {
+  countServerCharacters,
+  getAccountCharacterSlots,
+  getAccountServer,
+  getCharacterServer,
+  isSameServer,
+  mapAccountServer,
+} from "./account-servers";
+import { createDefaultAccount, createDefaultAccountServer, createDefaultCharacter, getDefaultServerId } from "./constants";
+
+const NOW = "2026-03-01T08:00:00.000Z";
+
+describe("shared/account-servers", () => {
+  const base = createDefaultAccount("账号 1", "a1");
+  const account = { ...base, servers: [...base.servers, createDefaultAccountServer("第二服", "a1:s2", 4)] };
+  const first = createDefaultCharacter("角色 1", NOW, "c1", "a1");
+  const second = createDefaultCharacter("角色 2", NOW, "c2", "a1", "a1:s2");
+  const orphan = createDefaultCharacter("角色 3", NOW, "c3", "a1", "missing");
+
+  it("resolves servers and falls back to the first one", () => {
+    expect(getAccountServer(account, "a1:s2").name).toBe("第二服");
+    expect(getAccountServer(account, undefined).id).toBe(getDefaultServerId("a1"));
+    expect(getCharacterServer(account, orphan).id).toBe(getDefaultServerId("a1"));
+    expect(isSameServer(first, second)).toBe(false);
+  });
+
+  it("counts characters and slots per server", () => {
+    expect(getAccountCharacterSlots(account)).toBe(12);
+    expect(countServerCharacters([first, second, orphan], "a1", "a1:s2")).toBe(1);
+  });
+
+  it("maps only the targeted server", () => {
+    const [next] = mapAccountServer([account], "a1", "a1:s2", (server) => ({ ...server, characterSlots: 6 }));
+    expect(next.servers.map((server) => server.characterSlots)).toEqual([8, 6]);
+  });
+});
@@ -0,0 +1,43 @@
+import type { AccountServerState, AccountState, CharacterState } from "./types";
+
+export function getAccountServer(account: AccountState, serverId: string | null | undefined): AccountServerState {
+  return account.servers.find((server) => server.id === serverId) ?? account.servers[0];
+}
+
+export function getCharacterServer(account: AccountState, character: CharacterState): AccountServerState {
+  return getAccountServer(account, character.serverId);
+}
+
+export function countServerCharacters(
+  characters: readonly CharacterState[],
+  accountId: string,
+  serverId: string,
+): number {
+  return characters.filter((character) => character.accountId === accountId && character.serverId === serverId).length;
+}
+
+export function getAccountCharacterSlots(account: AccountState): number {
+  return account.servers.reduce((sum, server) => sum + server.characterSlots, 0);
+}
+
+export function isSameServer(left: CharacterState, right: CharacterState): boolean {
+  return left.accountId === right.accountId && left.serverId === right.serverId;
+}
+
+export function mapAccountServer(
+  accounts: AccountState[],
+  accountId: string,
+  serverId: string,
+  updater: (server: AccountServerState) => AccountServerState,
+): AccountState[] {
+  return accounts.map((account) => {
+    if (account.id !== accountId) {
+      return account;
+    }
+    const target = getAccountServer(account, serverId);
+    return {
+      ...account,
+      servers: account.servers.map((server) => (server.id === target.id ? updater(server) : server)),
+    };
+  });
+}
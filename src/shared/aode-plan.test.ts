@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { buildAodePlan } from "./aode-plan";
+import { DEFAULT_SETTINGS, createDefaultAccount, createDefaultCharacter } from "./constants";
+
+function at(y: number, m: number, d: number, h: number, min = 0, sec = 0): Date {
+  return new Date(y, m - 1, d, h, min, sec, 0);
+}
+
+function createCharacter(id: string, name: string, now: Date): ReturnType<typeof createDefaultCharacter> {
+  const character = createDefaultCharacter(name, now.toISOString(), id, "acc-1");
+  character.energy.baseCurrent = 0;
+  character.energy.bonusCurrent = 0;
+  character.activities.expeditionRemaining = 0;
+  character.activities.expeditionTicketBonus = 0;
+  character.activities.transcendenceRemaining = 0;
+  character.activities.transcendenceTicketBonus = 0;
+  character.activities.nightmareRemaining = 0;
+  return character;
+}
+
+describe("shared/aode-plan", () => {
+  it("spends the remaining shop and conversion pool on the richest uncovered runs", () => {
+    const now = at(2026, 2, 25, 4, 0, 0);
+    const trans = createCharacter("trans", "超越号", now);
+    trans.activities.transcendenceRemaining = 2;
+    trans.activities.expeditionBossRemaining = 0;
+    const expedition = createCharacter("exp", "远征号", now);
+    expedition.activities.expeditionRemaining = 2;
+    expedition.activities.transcendenceBossRemaining = 0;
+    const breezePlan = {
+      ...createDefaultAccount("账号", "acc-1").servers[0].breezePlan,
+      shopAodePurchaseUsed: 19,
+      transformAodeUsed: 18,
+    };
+
+    const plan = buildAodePlan(breezePlan, [expedition, trans], DEFAULT_SETTINGS, now);
+
+    expect(plan.purchaseRemaining).toBe(2);
+    expect(plan.transformRemaining).toBe(2);
+    expect(plan.entries.map((item) => [item.characterId, item.purchaseCount, item.transformCount])).toEqual([
+      ["exp", 0, 0],
+      ["trans", 2, 2],
+    ]);
+    expect(plan.purchaseRecommended).toBe(2);
+    expect(plan.transformRecommended).toBe(2);
+    expect(plan.totalGold).toBe(DEFAULT_SETTINGS.transcendenceGoldPerRun * 2);
+  });
+
+  it("ranks choice boxes first when spare energy can run the extra tickets", () => {
+    const now = at(2026, 2, 25, 4, 0, 0);
+    const rich = createCharacter("rich", "富余", now);
+    rich.energy.baseCurrent = 840;
+    rich.activities.nightmareRemaining = 3;
+    const breezePlan = {
+      ...createDefaultAccount("账号", "acc-1").servers[0].breezePlan,
+      shopExpeditionChoiceBoxUsed: 5,
+    };
+
+    const plan = buildAodePlan(breezePlan, [rich], DEFAULT_SETTINGS, now);
+
+    const [entry] = plan.entries;
+    expect(plan.purchaseRecommended).toBe(0);
+    expect(plan.tickets.map((item) => item.kind)).toEqual(["expedition_choice_box", "unknown_challenge", "nightmare_instant"]);
+    expect(plan.tickets[0].recommended).toBe(Math.floor((entry.energyAvailable - entry.energyNeeded) / 80));
+    expect(plan.tickets[0].recommended).toBeGreaterThan(0);
+    expect(plan.tickets[1].recommended).toBe(21);
+    expect(plan.tickets[2].recommended).toBe(3);
+    expect(plan.tickets[0].goldPerTicket).toBe(DEFAULT_SETTINGS.transcendenceGoldPerRun);
+  });
+
+  it("values unknown and nightmare tickets by their run rewards and caps them by usable room", () => {
+    const now = at(2026, 2, 25, 4, 0, 0);
+    const main = createCharacter("main", "主角", now);
+    main.activities.nightmareRemaining = 2;
+    main.activities.dailyDungeonTicketStored = 26;
+    const breezePlan = createDefaultAccount("账号", "acc-1").servers[0].breezePlan;
+    const settings = { ...DEFAULT_SETTINGS, dailyDungeonGoldPerRun: 300_000, nightmareGoldPerRun: 500_000 };
+
+    const plan = buildAodePlan(breezePlan, [main], settings, now);
+
+    expect(plan.tickets.map((item) => [item.kind, item.recommended, item.goldPerTicket])).toEqual([
+      ["nightmare_instant", 2, 500_000],
+      ["unknown_challenge", 4, 300_000],
+      ["expedition_choice_box", 0, DEFAULT_SETTINGS.transcendenceGoldPerRun],
+    ]);
+    expect(buildAodePlan(breezePlan, [], settings, now).tickets.every((item) => item.recommended === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  AODE_CONVERT_SERVER_LIMIT,
+  AODE_POINT_PER_OPERATION,
+  AODE_SHOP_SERVER_LIMIT,
+  DAILY_DUNGEON_TICKET_STORED_MAX,
+  EXPEDITION_CHOICE_BOX_SERVER_LIMIT,
+  NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
+  UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
+} from "./constants";
+import type { RefreshCharacterOptions } from "./engine";
+import { getNextWeeklyReset } from "./time";
+import type {
+  AccountBreezePlanState,
+  AodePlan,
+  AodePlanEntry,
+  AodeTicketRecommendation,
+  AppSettings,
+  CharacterState,
+} from "./types";
+import { buildPlanCandidate, getEnergyCost, type PlanLane } from "./weekly-plan";
+
+interface EnergyGap {
+  index: number;
+  gold: number;
+  operations: number;
+}
+
+interface CharacterBudget {
+  gaps: EnergyGap[];
+  surplusEnergy: number;
+  operationRoom: number;
+  boxHeadroom: number;
+}
+
+function remainingOf(limit: number, used: number): number {
+  return Math.max(0, limit - Math.max(0, used));
+}
+
+export function buildAodePlan(
+  breezePlan: AccountBreezePlanState,
+  characters: CharacterState[],
+  settings: AppSettings,
+  now = new Date(),
+  options: RefreshCharacterOptions = {},
+): AodePlan {
+  const weekEnd = getNextWeeklyReset(now, options.timeZone);
+  const laneGold: Record<PlanLane, number> = {
+    expedition: settings.expeditionGoldPerRun,
+    transcendence: settings.transcendenceGoldPerRun,
+  };
+  const lanes: PlanLane[] =
+    laneGold.transcendence >= laneGold.expedition ? ["transcendence", "expedition"] : ["expedition", "transcendence"];
+  const candidates = characters.map((item) => buildPlanCandidate(item, now, weekEnd, options));
+
+  // Runs are paid from the character's own energy richer lane first; whatever is left uncovered becomes
+  // a gap that Aode purchases or conversions could fill.
+  const budgets = candidates.map((candidate, index): CharacterBudget => {
+    let energy = candidate.energyAvailable;
+    const gaps: EnergyGap[] = [];
+    lanes.forEach((lane) => {
+      const cost = getEnergyCost(lane);
+      for (let run = 0; run < candidate.available[lane]; run += 1) {
+        if (energy >= cost) {
+          energy -= cost;
+          continue;
+        }
+        gaps.push({ index, gold: laneGold[lane], operations: Math.ceil((cost - energy) / AODE_POINT_PER_OPERATION) });
+        energy = 0;
+      }
+    });
+    const { energy: energyState, activities } = candidate.character;
+    return {
+      gaps,
+      surplusEnergy: energy,
+      operationRoom: Math.floor(Math.max(0, energyState.bonusCap - energyState.bonusCurrent) / AODE_POINT_PER_OPERATION),
+      boxHeadroom:
+        Math.max(0, activities.expeditionBossRemaining - candidate.available.expedition) +
+        Math.max(0, activities.transcendenceBossRemaining - candidate.available.transcendence),
+    };
+  });
+
+  const purchaseRemaining = remainingOf(AODE_SHOP_SERVER_LIMIT, breezePlan.shopAodePurchaseUsed);
+  const transformRemaining = remainingOf(AODE_CONVERT_SERVER_LIMIT, breezePlan.transformAodeUsed);
+  const purchaseCounts = candidates.map(() => 0);
+  const transformCounts = candidates.map(() => 0);
+  const golds = candidates.map(() => 0);
+  let purchaseLeft = purchaseRemaining;
+  let transformLeft = transformRemaining;
+  budgets
+    .flatMap((budget) => budget.gaps)
+    .sort((left, right) => right.gold / right.operations - left.gold / left.operations)
+    .forEach((gap) => {
+      const budget = budgets[gap.index];
+      if (gap.operations > purchaseLeft + transformLeft || gap.operations > budget.operationRoom) {
+        return;
+      }
+      const fromShop = Math.min(purchaseLeft, gap.operations);
+      purchaseLeft -= fromShop;
+      transformLeft -= gap.operations - fromShop;
+      purchaseCounts[gap.index] += fromShop;
+      transformCounts[gap.index] += gap.operations - fromShop;
+      budget.operationRoom -= gap.operations;
+      golds[gap.index] += gap.gold;
+    });
+
+  const entries = candidates.map(
+    (candidate, index): AodePlanEntry => ({
+      characterId: candidate.character.id,
+      name: candidate.character.name,
+      energyAvailable: candidate.energyAvailable,
+      energyNeeded: lanes.reduce((acc, lane) => acc + candidate.available[lane] * getEnergyCost(lane), 0),
+      purchaseCount: purchaseCounts[index],
+      transformCount: transformCounts[index],
+      gold: golds[index],
+    }),
+  );
+
+  const boxRunCost = getEnergyCost(lanes[0]);
+  const boxUsable = budgets.reduce(
+    (acc, budget) => acc + Math.min(budget.boxHeadroom, Math.floor(budget.surplusEnergy / boxRunCost)),
+    0,
+  );
+  const nightmareUsable = candidates.reduce((acc, candidate) => acc + candidate.character.activities.nightmareRemaining, 0);
+  // Unknown challenge tickets land in the server-shared daily dungeon stock, which stops accepting tickets at its cap.
+  const storedDungeonTickets = Math.max(0, ...candidates.map((candidate) => candidate.character.activities.dailyDungeonTicketStored));
+  const unknownUsable = candidates.length > 0 ? Math.max(0, DAILY_DUNGEON_TICKET_STORED_MAX - storedDungeonTickets) : 0;
+  const boxRemaining = remainingOf(EXPEDITION_CHOICE_BOX_SERVER_LIMIT, breezePlan.shopExpeditionChoiceBoxUsed);
+  const unknownRemaining = remainingOf(UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT, breezePlan.shopUnknownChallengeTicketUsed);
+  const nightmareRemaining = remainingOf(NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT, breezePlan.shopNightmareInstantUsed);
+  const tickets: AodeTicketRecommendation[] = [
+    {
+      kind: "expedition_choice_box",
+      label: "远征/超越挑战券选择箱",
+      remaining: boxRemaining,
+      recommended: Math.min(boxRemaining, boxUsable),
+      goldPerTicket: laneGold[lanes[0]],
+    },
+    {
+      kind: "unknown_challenge",
+      label: "未知缝隙挑战券",
+      remaining: unknownRemaining,
+      recommended: Math.min(unknownRemaining, unknownUsable),
+      goldPerTicket: settings.dailyDungeonGoldPerRun,
+    },
+    {
+      kind: "nightmare_instant",
+      label: "立即完成券: 恶梦",
+      remaining: nightmareRemaining,
+      recommended: Math.min(nightmareRemaining, nightmareUsable),
+      goldPerTicket: settings.nightmareGoldPerRun,
+    },
+  ];
+  tickets.sort(
+    (left, right) =>
+      Number(right.recommended > 0) * right.goldPerTicket - Number(left.recommended > 0) * left.goldPerTicket,
+  );
+
+  return {
+    generatedAt: now.toISOString(),
+    weekEndsAt: weekEnd.toISOString(),
+    purchaseRemaining,
+    transformRemaining,
+    purchaseRecommended: purchaseRemaining - purchaseLeft,
+    transformRecommended: transformRemaining - transformLeft,
+    totalGold: golds.reduce((acc, item) => acc + item, 0),
+    entries,
+    tickets,
+  };
+}
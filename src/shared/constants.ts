@@ -1,6 +1,6 @@
-import type { AccountState, AppSettings, CharacterState, TaskDefinition } from "./types";
+import type { AccountServerState, AccountState, AppSettings, CharacterState, TaskDefinition } from "./types";
 
-export const APP_STATE_VERSION = 10;
+export const APP_STATE_VERSION = 13;
 
 export const ENERGY_TICK_HOURS = 3;
 export const ENERGY_PER_TICK = 15;
@@ -8,6 +8,7 @@ export const ENERGY_BASE_CAP = 840;
 export const ENERGY_BONUS_CAP = 2000;
 export const ENERGY_DEFAULT_BASE_START = 840;
 export const ENERGY_DEFAULT_BONUS_START = 0;
+export const ENERGY_FORECAST_DAYS = 7;
 
 export const DAILY_RESET_HOUR = 5;
 export const WEEKLY_RESET_DAY = 3;
@@ -18,12 +19,14 @@ export const EXPEDITION_SCHEDULE_HOURS = [5, 13, 21] as const;
 export const TRANSCENDENCE_SCHEDULE_HOURS = [5, 17] as const;
 export const CORRIDOR_UNIFIED_REFRESH_HOUR = 22;
 export const CORRIDOR_UNIFIED_REFRESH_DAYS = [3, 6] as const;
+export const CORRIDOR_LANE_MAX = 3;
 
 export const EXPEDITION_REWARD_MAX = 14;
 export const EXPEDITION_BOSS_MAX = 35;
 export const TRANSCENDENCE_REWARD_MAX = 7;
 export const TRANSCENDENCE_BOSS_MAX = 28;
 export const DAILY_DUNGEON_SHARED_MAX = 14;
+export const DAILY_DUNGEON_TICKET_STORED_MAX = 30;
 export const NIGHTMARE_MAX = 14;
 export const MINI_GAME_MAX = 14;
 export const SPIRIT_INVASION_MAX = 7;
@@ -33,12 +36,29 @@ export const EXPEDITION_CHOICE_BOX_SERVER_LIMIT = 21;
 export const NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT = 14;
 export const ABYSS_REPLENISH_TICKET_SERVER_LIMIT = 1;
 export const AODE_CONVERT_SERVER_LIMIT = 20;
+export const DEFAULT_SERVER_CHARACTER_SLOTS = 8;
+export const SERVER_CHARACTER_SLOTS_MAX = 40;
+export const ACCOUNT_SERVER_LIMIT = 10;
+export const DEFAULT_SERVER_NAME = "默认服务器";
 export const AODE_POINT_PER_OPERATION = 40;
 export const AODE_BASE_ENERGY_OVERFLOW_WARN_THRESHOLD = 800;
+export const WEEKLY_STATS_HISTORY_LIMIT = 52;
+export const GOLD_LEDGER_LIMIT = 300;
+export const GOLD_LEDGER_NOTE_MAX_LENGTH = 60;
+export const GOLD_LEDGER_SUGGESTION_MIN_RUNS = 5;
+export const PRIORITY_TODO_LIMIT = 8;
+export const PRIORITY_STAR_BONUS = 35;
+export const PRIORITY_DEADLINE_BONUS_MAX = 60;
+export const PRIORITY_DAILY_DUE_WINDOW_HOURS = 12;
+export const PRIORITY_WEEKLY_DUE_WINDOW_HOURS = 48;
+export const BACKUP_PASSPHRASE_MIN_LENGTH = 6;
+export const DEFAULT_PROFILE_ID = "default";
 
 export const DEFAULT_SETTINGS: AppSettings = {
   expeditionGoldPerRun: 1_000_000,
   transcendenceGoldPerRun: 1_200_000,
+  dailyDungeonGoldPerRun: 0,
+  nightmareGoldPerRun: 0,
   expeditionRunCap: null,
   transcendenceRunCap: null,
   nightmareRunCap: null,
@@ -52,6 +72,10 @@ export const DEFAULT_SETTINGS: AppSettings = {
   priorityWeightWeekly: 3,
   priorityWeightMission: 3,
   priorityWeightLeisure: 3,
+  serverTimeZone: null,
+  autoBackupKeepDaily: 7,
+  autoBackupKeepWeekly: 4,
+  autoBackupKeepMonthly: 6,
 };
 
 export const TASK_IDS = [
@@ -323,10 +347,19 @@ export function createEmptyWeeklyStats(nowIso: string) {
   };
 }
 
-export function createDefaultAccount(name: string, id: string): AccountState {
+export function getDefaultServerId(accountId: string): string {
+  return `${accountId}:server-1`;
+}
+
+export function createDefaultAccountServer(
+  name: string,
+  id: string,
+  characterSlots = DEFAULT_SERVER_CHARACTER_SLOTS,
+): AccountServerState {
   return {
     id,
     name,
+    characterSlots,
     sharedActivities: {
       dailyDungeonRemaining: DAILY_DUNGEON_SHARED_MAX,
       dailyDungeonTicketStored: 0,
@@ -340,16 +373,31 @@ export function createDefaultAccount(name: string, id: string): AccountState {
       shopExpeditionChoiceBoxUsed: 0,
       shopNightmareInstantUsed: 0,
       shopAbyssReplenishUsed: 0,
-      shopAbyssReplenishAssignedCharacterId: null,
       transformAodeUsed: 0,
     },
+    ticketAssignments: [],
+  };
+}
+
+export function createDefaultAccount(name: string, id: string): AccountState {
+  return {
+    id,
+    name,
+    servers: [createDefaultAccountServer(DEFAULT_SERVER_NAME, getDefaultServerId(id))],
   };
 }
 
-export function createDefaultCharacter(name: string, nowIso: string, id: string, accountId: string): CharacterState {
+export function createDefaultCharacter(
+  name: string,
+  nowIso: string,
+  id: string,
+  accountId: string,
+  serverId = getDefaultServerId(accountId),
+): CharacterState {
   return {
     id,
     accountId,
+    serverId,
     name,
     isStarred: false,
     avatarSeed: id.slice(0, 6),
@@ -396,13 +444,17 @@ export function createDefaultCharacter(name: string, nowIso: string, id: string,
       miniGameTicketBonus: 0,
       spiritInvasionRemaining: SPIRIT_INVASION_MAX,
       corridorLowerAvailable: 0,
-      corridorLowerCap: 3,
+      corridorLowerCap: CORRIDOR_LANE_MAX,
       corridorLowerNextAt: null,
       corridorMiddleAvailable: 0,
-      corridorMiddleCap: 3,
+      corridorMiddleCap: CORRIDOR_LANE_MAX,
       corridorMiddleNextAt: null,
     },
     stats: createEmptyWeeklyStats(nowIso),
+    statsHistory: [],
+    goldLedger: [],
+    customProgress: {},
+    eventProgress: {},
     meta: {
       lastSyncedAt: nowIso,
     },
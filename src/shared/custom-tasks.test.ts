@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, createDefaultCharacter } from "./constants";
+import {
+  normalizeCustomTasks,
+  parseCustomTaskDefinition,
+  reconcileCustomTaskProgress,
+  resolveTaskDefinitions,
+} from "./custom-tasks";
+import { applyTaskAction, getTaskProgressText, refreshCharacterState } from "./engine";
+import type { CustomTaskDefinition } from "./types";
+
+function at(y: number, m: number, d: number, h: number, min = 0): Date {
+  return new Date(y, m - 1, d, h, min, 0, 0);
+}
+
+const GUILD_TASK: CustomTaskDefinition = {
+  id: "custom:guild",
+  title: "公会任务",
+  category: "周常",
+  resetCadence: "daily",
+  cap: 3,
+  energyCost: 40,
+  goldReward: 200_000,
+  hasTicket: true,
+};
+
+function createCharacter(now: Date) {
+  return reconcileCustomTaskProgress(createDefaultCharacter("测试角色", now.toISOString(), "char-1", "acc-1"), [GUILD_TASK]);
+}
+
+describe("shared/custom-tasks", () => {
+  it("applies completions, tickets and gold through applyTaskAction", () => {
+    const character = createCharacter(at(2026, 2, 24, 12));
+    const ticket = applyTaskAction(
+      character,
+      DEFAULT_SETTINGS,
+      { characterId: "char-1", taskId: GUILD_TASK.id, action: "use_ticket", amount: 1 },
+      [GUILD_TASK],
+    );
+    expect(ticket.success).toBe(true);
+
+    const result = applyTaskAction(
+      ticket.next,
+      DEFAULT_SETTINGS,
+      { characterId: "char-1", taskId: GUILD_TASK.id, action: "complete_once", amount: 4 },
+      [GUILD_TASK],
+    );
+    expect(result.success).toBe(true);
+    expect(result.goldDelta).toBe(800_000);
+    expect(result.next.customProgress[GUILD_TASK.id]).toEqual({ remaining: 0, ticketBonus: 0 });
+    expect(result.next.stats.completions[GUILD_TASK.id]).toBe(4);
+    expect(result.next.energy.baseCurrent + result.next.energy.bonusCurrent).toBe(
+      character.energy.baseCurrent + character.energy.bonusCurrent - 160,
+    );
+
+    const overrun = applyTaskAction(
+      result.next,
+      DEFAULT_SETTINGS,
+      { characterId: "char-1", taskId: GUILD_TASK.id, action: "complete_once", amount: 1 },
+      [GUILD_TASK],
+    );
+    expect(overrun.success).toBe(false);
+    expect(applyTaskAction(character, DEFAULT_SETTINGS, { characterId: "char-1", taskId: GUILD_TASK.id, action: "complete_once" }).message).toBe(
+      "未知任务",
+    );
+  });
+
+  it("refills counters on the configured cadence", () => {
+    const weekly: CustomTaskDefinition = { ...GUILD_TASK, id: "custom:weekly", resetCadence: "weekly", hasTicket: false };
+    const once: CustomTaskDefinition = { ...GUILD_TASK, id: "custom:once", resetCadence: "none", hasTicket: false };
+    const tasks = [GUILD_TASK, weekly, once];
+    const character = reconcileCustomTaskProgress(createDefaultCharacter("测试角色", at(2026, 2, 26, 12).toISOString(), "char-1", "acc-1"), tasks);
+    tasks.forEach((task) => {
+      character.customProgress[task.id] = { remaining: 0, ticketBonus: 0 };
+    });
+
+    const nextDay = refreshCharacterState(character, at(2026, 2, 27, 12), { customTasks: tasks });
+    expect(nextDay.customProgress[GUILD_TASK.id].remaining).toBe(3);
+    expect(nextDay.customProgress[weekly.id].remaining).toBe(0);
+
+    const nextWeek = refreshCharacterState(nextDay, at(2026, 3, 5, 12), { customTasks: tasks });
+    expect(nextWeek.customProgress[weekly.id].remaining).toBe(3);
+    expect(nextWeek.customProgress[once.id].remaining).toBe(0);
+    expect(getTaskProgressText(nextWeek, resolveTaskDefinitions(tasks).find((task) => task.id === GUILD_TASK.id)!)).toBe("3(+0)/3");
+  });
+
+  it("rejects invalid definitions and drops them when normalizing", () => {
+    expect(() => parseCustomTaskDefinition({ ...GUILD_TASK, id: "guild" })).toThrow("id 无效");
+    expect(() => parseCustomTaskDefinition({ ...GUILD_TASK, title: " " })).toThrow("名称不能为空");
+    expect(() => parseCustomTaskDefinition({ ...GUILD_TASK, resetCadence: "monthly" })).toThrow("重置周期无效");
+    expect(() => parseCustomTaskDefinition({ ...GUILD_TASK, cap: 0 })).toThrow("上限");
+    expect(normalizeCustomTasks([GUILD_TASK, { ...GUILD_TASK, title: "重复" }, { title: "broken" }])).toEqual([GUILD_TASK]);
+  });
+});
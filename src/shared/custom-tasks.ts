@@ -0,0 +1,183 @@
+import { TASK_DEFINITIONS } from "./constants";
+import { countDailyResets, countWeeklyResets, type ServerTimeZone } from "./time";
+import type {
+  CharacterState,
+  CustomTaskDefinition,
+  CustomTaskId,
+  CustomTaskProgress,
+  CustomTaskResetCadence,
+  TaskDefinition,
+} from "./types";
+
+export const CUSTOM_TASK_ID_PREFIX = "custom:";
+export const CUSTOM_TASK_LIMIT = 50;
+export const CUSTOM_TASK_CAP_MAX = 999;
+export const CUSTOM_TASK_TICKET_MAX = 999;
+export const CUSTOM_TASK_ENERGY_COST_MAX = 840;
+export const CUSTOM_TASK_GOLD_REWARD_MAX = 999_999_999;
+
+const CUSTOM_TASK_CATEGORIES: readonly TaskDefinition["category"][] = ["副本", "使命", "周常"];
+const CUSTOM_TASK_RESET_CADENCES: readonly CustomTaskResetCadence[] = ["daily", "weekly", "none"];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function readInt(value: unknown, fallback: number, min: number, max: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return clamp(Math.floor(value), min, max);
+}
+
+export function isCustomTaskId(value: unknown): value is CustomTaskId {
+  return typeof value === "string" && value.startsWith(CUSTOM_TASK_ID_PREFIX) && value.length > CUSTOM_TASK_ID_PREFIX.length;
+}
+
+export function getCustomTaskResetLabel(cadence: CustomTaskResetCadence): string {
+  if (cadence === "daily") {
+    return "每日重置";
+  }
+  if (cadence === "weekly") {
+    return "每周重置";
+  }
+  return "不重置";
+}
+
+export function toCustomTaskDefinition(task: CustomTaskDefinition): TaskDefinition {
+  return {
+    id: task.id,
+    title: task.title,
+    description: `自定义任务，${getCustomTaskResetLabel(task.resetCadence)}，上限 ${task.cap} 次。`,
+    category: task.category,
+    energyCost: task.energyCost,
+    goldReward: task.goldReward,
+    counterTargets: [{ scope: "custom", key: task.id }],
+    allowComplete: true,
+    allowUseTicket: task.hasTicket,
+    allowSetCompleted: true,
+    setCompletedTotal: task.cap,
+    ticketTarget: task.hasTicket ? { scope: "custom", key: task.id, increment: 1 } : undefined,
+    baseCapDisplay: task.cap,
+    useBonusDisplay: task.hasTicket,
+  };
+}
+
+export function resolveTaskDefinitions(customTasks: readonly CustomTaskDefinition[] = []): TaskDefinition[] {
+  return [...TASK_DEFINITIONS, ...customTasks.map((task) => toCustomTaskDefinition(task))];
+}
+
+export function createCustomTaskProgress(task: CustomTaskDefinition): CustomTaskProgress {
+  return { remaining: task.cap, ticketBonus: 0 };
+}
+
+export function applyCustomTaskResets(
+  character: CharacterState,
+  customTasks: readonly CustomTaskDefinition[],
+  from: Date,
+  to: Date,
+  timeZone?: ServerTimeZone,
+): void {
+  if (customTasks.length === 0 || to <= from) {
+    return;
+  }
+  const dailyResets = countDailyResets(from, to, timeZone);
+  const weeklyResets = countWeeklyResets(from, to, timeZone);
+  customTasks.forEach((task) => {
+    const resets = task.resetCadence === "daily" ? dailyResets : task.resetCadence === "weekly" ? weeklyResets : 0;
+    if (resets <= 0) {
+      return;
+    }
+    const progress = character.customProgress[task.id] ?? createCustomTaskProgress(task);
+    character.customProgress[task.id] = { ...progress, remaining: task.cap };
+  });
+}
+
+export function parseCustomTaskDefinition(raw: unknown): CustomTaskDefinition {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("自定义任务不是有效对象");
+  }
+  const entity = raw as Record<string, unknown>;
+  if (!isCustomTaskId(entity.id)) {
+    throw new Error(`自定义任务 id 无效: ${String(entity.id)}`);
+  }
+  const title = typeof entity.title === "string" ? entity.title.trim() : "";
+  if (!title) {
+    throw new Error("自定义任务名称不能为空");
+  }
+  const category = entity.category as TaskDefinition["category"];
+  if (!CUSTOM_TASK_CATEGORIES.includes(category)) {
+    throw new Error(`自定义任务分类无效: ${String(entity.category)}`);
+  }
+  const resetCadence = entity.resetCadence as CustomTaskResetCadence;
+  if (!CUSTOM_TASK_RESET_CADENCES.includes(resetCadence)) {
+    throw new Error(`自定义任务重置周期无效: ${String(entity.resetCadence)}`);
+  }
+  if (typeof entity.cap !== "number" || !Number.isFinite(entity.cap) || entity.cap < 1) {
+    throw new Error("自定义任务上限必须是不小于 1 的数字");
+  }
+  return {
+    id: entity.id,
+    title: title.slice(0, 40),
+    category,
+    resetCadence,
+    cap: readInt(entity.cap, 1, 1, CUSTOM_TASK_CAP_MAX),
+    energyCost: readInt(entity.energyCost, 0, 0, CUSTOM_TASK_ENERGY_COST_MAX),
+    goldReward: readInt(entity.goldReward, 0, 0, CUSTOM_TASK_GOLD_REWARD_MAX),
+    hasTicket: entity.hasTicket === true,
+  };
+}
+
+export function normalizeCustomTasks(raw: unknown): CustomTaskDefinition[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  return raw
+    .flatMap((item) => {
+      try {
+        const task = parseCustomTaskDefinition(item);
+        if (seen.has(task.id)) {
+          return [];
+        }
+        seen.add(task.id);
+        return [task];
+      } catch {
+        return [];
+      }
+    })
+    .slice(0, CUSTOM_TASK_LIMIT);
+}
+
+export function normalizeCustomTaskProgress(raw: unknown): Record<CustomTaskId, CustomTaskProgress> {
+  const result: Record<CustomTaskId, CustomTaskProgress> = {};
+  if (!raw || typeof raw !== "object") {
+    return result;
+  }
+  Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+    if (!isCustomTaskId(key) || !value || typeof value !== "object") {
+      return;
+    }
+    const entity = value as Record<string, unknown>;
+    result[key] = {
+      remaining: readInt(entity.remaining, 0, 0, CUSTOM_TASK_CAP_MAX),
+      ticketBonus: readInt(entity.ticketBonus, 0, 0, CUSTOM_TASK_TICKET_MAX),
+    };
+  });
+  return result;
+}
+
+export function reconcileCustomTaskProgress(
+  character: CharacterState,
+  customTasks: readonly CustomTaskDefinition[],
+): CharacterState {
+  const customProgress: Record<CustomTaskId, CustomTaskProgress> = {};
+  customTasks.forEach((task) => {
+    const progress = character.customProgress[task.id] ?? createCustomTaskProgress(task);
+    customProgress[task.id] = {
+      remaining: clamp(progress.remaining, 0, task.cap),
+      ticketBonus: task.hasTicket ? clamp(progress.ticketBonus, 0, CUSTOM_TASK_TICKET_MAX) : 0,
+    };
+  });
+  return { ...character, customProgress };
+}
@@ -1,6 +1,12 @@
 import { describe, expect, it } from "vitest";
 import { DEFAULT_SETTINGS, TASK_DEFINITIONS, createDefaultCharacter } from "./constants";
-import { applyTaskAction, getTaskProgressText, refreshCharacterState } from "./engine";
+import {
+  applyTaskAction,
+  buildEnergyForecasts,
+  forecastCharacterEnergy,
+  getTaskProgressText,
+  refreshCharacterState,
+} from "./engine";
 import type { TaskDefinition } from "./types";
 
 function at(y: number, m: number, d: number, h: number, min = 0, sec = 0): Date {
@@ -183,6 +189,29 @@ describe("shared/engine refreshCharacterState", () => {
     expect(next.stats.goldEarned).toBe(0);
     expect(next.stats.completions.expedition).toBe(0);
     expect(next.stats.cycleStartedAt).toBe(to.toISOString());
+    expect(next.statsHistory).toHaveLength(1);
+    expect(next.statsHistory[0].goldEarned).toBe(999999);
+    expect(next.statsHistory[0].completions.expedition).toBe(6);
+    expect(next.statsHistory[0].cycleStartedAt).toBe(character.stats.cycleStartedAt);
+    expect(next.statsHistory[0].cycleEndedAt).toBe(at(2026, 2, 25, 5, 0, 0).toISOString());
+  });
+
+  it("refills abyss corridor lanes at the unified Wed/Sat 22:00 refresh", () => {
+    const from = at(2026, 2, 25, 21, 30, 0);
+    const character = createCharacter(from);
+    character.activities.corridorLowerAvailable = 0;
+    character.activities.corridorMiddleAvailable = 1;
+
+    const beforeRefresh = refreshCharacterState(character, at(2026, 2, 25, 21, 59, 0));
+    expect(beforeRefresh.activities.corridorLowerAvailable).toBe(0);
+    expect(beforeRefresh.activities.corridorLowerNextAt).toBe(at(2026, 2, 25, 22, 0, 0).toISOString());
+
+    const next = refreshCharacterState(character, at(2026, 2, 25, 22, 30, 0));
+    expect(next.activities.corridorLowerAvailable).toBe(3);
+    expect(next.activities.corridorMiddleAvailable).toBe(3);
+    expect(next.activities.corridorLowerCap).toBe(3);
+    expect(next.activities.corridorLowerNextAt).toBe(at(2026, 2, 28, 22, 0, 0).toISOString());
+    expect(next.activities.corridorMiddleNextAt).toBe(at(2026, 2, 28, 22, 0, 0).toISOString());
   });
 });
 
@@ -196,3 +225,43 @@ describe("shared/engine task helpers", () => {
     expect(getTaskProgressText(character, task, DEFAULT_SETTINGS)).toBe("7(+2)/14");
   });
 });
+
+describe("shared/engine energy forecast", () => {
+  it("finds the first tick that overflows the Aode base pool", () => {
+    const now = at(2026, 2, 24, 4, 0, 0);
+    const character = createCharacter(now);
+    character.energy.baseCurrent = 800;
+    character.activities.expeditionRemaining = 0;
+    character.activities.transcendenceRemaining = 0;
+
+    const forecast = forecastCharacterEnergy(character, now, { days: 1 });
+    const base = forecast.counters.find((item) => item.key === "baseCurrent");
+
+    expect(base?.current).toBe(800);
+    expect(base?.cap).toBe(840);
+    expect(base?.overflowAt).toBe(at(2026, 2, 24, 11, 0, 0).toISOString());
+    expect(base?.wasted).toBe(5 + 15 * 5);
+    expect(base?.projected).toBe(840);
+    expect(forecast.overflowAt).toBe(base?.overflowAt);
+  });
+
+  it("counts expedition reward ticks and sorts characters by time until waste", () => {
+    const now = at(2026, 2, 24, 4, 0, 0);
+    const calm = createCharacter(now);
+    calm.id = "calm";
+    calm.energy.baseCurrent = 0;
+    calm.activities.expeditionRemaining = 0;
+    calm.activities.transcendenceRemaining = 0;
+    const urgent = createCharacter(now);
+    urgent.id = "urgent";
+    urgent.energy.baseCurrent = 0;
+    urgent.activities.expeditionRemaining = 21;
+    urgent.activities.transcendenceRemaining = 0;
+
+    const forecasts = buildEnergyForecasts([calm, urgent], now, { days: 1 });
+
+    expect(forecasts.map((item) => item.characterId)).toEqual(["urgent", "calm"]);
+    expect(forecasts[0].overflowAt).toBe(at(2026, 2, 24, 5, 0, 0).toISOString());
+    expect(forecasts[1].overflowAt).toBeNull();
+  });
+});
@@ -1,31 +1,35 @@
 import {
-  AODE_ENERGY_SCHEDULE_HOURS,
   AODE_BASE_ENERGY_OVERFLOW_WARN_THRESHOLD,
+  DAILY_DUNGEON_TICKET_STORED_MAX,
   ENERGY_BASE_CAP,
   ENERGY_BONUS_CAP,
-  ENERGY_PER_TICK,
-  EXPEDITION_BOSS_MAX,
-  EXPEDITION_REWARD_MAX,
-  EXPEDITION_SCHEDULE_HOURS,
-  NIGHTMARE_MAX,
-  MINI_GAME_MAX,
-  SPIRIT_INVASION_MAX,
-  TASK_DEFINITIONS,
-  TRANSCENDENCE_BOSS_MAX,
-  TRANSCENDENCE_REWARD_MAX,
-  TRANSCENDENCE_SCHEDULE_HOURS,
+  ENERGY_FORECAST_DAYS,
+  WEEKLY_STATS_HISTORY_LIMIT,
   createEmptyWeeklyStats,
 } from "./constants";
-import { countDailyResets, countScheduledTicks, countWeeklyResets } from "./time";
+import { applyCustomTaskResets, resolveTaskDefinitions } from "./custom-tasks";
+import { applyEventResets } from "./events";
+import { DEFAULT_SEASON_RULE_SET, applySeasonRules, projectSeasonRule } from "./season-rules";
+import { countWeeklyResets, getNextUnifiedCorridorRefresh, getNextWeeklyReset, type ServerTimeZone } from "./time";
 import type {
   ActivityCounterKey,
-  ActivityTicketKey,
   AppSettings,
   ApplyTaskActionInput,
+  CharacterEnergyForecast,
   CharacterState,
   CharacterSummary,
+  CustomTaskDefinition,
+  EnergyForecastCounter,
+  EnergyForecastKey,
+  EventDefinition,
   MissionCounterKey,
+  ScheduledSeasonRuleSet,
+  SeasonRuleSet,
+  TaskCounterTarget,
   TaskDefinition,
+  TaskTicketTarget,
+  WeeklyStats,
+  WeeklyStatsArchiveEntry,
 } from "./types";
 
 function clamp(value: number, min: number, max: number): number {
@@ -39,8 +43,11 @@ function toSafeInt(value: number | undefined, fallback = 1): number {
   return Math.max(0, Math.floor(value));
 }
 
-function getTaskDefinition(taskId: ApplyTaskActionInput["taskId"]): TaskDefinition | null {
-  return TASK_DEFINITIONS.find((item) => item.id === taskId) ?? null;
+function getTaskDefinition(
+  taskId: ApplyTaskActionInput["taskId"],
+  customTasks: readonly CustomTaskDefinition[],
+): TaskDefinition | null {
+  return resolveTaskDefinitions(customTasks).find((item) => item.id === taskId) ?? null;
 }
 
 function getSettingGoldReward(settings: AppSettings, task: TaskDefinition): number {
@@ -85,62 +92,93 @@ function setActivityCounter(character: CharacterState, key: ActivityCounterKey,
   character.activities[key] = value;
 }
 
-function getActivityTicket(character: CharacterState, key: ActivityTicketKey): number {
-  return character.activities[key];
+function getCounterTarget(character: CharacterState, target: TaskCounterTarget): number {
+  if (target.scope === "custom") {
+    return character.customProgress[target.key]?.remaining ?? 0;
+  }
+  if (target.scope === "missions") {
+    return getMissionCounter(character, target.key as MissionCounterKey);
+  }
+  return getActivityCounter(character, target.key as ActivityCounterKey);
 }
 
-function setActivityTicket(character: CharacterState, key: ActivityTicketKey, value: number): void {
-  character.activities[key] = value;
+function setCounterTarget(character: CharacterState, target: TaskCounterTarget, value: number): void {
+  if (target.scope === "custom") {
+    const progress = character.customProgress[target.key] ?? { remaining: 0, ticketBonus: 0 };
+    character.customProgress[target.key] = { ...progress, remaining: value };
+    return;
+  }
+  if (target.scope === "missions") {
+    setMissionCounter(character, target.key as MissionCounterKey, value);
+    return;
+  }
+  setActivityCounter(character, target.key as ActivityCounterKey, value);
+}
+
+function getTicketTarget(character: CharacterState, target: TaskTicketTarget): number {
+  if (target.scope === "custom") {
+    return character.customProgress[target.key]?.ticketBonus ?? 0;
+  }
+  return character.activities[target.key];
+}
+
+function setTicketTarget(character: CharacterState, target: TaskTicketTarget, value: number): void {
+  if (target.scope === "custom") {
+    const progress = character.customProgress[target.key] ?? { remaining: 0, ticketBonus: 0 };
+    character.customProgress[target.key] = { ...progress, ticketBonus: value };
+    return;
+  }
+  character.activities[target.key] = value;
 }
 
-function getPrimaryActivityKey(task: TaskDefinition): ActivityCounterKey | null {
+function getPrimaryCounterTarget(task: TaskDefinition): TaskCounterTarget | null {
   const first = task.counterTargets[0];
-  if (!first || first.scope !== "activities") {
+  if (!first || first.scope === "missions") {
     return null;
   }
-  return first.key as ActivityCounterKey;
+  return first;
 }
 
 function getTaskBonusAvailable(character: CharacterState, task: TaskDefinition): number {
   if (!task.ticketTarget) {
     return 0;
   }
-  return getActivityTicket(character, task.ticketTarget.key);
+  return getTicketTarget(character, task.ticketTarget);
 }
 
 function getStackedAvailable(character: CharacterState, task: TaskDefinition): number {
-  const primaryKey = getPrimaryActivityKey(task);
-  if (!primaryKey) {
+  const primary = getPrimaryCounterTarget(task);
+  if (!primary) {
     return 0;
   }
-  const base = getActivityCounter(character, primaryKey);
+  const base = getCounterTarget(character, primary);
   return base + getTaskBonusAvailable(character, task);
 }
 
 function decrementStackedCounter(character: CharacterState, task: TaskDefinition, amount: number): void {
-  const primaryKey = getPrimaryActivityKey(task);
-  if (!primaryKey || !task.ticketTarget) {
+  const primary = getPrimaryCounterTarget(task);
+  if (!primary || !task.ticketTarget) {
     return;
   }
 
-  const base = getActivityCounter(character, primaryKey);
-  const bonus = getActivityTicket(character, task.ticketTarget.key);
+  const base = getCounterTarget(character, primary);
+  const bonus = getTicketTarget(character, task.ticketTarget);
 
   if (task.consumeTicketFirst) {
     const fromBonus = Math.min(bonus, amount);
     const remain = amount - fromBonus;
-    setActivityTicket(character, task.ticketTarget.key, bonus - fromBonus);
+    setTicketTarget(character, task.ticketTarget, bonus - fromBonus);
     if (remain > 0) {
-      setActivityCounter(character, primaryKey, Math.max(0, base - remain));
+      setCounterTarget(character, primary, Math.max(0, base - remain));
     }
     return;
   }
 
   const fromBase = Math.min(base, amount);
   const remain = amount - fromBase;
-  setActivityCounter(character, primaryKey, base - fromBase);
+  setCounterTarget(character, primary, base - fromBase);
   if (remain > 0) {
-    setActivityTicket(character, task.ticketTarget.key, Math.max(0, bonus - remain));
+    setTicketTarget(character, task.ticketTarget, Math.max(0, bonus - remain));
   }
 }
 
@@ -148,10 +186,6 @@ export function getTotalEnergy(character: CharacterState): number {
   return character.energy.baseCurrent + character.energy.bonusCurrent;
 }
 
-function increaseBaseEnergy(character: CharacterState, amount: number): void {
-  character.energy.baseCurrent = clamp(character.energy.baseCurrent + amount, 0, character.energy.baseCap);
-}
-
 function consumeEnergy(character: CharacterState, amount: number): boolean {
   if (amount <= 0) {
     return true;
@@ -173,12 +207,7 @@ function getRawTaskRemaining(character: CharacterState, task: TaskDefinition): n
   if (task.counterTargets.length === 0) {
     return null;
   }
-  const values = task.counterTargets.map((target) => {
-    if (target.scope === "missions") {
-      return getMissionCounter(character, target.key as MissionCounterKey);
-    }
-    return getActivityCounter(character, target.key as ActivityCounterKey);
-  });
+  const values = task.counterTargets.map((target) => getCounterTarget(character, target));
   return Math.min(...values);
 }
 
@@ -196,12 +225,7 @@ export function getTaskRemaining(character: CharacterState, task: TaskDefinition
     return stacked;
   }
 
-  const secondaryValues = task.counterTargets.slice(1).map((target) => {
-    if (target.scope === "missions") {
-      return getMissionCounter(character, target.key as MissionCounterKey);
-    }
-    return getActivityCounter(character, target.key as ActivityCounterKey);
-  });
+  const secondaryValues = task.counterTargets.slice(1).map((target) => getCounterTarget(character, target));
   return Math.min(stacked, ...secondaryValues, raw + getTaskBonusAvailable(character, task));
 }
 
@@ -216,14 +240,14 @@ export function getTaskProgressText(character: CharacterState, task: TaskDefinit
     return `${remain}/${cap}`;
   }
 
-  const primaryKey = getPrimaryActivityKey(task);
-  if (!primaryKey || !task.ticketTarget) {
+  const primary = getPrimaryCounterTarget(task);
+  if (!primary || !task.ticketTarget) {
     const cap = getTaskCapDisplay(task, settings);
     return `${remain}/${cap}`;
   }
 
-  const base = getActivityCounter(character, primaryKey);
-  const bonus = getActivityTicket(character, task.ticketTarget.key);
+  const base = getCounterTarget(character, primary);
+  const bonus = getTicketTarget(character, task.ticketTarget);
   const cap = getTaskCapDisplay(task, settings);
   return `${base}(+${bonus})/${cap}`;
 }
@@ -232,7 +256,29 @@ export function getTaskGoldReward(settings: AppSettings, task: TaskDefinition):
   return getSettingGoldReward(settings, task);
 }
 
-export function refreshCharacterState(character: CharacterState, now = new Date()): CharacterState {
+export function archiveWeeklyStats(
+  history: WeeklyStatsArchiveEntry[],
+  stats: WeeklyStats,
+  cycleEndedAt: string,
+): WeeklyStatsArchiveEntry[] {
+  const entry: WeeklyStatsArchiveEntry = { ...structuredClone(stats), cycleEndedAt };
+  return [...history, entry].slice(-WEEKLY_STATS_HISTORY_LIMIT);
+}
+
+export interface RefreshCharacterOptions {
+  ruleSet?: SeasonRuleSet;
+  scheduledRuleSet?: ScheduledSeasonRuleSet | null;
+  timeZone?: ServerTimeZone;
+  customTasks?: readonly CustomTaskDefinition[];
+  events?: readonly EventDefinition[];
+}
+
+export function refreshCharacterState(
+  character: CharacterState,
+  now = new Date(),
+  options: RefreshCharacterOptions = {},
+): CharacterState {
+  const { ruleSet = DEFAULT_SEASON_RULE_SET, scheduledRuleSet = null, timeZone = null, customTasks = [], events = [] } = options;
   const next = structuredClone(character);
   const previous = new Date(next.meta.lastSyncedAt);
   if (Number.isNaN(previous.getTime())) {
@@ -240,68 +286,29 @@ export function refreshCharacterState(character: CharacterState, now = new Date(
     return next;
   }
 
-  const energyTicks = countScheduledTicks(previous, now, AODE_ENERGY_SCHEDULE_HOURS);
-  if (energyTicks > 0) {
-    increaseBaseEnergy(next, energyTicks * ENERGY_PER_TICK);
-  }
-
-  const dailyResetCount = countDailyResets(previous, now);
-  if (dailyResetCount > 0) {
-    next.missions.dailyRemaining = 5;
-    next.activities.nightmareRemaining = clamp(
-      next.activities.nightmareRemaining + dailyResetCount * 2,
-      0,
-      NIGHTMARE_MAX,
-    );
-    next.activities.miniGameRemaining = clamp(next.activities.miniGameRemaining + dailyResetCount * 2, 0, MINI_GAME_MAX);
-    next.activities.spiritInvasionRemaining = clamp(
-      next.activities.spiritInvasionRemaining + dailyResetCount,
-      0,
-      SPIRIT_INVASION_MAX,
-    );
-  }
-
-  const weeklyResetCount = countWeeklyResets(previous, now);
-  if (weeklyResetCount > 0) {
-    next.missions.weeklyRemaining = 12;
-    next.missions.abyssLowerRemaining = 20;
-    next.missions.abyssMiddleRemaining = 5;
-    next.activities.awakeningRemaining = 3;
-    next.activities.awakeningTicketBonus = 0;
-    next.activities.dailyDungeonRemaining = 14;
-    next.activities.sanctumRaidChallengeRemaining = 4;
-    next.activities.sanctumRaidChallengeBonus = 0;
-    next.activities.sanctumRaidBoxRemaining = 2;
-    next.activities.sanctumRaidBoxBonus = 0;
-    next.activities.sanctumPurifyChallengeRemaining = 4;
-    next.activities.sanctumPurifyBoxRemaining = 2;
-    next.activities.expeditionBossRemaining = EXPEDITION_BOSS_MAX;
-    next.activities.transcendenceBossRemaining = TRANSCENDENCE_BOSS_MAX;
-    next.aodePlan.shopAodePurchaseUsed = 0;
-    next.aodePlan.shopUnknownChallengeTicketUsed = 0;
-    next.aodePlan.shopExpeditionChoiceBoxUsed = 0;
-    next.aodePlan.shopNightmareInstantUsed = 0;
-    next.aodePlan.shopAbyssReplenishUsed = 0;
-    next.aodePlan.transformAodeUsed = 0;
+  const switchAt = scheduledRuleSet ? new Date(scheduledRuleSet.effectiveAt) : null;
+  if (scheduledRuleSet && switchAt && switchAt <= previous) {
+    applySeasonRules(next, previous, now, scheduledRuleSet.ruleSet, timeZone);
+  } else if (scheduledRuleSet && switchAt && switchAt <= now) {
+    const boundary = new Date(Math.max(previous.getTime(), switchAt.getTime() - 1));
+    applySeasonRules(next, previous, boundary, ruleSet, timeZone);
+    applySeasonRules(next, boundary, now, scheduledRuleSet.ruleSet, timeZone);
+  } else {
+    applySeasonRules(next, previous, now, ruleSet, timeZone);
+  }
+  applyCustomTaskResets(next, customTasks, previous, now, timeZone);
+  applyEventResets(next, events, previous, now, timeZone);
+  if (countWeeklyResets(previous, now, timeZone) > 0) {
+    next.statsHistory = archiveWeeklyStats(next.statsHistory, next.stats, getNextWeeklyReset(previous, timeZone).toISOString());
     next.stats = createEmptyWeeklyStats(now.toISOString());
   }
 
-  const expeditionTicks = countScheduledTicks(previous, now, EXPEDITION_SCHEDULE_HOURS);
-  if (expeditionTicks > 0) {
-    next.activities.expeditionRemaining = clamp(
-      next.activities.expeditionRemaining + expeditionTicks,
-      0,
-      EXPEDITION_REWARD_MAX,
-    );
+  const nextCorridorAt = getNextUnifiedCorridorRefresh(now, timeZone).toISOString();
+  if (!next.activities.corridorLowerNextAt || new Date(next.activities.corridorLowerNextAt) <= now) {
+    next.activities.corridorLowerNextAt = nextCorridorAt;
   }
-
-  const transcendenceTicks = countScheduledTicks(previous, now, TRANSCENDENCE_SCHEDULE_HOURS);
-  if (transcendenceTicks > 0) {
-    next.activities.transcendenceRemaining = clamp(
-      next.activities.transcendenceRemaining + transcendenceTicks,
-      0,
-      TRANSCENDENCE_REWARD_MAX,
-    );
+  if (!next.activities.corridorMiddleNextAt || new Date(next.activities.corridorMiddleNextAt) <= now) {
+    next.activities.corridorMiddleNextAt = nextCorridorAt;
   }
 
   next.meta.lastSyncedAt = now.toISOString();
@@ -312,16 +319,85 @@ export function refreshCharacterState(character: CharacterState, now = new Date(
 
   next.activities.nightmareTicketBonus = clamp(next.activities.nightmareTicketBonus, 0, 999);
   next.activities.awakeningTicketBonus = clamp(next.activities.awakeningTicketBonus, 0, 999);
-  next.activities.dailyDungeonTicketStored = clamp(next.activities.dailyDungeonTicketStored, 0, 30);
+  next.activities.dailyDungeonTicketStored = clamp(
+    next.activities.dailyDungeonTicketStored,
+    0,
+    DAILY_DUNGEON_TICKET_STORED_MAX,
+  );
   next.activities.miniGameTicketBonus = clamp(next.activities.miniGameTicketBonus, 0, 999);
   next.activities.expeditionTicketBonus = clamp(next.activities.expeditionTicketBonus, 0, 999);
   next.activities.transcendenceTicketBonus = clamp(next.activities.transcendenceTicketBonus, 0, 999);
   next.activities.sanctumRaidChallengeBonus = clamp(next.activities.sanctumRaidChallengeBonus, 0, 1);
   next.activities.sanctumRaidBoxBonus = clamp(next.activities.sanctumRaidBoxBonus, 0, 1);
+  next.activities.corridorLowerAvailable = clamp(next.activities.corridorLowerAvailable, 0, next.activities.corridorLowerCap);
+  next.activities.corridorMiddleAvailable = clamp(next.activities.corridorMiddleAvailable, 0, next.activities.corridorMiddleCap);
 
   return next;
 }
 
+const ENERGY_FORECAST_KEYS: readonly EnergyForecastKey[] = ["baseCurrent", "expeditionRemaining", "transcendenceRemaining"];
+
+export interface EnergyForecastOptions extends RefreshCharacterOptions {
+  days?: number;
+}
+
+export function forecastCharacterEnergy(
+  character: CharacterState,
+  now = new Date(),
+  options: EnergyForecastOptions = {},
+): CharacterEnergyForecast {
+  const { days = ENERGY_FORECAST_DAYS, ruleSet = DEFAULT_SEASON_RULE_SET, timeZone = null } = options;
+  const current = refreshCharacterState(character, now, options);
+  const horizon = new Date(now.getTime() + Math.max(0, days) * 86_400_000);
+  const counters = ENERGY_FORECAST_KEYS.flatMap((key): EnergyForecastCounter[] => {
+    const rule = ruleSet.rules.find((item) => item.key === key && item.stack);
+    if (!rule) {
+      return [];
+    }
+    const projection = projectSeasonRule(current, rule, now, horizon, timeZone);
+    return [
+      {
+        key,
+        current: key === "baseCurrent" ? current.energy.baseCurrent : current.activities[key],
+        cap: rule.cap ?? projection.value,
+        projected: projection.value,
+        overflowAt: projection.overflowAt?.toISOString() ?? null,
+        wasted: projection.wasted,
+      },
+    ];
+  });
+  const overflowTimes = counters.flatMap((item) => (item.overflowAt ? [item.overflowAt] : [])).sort();
+
+  return {
+    characterId: character.id,
+    name: character.name,
+    horizonEndsAt: horizon.toISOString(),
+    overflowAt: overflowTimes[0] ?? null,
+    counters,
+  };
+}
+
+export function buildEnergyForecasts(
+  characters: CharacterState[],
+  now = new Date(),
+  options: EnergyForecastOptions = {},
+): CharacterEnergyForecast[] {
+  return characters
+    .map((item) => forecastCharacterEnergy(item, now, options))
+    .sort((left, right) => {
+      if (left.overflowAt === right.overflowAt) {
+        return 0;
+      }
+      if (left.overflowAt === null) {
+        return 1;
+      }
+      if (right.overflowAt === null) {
+        return -1;
+      }
+      return left.overflowAt.localeCompare(right.overflowAt);
+    });
+}
+
 export function estimateCharacterGold(character: CharacterState, settings: AppSettings): number {
   let energyBudget = Math.floor(getTotalEnergy(character) / 80);
   const transcendenceRuns = Math.min(
@@ -374,9 +450,10 @@ export function applyTaskAction(
   character: CharacterState,
   settings: AppSettings,
   input: ApplyTaskActionInput,
+  customTasks: readonly CustomTaskDefinition[] = [],
 ): { next: CharacterState; success: boolean; message: string; goldDelta: number } {
   const next = structuredClone(character);
-  const task = getTaskDefinition(input.taskId);
+  const task = getTaskDefinition(input.taskId, customTasks);
   if (!task) {
     return { next, success: false, message: "未知任务", goldDelta: 0 };
   }
@@ -388,8 +465,8 @@ export function applyTaskAction(
       return { next, success: false, message: "该任务不支持吃券", goldDelta: 0 };
     }
     const increment = task.ticketTarget.increment ?? 1;
-    const current = getActivityTicket(next, task.ticketTarget.key);
-    setActivityTicket(next, task.ticketTarget.key, current + Math.max(1, amount) * increment);
+    const current = getTicketTarget(next, task.ticketTarget);
+    setTicketTarget(next, task.ticketTarget, current + Math.max(1, amount) * increment);
     return { next, success: true, message: "已增加券次数", goldDelta: 0 };
   }
 
@@ -399,12 +476,7 @@ export function applyTaskAction(
     }
     const completed = clamp(amount, 0, task.setCompletedTotal);
     const remaining = task.setCompletedTotal - completed;
-    const target = task.counterTargets[0];
-    if (target.scope === "missions") {
-      setMissionCounter(next, target.key as MissionCounterKey, remaining);
-    } else {
-      setActivityCounter(next, target.key as ActivityCounterKey, remaining);
-    }
+    setCounterTarget(next, task.counterTargets[0], remaining);
     return { next, success: true, message: "已更新已完成次数", goldDelta: 0 };
   }
 
@@ -437,24 +509,12 @@ export function applyTaskAction(
     const nonPrimaryTargets = task.counterTargets.slice(1);
     for (const target of nonPrimaryTargets) {
       const decrement = (target.decrement ?? 1) * amount;
-      if (target.scope === "missions") {
-        const current = getMissionCounter(next, target.key as MissionCounterKey);
-        setMissionCounter(next, target.key as MissionCounterKey, clamp(current - decrement, 0, Number.MAX_SAFE_INTEGER));
-      } else {
-        const current = getActivityCounter(next, target.key as ActivityCounterKey);
-        setActivityCounter(next, target.key as ActivityCounterKey, clamp(current - decrement, 0, Number.MAX_SAFE_INTEGER));
-      }
+      setCounterTarget(next, target, clamp(getCounterTarget(next, target) - decrement, 0, Number.MAX_SAFE_INTEGER));
     }
   } else {
     for (const target of task.counterTargets) {
       const decrement = (target.decrement ?? 1) * amount;
-      if (target.scope === "missions") {
-        const current = getMissionCounter(next, target.key as MissionCounterKey);
-        setMissionCounter(next, target.key as MissionCounterKey, clamp(current - decrement, 0, Number.MAX_SAFE_INTEGER));
-      } else {
-        const current = getActivityCounter(next, target.key as ActivityCounterKey);
-        setActivityCounter(next, target.key as ActivityCounterKey, clamp(current - decrement, 0, Number.MAX_SAFE_INTEGER));
-      }
+      setCounterTarget(next, target, clamp(getCounterTarget(next, target) - decrement, 0, Number.MAX_SAFE_INTEGER));
     }
   }
 
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultCharacter } from "./constants";
+import { refreshCharacterState } from "./engine";
+import { isEventActive, isEventEndingSoon, normalizeEvents, parseEventDefinition, reconcileEventProgress } from "./events";
+import type { EventDefinition } from "./types";
+
+function at(y: number, m: number, d: number, h: number, min = 0): Date {
+  return new Date(y, m - 1, d, h, min, 0, 0);
+}
+
+const LANTERN_EVENT: EventDefinition = {
+  id: "lantern",
+  title: "灯会活动",
+  startAt: at(2026, 2, 26, 5).toISOString(),
+  endAt: at(2026, 3, 2, 5).toISOString(),
+  resetCadence: "daily",
+  counters: [
+    { label: "灯谜", cap: 3 },
+    { label: "兑换", cap: 1 },
+  ],
+  rewardNote: "灯笼外观",
+};
+
+describe("shared/events", () => {
+  it("validates windows and counters", () => {
+    expect(() => parseEventDefinition({ ...LANTERN_EVENT, endAt: LANTERN_EVENT.startAt })).toThrow("晚于开始时间");
+    expect(() => parseEventDefinition({ ...LANTERN_EVENT, counters: [] })).toThrow("至少需要一个计数项");
+    expect(() =>
+      parseEventDefinition({
+        ...LANTERN_EVENT,
+        counters: [
+          { label: "灯谜", cap: 1 },
+          { label: " 灯谜 ", cap: 2 },
+        ],
+      }),
+    ).toThrow("计数项重复");
+    expect(normalizeEvents([LANTERN_EVENT, { ...LANTERN_EVENT }, { id: "broken" }])).toEqual([LANTERN_EVENT]);
+  });
+
+  it("reports the active window and the closing alert threshold", () => {
+    expect(isEventActive(LANTERN_EVENT, at(2026, 2, 26, 4))).toBe(false);
+    expect(isEventActive(LANTERN_EVENT, at(2026, 2, 27, 12))).toBe(true);
+    expect(isEventEndingSoon(LANTERN_EVENT, at(2026, 2, 27, 12))).toBe(false);
+    expect(isEventEndingSoon(LANTERN_EVENT, at(2026, 2, 28, 12))).toBe(true);
+    expect(isEventActive(LANTERN_EVENT, at(2026, 3, 2, 5))).toBe(false);
+  });
+
+  it("refills counters on the event cadence only inside the window", () => {
+    const base = reconcileEventProgress(
+      createDefaultCharacter("测试角色", at(2026, 2, 26, 12).toISOString(), "char-1", "acc-1"),
+      [LANTERN_EVENT],
+    );
+    expect(base.eventProgress.lantern).toEqual({ 灯谜: 3, 兑换: 1 });
+
+    const spent = { ...base, eventProgress: { lantern: { 灯谜: 0, 兑换: 0 } } };
+    const refreshed = refreshCharacterState(spent, at(2026, 2, 27, 12), { events: [LANTERN_EVENT] });
+    expect(refreshed.eventProgress.lantern).toEqual({ 灯谜: 3, 兑换: 1 });
+
+    const afterEnd = { ...spent, meta: { lastSyncedAt: at(2026, 3, 2, 12).toISOString() } };
+    const stale = refreshCharacterState(afterEnd, at(2026, 3, 3, 12), { events: [LANTERN_EVENT] });
+    expect(stale.eventProgress.lantern).toEqual({ 灯谜: 0, 兑换: 0 });
+  });
+});
@@ -0,0 +1,181 @@
+import { countDailyResets, countWeeklyResets, type ServerTimeZone } from "./time";
+import type { CharacterState, CustomTaskResetCadence, EventCounterDefinition, EventDefinition } from "./types";
+
+export const EVENT_LIMIT = 30;
+export const EVENT_COUNTER_LIMIT = 10;
+export const EVENT_COUNTER_CAP_MAX = 9999;
+export const EVENT_ENDING_SOON_HOURS = 48;
+
+const EVENT_RESET_CADENCES: readonly CustomTaskResetCadence[] = ["daily", "weekly", "none"];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function parseTime(value: unknown): number {
+  if (typeof value !== "string" || !value.trim()) {
+    return Number.NaN;
+  }
+  return new Date(value).getTime();
+}
+
+export function isEventActive(event: EventDefinition, now: Date): boolean {
+  const nowMs = now.getTime();
+  return new Date(event.startAt).getTime() <= nowMs && nowMs < new Date(event.endAt).getTime();
+}
+
+export function getEventRemainingMs(event: EventDefinition, now: Date): number {
+  return Math.max(0, new Date(event.endAt).getTime() - now.getTime());
+}
+
+export function isEventEndingSoon(event: EventDefinition, now: Date): boolean {
+  return isEventActive(event, now) && getEventRemainingMs(event, now) <= EVENT_ENDING_SOON_HOURS * 60 * 60 * 1000;
+}
+
+export function createEventProgress(event: EventDefinition): Record<string, number> {
+  return Object.fromEntries(event.counters.map((counter) => [counter.label, counter.cap]));
+}
+
+function parseEventCounters(raw: unknown): EventCounterDefinition[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("活动至少需要一个计数项");
+  }
+  if (raw.length > EVENT_COUNTER_LIMIT) {
+    throw new Error(`活动计数项最多 ${EVENT_COUNTER_LIMIT} 个`);
+  }
+  const seen = new Set<string>();
+  return raw.map((item) => {
+    const entity = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    const label = typeof entity.label === "string" ? entity.label.trim().slice(0, 20) : "";
+    if (!label) {
+      throw new Error("活动计数项名称不能为空");
+    }
+    if (seen.has(label)) {
+      throw new Error(`活动计数项重复: ${label}`);
+    }
+    seen.add(label);
+    if (typeof entity.cap !== "number" || !Number.isFinite(entity.cap) || entity.cap < 1) {
+      throw new Error(`活动计数项「${label}」上限必须是不小于 1 的数字`);
+    }
+    return { label, cap: clamp(Math.floor(entity.cap), 1, EVENT_COUNTER_CAP_MAX) };
+  });
+}
+
+export function parseEventDefinition(raw: unknown): EventDefinition {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("活动不是有效对象");
+  }
+  const entity = raw as Record<string, unknown>;
+  const id = typeof entity.id === "string" ? entity.id.trim() : "";
+  if (!id) {
+    throw new Error("活动 id 无效");
+  }
+  const title = typeof entity.title === "string" ? entity.title.trim() : "";
+  if (!title) {
+    throw new Error("活动名称不能为空");
+  }
+  const startMs = parseTime(entity.startAt);
+  const endMs = parseTime(entity.endAt);
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+    throw new Error("活动开始或结束时间无效");
+  }
+  if (endMs <= startMs) {
+    throw new Error("活动结束时间必须晚于开始时间");
+  }
+  const resetCadence = entity.resetCadence as CustomTaskResetCadence;
+  if (!EVENT_RESET_CADENCES.includes(resetCadence)) {
+    throw new Error(`活动重置周期无效: ${String(entity.resetCadence)}`);
+  }
+  return {
+    id,
+    title: title.slice(0, 40),
+    startAt: new Date(startMs).toISOString(),
+    endAt: new Date(endMs).toISOString(),
+    resetCadence,
+    counters: parseEventCounters(entity.counters),
+    rewardNote: typeof entity.rewardNote === "string" ? entity.rewardNote.trim().slice(0, 200) : "",
+  };
+}
+
+export function normalizeEvents(raw: unknown): EventDefinition[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  return raw
+    .flatMap((item) => {
+      try {
+        const event = parseEventDefinition(item);
+        if (seen.has(event.id)) {
+          return [];
+        }
+        seen.add(event.id);
+        return [event];
+      } catch {
+        return [];
+      }
+    })
+    .slice(0, EVENT_LIMIT);
+}
+
+export function normalizeEventProgress(raw: unknown): Record<string, Record<string, number>> {
+  const result: Record<string, Record<string, number>> = {};
+  if (!raw || typeof raw !== "object") {
+    return result;
+  }
+  Object.entries(raw as Record<string, unknown>).forEach(([eventId, counters]) => {
+    if (!counters || typeof counters !== "object") {
+      return;
+    }
+    const entry: Record<string, number> = {};
+    Object.entries(counters as Record<string, unknown>).forEach(([label, value]) => {
+      if (typeof value === "number" && Number.isFinite(value)) {
+        entry[label] = clamp(Math.floor(value), 0, EVENT_COUNTER_CAP_MAX);
+      }
+    });
+    result[eventId] = entry;
+  });
+  return result;
+}
+
+export function reconcileEventProgress(character: CharacterState, events: readonly EventDefinition[]): CharacterState {
+  const eventProgress: Record<string, Record<string, number>> = {};
+  events.forEach((event) => {
+    const current = character.eventProgress[event.id] ?? {};
+    eventProgress[event.id] = Object.fromEntries(
+      event.counters.map((counter) => [counter.label, clamp(current[counter.label] ?? counter.cap, 0, counter.cap)]),
+    );
+  });
+  return { ...character, eventProgress };
+}
+
+export function applyEventResets(
+  character: CharacterState,
+  events: readonly EventDefinition[],
+  from: Date,
+  to: Date,
+  timeZone?: ServerTimeZone,
+): void {
+  if (events.length === 0 || to <= from) {
+    return;
+  }
+  events.forEach((event) => {
+    if (event.resetCadence === "none") {
+      return;
+    }
+    const startMs = new Date(event.startAt).getTime();
+    const endMs = new Date(event.endAt).getTime();
+    const windowFrom = new Date(Math.max(from.getTime(), startMs));
+    const windowTo = new Date(Math.min(to.getTime(), endMs));
+    if (windowTo <= windowFrom) {
+      return;
+    }
+    const resets =
+      event.resetCadence === "daily"
+        ? countDailyResets(windowFrom, windowTo, timeZone)
+        : countWeeklyResets(windowFrom, windowTo, timeZone);
+    if (resets > 0) {
+      character.eventProgress[event.id] = createEventProgress(event);
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, createDefaultCharacter } from "./constants";
+import { buildGoldLedgerWeeks, buildGoldRateSuggestions, normalizeGoldLedger } from "./gold-ledger";
+import type { GoldLedgerEntry } from "./types";
+
+function entry(id: string, recordedAt: string, source: GoldLedgerEntry["source"], runs: number, amount: number): GoldLedgerEntry {
+  return { id, recordedAt, source, runs, amount };
+}
+
+describe("shared/gold-ledger", () => {
+  it("buckets recorded gold into the current and archived weeks next to the estimates", () => {
+    const character = createDefaultCharacter("角色", "2026-02-25T20:00:00.000Z", "char-1", "acc-1");
+    character.stats.cycleStartedAt = "2026-02-25T20:00:00.000Z";
+    character.stats.goldEarned = 600;
+    character.statsHistory = [
+      {
+        cycleStartedAt: "2026-02-18T20:00:00.000Z",
+        cycleEndedAt: "2026-02-25T20:00:00.000Z",
+        goldEarned: 900,
+        completions: { ...character.stats.completions },
+      },
+    ];
+    character.goldLedger = [
+      entry("a", "2026-02-20T10:00:00.000Z", "expedition", 3, 800),
+      entry("b", "2026-02-26T10:00:00.000Z", "transcendence", 2, 500),
+      entry("c", "2026-02-27T10:00:00.000Z", "other", 0, 150),
+    ];
+
+    expect(buildGoldLedgerWeeks(character)).toEqual([
+      {
+        cycleStartedAt: "2026-02-25T20:00:00.000Z",
+        cycleEndedAt: null,
+        estimated: 600,
+        actual: 650,
+        recordedRuns: 2,
+        entryCount: 2,
+      },
+      {
+        cycleStartedAt: "2026-02-18T20:00:00.000Z",
+        cycleEndedAt: "2026-02-25T20:00:00.000Z",
+        estimated: 900,
+        actual: 800,
+        recordedRuns: 3,
+        entryCount: 1,
+      },
+    ]);
+  });
+
+  it("suggests per-run gold only once enough runs are recorded", () => {
+    const first = createDefaultCharacter("甲", "2026-02-25T20:00:00.000Z", "char-1", "acc-1");
+    const second = createDefaultCharacter("乙", "2026-02-25T20:00:00.000Z", "char-2", "acc-1");
+    first.goldLedger = [entry("a", "2026-02-26T10:00:00.000Z", "transcendence", 3, 1000)];
+    second.goldLedger = [
+      entry("b", "2026-02-26T11:00:00.000Z", "transcendence", 2, 700),
+      entry("c", "2026-02-26T12:00:00.000Z", "expedition", 2, 400),
+      entry("d", "2026-02-26T13:00:00.000Z", "other", 0, 9999),
+    ];
+
+    expect(buildGoldRateSuggestions([first, second], DEFAULT_SETTINGS)).toEqual([
+      {
+        source: "transcendence",
+        settingKey: "transcendenceGoldPerRun",
+        runs: 5,
+        recordedGold: 1700,
+        average: 340,
+        current: DEFAULT_SETTINGS.transcendenceGoldPerRun,
+      },
+    ]);
+  });
+
+  it("drops malformed entries and clears runs on non-dungeon income", () => {
+    expect(
+      normalizeGoldLedger([
+        { id: "ok", recordedAt: "2026-02-26T10:00:00.000Z", source: "other", runs: 3, amount: 12.6, note: "  " },
+        { id: "bad-source", recordedAt: "2026-02-26T10:00:00.000Z", source: "raid", runs: 1, amount: 10 },
+        { id: "bad-date", recordedAt: "nope", source: "expedition", runs: 1, amount: 10 },
+        null,
+      ]),
+    ).toEqual([{ id: "ok", recordedAt: "2026-02-26T10:00:00.000Z", source: "other", runs: 0, amount: 12, note: undefined }]);
+  });
+});
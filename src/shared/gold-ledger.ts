@@ -0,0 +1,138 @@
+import { GOLD_LEDGER_LIMIT, GOLD_LEDGER_NOTE_MAX_LENGTH, GOLD_LEDGER_SUGGESTION_MIN_RUNS } from "./constants";
+import type { AppSettings, CharacterState, GoldLedgerEntry, GoldLedgerSource } from "./types";
+
+export const GOLD_LEDGER_SOURCE_LABELS: Record<GoldLedgerSource, string> = {
+  expedition: "远征副本",
+  transcendence: "超越副本",
+  other: "掉落出售/其他",
+};
+
+const RUN_SOURCE_SETTING_KEYS = {
+  expedition: "expeditionGoldPerRun",
+  transcendence: "transcendenceGoldPerRun",
+} as const;
+
+type RunSource = keyof typeof RUN_SOURCE_SETTING_KEYS;
+
+export interface GoldLedgerWeekRow {
+  cycleStartedAt: string;
+  cycleEndedAt: string | null;
+  estimated: number;
+  actual: number;
+  recordedRuns: number;
+  entryCount: number;
+}
+
+export interface GoldRateSuggestion {
+  source: RunSource;
+  settingKey: (typeof RUN_SOURCE_SETTING_KEYS)[RunSource];
+  runs: number;
+  recordedGold: number;
+  average: number;
+  current: number;
+}
+
+export function isGoldLedgerSource(value: unknown): value is GoldLedgerSource {
+  return value === "expedition" || value === "transcendence" || value === "other";
+}
+
+export function normalizeGoldLedger(raw: unknown): GoldLedgerEntry[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const entries = raw.flatMap((item): GoldLedgerEntry[] => {
+    const entity = item as Record<string, unknown> | undefined;
+    if (
+      typeof entity?.id !== "string" ||
+      typeof entity.recordedAt !== "string" ||
+      Number.isNaN(new Date(entity.recordedAt).getTime()) ||
+      !isGoldLedgerSource(entity.source) ||
+      typeof entity.amount !== "number" ||
+      !Number.isFinite(entity.amount)
+    ) {
+      return [];
+    }
+    const note = typeof entity.note === "string" ? entity.note.trim().slice(0, GOLD_LEDGER_NOTE_MAX_LENGTH) : "";
+    return [
+      {
+        id: entity.id,
+        recordedAt: entity.recordedAt,
+        source: entity.source,
+        runs:
+          entity.source !== "other" && typeof entity.runs === "number" && Number.isFinite(entity.runs)
+            ? Math.max(0, Math.floor(entity.runs))
+            : 0,
+        amount: Math.max(0, Math.floor(entity.amount)),
+        note: note || undefined,
+      },
+    ];
+  });
+  return entries.slice(-GOLD_LEDGER_LIMIT);
+}
+
+function sumEntries(entries: readonly GoldLedgerEntry[], from: number, to: number | null): { actual: number; runs: number; count: number } {
+  return entries.reduce(
+    (acc, entry) => {
+      const at = new Date(entry.recordedAt).getTime();
+      if (at < from || (to !== null && at >= to)) {
+        return acc;
+      }
+      return { actual: acc.actual + entry.amount, runs: acc.runs + entry.runs, count: acc.count + 1 };
+    },
+    { actual: 0, runs: 0, count: 0 },
+  );
+}
+
+export function buildGoldLedgerWeeks(character: CharacterState): GoldLedgerWeekRow[] {
+  const current = sumEntries(character.goldLedger, new Date(character.stats.cycleStartedAt).getTime(), null);
+  const archived = [...character.statsHistory].reverse().map((week): GoldLedgerWeekRow => {
+    const totals = sumEntries(
+      character.goldLedger,
+      new Date(week.cycleStartedAt).getTime(),
+      new Date(week.cycleEndedAt).getTime(),
+    );
+    return {
+      cycleStartedAt: week.cycleStartedAt,
+      cycleEndedAt: week.cycleEndedAt,
+      estimated: week.goldEarned,
+      actual: totals.actual,
+      recordedRuns: totals.runs,
+      entryCount: totals.count,
+    };
+  });
+  return [
+    {
+      cycleStartedAt: character.stats.cycleStartedAt,
+      cycleEndedAt: null,
+      estimated: character.stats.goldEarned,
+      actual: current.actual,
+      recordedRuns: current.runs,
+      entryCount: current.count,
+    },
+    ...archived,
+  ];
+}
+
+// Only entries that name how many runs they cover can be turned into a per-run rate; drop sales stay out.
+export function buildGoldRateSuggestions(characters: readonly CharacterState[], settings: AppSettings): GoldRateSuggestion[] {
+  return (Object.keys(RUN_SOURCE_SETTING_KEYS) as RunSource[]).flatMap((source): GoldRateSuggestion[] => {
+    const totals = characters
+      .flatMap((character) => character.goldLedger)
+      .filter((entry) => entry.source === source && entry.runs > 0)
+      .reduce((acc, entry) => ({ runs: acc.runs + entry.runs, gold: acc.gold + entry.amount }), { runs: 0, gold: 0 });
+    if (totals.runs < GOLD_LEDGER_SUGGESTION_MIN_RUNS) {
+      return [];
+    }
+    const settingKey = RUN_SOURCE_SETTING_KEYS[source];
+    return [
+      {
+        source,
+        settingKey,
+        runs: totals.runs,
+        recordedGold: totals.gold,
+        average: Math.round(totals.gold / totals.runs),
+        current: settings[settingKey],
+      },
+    ];
+  });
+}
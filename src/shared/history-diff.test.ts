@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, createDefaultAccount, createDefaultCharacter } from "./constants";
+import { describeHistoryEntryChanges, findHistoryRevertConflict, getHistoryEntryTouchedKeys } from "./history-diff";
+import { DEFAULT_SEASON_RULE_SET } from "./season-rules";
+import type { AppState, OperationLogEntry } from "./types";
+
+const NOW = "2026-02-26T00:00:00.000Z";
+
+function appState(): AppState {
+  const character = createDefaultCharacter("角色A", NOW, "char-a", "acc-1");
+  return {
+    version: 10,
+    selectedAccountId: "acc-1",
+    selectedCharacterId: "char-a",
+    settings: DEFAULT_SETTINGS,
+    seasonRules: DEFAULT_SEASON_RULE_SET,
+    scheduledSeasonRules: null,
+    customTasks: [],
+    events: [],
+    accounts: [createDefaultAccount("账号1", "acc-1")],
+    characters: [character],
+    history: [],
+    redoHistory: [],
+  };
+}
+
+function entry(id: string, action: string, beforeDelta: OperationLogEntry["beforeDelta"]): OperationLogEntry {
+  return { id, at: NOW, action, characterId: null, beforeDelta };
+}
+
+describe("shared/history-diff", () => {
+  it("collects touched keys and detects later conflicts", () => {
+    const state = appState();
+    const history = [
+      entry("h1", "修改设置", { settings: { ...DEFAULT_SETTINGS, expeditionGoldPerRun: 1 } }),
+      entry("h2", "修改角色", { characterChanges: [{ id: "char-a", before: state.characters[0] }] }),
+      entry("h3", "再次修改设置", { settings: DEFAULT_SETTINGS, selectedCharacterId: null }),
+    ];
+
+    expect(getHistoryEntryTouchedKeys(history[1])).toEqual(["character:char-a"]);
+    expect(getHistoryEntryTouchedKeys({ id: "s", at: NOW, action: "快照", characterId: null, before: state })).toBeNull();
+    expect(findHistoryRevertConflict(history, 0)).toBe("之后的「再次修改设置」修改了相同的数据");
+    expect(findHistoryRevertConflict(history, 1)).toBeNull();
+  });
+
+  it("describes field changes against the next recorded value", () => {
+    const state = appState();
+    const before = structuredClone(state.characters[0]);
+    before.name = "旧名";
+    before.energy.baseCurrent = 10;
+    const history = [entry("h1", "修改角色", { characterChanges: [{ id: "char-a", before }] })];
+
+    const diff = describeHistoryEntryChanges(history, 0, state);
+    expect(diff.lines).toContainEqual({ label: "角色A · 名称", before: "旧名", after: "角色A" });
+    expect(diff.lines).toContainEqual({
+      label: "角色A · 奥德能量.baseCurrent",
+      before: "10",
+      after: String(state.characters[0].energy.baseCurrent),
+    });
+
+    const limited = describeHistoryEntryChanges(history, 0, state, 1);
+    expect(limited.lines).toHaveLength(1);
+    expect(limited.hiddenCount).toBe(1);
+  });
+});
@@ -0,0 +1,248 @@
+import type { AppState, AppStateSnapshot, CharacterState, OperationLogEntry } from "./types";
+
+export interface HistoryChangeLine {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface HistoryEntryDiff {
+  lines: HistoryChangeLine[];
+  hiddenCount: number;
+}
+
+type SectionKey = "settings" | "seasonRules" | "scheduledSeasonRules" | "customTasks" | "events" | "accounts";
+
+const SECTION_KEYS: readonly SectionKey[] = [
+  "settings",
+  "seasonRules",
+  "scheduledSeasonRules",
+  "customTasks",
+  "events",
+  "accounts",
+];
+
+const SECTION_LABELS: Record<SectionKey | "characterOrder", string> = {
+  settings: "设置",
+  seasonRules: "赛季规则",
+  scheduledSeasonRules: "定时赛季规则",
+  customTasks: "自定义任务",
+  events: "限时活动",
+  accounts: "账号",
+  characterOrder: "角色排序",
+};
+
+const CHARACTER_FIELD_LABELS: Record<string, string> = {
+  name: "名称",
+  accountId: "所属账号",
+  isStarred: "星标",
+  classTag: "职业",
+  gearScore: "装分",
+  tags: "标签",
+  energy: "奥德能量",
+  aodePlan: "奥德计划",
+  missions: "任务",
+  activities: "副本",
+  stats: "周统计",
+  statsHistory: "周统计归档",
+  goldLedger: "金币账本",
+  customProgress: "自定义任务",
+  eventProgress: "活动进度",
+};
+
+const CHARACTER_IGNORED_FIELDS = new Set(["meta", "avatarSeed"]);
+const VALUE_PREVIEW_LENGTH = 40;
+const CHARACTER_KEY_PREFIX = "character:";
+
+function hasOwn(entity: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(entity, key);
+}
+
+function jsonEquals(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+export function getHistoryEntryTouchedKeys(entry: OperationLogEntry): string[] | null {
+  const delta = entry.beforeDelta;
+  if (!delta) {
+    return null;
+  }
+  const keys: string[] = SECTION_KEYS.filter((key) => hasOwn(delta, key));
+  (delta.characterChanges ?? []).forEach((change) => keys.push(`${CHARACTER_KEY_PREFIX}${change.id}`));
+  if (delta.characterOrder && delta.characterOrder.length > 0) {
+    keys.push("characterOrder");
+  }
+  return keys;
+}
+
+function readSnapshotValue(snapshot: AppStateSnapshot | AppState, key: string): unknown {
+  if (key.startsWith(CHARACTER_KEY_PREFIX)) {
+    const id = key.slice(CHARACTER_KEY_PREFIX.length);
+    return snapshot.characters.find((item) => item.id === id) ?? null;
+  }
+  if (key === "characterOrder") {
+    return snapshot.characters.map((item) => item.id);
+  }
+  return (snapshot as unknown as Record<string, unknown>)[key];
+}
+
+function readEntryBeforeValue(entry: OperationLogEntry, key: string): { found: boolean; value: unknown } {
+  const delta = entry.beforeDelta;
+  if (delta) {
+    if (key.startsWith(CHARACTER_KEY_PREFIX)) {
+      const id = key.slice(CHARACTER_KEY_PREFIX.length);
+      const change = (delta.characterChanges ?? []).find((item) => item.id === id);
+      return change ? { found: true, value: change.before } : { found: false, value: undefined };
+    }
+    if (key === "characterOrder") {
+      return delta.characterOrder ? { found: true, value: delta.characterOrder } : { found: false, value: undefined };
+    }
+    return hasOwn(delta, key)
+      ? { found: true, value: (delta as Record<string, unknown>)[key] }
+      : { found: false, value: undefined };
+  }
+  if (entry.before) {
+    return { found: true, value: readSnapshotValue(entry.before, key) };
+  }
+  return { found: false, value: undefined };
+}
+
+export function findHistoryRevertConflict(history: readonly OperationLogEntry[], index: number): string | null {
+  const entry = history[index];
+  if (!entry) {
+    return "操作记录不存在";
+  }
+  const touched = getHistoryEntryTouchedKeys(entry);
+  const later = history.slice(index + 1);
+  if (!touched) {
+    return later.length === 0 ? null : "该记录保存的是完整快照，只能通过撤销回退";
+  }
+  const touchedSet = new Set(touched);
+  for (const laterEntry of later) {
+    const laterKeys = getHistoryEntryTouchedKeys(laterEntry);
+    if (!laterKeys || laterKeys.some((key) => touchedSet.has(key))) {
+      return `之后的「${laterEntry.action}」修改了相同的数据`;
+    }
+  }
+  return null;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "空";
+  }
+  if (typeof value === "string") {
+    return value || "空";
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  const text = JSON.stringify(value);
+  return text.length > VALUE_PREVIEW_LENGTH ? `${text.slice(0, VALUE_PREVIEW_LENGTH)}…` : text;
+}
+
+function collectLeafChanges(prefix: string, before: unknown, after: unknown, lines: HistoryChangeLine[]): void {
+  if (jsonEquals(before, after)) {
+    return;
+  }
+  const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === "object" && !Array.isArray(value);
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => collectLeafChanges(prefix ? `${prefix}.${key}` : key, before[key], after[key], lines));
+    return;
+  }
+  const isIdentifiedList = (value: unknown): value is Array<Record<string, unknown>> =>
+    Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item.id === "string");
+  if (isIdentifiedList(before) && isIdentifiedList(after)) {
+    const beforeById = new Map(before.map((item) => [item.id as string, item]));
+    const afterById = new Map(after.map((item) => [item.id as string, item]));
+    const ids = new Set([...beforeById.keys(), ...afterById.keys()]);
+    ids.forEach((id) => {
+      const item = afterById.get(id) ?? beforeById.get(id);
+      const name = String(item?.name ?? item?.title ?? id);
+      collectLeafChanges(prefix ? `${prefix}.${name}` : name, beforeById.get(id), afterById.get(id), lines);
+    });
+    return;
+  }
+  lines.push({ label: prefix, before: formatValue(before), after: formatValue(after) });
+}
+
+function describeCharacterChange(
+  before: CharacterState | null,
+  after: CharacterState | null,
+  fallbackName: string,
+  lines: HistoryChangeLine[],
+): void {
+  const name = after?.name ?? before?.name ?? fallbackName;
+  if (!before || !after) {
+    lines.push({ label: `角色「${name}」`, before: before ? "存在" : "不存在", after: after ? "存在" : "不存在" });
+    return;
+  }
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.forEach((field) => {
+    if (CHARACTER_IGNORED_FIELDS.has(field)) {
+      return;
+    }
+    const fieldLabel = CHARACTER_FIELD_LABELS[field] ?? field;
+    const fieldLines: HistoryChangeLine[] = [];
+    collectLeafChanges("", (before as unknown as Record<string, unknown>)[field], (after as unknown as Record<string, unknown>)[field], fieldLines);
+    fieldLines.forEach((line) => {
+      lines.push({ ...line, label: `${name} · ${fieldLabel}${line.label ? `.${line.label}` : ""}` });
+    });
+  });
+}
+
+export function describeHistoryEntryChanges(
+  history: readonly OperationLogEntry[],
+  index: number,
+  current: AppState,
+  maxLines = 8,
+): HistoryEntryDiff {
+  const entry = history[index];
+  const touched = entry ? getHistoryEntryTouchedKeys(entry) : null;
+  if (!entry || !touched) {
+    return { lines: [], hiddenCount: 0 };
+  }
+
+  const later = history.slice(index + 1);
+  const resolveAfter = (key: string): unknown => {
+    for (const laterEntry of later) {
+      const value = readEntryBeforeValue(laterEntry, key);
+      if (value.found) {
+        return value.value;
+      }
+    }
+    return readSnapshotValue(current, key);
+  };
+
+  const lines: HistoryChangeLine[] = [];
+  touched.forEach((key) => {
+    const before = readEntryBeforeValue(entry, key).value;
+    const after = resolveAfter(key);
+    if (key.startsWith(CHARACTER_KEY_PREFIX)) {
+      describeCharacterChange(
+        (before ?? null) as CharacterState | null,
+        (after ?? null) as CharacterState | null,
+        key.slice(CHARACTER_KEY_PREFIX.length, CHARACTER_KEY_PREFIX.length + 6),
+        lines,
+      );
+      return;
+    }
+    const sectionLabel = SECTION_LABELS[key as SectionKey | "characterOrder"] ?? key;
+    if (key === "characterOrder") {
+      lines.push({ label: sectionLabel, before: "原顺序", after: "新顺序" });
+      return;
+    }
+    const sectionLines: HistoryChangeLine[] = [];
+    collectLeafChanges("", before, after, sectionLines);
+    sectionLines.forEach((line) => {
+      lines.push({ ...line, label: line.label ? `${sectionLabel} · ${line.label}` : sectionLabel });
+    });
+  });
+
+  return {
+    lines: lines.slice(0, maxLines),
+    hiddenCount: Math.max(0, lines.length - maxLines),
+  };
+}
@@ -5,9 +5,25 @@ import type {
   AppUpdateCheckResult,
   AppSettings,
   AppState,
+  ApplyEventProgressInput,
+  ApplyImportSelectionInput,
+  ApplyBatchTaskActionInput,
+  ApplyBatchTaskActionResult,
   ApplyTaskActionInput,
+  CustomTaskId,
+  ExportDataOptions,
   ExportDataResult,
   ImportDataResult,
+  ImportPreviewResult,
+  ImportProfileInput,
+  ImportProfileResult,
+  OperationJournalQuery,
+  OperationJournalQueryResult,
+  ProfileListResult,
+  RestorePoint,
+  RecordGoldIncomeInput,
+  TransferTicketsInput,
+  UnlockImportInput,
   WorkshopCatalogImportFromFileInput,
   WorkshopCatalogImportResult,
   WorkshopCraftOption,
@@ -30,6 +46,8 @@ import type {
   WorkshopScreenCaptureOptions,
   WorkshopScreenPreviewResult,
   WorkshopState,
+  UpsertCustomTaskInput,
+  UpsertEventInput,
   UpsertWorkshopInventoryInput,
   UpsertWorkshopItemInput,
   UpsertWorkshopRecipeInput,
@@ -93,28 +111,87 @@ export const IPC_INVOKE_SPECS = {
   checkStartupAppUpdate: noPayloadSpec<AppUpdateCheckResult>(IPC_CHANNELS.checkStartupAppUpdate),
   resetWeeklyStats: noPayloadSpec<AppState>(IPC_CHANNELS.resetWeeklyStats),
   undoOperations: defineInvokeSpec<[steps?: number], { steps: number }, AppState>(IPC_CHANNELS.undoOperations, (steps = 1) => ({ steps })),
+  redoOperations: defineInvokeSpec<[steps?: number], { steps: number }, AppState>(IPC_CHANNELS.redoOperations, (steps = 1) => ({ steps })),
+  revertOperation: defineInvokeSpec<[entryId: string], { entryId: string }, AppState>(
+    IPC_CHANNELS.revertOperation,
+    (entryId) => ({ entryId }),
+  ),
   clearHistory: noPayloadSpec<AppState>(IPC_CHANNELS.clearHistory),
   updateSettings: defineInvokeSpec<[settings: Partial<AppSettings>], { settings: Partial<AppSettings> }, AppState>(
     IPC_CHANNELS.updateSettings,
     (settings) => ({ settings }),
   ),
-  exportData: noPayloadSpec<ExportDataResult>(IPC_CHANNELS.exportData),
+  exportData: defineInvokeSpec<[options?: ExportDataOptions], ExportDataOptions, ExportDataResult>(
+    IPC_CHANNELS.exportData,
+    (options = {}) => options,
+  ),
   importData: noPayloadSpec<ImportDataResult>(IPC_CHANNELS.importData),
+  previewImportData: noPayloadSpec<ImportPreviewResult>(IPC_CHANNELS.previewImportData),
+  unlockImportData: passthroughPayloadSpec<UnlockImportInput, ImportPreviewResult>(IPC_CHANNELS.unlockImportData),
+  applyImportSelection: passthroughPayloadSpec<ApplyImportSelectionInput, AppState>(IPC_CHANNELS.applyImportSelection),
+  listRestorePoints: noPayloadSpec<RestorePoint[]>(IPC_CHANNELS.listRestorePoints),
+  previewRestorePoint: defineInvokeSpec<[fileName: string], { fileName: string }, ImportPreviewResult>(
+    IPC_CHANNELS.previewRestorePoint,
+    (fileName) => ({ fileName }),
+  ),
+  queryOperationJournal: passthroughPayloadSpec<OperationJournalQuery, OperationJournalQueryResult>(
+    IPC_CHANNELS.queryOperationJournal,
+  ),
+  exportOperationJournal: passthroughPayloadSpec<OperationJournalQuery, ExportDataResult>(IPC_CHANNELS.exportOperationJournal),
+  listProfiles: noPayloadSpec<ProfileListResult>(IPC_CHANNELS.listProfiles),
+  switchProfile: defineInvokeSpec<[profileId: string], { profileId: string }, ProfileListResult>(
+    IPC_CHANNELS.switchProfile,
+    (profileId) => ({ profileId }),
+  ),
+  createProfile: defineInvokeSpec<[name: string], { name: string }, ProfileListResult>(IPC_CHANNELS.createProfile, (name) => ({
+    name,
+  })),
+  renameProfile: defineInvokeSpec<[profileId: string, name: string], { profileId: string; name: string }, ProfileListResult>(
+    IPC_CHANNELS.renameProfile,
+    (profileId, name) => ({ profileId, name }),
+  ),
+  deleteProfile: defineInvokeSpec<[profileId: string], { profileId: string }, ProfileListResult>(
+    IPC_CHANNELS.deleteProfile,
+    (profileId) => ({ profileId }),
+  ),
+  importProfile: passthroughPayloadSpec<ImportProfileInput, ImportProfileResult>(IPC_CHANNELS.importProfile),
+  exportWeeklyPlan: noPayloadSpec<ExportDataResult>(IPC_CHANNELS.exportWeeklyPlan),
+  importSeasonRules: defineInvokeSpec<[effectiveAt?: string], { effectiveAt?: string }, ImportDataResult>(
+    IPC_CHANNELS.importSeasonRules,
+    (effectiveAt) => ({ effectiveAt }),
+  ),
+  resetSeasonRules: noPayloadSpec<AppState>(IPC_CHANNELS.resetSeasonRules),
+  cancelScheduledSeasonRules: noPayloadSpec<AppState>(IPC_CHANNELS.cancelScheduledSeasonRules),
   addAccount: defineInvokeSpec<[name: string, regionTag?: string], { name: string; regionTag?: string }, AppState>(
     IPC_CHANNELS.addAccount,
     (name, regionTag) => ({ name, regionTag }),
   ),
   renameAccount: defineInvokeSpec<
-    [accountId: string, name: string, regionTag?: string],
-    { accountId: string; name: string; regionTag?: string },
+    [accountId: string, name: string, regionTag?: string, tags?: string[]],
+    { accountId: string; name: string; regionTag?: string; tags?: string[] },
     AppState
-  >(IPC_CHANNELS.renameAccount, (accountId, name, regionTag) => ({ accountId, name, regionTag })),
+  >(IPC_CHANNELS.renameAccount, (accountId, name, regionTag, tags) => ({ accountId, name, regionTag, tags })),
   deleteAccount: defineInvokeSpec<[accountId: string], { accountId: string }, AppState>(IPC_CHANNELS.deleteAccount, (accountId) => ({ accountId })),
   selectAccount: defineInvokeSpec<[accountId: string], { accountId: string }, AppState>(IPC_CHANNELS.selectAccount, (accountId) => ({ accountId })),
-  addCharacter: defineInvokeSpec<[name: string, accountId?: string], { name: string; accountId?: string }, AppState>(
-    IPC_CHANNELS.addCharacter,
-    (name, accountId) => ({ name, accountId }),
+  addAccountServer: defineInvokeSpec<
+    [accountId: string, name: string, characterSlots?: number],
+    { accountId: string; name: string; characterSlots?: number },
+    AppState
+  >(IPC_CHANNELS.addAccountServer, (accountId, name, characterSlots) => ({ accountId, name, characterSlots })),
+  updateAccountServer: defineInvokeSpec<
+    [accountId: string, serverId: string, name: string, characterSlots?: number],
+    { accountId: string; serverId: string; name: string; characterSlots?: number },
+    AppState
+  >(IPC_CHANNELS.updateAccountServer, (accountId, serverId, name, characterSlots) => ({ accountId, serverId, name, characterSlots })),
+  deleteAccountServer: defineInvokeSpec<[accountId: string, serverId: string], { accountId: string; serverId: string }, AppState>(
+    IPC_CHANNELS.deleteAccountServer,
+    (accountId, serverId) => ({ accountId, serverId }),
   ),
+  addCharacter: defineInvokeSpec<
+    [name: string, accountId?: string, serverId?: string],
+    { name: string; accountId?: string; serverId?: string },
+    AppState
+  >(IPC_CHANNELS.addCharacter, (name, accountId, serverId) => ({ name, accountId, serverId })),
   renameCharacter: defineInvokeSpec<[characterId: string, name: string], { characterId: string; name: string }, AppState>(
     IPC_CHANNELS.renameCharacter,
     (characterId, name) => ({ characterId, name }),
@@ -132,15 +209,32 @@ export const IPC_INVOKE_SPECS = {
     (characterId, isStarred) => ({ characterId, isStarred }),
   ),
   updateCharacterProfile: defineInvokeSpec<
-    [characterId: string, payload: { classTag?: string | null; gearScore?: number | null }],
-    { characterId: string; classTag?: string | null; gearScore?: number | null },
+    [characterId: string, payload: { classTag?: string | null; gearScore?: number | null; tags?: string[] }],
+    { characterId: string; classTag?: string | null; gearScore?: number | null; tags?: string[] },
     AppState
   >(IPC_CHANNELS.updateCharacterProfile, (characterId, payload) => ({ characterId, ...payload })),
   reorderCharacters: defineInvokeSpec<[characterIds: string[]], { characterIds: string[] }, AppState>(
     IPC_CHANNELS.reorderCharacters,
     (characterIds) => ({ characterIds }),
   ),
+  moveCharacterServer: defineInvokeSpec<[characterId: string, serverId: string], { characterId: string; serverId: string }, AppState>(
+    IPC_CHANNELS.moveCharacterServer,
+    (characterId, serverId) => ({ characterId, serverId }),
+  ),
   applyTaskAction: passthroughPayloadSpec<ApplyTaskActionInput, AppState>(IPC_CHANNELS.applyTaskAction),
+  applyBatchTaskAction: passthroughPayloadSpec<ApplyBatchTaskActionInput, ApplyBatchTaskActionResult>(
+    IPC_CHANNELS.applyBatchTaskAction,
+  ),
+  upsertCustomTask: passthroughPayloadSpec<UpsertCustomTaskInput, AppState>(IPC_CHANNELS.upsertCustomTask),
+  deleteCustomTask: defineInvokeSpec<[taskId: CustomTaskId], { taskId: CustomTaskId }, AppState>(
+    IPC_CHANNELS.deleteCustomTask,
+    (taskId) => ({ taskId }),
+  ),
+  upsertEvent: passthroughPayloadSpec<UpsertEventInput, AppState>(IPC_CHANNELS.upsertEvent),
+  deleteEvent: defineInvokeSpec<[eventId: string], { eventId: string }, AppState>(IPC_CHANNELS.deleteEvent, (eventId) => ({
+    eventId,
+  })),
+  applyEventProgress: passthroughPayloadSpec<ApplyEventProgressInput, AppState>(IPC_CHANNELS.applyEventProgress),
   applyCorridorCompletion: defineInvokeSpec<
     [characterId: string, lane: "lower" | "middle", completed: number],
     { characterId: string; lane: "lower" | "middle"; completed: number },
@@ -260,6 +354,13 @@ export const IPC_INVOKE_SPECS = {
     },
     AppState
   >(IPC_CHANNELS.updateAodePlan, (characterId, payload) => ({ characterId, ...payload })),
+  transferTickets: passthroughPayloadSpec<TransferTicketsInput, AppState>(IPC_CHANNELS.transferTickets),
+  recordGoldIncome: passthroughPayloadSpec<RecordGoldIncomeInput, AppState>(IPC_CHANNELS.recordGoldIncome),
+  deleteGoldLedgerEntry: defineInvokeSpec<
+    [characterId: string, entryId: string],
+    { characterId: string; entryId: string },
+    AppState
+  >(IPC_CHANNELS.deleteGoldLedgerEntry, (characterId, entryId) => ({ characterId, entryId })),
   getWorkshopState: noPayloadSpec<WorkshopState>(IPC_CHANNELS.getWorkshopState),
   upsertWorkshopItem: passthroughPayloadSpec<UpsertWorkshopItemInput, WorkshopState>(IPC_CHANNELS.upsertWorkshopItem),
   deleteWorkshopItem: defineInvokeSpec<[itemId: string], { itemId: string }, WorkshopState>(IPC_CHANNELS.deleteWorkshopItem, (itemId) => ({ itemId })),
@@ -5,14 +5,41 @@ export const IPC_CHANNELS = {
   checkStartupAppUpdate: "app:check-startup-update",
   resetWeeklyStats: "app:reset-weekly-stats",
   undoOperations: "app:undo-operations",
+  redoOperations: "app:redo-operations",
+  revertOperation: "app:revert-operation",
   clearHistory: "app:clear-history",
   updateSettings: "app:update-settings",
   exportData: "app:export-data",
   importData: "app:import-data",
+  previewImportData: "app:preview-import-data",
+  unlockImportData: "app:unlock-import-data",
+  applyImportSelection: "app:apply-import-selection",
+  listRestorePoints: "backup:list-restore-points",
+  previewRestorePoint: "backup:preview-restore-point",
+  queryOperationJournal: "journal:query",
+  exportOperationJournal: "journal:export-csv",
+  listProfiles: "profile:list",
+  switchProfile: "profile:switch",
+  createProfile: "profile:create",
+  renameProfile: "profile:rename",
+  deleteProfile: "profile:delete",
+  importProfile: "profile:import",
+  exportWeeklyPlan: "app:export-weekly-plan",
+  importSeasonRules: "app:import-season-rules",
+  resetSeasonRules: "app:reset-season-rules",
+  cancelScheduledSeasonRules: "app:cancel-scheduled-season-rules",
+  upsertCustomTask: "task:upsert-custom",
+  deleteCustomTask: "task:delete-custom",
+  upsertEvent: "event:upsert",
+  deleteEvent: "event:delete",
+  applyEventProgress: "event:apply-progress",
   addAccount: "account:add",
   renameAccount: "account:rename",
   deleteAccount: "account:delete",
   selectAccount: "account:select",
+  addAccountServer: "account:add-server",
+  updateAccountServer: "account:update-server",
+  deleteAccountServer: "account:delete-server",
   addCharacter: "character:add",
   renameCharacter: "character:rename",
   deleteCharacter: "character:delete",
@@ -20,7 +47,9 @@ export const IPC_CHANNELS = {
   setCharacterStar: "character:set-star",
   updateCharacterProfile: "character:update-profile",
   reorderCharacters: "character:reorder",
+  moveCharacterServer: "character:move-server",
   applyTaskAction: "task:apply-action",
+  applyBatchTaskAction: "task:apply-batch-action",
   updateArtifactStatus: "character:update-artifact",
   applyCorridorCompletion: "character:apply-corridor-completion",
   setCorridorCompleted: "character:set-corridor-completed",
@@ -28,6 +57,9 @@ export const IPC_CHANNELS = {
   updateRaidCounts: "character:update-raid-counts",
   updateWeeklyCompletions: "character:update-weekly-completions",
   updateAodePlan: "character:update-aode-plan",
+  transferTickets: "character:transfer-tickets",
+  recordGoldIncome: "character:record-gold-income",
+  deleteGoldLedgerEntry: "character:delete-gold-ledger-entry",
   getWorkshopState: "workshop:get-state",
   upsertWorkshopItem: "workshop:upsert-item",
   deleteWorkshopItem: "workshop:delete-item",
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS } from "./constants";
+import {
+  DEFAULT_PRIORITY_RULES,
+  buildPriorityTodos,
+  describePriorityScore,
+  type PriorityTodoRow,
+  type PriorityTodoRule,
+} from "./priority-todo";
+import { getNextWeeklyReset } from "./time";
+
+const HOUR_MS = 3_600_000;
+
+function createRow(id: string, patch: Partial<PriorityTodoRow> = {}): PriorityTodoRow {
+  return {
+    character: { id, name: id, isStarred: false },
+    account: { name: "账号" },
+    aodeBaseEnergyOverflow: false,
+    aodeBaseEnergyCurrent: 0,
+    aodeBaseEnergyCap: 840,
+    sanctumRaidChallengeCurrent: 0,
+    sanctumRaidChallengeTotal: 4,
+    sanctumRaidBoxCurrent: 0,
+    sanctumRaidBoxTotal: 2,
+    sanctumPurifyChallengeCurrent: 0,
+    sanctumPurifyChallengeTotal: 4,
+    sanctumPurifyBoxCurrent: 0,
+    sanctumPurifyBoxTotal: 2,
+    corridorLowerCurrent: 0,
+    corridorLowerTotal: 3,
+    corridorMiddleCurrent: 0,
+    corridorMiddleTotal: 3,
+    dailyMissionCurrent: 0,
+    dailyMissionTotal: 5,
+    weeklyMissionCurrent: 0,
+    weeklyMissionTotal: 12,
+    awakeningCurrent: 0,
+    awakeningTotal: 3,
+    expeditionCurrent: 0,
+    expeditionTotal: 21,
+    transcendenceCurrent: 0,
+    transcendenceTotal: 14,
+    nightmareCurrent: 0,
+    nightmareTotal: 14,
+    dailyDungeonCurrent: 0,
+    dailyDungeonTotal: 7,
+    miniGameCurrent: 0,
+    miniGameTotal: 14,
+    spiritCurrent: 0,
+    spiritTotal: 7,
+    aodeShopAodePurchaseRemaining: 0,
+    aodeShopPurchaseLimit: 20,
+    aodeShopUnknownChallengeTicketRemaining: 0,
+    aodeShopExpeditionChoiceBoxRemaining: 0,
+    aodeShopNightmareInstantRemaining: 0,
+    aodeShopAbyssReplenishRemaining: 0,
+    aodeTransformAodeRemaining: 0,
+    aodeTransformLimit: 20,
+    customTaskCounters: [],
+    ...patch,
+  };
+}
+
+describe("shared/priority-todo", () => {
+  it("applies preference weights and the star bonus before ranking", () => {
+    const now = new Date(2026, 1, 20, 12, 0, 0);
+    const starred = createRow("甲", { expeditionCurrent: 3 });
+    starred.character.isStarred = true;
+    const plain = createRow("乙", { miniGameCurrent: 2 });
+
+    const items = buildPriorityTodos([plain, starred], { ...DEFAULT_SETTINGS, priorityWeightDungeon: 4 }, now);
+
+    expect(items.map((item) => [item.id, item.score])).toEqual([
+      ["甲-expedition", 35 + Math.round(823 * 1.2)],
+      ["乙-mini-game", 242],
+    ]);
+    expect(items[0].breakdown).toEqual({ base: 823, deadlineBonus: 0, weightFactor: 1.2, starBonus: 35 });
+    expect(items[0].subtitle).toBe("★ 甲 · 账号");
+  });
+
+  it("surfaces weekly items inside the due window and raises them as the reset approaches", () => {
+    const reset = getNextWeeklyReset(new Date(2026, 1, 20, 12, 0, 0));
+    const row = createRow("甲", { awakeningCurrent: 2 });
+    const at = (hoursBefore: number) =>
+      buildPriorityTodos([row], DEFAULT_SETTINGS, new Date(reset.getTime() - hoursBefore * HOUR_MS));
+
+    expect(at(60)).toEqual([]);
+    const early = at(40)[0];
+    const late = at(2)[0];
+    expect(early.title).toBe("觉醒战（周刷新前）");
+    expect(early.breakdown.deadlineBonus).toBe(10);
+    expect(late.breakdown.deadlineBonus).toBe(58);
+    expect(late.score - early.score).toBe(48);
+  });
+
+  it("runs custom rules alongside the defaults and explains the score", () => {
+    const rule: PriorityTodoRule = {
+      id: "guild",
+      collect: (row) => [
+        { key: "guild", title: "公会捐献", detail: row.character.name, baseScore: 990, tone: "high", weightKey: "leisure" },
+      ],
+    };
+    const now = new Date(2026, 1, 20, 12, 0, 0);
+    const items = buildPriorityTodos([createRow("甲", { miniGameCurrent: 1 })], { ...DEFAULT_SETTINGS, priorityWeightLeisure: 2 }, now, {
+      rules: [...DEFAULT_PRIORITY_RULES, rule],
+    });
+
+    expect(items.map((item) => item.id)).toEqual(["甲-guild", "甲-mini-game"]);
+    expect(describePriorityScore(items[0])).toBe("基础 990，权重 ×0.85 = 842");
+  });
+});
@@ -0,0 +1,530 @@
+import {
+  ABYSS_REPLENISH_TICKET_SERVER_LIMIT,
+  AODE_BASE_ENERGY_OVERFLOW_WARN_THRESHOLD,
+  EXPEDITION_CHOICE_BOX_SERVER_LIMIT,
+  NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT,
+  PRIORITY_DAILY_DUE_WINDOW_HOURS,
+  PRIORITY_DEADLINE_BONUS_MAX,
+  PRIORITY_STAR_BONUS,
+  PRIORITY_TODO_LIMIT,
+  PRIORITY_WEEKLY_DUE_WINDOW_HOURS,
+  UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT,
+} from "./constants";
+import { formatDuration, getNextDailyReset, getNextWeeklyReset, type ServerTimeZone } from "./time";
+import type { AccountState, AppSettings, CharacterState, CustomTaskDefinition, EventDefinition } from "./types";
+
+export type PriorityTone = "high" | "medium" | "low";
+export type PriorityWeightKey = "aode" | "sanctum" | "corridor" | "dungeon" | "weekly" | "mission" | "leisure";
+export type PriorityDeadline = "daily" | "weekly";
+
+export interface PriorityTodoRow {
+  character: Pick<CharacterState, "id" | "name" | "isStarred">;
+  account: Pick<AccountState, "name">;
+  aodeBaseEnergyOverflow: boolean;
+  aodeBaseEnergyCurrent: number;
+  aodeBaseEnergyCap: number;
+  sanctumRaidChallengeCurrent: number;
+  sanctumRaidChallengeTotal: number;
+  sanctumRaidBoxCurrent: number;
+  sanctumRaidBoxTotal: number;
+  sanctumPurifyChallengeCurrent: number;
+  sanctumPurifyChallengeTotal: number;
+  sanctumPurifyBoxCurrent: number;
+  sanctumPurifyBoxTotal: number;
+  corridorLowerCurrent: number;
+  corridorLowerTotal: number;
+  corridorMiddleCurrent: number;
+  corridorMiddleTotal: number;
+  dailyMissionCurrent: number;
+  dailyMissionTotal: number;
+  weeklyMissionCurrent: number;
+  weeklyMissionTotal: number;
+  awakeningCurrent: number;
+  awakeningTotal: number;
+  expeditionCurrent: number;
+  expeditionTotal: number;
+  transcendenceCurrent: number;
+  transcendenceTotal: number;
+  nightmareCurrent: number;
+  nightmareTotal: number;
+  dailyDungeonCurrent: number;
+  dailyDungeonTotal: number;
+  miniGameCurrent: number;
+  miniGameTotal: number;
+  spiritCurrent: number;
+  spiritTotal: number;
+  aodeShopAodePurchaseRemaining: number;
+  aodeShopPurchaseLimit: number;
+  aodeShopUnknownChallengeTicketRemaining: number;
+  aodeShopExpeditionChoiceBoxRemaining: number;
+  aodeShopNightmareInstantRemaining: number;
+  aodeShopAbyssReplenishRemaining: number;
+  aodeTransformAodeRemaining: number;
+  aodeTransformLimit: number;
+  customTaskCounters: Array<{
+    task: Pick<CustomTaskDefinition, "id" | "title" | "category" | "resetCadence">;
+    current: number;
+    total: number;
+  }>;
+}
+
+export interface PriorityTodoEvent {
+  event: Pick<EventDefinition, "id" | "title">;
+  endsInMs: number;
+  endingSoon: boolean;
+  rows: Array<{
+    characterId: string;
+    remaining: number;
+    counters: Array<{ label: string; current: number; total: number }>;
+  }>;
+}
+
+export interface PriorityTodoContext {
+  now: Date;
+  nextDailyReset: Date;
+  nextWeeklyReset: Date;
+  weeklyDueWindow: boolean;
+  events: readonly PriorityTodoEvent[];
+}
+
+export interface PriorityTodoCandidate {
+  key: string;
+  title: string;
+  detail: string;
+  baseScore: number;
+  tone: PriorityTone;
+  weightKey: PriorityWeightKey;
+  deadline?: PriorityDeadline;
+}
+
+export interface PriorityTodoRule {
+  id: string;
+  collect: (row: PriorityTodoRow, context: PriorityTodoContext) => PriorityTodoCandidate[];
+}
+
+export interface PriorityScoreBreakdown {
+  base: number;
+  deadlineBonus: number;
+  weightFactor: number;
+  starBonus: number;
+}
+
+export interface PriorityTodoItem {
+  id: string;
+  title: string;
+  subtitle: string;
+  detail: string;
+  score: number;
+  tone: PriorityTone;
+  breakdown: PriorityScoreBreakdown;
+}
+
+export interface BuildPriorityTodosOptions {
+  timeZone?: ServerTimeZone;
+  events?: readonly PriorityTodoEvent[];
+  rules?: readonly PriorityTodoRule[];
+  limit?: number;
+}
+
+const HOUR_MS = 3_600_000;
+
+export function formatCounter(current: number, total: number): string {
+  const safeCurrent = Math.max(0, Math.floor(current));
+  const safeTotal = Math.max(0, Math.floor(total));
+  return `${safeCurrent}/${safeTotal}`;
+}
+
+export function getPriorityWeightLevel(settings: AppSettings, key: PriorityWeightKey): number {
+  if (key === "aode") return settings.priorityWeightAode;
+  if (key === "sanctum") return settings.priorityWeightSanctum;
+  if (key === "corridor") return settings.priorityWeightCorridor;
+  if (key === "dungeon") return settings.priorityWeightDungeon;
+  if (key === "weekly") return settings.priorityWeightWeekly;
+  if (key === "mission") return settings.priorityWeightMission;
+  return settings.priorityWeightLeisure;
+}
+
+export function getPriorityWeightFactor(level: number): number {
+  if (level <= 1) return 0.7;
+  if (level === 2) return 0.85;
+  if (level === 3) return 1;
+  if (level === 4) return 1.2;
+  return 1.45;
+}
+
+export function isWeeklyDueWindow(now: Date, timeZone?: ServerTimeZone): boolean {
+  const remainMs = Math.max(0, getNextWeeklyReset(now, timeZone).getTime() - now.getTime());
+  return remainMs <= PRIORITY_WEEKLY_DUE_WINDOW_HOURS * HOUR_MS;
+}
+
+// The bonus ramps linearly from 0 at the start of the due window to the max right before the reset.
+export function getPriorityDeadlineBonus(deadline: PriorityDeadline | undefined, context: PriorityTodoContext): number {
+  if (!deadline) {
+    return 0;
+  }
+  const resetAt = deadline === "daily" ? context.nextDailyReset : context.nextWeeklyReset;
+  const windowMs = (deadline === "daily" ? PRIORITY_DAILY_DUE_WINDOW_HOURS : PRIORITY_WEEKLY_DUE_WINDOW_HOURS) * HOUR_MS;
+  const remainMs = Math.max(0, resetAt.getTime() - context.now.getTime());
+  const urgency = Math.min(1, Math.max(0, 1 - remainMs / windowMs));
+  return Math.round(urgency * PRIORITY_DEADLINE_BONUS_MAX);
+}
+
+function weeklyDue(
+  key: string,
+  title: string,
+  baseScore: number,
+  current: number,
+  detail: string,
+  context: PriorityTodoContext,
+): PriorityTodoCandidate[] {
+  if (!context.weeklyDueWindow || current <= 0) {
+    return [];
+  }
+  return [
+    { key, title: `${title}（周刷新前）`, detail, baseScore: baseScore + current, tone: "high", weightKey: "weekly", deadline: "weekly" },
+  ];
+}
+
+export const DEFAULT_PRIORITY_RULES: readonly PriorityTodoRule[] = [
+  {
+    id: "aode-overflow",
+    collect: (row) =>
+      row.aodeBaseEnergyOverflow
+        ? [
+            {
+              key: "aode-base-overflow",
+              title: "奥德能量（接近满溢）",
+              detail: `当前 ${row.aodeBaseEnergyCurrent}/${row.aodeBaseEnergyCap}（阈值>${AODE_BASE_ENERGY_OVERFLOW_WARN_THRESHOLD}），建议优先清体力`,
+              baseScore: 980 + row.aodeBaseEnergyCurrent,
+              tone: "high",
+              weightKey: "aode",
+            },
+          ]
+        : [],
+  },
+  {
+    id: "sanctum",
+    collect: (row) => {
+      const pending =
+        row.sanctumRaidChallengeCurrent + row.sanctumRaidBoxCurrent + row.sanctumPurifyChallengeCurrent + row.sanctumPurifyBoxCurrent;
+      if (pending <= 0) {
+        return [];
+      }
+      return [
+        {
+          key: "sanctum",
+          title: "圣域（周本）",
+          detail: `卢德莱 挑战 ${formatCounter(row.sanctumRaidChallengeCurrent, row.sanctumRaidChallengeTotal)} · 开箱 ${formatCounter(row.sanctumRaidBoxCurrent, row.sanctumRaidBoxTotal)}；侵蚀净化所 挑战 ${formatCounter(row.sanctumPurifyChallengeCurrent, row.sanctumPurifyChallengeTotal)} · 开箱 ${formatCounter(row.sanctumPurifyBoxCurrent, row.sanctumPurifyBoxTotal)}`,
+          baseScore: 1000 + pending,
+          tone: "high",
+          weightKey: "sanctum",
+          deadline: "weekly",
+        },
+      ];
+    },
+  },
+  {
+    id: "corridor",
+    collect: (row) => {
+      const pending = row.corridorLowerCurrent + row.corridorMiddleCurrent;
+      if (pending <= 0) {
+        return [];
+      }
+      return [
+        {
+          key: "corridor",
+          title: "深渊回廊",
+          detail: `下层 ${row.corridorLowerCurrent}/${row.corridorLowerTotal}，中层 ${row.corridorMiddleCurrent}/${row.corridorMiddleTotal}`,
+          baseScore: 950 + pending,
+          tone: "high",
+          weightKey: "corridor",
+        },
+      ];
+    },
+  },
+  {
+    id: "daily-mission",
+    collect: (row) =>
+      row.dailyMissionCurrent > 0
+        ? [
+            {
+              key: "daily-mission",
+              title: "每日 5 个使命任务",
+              detail: `剩余 ${formatCounter(row.dailyMissionCurrent, row.dailyMissionTotal)}`,
+              baseScore: 950 + row.dailyMissionCurrent,
+              tone: "high",
+              weightKey: "mission",
+              deadline: "daily",
+            },
+          ]
+        : [],
+  },
+  {
+    id: "awakening",
+    collect: (row, context) =>
+      weeklyDue(
+        "awakening-weekly-due",
+        "觉醒战",
+        1000,
+        row.awakeningCurrent,
+        `剩余 ${formatCounter(row.awakeningCurrent, row.awakeningTotal)}，${PRIORITY_WEEKLY_DUE_WINDOW_HOURS} 小时内优先清理`,
+        context,
+      ),
+  },
+  {
+    id: "expedition",
+    collect: (row) => {
+      if (row.expeditionCurrent <= 0) {
+        return [];
+      }
+      const nearCap = row.expeditionCurrent >= Math.max(1, row.expeditionTotal - 2);
+      return [
+        {
+          key: "expedition",
+          title: nearCap ? "远征（接近满次）" : "远征（清体力收益）",
+          detail: `剩余 ${formatCounter(row.expeditionCurrent, row.expeditionTotal)}`,
+          baseScore: (nearCap ? 860 : 820) + row.expeditionCurrent,
+          tone: nearCap ? "high" : "medium",
+          weightKey: "dungeon",
+        },
+      ];
+    },
+  },
+  {
+    id: "transcendence",
+    collect: (row) => {
+      if (row.transcendenceCurrent <= 0) {
+        return [];
+      }
+      const nearOverflow = row.transcendenceCurrent >= Math.max(1, row.transcendenceTotal - 1);
+      return [
+        {
+          key: "transcendence",
+          title: nearOverflow ? "超越（溢出提醒）" : "超越",
+          detail: `剩余 ${formatCounter(row.transcendenceCurrent, row.transcendenceTotal)}`,
+          baseScore: (nearOverflow ? 790 : 760) + row.transcendenceCurrent,
+          tone: "medium",
+          weightKey: "dungeon",
+        },
+      ];
+    },
+  },
+  {
+    id: "nightmare",
+    collect: (row) =>
+      row.nightmareCurrent > 0 && row.nightmareCurrent >= Math.max(1, row.nightmareTotal - 1)
+        ? [
+            {
+              key: "nightmare-overflow",
+              title: "恶梦（溢出提醒）",
+              detail: `剩余 ${formatCounter(row.nightmareCurrent, row.nightmareTotal)}`,
+              baseScore: 780 + row.nightmareCurrent,
+              tone: "medium",
+              weightKey: "weekly",
+            },
+          ]
+        : [],
+  },
+  {
+    id: "weekly-due",
+    collect: (row, context) => [
+      ...weeklyDue(
+        "daily-dungeon-weekly-due",
+        "每日副本",
+        990,
+        row.dailyDungeonCurrent,
+        `剩余 ${formatCounter(row.dailyDungeonCurrent, row.dailyDungeonTotal)}，${PRIORITY_WEEKLY_DUE_WINDOW_HOURS} 小时内优先清理`,
+        context,
+      ),
+      ...weeklyDue(
+        "weekly-order-due",
+        "每周指令",
+        985,
+        row.weeklyMissionCurrent,
+        `剩余 ${formatCounter(row.weeklyMissionCurrent, row.weeklyMissionTotal)}，${PRIORITY_WEEKLY_DUE_WINDOW_HOURS} 小时内优先完成`,
+        context,
+      ),
+    ],
+  },
+  {
+    id: "breeze-shop",
+    collect: (row, context) => [
+      ...weeklyDue(
+        "shop-aode-weekly-due",
+        "商店-奥德",
+        980,
+        row.aodeShopAodePurchaseRemaining,
+        `剩余可用 ${formatCounter(row.aodeShopAodePurchaseRemaining, row.aodeShopPurchaseLimit)}`,
+        context,
+      ),
+      ...weeklyDue(
+        "shop-unknown-ticket-weekly-due",
+        "商店-未知缝隙挑战券",
+        978,
+        row.aodeShopUnknownChallengeTicketRemaining,
+        `剩余可用 ${formatCounter(row.aodeShopUnknownChallengeTicketRemaining, UNKNOWN_CHALLENGE_TICKET_SERVER_LIMIT)}`,
+        context,
+      ),
+      ...weeklyDue(
+        "shop-expedition-box-weekly-due",
+        "商店-远征/超越箱",
+        977,
+        row.aodeShopExpeditionChoiceBoxRemaining,
+        `剩余可用 ${formatCounter(row.aodeShopExpeditionChoiceBoxRemaining, EXPEDITION_CHOICE_BOX_SERVER_LIMIT)}`,
+        context,
+      ),
+      ...weeklyDue(
+        "shop-nightmare-ticket-weekly-due",
+        "商店-恶梦完成券",
+        975,
+        row.aodeShopNightmareInstantRemaining,
+        `剩余可用 ${formatCounter(row.aodeShopNightmareInstantRemaining, NIGHTMARE_INSTANT_TICKET_SERVER_LIMIT)}`,
+        context,
+      ),
+      ...weeklyDue(
+        "shop-abyss-refill-weekly-due",
+        "商店-深渊重铸补充券",
+        974,
+        row.aodeShopAbyssReplenishRemaining,
+        `卢德莱补充券剩余 ${formatCounter(row.aodeShopAbyssReplenishRemaining, ABYSS_REPLENISH_TICKET_SERVER_LIMIT)}`,
+        context,
+      ),
+      ...weeklyDue(
+        "transform-aode-weekly-due",
+        "变换-奥德",
+        976,
+        row.aodeTransformAodeRemaining,
+        `剩余可用 ${formatCounter(row.aodeTransformAodeRemaining, row.aodeTransformLimit)}`,
+        context,
+      ),
+    ],
+  },
+  {
+    id: "custom-tasks",
+    collect: (row, context) =>
+      row.customTaskCounters.flatMap((counter): PriorityTodoCandidate[] => {
+        if (counter.current <= 0) {
+          return [];
+        }
+        const { task } = counter;
+        const due = task.resetCadence === "weekly" && context.weeklyDueWindow;
+        const score = task.resetCadence === "daily" ? 900 : due ? 970 : task.resetCadence === "weekly" ? 600 : 300;
+        return [
+          {
+            key: `custom-${task.id}`,
+            title: due ? `${task.title}（周刷新前）` : task.title,
+            detail: `剩余 ${formatCounter(counter.current, counter.total)}`,
+            baseScore: score + counter.current,
+            tone: score >= 900 ? "high" : score >= 600 ? "medium" : "low",
+            weightKey: task.category === "副本" ? "dungeon" : task.category === "使命" ? "mission" : "weekly",
+            deadline: task.resetCadence === "none" ? undefined : task.resetCadence,
+          },
+        ];
+      }),
+  },
+  {
+    id: "events",
+    collect: (row, context) =>
+      context.events.flatMap((model): PriorityTodoCandidate[] => {
+        if (!model.endingSoon) {
+          return [];
+        }
+        const eventRow = model.rows.find((item) => item.characterId === row.character.id);
+        if (!eventRow || eventRow.remaining <= 0) {
+          return [];
+        }
+        return [
+          {
+            key: `event-${model.event.id}`,
+            title: `${model.event.title}（活动即将结束）`,
+            detail: `剩余 ${eventRow.counters.map((counter) => `${counter.label} ${formatCounter(counter.current, counter.total)}`).join(" / ")}，${formatDuration(model.endsInMs)} 后结束`,
+            baseScore: 995 + eventRow.remaining,
+            tone: "high",
+            weightKey: "weekly",
+          },
+        ];
+      }),
+  },
+  {
+    id: "leisure",
+    collect: (row) => [
+      ...(row.miniGameCurrent > 0
+        ? [
+            {
+              key: "mini-game",
+              title: "小游戏（低优先）",
+              detail: `剩余 ${formatCounter(row.miniGameCurrent, row.miniGameTotal)}`,
+              baseScore: 240 + row.miniGameCurrent,
+              tone: "low" as const,
+              weightKey: "leisure" as const,
+            },
+          ]
+        : []),
+      ...(row.spiritCurrent > 0
+        ? [
+            {
+              key: "spirit-invasion",
+              title: "精灵入侵（低优先）",
+              detail: `剩余 ${formatCounter(row.spiritCurrent, row.spiritTotal)}`,
+              baseScore: 220 + row.spiritCurrent,
+              tone: "low" as const,
+              weightKey: "leisure" as const,
+            },
+          ]
+        : []),
+    ],
+  },
+];
+
+export function buildPriorityTodos(
+  rows: readonly PriorityTodoRow[],
+  settings: AppSettings,
+  now = new Date(),
+  options: BuildPriorityTodosOptions = {},
+): PriorityTodoItem[] {
+  const context: PriorityTodoContext = {
+    now,
+    nextDailyReset: getNextDailyReset(now, options.timeZone),
+    nextWeeklyReset: getNextWeeklyReset(now, options.timeZone),
+    weeklyDueWindow: isWeeklyDueWindow(now, options.timeZone),
+    events: options.events ?? [],
+  };
+  const rules = options.rules ?? DEFAULT_PRIORITY_RULES;
+  const items = rows.flatMap((row) =>
+    rules.flatMap((rule) =>
+      rule.collect(row, context).map((candidate): PriorityTodoItem => {
+        const breakdown: PriorityScoreBreakdown = {
+          base: candidate.baseScore,
+          deadlineBonus: getPriorityDeadlineBonus(candidate.deadline, context),
+          weightFactor: getPriorityWeightFactor(getPriorityWeightLevel(settings, candidate.weightKey)),
+          starBonus: row.character.isStarred ? PRIORITY_STAR_BONUS : 0,
+        };
+        return {
+          id: `${row.character.id}-${candidate.key}`,
+          title: candidate.title,
+          subtitle: `${row.character.isStarred ? "★ " : ""}${row.character.name} · ${row.account.name}`,
+          detail: candidate.detail,
+          score: breakdown.starBonus + Math.round((breakdown.base + breakdown.deadlineBonus) * breakdown.weightFactor),
+          tone: candidate.tone,
+          breakdown,
+        };
+      }),
+    ),
+  );
+  return items.sort((left, right) => right.score - left.score).slice(0, options.limit ?? PRIORITY_TODO_LIMIT);
+}
+
+export function describePriorityScore(item: PriorityTodoItem): string {
+  const { base, deadlineBonus, weightFactor, starBonus } = item.breakdown;
+  const parts = [`基础 ${base}`];
+  if (deadlineBonus > 0) {
+    parts.push(`临近刷新 +${deadlineBonus}`);
+  }
+  if (weightFactor !== 1) {
+    parts.push(`权重 ×${weightFactor}`);
+  }
+  if (starBonus > 0) {
+    parts.push(`星标 +${starBonus}`);
+  }
+  return `${parts.join("，")} = ${item.score}`;
+}
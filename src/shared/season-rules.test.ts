@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultCharacter } from "./constants";
+import { refreshCharacterState } from "./engine";
+import {
+  DEFAULT_SEASON_RULE_SET,
+  applySeasonRules,
+  getSeasonRuleCap,
+  normalizeSeasonRuleSet,
+  parseSeasonRuleSet,
+} from "./season-rules";
+
+function at(y: number, m: number, d: number, h: number, min = 0, sec = 0): Date {
+  return new Date(y, m - 1, d, h, min, sec, 0);
+}
+
+function createCharacter(now: Date): ReturnType<typeof createDefaultCharacter> {
+  return createDefaultCharacter("测试角色", now.toISOString(), "char-1", "acc-1");
+}
+
+describe("shared/season-rules", () => {
+  it("default rule set keeps the built-in daily and weekly refills", () => {
+    const character = createCharacter(at(2026, 2, 24, 4, 0, 0));
+    character.missions.dailyRemaining = 0;
+    character.missions.weeklyRemaining = 0;
+    character.activities.nightmareRemaining = 13;
+    character.activities.spiritInvasionRemaining = 0;
+    character.aodePlan.transformAodeUsed = 3;
+
+    applySeasonRules(character, at(2026, 2, 24, 4, 0, 0), at(2026, 2, 25, 6, 0, 0), DEFAULT_SEASON_RULE_SET);
+
+    expect(character.missions.dailyRemaining).toBe(5);
+    expect(character.missions.weeklyRemaining).toBe(12);
+    expect(character.activities.nightmareRemaining).toBe(14);
+    expect(character.activities.spiritInvasionRemaining).toBe(2);
+    expect(character.aodePlan.transformAodeUsed).toBe(0);
+  });
+
+  it("refreshCharacterState applies an imported rule set", () => {
+    const from = at(2026, 2, 24, 4, 0, 0);
+    const character = createCharacter(from);
+    character.missions.dailyRemaining = 0;
+    character.activities.expeditionRemaining = 20;
+    const ruleSet = parseSeasonRuleSet({
+      id: "season-2",
+      name: "S2",
+      rules: [
+        { scope: "missions", key: "dailyRemaining", cadence: "daily", amount: 8, cap: null, stack: false },
+        { scope: "activities", key: "expeditionRemaining", cadence: "scheduled", hours: [13, 5], amount: 2, cap: 21, stack: true },
+      ],
+    });
+
+    const next = refreshCharacterState(character, at(2026, 2, 24, 14, 0, 0), { ruleSet });
+
+    expect(next.missions.dailyRemaining).toBe(8);
+    expect(next.activities.expeditionRemaining).toBe(21);
+    expect(next.energy.baseCurrent).toBe(character.energy.baseCurrent);
+    expect(getSeasonRuleCap(ruleSet, "expeditionRemaining", 14)).toBe(21);
+    expect(getSeasonRuleCap(ruleSet, "dailyRemaining", 5)).toBe(8);
+    expect(getSeasonRuleCap(ruleSet, "nightmareRemaining", 14)).toBe(14);
+  });
+
+  it("rejects invalid rule files and falls back to defaults when normalizing", () => {
+    expect(() => parseSeasonRuleSet({ rules: [] })).toThrow("至少一条");
+    expect(() =>
+      parseSeasonRuleSet({ rules: [{ scope: "missions", key: "nightmareRemaining", cadence: "daily", amount: 1 }] }),
+    ).toThrow("key 无效");
+    expect(() =>
+      parseSeasonRuleSet({ rules: [{ scope: "energy", key: "baseCurrent", cadence: "scheduled", amount: 15 }] }),
+    ).toThrow("hours");
+    expect(normalizeSeasonRuleSet({ rules: "broken" })).toEqual(DEFAULT_SEASON_RULE_SET);
+    expect(normalizeSeasonRuleSet(DEFAULT_SEASON_RULE_SET)).toEqual(DEFAULT_SEASON_RULE_SET);
+  });
+});
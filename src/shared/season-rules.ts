@@ -0,0 +1,386 @@
+import {
+  AODE_ENERGY_SCHEDULE_HOURS,
+  CORRIDOR_LANE_MAX,
+  DAILY_DUNGEON_SHARED_MAX,
+  ENERGY_BASE_CAP,
+  ENERGY_PER_TICK,
+  EXPEDITION_BOSS_MAX,
+  EXPEDITION_REWARD_MAX,
+  EXPEDITION_SCHEDULE_HOURS,
+  MINI_GAME_MAX,
+  NIGHTMARE_MAX,
+  SPIRIT_INVASION_MAX,
+  TRANSCENDENCE_BOSS_MAX,
+  TRANSCENDENCE_REWARD_MAX,
+  TRANSCENDENCE_SCHEDULE_HOURS,
+} from "./constants";
+import {
+  countDailyResets,
+  countScheduledTicks,
+  countUnifiedCorridorRefreshes,
+  countWeeklyResets,
+  getNextDailyReset,
+  getNextScheduledTick,
+  getNextUnifiedCorridorRefresh,
+  getNextWeeklyReset,
+  type ServerTimeZone,
+} from "./time";
+import type {
+  ActivityCounterKey,
+  ActivityTicketKey,
+  AodeEnergyPlanState,
+  CharacterState,
+  CorridorCounterKey,
+  MissionCounterKey,
+  ScheduledSeasonRuleSet,
+  SeasonCounterRule,
+  SeasonRuleCadence,
+  SeasonRuleKey,
+  SeasonRuleScope,
+  SeasonRuleSet,
+} from "./types";
+
+export const DEFAULT_SEASON_RULE_SET_ID = "builtin-default";
+const SEASON_RULE_VALUE_MAX = 999999;
+
+const MISSION_RULE_KEYS: readonly MissionCounterKey[] = [
+  "dailyRemaining",
+  "weeklyRemaining",
+  "abyssLowerRemaining",
+  "abyssMiddleRemaining",
+];
+
+const ACTIVITY_RULE_KEYS: readonly (ActivityCounterKey | ActivityTicketKey | CorridorCounterKey)[] = [
+  "nightmareRemaining",
+  "nightmareTicketBonus",
+  "awakeningRemaining",
+  "awakeningTicketBonus",
+  "dailyDungeonRemaining",
+  "dailyDungeonTicketStored",
+  "expeditionRemaining",
+  "expeditionTicketBonus",
+  "expeditionBossRemaining",
+  "transcendenceRemaining",
+  "transcendenceTicketBonus",
+  "transcendenceBossRemaining",
+  "sanctumRaidChallengeRemaining",
+  "sanctumRaidChallengeBonus",
+  "sanctumRaidBoxRemaining",
+  "sanctumRaidBoxBonus",
+  "sanctumPurifyChallengeRemaining",
+  "sanctumPurifyBoxRemaining",
+  "miniGameRemaining",
+  "miniGameTicketBonus",
+  "spiritInvasionRemaining",
+  "corridorLowerAvailable",
+  "corridorMiddleAvailable",
+];
+
+const AODE_PLAN_RULE_KEYS: readonly (keyof AodeEnergyPlanState)[] = [
+  "shopAodePurchaseUsed",
+  "shopUnknownChallengeTicketUsed",
+  "shopExpeditionChoiceBoxUsed",
+  "shopNightmareInstantUsed",
+  "shopAbyssReplenishUsed",
+  "transformAodeUsed",
+];
+
+const SEASON_RULE_KEYS_BY_SCOPE: Record<SeasonRuleScope, readonly SeasonRuleKey[]> = {
+  energy: ["baseCurrent"],
+  missions: MISSION_RULE_KEYS,
+  activities: ACTIVITY_RULE_KEYS,
+  aodePlan: AODE_PLAN_RULE_KEYS,
+};
+
+const SEASON_RULE_CADENCES: readonly SeasonRuleCadence[] = ["daily", "weekly", "scheduled", "corridor"];
+
+function stacked(
+  scope: SeasonRuleScope,
+  key: SeasonRuleKey,
+  cadence: SeasonRuleCadence,
+  amount: number,
+  cap: number,
+  hours?: readonly number[],
+): SeasonCounterRule {
+  return { scope, key, cadence, hours: hours ? [...hours] : undefined, amount, cap, stack: true };
+}
+
+function refill(scope: SeasonRuleScope, key: SeasonRuleKey, cadence: SeasonRuleCadence, amount: number): SeasonCounterRule {
+  return { scope, key, cadence, amount, cap: null, stack: false };
+}
+
+export const DEFAULT_SEASON_RULE_SET: SeasonRuleSet = {
+  id: DEFAULT_SEASON_RULE_SET_ID,
+  name: "内置默认规则",
+  updatedAt: "2026-02-24T00:00:00.000Z",
+  rules: [
+    stacked("energy", "baseCurrent", "scheduled", ENERGY_PER_TICK, ENERGY_BASE_CAP, AODE_ENERGY_SCHEDULE_HOURS),
+    refill("missions", "dailyRemaining", "daily", 5),
+    stacked("activities", "nightmareRemaining", "daily", 2, NIGHTMARE_MAX),
+    stacked("activities", "miniGameRemaining", "daily", 2, MINI_GAME_MAX),
+    stacked("activities", "spiritInvasionRemaining", "daily", 1, SPIRIT_INVASION_MAX),
+    refill("missions", "weeklyRemaining", "weekly", 12),
+    refill("missions", "abyssLowerRemaining", "weekly", 20),
+    refill("missions", "abyssMiddleRemaining", "weekly", 5),
+    refill("activities", "awakeningRemaining", "weekly", 3),
+    refill("activities", "awakeningTicketBonus", "weekly", 0),
+    refill("activities", "dailyDungeonRemaining", "weekly", DAILY_DUNGEON_SHARED_MAX),
+    refill("activities", "sanctumRaidChallengeRemaining", "weekly", 4),
+    refill("activities", "sanctumRaidChallengeBonus", "weekly", 0),
+    refill("activities", "sanctumRaidBoxRemaining", "weekly", 2),
+    refill("activities", "sanctumRaidBoxBonus", "weekly", 0),
+    refill("activities", "sanctumPurifyChallengeRemaining", "weekly", 4),
+    refill("activities", "sanctumPurifyBoxRemaining", "weekly", 2),
+    refill("activities", "expeditionBossRemaining", "weekly", EXPEDITION_BOSS_MAX),
+    refill("activities", "transcendenceBossRemaining", "weekly", TRANSCENDENCE_BOSS_MAX),
+    refill("aodePlan", "shopAodePurchaseUsed", "weekly", 0),
+    refill("aodePlan", "shopUnknownChallengeTicketUsed", "weekly", 0),
+    refill("aodePlan", "shopExpeditionChoiceBoxUsed", "weekly", 0),
+    refill("aodePlan", "shopNightmareInstantUsed", "weekly", 0),
+    refill("aodePlan", "shopAbyssReplenishUsed", "weekly", 0),
+    refill("aodePlan", "transformAodeUsed", "weekly", 0),
+    refill("activities", "corridorLowerAvailable", "corridor", CORRIDOR_LANE_MAX),
+    refill("activities", "corridorMiddleAvailable", "corridor", CORRIDOR_LANE_MAX),
+    stacked("activities", "expeditionRemaining", "scheduled", 1, EXPEDITION_REWARD_MAX, EXPEDITION_SCHEDULE_HOURS),
+    stacked("activities", "transcendenceRemaining", "scheduled", 1, TRANSCENDENCE_REWARD_MAX, TRANSCENDENCE_SCHEDULE_HOURS),
+  ],
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isScopeKey<K extends SeasonRuleKey>(keys: readonly K[], key: SeasonRuleKey): key is K {
+  return (keys as readonly SeasonRuleKey[]).includes(key);
+}
+
+function readRuleValue(character: CharacterState, rule: SeasonCounterRule): number {
+  const { key } = rule;
+  switch (rule.scope) {
+    case "energy":
+      return character.energy.baseCurrent;
+    case "missions":
+      return isScopeKey(MISSION_RULE_KEYS, key) ? character.missions[key] : 0;
+    case "activities":
+      return isScopeKey(ACTIVITY_RULE_KEYS, key) ? character.activities[key] : 0;
+    case "aodePlan":
+      return isScopeKey(AODE_PLAN_RULE_KEYS, key) ? character.aodePlan[key] : 0;
+  }
+}
+
+function writeRuleValue(character: CharacterState, rule: SeasonCounterRule, value: number): void {
+  const { key } = rule;
+  switch (rule.scope) {
+    case "energy":
+      character.energy.baseCurrent = value;
+      return;
+    case "missions":
+      if (isScopeKey(MISSION_RULE_KEYS, key)) {
+        character.missions[key] = value;
+      }
+      return;
+    case "activities":
+      if (isScopeKey(ACTIVITY_RULE_KEYS, key)) {
+        character.activities[key] = value;
+      }
+      return;
+    case "aodePlan":
+      if (isScopeKey(AODE_PLAN_RULE_KEYS, key)) {
+        character.aodePlan[key] = value;
+      }
+      return;
+  }
+}
+
+export function countSeasonRuleTicks(rule: SeasonCounterRule, from: Date, to: Date, timeZone?: ServerTimeZone): number {
+  if (rule.cadence === "daily") {
+    return countDailyResets(from, to, timeZone);
+  }
+  if (rule.cadence === "weekly") {
+    return countWeeklyResets(from, to, timeZone);
+  }
+  if (rule.cadence === "corridor") {
+    return countUnifiedCorridorRefreshes(from, to, timeZone);
+  }
+  return countScheduledTicks(from, to, rule.hours ?? [], timeZone);
+}
+
+export function getNextSeasonRuleTick(rule: SeasonCounterRule, from: Date, timeZone?: ServerTimeZone): Date {
+  if (rule.cadence === "daily") {
+    return getNextDailyReset(from, timeZone);
+  }
+  if (rule.cadence === "weekly") {
+    return getNextWeeklyReset(from, timeZone);
+  }
+  if (rule.cadence === "corridor") {
+    return getNextUnifiedCorridorRefresh(from, timeZone);
+  }
+  return getNextScheduledTick(from, rule.hours ?? [], timeZone);
+}
+
+export interface SeasonRuleProjection {
+  value: number;
+  overflowAt: Date | null;
+  wasted: number;
+}
+
+// Walks a stacked rule tick by tick; a tick overflows once the counter cannot take the full amount.
+export function projectSeasonRule(
+  character: CharacterState,
+  rule: SeasonCounterRule,
+  from: Date,
+  to: Date,
+  timeZone?: ServerTimeZone,
+): SeasonRuleProjection {
+  const cap = rule.cap ?? SEASON_RULE_VALUE_MAX;
+  let value = readRuleValue(character, rule);
+  let overflowAt: Date | null = null;
+  let wasted = 0;
+  for (let tick = getNextSeasonRuleTick(rule, from, timeZone); tick <= to; tick = getNextSeasonRuleTick(rule, tick, timeZone)) {
+    const raised = rule.stack ? value + rule.amount : rule.amount;
+    if (rule.stack && raised > cap) {
+      overflowAt = overflowAt ?? tick;
+      wasted += Math.min(rule.amount, raised - cap);
+    }
+    value = clamp(raised, 0, cap);
+  }
+  return { value, overflowAt, wasted };
+}
+
+export function applySeasonRules(
+  character: CharacterState,
+  from: Date,
+  to: Date,
+  ruleSet: SeasonRuleSet,
+  timeZone?: ServerTimeZone,
+): void {
+  for (const rule of ruleSet.rules) {
+    const ticks = countSeasonRuleTicks(rule, from, to, timeZone);
+    if (ticks <= 0) {
+      continue;
+    }
+    const cap = rule.cap ?? SEASON_RULE_VALUE_MAX;
+    if (rule.stack) {
+      writeRuleValue(character, rule, clamp(readRuleValue(character, rule) + ticks * rule.amount, 0, cap));
+    } else {
+      writeRuleValue(character, rule, clamp(rule.amount, 0, cap));
+    }
+  }
+}
+
+export function getSeasonRuleCap(ruleSet: SeasonRuleSet, key: SeasonRuleKey, fallback: number): number {
+  const rule = ruleSet.rules.find((item) => item.key === key);
+  if (!rule) {
+    return fallback;
+  }
+  if (rule.stack) {
+    return rule.cap ?? fallback;
+  }
+  return rule.cap === null ? rule.amount : Math.min(rule.amount, rule.cap);
+}
+
+export function resolveSeasonCounterCap(ruleSets: readonly SeasonRuleSet[], key: SeasonRuleKey, fallback: number): number {
+  return ruleSets.reduce((cap, ruleSet) => Math.max(cap, getSeasonRuleCap(ruleSet, key, fallback)), fallback);
+}
+
+function readRuleNumber(value: unknown, label: string, index: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`规则 #${index + 1} 的 ${label} 必须是数字`);
+  }
+  return clamp(Math.floor(value), 0, SEASON_RULE_VALUE_MAX);
+}
+
+function parseSeasonRule(raw: unknown, index: number): SeasonCounterRule {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`规则 #${index + 1} 不是有效对象`);
+  }
+  const entity = raw as Record<string, unknown>;
+  const scope = entity.scope as SeasonRuleScope;
+  const allowedKeys = SEASON_RULE_KEYS_BY_SCOPE[scope];
+  if (!allowedKeys) {
+    throw new Error(`规则 #${index + 1} 的 scope 无效: ${String(entity.scope)}`);
+  }
+  const key = entity.key as SeasonRuleKey;
+  if (!allowedKeys.includes(key)) {
+    throw new Error(`规则 #${index + 1} 的 key 无效: ${String(entity.key)}`);
+  }
+  const cadence = entity.cadence as SeasonRuleCadence;
+  if (!SEASON_RULE_CADENCES.includes(cadence)) {
+    throw new Error(`规则 #${index + 1} 的 cadence 无效: ${String(entity.cadence)}`);
+  }
+
+  let hours: number[] | undefined;
+  if (cadence === "scheduled") {
+    if (!Array.isArray(entity.hours) || entity.hours.length === 0) {
+      throw new Error(`规则 #${index + 1} 为 scheduled 时必须提供 hours`);
+    }
+    hours = entity.hours.map((hour) => {
+      if (typeof hour !== "number" || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+        throw new Error(`规则 #${index + 1} 的 hours 只能包含 0-23 的整数`);
+      }
+      return hour;
+    });
+    hours = [...new Set(hours)].sort((left, right) => left - right);
+  }
+
+  return {
+    scope,
+    key,
+    cadence,
+    hours,
+    amount: readRuleNumber(entity.amount, "amount", index),
+    cap: entity.cap === null || entity.cap === undefined ? null : readRuleNumber(entity.cap, "cap", index),
+    stack: entity.stack === true,
+  };
+}
+
+export function parseSeasonRuleSet(raw: unknown, now = new Date()): SeasonRuleSet {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("规则文件不是有效的规则集");
+  }
+  const entity = raw as Record<string, unknown>;
+  if (!Array.isArray(entity.rules) || entity.rules.length === 0) {
+    throw new Error("规则集必须包含至少一条 rules");
+  }
+  const rules = entity.rules.map((item, index) => parseSeasonRule(item, index));
+  const id = typeof entity.id === "string" && entity.id.trim() ? entity.id.trim() : `imported-${now.getTime()}`;
+  const name = typeof entity.name === "string" && entity.name.trim() ? entity.name.trim() : id;
+  const updatedAt =
+    typeof entity.updatedAt === "string" && !Number.isNaN(new Date(entity.updatedAt).getTime())
+      ? entity.updatedAt
+      : now.toISOString();
+  return { id, name, updatedAt, rules };
+}
+
+export function normalizeSeasonRuleSet(raw: unknown): SeasonRuleSet {
+  if (raw === undefined || raw === null) {
+    return structuredClone(DEFAULT_SEASON_RULE_SET);
+  }
+  try {
+    return parseSeasonRuleSet(raw);
+  } catch {
+    return structuredClone(DEFAULT_SEASON_RULE_SET);
+  }
+}
+
+export function normalizeScheduledSeasonRuleSet(raw: unknown): ScheduledSeasonRuleSet | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const entity = raw as Record<string, unknown>;
+  if (typeof entity.effectiveAt !== "string" || Number.isNaN(new Date(entity.effectiveAt).getTime())) {
+    return null;
+  }
+  try {
+    return {
+      effectiveAt: new Date(entity.effectiveAt).toISOString(),
+      ruleSet: parseSeasonRuleSet(entity.ruleSet),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function isScheduledSeasonRuleSetDue(scheduled: ScheduledSeasonRuleSet | null, now: Date): boolean {
+  return scheduled !== null && new Date(scheduled.effectiveAt) <= now;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultAccount, createDefaultCharacter } from "./constants";
+import {
+  TAG_LIMIT,
+  TAG_MAX_LENGTH,
+  collectTags,
+  formatTagsInput,
+  getCharacterEffectiveTags,
+  hasTag,
+  normalizeOptionalTags,
+  normalizeTags,
+  parseTagsInput,
+} from "./tags";
+
+const NOW = "2026-03-01T08:00:00.000Z";
+
+describe("shared/tags", () => {
+  it("trims, dedupes case-insensitively and caps count and length", () => {
+    expect(normalizeTags([" 主号 ", "Static  Group A", "static group a", "", 3, "主号"])).toEqual(["主号", "Static Group A"]);
+    expect(normalizeTags("主号")).toEqual([]);
+    expect(normalizeTags(["x".repeat(TAG_MAX_LENGTH + 5)])[0]).toHaveLength(TAG_MAX_LENGTH);
+    expect(normalizeTags(Array.from({ length: TAG_LIMIT + 3 }, (_, index) => `t${index}`))).toHaveLength(TAG_LIMIT);
+    expect(normalizeOptionalTags([" "])).toBeUndefined();
+  });
+
+  it("parses free text with Chinese and ASCII separators and formats it back", () => {
+    const tags = parseTagsInput("主号，搬砖、 crafter ; 固定队 A\n");
+    expect(tags).toEqual(["主号", "搬砖", "crafter", "固定队 A"]);
+    expect(parseTagsInput(formatTagsInput(tags))).toEqual(tags);
+    expect(formatTagsInput(undefined)).toBe("");
+  });
+
+  it("merges account tags into character tags and collects a sorted tag list", () => {
+    const account = { ...createDefaultAccount("账号 1", "a1"), tags: ["搬砖"] };
+    const character = { ...createDefaultCharacter("角色 1", NOW, "c1", "a1"), tags: ["主号", "搬砖"] };
+    const other = createDefaultCharacter("角色 2", NOW, "c2", "a1");
+    const effective = getCharacterEffectiveTags(character, account);
+    expect(effective).toEqual(["搬砖", "主号"]);
+    expect(hasTag(effective, " 主号 ")).toBe(true);
+    expect(getCharacterEffectiveTags(other, null)).toEqual([]);
+    expect(collectTags([account], [character, other])).toEqual(["搬砖", "主号"].sort((left, right) => left.localeCompare(right, "zh-CN")));
+  });
+});
@@ -0,0 +1,65 @@
+import type { AccountState, CharacterState } from "./types";
+
+export const TAG_LIMIT = 12;
+export const TAG_MAX_LENGTH = 16;
+
+const TAG_INPUT_SEPARATOR = /[,，、;；\n]/;
+
+export function normalizeTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    if (typeof item !== "string") {
+      continue;
+    }
+    const tag = item.trim().replace(/\s+/g, " ").slice(0, TAG_MAX_LENGTH);
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    tags.push(tag);
+    if (tags.length >= TAG_LIMIT) {
+      break;
+    }
+  }
+  return tags;
+}
+
+export function normalizeOptionalTags(raw: unknown): string[] | undefined {
+  const tags = normalizeTags(raw);
+  return tags.length > 0 ? tags : undefined;
+}
+
+export function parseTagsInput(text: string): string[] {
+  return normalizeTags(text.split(TAG_INPUT_SEPARATOR));
+}
+
+export function formatTagsInput(tags: readonly string[] | undefined): string {
+  return (tags ?? []).join(", ");
+}
+
+export function getCharacterEffectiveTags(character: CharacterState, account: AccountState | null | undefined): string[] {
+  return normalizeTags([...(account?.tags ?? []), ...(character.tags ?? [])]);
+}
+
+export function hasTag(tags: readonly string[], tag: string): boolean {
+  const key = tag.trim().toLowerCase();
+  return tags.some((item) => item.toLowerCase() === key);
+}
+
+export function collectTags(accounts: readonly AccountState[], characters: readonly CharacterState[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const entity of [...accounts, ...characters]) {
+    for (const tag of entity.tags ?? []) {
+      const key = tag.toLowerCase();
+      if (!byKey.has(key)) {
+        byKey.set(key, tag);
+      }
+    }
+  }
+  return [...byKey.values()].sort((left, right) => left.localeCompare(right, "zh-CN"));
+}
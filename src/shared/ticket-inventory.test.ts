@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultAccountServer, createDefaultCharacter } from "./constants";
+import { buildTicketInventoryReport, getTicketStock, trimTicketAssignments } from "./ticket-inventory";
+
+describe("shared/ticket-inventory", () => {
+  it("reports purchased tickets as stock minus what was handed out", () => {
+    const server = createDefaultAccountServer("默认服务器", "acc-1:server-1");
+    server.breezePlan.shopExpeditionChoiceBoxUsed = 4;
+    server.ticketAssignments = [{ kind: "expedition_choice_box", targetId: "expedition", characterId: "char-a", count: 3 }];
+    const characters = [createDefaultCharacter("主角", "2026-02-26T00:00:00.000Z", "char-a", "acc-1")];
+
+    const row = buildTicketInventoryReport(server, characters).find((item) => item.kind === "expedition_choice_box");
+
+    expect(getTicketStock(server, "expedition_choice_box")).toBe(1);
+    expect(row).toMatchObject({ purchased: 4, assigned: 3, stock: 1 });
+    expect(row?.holders).toEqual([{ characterId: "char-a", name: "主角", targetLabel: "远征挑战券", count: 3 }]);
+  });
+
+  it("trims the most recent assignments first when purchases shrink", () => {
+    const { kept, removed } = trimTicketAssignments(
+      [
+        { kind: "nightmare_instant", targetId: "nightmare", characterId: "char-a", count: 2 },
+        { kind: "nightmare_instant", targetId: "nightmare", characterId: "char-b", count: 2 },
+      ],
+      (kind) => (kind === "nightmare_instant" ? 3 : 0),
+    );
+
+    expect(kept.map((item) => [item.characterId, item.count])).toEqual([
+      ["char-a", 2],
+      ["char-b", 1],
+    ]);
+    expect(removed).toEqual([{ kind: "nightmare_instant", targetId: "nightmare", characterId: "char-b", count: 1 }]);
+  });
+});
@@ -0,0 +1,139 @@
+import type {
+  AccountServerState,
+  ActivityTicketKey,
+  AodeEnergyPlanState,
+  CharacterState,
+  TicketAssignment,
+  TicketInventoryKind,
+} from "./types";
+
+export interface TicketInventoryTarget {
+  id: string;
+  label: string;
+  keys: ActivityTicketKey[];
+}
+
+export interface TicketInventoryDefinition {
+  kind: TicketInventoryKind;
+  label: string;
+  purchasedKey: keyof AodeEnergyPlanState;
+  targets: TicketInventoryTarget[];
+}
+
+export interface TicketInventoryHolder {
+  characterId: string;
+  name: string;
+  targetLabel: string;
+  count: number;
+}
+
+export interface TicketInventoryRow {
+  kind: TicketInventoryKind;
+  label: string;
+  purchased: number;
+  assigned: number;
+  stock: number;
+  holders: TicketInventoryHolder[];
+}
+
+export const TICKET_INVENTORY_DEFINITIONS: TicketInventoryDefinition[] = [
+  {
+    kind: "expedition_choice_box",
+    label: "远征/超越挑战券选择箱",
+    purchasedKey: "shopExpeditionChoiceBoxUsed",
+    targets: [
+      { id: "expedition", label: "远征挑战券", keys: ["expeditionTicketBonus"] },
+      { id: "transcendence", label: "超越挑战券", keys: ["transcendenceTicketBonus"] },
+    ],
+  },
+  {
+    kind: "unknown_challenge",
+    label: "未知缝隙挑战券",
+    purchasedKey: "shopUnknownChallengeTicketUsed",
+    targets: [{ id: "daily_dungeon", label: "每日副本券", keys: ["dailyDungeonTicketStored"] }],
+  },
+  {
+    kind: "nightmare_instant",
+    label: "立即完成券: 恶梦",
+    purchasedKey: "shopNightmareInstantUsed",
+    targets: [{ id: "nightmare", label: "恶梦券", keys: ["nightmareTicketBonus"] }],
+  },
+  {
+    kind: "abyss_replenish",
+    label: "深渊重铸补充券",
+    purchasedKey: "shopAbyssReplenishUsed",
+    targets: [
+      { id: "sanctum_raid", label: "卢德莱 +1 挑战/+1 开箱", keys: ["sanctumRaidChallengeBonus", "sanctumRaidBoxBonus"] },
+    ],
+  },
+];
+
+// Unknown challenge tickets land in the server-wide daily dungeon pool rather than on the character.
+export const SHARED_TICKET_KEYS: readonly ActivityTicketKey[] = ["dailyDungeonTicketStored"];
+
+export function isTicketInventoryKind(value: unknown): value is TicketInventoryKind {
+  return TICKET_INVENTORY_DEFINITIONS.some((item) => item.kind === value);
+}
+
+export function getTicketInventoryDefinition(kind: TicketInventoryKind): TicketInventoryDefinition {
+  return TICKET_INVENTORY_DEFINITIONS.find((item) => item.kind === kind) ?? TICKET_INVENTORY_DEFINITIONS[0];
+}
+
+export function getTicketInventoryTarget(kind: TicketInventoryKind, targetId: string): TicketInventoryTarget | null {
+  return getTicketInventoryDefinition(kind).targets.find((item) => item.id === targetId) ?? null;
+}
+
+export function countAssignedTickets(assignments: readonly TicketAssignment[], kind: TicketInventoryKind): number {
+  return assignments.reduce((acc, item) => (item.kind === kind ? acc + item.count : acc), 0);
+}
+
+export function getTicketStock(server: AccountServerState, kind: TicketInventoryKind): number {
+  const purchased = server.breezePlan[getTicketInventoryDefinition(kind).purchasedKey];
+  return Math.max(0, purchased - countAssignedTickets(server.ticketAssignments, kind));
+}
+
+export function trimTicketAssignments(
+  assignments: readonly TicketAssignment[],
+  purchasedOf: (kind: TicketInventoryKind) => number,
+): { kept: TicketAssignment[]; removed: TicketAssignment[] } {
+  const budget = new Map<TicketInventoryKind, number>(
+    TICKET_INVENTORY_DEFINITIONS.map((item) => [item.kind, Math.max(0, purchasedOf(item.kind))]),
+  );
+  const kept: TicketAssignment[] = [];
+  const removed: TicketAssignment[] = [];
+  assignments.forEach((item) => {
+    const left = budget.get(item.kind) ?? 0;
+    const count = Math.min(left, item.count);
+    budget.set(item.kind, left - count);
+    if (count > 0) {
+      kept.push({ ...item, count });
+    }
+    if (count < item.count) {
+      removed.push({ ...item, count: item.count - count });
+    }
+  });
+  return { kept, removed };
+}
+
+export function buildTicketInventoryReport(
+  server: AccountServerState,
+  characters: readonly CharacterState[],
+): TicketInventoryRow[] {
+  return TICKET_INVENTORY_DEFINITIONS.map((definition) => {
+    const assignments = server.ticketAssignments.filter((item) => item.kind === definition.kind);
+    const assigned = countAssignedTickets(assignments, definition.kind);
+    return {
+      kind: definition.kind,
+      label: definition.label,
+      purchased: server.breezePlan[definition.purchasedKey],
+      assigned,
+      stock: getTicketStock(server, definition.kind),
+      holders: assignments.map((item) => ({
+        characterId: item.characterId,
+        name: characters.find((character) => character.id === item.characterId)?.name ?? item.characterId,
+        targetLabel: getTicketInventoryTarget(definition.kind, item.targetId)?.label ?? item.targetId,
+        count: item.count,
+      })),
+    };
+  });
+}
@@ -7,6 +7,7 @@ import {
   getNextScheduledTick,
   getNextUnifiedCorridorRefresh,
   getNextWeeklyReset,
+  isValidTimeZone,
 } from "./time";
 
 function at(y: number, m: number, d: number, h: number, min = 0, sec = 0): Date {
@@ -59,4 +60,32 @@ describe("shared/time", () => {
     expect(getNextUnifiedCorridorRefresh(fromWednesdayBeforeReset)).toEqual(at(2026, 2, 25, 22, 0, 0));
     expect(getNextUnifiedCorridorRefresh(fromSaturdayLate)).toEqual(at(2026, 3, 4, 22, 0, 0));
   });
+
+  it("computes resets in the configured server time zone", () => {
+    const from = new Date("2026-02-24T19:59:00.000Z");
+    const to = new Date("2026-02-24T20:01:00.000Z");
+    expect(countDailyResets(from, to, "Asia/Seoul")).toBe(1);
+    expect(countWeeklyResets(from, to, "Asia/Seoul")).toBe(1);
+    expect(getNextDailyReset(from, "Asia/Seoul")).toEqual(new Date("2026-02-24T20:00:00.000Z"));
+    expect(getNextWeeklyReset(to, "Asia/Seoul")).toEqual(new Date("2026-03-03T20:00:00.000Z"));
+    expect(getNextUnifiedCorridorRefresh(from, "Asia/Seoul")).toEqual(new Date("2026-02-25T13:00:00.000Z"));
+  });
+
+  it("follows DST transitions of the server time zone", () => {
+    const beforeSpringForward = new Date("2026-03-07T12:00:00.000Z");
+    expect(getNextDailyReset(beforeSpringForward, "America/New_York")).toEqual(new Date("2026-03-08T09:00:00.000Z"));
+    const beforeFallBack = new Date("2026-10-31T12:00:00.000Z");
+    expect(getNextDailyReset(beforeFallBack, "America/New_York")).toEqual(new Date("2026-11-01T10:00:00.000Z"));
+    expect(getNextScheduledTick(new Date("2026-03-08T05:00:00.000Z"), [2], "America/New_York")).toEqual(
+      new Date("2026-03-08T07:00:00.000Z"),
+    );
+    const fallBackFrom = new Date("2026-10-31T12:00:00.000Z");
+    const fallBackTo = new Date("2026-11-01T12:00:00.000Z");
+    expect(countScheduledTicks(fallBackFrom, fallBackTo, [5, 17], "America/New_York")).toBe(2);
+  });
+
+  it("validates IANA time zone names", () => {
+    expect(isValidTimeZone("Asia/Seoul")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
 });
@@ -1,72 +1,120 @@
 import { DAILY_RESET_HOUR, WEEKLY_RESET_DAY, WEEKLY_RESET_HOUR } from "./constants";
 import { CORRIDOR_UNIFIED_REFRESH_DAYS, CORRIDOR_UNIFIED_REFRESH_HOUR } from "./constants";
 
-function startOfDay(date: Date): Date {
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-  return d;
+// null/undefined timeZone means the local machine clock.
+export type ServerTimeZone = string | null | undefined;
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
 }
 
-export function countDailyResets(from: Date, to: Date): number {
-  if (to <= from) {
-    return 0;
+const zonedFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  const cached = zonedFormatterCache.get(timeZone);
+  if (cached) {
+    return cached;
   }
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  });
+  zonedFormatterCache.set(timeZone, formatter);
+  return formatter;
+}
 
-  let count = 0;
-  const cursor = startOfDay(from);
-  cursor.setDate(cursor.getDate() - 1);
-  const end = startOfDay(to);
-
-  for (; cursor <= end; cursor.setDate(cursor.getDate() + 1)) {
-    const resetAt = new Date(cursor);
-    resetAt.setHours(DAILY_RESET_HOUR, 0, 0, 0);
-    if (resetAt > from && resetAt <= to) {
-      count += 1;
-    }
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getZonedFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
   }
+}
 
-  return count;
+function getZonedWallClock(date: Date, timeZone: string): CalendarDay & { hour: number; minute: number; second: number } {
+  const parts = getZonedFormatter(timeZone).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: read("year"),
+    month: read("month"),
+    day: read("day"),
+    hour: read("hour") % 24,
+    minute: read("minute"),
+    second: read("second"),
+  };
 }
 
-export function countWeeklyResets(from: Date, to: Date): number {
-  if (to <= from) {
-    return 0;
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const wall = getZonedWallClock(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function getCalendarDay(date: Date, timeZone: ServerTimeZone): CalendarDay {
+  if (!timeZone) {
+    return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
   }
+  const wall = getZonedWallClock(date, timeZone);
+  return { year: wall.year, month: wall.month, day: wall.day };
+}
 
-  let count = 0;
-  const cursor = startOfDay(from);
-  cursor.setDate(cursor.getDate() - 7);
-  const end = startOfDay(to);
+function addCalendarDays(day: CalendarDay, amount: number): CalendarDay {
+  const shifted = new Date(Date.UTC(day.year, day.month - 1, day.day + amount));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
 
-  for (; cursor <= end; cursor.setDate(cursor.getDate() + 1)) {
-    if (cursor.getDay() !== WEEKLY_RESET_DAY) {
-      continue;
-    }
+function compareCalendarDays(left: CalendarDay, right: CalendarDay): number {
+  return Date.UTC(left.year, left.month - 1, left.day) - Date.UTC(right.year, right.month - 1, right.day);
+}
 
-    const resetAt = new Date(cursor);
-    resetAt.setHours(WEEKLY_RESET_HOUR, 0, 0, 0);
-    if (resetAt > from && resetAt <= to) {
-      count += 1;
-    }
-  }
+function getCalendarWeekday(day: CalendarDay): number {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+}
 
-  return count;
+// Wall-clock times skipped by a DST jump resolve forward to the first valid instant.
+function toInstant(day: CalendarDay, hour: number, timeZone: ServerTimeZone): Date {
+  if (!timeZone) {
+    return new Date(day.year, day.month - 1, day.day, hour, 0, 0, 0);
+  }
+  const wallAsUtc = Date.UTC(day.year, day.month - 1, day.day, hour, 0, 0, 0);
+  const firstGuess = wallAsUtc - getTimeZoneOffsetMs(new Date(wallAsUtc), timeZone);
+  const secondOffset = getTimeZoneOffsetMs(new Date(firstGuess), timeZone);
+  const secondGuess = wallAsUtc - secondOffset;
+  if (getTimeZoneOffsetMs(new Date(secondGuess), timeZone) === secondOffset) {
+    return new Date(secondGuess);
+  }
+  return new Date(Math.max(firstGuess, secondGuess));
 }
 
-export function countScheduledTicks(from: Date, to: Date, hours: readonly number[]): number {
+function countCalendarTicks(
+  from: Date,
+  to: Date,
+  lookbackDays: number,
+  timeZone: ServerTimeZone,
+  resolveHours: (day: CalendarDay) => readonly number[],
+): number {
   if (to <= from) {
     return 0;
   }
 
   let count = 0;
-  const cursor = startOfDay(from);
-  cursor.setDate(cursor.getDate() - 1);
-  const end = startOfDay(to);
-
-  for (; cursor <= end; cursor.setDate(cursor.getDate() + 1)) {
-    for (const hour of hours) {
-      const tick = new Date(cursor);
-      tick.setHours(hour, 0, 0, 0);
+  const end = getCalendarDay(to, timeZone);
+  for (
+    let cursor = addCalendarDays(getCalendarDay(from, timeZone), -lookbackDays);
+    compareCalendarDays(cursor, end) <= 0;
+    cursor = addCalendarDays(cursor, 1)
+  ) {
+    for (const hour of resolveHours(cursor)) {
+      const tick = toInstant(cursor, hour, timeZone);
       if (tick > from && tick <= to) {
         count += 1;
       }
@@ -76,59 +124,79 @@ export function countScheduledTicks(from: Date, to: Date, hours: readonly number
   return count;
 }
 
-export function getNextDailyReset(from = new Date()): Date {
-  const next = new Date(from);
-  next.setHours(DAILY_RESET_HOUR, 0, 0, 0);
-  if (next <= from) {
-    next.setDate(next.getDate() + 1);
+function findNextCalendarTick(
+  from: Date,
+  maxDays: number,
+  timeZone: ServerTimeZone,
+  resolveHours: (day: CalendarDay) => readonly number[],
+): Date | null {
+  const start = getCalendarDay(from, timeZone);
+  for (let dayOffset = 0; dayOffset <= maxDays; dayOffset += 1) {
+    const day = addCalendarDays(start, dayOffset);
+    const hours = [...resolveHours(day)].sort((a, b) => a - b);
+    for (const hour of hours) {
+      const candidate = toInstant(day, hour, timeZone);
+      if (candidate > from) {
+        return candidate;
+      }
+    }
   }
-  return next;
+  return null;
 }
 
-export function getNextWeeklyReset(from = new Date()): Date {
-  const next = new Date(from);
-  next.setHours(WEEKLY_RESET_HOUR, 0, 0, 0);
+export function countDailyResets(from: Date, to: Date, timeZone?: ServerTimeZone): number {
+  return countCalendarTicks(from, to, 1, timeZone, () => [DAILY_RESET_HOUR]);
+}
 
-  const diffDays = (WEEKLY_RESET_DAY - next.getDay() + 7) % 7;
-  next.setDate(next.getDate() + diffDays);
-  if (next <= from) {
-    next.setDate(next.getDate() + 7);
-  }
-  return next;
+export function countWeeklyResets(from: Date, to: Date, timeZone?: ServerTimeZone): number {
+  return countCalendarTicks(from, to, 7, timeZone, (day) =>
+    getCalendarWeekday(day) === WEEKLY_RESET_DAY ? [WEEKLY_RESET_HOUR] : [],
+  );
 }
 
-export function getNextScheduledTick(from: Date, hours: readonly number[]): Date {
-  const sortedHours = [...hours].sort((a, b) => a - b);
-  for (const hour of sortedHours) {
-    const candidate = new Date(from);
-    candidate.setHours(hour, 0, 0, 0);
-    if (candidate > from) {
-      return candidate;
-    }
-  }
+export function countScheduledTicks(from: Date, to: Date, hours: readonly number[], timeZone?: ServerTimeZone): number {
+  return countCalendarTicks(from, to, 1, timeZone, () => hours);
+}
 
-  const nextDay = new Date(from);
-  nextDay.setDate(nextDay.getDate() + 1);
-  nextDay.setHours(sortedHours[0] ?? 0, 0, 0, 0);
-  return nextDay;
+export function countUnifiedCorridorRefreshes(from: Date, to: Date, timeZone?: ServerTimeZone): number {
+  const refreshDays = new Set<number>(CORRIDOR_UNIFIED_REFRESH_DAYS);
+  return countCalendarTicks(from, to, 1, timeZone, (day) =>
+    refreshDays.has(getCalendarWeekday(day)) ? [CORRIDOR_UNIFIED_REFRESH_HOUR] : [],
+  );
 }
 
-export function getNextUnifiedCorridorRefresh(from = new Date()): Date {
+export function getNextDailyReset(from = new Date(), timeZone?: ServerTimeZone): Date {
+  return findNextCalendarTick(from, 2, timeZone, () => [DAILY_RESET_HOUR]) ?? new Date(from.getTime() + 86_400_000);
+}
+
+export function getNextWeeklyReset(from = new Date(), timeZone?: ServerTimeZone): Date {
+  return (
+    findNextCalendarTick(from, 8, timeZone, (day) =>
+      getCalendarWeekday(day) === WEEKLY_RESET_DAY ? [WEEKLY_RESET_HOUR] : [],
+    ) ?? new Date(from.getTime() + 7 * 86_400_000)
+  );
+}
+
+export function getNextScheduledTick(from: Date, hours: readonly number[], timeZone?: ServerTimeZone): Date {
+  return findNextCalendarTick(from, 2, timeZone, () => (hours.length > 0 ? hours : [0])) ?? new Date(from.getTime() + 86_400_000);
+}
+
+export function getNextUnifiedCorridorRefresh(from = new Date(), timeZone?: ServerTimeZone): Date {
   const refreshDays = new Set<number>(CORRIDOR_UNIFIED_REFRESH_DAYS);
-  for (let dayOffset = 0; dayOffset <= 7; dayOffset += 1) {
-    const candidate = new Date(from);
-    candidate.setDate(candidate.getDate() + dayOffset);
-    candidate.setHours(CORRIDOR_UNIFIED_REFRESH_HOUR, 0, 0, 0);
-    if (!refreshDays.has(candidate.getDay())) {
-      continue;
-    }
-    if (candidate > from) {
-      return candidate;
-    }
-  }
+  return (
+    findNextCalendarTick(from, 8, timeZone, (day) =>
+      refreshDays.has(getCalendarWeekday(day)) ? [CORRIDOR_UNIFIED_REFRESH_HOUR] : [],
+    ) ?? new Date(from.getTime() + 7 * 86_400_000)
+  );
+}
 
-  const fallback = new Date(from);
-  fallback.setDate(fallback.getDate() + 7);
-  fallback.setHours(CORRIDOR_UNIFIED_REFRESH_HOUR, 0, 0, 0);
-  return fallback;
+export function formatDuration(ms: number): string {
+  if (!Number.isFinite(ms) || ms <= 0) {
+    return "00:00:00";
+  }
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
 }
@@ -1,5 +1,5 @@
 export type TaskActionKind = "complete_once" | "use_ticket" | "set_completed";
-export type TaskId =
+export type BuiltinTaskId =
   | "expedition"
   | "transcendence"
   | "mini_game"
@@ -15,6 +15,8 @@ export type TaskId =
   | "daily_dungeon"
   | "sanctum_raid"
   | "sanctum_purify_raid";
+export type CustomTaskId = `custom:${string}`;
+export type TaskId = BuiltinTaskId | CustomTaskId;
 
 export interface EnergyState {
   baseCurrent: number;
@@ -80,6 +82,8 @@ export type ActivityCounterKey =
   | "miniGameRemaining"
   | "spiritInvasionRemaining";
 
+export type CorridorCounterKey = "corridorLowerAvailable" | "corridorMiddleAvailable";
+
 export type ActivityTicketKey =
   | "nightmareTicketBonus"
   | "awakeningTicketBonus"
@@ -104,17 +108,34 @@ export interface AccountBreezePlanState {
   shopExpeditionChoiceBoxUsed: number;
   shopNightmareInstantUsed: number;
   shopAbyssReplenishUsed: number;
-  shopAbyssReplenishAssignedCharacterId?: string | null;
   transformAodeUsed: number;
 }
 
-export interface AccountState {
+export type TicketInventoryKind = "expedition_choice_box" | "unknown_challenge" | "nightmare_instant" | "abyss_replenish";
+
+export interface TicketAssignment {
+  kind: TicketInventoryKind;
+  targetId: string;
+  characterId: string;
+  count: number;
+}
+
+export interface AccountServerState {
   id: string;
   name: string;
-  regionTag?: string;
+  characterSlots: number;
   extraAodeCharacterId?: string;
   sharedActivities: AccountSharedActivityState;
   breezePlan: AccountBreezePlanState;
+  ticketAssignments: TicketAssignment[];
+}
+
+export interface AccountState {
+  id: string;
+  name: string;
+  regionTag?: string;
+  tags?: string[];
+  servers: AccountServerState[];
 }
 
 export interface AodeEnergyPlanState {
@@ -132,25 +153,149 @@ export interface WeeklyStats {
   completions: Record<TaskId, number>;
 }
 
+export interface WeeklyStatsArchiveEntry extends WeeklyStats {
+  cycleEndedAt: string;
+}
+
+export type GoldLedgerSource = "expedition" | "transcendence" | "other";
+
+export interface GoldLedgerEntry {
+  id: string;
+  recordedAt: string;
+  source: GoldLedgerSource;
+  runs: number;
+  amount: number;
+  note?: string;
+}
+
+export interface RecordGoldIncomeInput {
+  characterId: string;
+  source: GoldLedgerSource;
+  runs: number;
+  amount: number;
+  note?: string;
+}
+
+export type CustomTaskResetCadence = "daily" | "weekly" | "none";
+
+export interface CustomTaskDefinition {
+  id: CustomTaskId;
+  title: string;
+  category: TaskDefinition["category"];
+  resetCadence: CustomTaskResetCadence;
+  cap: number;
+  energyCost: number;
+  goldReward: number;
+  hasTicket: boolean;
+}
+
+export interface UpsertCustomTaskInput {
+  id?: CustomTaskId;
+  title: string;
+  category: TaskDefinition["category"];
+  resetCadence: CustomTaskResetCadence;
+  cap: number;
+  energyCost?: number;
+  goldReward?: number;
+  hasTicket?: boolean;
+}
+
+export interface EventCounterDefinition {
+  label: string;
+  cap: number;
+}
+
+export interface EventDefinition {
+  id: string;
+  title: string;
+  startAt: string;
+  endAt: string;
+  resetCadence: CustomTaskResetCadence;
+  counters: EventCounterDefinition[];
+  rewardNote: string;
+}
+
+export interface UpsertEventInput {
+  id?: string;
+  title: string;
+  startAt: string;
+  endAt: string;
+  resetCadence: CustomTaskResetCadence;
+  counters: EventCounterDefinition[];
+  rewardNote?: string;
+}
+
+export interface ApplyEventProgressInput {
+  characterId: string;
+  eventId: string;
+  counterLabel: string;
+  amount: number;
+}
+
+export interface CustomTaskProgress {
+  remaining: number;
+  ticketBonus: number;
+}
+
 export interface CharacterState {
   id: string;
   accountId: string;
+  serverId: string;
   name: string;
   isStarred: boolean;
   classTag?: string;
   gearScore?: number;
+  tags?: string[];
   avatarSeed: string;
   energy: EnergyState;
   aodePlan: AodeEnergyPlanState;
   missions: MissionState;
   activities: ActivityState;
   stats: WeeklyStats;
+  statsHistory: WeeklyStatsArchiveEntry[];
+  goldLedger: GoldLedgerEntry[];
+  customProgress: Record<CustomTaskId, CustomTaskProgress>;
+  eventProgress: Record<string, Record<string, number>>;
   meta: ProgressMeta;
 }
 
+export type SeasonRuleCadence = "daily" | "weekly" | "scheduled" | "corridor";
+export type SeasonRuleScope = "energy" | "missions" | "activities" | "aodePlan";
+export type SeasonRuleKey =
+  | "baseCurrent"
+  | MissionCounterKey
+  | ActivityCounterKey
+  | ActivityTicketKey
+  | CorridorCounterKey
+  | keyof AodeEnergyPlanState;
+
+export interface SeasonCounterRule {
+  scope: SeasonRuleScope;
+  key: SeasonRuleKey;
+  cadence: SeasonRuleCadence;
+  hours?: number[];
+  amount: number;
+  cap: number | null;
+  stack: boolean;
+}
+
+export interface SeasonRuleSet {
+  id: string;
+  name: string;
+  updatedAt: string;
+  rules: SeasonCounterRule[];
+}
+
+export interface ScheduledSeasonRuleSet {
+  effectiveAt: string;
+  ruleSet: SeasonRuleSet;
+}
+
 export interface AppSettings {
   expeditionGoldPerRun: number;
   transcendenceGoldPerRun: number;
+  dailyDungeonGoldPerRun: number;
+  nightmareGoldPerRun: number;
   expeditionRunCap: number | null;
   transcendenceRunCap: number | null;
   nightmareRunCap: number | null;
@@ -164,12 +309,20 @@ export interface AppSettings {
   priorityWeightWeekly: number;
   priorityWeightMission: number;
   priorityWeightLeisure: number;
+  serverTimeZone: string | null;
+  autoBackupKeepDaily: number;
+  autoBackupKeepWeekly: number;
+  autoBackupKeepMonthly: number;
 }
 
 export interface AppStateSnapshot {
   selectedAccountId: string | null;
   selectedCharacterId: string | null;
   settings: AppSettings;
+  seasonRules?: SeasonRuleSet;
+  scheduledSeasonRules?: ScheduledSeasonRuleSet | null;
+  customTasks?: CustomTaskDefinition[];
+  events?: EventDefinition[];
   accounts: AccountState[];
   characters: CharacterState[];
 }
@@ -183,6 +336,10 @@ export interface AppStateSnapshotDelta {
   selectedAccountId?: string | null;
   selectedCharacterId?: string | null;
   settings?: AppSettings;
+  seasonRules?: SeasonRuleSet;
+  scheduledSeasonRules?: ScheduledSeasonRuleSet | null;
+  customTasks?: CustomTaskDefinition[];
+  events?: EventDefinition[];
   accounts?: AccountState[];
   characterChanges?: AppStateCharacterSnapshotDelta[];
   characterOrder?: string[];
@@ -193,22 +350,160 @@ export interface OperationLogEntry {
   at: string;
   action: string;
   characterId: string | null;
+  characterIds?: string[];
   description?: string;
   before?: AppStateSnapshot;
   beforeDelta?: AppStateSnapshotDelta;
 }
 
+export interface OperationJournalChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface OperationJournalEntry {
+  id: string;
+  at: string;
+  action: string;
+  characterId: string | null;
+  characterName: string | null;
+  characterIds?: string[];
+  description?: string;
+  changes: OperationJournalChange[];
+}
+
+export interface OperationJournalQuery {
+  characterId?: string;
+  action?: string;
+  keyword?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface OperationJournalQueryResult {
+  entries: OperationJournalEntry[];
+  totalMatched: number;
+  actions: string[];
+}
+
 export interface ExportDataResult {
   cancelled: boolean;
   path: string | null;
 }
 
+export interface ExportDataOptions {
+  passphrase?: string;
+}
+
 export interface ImportDataResult {
   cancelled: boolean;
   path: string | null;
   state: AppState | null;
 }
 
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastOpenedAt: string | null;
+}
+
+export interface ProfileListResult {
+  profiles: ProfileSummary[];
+  activeProfileId: string;
+  startupSelectionPending: boolean;
+}
+
+export interface ImportProfileInput {
+  name: string;
+  passphrase?: string;
+}
+
+export interface ImportProfileResult {
+  cancelled: boolean;
+  path: string | null;
+  profiles: ProfileListResult | null;
+}
+
+export type ImportMergeMode = "skip" | "merge" | "overwrite";
+export type ImportEntityStatus = "new" | "changed" | "unchanged";
+
+export interface ImportCharacterPreview {
+  id: string;
+  name: string;
+  status: ImportEntityStatus;
+  currentName: string | null;
+  currentAccountId: string | null;
+}
+
+export interface ImportAccountPreview {
+  id: string;
+  name: string;
+  regionTag: string | null;
+  status: ImportEntityStatus;
+  currentName: string | null;
+  characters: ImportCharacterPreview[];
+  currentOnlyCharacterNames: string[];
+}
+
+export interface ImportPreview {
+  token: string;
+  path: string;
+  exportedAt: string | null;
+  accounts: ImportAccountPreview[];
+  changedSettingKeys: string[];
+  workshop: WorkshopBackupSummary | null;
+}
+
+export interface ImportPassphraseRequest {
+  token: string;
+  path: string;
+}
+
+export interface ImportPreviewResult {
+  cancelled: boolean;
+  preview: ImportPreview | null;
+  passphraseRequest: ImportPassphraseRequest | null;
+}
+
+export interface UnlockImportInput {
+  token: string;
+  passphrase: string;
+}
+
+export interface RestorePointDiffSummary {
+  newCharacterCount: number;
+  changedCharacterCount: number;
+  missingCharacterCount: number;
+  changedSettingCount: number;
+}
+
+export interface RestorePoint {
+  fileName: string;
+  createdAt: string;
+  sizeBytes: number;
+  accountCount: number;
+  characterCount: number;
+  hasWorkshop: boolean;
+  diff: RestorePointDiffSummary | null;
+  error: string | null;
+}
+
+export interface ImportAccountSelection {
+  accountId: string;
+  mode: ImportMergeMode;
+  characterIds: string[];
+}
+
+export interface ApplyImportSelectionInput {
+  token: string;
+  accounts: ImportAccountSelection[];
+  includeSettings: boolean;
+  includeWorkshop: boolean;
+}
+
 export interface AppBuildInfo {
   version: string;
   buildTime: string;
@@ -560,6 +855,17 @@ export interface WorkshopState {
   signalRule: WorkshopPriceSignalRule;
 }
 
+export interface WorkshopBackupData extends WorkshopState {
+  iconCache: Record<string, string>;
+}
+
+export interface WorkshopBackupSummary {
+  itemCount: number;
+  recipeCount: number;
+  priceCount: number;
+  inventoryCount: number;
+}
+
 export interface UpsertWorkshopItemInput {
   id?: string;
   name: string;
@@ -653,21 +959,39 @@ export interface AppState {
   selectedAccountId: string | null;
   selectedCharacterId: string | null;
   settings: AppSettings;
+  seasonRules: SeasonRuleSet;
+  scheduledSeasonRules: ScheduledSeasonRuleSet | null;
+  customTasks: CustomTaskDefinition[];
+  events: EventDefinition[];
   accounts: AccountState[];
   characters: CharacterState[];
   history: OperationLogEntry[];
-}
-
-export interface TaskCounterTarget {
-  scope: "missions" | "activities";
-  key: MissionCounterKey | ActivityCounterKey;
-  decrement?: number;
-}
-
-export interface TaskTicketTarget {
-  key: ActivityTicketKey;
-  increment?: number;
-}
+  redoHistory: OperationLogEntry[];
+}
+
+export type TaskCounterTarget =
+  | {
+      scope: "missions" | "activities";
+      key: MissionCounterKey | ActivityCounterKey;
+      decrement?: number;
+    }
+  | {
+      scope: "custom";
+      key: CustomTaskId;
+      decrement?: number;
+    };
+
+export type TaskTicketTarget =
+  | {
+      scope?: "activities";
+      key: ActivityTicketKey;
+      increment?: number;
+    }
+  | {
+      scope: "custom";
+      key: CustomTaskId;
+      increment?: number;
+    };
 
 export interface TaskDefinition {
   id: TaskId;
@@ -695,6 +1019,105 @@ export interface ApplyTaskActionInput {
   amount?: number;
 }
 
+export interface ApplyBatchTaskActionInput {
+  characterIds: string[];
+  taskId: TaskId;
+  action: TaskActionKind;
+  amount?: number;
+}
+
+export interface BatchTaskActionFailure {
+  characterId: string;
+  characterName: string;
+  message: string;
+}
+
+export interface TransferTicketsInput {
+  kind: TicketInventoryKind;
+  targetId: string;
+  fromCharacterId: string | null;
+  toCharacterId: string | null;
+  count: number;
+}
+
+export interface ApplyBatchTaskActionResult {
+  state: AppState;
+  appliedCharacterIds: string[];
+  failures: BatchTaskActionFailure[];
+}
+
+export type EnergyForecastKey = "baseCurrent" | "expeditionRemaining" | "transcendenceRemaining";
+
+export interface EnergyForecastCounter {
+  key: EnergyForecastKey;
+  current: number;
+  cap: number;
+  projected: number;
+  overflowAt: string | null;
+  wasted: number;
+}
+
+export interface CharacterEnergyForecast {
+  characterId: string;
+  name: string;
+  horizonEndsAt: string;
+  overflowAt: string | null;
+  counters: EnergyForecastCounter[];
+}
+
+export interface WeeklyPlanEntry {
+  characterId: string;
+  name: string;
+  energyAvailable: number;
+  expeditionAvailable: number;
+  transcendenceAvailable: number;
+  expeditionRuns: number;
+  transcendenceRuns: number;
+  energyUsed: number;
+  gold: number;
+}
+
+export interface WeeklyPlan {
+  generatedAt: string;
+  weekEndsAt: string;
+  expeditionSlots: number;
+  transcendenceSlots: number;
+  totalGold: number;
+  entries: WeeklyPlanEntry[];
+}
+
+export type AodeTicketKind = "expedition_choice_box" | "unknown_challenge" | "nightmare_instant";
+
+export interface AodePlanEntry {
+  characterId: string;
+  name: string;
+  energyAvailable: number;
+  energyNeeded: number;
+  purchaseCount: number;
+  transformCount: number;
+  gold: number;
+}
+
+export interface AodeTicketRecommendation {
+  kind: AodeTicketKind;
+  label: string;
+  remaining: number;
+  recommended: number;
+  goldPerTicket: number;
+}
+
+export interface AodePlan {
+  generatedAt: string;
+  weekEndsAt: string;
+  purchaseRemaining: number;
+  transformRemaining: number;
+  purchaseRecommended: number;
+  transformRecommended: number;
+  totalGold: number;
+  entries: AodePlanEntry[];
+  tickets: AodeTicketRecommendation[];
+}
+
 export interface CharacterSummary {
   characterId: string;
   name: string;
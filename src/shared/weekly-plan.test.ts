@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, createDefaultCharacter } from "./constants";
+import { buildWeeklyPlan, formatWeeklyPlanChecklist } from "./weekly-plan";
+
+function at(y: number, m: number, d: number, h: number, min = 0, sec = 0): Date {
+  return new Date(y, m - 1, d, h, min, sec, 0);
+}
+
+function createCharacter(id: string, name: string, now: Date): ReturnType<typeof createDefaultCharacter> {
+  const character = createDefaultCharacter(name, now.toISOString(), id, "acc-1");
+  character.energy.baseCurrent = 160;
+  character.energy.bonusCurrent = 0;
+  character.activities.expeditionRemaining = 0;
+  character.activities.expeditionTicketBonus = 0;
+  character.activities.transcendenceRemaining = 0;
+  character.activities.transcendenceTicketBonus = 0;
+  return character;
+}
+
+describe("shared/weekly-plan", () => {
+  it("routes the richer runs to characters that cannot use their energy elsewhere", () => {
+    const now = at(2026, 2, 25, 4, 0, 0);
+    const flexible = createCharacter("flex", "全能", now);
+    flexible.activities.expeditionRemaining = 4;
+    flexible.activities.transcendenceRemaining = 1;
+    const transOnly = createCharacter("trans", "只能超越", now);
+    transOnly.activities.expeditionBossRemaining = 0;
+    transOnly.activities.transcendenceRemaining = 1;
+    const settings = { ...DEFAULT_SETTINGS, transcendenceWarnThreshold: 2 };
+
+    const plan = buildWeeklyPlan([flexible, transOnly], settings, now);
+
+    expect(plan.weekEndsAt).toBe(at(2026, 2, 25, 5, 0, 0).toISOString());
+    expect(plan.transcendenceSlots).toBe(2);
+    expect(plan.entries.map((item) => [item.characterId, item.transcendenceRuns, item.expeditionRuns])).toEqual([
+      ["flex", 0, 2],
+      ["trans", 2, 0],
+    ]);
+    expect(plan.totalGold).toBe(settings.expeditionGoldPerRun * 2 + settings.transcendenceGoldPerRun * 2);
+    expect(plan.entries[0].energyUsed).toBe(160);
+  });
+
+  it("stops planning runs once the weekly reward threshold is used up", () => {
+    const now = at(2026, 2, 25, 4, 0, 0);
+    const character = createCharacter("char-1", "满阈值", now);
+    character.energy.baseCurrent = 800;
+    character.activities.expeditionRemaining = 10;
+    character.activities.transcendenceRemaining = 10;
+    character.stats.completions.transcendence = DEFAULT_SETTINGS.transcendenceWarnThreshold;
+    const settings = { ...DEFAULT_SETTINGS, expeditionWarnThreshold: 3 };
+
+    const plan = buildWeeklyPlan([character], settings, now);
+
+    expect(plan.transcendenceSlots).toBe(0);
+    expect(plan.entries[0].transcendenceRuns).toBe(0);
+    expect(plan.entries[0].expeditionRuns).toBe(3);
+    expect(formatWeeklyPlanChecklist(plan)).toContain("- [ ] 满阈值：远征 3 次");
+  });
+});
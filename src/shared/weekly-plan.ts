@@ -0,0 +1,151 @@
+import { TASK_DEFINITIONS } from "./constants";
+import { refreshCharacterState, type RefreshCharacterOptions } from "./engine";
+import { DEFAULT_SEASON_RULE_SET, countSeasonRuleTicks } from "./season-rules";
+import { getNextWeeklyReset } from "./time";
+import type { AppSettings, CharacterState, SeasonRuleKey, SeasonRuleSet, WeeklyPlan, WeeklyPlanEntry } from "./types";
+
+export type PlanLane = "expedition" | "transcendence";
+
+export interface PlanCandidate {
+  character: CharacterState;
+  energyRuns: number;
+  energyAvailable: number;
+  available: Record<PlanLane, number>;
+}
+
+export function getEnergyCost(taskId: PlanLane): number {
+  return TASK_DEFINITIONS.find((task) => task.id === taskId)?.energyCost ?? 80;
+}
+
+function countRuleGain(ruleSet: SeasonRuleSet, key: SeasonRuleKey, from: Date, to: Date, options: RefreshCharacterOptions): number {
+  const rule = ruleSet.rules.find((item) => item.key === key && item.stack);
+  return rule ? countSeasonRuleTicks(rule, from, to, options.timeZone) * rule.amount : 0;
+}
+
+export function buildPlanCandidate(character: CharacterState, now: Date, weekEnd: Date, options: RefreshCharacterOptions): PlanCandidate {
+  const ruleSet = options.ruleSet ?? DEFAULT_SEASON_RULE_SET;
+  const current = refreshCharacterState(character, now, options);
+  const energyAvailable =
+    current.energy.baseCurrent + current.energy.bonusCurrent + countRuleGain(ruleSet, "baseCurrent", now, weekEnd, options);
+  const runCost = Math.max(getEnergyCost("expedition"), getEnergyCost("transcendence"), 1);
+  return {
+    character: current,
+    energyAvailable,
+    energyRuns: Math.floor(energyAvailable / runCost),
+    available: {
+      expedition: Math.min(
+        current.activities.expeditionBossRemaining,
+        current.activities.expeditionRemaining +
+          current.activities.expeditionTicketBonus +
+          countRuleGain(ruleSet, "expeditionRemaining", now, weekEnd, options),
+      ),
+      transcendence: Math.min(
+        current.activities.transcendenceBossRemaining,
+        current.activities.transcendenceRemaining +
+          current.activities.transcendenceTicketBonus +
+          countRuleGain(ruleSet, "transcendenceRemaining", now, weekEnd, options),
+      ),
+    },
+  };
+}
+
+// With two lanes sharing one energy pool, filling the richer lane first is optimal as long as its runs
+// land on energy the poorer lane could not use anyway; only then do they displace poorer runs one for one.
+function allocateLanes(
+  candidates: PlanCandidate[],
+  primary: PlanLane,
+  secondary: PlanLane,
+  slots: Record<PlanLane, number>,
+): Array<Record<PlanLane, number>> {
+  const runs = candidates.map(() => ({ expedition: 0, transcendence: 0 }));
+  let primaryLeft = slots[primary];
+  candidates.forEach((candidate, index) => {
+    const slack = Math.max(0, candidate.energyRuns - candidate.available[secondary]);
+    const take = Math.min(primaryLeft, candidate.available[primary], slack);
+    runs[index][primary] = take;
+    primaryLeft -= take;
+  });
+  candidates.forEach((candidate, index) => {
+    const take = Math.min(primaryLeft, candidate.available[primary] - runs[index][primary], candidate.energyRuns - runs[index][primary]);
+    runs[index][primary] += Math.max(0, take);
+    primaryLeft -= Math.max(0, take);
+  });
+
+  let secondaryLeft = slots[secondary];
+  candidates.forEach((candidate, index) => {
+    const take = Math.min(secondaryLeft, candidate.available[secondary], candidate.energyRuns - runs[index][primary]);
+    runs[index][secondary] = Math.max(0, take);
+    secondaryLeft -= Math.max(0, take);
+  });
+  return runs;
+}
+
+export function buildWeeklyPlan(
+  characters: CharacterState[],
+  settings: AppSettings,
+  now = new Date(),
+  options: RefreshCharacterOptions = {},
+): WeeklyPlan {
+  const weekEnd = getNextWeeklyReset(now, options.timeZone);
+  const candidates = characters.map((item) => buildPlanCandidate(item, now, weekEnd, options));
+  const completed = candidates.reduce(
+    (acc, item) => ({
+      expedition: acc.expedition + item.character.stats.completions.expedition,
+      transcendence: acc.transcendence + item.character.stats.completions.transcendence,
+    }),
+    { expedition: 0, transcendence: 0 },
+  );
+  const slots: Record<PlanLane, number> = {
+    expedition: Math.max(0, settings.expeditionWarnThreshold - completed.expedition),
+    transcendence: Math.max(0, settings.transcendenceWarnThreshold - completed.transcendence),
+  };
+  const transcendenceFirst = settings.transcendenceGoldPerRun >= settings.expeditionGoldPerRun;
+  const runs = transcendenceFirst
+    ? allocateLanes(candidates, "transcendence", "expedition", slots)
+    : allocateLanes(candidates, "expedition", "transcendence", slots);
+
+  const entries = candidates.map((candidate, index): WeeklyPlanEntry => {
+    const { expedition, transcendence } = runs[index];
+    return {
+      characterId: candidate.character.id,
+      name: candidate.character.name,
+      energyAvailable: candidate.energyAvailable,
+      expeditionAvailable: candidate.available.expedition,
+      transcendenceAvailable: candidate.available.transcendence,
+      expeditionRuns: expedition,
+      transcendenceRuns: transcendence,
+      energyUsed: expedition * getEnergyCost("expedition") + transcendence * getEnergyCost("transcendence"),
+      gold: expedition * settings.expeditionGoldPerRun + transcendence * settings.transcendenceGoldPerRun,
+    };
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    weekEndsAt: weekEnd.toISOString(),
+    expeditionSlots: slots.expedition,
+    transcendenceSlots: slots.transcendence,
+    totalGold: entries.reduce((acc, item) => acc + item.gold, 0),
+    entries,
+  };
+}
+
+export function formatWeeklyPlanChecklist(plan: WeeklyPlan): string {
+  const lines = [
+    `# 本周副本计划（截至 ${new Date(plan.weekEndsAt).toLocaleString()}）`,
+    "",
+    `预计收益 ${plan.totalGold.toLocaleString()} 金币；远征剩余阈值 ${plan.expeditionSlots} 次，超越剩余阈值 ${plan.transcendenceSlots} 次。`,
+    "",
+  ];
+  plan.entries.forEach((entry) => {
+    if (entry.transcendenceRuns > 0) {
+      lines.push(`- [ ] ${entry.name}：超越 ${entry.transcendenceRuns} 次`);
+    }
+    if (entry.expeditionRuns > 0) {
+      lines.push(`- [ ] ${entry.name}：远征 ${entry.expeditionRuns} 次`);
+    }
+  });
+  if (lines.length === 4) {
+    lines.push("- 本周没有可安排的副本次数。");
+  }
+  return `${lines.join("\n")}\n`;
+}